@@ -0,0 +1,32 @@
+-- Analysis Jobs Table
+CREATE TABLE IF NOT EXISTS analysis_jobs (
+    id UUID PRIMARY KEY,
+    type VARCHAR(30) NOT NULL CHECK (type IN ('text', 'speech', 'emotion_facial')),
+    status VARCHAR(30) NOT NULL CHECK (status IN ('queued', 'running', 'completed', 'partially_completed', 'failed', 'cancelled')),
+    progress JSONB NOT NULL,
+    webhook JSONB,
+    metadata JSONB,
+    owner_id VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    completed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Analysis Job Items Table
+CREATE TABLE IF NOT EXISTS analysis_job_items (
+    job_id UUID NOT NULL REFERENCES analysis_jobs(id) ON DELETE CASCADE,
+    item_index INTEGER NOT NULL CHECK (item_index >= 0),
+    status VARCHAR(20) NOT NULL CHECK (status IN ('queued', 'running', 'retrying', 'succeeded', 'failed', 'cancelled')),
+    payload JSONB NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    result JSONB,
+    error JSONB,
+    next_attempt_at TIMESTAMP WITH TIME ZONE,
+    started_at TIMESTAMP WITH TIME ZONE,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    PRIMARY KEY (job_id, item_index)
+);
+
+-- Indexes for job polling and recovery
+CREATE INDEX IF NOT EXISTS idx_analysis_jobs_unfinished ON analysis_jobs(created_at) WHERE completed_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_analysis_jobs_webhook_pending ON analysis_jobs(created_at) WHERE webhook IS NOT NULL AND webhook->>'deliveredAt' IS NULL;
@@ -0,0 +1,20 @@
+-- LLM Usage Records Table
+CREATE TABLE IF NOT EXISTS llm_usage_records (
+    id UUID PRIMARY KEY,
+    session_id VARCHAR(255),
+    user_id VARCHAR(255),
+    task VARCHAR(50) NOT NULL,
+    provider VARCHAR(30) NOT NULL,
+    model VARCHAR(100) NOT NULL,
+    prompt_tokens INTEGER NOT NULL CHECK (prompt_tokens >= 0),
+    completion_tokens INTEGER NOT NULL CHECK (completion_tokens >= 0),
+    total_tokens INTEGER NOT NULL CHECK (total_tokens >= 0),
+    cost_usd NUMERIC(14, 8) NOT NULL DEFAULT 0,
+    estimated BOOLEAN NOT NULL DEFAULT FALSE,
+    duration_ms INTEGER,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Indexes for spend per billing period and per-session lookups
+CREATE INDEX IF NOT EXISTS idx_llm_usage_records_user_created ON llm_usage_records(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_records_session ON llm_usage_records(session_id, created_at);
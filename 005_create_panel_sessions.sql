@@ -0,0 +1,16 @@
+-- Panel Sessions Table
+CREATE TABLE IF NOT EXISTS panel_sessions (
+    session_id VARCHAR(255) PRIMARY KEY,
+    user_id VARCHAR(255) NOT NULL,
+    panel_state JSONB NOT NULL,
+    evaluations JSONB NOT NULL DEFAULT '[]',
+    summary JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Add panel_consensus column to performance_reports table
+ALTER TABLE performance_reports
+ADD COLUMN IF NOT EXISTS panel_consensus JSONB;
+
+COMMENT ON COLUMN performance_reports.panel_consensus IS 'Panel interview consensus and disagreement across interviewer personas, when the session used a panel';
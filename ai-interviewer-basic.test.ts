@@ -160,8 +160,8 @@ describe('AI Interviewer Service - Basic Functionality', () => {
       // Create a service with a failing OpenAI mock
       const failingService = new DefaultAIInterviewerService('invalid-key');
       
-      // Override the openai instance to use our failing mock
-      (failingService as any).openai = {
+      // Override the OpenAI client behind the provider to use our failing mock
+      (failingService as any).provider.client = {
         chat: {
           completions: {
             create: mockCreate
@@ -1,7 +1,9 @@
 import { Request, Response } from 'express';
-import { DefaultAIInterviewerService } from '../services/ai-interviewer-service';
+import { DefaultAIInterviewerService, summarizeInterviewConfig } from '../services/ai-interviewer-service';
 import { TechnicalEvaluationService } from '../services/technical-evaluation-service';
 import { PersonalityManager, ConversationEvent } from '../services/personality-manager';
+import { PanelManager } from '../services/panel-manager';
+import { PanelInterviewService } from '../services/panel-interview-service';
 import {
   QuestionGenerationContext,
   FollowUpContext,
@@ -10,24 +12,45 @@ import {
   DifficultyAdaptationContext,
   PersonalityAdaptationContext,
   AIPersonalityState,
+  AIStreamEvent,
+  AIStreamEventType,
   DifficultyLevel,
   QuestionGenerationError,
   ResponseEvaluationError,
   TechnicalEvaluationError,
   DifficultyAdaptationError,
   PersonalityAdaptationError,
+  PanelConfig,
+  PanelSession,
+  PanelSessionRepository,
+  PanelConfigurationError,
+  InterviewConfigSummary,
 } from '../types/ai-interviewer';
+import { InterviewConfigError, InterviewConfigService, UnauthorizedAccessError } from '../types/interview-config';
+import { LLMUsageTracker } from '../types/llm-usage';
+import { UsageLimitExceededError } from '../types/subscription';
 import { logger } from '../utils/logger';
 
 export interface AuthenticatedRequest extends Request {
   userId?: string;
+  user?: {
+    id: string;
+    email: string;
+    role: string;
+  };
 }
 
 export class AIInterviewerController {
   private technicalEvaluationService: TechnicalEvaluationService;
+  private panelService: PanelInterviewService;
 
-  constructor(private aiService: DefaultAIInterviewerService) {
+  constructor(
+    private aiService: DefaultAIInterviewerService,
+    private sessions: Pick<InterviewConfigService, 'getSession' | 'getExpectedSolution'>,
+    private panels: PanelSessionRepository
+  ) {
     this.technicalEvaluationService = new TechnicalEvaluationService();
+    this.panelService = new PanelInterviewService(aiService);
   }
 
   /**
@@ -44,7 +67,8 @@ export class AIInterviewerController {
         return;
       }
 
-      const context: QuestionGenerationContext = req.body;
+      // Usage is billed to the authenticated caller, never to a userId in the body
+      const context: QuestionGenerationContext = { ...req.body, userId };
       
       // Validate required fields
       if (!context.sessionId || !context.interviewConfig) {
@@ -55,7 +79,7 @@ export class AIInterviewerController {
         return;
       }
 
-      const question = await this.aiService.generateQuestion(context);
+      const question = await this.aiService.generateQuestion(await this.withStoredGrounding(context, userId));
 
       res.status(201).json({
         success: true,
@@ -80,7 +104,7 @@ export class AIInterviewerController {
         return;
       }
 
-      const context: FollowUpContext = req.body;
+      const context: FollowUpContext = { ...req.body, userId };
       
       // Validate required fields
       if (!context.sessionId || !context.originalQuestion || !context.userResponse) {
@@ -91,7 +115,7 @@ export class AIInterviewerController {
         return;
       }
 
-      const followUpQuestion = await this.aiService.generateFollowUpQuestion(context);
+      const followUpQuestion = await this.aiService.generateFollowUpQuestion(await this.withStoredGrounding(context, userId));
 
       res.status(201).json({
         success: true,
@@ -116,7 +140,7 @@ export class AIInterviewerController {
         return;
       }
 
-      const context: ResponseEvaluationContext = req.body;
+      const context: ResponseEvaluationContext = { ...req.body, userId };
       
       // Validate required fields
       if (!context.sessionId || !context.question || !context.userResponse) {
@@ -127,7 +151,7 @@ export class AIInterviewerController {
         return;
       }
 
-      const evaluation = await this.aiService.evaluateResponse(context);
+      const evaluation = await this.aiService.evaluateResponse(await this.withStoredGrounding(context, userId));
 
       res.json({
         success: true,
@@ -138,6 +162,102 @@ export class AIInterviewerController {
     }
   }
 
+  /**
+   * Stream question generation as server-sent events
+   */
+  async streamQuestion(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.userId) {
+      res.status(401).json({
+        error: 'Authentication required',
+        code: 'AUTHENTICATION_REQUIRED',
+      });
+      return;
+    }
+
+    const context: QuestionGenerationContext = { ...req.body, userId: req.userId };
+    if (!context.sessionId || !context.interviewConfig) {
+      res.status(400).json({
+        error: 'Missing required fields: sessionId, interviewConfig',
+        code: 'INVALID_REQUEST',
+      });
+      return;
+    }
+
+    let groundedContext: QuestionGenerationContext;
+    try {
+      groundedContext = await this.withStoredGrounding(context, req.userId);
+    } catch (error) {
+      this.handleError(error, res);
+      return;
+    }
+
+    await this.sendEventStream(res, this.aiService.streamQuestion(groundedContext));
+  }
+
+  /**
+   * Stream follow-up question generation as server-sent events
+   */
+  async streamFollowUp(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.userId) {
+      res.status(401).json({
+        error: 'Authentication required',
+        code: 'AUTHENTICATION_REQUIRED',
+      });
+      return;
+    }
+
+    const context: FollowUpContext = { ...req.body, userId: req.userId };
+    if (!context.sessionId || !context.originalQuestion || !context.userResponse) {
+      res.status(400).json({
+        error: 'Missing required fields: sessionId, originalQuestion, userResponse',
+        code: 'INVALID_REQUEST',
+      });
+      return;
+    }
+
+    let groundedContext: FollowUpContext;
+    try {
+      groundedContext = await this.withStoredGrounding(context, req.userId);
+    } catch (error) {
+      this.handleError(error, res);
+      return;
+    }
+
+    await this.sendEventStream(res, this.aiService.streamFollowUpQuestion(groundedContext));
+  }
+
+  /**
+   * Stream a response evaluation as server-sent events
+   */
+  async streamEvaluateResponse(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.userId) {
+      res.status(401).json({
+        error: 'Authentication required',
+        code: 'AUTHENTICATION_REQUIRED',
+      });
+      return;
+    }
+
+    const context: ResponseEvaluationContext = { ...req.body, userId: req.userId };
+    if (!context.sessionId || !context.question || !context.userResponse) {
+      res.status(400).json({
+        error: 'Missing required fields: sessionId, question, userResponse',
+        code: 'INVALID_REQUEST',
+      });
+      return;
+    }
+
+    let groundedContext: ResponseEvaluationContext;
+    try {
+      groundedContext = await this.withStoredGrounding(context, req.userId);
+    } catch (error) {
+      this.handleError(error, res);
+      return;
+    }
+
+    await this.sendEventStream(res, this.aiService.streamResponseEvaluation(groundedContext));
+  }
+
   /**
    * Evaluate a technical response with role-specific criteria
    */
@@ -152,7 +272,7 @@ export class AIInterviewerController {
         return;
       }
 
-      const { sessionId, question, userResponse, role, industry, expectedSolution, personalityState } = req.body;
+      const { sessionId, question, userResponse, role, industry, personalityState } = req.body;
       
       // Validate required fields
       if (!sessionId || !question || !userResponse || !role || !industry) {
@@ -168,8 +288,12 @@ export class AIInterviewerController {
       const roleSpecificCriteria = this.technicalEvaluationService.getRoleSpecificCriteria(role, industry);
       const technicalDomain = this.technicalEvaluationService.getTechnicalDomainForRole(role);
 
+      // Test cases come from the stored question only, never from the request
+      const expectedSolution = await this.sessions.getExpectedSolution(sessionId, userId, question.id) ?? undefined;
+
       const context: TechnicalEvaluationContext = {
         sessionId,
+        userId,
         question,
         userResponse,
         roleSpecificCriteria,
@@ -203,7 +327,7 @@ export class AIInterviewerController {
         return;
       }
 
-      const context: DifficultyAdaptationContext = req.body;
+      const context: DifficultyAdaptationContext = { ...req.body, userId };
       
       // Validate required fields
       if (!context.sessionId || !context.performanceMetrics || !context.currentDifficulty) {
@@ -322,7 +446,7 @@ export class AIInterviewerController {
         return;
       }
 
-      const context: PersonalityAdaptationContext = req.body;
+      const context: PersonalityAdaptationContext = { ...req.body, userId };
       
       // Validate required fields
       if (!context.sessionId || !context.currentPersonality) {
@@ -529,6 +653,275 @@ export class AIInterviewerController {
     }
   }
 
+  /**
+   * Initialize the panel of 2-4 interviewer personas saved with the
+   * session's interview configuration
+   */
+  async initializePanel(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        res.status(401).json({
+          error: 'Authentication required',
+          code: 'AUTHENTICATION_REQUIRED',
+        });
+        return;
+      }
+
+      const { sessionId } = req.body;
+
+      if (!sessionId) {
+        res.status(400).json({
+          error: 'Missing required field: sessionId',
+          code: 'INVALID_REQUEST',
+        });
+        return;
+      }
+
+      const session = await this.sessions.getSession(sessionId);
+      if (session.userId !== userId) {
+        throw new UnauthorizedAccessError('User does not have access to this session');
+      }
+
+      const panel = session.config.settings?.panel;
+      if (!panel) {
+        throw new PanelConfigurationError('The interview configuration has no panel');
+      }
+
+      // Stored settings use the interview-config types; the enums share their string values
+      const panelState = PanelManager.initializePanel(panel as unknown as PanelConfig);
+      await this.panels.save({
+        sessionId,
+        userId,
+        panelState,
+        evaluations: [],
+        summary: PanelManager.summarizePanel([]),
+      });
+
+      res.status(201).json({
+        success: true,
+        data: panelState,
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * Generate the next question from whichever panelist holds the turn
+   */
+  async generatePanelQuestion(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        res.status(401).json({
+          error: 'Authentication required',
+          code: 'AUTHENTICATION_REQUIRED',
+        });
+        return;
+      }
+
+      const { context } = req.body;
+
+      if (!context?.sessionId || !context?.interviewConfig) {
+        res.status(400).json({
+          error: 'Missing required fields: context.sessionId, context.interviewConfig',
+          code: 'INVALID_REQUEST',
+        });
+        return;
+      }
+
+      const groundedContext = await this.withStoredGrounding({ ...context, userId }, userId);
+      const panelSession = await this.getPanelSession(context.sessionId);
+      const result = await this.panelService.generateQuestion(groundedContext, panelSession.panelState);
+      await this.panels.save({ ...panelSession, panelState: result.panelState });
+
+      res.status(201).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * Generate a panel follow-up, handing off to another panelist when the policy allows
+   */
+  async generatePanelFollowUp(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        res.status(401).json({
+          error: 'Authentication required',
+          code: 'AUTHENTICATION_REQUIRED',
+        });
+        return;
+      }
+
+      const { context, focusArea } = req.body;
+
+      if (!context?.sessionId || !context?.originalQuestion || !context?.userResponse) {
+        res.status(400).json({
+          error: 'Missing required fields: context.sessionId, context.originalQuestion, context.userResponse',
+          code: 'INVALID_REQUEST',
+        });
+        return;
+      }
+
+      const groundedContext = await this.withStoredGrounding({ ...context, userId }, userId);
+      const panelSession = await this.getPanelSession(context.sessionId);
+      const result = await this.panelService.generateFollowUpQuestion(groundedContext, panelSession.panelState, focusArea);
+      await this.panels.save({ ...panelSession, panelState: result.panelState });
+
+      res.status(201).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * Evaluate a response separately by every panelist and combine the results
+   */
+  async evaluatePanelResponse(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        res.status(401).json({
+          error: 'Authentication required',
+          code: 'AUTHENTICATION_REQUIRED',
+        });
+        return;
+      }
+
+      const { context } = req.body;
+
+      if (!context?.sessionId || !context?.question || !context?.userResponse) {
+        res.status(400).json({
+          error: 'Missing required fields: context.sessionId, context.question, context.userResponse',
+          code: 'INVALID_REQUEST',
+        });
+        return;
+      }
+
+      const groundedContext = await this.withStoredGrounding({ ...context, userId }, userId);
+      const panelSession = await this.getPanelSession(context.sessionId);
+      const result = await this.panelService.evaluateResponse(groundedContext, panelSession.panelState);
+
+      // A re-evaluated question replaces its earlier evaluation
+      const evaluations = [
+        ...panelSession.evaluations.filter(evaluation => evaluation.questionId !== result.panelEvaluation.questionId),
+        result.panelEvaluation,
+      ];
+      await this.panels.save({
+        ...panelSession,
+        panelState: result.panelState,
+        evaluations,
+        summary: PanelManager.summarizePanel(evaluations),
+      });
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * Summarize panel consensus and disagreement across a session
+   */
+  async getPanelReport(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        res.status(401).json({
+          error: 'Authentication required',
+          code: 'AUTHENTICATION_REQUIRED',
+        });
+        return;
+      }
+
+      const { sessionId } = req.body;
+
+      if (!sessionId) {
+        res.status(400).json({
+          error: 'Missing required field: sessionId',
+          code: 'INVALID_REQUEST',
+        });
+        return;
+      }
+
+      const session = await this.sessions.getSession(sessionId);
+      if (session.userId !== userId) {
+        throw new UnauthorizedAccessError('User does not have access to this session');
+      }
+
+      const panelSession = await this.getPanelSession(sessionId);
+
+      res.json({
+        success: true,
+        data: panelSession.summary,
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * Get LLM token and cost usage for a session (admin only)
+   */
+  async getSessionUsage(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const tracker = this.authorizeUsageRequest(req, res);
+      if (!tracker) {
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: await tracker.getSessionUsage(req.params.sessionId),
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * Get LLM token and cost usage for a user, optionally within a date range (admin only)
+   */
+  async getUserUsage(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const tracker = this.authorizeUsageRequest(req, res);
+      if (!tracker) {
+        return;
+      }
+
+      const from = req.query.from ? new Date(req.query.from as string) : undefined;
+      const to = req.query.to ? new Date(req.query.to as string) : undefined;
+
+      if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid date range: from and to must be ISO dates',
+          code: 'INVALID_REQUEST',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: await tracker.getUserUsage(req.params.userId, from, to),
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
   /**
    * Health check endpoint for AI interviewer service
    */
@@ -639,10 +1032,116 @@ export class AIInterviewerController {
     }
   }
 
+  private async getPanelSession(sessionId: string): Promise<PanelSession> {
+    const panelSession = await this.panels.findBySessionId(sessionId);
+    if (!panelSession) {
+      throw new PanelConfigurationError('The panel has not been initialized for this session');
+    }
+    return panelSession;
+  }
+
+  /**
+   * Replace any grounding in the request with the profile built from the resume
+   * and job description saved with the session's interview configuration
+   */
+  private async withStoredGrounding<T extends { sessionId: string; interviewConfig?: InterviewConfigSummary }>(
+    context: T,
+    userId: string
+  ): Promise<T> {
+    const session = await this.sessions.getSession(context.sessionId);
+    if (session.userId !== userId) {
+      throw new UnauthorizedAccessError('User does not have access to this session');
+    }
+
+    const interviewConfig = context.interviewConfig
+      ? { ...context.interviewConfig, grounding: session.config.grounding?.profile }
+      : summarizeInterviewConfig(session.config);
+
+    return { ...context, interviewConfig };
+  }
+
+  private async sendEventStream(
+    res: Response,
+    events: AsyncGenerator<AIStreamEvent>
+  ): Promise<void> {
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no'); // Disable proxy buffering (nginx)
+    res.flushHeaders();
+
+    // The request emits 'close' once its body has been read, so a disconnect
+    // shows up as the response closing before it was ended
+    let clientClosed = false;
+    res.on('close', () => {
+      clientClosed = !res.writableEnded;
+    });
+
+    try {
+      for await (const event of events) {
+        if (clientClosed) {
+          await events.return(undefined);
+          break;
+        }
+
+        res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      }
+    } catch (error) {
+      logger.error('AI Interviewer stream error', { error });
+      res.write(`event: ${AIStreamEventType.ERROR}\ndata: ${JSON.stringify({
+        type: AIStreamEventType.ERROR,
+        error: { message: 'Internal server error', code: 'INTERNAL_ERROR' },
+      })}\n\n`);
+    } finally {
+      res.end();
+    }
+  }
+
+  private authorizeUsageRequest(req: AuthenticatedRequest, res: Response): LLMUsageTracker | null {
+    if (!req.userId && !req.user) {
+      res.status(401).json({
+        error: 'Authentication required',
+        code: 'AUTHENTICATION_REQUIRED',
+      });
+      return null;
+    }
+
+    if (req.user?.role !== 'admin') {
+      res.status(403).json({
+        error: 'Admin access required',
+        code: 'FORBIDDEN',
+      });
+      return null;
+    }
+
+    const tracker = this.aiService.getUsageTracker();
+    if (!tracker) {
+      res.status(503).json({
+        error: 'LLM usage tracking is not enabled',
+        code: 'USAGE_TRACKING_DISABLED',
+      });
+      return null;
+    }
+
+    return tracker;
+  }
+
   private handleError(error: any, res: Response): void {
     logger.error('AI Interviewer controller error', { error });
 
-    if (error instanceof QuestionGenerationError) {
+    if (error instanceof UsageLimitExceededError) {
+      res.status(error.statusCode).json({
+        error: error.message,
+        code: error.code,
+        usageType: error.usageType,
+      });
+    } else if (error instanceof PanelConfigurationError || error instanceof InterviewConfigError) {
+      res.status(error.statusCode).json({
+        error: error.message,
+        code: error.code,
+      });
+    } else if (error instanceof QuestionGenerationError) {
       res.status(500).json({
         error: error.message,
         code: error.code,
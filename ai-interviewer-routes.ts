@@ -1,12 +1,37 @@
 import { Router } from 'express';
 import { AIInterviewerController } from '../controllers/ai-interviewer-controller';
 import { DefaultAIInterviewerService } from '../services/ai-interviewer-service';
+import { DatabaseLLMUsageTracker } from '../services/llm-usage-tracker';
+import { PostgresLLMUsageRepository } from '../database/llm-usage-repository';
+import { PostgresPanelSessionRepository } from '../database/panel-session-repository';
+import { UsageEnforcementService } from '../services/usage-enforcement';
+import { DefaultSubscriptionService } from '../services/subscription';
+import { DatabaseSubscriptionRepository } from '../database/subscription-repository';
+import { db } from '../database/connection';
+import { InMemoryQuestionCache } from '../services/question-cache-service';
+import { createCodeRunnerFromEnv } from '../services/code-sandbox';
+import { DefaultInterviewConfigService } from '../services/interview-config-service';
+import { DatabaseInterviewConfigRepository } from '../repositories/interview-config-repository';
 
 const router = Router();
 
 // Initialize AI interviewer service and controller
-const aiInterviewerService = new DefaultAIInterviewerService();
-const aiInterviewerController = new AIInterviewerController(aiInterviewerService);
+export const llmUsageTracker = new DatabaseLLMUsageTracker(new PostgresLLMUsageRepository(db));
+const usageEnforcementService = new UsageEnforcementService(
+  new DefaultSubscriptionService(new DatabaseSubscriptionRepository(db)),
+  llmUsageTracker
+);
+const aiInterviewerService = new DefaultAIInterviewerService(undefined, {
+  usageTracker: llmUsageTracker,
+  aiSpendLimiter: usageEnforcementService,
+  questionCache: new InMemoryQuestionCache(),
+  codeRunner: createCodeRunnerFromEnv(),
+});
+const aiInterviewerController = new AIInterviewerController(
+  aiInterviewerService,
+  new DefaultInterviewConfigService(new DatabaseInterviewConfigRepository(db)),
+  new PostgresPanelSessionRepository(db)
+);
 
 // Question generation routes
 router.post('/questions/generate', (req, res) => 
@@ -17,6 +42,19 @@ router.post('/questions/follow-up', (req, res) =>
   aiInterviewerController.generateFollowUp(req, res)
 );
 
+// Streaming (server-sent events) variants
+router.post('/questions/generate/stream', (req, res) => 
+  aiInterviewerController.streamQuestion(req, res)
+);
+
+router.post('/questions/follow-up/stream', (req, res) => 
+  aiInterviewerController.streamFollowUp(req, res)
+);
+
+router.post('/responses/evaluate/stream', (req, res) => 
+  aiInterviewerController.streamEvaluateResponse(req, res)
+);
+
 // Response evaluation routes
 router.post('/responses/evaluate', (req, res) => 
   aiInterviewerController.evaluateResponse(req, res)
@@ -66,6 +104,36 @@ router.post('/preferences/questions', (req, res) =>
   aiInterviewerController.getQuestionPreferences(req, res)
 );
 
+// Panel interview routes
+router.post('/panel/initialize', (req, res) => 
+  aiInterviewerController.initializePanel(req, res)
+);
+
+router.post('/panel/questions/generate', (req, res) => 
+  aiInterviewerController.generatePanelQuestion(req, res)
+);
+
+router.post('/panel/questions/follow-up', (req, res) => 
+  aiInterviewerController.generatePanelFollowUp(req, res)
+);
+
+router.post('/panel/responses/evaluate', (req, res) => 
+  aiInterviewerController.evaluatePanelResponse(req, res)
+);
+
+router.post('/panel/report', (req, res) => 
+  aiInterviewerController.getPanelReport(req, res)
+);
+
+// Admin usage accounting routes
+router.get('/admin/usage/sessions/:sessionId', (req, res) => 
+  aiInterviewerController.getSessionUsage(req, res)
+);
+
+router.get('/admin/usage/users/:userId', (req, res) => 
+  aiInterviewerController.getUserUsage(req, res)
+);
+
 // Health check
 router.get('/health', (req, res) => 
   aiInterviewerController.healthCheck(req, res)
@@ -1,4 +1,3 @@
-import OpenAI from 'openai';
 import { v4 as uuidv4 } from 'uuid';
 import {
   AIInterviewerService,
@@ -28,17 +27,112 @@ import {
   TechnicalEvaluationError,
   DifficultyAdaptationError,
   PersonalityAdaptationError,
+  AIInterviewerServiceOptions,
+  EvaluationMetadata,
+  QuestionMetadata,
+  AIInterviewerError,
+  AIStreamEvent,
+  AIStreamEventType,
+  AIErrorStreamEvent,
+  ContextBudgetConfig,
+  ResponseSummary,
+  InterviewConfigSummary,
+  AIPersonalityConfig,
 } from '../types/ai-interviewer';
+import { InterviewConfig } from '../types/interview-config';
+import { LLMProvider, LLMTask, LLMCompletionRequest, LLMStreamChunk } from '../types/llm-provider';
+import { JSONSchema, StructuredCompletion, StructuredOutputFlag } from '../types/structured-output';
+import { OpenAILLMProvider, createLLMProviderFromEnv } from './llm-providers';
+import { StructuredOutputValidator } from './structured-output-validator';
+import { IncrementalJsonParser } from './streaming-json-parser';
+import { ConversationMemoryManager } from './conversation-memory-manager';
+import { DefaultPromptRegistry } from './prompt-registry-service';
+import { MeteredLLMProvider } from './llm-usage-tracker';
+import { LLMUsageTracker } from '../types/llm-usage';
+import { UsageLimitExceededError } from '../types/subscription';
+import { QuestionCache } from '../types/question-cache';
+import { CodeRunner, CodeExecutionReport } from '../types/code-execution';
+import { compareComplexity } from './code-sandbox';
+import { InterviewGrounding } from '../types/interview-grounding';
+import { PromptRegistry, PromptKind, PromptTemplateParams, RenderedPrompt } from '../types/prompt-registry';
+import {
+  GENERATED_QUESTION_SCHEMA,
+  FOLLOW_UP_QUESTION_SCHEMA,
+  RESPONSE_EVALUATION_SCHEMA,
+  TECHNICAL_RESPONSE_EVALUATION_SCHEMA,
+} from './ai-response-schemas';
 import { logger } from '../utils/logger';
+import { truncateToTokens } from '../utils/token-estimator';
+
+// Resume and job description context is capped so it never crowds out the interview history
+const GROUNDING_CONTEXT_TOKENS = 600;
+
+// Share of the technical score taken from test results when code was run
+const TEST_RESULT_WEIGHT = 0.5;
+
+// Stored configurations use the interview-config types; the enums share their string values
+export function summarizeInterviewConfig(config: InterviewConfig): InterviewConfigSummary {
+  return {
+    id: config.id,
+    role: config.role,
+    industry: config.industry,
+    difficulty: config.difficulty as string as DifficultyLevel,
+    duration: config.duration,
+    questionTypes: config.questionTypes.map(type => type as string as QuestionType),
+    focusAreas: config.focusAreas.map(area => area as string as FocusArea),
+    aiPersonality: config.aiPersonality as unknown as AIPersonalityConfig,
+    grounding: config.grounding?.profile,
+  };
+}
 
 export class DefaultAIInterviewerService implements AIInterviewerService {
-  private openai: OpenAI;
-  private modelVersion: string = 'gpt-4';
+  private provider: LLMProvider;
+  private maxRepairAttempts: number;
+  private contextBudget: ContextBudgetConfig;
+  private promptRegistry: PromptRegistry;
+  private usageTracker?: LLMUsageTracker;
+  private questionCache?: QuestionCache;
+  private temperature?: number;
+  private codeRunner?: CodeRunner;
+
+  /**
+   * Accepts an LLM provider, or an OpenAI API key for backwards compatibility.
+   * With neither, the provider is selected from the environment (LLM_PROVIDER).
+   */
+  constructor(providerOrApiKey?: LLMProvider | string, options: AIInterviewerServiceOptions = {}) {
+    if (typeof providerOrApiKey === 'string') {
+      this.provider = new OpenAILLMProvider({ apiKey: providerOrApiKey });
+    } else {
+      this.provider = providerOrApiKey || createLLMProviderFromEnv();
+    }
 
-  constructor(apiKey?: string) {
-    this.openai = new OpenAI({
-      apiKey: apiKey || process.env.OPENAI_API_KEY,
-    });
+    this.maxRepairAttempts = Math.max(0, options.maxRepairAttempts ?? 2);
+    this.contextBudget = ConversationMemoryManager.resolveBudget(options.contextBudget);
+    this.promptRegistry = options.promptRegistry || new DefaultPromptRegistry();
+    this.questionCache = options.questionCache;
+    this.temperature = options.temperature;
+    this.codeRunner = options.codeRunner;
+
+    if (options.usageTracker) {
+      this.usageTracker = options.usageTracker;
+      this.provider = new MeteredLLMProvider(this.provider, options.usageTracker, options.aiSpendLimiter);
+    }
+  }
+
+  private get modelVersion(): string {
+    return this.provider.model;
+  }
+
+  getProvider(): LLMProvider {
+    return this.provider;
+  }
+
+  getPromptRegistry(): PromptRegistry {
+    return this.promptRegistry;
+  }
+
+  getUsageTracker(): LLMUsageTracker | undefined {
+    return this.usageTracker;
   }
 
   async generateQuestion(context: QuestionGenerationContext): Promise<GeneratedQuestion> {
@@ -50,35 +144,20 @@ export class DefaultAIInterviewerService implements AIInterviewerService {
         difficulty: context.difficulty,
       });
 
-      const prompt = this.buildQuestionGenerationPrompt(context);
-      
-      const completion = await this.openai.chat.completions.create({
-        model: this.modelVersion,
-        messages: [
-          {
-            role: 'system',
-            content: this.getSystemPrompt(context.personalityState),
-          },
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        temperature: 0.7,
-        max_tokens: 1000,
-      });
-
-      const response = completion.choices[0]?.message?.content;
-      if (!response) {
-        throw new QuestionGenerationError('No response from OpenAI', context);
-      }
-
-      const question = this.parseQuestionResponse(response, context);
+      const questionCache = this.getQuestionCache(context);
+      const question = questionCache
+        ? (await questionCache.getOrGenerate(
+          context,
+          () => this.generateQuestionFromModel(context),
+          this.getQuestionCacheVariant(context)
+        )).question
+        : await this.generateQuestionFromModel(context);
       
       logger.info('Question generated successfully', {
         sessionId: context.sessionId,
         questionId: question.id,
         questionType: question.type,
+        cacheHit: question.metadata.cacheHit === true,
       });
 
       return question;
@@ -89,7 +168,7 @@ export class DefaultAIInterviewerService implements AIInterviewerService {
         questionIndex: context.currentQuestionIndex,
       });
       
-      if (error instanceof QuestionGenerationError) {
+      if (error instanceof QuestionGenerationError || error instanceof UsageLimitExceededError) {
         throw error;
       }
       
@@ -107,30 +186,12 @@ export class DefaultAIInterviewerService implements AIInterviewerService {
         originalQuestionId: context.originalQuestion.id,
       });
 
-      const prompt = this.buildFollowUpPrompt(context);
-      
-      const completion = await this.openai.chat.completions.create({
-        model: this.modelVersion,
-        messages: [
-          {
-            role: 'system',
-            content: this.getSystemPrompt(context.personalityState),
-          },
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        temperature: 0.8, // Slightly higher temperature for more varied follow-ups
-        max_tokens: 800,
-      });
-
-      const response = completion.choices[0]?.message?.content;
-      if (!response) {
-        throw new QuestionGenerationError('No response from OpenAI for follow-up');
-      }
+      const completion = await this.completeStructured(
+        this.buildFollowUpRequest(context),
+        FOLLOW_UP_QUESTION_SCHEMA
+      );
 
-      const followUpQuestion = this.parseFollowUpResponse(response, context);
+      const followUpQuestion = this.parseFollowUpResponse(completion, context);
       
       logger.info('Follow-up question generated successfully', {
         sessionId: context.sessionId,
@@ -144,6 +205,10 @@ export class DefaultAIInterviewerService implements AIInterviewerService {
         sessionId: context.sessionId,
       });
       
+      if (error instanceof UsageLimitExceededError) {
+        throw error;
+      }
+      
       throw new QuestionGenerationError(
         `Failed to generate follow-up question: ${error instanceof Error ? error.message : String(error)}`
       );
@@ -157,30 +222,12 @@ export class DefaultAIInterviewerService implements AIInterviewerService {
         questionId: context.question.id,
       });
 
-      const prompt = this.buildEvaluationPrompt(context);
-      
-      const completion = await this.openai.chat.completions.create({
-        model: this.modelVersion,
-        messages: [
-          {
-            role: 'system',
-            content: this.getEvaluationSystemPrompt(context.personalityState),
-          },
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        temperature: 0.3, // Lower temperature for more consistent evaluations
-        max_tokens: 1500,
-      });
-
-      const response = completion.choices[0]?.message?.content;
-      if (!response) {
-        throw new ResponseEvaluationError('No response from OpenAI for evaluation', context);
-      }
+      const completion = await this.completeStructured(
+        this.buildEvaluationRequest(context),
+        RESPONSE_EVALUATION_SCHEMA
+      );
 
-      const evaluation = this.parseEvaluationResponse(response, context);
+      const evaluation = this.parseEvaluationResponse(completion);
       
       logger.info('Response evaluated successfully', {
         sessionId: context.sessionId,
@@ -194,7 +241,7 @@ export class DefaultAIInterviewerService implements AIInterviewerService {
         sessionId: context.sessionId,
       });
       
-      if (error instanceof ResponseEvaluationError) {
+      if (error instanceof ResponseEvaluationError || error instanceof UsageLimitExceededError) {
         throw error;
       }
       
@@ -205,6 +252,104 @@ export class DefaultAIInterviewerService implements AIInterviewerService {
     }
   }
 
+  /**
+   * Stream a question as it is generated. Emits `token` events for the
+   * question text, `section` events as each field completes and a final
+   * `complete` event with the parsed GeneratedQuestion. If the streamed
+   * output fails validation and is repaired, the `complete` event carries
+   * the repaired result.
+   */
+  async *streamQuestion(context: QuestionGenerationContext): AsyncGenerator<AIStreamEvent<GeneratedQuestion>> {
+    try {
+      logger.info('Streaming question', {
+        sessionId: context.sessionId,
+        questionIndex: context.currentQuestionIndex,
+      });
+
+      const questionCache = this.getQuestionCache(context);
+      const variant = this.getQuestionCacheVariant(context);
+      const cached = questionCache?.lookup(context, variant);
+      if (cached) {
+        yield { type: AIStreamEventType.TOKEN, field: 'text', delta: cached.text };
+        yield { type: AIStreamEventType.COMPLETE, data: cached };
+        return;
+      }
+
+      const output = yield* this.streamStructured(
+        this.buildQuestionRequest(context),
+        GENERATED_QUESTION_SCHEMA,
+        ['text']
+      );
+      const question = this.parseQuestionResponse(output, context);
+
+      if (questionCache) {
+        questionCache.store(context, question, variant);
+        questionCache.markSeen(context.userId, question.text);
+      }
+
+      yield { type: AIStreamEventType.COMPLETE, data: question };
+    } catch (error) {
+      logger.error('Failed to stream question', { error, sessionId: context.sessionId });
+      yield this.toStreamError(error instanceof UsageLimitExceededError ? error : new QuestionGenerationError(
+        `Failed to generate question: ${error instanceof Error ? error.message : String(error)}`,
+        context
+      ));
+    }
+  }
+
+  /**
+   * Stream a follow-up question; events as for streamQuestion
+   */
+  async *streamFollowUpQuestion(context: FollowUpContext): AsyncGenerator<AIStreamEvent<GeneratedQuestion>> {
+    try {
+      logger.info('Streaming follow-up question', {
+        sessionId: context.sessionId,
+        originalQuestionId: context.originalQuestion.id,
+      });
+
+      const output = yield* this.streamStructured(
+        this.buildFollowUpRequest(context),
+        FOLLOW_UP_QUESTION_SCHEMA,
+        ['text']
+      );
+
+      yield { type: AIStreamEventType.COMPLETE, data: this.parseFollowUpResponse(output, context) };
+    } catch (error) {
+      logger.error('Failed to stream follow-up question', { error, sessionId: context.sessionId });
+      yield this.toStreamError(error instanceof UsageLimitExceededError ? error : new QuestionGenerationError(
+        `Failed to generate follow-up question: ${error instanceof Error ? error.message : String(error)}`
+      ));
+    }
+  }
+
+  /**
+   * Stream a response evaluation. Emits a `section` event as each part of
+   * the evaluation (overallScore, criteriaScores, strengths, ...) arrives and
+   * a final `complete` event with the parsed ResponseEvaluation.
+   */
+  async *streamResponseEvaluation(context: ResponseEvaluationContext): AsyncGenerator<AIStreamEvent<ResponseEvaluation>> {
+    try {
+      logger.info('Streaming response evaluation', {
+        sessionId: context.sessionId,
+        questionId: context.question.id,
+      });
+
+      const output = yield* this.streamStructured(
+        this.buildEvaluationRequest(context),
+        RESPONSE_EVALUATION_SCHEMA,
+        []
+      );
+
+      yield { type: AIStreamEventType.COMPLETE, data: this.parseEvaluationResponse(output) };
+    } catch (error) {
+      logger.error('Failed to stream response evaluation', { error, sessionId: context.sessionId });
+      yield this.toStreamError(error instanceof UsageLimitExceededError ? error : new ResponseEvaluationError(
+        `Failed to evaluate response: ${error instanceof Error ? error.message : String(error)}`,
+        context
+      ));
+    }
+  }
+
   async adaptPersonality(context: PersonalityAdaptationContext): Promise<AIPersonalityState> {
     try {
       logger.info('Adapting personality', {
@@ -244,13 +389,18 @@ export class DefaultAIInterviewerService implements AIInterviewerService {
       });
 
       const prompt = this.buildTechnicalEvaluationPrompt(context);
+      const systemPrompt = this.renderSystemPrompt(PromptKind.TECHNICAL_EVALUATION_SYSTEM, context.sessionId, {
+        personalityState: context.personalityState,
+        technicalDomain: context.technicalDomain,
+        roleSpecificCriteria: context.roleSpecificCriteria,
+      });
       
-      const completion = await this.openai.chat.completions.create({
-        model: this.modelVersion,
+      const completion = await this.completeStructured({
+        task: LLMTask.TECHNICAL_EVALUATION,
         messages: [
           {
             role: 'system',
-            content: this.getTechnicalEvaluationSystemPrompt(context),
+            content: systemPrompt.content,
           },
           {
             role: 'user',
@@ -258,15 +408,14 @@ export class DefaultAIInterviewerService implements AIInterviewerService {
           },
         ],
         temperature: 0.2, // Lower temperature for more consistent technical evaluations
-        max_tokens: 2000,
-      });
-
-      const response = completion.choices[0]?.message?.content;
-      if (!response) {
-        throw new TechnicalEvaluationError('No response from OpenAI for technical evaluation', context);
-      }
+        maxTokens: 2000,
+        metadata: { prompt: systemPrompt.assignment, sessionId: context.sessionId, userId: context.userId },
+      }, TECHNICAL_RESPONSE_EVALUATION_SCHEMA);
 
-      const evaluation = this.parseTechnicalEvaluationResponse(response, context);
+      const evaluation = await this.applyCodeExecution(
+        this.parseTechnicalEvaluationResponse(completion, context),
+        context
+      );
       
       logger.info('Technical response evaluated successfully', {
         sessionId: context.sessionId,
@@ -281,7 +430,7 @@ export class DefaultAIInterviewerService implements AIInterviewerService {
         sessionId: context.sessionId,
       });
       
-      if (error instanceof TechnicalEvaluationError) {
+      if (error instanceof TechnicalEvaluationError || error instanceof UsageLimitExceededError) {
         throw error;
       }
       
@@ -321,46 +470,250 @@ export class DefaultAIInterviewerService implements AIInterviewerService {
     }
   }
 
-  private getSystemPrompt(personalityState: AIPersonalityState): string {
-    const { name, style, tone, formality, currentMood } = personalityState;
-    
-    return `You are ${name}, an AI interviewer conducting a professional interview. 
-
-Your personality characteristics:
-- Style: ${style}
-- Tone: ${tone}
-- Formality: ${formality}
-- Current mood: ${currentMood}
-- Adaptiveness: ${personalityState.adaptiveness}
-- Follow-up intensity: ${personalityState.followUpIntensity}
-- Encouragement level: ${personalityState.encouragementLevel}
-
-Guidelines:
-1. Maintain consistency with your personality throughout the conversation
-2. Ask clear, relevant questions appropriate for the interview context
-3. Adapt your questioning style based on the candidate's responses
-4. Be professional but approachable
-5. Focus on gathering meaningful insights about the candidate's experience and skills
-6. Generate questions that allow candidates to demonstrate their abilities
-
-Always respond in a way that matches your personality characteristics and current mood.`;
+  private async generateQuestionFromModel(context: QuestionGenerationContext): Promise<GeneratedQuestion> {
+    const completion = await this.completeStructured(
+      this.buildQuestionRequest(context),
+      GENERATED_QUESTION_SCHEMA
+    );
+
+    return this.parseQuestionResponse(completion, context);
+  }
+
+  // Questions grounded in a candidate's own resume are personal, so they bypass the cache
+  private getQuestionCache(context: QuestionGenerationContext): QuestionCache | undefined {
+    return context.interviewConfig.grounding ? undefined : this.questionCache;
+  }
+
+  // Questions written under different prompt versions are cached separately
+  private getQuestionCacheVariant(context: QuestionGenerationContext): string {
+    return this.promptRegistry.assign(PromptKind.INTERVIEWER_SYSTEM, context.sessionId).version;
+  }
+
+  /**
+   * Run a completion whose output must satisfy a schema. Invalid output is
+   * sent back to the model with the validation errors, up to
+   * maxRepairAttempts times; if it is still invalid the result carries no
+   * data and the caller falls back to defaults.
+   */
+  private async completeStructured<T = any>(
+    request: LLMCompletionRequest,
+    schema: JSONSchema,
+    firstAttempt?: { content: string; model: string }
+  ): Promise<StructuredCompletion<T>> {
+    const messages = [...request.messages];
+    let raw = '';
+    let model = this.modelVersion;
+    let validationErrors: string[] = [];
+
+    for (let attempt = 0; attempt <= this.maxRepairAttempts; attempt++) {
+      const completion = attempt === 0 && firstAttempt
+        ? firstAttempt
+        : await this.provider.complete(this.withTemperature({ ...request, messages: [...messages] }));
+      raw = completion.content;
+      model = completion.model;
+
+      const result = StructuredOutputValidator.parseAndValidate<T>(raw, schema);
+      if (result.valid) {
+        return { data: result.data, raw, model, repairAttempts: attempt, validationErrors: [], prompt: request.metadata?.prompt };
+      }
+
+      validationErrors = result.errors;
+      logger.warn('Model output failed schema validation', {
+        task: request.task,
+        attempt,
+        errors: validationErrors,
+      });
+
+      if (attempt < this.maxRepairAttempts) {
+        messages.push(
+          { role: 'assistant', content: raw },
+          { role: 'user', content: this.buildRepairPrompt(validationErrors, schema) }
+        );
+      }
+    }
+
+    return { raw, model, repairAttempts: this.maxRepairAttempts, validationErrors, prompt: request.metadata?.prompt };
+  }
+
+  /**
+   * Stream a completion, yielding token and section events, then validate
+   * (and if needed repair) the full output like completeStructured.
+   * Providers without streaming support are treated as a single chunk.
+   */
+  private async *streamStructured<T = any>(
+    request: LLMCompletionRequest,
+    schema: JSONSchema,
+    streamedFields: string[]
+  ): AsyncGenerator<AIStreamEvent, StructuredCompletion<T>> {
+    const parser = new IncrementalJsonParser(streamedFields);
+    const chunks = this.provider.stream
+      ? this.provider.stream(this.withTemperature(request))
+      : this.completeAsSingleChunk(this.withTemperature(request));
+    let raw = '';
+    let model = this.modelVersion;
+
+    for await (const chunk of chunks) {
+      raw += chunk.delta;
+      model = chunk.model || model;
+
+      const update = parser.push(chunk.delta);
+      for (const { field, delta } of update.stringDeltas) {
+        yield { type: AIStreamEventType.TOKEN, field, delta };
+      }
+      for (const { field, value } of update.completedFields) {
+        yield { type: AIStreamEventType.SECTION, section: field, value };
+      }
+    }
+
+    return this.completeStructured<T>(request, schema, { content: raw, model });
+  }
+
+  private withTemperature(request: LLMCompletionRequest): LLMCompletionRequest {
+    return this.temperature === undefined ? request : { ...request, temperature: this.temperature };
+  }
+
+  private async *completeAsSingleChunk(request: LLMCompletionRequest): AsyncIterable<LLMStreamChunk> {
+    const completion = await this.provider.complete(request);
+    yield { delta: completion.content, model: completion.model, usage: completion.usage };
+  }
+
+  private toStreamError(error: AIInterviewerError | UsageLimitExceededError): AIErrorStreamEvent {
+    return {
+      type: AIStreamEventType.ERROR,
+      error: { message: error.message, code: error.code },
+    };
+  }
+
+  private buildQuestionRequest(context: QuestionGenerationContext): LLMCompletionRequest {
+    const systemPrompt = this.renderSystemPrompt(PromptKind.INTERVIEWER_SYSTEM, context.sessionId, {
+      personalityState: context.personalityState,
+      interviewConfig: context.interviewConfig,
+    });
+
+    return {
+      task: LLMTask.QUESTION_GENERATION,
+      messages: [
+        {
+          role: 'system',
+          content: systemPrompt.content,
+        },
+        {
+          role: 'user',
+          content: this.buildQuestionGenerationPrompt(context),
+        },
+      ],
+      temperature: 0.7,
+      maxTokens: 1000,
+      metadata: { prompt: systemPrompt.assignment, sessionId: context.sessionId, userId: context.userId },
+    };
+  }
+
+  private buildFollowUpRequest(context: FollowUpContext): LLMCompletionRequest {
+    const systemPrompt = this.renderSystemPrompt(PromptKind.INTERVIEWER_SYSTEM, context.sessionId, {
+      personalityState: context.personalityState,
+      interviewConfig: context.interviewConfig,
+    });
+
+    return {
+      task: LLMTask.FOLLOW_UP_GENERATION,
+      messages: [
+        {
+          role: 'system',
+          content: systemPrompt.content,
+        },
+        {
+          role: 'user',
+          content: this.buildFollowUpPrompt(context),
+        },
+      ],
+      temperature: 0.8, // Slightly higher temperature for more varied follow-ups
+      maxTokens: 800,
+      metadata: { prompt: systemPrompt.assignment, sessionId: context.sessionId, userId: context.userId },
+    };
   }
 
-  private getEvaluationSystemPrompt(personalityState: AIPersonalityState): string {
-    return `You are an expert interview evaluator with the personality of ${personalityState.name}.
+  private buildEvaluationRequest(context: ResponseEvaluationContext): LLMCompletionRequest {
+    const systemPrompt = this.renderSystemPrompt(PromptKind.EVALUATION_SYSTEM, context.sessionId, {
+      personalityState: context.personalityState,
+      interviewConfig: context.interviewConfig,
+    });
+
+    return {
+      task: LLMTask.RESPONSE_EVALUATION,
+      messages: [
+        {
+          role: 'system',
+          content: systemPrompt.content,
+        },
+        {
+          role: 'user',
+          content: this.buildEvaluationPrompt(context),
+        },
+      ],
+      temperature: 0.3, // Lower temperature for more consistent evaluations
+      maxTokens: 1500,
+      metadata: { prompt: systemPrompt.assignment, sessionId: context.sessionId, userId: context.userId },
+    };
+  }
+
+  private buildRepairPrompt(errors: string[], schema: JSONSchema): string {
+    return `Your previous response could not be used because it did not match the required format.
+
+Problems found:
+${errors.slice(0, 10).map(error => `- ${error}`).join('\n')}
+
+Respond again with ONLY a JSON object (no prose, no code fences) that matches this schema:
+${StructuredOutputValidator.describeSchema(schema)}`;
+  }
+
+  private buildEvaluationMetadata(output: StructuredCompletion, confidence: number): EvaluationMetadata {
+    const isFallback = output.data === undefined;
+    const flags: string[] = isFallback
+      ? [StructuredOutputFlag.PARSING_ERROR, StructuredOutputFlag.FALLBACK_USED]
+      : output.repairAttempts > 0 ? [StructuredOutputFlag.REPAIRED_OUTPUT] : [];
+
+    return {
+      processingTime: Date.now(),
+      modelVersion: output.model,
+      confidence,
+      flags,
+      repairAttempts: output.repairAttempts,
+      isFallback,
+      ...(isFallback ? { validationErrors: output.validationErrors } : {}),
+      ...(output.prompt ? {
+        promptId: output.prompt.templateId,
+        promptVersion: output.prompt.version,
+        promptBucket: output.prompt.bucket,
+      } : {}),
+    };
+  }
+
+  private buildQuestionMetadata(output: StructuredCompletion, source: string): QuestionMetadata {
+    const isFallback = output.data === undefined;
 
-Your evaluation should be:
-1. Fair and objective
-2. Constructive and helpful
-3. Specific with actionable feedback
-4. Consistent with professional interview standards
-5. Aligned with the evaluation criteria provided
+    return {
+      source: isFallback ? `${source}_fallback` : source,
+      version: 1,
+      usageCount: 0,
+      generatedAt: new Date(),
+      modelVersion: output.model,
+      repairAttempts: output.repairAttempts,
+      isFallback,
+      ...(isFallback ? { validationErrors: output.validationErrors } : {}),
+      ...(output.prompt ? { promptId: output.prompt.templateId, promptVersion: output.prompt.version } : {}),
+    };
+  }
 
-Provide detailed feedback that helps candidates improve while maintaining your personality characteristics.`;
+  /**
+   * Render a system prompt from the registry. The assignment is carried in
+   * request metadata so the prompt version ends up in the result metadata.
+   */
+  private renderSystemPrompt(kind: PromptKind, sessionId: string, params: PromptTemplateParams): RenderedPrompt {
+    return this.promptRegistry.render(kind, sessionId, params);
   }
 
   private buildQuestionGenerationPrompt(context: QuestionGenerationContext): string {
-    const { interviewConfig, currentQuestionIndex, previousResponses, questionType, difficulty, focusArea } = context;
+    const { interviewConfig, currentQuestionIndex, previousResponses, personalityState, questionType, difficulty, focusArea } = context;
     
     let prompt = `Generate an interview question for a ${interviewConfig.role} position in the ${interviewConfig.industry} industry.
 
@@ -373,13 +726,16 @@ Interview Details:
 
 `;
 
-    if (previousResponses.length > 0) {
-      prompt += `Previous Questions and Responses:
-${previousResponses.map((resp, idx) => 
-  `${idx + 1}. Q: ${resp.questionText}
-   A: ${resp.responseText ? resp.responseText.substring(0, 200) + '...' : 'Skipped'}
-   Duration: ${resp.duration}s, Score: ${resp.evaluationScore || 'N/A'}`
-).join('\n')}
+    const history = this.buildHistoryContext(previousResponses, personalityState, context.contextTokenBudget);
+    if (history) {
+      prompt += `${history}
+
+`;
+    }
+
+    const grounding = this.buildGroundingContext(interviewConfig.grounding);
+    if (grounding) {
+      prompt += `${grounding}
 
 `;
     }
@@ -389,7 +745,8 @@ ${previousResponses.map((resp, idx) =>
 2. Focuses on ${focusArea || interviewConfig.focusAreas[0]}
 3. Builds naturally on previous responses (if any)
 4. Allows the candidate to demonstrate relevant skills
-5. Is clear and specific
+5. Is clear and specific${grounding ? `
+6. Refers to a specific project from the candidate's resume or a requirement of the target job by name, and probes skill gaps the job requires` : ''}
 
 Format your response as JSON with the following structure:
 {
@@ -413,9 +770,11 @@ Format your response as JSON with the following structure:
 
   private buildFollowUpPrompt(context: FollowUpContext): string {
     const { originalQuestion, userResponse, personalityState } = context;
+    const history = this.buildHistoryContext(context.previousResponses || [], personalityState, context.contextTokenBudget);
+    const grounding = this.buildGroundingContext(context.interviewConfig.grounding);
     
     return `Based on the candidate's response, generate an appropriate follow-up question.
-
+${history ? `\n${history}\n` : ''}${grounding ? `\n${grounding}\n` : ''}
 Original Question: "${originalQuestion.text}"
 Candidate's Response: "${userResponse.responseText || 'No response provided'}"
 Response Duration: ${userResponse.duration} seconds
@@ -440,8 +799,64 @@ Format as JSON:
 }`;
   }
 
+  /**
+   * Render earlier responses and long-term memory within the context token budget
+   */
+  private buildHistoryContext(
+    previousResponses: ResponseSummary[],
+    personalityState: AIPersonalityState,
+    contextTokenBudget?: number
+  ): string {
+    const budget = ConversationMemoryManager.resolveBudget(this.contextBudget, contextTokenBudget);
+    const memoryContext = ConversationMemoryManager.buildContext(previousResponses, personalityState?.memory, budget);
+
+    if (memoryContext.omittedResponseCount > 0) {
+      logger.debug('Trimmed interview history to fit context budget', {
+        omittedResponses: memoryContext.omittedResponseCount,
+        estimatedTokens: memoryContext.estimatedTokens,
+        maxContextTokens: budget.maxContextTokens,
+      });
+    }
+
+    return ConversationMemoryManager.renderContext(memoryContext, budget);
+  }
+
+  /**
+   * Render the candidate's resume highlights and the target job's requirements
+   */
+  private buildGroundingContext(grounding?: InterviewGrounding): string {
+    if (!grounding) {
+      return '';
+    }
+
+    const sections: string[] = [];
+    const { resume, jobDescription, skillMatch } = grounding;
+
+    if (resume && (resume.projects.length > 0 || resume.skills.length > 0)) {
+      sections.push(`Candidate Resume:
+${resume.yearsOfExperience ? `- Experience: ${resume.yearsOfExperience}+ years\n` : ''}${resume.skills.length > 0 ? `- Skills: ${resume.skills.join(', ')}\n` : ''}${resume.projects.map(project =>
+  `- Project: ${project.summary}`
+).join('\n')}`.trimEnd());
+    }
+
+    if (jobDescription && jobDescription.requirements.length > 0) {
+      sections.push(`Target Job${jobDescription.title ? ` (${jobDescription.title})` : ''} Requirements:
+${jobDescription.requirements.map(requirement =>
+  `- ${requirement.required ? '' : '[preferred] '}${requirement.text}`
+).join('\n')}`);
+    }
+
+    if (skillMatch && skillMatch.missing.length > 0) {
+      sections.push(`Required skills not shown on the resume: ${skillMatch.missing.join(', ')}`);
+    }
+
+    return truncateToTokens(sections.join('\n\n'), GROUNDING_CONTEXT_TOKENS);
+  }
+
   private buildEvaluationPrompt(context: ResponseEvaluationContext): string {
     const { question, userResponse, evaluationCriteria } = context;
+    const requirements = (context.interviewConfig?.grounding?.jobDescription?.requirements || [])
+      .filter(requirement => requirement.required);
     
     return `Evaluate the candidate's response to the interview question.
 
@@ -449,11 +864,15 @@ Question: "${question.text}"
 Expected Structure: ${question.expectedAnswerStructure || 'free_form'}
 Response: "${userResponse.responseText || 'No response provided'}"
 Duration: ${userResponse.duration} seconds
-
+${context.evaluationFocus?.length ? `\nEvaluate as a panelist focused on: ${context.evaluationFocus.join(', ')}\n` : ''}
 Evaluation Criteria:
 ${evaluationCriteria.map(criteria => 
   `- ${criteria.name} (${criteria.weight * 100}%): ${criteria.description}`
 ).join('\n')}
+${requirements.length > 0 ? `
+Score the response against these requirements of the target job, naming in the feedback which ones the answer demonstrates or misses:
+${requirements.map(requirement => `- ${requirement.text}`).join('\n')}
+` : ''}
 
 Provide a comprehensive evaluation with:
 1. Overall score (0-100)
@@ -479,10 +898,12 @@ Format as JSON:
 }`;
   }
 
-  private parseQuestionResponse(response: string, context: QuestionGenerationContext): GeneratedQuestion {
-    try {
-      const parsed = JSON.parse(response);
-      
+  private parseQuestionResponse(output: StructuredCompletion, context: QuestionGenerationContext): GeneratedQuestion {
+    const parsed = output.data;
+
+    if (parsed) {
+      const evaluationCriteria = this.parseEvaluationCriteria(parsed.evaluationCriteria || []);
+
       return {
         id: uuidv4(),
         text: parsed.text,
@@ -490,45 +911,36 @@ Format as JSON:
         category: parsed.category || 'general',
         difficulty: context.difficulty || context.interviewConfig.difficulty,
         expectedAnswerStructure: this.parseAnswerStructure(parsed.expectedStructure),
-        evaluationCriteria: this.parseEvaluationCriteria(parsed.evaluationCriteria || []),
+        evaluationCriteria: evaluationCriteria.length > 0 ? evaluationCriteria : this.getDefaultEvaluationCriteria(),
         timeLimit: parsed.timeLimit || 300,
         context: parsed.context,
         followUpQuestions: parsed.followUpQuestions || [],
-        metadata: {
-          source: 'ai_generated',
-          version: 1,
-          usageCount: 0,
-          generatedAt: new Date(),
-          modelVersion: this.modelVersion,
-        },
-      };
-    } catch (error) {
-      // Fallback: create a basic question if JSON parsing fails
-      logger.warn('Failed to parse question JSON, using fallback', { error, response });
-      
-      return {
-        id: uuidv4(),
-        text: response.includes('"text"') ? response : `Tell me about your experience with ${context.focusArea || 'problem solving'}.`,
-        type: context.questionType || QuestionType.BEHAVIORAL,
-        category: 'general',
-        difficulty: context.difficulty || context.interviewConfig.difficulty,
-        evaluationCriteria: this.getDefaultEvaluationCriteria(),
-        timeLimit: 300,
-        metadata: {
-          source: 'ai_generated_fallback',
-          version: 1,
-          usageCount: 0,
-          generatedAt: new Date(),
-          modelVersion: this.modelVersion,
-        },
+        metadata: this.buildQuestionMetadata(output, 'ai_generated'),
       };
     }
+
+    // Fallback: create a basic question if the model never produced valid output
+    logger.warn('Failed to parse question JSON, using fallback', {
+      errors: output.validationErrors,
+      response: output.raw,
+    });
+
+    return {
+      id: uuidv4(),
+      text: `Tell me about your experience with ${context.focusArea || 'problem solving'}.`,
+      type: context.questionType || QuestionType.BEHAVIORAL,
+      category: 'general',
+      difficulty: context.difficulty || context.interviewConfig.difficulty,
+      evaluationCriteria: this.getDefaultEvaluationCriteria(),
+      timeLimit: 300,
+      metadata: this.buildQuestionMetadata(output, 'ai_generated'),
+    };
   }
 
-  private parseFollowUpResponse(response: string, context: FollowUpContext): GeneratedQuestion {
-    try {
-      const parsed = JSON.parse(response);
-      
+  private parseFollowUpResponse(output: StructuredCompletion, context: FollowUpContext): GeneratedQuestion {
+    const parsed = output.data;
+
+    if (parsed) {
       return {
         id: uuidv4(),
         text: parsed.text,
@@ -538,39 +950,32 @@ Format as JSON:
         evaluationCriteria: context.originalQuestion.evaluationCriteria,
         timeLimit: parsed.timeLimit || 180,
         context: parsed.context,
-        metadata: {
-          source: 'ai_generated_followup',
-          version: 1,
-          usageCount: 0,
-          generatedAt: new Date(),
-          modelVersion: this.modelVersion,
-        },
-      };
-    } catch (error) {
-      // Fallback follow-up question
-      return {
-        id: uuidv4(),
-        text: "Can you provide more specific details about that experience?",
-        type: context.originalQuestion.type,
-        category: 'follow_up',
-        difficulty: context.originalQuestion.difficulty,
-        evaluationCriteria: context.originalQuestion.evaluationCriteria,
-        timeLimit: 180,
-        metadata: {
-          source: 'ai_generated_followup_fallback',
-          version: 1,
-          usageCount: 0,
-          generatedAt: new Date(),
-          modelVersion: this.modelVersion,
-        },
+        metadata: this.buildQuestionMetadata(output, 'ai_generated_followup'),
       };
     }
+
+    // Fallback follow-up question
+    logger.warn('Failed to parse follow-up JSON, using fallback', {
+      errors: output.validationErrors,
+      response: output.raw,
+    });
+
+    return {
+      id: uuidv4(),
+      text: "Can you provide more specific details about that experience?",
+      type: context.originalQuestion.type,
+      category: 'follow_up',
+      difficulty: context.originalQuestion.difficulty,
+      evaluationCriteria: context.originalQuestion.evaluationCriteria,
+      timeLimit: 180,
+      metadata: this.buildQuestionMetadata(output, 'ai_generated_followup'),
+    };
   }
 
-  private parseEvaluationResponse(response: string, context: ResponseEvaluationContext): ResponseEvaluation {
-    try {
-      const parsed = JSON.parse(response);
-      
+  private parseEvaluationResponse(output: StructuredCompletion): ResponseEvaluation {
+    const parsed = output.data;
+
+    if (parsed) {
       return {
         overallScore: Math.max(0, Math.min(100, parsed.overallScore || 0)),
         criteriaScores: (parsed.criteriaScores || []).map((score: any) => ({
@@ -584,36 +989,31 @@ Format as JSON:
         improvements: parsed.improvements || [],
         followUpSuggestions: parsed.followUpSuggestions || [],
         confidence: Math.max(0, Math.min(1, parsed.confidence || 0.5)),
-        metadata: {
-          processingTime: Date.now(),
-          modelVersion: this.modelVersion,
-          confidence: parsed.confidence || 0.5,
-          flags: [],
-        },
-      };
-    } catch (error) {
-      // Fallback evaluation
-      return {
-        overallScore: 50,
-        criteriaScores: [{
-          criteriaId: uuidv4(),
-          criteriaName: 'General Response',
-          score: 50,
-          feedback: 'Unable to provide detailed evaluation due to parsing error',
-          weight: 1.0,
-        }],
-        strengths: ['Provided a response'],
-        improvements: ['Could provide more specific details'],
-        followUpSuggestions: ['Consider using the STAR method for behavioral questions'],
-        confidence: 0.3,
-        metadata: {
-          processingTime: Date.now(),
-          modelVersion: this.modelVersion,
-          confidence: 0.3,
-          flags: ['parsing_error'],
-        },
+        metadata: this.buildEvaluationMetadata(output, parsed.confidence || 0.5),
       };
     }
+
+    // Fallback evaluation
+    logger.warn('Failed to parse evaluation JSON, using fallback', {
+      errors: output.validationErrors,
+      response: output.raw,
+    });
+
+    return {
+      overallScore: 50,
+      criteriaScores: [{
+        criteriaId: uuidv4(),
+        criteriaName: 'General Response',
+        score: 50,
+        feedback: 'Unable to provide detailed evaluation due to parsing error',
+        weight: 1.0,
+      }],
+      strengths: ['Provided a response'],
+      improvements: ['Could provide more specific details'],
+      followUpSuggestions: ['Consider using the STAR method for behavioral questions'],
+      confidence: 0.3,
+      metadata: this.buildEvaluationMetadata(output, 0.3),
+    };
   }
 
   private calculatePersonalityAdaptation(context: PersonalityAdaptationContext): AIPersonalityState {
@@ -743,32 +1143,6 @@ Format as JSON:
     ];
   }
 
-  private getTechnicalEvaluationSystemPrompt(context: TechnicalEvaluationContext): string {
-    const { roleSpecificCriteria, technicalDomain } = context;
-    
-    return `You are an expert technical interviewer and evaluator specializing in ${technicalDomain}.
-
-Role-specific evaluation context:
-- Role: ${roleSpecificCriteria.role}
-- Industry: ${roleSpecificCriteria.industry}
-- Technical Domain: ${technicalDomain}
-
-Required Skills Assessment:
-${roleSpecificCriteria.requiredSkills.map(skill => 
-  `- ${skill.name} (${skill.importance}): ${skill.assessmentCriteria.join(', ')}`
-).join('\n')}
-
-Your evaluation should assess:
-1. Technical accuracy and correctness
-2. Completeness of the solution
-3. Code quality and best practices (if applicable)
-4. Problem-solving approach
-5. Role-specific competencies
-6. Appropriate difficulty level for the candidate
-
-Provide detailed, constructive feedback that helps candidates improve their technical skills while maintaining professional standards.`;
-  }
-
   private buildTechnicalEvaluationPrompt(context: TechnicalEvaluationContext): string {
     const { question, userResponse, roleSpecificCriteria, expectedSolution } = context;
     
@@ -778,7 +1152,7 @@ Question: "${question.text}"
 Question Type: ${question.type}
 Difficulty Level: ${question.difficulty}
 
-Candidate Response: "${userResponse.responseText || 'No response provided'}"
+Candidate Response: "${userResponse.responseText || (userResponse.code ? 'See code below' : 'No response provided')}"
 Response Duration: ${userResponse.duration} seconds
 Confidence Level: ${userResponse.confidence || 'Unknown'}
 
@@ -789,6 +1163,17 @@ ${roleSpecificCriteria.requiredSkills.map(skill =>
 
 `;
 
+    if (userResponse.code) {
+      prompt += `Candidate Code (${userResponse.code.language}):
+\`\`\`${userResponse.code.language}
+${userResponse.code.code}
+\`\`\`
+
+Score the code itself for correctness, quality and complexity.
+
+`;
+    }
+
     if (expectedSolution) {
       prompt += `Expected Solution Context:
 - Description: ${expectedSolution.description}
@@ -866,10 +1251,10 @@ Format as JSON:
     return prompt;
   }
 
-  private parseTechnicalEvaluationResponse(response: string, context: TechnicalEvaluationContext): TechnicalResponseEvaluation {
-    try {
-      const parsed = JSON.parse(response);
-      
+  private parseTechnicalEvaluationResponse(output: StructuredCompletion, context: TechnicalEvaluationContext): TechnicalResponseEvaluation {
+    const parsed = output.data;
+
+    if (parsed) {
       return {
         overallScore: Math.max(0, Math.min(100, parsed.overallScore || 0)),
         technicalAccuracy: Math.max(0, Math.min(100, parsed.technicalAccuracy || 0)),
@@ -917,59 +1302,52 @@ Format as JSON:
         improvements: parsed.improvements || [],
         followUpSuggestions: parsed.followUpSuggestions || [],
         confidence: Math.max(0, Math.min(1, parsed.confidence || 0.5)),
-        metadata: {
-          processingTime: Date.now(),
-          modelVersion: this.modelVersion,
-          confidence: parsed.confidence || 0.5,
-          flags: [],
-        },
-      };
-    } catch (error) {
-      // Fallback technical evaluation
-      logger.warn('Failed to parse technical evaluation JSON, using fallback', { error, response });
-      
-      return {
-        overallScore: 50,
-        technicalAccuracy: 50,
-        completeness: 50,
-        criteriaScores: [{
-          criteriaId: uuidv4(),
-          criteriaName: 'Technical Response',
-          score: 50,
-          feedback: 'Unable to provide detailed technical evaluation due to parsing error',
-          weight: 1.0,
-        }],
-        roleSpecificScores: [{
-          skillName: 'General Technical Skills',
-          score: 50,
-          importance: SkillImportance.MEDIUM,
-          feedback: 'Unable to assess specific skills due to parsing error',
-          examples: [],
-        }],
-        difficultyAssessment: {
-          perceivedDifficulty: context.question.difficulty,
-          actualPerformance: 50,
-          isAppropriate: true,
-          reasoning: 'Unable to assess difficulty appropriateness due to parsing error',
-        },
-        adaptationRecommendation: {
-          recommendedLevel: context.question.difficulty,
-          confidence: 0.3,
-          reasoning: 'Unable to provide adaptation recommendation due to parsing error',
-          adaptationStrategy: AdaptationStrategy.MAINTAIN_LEVEL,
-        },
-        strengths: ['Provided a response'],
-        improvements: ['Could provide more technical details'],
-        followUpSuggestions: ['Consider asking for clarification on technical concepts'],
-        confidence: 0.3,
-        metadata: {
-          processingTime: Date.now(),
-          modelVersion: this.modelVersion,
-          confidence: 0.3,
-          flags: ['parsing_error'],
-        },
+        metadata: this.buildEvaluationMetadata(output, parsed.confidence || 0.5),
       };
     }
+
+    // Fallback technical evaluation
+    logger.warn('Failed to parse technical evaluation JSON, using fallback', {
+      errors: output.validationErrors,
+      response: output.raw,
+    });
+
+    return {
+      overallScore: 50,
+      technicalAccuracy: 50,
+      completeness: 50,
+      criteriaScores: [{
+        criteriaId: uuidv4(),
+        criteriaName: 'Technical Response',
+        score: 50,
+        feedback: 'Unable to provide detailed technical evaluation due to parsing error',
+        weight: 1.0,
+      }],
+      roleSpecificScores: [{
+        skillName: 'General Technical Skills',
+        score: 50,
+        importance: SkillImportance.MEDIUM,
+        feedback: 'Unable to assess specific skills due to parsing error',
+        examples: [],
+      }],
+      difficultyAssessment: {
+        perceivedDifficulty: context.question.difficulty,
+        actualPerformance: 50,
+        isAppropriate: true,
+        reasoning: 'Unable to assess difficulty appropriateness due to parsing error',
+      },
+      adaptationRecommendation: {
+        recommendedLevel: context.question.difficulty,
+        confidence: 0.3,
+        reasoning: 'Unable to provide adaptation recommendation due to parsing error',
+        adaptationStrategy: AdaptationStrategy.MAINTAIN_LEVEL,
+      },
+      strengths: ['Provided a response'],
+      improvements: ['Could provide more technical details'],
+      followUpSuggestions: ['Consider asking for clarification on technical concepts'],
+      confidence: 0.3,
+      metadata: this.buildEvaluationMetadata(output, 0.3),
+    };
   }
 
   private calculateDifficultyAdaptation(context: DifficultyAdaptationContext): DifficultyLevel {
@@ -1028,6 +1406,76 @@ Format as JSON:
     }
   }
 
+  /**
+   * Run a code answer against the expected solution's test cases and fold
+   * the results into the model's scores. The model's evaluation stands
+   * alone when there is nothing to run or the sandbox is unavailable
+   */
+  private async applyCodeExecution(
+    evaluation: TechnicalResponseEvaluation,
+    context: TechnicalEvaluationContext
+  ): Promise<TechnicalResponseEvaluation> {
+    const { code } = context.userResponse;
+    const solution = context.expectedSolution;
+    if (!this.codeRunner || !code || !solution?.functionName || !solution.testCases?.length || !this.codeRunner.supports(code.language)) {
+      return evaluation;
+    }
+
+    let report: CodeExecutionReport;
+    try {
+      report = await this.codeRunner.run({
+        language: code.language,
+        code: code.code,
+        functionName: solution.functionName,
+        testCases: solution.testCases,
+        complexityProbe: solution.complexityProbe,
+      });
+    } catch (error) {
+      logger.warn('Failed to run code answer, keeping the model evaluation', {
+        error,
+        sessionId: context.sessionId,
+        language: code.language,
+      });
+      return evaluation;
+    }
+
+    const testScore = report.passRate * 100;
+    const blend = (score: number) => Math.round(score * (1 - TEST_RESULT_WEIGHT) + testScore * TEST_RESULT_WEIGHT);
+
+    const improvements = [...evaluation.improvements];
+    const strengths = [...evaluation.strengths];
+    if (report.error) {
+      improvements.push(`The code did not run: ${report.error}`);
+    } else if (report.passed < report.total) {
+      improvements.push(`Passed ${report.passed} of ${report.total} test cases`);
+    } else {
+      strengths.push(`Passed all ${report.total} test cases`);
+    }
+
+    let algorithmicComplexity = evaluation.algorithmicComplexity;
+    if (report.complexity) {
+      const comparison = solution.timeComplexity
+        ? compareComplexity(report.complexity.timeComplexity, solution.timeComplexity)
+        : null;
+      algorithmicComplexity = {
+        spaceComplexity: algorithmicComplexity?.spaceComplexity || 'Unknown',
+        improvementSuggestions: algorithmicComplexity?.improvementSuggestions || [],
+        timeComplexity: report.complexity.timeComplexity,
+        isOptimal: comparison === null ? algorithmicComplexity?.isOptimal || false : comparison <= 0,
+      };
+    }
+
+    return {
+      ...evaluation,
+      overallScore: blend(evaluation.overallScore),
+      technicalAccuracy: blend(evaluation.technicalAccuracy),
+      algorithmicComplexity,
+      codeExecution: report,
+      strengths,
+      improvements,
+    };
+  }
+
   private parseSkillImportance(importance: string): SkillImportance {
     switch (importance?.toLowerCase()) {
       case 'critical': return SkillImportance.CRITICAL;
@@ -1,5 +1,12 @@
 // AI Interviewer Types and Interfaces
 
+import { PromptRegistry } from './prompt-registry';
+import { AISpendLimiter, LLMUsageTracker } from './llm-usage';
+import { QuestionCache } from './question-cache';
+import { InterviewGrounding } from './interview-grounding';
+import { CodeSnapshot } from './code-collaboration';
+import { CodeRunner, CodeTestCase, ComplexityProbe, CodeExecutionReport } from './code-execution';
+
 export interface AIInterviewerService {
   generateQuestion(context: QuestionGenerationContext): Promise<GeneratedQuestion>;
   generateFollowUpQuestion(context: FollowUpContext): Promise<GeneratedQuestion>;
@@ -9,6 +16,49 @@ export interface AIInterviewerService {
   adaptDifficulty(context: DifficultyAdaptationContext): Promise<DifficultyLevel>;
 }
 
+export interface AIInterviewerServiceOptions {
+  maxRepairAttempts?: number; // Re-asks after invalid structured output (default 2)
+  contextBudget?: Partial<ContextBudgetConfig>;
+  promptRegistry?: PromptRegistry;
+  usageTracker?: LLMUsageTracker; // Records token usage and cost for every model call
+  aiSpendLimiter?: AISpendLimiter; // Refuses metered model calls past the plan's AI spend cap
+  questionCache?: QuestionCache; // Reuses questions across sessions with the same template
+  temperature?: number; // Overrides every task's sampling temperature, e.g. 0 for replays
+  codeRunner?: CodeRunner; // Runs code answers against the expected solution's test cases
+}
+
+// Streaming events emitted while a question or evaluation is being generated
+export type AIStreamEvent<T = any> =
+  | AITokenStreamEvent
+  | AISectionStreamEvent
+  | AICompleteStreamEvent<T>
+  | AIErrorStreamEvent;
+
+export interface AITokenStreamEvent {
+  type: AIStreamEventType.TOKEN;
+  field: string; // JSON field the text belongs to, e.g. 'text'
+  delta: string;
+}
+
+export interface AISectionStreamEvent {
+  type: AIStreamEventType.SECTION;
+  section: string; // Top-level JSON field that has been fully received
+  value: any;
+}
+
+export interface AICompleteStreamEvent<T = any> {
+  type: AIStreamEventType.COMPLETE;
+  data: T;
+}
+
+export interface AIErrorStreamEvent {
+  type: AIStreamEventType.ERROR;
+  error: {
+    message: string;
+    code: string;
+  };
+}
+
 export interface QuestionGenerationContext {
   sessionId: string;
   userId: string;
@@ -19,6 +69,7 @@ export interface QuestionGenerationContext {
   questionType?: QuestionType;
   difficulty?: DifficultyLevel;
   focusArea?: FocusArea;
+  contextTokenBudget?: number; // Overrides ContextBudgetConfig.maxContextTokens for this call
 }
 
 export interface FollowUpContext {
@@ -28,14 +79,19 @@ export interface FollowUpContext {
   userResponse: ResponseSummary;
   personalityState: AIPersonalityState;
   interviewConfig: InterviewConfigSummary;
+  previousResponses?: ResponseSummary[];
+  contextTokenBudget?: number;
 }
 
 export interface ResponseEvaluationContext {
   sessionId: string;
+  userId?: string; // Billed for the model call; the session's user is used when omitted
   question: GeneratedQuestion;
   userResponse: ResponseSummary;
   evaluationCriteria: EvaluationCriteria[];
   personalityState: AIPersonalityState;
+  interviewConfig?: InterviewConfigSummary; // Passed to prompt templates when available
+  evaluationFocus?: FocusArea[]; // Panel personas weigh the response through their own focus areas
 }
 
 export interface PersonalityAdaptationContext {
@@ -48,6 +104,7 @@ export interface PersonalityAdaptationContext {
 
 export interface TechnicalEvaluationContext {
   sessionId: string;
+  userId?: string; // Billed for the model call; the session's user is used when omitted
   question: GeneratedQuestion;
   userResponse: ResponseSummary;
   roleSpecificCriteria: RoleSpecificCriteria;
@@ -83,6 +140,7 @@ export interface ResponseSummary {
   questionId: string;
   questionText: string;
   responseText?: string;
+  code?: CodeSnapshot; // Code written in the live editor, scored as the answer to technical questions
   duration: number;
   confidence?: number;
   isSkipped: boolean;
@@ -106,6 +164,7 @@ export interface TechnicalResponseEvaluation extends ResponseEvaluation {
   completeness: number; // 0-100
   codeQuality?: CodeQualityMetrics;
   algorithmicComplexity?: ComplexityAnalysis;
+  codeExecution?: CodeExecutionReport; // Test results and measured complexity when the code was run
   roleSpecificScores: RoleSpecificScore[];
   difficultyAssessment: DifficultyAssessment;
   adaptationRecommendation: DifficultyAdaptationRecommendation;
@@ -124,6 +183,13 @@ export interface EvaluationMetadata {
   modelVersion: string;
   confidence: number;
   flags: string[];
+  repairAttempts?: number;
+  isFallback?: boolean; // True when scores were defaulted rather than produced by the model
+  validationErrors?: string[];
+  promptId?: string;
+  promptVersion?: string; // System prompt revision, for comparing report quality across versions
+  promptBucket?: number;
+  panelPersonaId?: string;
 }
 
 export interface AIPersonalityState {
@@ -145,6 +211,7 @@ export interface AIPersonalityState {
   conversationHistory: ConversationTurn[];
   lastQuestionType: QuestionType;
   consecutiveFollowUps: number;
+  memory?: ConversationMemory; // Long-term memory of turns that have left conversationHistory
 }
 
 export interface ConversationTurn {
@@ -154,6 +221,37 @@ export interface ConversationTurn {
   metadata?: Record<string, any>;
 }
 
+export interface ConversationMemory {
+  summary: string; // Rolling summary of turns no longer in conversationHistory
+  summarizedTurnCount: number;
+  pinnedClaims: PinnedClaim[];
+  lastUpdated: Date;
+}
+
+export interface PinnedClaim {
+  id: string;
+  type: ClaimType;
+  text: string;
+  sourceQuestionId?: string;
+  mentionedAt: Date;
+}
+
+export interface ContextBudgetConfig {
+  maxContextTokens: number; // Budget for history/memory inside a single prompt
+  recentResponseCount: number; // Most recent responses quoted directly
+  maxPinnedClaims: number;
+  maxSummaryTokens: number;
+  maxResponseChars: number; // Per quoted response
+}
+
+export interface MemoryContext {
+  summary?: string;
+  pinnedClaims: PinnedClaim[];
+  recentResponses: ResponseSummary[];
+  omittedResponseCount: number;
+  estimatedTokens: number;
+}
+
 export interface InterviewConfigSummary {
   id: string;
   role: string;
@@ -163,6 +261,8 @@ export interface InterviewConfigSummary {
   questionTypes: QuestionType[];
   focusAreas: FocusArea[];
   aiPersonality: AIPersonalityConfig;
+  panel?: PanelConfig; // Panel mode: several personas share the interview
+  grounding?: InterviewGrounding; // Extracted from the attached resume and job description
 }
 
 export interface AIPersonalityConfig {
@@ -175,7 +275,132 @@ export interface AIPersonalityConfig {
   encouragementLevel: number;
 }
 
+// Panel interview interfaces
+export interface PanelPersonaConfig extends AIPersonalityConfig {
+  id: string;
+  title?: string; // e.g. "Engineering Manager"
+  focusAreas: FocusArea[];
+}
+
+export interface PanelConfig {
+  personas: PanelPersonaConfig[]; // 2-4 personas
+  turnPolicy: PanelTurnPolicy;
+  allowFollowUpHandOff: boolean;
+}
+
+export interface PanelState {
+  config: PanelConfig;
+  members: PanelMemberState[];
+  activePersonaId: string;
+  turnCount: number;
+}
+
+export interface PanelMemberState {
+  personaId: string;
+  personalityState: AIPersonalityState;
+  questionsAsked: number;
+  followUpsAsked: number;
+}
+
+export interface PanelQuestionResult {
+  question: GeneratedQuestion;
+  turn: PanelTurn;
+  panelState: PanelState;
+}
+
+export interface PanelTurn {
+  personaId: string;
+  isHandOff: boolean; // Follow-up asked by a different persona than the original question
+  reason: string;
+}
+
+export interface PanelistEvaluation {
+  personaId: string;
+  personaName: string;
+  evaluation: ResponseEvaluation;
+}
+
+export interface PanelEvaluation {
+  questionId: string;
+  evaluations: PanelistEvaluation[];
+  consensus: PanelConsensus;
+}
+
+export interface PanelConsensus {
+  averageScore: number; // 0-100
+  minScore: number;
+  maxScore: number;
+  standardDeviation: number;
+  agreement: PanelAgreementLevel;
+  criteriaConsensus: CriteriaConsensus[];
+  sharedStrengths: string[]; // Raised by at least half of the panel
+  sharedImprovements: string[];
+  disagreements: PanelDisagreement[];
+}
+
+export interface CriteriaConsensus {
+  criteriaName: string;
+  averageScore: number;
+  spread: number; // Highest minus lowest panelist score
+}
+
+export interface PanelDisagreement {
+  criteriaName?: string; // Omitted for the overall score
+  highest: { personaId: string; score: number };
+  lowest: { personaId: string; score: number };
+  spread: number;
+}
+
+export interface PanelReportSummary {
+  questionCount: number;
+  averageScore: number;
+  agreement: PanelAgreementLevel;
+  agreementBreakdown: Record<PanelAgreementLevel, number>; // Questions per agreement level
+  panelistAverages: Array<{ personaId: string; personaName: string; averageScore: number; evaluations: number }>;
+  topDisagreements: Array<PanelDisagreement & { questionId: string }>;
+}
+
+// Panel state is kept on the server between calls so clients cannot alter turns or scores
+export interface PanelSession {
+  sessionId: string;
+  userId: string;
+  panelState: PanelState;
+  evaluations: PanelEvaluation[];
+  summary: PanelReportSummary; // Read by the report service
+}
+
+export interface PanelSessionRepository {
+  findBySessionId(sessionId: string): Promise<PanelSession | null>;
+  save(panelSession: PanelSession): Promise<void>;
+}
+
 // Enums
+export enum PanelTurnPolicy {
+  ROUND_ROBIN = 'round_robin',
+  FOCUS_AREA = 'focus_area', // Persona owning the question's focus area asks it
+  LEAD_INTERVIEWER = 'lead_interviewer', // First persona asks main questions, others follow up
+}
+
+export enum PanelAgreementLevel {
+  STRONG = 'strong',
+  MODERATE = 'moderate',
+  SPLIT = 'split',
+}
+
+export enum ClaimType {
+  PROJECT = 'project',
+  METRIC = 'metric',
+  TECHNOLOGY = 'technology',
+  RESPONSIBILITY = 'responsibility',
+}
+
+export enum AIStreamEventType {
+  TOKEN = 'token',
+  SECTION = 'section',
+  COMPLETE = 'complete',
+  ERROR = 'error',
+}
+
 export enum InterviewerMood {
   WELCOMING = 'welcoming',
   PROFESSIONAL = 'professional',
@@ -338,6 +563,13 @@ export interface QuestionMetadata {
   usageCount: number;
   generatedAt: Date;
   modelVersion: string;
+  repairAttempts?: number;
+  isFallback?: boolean;
+  validationErrors?: string[];
+  promptId?: string;
+  promptVersion?: string;
+  cacheHit?: boolean;
+  panelPersonaId?: string; // Panel persona who asked the question
 }
 
 // Technical evaluation interfaces
@@ -365,6 +597,9 @@ export interface ExpectedSolution {
   timeComplexity?: string;
   spaceComplexity?: string;
   codeExample?: string;
+  functionName?: string; // Function code answers must define to be run
+  testCases?: CodeTestCase[];
+  complexityProbe?: ComplexityProbe;
 }
 
 export interface CodeQualityMetrics {
@@ -465,4 +700,11 @@ export class DifficultyAdaptationError extends AIInterviewerError {
     super(message, 'DIFFICULTY_ADAPTATION_ERROR', 500);
     this.name = 'DifficultyAdaptationError';
   }
+}
+
+export class PanelConfigurationError extends AIInterviewerError {
+  constructor(message: string) {
+    super(message, 'PANEL_CONFIGURATION_ERROR', 400);
+    this.name = 'PanelConfigurationError';
+  }
 }
\ No newline at end of file
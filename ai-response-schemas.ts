@@ -0,0 +1,142 @@
+import { JSONSchema } from '../types/structured-output';
+
+// Declared shapes of the JSON the interviewer asks the model for. Numeric
+// ranges are not enforced here: out-of-range scores are clamped on parse.
+
+const CRITERIA_TYPES = [
+  'content_quality',
+  'structure',
+  'communication',
+  'technical_accuracy',
+  'creativity',
+  'problem_solving',
+  'leadership',
+];
+
+const DIFFICULTY_LEVELS = ['entry', 'junior', 'mid', 'senior', 'principal', 'executive'];
+
+const criteriaScoreSchema: JSONSchema = {
+  type: 'object',
+  required: ['criteriaName', 'score'],
+  properties: {
+    criteriaName: { type: 'string', minLength: 1 },
+    score: { type: 'number', description: '0-100' },
+    feedback: { type: 'string' },
+  },
+};
+
+const stringListSchema: JSONSchema = { type: 'array', items: { type: 'string' } };
+
+export const GENERATED_QUESTION_SCHEMA: JSONSchema = {
+  type: 'object',
+  required: ['text'],
+  properties: {
+    text: { type: 'string', minLength: 1 },
+    category: { type: 'string' },
+    expectedStructure: { type: 'string', enum: ['star', 'car', 'soar', 'free_form', 'structured'] },
+    timeLimit: { type: 'number', description: 'seconds' },
+    context: { type: 'string' },
+    followUpQuestions: stringListSchema,
+    evaluationCriteria: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['name'],
+        properties: {
+          name: { type: 'string', minLength: 1 },
+          description: { type: 'string' },
+          weight: { type: 'number', description: '0-1' },
+          type: { type: 'string', enum: CRITERIA_TYPES },
+        },
+      },
+    },
+  },
+};
+
+export const FOLLOW_UP_QUESTION_SCHEMA: JSONSchema = {
+  type: 'object',
+  required: ['text'],
+  properties: {
+    text: { type: 'string', minLength: 1 },
+    category: { type: 'string' },
+    timeLimit: { type: 'number', description: 'seconds' },
+    context: { type: 'string' },
+  },
+};
+
+export const RESPONSE_EVALUATION_SCHEMA: JSONSchema = {
+  type: 'object',
+  required: ['overallScore', 'criteriaScores', 'strengths', 'improvements'],
+  properties: {
+    overallScore: { type: 'number', description: '0-100' },
+    criteriaScores: { type: 'array', items: criteriaScoreSchema },
+    strengths: stringListSchema,
+    improvements: stringListSchema,
+    followUpSuggestions: stringListSchema,
+    confidence: { type: 'number', description: '0-1' },
+  },
+};
+
+export const TECHNICAL_RESPONSE_EVALUATION_SCHEMA: JSONSchema = {
+  type: 'object',
+  required: ['overallScore', 'technicalAccuracy', 'completeness', 'criteriaScores', 'roleSpecificScores'],
+  properties: {
+    ...RESPONSE_EVALUATION_SCHEMA.properties,
+    technicalAccuracy: { type: 'number', description: '0-100' },
+    completeness: { type: 'number', description: '0-100' },
+    roleSpecificScores: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['skillName', 'score'],
+        properties: {
+          skillName: { type: 'string', minLength: 1 },
+          score: { type: 'number', description: '0-100' },
+          importance: { type: 'string', enum: ['critical', 'high', 'medium', 'low', 'nice_to_have'] },
+          feedback: { type: 'string' },
+          examples: stringListSchema,
+        },
+      },
+    },
+    codeQuality: {
+      type: 'object',
+      properties: {
+        readability: { type: 'number' },
+        maintainability: { type: 'number' },
+        efficiency: { type: 'number' },
+        bestPractices: { type: 'number' },
+        errorHandling: { type: 'number' },
+      },
+    },
+    algorithmicComplexity: {
+      type: 'object',
+      properties: {
+        timeComplexity: { type: 'string' },
+        spaceComplexity: { type: 'string' },
+        isOptimal: { type: 'boolean' },
+        improvementSuggestions: stringListSchema,
+      },
+    },
+    difficultyAssessment: {
+      type: 'object',
+      properties: {
+        perceivedDifficulty: { type: 'string', enum: DIFFICULTY_LEVELS },
+        actualPerformance: { type: 'number' },
+        isAppropriate: { type: 'boolean' },
+        reasoning: { type: 'string' },
+      },
+    },
+    adaptationRecommendation: {
+      type: 'object',
+      properties: {
+        recommendedLevel: { type: 'string', enum: DIFFICULTY_LEVELS },
+        confidence: { type: 'number' },
+        reasoning: { type: 'string' },
+        adaptationStrategy: {
+          type: 'string',
+          enum: ['increase_difficulty', 'decrease_difficulty', 'maintain_level', 'focus_on_weak_areas', 'broaden_scope'],
+        },
+      },
+    },
+  },
+};
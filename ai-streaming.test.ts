@@ -0,0 +1,251 @@
+import express from 'express';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { AIInterviewerController } from '../controllers/ai-interviewer-controller';
+import { DefaultAIInterviewerService } from '../services/ai-interviewer-service';
+import { PersonalityManager } from '../services/personality-manager';
+import { ScriptedLLMProvider } from '../services/llm-providers';
+import { IncrementalJsonParser } from '../services/streaming-json-parser';
+import { LLMTask } from '../types/llm-provider';
+import {
+  AIStreamEvent,
+  AIStreamEventType,
+  AIPersonalityConfig,
+  QuestionGenerationContext,
+  QuestionType,
+  DifficultyLevel,
+  FocusArea,
+  InterviewStyle,
+  InterviewTone,
+  FormalityLevel,
+} from '../types/ai-interviewer';
+
+const collect = async <T>(events: AsyncGenerator<AIStreamEvent<T>>): Promise<AIStreamEvent<T>[]> => {
+  const collected: AIStreamEvent<T>[] = [];
+  for await (const event of events) {
+    collected.push(event);
+  }
+  return collected;
+};
+
+const personalityConfig: AIPersonalityConfig = {
+  name: 'Test Interviewer',
+  style: InterviewStyle.CONVERSATIONAL,
+  tone: InterviewTone.FRIENDLY,
+  formality: FormalityLevel.SEMI_FORMAL,
+  adaptiveness: 0.5,
+  followUpIntensity: 0.5,
+  encouragementLevel: 0.5,
+};
+
+const context: QuestionGenerationContext = {
+  sessionId: 'stream-session',
+  userId: 'stream-user',
+  interviewConfig: {
+    id: 'config',
+    role: 'Backend Developer',
+    industry: 'Technology',
+    difficulty: DifficultyLevel.SENIOR,
+    duration: 45,
+    questionTypes: [QuestionType.TECHNICAL],
+    focusAreas: [FocusArea.TECHNICAL_SKILLS],
+    aiPersonality: personalityConfig,
+  },
+  currentQuestionIndex: 0,
+  previousResponses: [],
+  personalityState: PersonalityManager.initializePersonality(personalityConfig),
+  questionType: QuestionType.TECHNICAL,
+};
+
+describe('AI Interviewer Streaming', () => {
+  describe('IncrementalJsonParser', () => {
+    it('should emit string deltas for streamed fields as they grow', () => {
+      const parser = new IncrementalJsonParser(['text']);
+
+      expect(parser.push('{"text": "Tell me').stringDeltas).toEqual([{ field: 'text', delta: 'Tell me' }]);
+      expect(parser.push(' about \\"Kafka').stringDeltas).toEqual([{ field: 'text', delta: ' about "Kafka' }]);
+
+      const update = parser.push('\\"", "timeLimit": 300');
+      expect(update.stringDeltas).toEqual([{ field: 'text', delta: '"' }]);
+      expect(update.completedFields).toEqual([{ field: 'text', value: 'Tell me about "Kafka"' }]);
+    });
+
+    it('should report nested values and trailing scalars once complete', () => {
+      const parser = new IncrementalJsonParser();
+
+      expect(parser.push('Sure:\n```json\n{"overallScore": 8').completedFields).toEqual([]);
+      expect(parser.push('2, "strengths": ["Clear", ').completedFields).toEqual([
+        { field: 'overallScore', value: 82 },
+      ]);
+      expect(parser.push('"Concise"], "criteriaScores": [{"criteriaName": "A", "score": 1}]').completedFields).toEqual([
+        { field: 'strengths', value: ['Clear', 'Concise'] },
+        { field: 'criteriaScores', value: [{ criteriaName: 'A', score: 1 }] },
+      ]);
+      expect(parser.push(', "confidence": 0.9}\n```').completedFields).toEqual([
+        { field: 'confidence', value: 0.9 },
+      ]);
+    });
+
+    it('should not emit a half-received escape sequence', () => {
+      const parser = new IncrementalJsonParser(['text']);
+
+      expect(parser.push('{"text": "caf\\u00').stringDeltas).toEqual([{ field: 'text', delta: 'caf' }]);
+      expect(parser.push('e9"}').stringDeltas).toEqual([{ field: 'text', delta: 'é' }]);
+    });
+  });
+
+  describe('DefaultAIInterviewerService streaming', () => {
+    it('should stream question tokens and finish with the parsed question', async () => {
+      const service = new DefaultAIInterviewerService(new ScriptedLLMProvider());
+
+      const events = await collect(service.streamQuestion(context));
+      const tokens = events.filter(event => event.type === AIStreamEventType.TOKEN);
+      const complete = events[events.length - 1];
+
+      expect(tokens.length).toBeGreaterThan(1);
+      expect(complete.type).toBe(AIStreamEventType.COMPLETE);
+      if (complete.type === AIStreamEventType.COMPLETE) {
+        expect(tokens.map(event => (event as any).delta).join('')).toBe(complete.data.text);
+        expect(complete.data.difficulty).toBe(DifficultyLevel.SENIOR);
+      }
+    });
+
+    it('should emit evaluation sections before the final evaluation', async () => {
+      const service = new DefaultAIInterviewerService(new ScriptedLLMProvider());
+      const question = {
+        id: 'q-1',
+        text: 'How would you shard a users table?',
+        type: QuestionType.TECHNICAL,
+        category: 'system_design',
+        difficulty: DifficultyLevel.SENIOR,
+        evaluationCriteria: [],
+        metadata: { version: 1, usageCount: 0, generatedAt: new Date(), modelVersion: 'scripted-v1' },
+      };
+
+      const events = await collect(service.streamResponseEvaluation({
+        sessionId: 'stream-session',
+        question,
+        userResponse: {
+          questionId: question.id,
+          questionText: question.text,
+          responseText: 'By hashing the user id across shards.',
+          duration: 60,
+          isSkipped: false,
+          timestamp: new Date(),
+        },
+        evaluationCriteria: [],
+        personalityState: context.personalityState,
+      }));
+
+      const sections = events
+        .filter(event => event.type === AIStreamEventType.SECTION)
+        .map(event => (event as any).section);
+
+      expect(sections).toEqual(expect.arrayContaining(['overallScore', 'criteriaScores', 'strengths']));
+      expect(events[events.length - 1].type).toBe(AIStreamEventType.COMPLETE);
+    });
+
+    it('should end with an error event when the provider fails', async () => {
+      const provider = new ScriptedLLMProvider([
+        {
+          task: LLMTask.QUESTION_GENERATION,
+          response: () => {
+            throw new Error('model offline');
+          },
+        },
+      ]);
+      const service = new DefaultAIInterviewerService(provider);
+
+      const events = await collect(service.streamQuestion(context));
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toEqual({
+        type: AIStreamEventType.ERROR,
+        error: { message: 'Failed to generate question: model offline', code: 'QUESTION_GENERATION_ERROR' },
+      });
+    });
+  });
+
+  describe('AIInterviewerController event stream', () => {
+    let server: http.Server;
+    let port: number;
+    const sessions = { getSession: async () => ({ userId: 'stream-user', config: context.interviewConfig }) };
+
+    const listen = (controller: AIInterviewerController): Promise<void> => {
+      const app = express();
+      app.use(express.json());
+      app.use((req, _res, next) => {
+        (req as any).userId = 'stream-user';
+        next();
+      });
+      app.post('/stream/question', (req, res) => controller.streamQuestion(req, res));
+
+      return new Promise(resolve => {
+        server = app.listen(0, () => {
+          port = (server.address() as AddressInfo).port;
+          resolve();
+        });
+      });
+    };
+
+    const post = (body: unknown, onData?: (chunk: string, req: http.ClientRequest) => void): Promise<string> =>
+      new Promise((resolve, reject) => {
+        let received = '';
+        const req = http.request(
+          { port, path: '/stream/question', method: 'POST', headers: { 'Content-Type': 'application/json' } },
+          res => {
+            res.setEncoding('utf8');
+            res.on('data', chunk => {
+              received += chunk;
+              onData?.(chunk, req);
+            });
+            res.on('end', () => resolve(received));
+            res.on('close', () => resolve(received));
+          }
+        );
+        req.on('error', error => (req.destroyed ? resolve(received) : reject(error)));
+        req.end(JSON.stringify(body));
+      });
+
+    const eventTypes = (body: string): string[] =>
+      body.split('\n\n').filter(Boolean).map(block => block.split('\n')[0].replace('event: ', ''));
+
+    afterEach(done => {
+      server.close(() => done());
+    });
+
+    it('should send every event of a question stream over HTTP', async () => {
+      await listen(new AIInterviewerController(new DefaultAIInterviewerService(new ScriptedLLMProvider()), sessions as any, {} as any));
+
+      const types = eventTypes(await post(context));
+
+      expect(types.filter(type => type === AIStreamEventType.TOKEN).length).toBeGreaterThan(1);
+      expect(types[types.length - 1]).toBe(AIStreamEventType.COMPLETE);
+    });
+
+    it('should stop generating once the client disconnects', async () => {
+      let finished = false;
+      let generated = 0;
+      const aiService = {
+        async *streamQuestion() {
+          try {
+            for (let index = 0; index < 50; index++) {
+              generated++;
+              yield { type: AIStreamEventType.TOKEN, field: 'text', delta: `token-${index} ` };
+              await new Promise(resolve => setTimeout(resolve, 10));
+            }
+          } finally {
+            finished = true;
+          }
+        },
+      };
+      await listen(new AIInterviewerController(aiService as any, sessions as any, {} as any));
+
+      await post(context, (_chunk, req) => req.destroy());
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      expect(finished).toBe(true);
+      expect(generated).toBeLessThan(50);
+    });
+  });
+});
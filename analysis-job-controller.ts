@@ -0,0 +1,111 @@
+/**
+ * Analysis Job Controller
+ * HTTP endpoints for polling and cancelling batch analysis jobs
+ */
+
+import { Response } from 'express';
+import { AnalysisJobQueue } from '../services/analysis-job-queue';
+import { analysisJobQueue } from '../services/analysis-jobs';
+import { AuthenticatedRequest } from '../middleware/security-middleware';
+import { logger } from '../utils/logger';
+import { AnalysisJobError, AnalysisJobErrorCode } from '../types/analysis-job';
+
+export class AnalysisJobController {
+  constructor(private jobQueue: AnalysisJobQueue = analysisJobQueue) {}
+
+  /**
+   * Get the status, progress and finished results of a job
+   */
+  public getJob = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const user = getJobUser(req, res);
+      if (!user) {
+        return;
+      }
+
+      const job = await this.jobQueue.getJob(req.params.jobId, this.getOwnerFilter(user));
+
+      res.json({
+        success: true,
+        job
+      });
+
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to get analysis job');
+    }
+  };
+
+  /**
+   * Cancel the items of a job that have not started yet
+   */
+  public cancelJob = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const user = getJobUser(req, res);
+      if (!user) {
+        return;
+      }
+
+      const job = await this.jobQueue.cancel(req.params.jobId, this.getOwnerFilter(user));
+
+      res.json({
+        success: true,
+        job
+      });
+
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to cancel analysis job');
+    }
+  };
+
+  // Admins can see every job, everyone else only the jobs they submitted
+  private getOwnerFilter(user: { id: string; role: string }): string | undefined {
+    return user.role === 'admin' ? undefined : user.id;
+  }
+
+  private handleError(res: Response, error: any, message: string): void {
+    logger.error(message, { error });
+
+    if (error instanceof AnalysisJobError) {
+      res.status(getStatusCodeForJobError(error.code)).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+        details: error.details
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+}
+
+/**
+ * The signed-in user submitting or reading jobs. Responds 401 when the request is anonymous
+ */
+export const getJobUser = (req: AuthenticatedRequest, res: Response): { id: string; role: string } | undefined => {
+  if (!req.user?.id) {
+    res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+    return undefined;
+  }
+  return req.user;
+};
+
+export const getStatusCodeForJobError = (code: AnalysisJobErrorCode): number => {
+  switch (code) {
+    case AnalysisJobErrorCode.INVALID_INPUT:
+    case AnalysisJobErrorCode.BATCH_TOO_LARGE:
+    case AnalysisJobErrorCode.UNSUPPORTED_JOB_TYPE:
+      return 400;
+    case AnalysisJobErrorCode.JOB_NOT_FOUND:
+      return 404;
+    case AnalysisJobErrorCode.JOB_ALREADY_FINISHED:
+      return 409;
+    default:
+      return 500;
+  }
+};
@@ -0,0 +1,102 @@
+/**
+ * Analysis Job Processors
+ * Adapters that run queued batch items through the text, speech and emotion engines
+ */
+
+import { TextAnalysisEngine } from './text-analysis-engine';
+import { SpeechAnalysisEngine } from './speech-analysis-engine';
+import { EmotionFacialAnalysisEngine } from './emotion-facial-analysis-engine';
+import {
+  AnalysisJobType,
+  AnalysisJobProcessor,
+  EncodedMedia,
+  SpeechAnalysisJobPayload,
+  EmotionFacialAnalysisJobPayload
+} from '../types/analysis-job';
+import { TextAnalysisRequest, TextAnalysisError, TextAnalysisErrorCode } from '../types/text-analysis';
+import { SpeechAnalysisError, SpeechAnalysisErrorCode } from '../types/speech-analysis';
+import { EmotionFacialAnalysisError, EmotionFacialAnalysisErrorCode } from '../types/emotion-facial-analysis';
+
+export const encodeMedia = <T extends { buffer: Buffer }>(media: T): EncodedMedia<T> => {
+  const { buffer, ...metadata } = media;
+  return { data: buffer.toString('base64'), metadata };
+};
+
+export const decodeMedia = <T extends { buffer: Buffer }>(media: EncodedMedia<T>): T =>
+  ({ ...media.metadata, buffer: Buffer.from(media.data, 'base64') } as unknown as T);
+
+const isEncodedMedia = (media: any): boolean =>
+  !!media && typeof media.data === 'string' && media.data.length > 0 && typeof media.metadata === 'object';
+
+// Engine errors without a code, such as network failures, are treated as transient
+const TRANSIENT_TEXT_ERRORS = [TextAnalysisErrorCode.PROCESSING_FAILED, TextAnalysisErrorCode.TIMEOUT];
+const TRANSIENT_SPEECH_ERRORS = [SpeechAnalysisErrorCode.WHISPER_API_ERROR, SpeechAnalysisErrorCode.TRANSCRIPTION_FAILED, SpeechAnalysisErrorCode.PROCESSING_FAILED];
+const TRANSIENT_EMOTION_ERRORS = [EmotionFacialAnalysisErrorCode.FACE_API_ERROR, EmotionFacialAnalysisErrorCode.PROCESSING_FAILED];
+
+export class TextAnalysisJobProcessor implements AnalysisJobProcessor {
+  public readonly type = AnalysisJobType.TEXT;
+
+  constructor(private engine: TextAnalysisEngine) {}
+
+  validate(payload: TextAnalysisRequest): string | undefined {
+    if (!payload || typeof payload.text !== 'string' || payload.text.trim().length === 0) {
+      return 'Text must be a non-empty string';
+    }
+    return undefined;
+  }
+
+  async process(payload: TextAnalysisRequest): Promise<any> {
+    return this.engine.analyzeText(payload);
+  }
+
+  isRetryable(error: any): boolean {
+    return error instanceof TextAnalysisError ? TRANSIENT_TEXT_ERRORS.includes(error.code) : true;
+  }
+}
+
+export class SpeechAnalysisJobProcessor implements AnalysisJobProcessor {
+  public readonly type = AnalysisJobType.SPEECH;
+
+  constructor(private engine: SpeechAnalysisEngine) {}
+
+  validate(payload: SpeechAnalysisJobPayload): string | undefined {
+    return payload && isEncodedMedia(payload.audio) ? undefined : 'Audio is required';
+  }
+
+  async process(payload: SpeechAnalysisJobPayload): Promise<any> {
+    return this.engine.analyzeSpeech({
+      audioData: decodeMedia(payload.audio),
+      context: payload.context,
+      options: payload.options
+    });
+  }
+
+  isRetryable(error: any): boolean {
+    return error instanceof SpeechAnalysisError ? TRANSIENT_SPEECH_ERRORS.includes(error.code) : true;
+  }
+}
+
+export class EmotionFacialAnalysisJobProcessor implements AnalysisJobProcessor {
+  public readonly type = AnalysisJobType.EMOTION_FACIAL;
+
+  constructor(private engine: EmotionFacialAnalysisEngine) {}
+
+  validate(payload: EmotionFacialAnalysisJobPayload): string | undefined {
+    return payload && (isEncodedMedia(payload.video) || isEncodedMedia(payload.audio))
+      ? undefined
+      : 'Either video or audio is required';
+  }
+
+  async process(payload: EmotionFacialAnalysisJobPayload): Promise<any> {
+    return this.engine.analyzeEmotionFacial({
+      videoData: payload.video && decodeMedia(payload.video),
+      audioData: payload.audio && decodeMedia(payload.audio),
+      context: payload.context,
+      options: payload.options
+    });
+  }
+
+  isRetryable(error: any): boolean {
+    return error instanceof EmotionFacialAnalysisError ? TRANSIENT_EMOTION_ERRORS.includes(error.code) : true;
+  }
+}
@@ -0,0 +1,367 @@
+/**
+ * Analysis Job Queue Tests
+ * Bounded concurrency, retries, webhooks, cancellation and recovery of batch jobs
+ */
+
+import crypto from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { AnalysisJobQueue, InMemoryAnalysisJobRepository, sendWebhookWithAxios } from '../services/analysis-job-queue';
+import { SpeechAnalysisJobProcessor, encodeMedia, decodeMedia } from '../services/analysis-job-processors';
+import { TextAnalysisController } from '../controllers/text-analysis-controller';
+import {
+  AnalysisJob,
+  AnalysisJobType,
+  AnalysisJobStatus,
+  AnalysisJobItemStatus,
+  AnalysisJobProcessor,
+  AnalysisJobError,
+  AnalysisJobErrorCode
+} from '../types/analysis-job';
+import { AudioData, AudioEncoding, SpeechAnalysisError, SpeechAnalysisErrorCode } from '../types/speech-analysis';
+
+// The controllers default to the shared, database-backed queue
+jest.mock('../services/analysis-jobs', () => ({ analysisJobQueue: {} }));
+
+class TransientError extends Error {}
+
+const createProcessor = (run: (payload: any) => Promise<any>): AnalysisJobProcessor & { calls: any[] } => {
+  const calls: any[] = [];
+  return {
+    type: AnalysisJobType.TEXT,
+    calls,
+    validate: payload => typeof payload?.text === 'string' ? undefined : 'Text must be a string',
+    process: async payload => {
+      calls.push(payload);
+      return run(payload);
+    },
+    isRetryable: error => error instanceof TransientError
+  };
+};
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const resolveHost = async (hostname: string): Promise<string[]> => ({
+  'hooks.example.com': ['93.184.215.14'],
+  'localhost': ['127.0.0.1', '::1'],
+  'metadata.internal': ['169.254.169.254']
+} as Record<string, string[]>)[hostname] || [];
+
+describe('AnalysisJobQueue', () => {
+  const fastRetries = { retryBaseDelayMs: 1, retryMaxDelayMs: 5 };
+
+  it('should run every item with bounded concurrency and record the results', async () => {
+    let running = 0;
+    let peak = 0;
+    const processor = createProcessor(async payload => {
+      running++;
+      peak = Math.max(peak, running);
+      await delay(5);
+      running--;
+      return { length: payload.text.length };
+    });
+    const queue = new AnalysisJobQueue(new InMemoryAnalysisJobRepository(), { concurrency: 2 });
+    queue.registerProcessor(processor);
+
+    const submitted = await queue.submit({
+      type: AnalysisJobType.TEXT,
+      payloads: ['a', 'bb', 'ccc', 'dddd', 'eeeee'].map(text => ({ text }))
+    });
+    expect(submitted.status).toBe(AnalysisJobStatus.QUEUED);
+    expect(submitted.progress).toEqual({ total: 5, succeeded: 0, failed: 0, pending: 5 });
+
+    await queue.whenIdle();
+    const job = await queue.getJob(submitted.id);
+
+    expect(peak).toBe(2);
+    expect(job.status).toBe(AnalysisJobStatus.COMPLETED);
+    expect(job.progress).toEqual({ total: 5, succeeded: 5, failed: 0, pending: 0 });
+    expect(job.items.map(item => item.result.length)).toEqual([1, 2, 3, 4, 5]);
+    expect(job.items.every(item => item.payload === undefined)).toBe(true);
+    expect(job.completedAt).toBeInstanceOf(Date);
+  });
+
+  it('should retry transient failures and give up on permanent ones', async () => {
+    const failures: Record<string, number> = { flaky: 2 };
+    const processor = createProcessor(async payload => {
+      if (payload.text === 'broken') {
+        throw new Error('Unparseable response');
+      }
+      if (failures[payload.text] > 0) {
+        failures[payload.text]--;
+        throw new TransientError('Upstream timed out');
+      }
+      return { ok: true };
+    });
+    const queue = new AnalysisJobQueue(new InMemoryAnalysisJobRepository(), { ...fastRetries, maxAttempts: 3 });
+    queue.registerProcessor(processor);
+
+    const submitted = await queue.submit({
+      type: AnalysisJobType.TEXT,
+      payloads: [{ text: 'flaky' }, { text: 'broken' }]
+    });
+    await queue.whenIdle();
+    const job = await queue.getJob(submitted.id);
+
+    expect(job.status).toBe(AnalysisJobStatus.PARTIALLY_COMPLETED);
+    expect(job.items[0]).toEqual(expect.objectContaining({ status: AnalysisJobItemStatus.SUCCEEDED, attempts: 3, error: undefined }));
+    expect(job.items[1]).toEqual(expect.objectContaining({
+      status: AnalysisJobItemStatus.FAILED,
+      attempts: 1,
+      error: { code: undefined, message: 'Unparseable response', retryable: false }
+    }));
+  });
+
+  it('should deliver a signed webhook and retry failed deliveries', async () => {
+    const deliveries: Array<{ url: string; body: string; headers: Record<string, string>; address: string }> = [];
+    const sendWebhook = jest.fn(async (url: string, body: string, headers: Record<string, string>, _timeoutMs: number, address: string) => {
+      deliveries.push({ url, body, headers, address });
+      if (deliveries.length === 1) {
+        throw new Error('connect ECONNREFUSED');
+      }
+    });
+    const queue = new AnalysisJobQueue(
+      new InMemoryAnalysisJobRepository(),
+      { ...fastRetries, webhookSecret: 'shh' },
+      sendWebhook,
+      resolveHost
+    );
+    queue.registerProcessor(createProcessor(async () => {
+      throw new Error('Invalid response');
+    }));
+
+    const submitted = await queue.submit({
+      type: AnalysisJobType.TEXT,
+      payloads: [{ text: 'only' }],
+      webhookUrl: 'https://hooks.example.com/analysis',
+      metadata: { cohort: 'spring' }
+    });
+    await queue.whenIdle();
+
+    expect(sendWebhook).toHaveBeenCalledTimes(2);
+    const { url, body, headers, address } = deliveries[1];
+    const payload = JSON.parse(body);
+    expect(url).toBe('https://hooks.example.com/analysis');
+    expect(address).toBe('93.184.215.14');
+    expect(payload.event).toBe('analysis_job.finished');
+    expect(payload.job).toEqual(expect.objectContaining({ id: submitted.id, status: AnalysisJobStatus.FAILED, metadata: { cohort: 'spring' } }));
+    expect(headers['X-Analysis-Job-Signature']).toBe('sha256=' + crypto.createHmac('sha256', 'shh').update(body).digest('hex'));
+
+    const job = await queue.getJob(submitted.id);
+    expect(job.webhook).toEqual(expect.objectContaining({ attempts: 2, lastError: undefined }));
+    expect(job.webhook!.deliveredAt).toBeInstanceOf(Date);
+  });
+
+  it('should reject invalid batches before queueing anything', async () => {
+    const queue = new AnalysisJobQueue(new InMemoryAnalysisJobRepository(), { maxItemsPerJob: 2 }, jest.fn(), resolveHost);
+    queue.registerProcessor(createProcessor(async () => ({})));
+
+    const codeOf = (promise: Promise<AnalysisJob>) => promise.catch((error: AnalysisJobError) => error.code);
+
+    expect(await codeOf(queue.submit({ type: AnalysisJobType.TEXT, payloads: [] }))).toBe(AnalysisJobErrorCode.INVALID_INPUT);
+    expect(await codeOf(queue.submit({ type: AnalysisJobType.TEXT, payloads: [{ text: 'a' }, { text: 'b' }, { text: 'c' }] })))
+      .toBe(AnalysisJobErrorCode.BATCH_TOO_LARGE);
+    expect(await codeOf(queue.submit({ type: AnalysisJobType.SPEECH, payloads: [{}] }))).toBe(AnalysisJobErrorCode.UNSUPPORTED_JOB_TYPE);
+    expect(await codeOf(queue.submit({ type: AnalysisJobType.TEXT, payloads: [{ text: 'a' }], webhookUrl: 'ftp://example.com' })))
+      .toBe(AnalysisJobErrorCode.INVALID_INPUT);
+    for (const webhookUrl of ['http://localhost:8080/hook', 'http://169.254.169.254/latest/meta-data', 'http://metadata.internal/',
+      'http://10.1.2.3/hook', 'http://[::1]/hook', 'http://[::ffff:127.0.0.1]/hook', 'https://unknown.example.com/hook']) {
+      await expect(queue.submit({ type: AnalysisJobType.TEXT, payloads: [{ text: 'a' }], webhookUrl }))
+        .rejects.toEqual(expect.objectContaining({ code: AnalysisJobErrorCode.INVALID_INPUT }));
+    }
+
+    await expect(queue.submit({ type: AnalysisJobType.TEXT, payloads: [{ text: 'a' }, { text: 42 }] })).rejects.toEqual(
+      expect.objectContaining({ details: [{ index: 1, error: 'Text must be a string' }] })
+    );
+    await expect(queue.getJob('missing')).rejects.toEqual(expect.objectContaining({ code: AnalysisJobErrorCode.JOB_NOT_FOUND }));
+  });
+
+  it('should cancel items that have not started', async () => {
+    let release: () => void = () => undefined;
+    const processor = createProcessor(() => new Promise(resolve => {
+      release = () => resolve({ ok: true });
+    }));
+    const queue = new AnalysisJobQueue(new InMemoryAnalysisJobRepository(), { concurrency: 1 });
+    queue.registerProcessor(processor);
+
+    const submitted = await queue.submit({ type: AnalysisJobType.TEXT, payloads: [{ text: 'a' }, { text: 'b' }, { text: 'c' }] });
+    await delay(0);
+    const cancelled = await queue.cancel(submitted.id);
+    release();
+    await queue.whenIdle();
+    const job = await queue.getJob(submitted.id);
+
+    expect(cancelled.status).toBe(AnalysisJobStatus.CANCELLED);
+    expect(processor.calls).toHaveLength(1);
+    expect(job.status).toBe(AnalysisJobStatus.CANCELLED);
+    expect(job.items.map(item => item.status)).toEqual([
+      AnalysisJobItemStatus.SUCCEEDED,
+      AnalysisJobItemStatus.CANCELLED,
+      AnalysisJobItemStatus.CANCELLED
+    ]);
+    await expect(queue.cancel(submitted.id)).rejects.toEqual(expect.objectContaining({ code: AnalysisJobErrorCode.JOB_ALREADY_FINISHED }));
+  });
+
+  it('should only show and cancel jobs for the user who submitted them', async () => {
+    const queue = new AnalysisJobQueue(new InMemoryAnalysisJobRepository(), { concurrency: 1 });
+    queue.registerProcessor(createProcessor(() => new Promise(() => undefined)));
+
+    const submitted = await queue.submit({ type: AnalysisJobType.TEXT, payloads: [{ text: 'a' }, { text: 'b' }], ownerId: 'owner' });
+    const notFound = expect.objectContaining({ code: AnalysisJobErrorCode.JOB_NOT_FOUND });
+
+    expect(submitted.ownerId).toBe('owner');
+    await expect(queue.getJob(submitted.id, 'someone-else')).rejects.toEqual(notFound);
+    await expect(queue.cancel(submitted.id, 'someone-else')).rejects.toEqual(notFound);
+    expect((await queue.getJob(submitted.id, 'owner')).status).not.toBe(AnalysisJobStatus.CANCELLED);
+    expect((await queue.cancel(submitted.id, 'owner')).status).toBe(AnalysisJobStatus.CANCELLED);
+  });
+
+  it('should resume unfinished jobs from the repository once their processor is registered', async () => {
+    const repository = new InMemoryAnalysisJobRepository();
+    const now = new Date();
+    await repository.createJob({
+      id: 'interrupted',
+      type: AnalysisJobType.TEXT,
+      status: AnalysisJobStatus.RUNNING,
+      items: [
+        { index: 0, status: AnalysisJobItemStatus.SUCCEEDED, payload: { text: 'done' }, attempts: 1, result: { ok: true } },
+        { index: 1, status: AnalysisJobItemStatus.RUNNING, payload: { text: 'interrupted' }, attempts: 1 },
+        { index: 2, status: AnalysisJobItemStatus.QUEUED, payload: { text: 'waiting' }, attempts: 0 }
+      ],
+      progress: { total: 3, succeeded: 1, failed: 0, pending: 2 },
+      createdAt: now,
+      updatedAt: now
+    });
+
+    const queue = new AnalysisJobQueue(repository);
+    await queue.start();
+    expect((await queue.getJob('interrupted')).status).toBe(AnalysisJobStatus.RUNNING);
+
+    const processor = createProcessor(async payload => ({ ok: payload.text }));
+    queue.registerProcessor(processor);
+    await queue.whenIdle();
+    const job = await repository.getJob('interrupted');
+
+    expect(processor.calls.map(payload => payload.text)).toEqual(['interrupted', 'waiting']);
+    expect(job!.status).toBe(AnalysisJobStatus.COMPLETED);
+    expect(job!.items[1].attempts).toBe(1);
+  });
+
+  it('should resume webhook deliveries that were still retrying', async () => {
+    const repository = new InMemoryAnalysisJobRepository();
+    const now = new Date();
+    const finished = (id: string, attempts: number): AnalysisJob => ({
+      id,
+      type: AnalysisJobType.TEXT,
+      status: AnalysisJobStatus.COMPLETED,
+      items: [{ index: 0, status: AnalysisJobItemStatus.SUCCEEDED, payload: { text: 'done' }, attempts: 1, result: { ok: true } }],
+      progress: { total: 1, succeeded: 1, failed: 0, pending: 0 },
+      webhook: { url: 'https://hooks.example.com/analysis', attempts, lastError: 'connect ECONNREFUSED' },
+      createdAt: now,
+      updatedAt: now,
+      completedAt: now
+    });
+    await repository.createJob(finished('retrying', 1));
+    await repository.createJob(finished('given-up', 5));
+
+    const sendWebhook = jest.fn(async () => undefined);
+    const queue = new AnalysisJobQueue(repository, { webhookMaxAttempts: 5 }, sendWebhook, resolveHost);
+    await queue.start();
+    await queue.whenIdle();
+
+    expect(sendWebhook).toHaveBeenCalledTimes(1);
+    expect(sendWebhook.mock.calls[0]).toEqual(expect.arrayContaining([expect.stringContaining('"id":"retrying"')]));
+    expect((await repository.getJob('retrying'))!.webhook).toEqual(expect.objectContaining({ attempts: 2, deliveredAt: expect.any(Date) }));
+    expect(await repository.getUnfinishedJobs(5)).toEqual([]);
+  });
+});
+
+describe('sendWebhookWithAxios', () => {
+  it('should connect to the checked address instead of resolving the host again', async () => {
+    const received: Array<{ host?: string; body: string }> = [];
+    const server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        received.push({ host: req.headers.host, body });
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      // .invalid never resolves, so the request only arrives through the pinned address
+      await sendWebhookWithAxios(`http://hooks.rebinding.invalid:${port}/analysis`, '{"ok":true}', {
+        'Content-Type': 'application/json'
+      }, 2000, '127.0.0.1');
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+
+    expect(received).toEqual([{ host: `hooks.rebinding.invalid:${port}`, body: '{"ok":true}' }]);
+  });
+});
+
+describe('TextAnalysisController batch analysis', () => {
+  const createResponse = () => {
+    const res: any = {};
+    res.status = jest.fn(() => res);
+    res.json = jest.fn(() => res);
+    return res;
+  };
+
+  it('should answer small batches in the request and queue larger ones as jobs', async () => {
+    const queue = new AnalysisJobQueue(new InMemoryAnalysisJobRepository(), {}, jest.fn(), resolveHost);
+    const controller = new TextAnalysisController(queue);
+
+    const small = createResponse();
+    await controller.batchAnalyze({
+      body: { texts: ['I led the migration of our billing service to a new database.', 42] }
+    } as any, small);
+
+    expect(small.status).not.toHaveBeenCalled();
+    expect(small.json).toHaveBeenCalledWith(expect.objectContaining({
+      success: true,
+      summary: { total: 2, successful: 1, failed: 1 }
+    }));
+
+    const large = createResponse();
+    await controller.batchAnalyze({
+      user: { id: 'owner', role: 'user' },
+      body: { texts: Array(11).fill('I shipped the release on time.') }
+    } as any, large);
+    await queue.stop();
+
+    expect(large.status).toHaveBeenCalledWith(202);
+    expect(large.json.mock.calls[0][0].job).toEqual(expect.objectContaining({ ownerId: 'owner', type: AnalysisJobType.TEXT }));
+  });
+});
+
+describe('Analysis job processors', () => {
+  it('should carry media through the queue and retry only transient engine errors', async () => {
+    const audio: AudioData = {
+      buffer: Buffer.from([1, 2, 3, 250]),
+      format: { encoding: AudioEncoding.WAV, mimeType: 'audio/wav', extension: 'wav' },
+      duration: 12,
+      sampleRate: 16000,
+      channels: 1,
+      bitDepth: 16
+    };
+    const encoded = JSON.parse(JSON.stringify(encodeMedia(audio)));
+    expect(decodeMedia<AudioData>(encoded)).toEqual(audio);
+
+    const engine = { analyzeSpeech: jest.fn(async () => ({ overallScore: 0.8 })) };
+    const processor = new SpeechAnalysisJobProcessor(engine as any);
+
+    expect(processor.validate({ audio: encoded, context: {} as any, options: {} as any })).toBeUndefined();
+    expect(processor.validate({ context: {} } as any)).toBe('Audio is required');
+    await processor.process({ audio: encoded, context: { language: 'en' } as any, options: {} as any });
+    expect(engine.analyzeSpeech).toHaveBeenCalledWith(expect.objectContaining({ audioData: audio, context: { language: 'en' } }));
+
+    const error = (code: SpeechAnalysisErrorCode) => new SpeechAnalysisError({ code, message: code });
+    expect(processor.isRetryable(error(SpeechAnalysisErrorCode.WHISPER_API_ERROR))).toBe(true);
+    expect(processor.isRetryable(error(SpeechAnalysisErrorCode.AUDIO_TOO_SHORT))).toBe(false);
+    expect(processor.isRetryable(new Error('socket hang up'))).toBe(true);
+  });
+});
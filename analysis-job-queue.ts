@@ -0,0 +1,632 @@
+/**
+ * Analysis Job Queue
+ * Runs batches of text, speech and emotion analyses in the background with
+ * bounded concurrency, retries with exponential backoff and webhook delivery
+ */
+
+import crypto from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import axios from 'axios';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../utils/logger';
+import {
+  AnalysisJob,
+  AnalysisJobItem,
+  AnalysisJobItemStatus,
+  AnalysisJobStatus,
+  AnalysisJobType,
+  AnalysisJobProcessor,
+  AnalysisJobRepository,
+  AnalysisJobQueueConfig,
+  AnalysisJobWebhookPayload,
+  AnalysisJobWebhookSender,
+  AnalysisJobHostResolver,
+  SubmitAnalysisJobRequest,
+  AnalysisJobError,
+  AnalysisJobErrorCode
+} from '../types/analysis-job';
+
+export const DEFAULT_ANALYSIS_JOB_QUEUE_CONFIG: AnalysisJobQueueConfig = {
+  concurrency: 4,
+  maxAttempts: 3,
+  retryBaseDelayMs: 2000,
+  retryMaxDelayMs: 60000,
+  maxItemsPerJob: 500,
+  webhookMaxAttempts: 5,
+  webhookTimeoutMs: 10000
+};
+
+const PENDING_ITEM_STATUSES = [AnalysisJobItemStatus.QUEUED, AnalysisJobItemStatus.RUNNING, AnalysisJobItemStatus.RETRYING];
+
+const copyJob = (job: AnalysisJob): AnalysisJob => ({
+  ...job,
+  items: job.items.map(item => ({ ...item, error: item.error && { ...item.error } })),
+  progress: { ...job.progress },
+  webhook: job.webhook && { ...job.webhook }
+});
+
+// Payloads can hold whole recordings, and the client already has them
+const withoutPayloads = (job: AnalysisJob): AnalysisJob => ({
+  ...copyJob(job),
+  items: job.items.map(item => ({ ...item, payload: undefined, error: item.error && { ...item.error } }))
+});
+
+// Loopback, private, link-local (cloud metadata), shared, multicast and reserved ranges.
+// IPv4-mapped IPv6 addresses are checked against the IPv4 ranges
+const INTERNAL_ADDRESSES = new net.BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]
+].forEach(([network, prefix]) => INTERNAL_ADDRESSES.addSubnet(network as string, prefix as number, 'ipv4'));
+[
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+].forEach(([network, prefix]) => INTERNAL_ADDRESSES.addSubnet(network as string, prefix as number, 'ipv6'));
+
+const isInternalAddress = (address: string): boolean => {
+  const family = net.isIP(address);
+  return family === 0 || INTERNAL_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+export const resolveHostWithDns: AnalysisJobHostResolver = async hostname => {
+  const addresses = await dns.promises.lookup(hostname, { all: true, verbatim: true });
+  return addresses.map(entry => entry.address);
+};
+
+const isVisibleTo = (job: AnalysisJob, ownerId?: string): boolean =>
+  ownerId === undefined || job.ownerId === ownerId;
+
+// Answers every lookup with the checked address, so a DNS server cannot
+// return a public address to the check and an internal one to the connection
+const pinnedLookup = (address: string): net.LookupFunction => (_hostname, options, callback) => {
+  const family = net.isIP(address);
+  if (options.all) {
+    callback(null, [{ address, family }]);
+  } else {
+    callback(null, address, family);
+  }
+};
+
+// Redirects are not followed, since they could lead to an internal address.
+// Proxies are bypassed so the connection goes to the pinned address
+export const sendWebhookWithAxios: AnalysisJobWebhookSender = async (url, body, headers, timeoutMs, address) => {
+  const lookup = pinnedLookup(address);
+  await axios.post(url, body, {
+    headers,
+    timeout: timeoutMs,
+    maxRedirects: 0,
+    proxy: false,
+    httpAgent: new http.Agent({ lookup }),
+    httpsAgent: new https.Agent({ lookup })
+  });
+};
+
+export class InMemoryAnalysisJobRepository implements AnalysisJobRepository {
+  private jobs: Map<string, AnalysisJob> = new Map();
+
+  async createJob(job: AnalysisJob): Promise<void> {
+    this.jobs.set(job.id, copyJob(job));
+  }
+
+  async getJob(jobId: string): Promise<AnalysisJob | null> {
+    const job = this.jobs.get(jobId);
+    return job ? copyJob(job) : null;
+  }
+
+  async updateJob(job: AnalysisJob): Promise<void> {
+    const stored = this.jobs.get(job.id);
+    if (stored) {
+      this.jobs.set(job.id, { ...copyJob(job), items: stored.items });
+    }
+  }
+
+  async updateItem(jobId: string, item: AnalysisJobItem): Promise<void> {
+    const stored = this.jobs.get(jobId);
+    if (stored) {
+      stored.items[item.index] = { ...item, error: item.error && { ...item.error } };
+    }
+  }
+
+  async getUnfinishedJobs(webhookMaxAttempts: number): Promise<AnalysisJob[]> {
+    return Array.from(this.jobs.values())
+      .filter(job => !job.completedAt ||
+        (job.webhook && !job.webhook.deliveredAt && job.webhook.attempts < webhookMaxAttempts))
+      .map(copyJob);
+  }
+}
+
+export class AnalysisJobQueue {
+  private config: AnalysisJobQueueConfig;
+  private processors: Map<AnalysisJobType, AnalysisJobProcessor> = new Map();
+  private jobs: Map<string, AnalysisJob> = new Map(); // Jobs with work or a webhook outstanding
+  private ready: Array<{ jobId: string; index: number }> = [];
+  private parked: Array<{ jobId: string; index: number }> = []; // Recovered items waiting for their processor
+  private timers: Set<NodeJS.Timeout> = new Set();
+  private active: number = 0;
+  private deliveries: number = 0;
+  private idleWaiters: Array<() => void> = [];
+  private started?: Promise<void>;
+  private stopped: boolean = false;
+
+  constructor(
+    private repository: AnalysisJobRepository = new InMemoryAnalysisJobRepository(),
+    config: Partial<AnalysisJobQueueConfig> = {},
+    private sendWebhook: AnalysisJobWebhookSender = sendWebhookWithAxios,
+    private resolveHost: AnalysisJobHostResolver = resolveHostWithDns
+  ) {
+    this.config = { ...DEFAULT_ANALYSIS_JOB_QUEUE_CONFIG, ...config };
+  }
+
+  /**
+   * Register the processor that runs items of its job type, replacing any earlier one
+   */
+  registerProcessor(processor: AnalysisJobProcessor): void {
+    this.processors.set(processor.type, processor);
+
+    const waiting = this.parked.filter(entry => this.jobs.get(entry.jobId)?.type === processor.type);
+    this.parked = this.parked.filter(entry => !waiting.includes(entry));
+    this.ready.push(...waiting);
+    this.pump();
+  }
+
+  /**
+   * Resume jobs left unfinished by a previous process. Safe to call more than once
+   */
+  start(): Promise<void> {
+    if (!this.started) {
+      this.stopped = false;
+      this.started = this.recover().catch(error => {
+        this.started = undefined;
+        logger.error('Failed to recover analysis jobs', { error });
+        throw error;
+      });
+    }
+    return this.started;
+  }
+
+  /**
+   * Stop taking new items and wait for running ones. Their jobs resume on the next start
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+    this.ready = [];
+    this.parked = [];
+    await this.whenIdle();
+    this.jobs.clear();
+    this.started = undefined;
+  }
+
+  async submit(request: SubmitAnalysisJobRequest): Promise<AnalysisJob> {
+    const processor = this.processors.get(request.type);
+    if (!processor) {
+      throw new AnalysisJobError({
+        code: AnalysisJobErrorCode.UNSUPPORTED_JOB_TYPE,
+        message: `No processor is registered for ${request.type} analysis jobs`
+      });
+    }
+
+    await this.validateSubmission(request, processor);
+    await this.start();
+
+    const now = new Date();
+    const job: AnalysisJob = {
+      id: uuidv4(),
+      type: request.type,
+      status: AnalysisJobStatus.QUEUED,
+      items: request.payloads.map((payload, index) => ({
+        index,
+        status: AnalysisJobItemStatus.QUEUED,
+        payload,
+        attempts: 0
+      })),
+      progress: { total: 0, succeeded: 0, failed: 0, pending: 0 },
+      webhook: request.webhookUrl ? { url: request.webhookUrl, attempts: 0 } : undefined,
+      metadata: request.metadata,
+      ownerId: request.ownerId,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.refreshProgress(job);
+
+    await this.repository.createJob(job);
+    this.jobs.set(job.id, job);
+
+    logger.info('Analysis job queued', { jobId: job.id, type: job.type, items: job.items.length });
+
+    job.items.forEach(item => this.ready.push({ jobId: job.id, index: item.index }));
+    this.pump();
+
+    return withoutPayloads(job);
+  }
+
+  /**
+   * Get a job. With an owner, jobs submitted by anyone else are reported as not found
+   */
+  async getJob(jobId: string, ownerId?: string): Promise<AnalysisJob> {
+    const job = this.jobs.get(jobId) || await this.repository.getJob(jobId);
+    if (!job || !isVisibleTo(job, ownerId)) {
+      throw new AnalysisJobError({
+        code: AnalysisJobErrorCode.JOB_NOT_FOUND,
+        message: `Analysis job ${jobId} not found`
+      });
+    }
+    return withoutPayloads(job);
+  }
+
+  /**
+   * Cancel the items that have not started. Running items finish their current attempt
+   */
+  async cancel(jobId: string, ownerId?: string): Promise<AnalysisJob> {
+    await this.start();
+    const job = this.jobs.get(jobId);
+    if (!job || !isVisibleTo(job, ownerId)) {
+      const stored = job ? null : await this.repository.getJob(jobId);
+      const finished = !!stored && isVisibleTo(stored, ownerId);
+      throw new AnalysisJobError({
+        code: finished ? AnalysisJobErrorCode.JOB_ALREADY_FINISHED : AnalysisJobErrorCode.JOB_NOT_FOUND,
+        message: finished ? `Analysis job ${jobId} has already finished` : `Analysis job ${jobId} not found`
+      });
+    }
+    if (job.completedAt) {
+      throw new AnalysisJobError({
+        code: AnalysisJobErrorCode.JOB_ALREADY_FINISHED,
+        message: `Analysis job ${jobId} has already finished`
+      });
+    }
+
+    job.status = AnalysisJobStatus.CANCELLED;
+    for (const item of job.items) {
+      if (item.status === AnalysisJobItemStatus.QUEUED || item.status === AnalysisJobItemStatus.RETRYING) {
+        item.status = AnalysisJobItemStatus.CANCELLED;
+        item.nextAttemptAt = undefined;
+        item.completedAt = new Date();
+        await this.repository.updateItem(job.id, item);
+      }
+    }
+
+    logger.info('Analysis job cancelled', { jobId });
+    await this.settle(job);
+
+    return withoutPayloads(job);
+  }
+
+  /**
+   * Resolve once no item is running or waiting to retry and no webhook is in flight
+   */
+  whenIdle(): Promise<void> {
+    if (this.isIdle()) {
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.idleWaiters.push(resolve));
+  }
+
+  private async validateSubmission(request: SubmitAnalysisJobRequest, processor: AnalysisJobProcessor): Promise<void> {
+    if (!Array.isArray(request.payloads) || request.payloads.length === 0) {
+      throw new AnalysisJobError({
+        code: AnalysisJobErrorCode.INVALID_INPUT,
+        message: 'A batch must contain at least one analysis request'
+      });
+    }
+
+    if (request.payloads.length > this.config.maxItemsPerJob) {
+      throw new AnalysisJobError({
+        code: AnalysisJobErrorCode.BATCH_TOO_LARGE,
+        message: `Maximum ${this.config.maxItemsPerJob} analysis requests allowed per batch`
+      });
+    }
+
+    if (request.webhookUrl !== undefined && !/^https?:\/\/\S+$/i.test(request.webhookUrl)) {
+      throw new AnalysisJobError({
+        code: AnalysisJobErrorCode.INVALID_INPUT,
+        message: 'Webhook URL must be an http or https URL'
+      });
+    }
+
+    if (request.webhookUrl !== undefined) {
+      const { reason } = await this.checkWebhookUrl(request.webhookUrl);
+      if (reason) {
+        throw new AnalysisJobError({
+          code: AnalysisJobErrorCode.INVALID_INPUT,
+          message: reason
+        });
+      }
+    }
+
+    const invalid = request.payloads
+      .map((payload, index) => ({ index, error: processor.validate?.(payload) }))
+      .filter(entry => entry.error);
+    if (invalid.length > 0) {
+      throw new AnalysisJobError({
+        code: AnalysisJobErrorCode.INVALID_INPUT,
+        message: `${invalid.length} of ${request.payloads.length} analysis requests are invalid`,
+        details: invalid
+      });
+    }
+  }
+
+  /**
+   * Address to deliver the webhook to, or the reason the URL may not be
+   * called. Every address the host resolves to must be public, so webhooks
+   * cannot reach internal services
+   */
+  private async checkWebhookUrl(url: string): Promise<{ address?: string; reason?: string }> {
+    let hostname: string;
+    try {
+      hostname = new URL(url).hostname.replace(/^\[(.*)\]$/, '$1');
+    } catch (error) {
+      return { reason: 'Webhook URL must be an http or https URL' };
+    }
+
+    let addresses: string[];
+    try {
+      addresses = net.isIP(hostname) ? [hostname] : await this.resolveHost(hostname);
+    } catch (error: any) {
+      return { reason: `Webhook host ${hostname} could not be resolved` };
+    }
+
+    if (addresses.length === 0 || addresses.some(isInternalAddress)) {
+      return { reason: `Webhook host ${hostname} must resolve to a public address` };
+    }
+    return { address: addresses[0] };
+  }
+
+  private async recover(): Promise<void> {
+    const unfinished = await this.repository.getUnfinishedJobs(this.config.webhookMaxAttempts);
+
+    for (const job of unfinished) {
+      if (this.jobs.has(job.id)) {
+        continue;
+      }
+      this.jobs.set(job.id, job);
+
+      if (job.completedAt) {
+        // Finished before the restart with its webhook still being delivered
+        this.deliverWebhook(job);
+        continue;
+      }
+
+      for (const item of job.items) {
+        if (job.status === AnalysisJobStatus.CANCELLED && PENDING_ITEM_STATUSES.includes(item.status)) {
+          item.status = AnalysisJobItemStatus.CANCELLED;
+          item.nextAttemptAt = undefined;
+          item.completedAt = new Date();
+          await this.repository.updateItem(job.id, item);
+          continue;
+        }
+
+        if (item.status === AnalysisJobItemStatus.RUNNING) {
+          // The attempt was interrupted, so it runs again without counting against the item
+          item.status = AnalysisJobItemStatus.QUEUED;
+          item.attempts = Math.max(0, item.attempts - 1);
+          await this.repository.updateItem(job.id, item);
+        }
+
+        if (item.status === AnalysisJobItemStatus.QUEUED) {
+          this.ready.push({ jobId: job.id, index: item.index });
+        } else if (item.status === AnalysisJobItemStatus.RETRYING) {
+          const delay = item.nextAttemptAt ? Math.max(0, item.nextAttemptAt.getTime() - Date.now()) : 0;
+          this.scheduleRetry(job.id, item.index, delay);
+        }
+      }
+
+      await this.settle(job);
+    }
+
+    if (unfinished.length > 0) {
+      logger.info('Recovered unfinished analysis jobs', { jobs: unfinished.length });
+    }
+    this.pump();
+  }
+
+  private pump(): void {
+    while (!this.stopped && this.active < this.config.concurrency && this.ready.length > 0) {
+      const entry = this.ready.shift()!;
+      const job = this.jobs.get(entry.jobId);
+      const item = job?.items[entry.index];
+      if (!job || !item || (item.status !== AnalysisJobItemStatus.QUEUED && item.status !== AnalysisJobItemStatus.RETRYING)) {
+        continue;
+      }
+
+      const processor = this.processors.get(job.type);
+      if (!processor) {
+        this.parked.push(entry);
+        continue;
+      }
+
+      this.active++;
+      this.runItem(job, item, processor)
+        .catch(error => logger.error('Analysis job item could not be saved', { jobId: job.id, index: item.index, error }))
+        .finally(() => {
+          this.active--;
+          this.pump();
+        });
+    }
+
+    this.notifyIfIdle();
+  }
+
+  private async runItem(job: AnalysisJob, item: AnalysisJobItem, processor: AnalysisJobProcessor): Promise<void> {
+    item.status = AnalysisJobItemStatus.RUNNING;
+    item.attempts++;
+    item.startedAt = new Date();
+    item.nextAttemptAt = undefined;
+    await this.repository.updateItem(job.id, item);
+
+    if (job.status === AnalysisJobStatus.QUEUED) {
+      job.status = AnalysisJobStatus.RUNNING;
+      await this.saveJob(job);
+    }
+
+    try {
+      item.result = await processor.process(item.payload);
+      item.status = AnalysisJobItemStatus.SUCCEEDED;
+      item.error = undefined;
+      item.completedAt = new Date();
+    } catch (error: any) {
+      const retryable = processor.isRetryable(error);
+      item.error = {
+        code: typeof error?.code === 'string' ? error.code : undefined,
+        message: error?.message || String(error),
+        retryable
+      };
+
+      if (job.status === AnalysisJobStatus.CANCELLED) {
+        item.status = AnalysisJobItemStatus.CANCELLED;
+        item.completedAt = new Date();
+      } else if (retryable && item.attempts < this.config.maxAttempts) {
+        const delay = Math.min(this.config.retryMaxDelayMs, this.config.retryBaseDelayMs * Math.pow(2, item.attempts - 1));
+        item.status = AnalysisJobItemStatus.RETRYING;
+        item.nextAttemptAt = new Date(Date.now() + delay);
+        this.scheduleRetry(job.id, item.index, delay);
+      } else {
+        item.status = AnalysisJobItemStatus.FAILED;
+        item.completedAt = new Date();
+      }
+
+      logger.warn('Analysis job item failed', {
+        jobId: job.id,
+        index: item.index,
+        attempt: item.attempts,
+        retrying: item.status === AnalysisJobItemStatus.RETRYING,
+        error: item.error.message
+      });
+    }
+
+    await this.repository.updateItem(job.id, item);
+    await this.settle(job);
+  }
+
+  private scheduleRetry(jobId: string, index: number, delay: number): void {
+    if (this.stopped) {
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      this.ready.push({ jobId, index });
+      this.pump();
+    }, delay);
+    timer.unref?.();
+    this.timers.add(timer);
+  }
+
+  /**
+   * Finish the job once no item is pending, then deliver its webhook
+   */
+  private async settle(job: AnalysisJob): Promise<void> {
+    this.refreshProgress(job);
+    if (job.progress.pending > 0) {
+      await this.saveJob(job);
+      return;
+    }
+    if (job.completedAt) {
+      return;
+    }
+
+    if (job.status !== AnalysisJobStatus.CANCELLED) {
+      const { total, succeeded } = job.progress;
+      job.status = succeeded === total
+        ? AnalysisJobStatus.COMPLETED
+        : succeeded === 0 ? AnalysisJobStatus.FAILED : AnalysisJobStatus.PARTIALLY_COMPLETED;
+    }
+    job.completedAt = new Date();
+    await this.saveJob(job);
+
+    logger.info('Analysis job finished', { jobId: job.id, status: job.status, ...job.progress });
+
+    if (job.webhook) {
+      this.deliverWebhook(job);
+    } else {
+      this.jobs.delete(job.id);
+    }
+  }
+
+  private deliverWebhook(job: AnalysisJob): void {
+    const webhook = job.webhook!;
+    const payload: AnalysisJobWebhookPayload = { event: 'analysis_job.finished', job: withoutPayloads(job) };
+    const body = JSON.stringify(payload);
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'X-Analysis-Job-Id': job.id
+    };
+    if (this.config.webhookSecret) {
+      headers['X-Analysis-Job-Signature'] = 'sha256=' + crypto
+        .createHmac('sha256', this.config.webhookSecret)
+        .update(body)
+        .digest('hex');
+    }
+
+    const attempt = async (): Promise<void> => {
+      webhook.attempts++;
+      try {
+        // Checked again on every attempt, as the host may since resolve elsewhere
+        const { address, reason } = await this.checkWebhookUrl(webhook.url);
+        if (reason) {
+          throw new Error(reason);
+        }
+        await this.sendWebhook(webhook.url, body, headers, this.config.webhookTimeoutMs, address!);
+        webhook.deliveredAt = new Date();
+        webhook.lastError = undefined;
+      } catch (error: any) {
+        webhook.lastError = error?.message || String(error);
+        logger.warn('Analysis job webhook delivery failed', { jobId: job.id, attempt: webhook.attempts, error: webhook.lastError });
+      }
+      await this.saveJob(job);
+
+      if (!webhook.deliveredAt && webhook.attempts < this.config.webhookMaxAttempts && !this.stopped) {
+        const delay = Math.min(this.config.retryMaxDelayMs, this.config.retryBaseDelayMs * Math.pow(2, webhook.attempts - 1));
+        const timer = setTimeout(() => {
+          this.timers.delete(timer);
+          run();
+        }, delay);
+        timer.unref?.();
+        this.timers.add(timer);
+      } else {
+        this.jobs.delete(job.id);
+      }
+    };
+
+    const run = (): void => {
+      this.deliveries++;
+      attempt()
+        .catch(error => logger.error('Analysis job webhook state could not be saved', { jobId: job.id, error }))
+        .finally(() => {
+          this.deliveries--;
+          this.notifyIfIdle();
+        });
+    };
+
+    run();
+  }
+
+  private async saveJob(job: AnalysisJob): Promise<void> {
+    job.updatedAt = new Date();
+    await this.repository.updateJob(job);
+  }
+
+  private refreshProgress(job: AnalysisJob): void {
+    job.progress = {
+      total: job.items.length,
+      succeeded: job.items.filter(item => item.status === AnalysisJobItemStatus.SUCCEEDED).length,
+      failed: job.items.filter(item => item.status === AnalysisJobItemStatus.FAILED).length,
+      pending: job.items.filter(item => PENDING_ITEM_STATUSES.includes(item.status)).length
+    };
+  }
+
+  private isIdle(): boolean {
+    return this.active === 0 && this.deliveries === 0 && this.timers.size === 0 &&
+      (this.stopped || this.ready.length === 0);
+  }
+
+  private notifyIfIdle(): void {
+    if (this.isIdle()) {
+      const waiters = this.idleWaiters;
+      this.idleWaiters = [];
+      waiters.forEach(resolve => resolve());
+    }
+  }
+}
@@ -0,0 +1,184 @@
+import { Pool, PoolClient } from 'pg';
+import {
+  AnalysisJob,
+  AnalysisJobItem,
+  AnalysisJobRepository
+} from '../types/analysis-job';
+import { db } from './connection';
+import { logger } from '../utils/logger';
+
+export class PostgresAnalysisJobRepository implements AnalysisJobRepository {
+  constructor(private pool: Pool = db) {}
+
+  async createJob(job: AnalysisJob): Promise<void> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const jobQuery = `
+        INSERT INTO analysis_jobs (
+          id, type, status, progress, webhook, metadata, owner_id, created_at, updated_at, completed_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      `;
+
+      await client.query(jobQuery, [
+        job.id,
+        job.type,
+        job.status,
+        JSON.stringify(job.progress),
+        job.webhook ? JSON.stringify(job.webhook) : null,
+        job.metadata ? JSON.stringify(job.metadata) : null,
+        job.ownerId || null,
+        job.createdAt,
+        job.updatedAt,
+        job.completedAt || null
+      ]);
+
+      for (const item of job.items) {
+        await this.saveItem(client, job.id, item);
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error('Failed to save analysis job', { jobId: job.id, error });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getJob(jobId: string): Promise<AnalysisJob | null> {
+    const result = await this.pool.query('SELECT * FROM analysis_jobs WHERE id = $1', [jobId]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const items = await this.getItems([jobId]);
+    return this.mapRowToJob(result.rows[0], items.get(jobId) || []);
+  }
+
+  async updateJob(job: AnalysisJob): Promise<void> {
+    const query = `
+      UPDATE analysis_jobs
+      SET status = $2, progress = $3, webhook = $4, updated_at = $5, completed_at = $6
+      WHERE id = $1
+    `;
+
+    await this.pool.query(query, [
+      job.id,
+      job.status,
+      JSON.stringify(job.progress),
+      job.webhook ? JSON.stringify(job.webhook) : null,
+      job.updatedAt,
+      job.completedAt || null
+    ]);
+  }
+
+  async updateItem(jobId: string, item: AnalysisJobItem): Promise<void> {
+    const query = `
+      UPDATE analysis_job_items
+      SET status = $3, attempts = $4, result = $5, error = $6,
+          next_attempt_at = $7, started_at = $8, completed_at = $9
+      WHERE job_id = $1 AND item_index = $2
+    `;
+
+    await this.pool.query(query, [
+      jobId,
+      item.index,
+      item.status,
+      item.attempts,
+      item.result !== undefined ? JSON.stringify(item.result) : null,
+      item.error ? JSON.stringify(item.error) : null,
+      item.nextAttemptAt || null,
+      item.startedAt || null,
+      item.completedAt || null
+    ]);
+  }
+
+  async getUnfinishedJobs(webhookMaxAttempts: number): Promise<AnalysisJob[]> {
+    const query = `
+      SELECT * FROM analysis_jobs
+      WHERE completed_at IS NULL
+         OR (webhook IS NOT NULL AND webhook->>'deliveredAt' IS NULL AND (webhook->>'attempts')::int < $1)
+      ORDER BY created_at ASC
+    `;
+
+    const result = await this.pool.query(query, [webhookMaxAttempts]);
+
+    if (result.rows.length === 0) {
+      return [];
+    }
+
+    const items = await this.getItems(result.rows.map(row => row.id));
+    return result.rows.map(row => this.mapRowToJob(row, items.get(row.id) || []));
+  }
+
+  private async saveItem(client: PoolClient, jobId: string, item: AnalysisJobItem): Promise<void> {
+    const query = `
+      INSERT INTO analysis_job_items (
+        job_id, item_index, status, payload, attempts, result, error, next_attempt_at, started_at, completed_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+    `;
+
+    await client.query(query, [
+      jobId,
+      item.index,
+      item.status,
+      JSON.stringify(item.payload),
+      item.attempts,
+      item.result !== undefined ? JSON.stringify(item.result) : null,
+      item.error ? JSON.stringify(item.error) : null,
+      item.nextAttemptAt || null,
+      item.startedAt || null,
+      item.completedAt || null
+    ]);
+  }
+
+  private async getItems(jobIds: string[]): Promise<Map<string, AnalysisJobItem[]>> {
+    const result = await this.pool.query(
+      'SELECT * FROM analysis_job_items WHERE job_id = ANY($1) ORDER BY job_id, item_index ASC',
+      [jobIds]
+    );
+
+    const items = new Map<string, AnalysisJobItem[]>();
+    for (const row of result.rows) {
+      const jobItems = items.get(row.job_id) || [];
+      jobItems.push(this.mapRowToItem(row));
+      items.set(row.job_id, jobItems);
+    }
+    return items;
+  }
+
+  private mapRowToJob(row: any, items: AnalysisJobItem[]): AnalysisJob {
+    return {
+      id: row.id,
+      type: row.type,
+      status: row.status,
+      items,
+      progress: row.progress,
+      webhook: row.webhook || undefined,
+      metadata: row.metadata || undefined,
+      ownerId: row.owner_id || undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+      completedAt: row.completed_at ? new Date(row.completed_at) : undefined
+    };
+  }
+
+  private mapRowToItem(row: any): AnalysisJobItem {
+    return {
+      index: row.item_index,
+      status: row.status,
+      payload: row.payload,
+      attempts: row.attempts,
+      result: row.result ?? undefined,
+      error: row.error || undefined,
+      nextAttemptAt: row.next_attempt_at ? new Date(row.next_attempt_at) : undefined,
+      startedAt: row.started_at ? new Date(row.started_at) : undefined,
+      completedAt: row.completed_at ? new Date(row.completed_at) : undefined
+    };
+  }
+}
@@ -0,0 +1,16 @@
+/**
+ * Analysis Job Routes
+ * HTTP routes for batch analysis job status
+ */
+
+import { Router } from 'express';
+import { AnalysisJobController } from '../controllers/analysis-job-controller';
+
+const router = Router();
+const analysisJobController = new AnalysisJobController();
+
+// Job status polling and cancellation
+router.get('/:jobId', analysisJobController.getJob);
+router.post('/:jobId/cancel', analysisJobController.cancelJob);
+
+export { router as analysisJobRoutes };
@@ -0,0 +1,174 @@
+/**
+ * Analysis Job Types
+ * Defines queued batch analysis jobs for the text, speech and emotion engines
+ */
+
+import { AudioData, SpeechAnalysisContext, SpeechAnalysisOptions } from './speech-analysis';
+import {
+  VideoData,
+  AudioData as EmotionAudioData,
+  AnalysisContext as EmotionFacialContext,
+  EmotionFacialAnalysisOptions
+} from './emotion-facial-analysis';
+
+export enum AnalysisJobType {
+  TEXT = 'text',
+  SPEECH = 'speech',
+  EMOTION_FACIAL = 'emotion_facial'
+}
+
+export enum AnalysisJobStatus {
+  QUEUED = 'queued',
+  RUNNING = 'running',
+  COMPLETED = 'completed', // Every item succeeded
+  PARTIALLY_COMPLETED = 'partially_completed', // Some items failed after all retries
+  FAILED = 'failed', // No item succeeded
+  CANCELLED = 'cancelled'
+}
+
+export enum AnalysisJobItemStatus {
+  QUEUED = 'queued',
+  RUNNING = 'running',
+  RETRYING = 'retrying', // Waiting out the backoff before the next attempt
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled'
+}
+
+export interface AnalysisJobQueueConfig {
+  concurrency: number; // Items analysed at once, across all jobs
+  maxAttempts: number; // Per item, including the first attempt
+  retryBaseDelayMs: number; // Doubled after every failed attempt
+  retryMaxDelayMs: number;
+  maxItemsPerJob: number;
+  webhookMaxAttempts: number;
+  webhookTimeoutMs: number;
+  webhookSecret?: string; // Signs webhook bodies with HMAC-SHA256 when set
+}
+
+export interface AnalysisJobItemError {
+  code?: string;
+  message: string;
+  retryable: boolean;
+}
+
+export interface AnalysisJobItem {
+  index: number;
+  status: AnalysisJobItemStatus;
+  payload: any; // Request for the job type's processor, stored as JSON
+  attempts: number;
+  result?: any;
+  error?: AnalysisJobItemError;
+  nextAttemptAt?: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+}
+
+export interface AnalysisJobProgress {
+  total: number;
+  succeeded: number;
+  failed: number;
+  pending: number;
+}
+
+export interface AnalysisJobWebhook {
+  url: string;
+  attempts: number;
+  deliveredAt?: Date;
+  lastError?: string;
+}
+
+export interface AnalysisJob {
+  id: string;
+  type: AnalysisJobType;
+  status: AnalysisJobStatus;
+  items: AnalysisJobItem[];
+  progress: AnalysisJobProgress;
+  webhook?: AnalysisJobWebhook;
+  metadata?: Record<string, any>;
+  ownerId?: string; // User who submitted the job; only they can read or cancel it
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt?: Date;
+}
+
+export interface SubmitAnalysisJobRequest {
+  type: AnalysisJobType;
+  payloads: any[];
+  webhookUrl?: string;
+  metadata?: Record<string, any>;
+  ownerId?: string;
+}
+
+export interface AnalysisJobWebhookPayload {
+  event: 'analysis_job.finished';
+  job: AnalysisJob;
+}
+
+// Media is stored base64 encoded beside its metadata so speech and emotion jobs survive a restart
+export interface EncodedMedia<T extends { buffer: Buffer }> {
+  data: string;
+  metadata: Omit<T, 'buffer'>;
+}
+
+export interface SpeechAnalysisJobPayload {
+  audio: EncodedMedia<AudioData>;
+  context: SpeechAnalysisContext;
+  options: SpeechAnalysisOptions;
+}
+
+export interface EmotionFacialAnalysisJobPayload {
+  video?: EncodedMedia<VideoData>;
+  audio?: EncodedMedia<EmotionAudioData>;
+  context: EmotionFacialContext;
+  options: EmotionFacialAnalysisOptions;
+}
+
+export interface AnalysisJobProcessor {
+  type: AnalysisJobType;
+  validate?(payload: any): string | undefined; // Reason the payload is rejected at submission
+  process(payload: any): Promise<any>;
+  isRetryable(error: any): boolean;
+}
+
+// The body is sent exactly as given so the signature header stays valid.
+// The connection goes to `address`, the one the host was checked against
+export type AnalysisJobWebhookSender = (
+  url: string,
+  body: string,
+  headers: Record<string, string>,
+  timeoutMs: number,
+  address: string
+) => Promise<void>;
+
+// Addresses a webhook host name resolves to, checked before anything is sent
+export type AnalysisJobHostResolver = (hostname: string) => Promise<string[]>;
+
+export interface AnalysisJobRepository {
+  createJob(job: AnalysisJob): Promise<void>;
+  getJob(jobId: string): Promise<AnalysisJob | null>;
+  updateJob(job: AnalysisJob): Promise<void>; // Job fields only, items are saved with updateItem
+  updateItem(jobId: string, item: AnalysisJobItem): Promise<void>;
+  // Jobs with items pending, or finished with a webhook not yet delivered in fewer attempts
+  getUnfinishedJobs(webhookMaxAttempts: number): Promise<AnalysisJob[]>;
+}
+
+export class AnalysisJobError extends Error {
+  public code: AnalysisJobErrorCode;
+  public details?: any;
+
+  constructor(params: { code: AnalysisJobErrorCode; message: string; details?: any }) {
+    super(params.message);
+    this.name = 'AnalysisJobError';
+    this.code = params.code;
+    this.details = params.details;
+  }
+}
+
+export enum AnalysisJobErrorCode {
+  INVALID_INPUT = 'INVALID_INPUT',
+  BATCH_TOO_LARGE = 'BATCH_TOO_LARGE',
+  UNSUPPORTED_JOB_TYPE = 'UNSUPPORTED_JOB_TYPE',
+  JOB_NOT_FOUND = 'JOB_NOT_FOUND',
+  JOB_ALREADY_FINISHED = 'JOB_ALREADY_FINISHED'
+}
@@ -0,0 +1,14 @@
+/**
+ * Analysis Jobs
+ * Shared batch analysis queue, persisted in PostgreSQL so jobs survive restarts
+ */
+
+import { config } from '../config';
+import { AnalysisJobQueue } from './analysis-job-queue';
+import { PostgresAnalysisJobRepository } from '../database/analysis-job-repository';
+
+export const analysisJobQueue = new AnalysisJobQueue(new PostgresAnalysisJobRepository(), {
+  concurrency: config.analysisJobs.concurrency,
+  maxAttempts: config.analysisJobs.maxAttempts,
+  webhookSecret: config.analysisJobs.webhookSecret
+});
@@ -4,6 +4,7 @@ import cors from 'cors';
 import { config } from './config';
 import { initializeConnections } from './database/connection';
 import { PostgresReportRepository } from './database/repository';
+import { PostgresPanelConsensusRepository } from './database/panel-consensus-repository';
 import { DefaultReportGeneratorService } from './services/report-generator';
 import { createReportRoutes } from './routes/reports';
 import improvementRoutes from './routes/improvement';
@@ -74,7 +75,12 @@ export const createApp = async () => {
 
   // Initialize services
   const reportRepository = new PostgresReportRepository();
-  const reportGenerator = new DefaultReportGeneratorService();
+  const reportGenerator = new DefaultReportGeneratorService(
+    undefined,
+    undefined,
+    undefined,
+    new PostgresPanelConsensusRepository()
+  );
 
   // Start scheduler service
   schedulerService.startScheduler();
@@ -0,0 +1,418 @@
+/**
+ * Audio Feature Extractor
+ * Decodes PCM/WAV payloads and measures energy, voice activity, pauses and
+ * pitch directly from the samples
+ */
+
+import { logger } from '../utils/logger';
+import {
+  AudioPayload,
+  AudioSignal,
+  AudioFeatureOptions,
+  AudioFeatures,
+  AudioSegment,
+  PitchStatistics
+} from '../types/audio-features';
+import { SpeechAnalysisError, SpeechAnalysisErrorCode } from '../types/speech-analysis';
+
+export const DEFAULT_AUDIO_FEATURE_OPTIONS: AudioFeatureOptions = {
+  frameLength: 0.025,
+  hopLength: 0.01,
+  minPauseLength: 0.3,
+  minSpeechLength: 0.08,
+  minPitch: 75,
+  maxPitch: 400,
+  vadMarginDb: 6,
+  silenceFloorDb: -50
+};
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+const LEVEL_RANGE_DB = 60; // Levels map -60 dBFS .. 0 dBFS onto 0 .. 1
+const PITCH_SAMPLE_RATE = 8000; // Pitch is tracked on a decimated copy to keep it cheap
+const PITCH_WINDOW = 0.03; // seconds
+const YIN_THRESHOLD = 0.15;
+const MAX_SNR_DB = 60;
+
+export class AudioFeatureExtractor {
+  private options: AudioFeatureOptions;
+
+  constructor(options: Partial<AudioFeatureOptions> = {}) {
+    this.options = { ...DEFAULT_AUDIO_FEATURE_OPTIONS, ...options };
+  }
+
+  /**
+   * Decode and analyze an audio payload in one step
+   */
+  public extractFromAudio(audio: AudioPayload): AudioFeatures {
+    return this.extract(this.decode(audio));
+  }
+
+  /**
+   * Decode a payload into mono samples in [-1, 1]. Supports RIFF/WAV with
+   * 8/16/24/32-bit integer PCM or 32/64-bit float samples.
+   */
+  public decode(audio: AudioPayload): AudioSignal {
+    if (audio.format.encoding !== 'wav') {
+      throw new SpeechAnalysisError({
+        code: SpeechAnalysisErrorCode.INVALID_AUDIO_FORMAT,
+        message: `Signal analysis does not support ${audio.format.encoding} audio`
+      });
+    }
+
+    return this.decodeWav(audio.buffer);
+  }
+
+  /**
+   * Measure energy, voice activity, pauses and pitch from decoded samples.
+   * With `speechRanges`, only speech inside those ranges counts, and pauses
+   * are only measured within a range, e.g. to score one speaker of several.
+   */
+  public extract(signal: AudioSignal, speechRanges?: Array<{ start: number; end: number }>): AudioFeatures {
+    const { samples, sampleRate } = signal;
+    const frameSize = Math.max(1, Math.round(this.options.frameLength * sampleRate));
+    const hopSize = Math.max(1, Math.round(this.options.hopLength * sampleRate));
+    const hopLength = hopSize / sampleRate;
+    const frameCount = samples.length >= frameSize ? Math.floor((samples.length - frameSize) / hopSize) + 1 : 0;
+
+    const frameDb: number[] = [];
+    for (let frame = 0; frame < frameCount; frame++) {
+      let sum = 0;
+      const offset = frame * hopSize;
+      for (let i = offset; i < offset + frameSize; i++) {
+        sum += samples[i] * samples[i];
+      }
+      frameDb.push(this.toDb(Math.sqrt(sum / frameSize)));
+    }
+
+    const energyEnvelope = frameDb.map(db => this.dbToLevel(db));
+    const noiseDb = this.percentile(frameDb, 10);
+    const loudDb = this.percentile(frameDb, 90);
+
+    // Voiced frames sit clearly above the noise floor; halfway to the loud
+    // frames caps the margin when the speaker barely pauses
+    const thresholdDb = Math.max(
+      this.options.silenceFloorDb,
+      Math.min(noiseDb + this.options.vadMarginDb, (noiseDb + loudDb) / 2)
+    );
+
+    const allSpeech = this.segmentSpeech(frameDb.map(db => db > thresholdDb), energyEnvelope, hopLength);
+    const speechSegments = speechRanges ? this.clipSegments(allSpeech, speechRanges) : allSpeech;
+    const voicedFrames = frameDb.map((_, frame) => {
+      const time = frame * hopLength;
+      return speechSegments.some(segment => time >= segment.start && time < segment.end);
+    });
+
+    const pauses: AudioSegment[] = [];
+    for (let i = 1; i < speechSegments.length; i++) {
+      const start = speechSegments[i - 1].end;
+      const end = speechSegments[i].start;
+      if (speechRanges && !speechRanges.some(range => start >= range.start && end <= range.end)) continue;
+      pauses.push({ start, end, duration: end - start, level: this.meanLevel(energyEnvelope, start, end, hopLength) });
+    }
+
+    const pitchContour = this.trackPitch(samples, sampleRate, voicedFrames, hopSize, frameSize);
+    const speechDb = this.mean(frameDb.filter((_, frame) => voicedFrames[frame]));
+
+    const features: AudioFeatures = {
+      sampleRate,
+      duration: signal.duration,
+      hopLength,
+      energyEnvelope,
+      voicedFrames,
+      speechSegments,
+      pauses,
+      pitchContour,
+      noiseFloor: this.dbToLevel(noiseDb),
+      speechLevel: speechSegments.length > 0 ? this.dbToLevel(speechDb) : 0,
+      signalToNoiseRatio: speechSegments.length > 0 ? Math.max(0, Math.min(MAX_SNR_DB, speechDb - noiseDb)) : 0,
+      pitch: this.summarizePitch(pitchContour, energyEnvelope, voicedFrames)
+    };
+
+    logger.debug('Extracted audio features', {
+      duration: features.duration,
+      speechSegments: speechSegments.length,
+      pauses: pauses.length,
+      meanF0: features.pitch.mean
+    });
+
+    return features;
+  }
+
+  private clipSegments(segments: AudioSegment[], ranges: Array<{ start: number; end: number }>): AudioSegment[] {
+    return segments.flatMap(segment => ranges
+      .map(range => ({ start: Math.max(segment.start, range.start), end: Math.min(segment.end, range.end) }))
+      .filter(clipped => clipped.end - clipped.start >= this.options.minSpeechLength)
+      .map(clipped => ({ ...clipped, duration: clipped.end - clipped.start, level: segment.level })));
+  }
+
+  private decodeWav(buffer: Buffer): AudioSignal {
+    if (buffer.length < 12 || buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+      throw new SpeechAnalysisError({
+        code: SpeechAnalysisErrorCode.INVALID_AUDIO_FORMAT,
+        message: 'Audio payload is not a RIFF/WAVE file'
+      });
+    }
+
+    let format: { code: number; channels: number; sampleRate: number; bitsPerSample: number } | null = null;
+    let dataOffset = -1;
+    let dataLength = 0;
+
+    for (let offset = 12; offset + 8 <= buffer.length;) {
+      const chunkId = buffer.toString('ascii', offset, offset + 4);
+      const chunkSize = buffer.readUInt32LE(offset + 4);
+      const body = offset + 8;
+
+      if (chunkId === 'fmt ' && body + 16 <= buffer.length) {
+        let code = buffer.readUInt16LE(body);
+        if (code === WAVE_FORMAT_EXTENSIBLE && chunkSize >= 26) {
+          code = buffer.readUInt16LE(body + 24); // First two bytes of the sub-format GUID
+        }
+        format = {
+          code,
+          channels: buffer.readUInt16LE(body + 2),
+          sampleRate: buffer.readUInt32LE(body + 4),
+          bitsPerSample: buffer.readUInt16LE(body + 14)
+        };
+      } else if (chunkId === 'data') {
+        dataOffset = body;
+        dataLength = Math.min(chunkSize, buffer.length - body); // Streamed files may over-report the size
+        break;
+      }
+
+      offset = body + chunkSize + (chunkSize % 2); // Chunks are padded to an even size
+    }
+
+    if (!format || dataOffset < 0 || format.channels === 0 || format.sampleRate === 0) {
+      throw new SpeechAnalysisError({
+        code: SpeechAnalysisErrorCode.INVALID_AUDIO_FORMAT,
+        message: 'WAV file is missing its format or data chunk'
+      });
+    }
+
+    const readSample = this.sampleReader(buffer, format.code, format.bitsPerSample);
+    const bytesPerSample = format.bitsPerSample / 8;
+    const frameBytes = bytesPerSample * format.channels;
+    const frameCount = Math.floor(dataLength / frameBytes);
+    const samples = new Float32Array(frameCount);
+    const channels = format.channels > 1
+      ? Array.from({ length: format.channels }, () => new Float32Array(frameCount))
+      : undefined;
+
+    // Downmix to mono, keeping each channel for speaker separation
+    for (let frame = 0; frame < frameCount; frame++) {
+      let sum = 0;
+      for (let channel = 0; channel < format.channels; channel++) {
+        const sample = readSample(dataOffset + frame * frameBytes + channel * bytesPerSample);
+        if (channels) channels[channel][frame] = sample;
+        sum += sample;
+      }
+      samples[frame] = sum / format.channels;
+    }
+
+    return { samples, sampleRate: format.sampleRate, duration: frameCount / format.sampleRate, channels };
+  }
+
+  private sampleReader(buffer: Buffer, code: number, bits: number): (offset: number) => number {
+    if (code === WAVE_FORMAT_PCM) {
+      switch (bits) {
+        case 8: return offset => (buffer.readUInt8(offset) - 128) / 128;
+        case 16: return offset => buffer.readInt16LE(offset) / 32768;
+        case 24: return offset => buffer.readIntLE(offset, 3) / 8388608;
+        case 32: return offset => buffer.readInt32LE(offset) / 2147483648;
+      }
+    }
+
+    if (code === WAVE_FORMAT_IEEE_FLOAT) {
+      switch (bits) {
+        case 32: return offset => buffer.readFloatLE(offset);
+        case 64: return offset => buffer.readDoubleLE(offset);
+      }
+    }
+
+    throw new SpeechAnalysisError({
+      code: SpeechAnalysisErrorCode.INVALID_AUDIO_FORMAT,
+      message: `Unsupported WAV sample format ${code} with ${bits} bits per sample`
+    });
+  }
+
+  /**
+   * Merge voiced runs separated by less than a pause, then drop bursts too
+   * short to be speech (clicks, breaths)
+   */
+  private segmentSpeech(active: boolean[], levels: number[], hopLength: number): AudioSegment[] {
+    const runs: Array<{ start: number; end: number }> = [];
+    let runStart = -1;
+
+    active.forEach((isActive, frame) => {
+      if (isActive && runStart < 0) {
+        runStart = frame;
+      }
+      if ((!isActive || frame === active.length - 1) && runStart >= 0) {
+        const last = isActive ? frame : frame - 1;
+        runs.push({ start: runStart * hopLength, end: last * hopLength + this.options.frameLength });
+        runStart = -1;
+      }
+    });
+
+    const merged: Array<{ start: number; end: number }> = [];
+    for (const run of runs) {
+      const previous = merged[merged.length - 1];
+      if (previous && run.start - previous.end < this.options.minPauseLength) {
+        previous.end = run.end;
+      } else {
+        merged.push({ ...run });
+      }
+    }
+
+    return merged
+      .filter(run => run.end - run.start >= this.options.minSpeechLength)
+      .map(run => ({
+        start: run.start,
+        end: run.end,
+        duration: run.end - run.start,
+        level: this.meanLevel(levels, run.start, run.end, hopLength)
+      }));
+  }
+
+  /**
+   * YIN pitch estimate per speech frame on a decimated copy of the signal
+   */
+  private trackPitch(
+    samples: Float32Array,
+    sampleRate: number,
+    voicedFrames: boolean[],
+    hopSize: number,
+    frameSize: number
+  ): Array<number | null> {
+    const factor = Math.max(1, Math.floor(sampleRate / PITCH_SAMPLE_RATE));
+    const rate = sampleRate / factor;
+    const decimated = new Float32Array(Math.floor(samples.length / factor));
+    for (let i = 0; i < decimated.length; i++) {
+      let sum = 0;
+      for (let j = 0; j < factor; j++) {
+        sum += samples[i * factor + j];
+      }
+      decimated[i] = sum / factor; // Box filter doubles as a crude anti-alias
+    }
+
+    const window = Math.round(PITCH_WINDOW * rate);
+    const minLag = Math.max(2, Math.floor(rate / this.options.maxPitch));
+    const maxLag = Math.ceil(rate / this.options.minPitch);
+    const difference = new Float64Array(maxLag + 1);
+
+    return voicedFrames.map((voiced, frame) => {
+      if (!voiced) {
+        return null;
+      }
+
+      const center = Math.floor((frame * hopSize + frameSize / 2) / factor);
+      const start = center - Math.floor(window / 2);
+      if (start < 0 || start + window + maxLag >= decimated.length) {
+        return null;
+      }
+
+      for (let lag = 1; lag <= maxLag; lag++) {
+        let sum = 0;
+        for (let i = start; i < start + window; i++) {
+          const delta = decimated[i] - decimated[i + lag];
+          sum += delta * delta;
+        }
+        difference[lag] = sum;
+      }
+
+      // Cumulative mean normalized difference; the first dip below the
+      // threshold is the fundamental period
+      let runningSum = 0;
+      const normalized = new Float64Array(maxLag + 1);
+      normalized[0] = 1;
+      for (let lag = 1; lag <= maxLag; lag++) {
+        runningSum += difference[lag];
+        normalized[lag] = runningSum > 0 ? difference[lag] * lag / runningSum : 1;
+      }
+
+      for (let lag = minLag; lag < maxLag; lag++) {
+        if (normalized[lag] < YIN_THRESHOLD) {
+          while (lag + 1 < maxLag && normalized[lag + 1] < normalized[lag]) {
+            lag++;
+          }
+          const previous = normalized[lag - 1];
+          const next = normalized[lag + 1];
+          const curvature = previous + next - 2 * normalized[lag];
+          const offset = curvature > 0 ? (previous - next) / (2 * curvature) : 0;
+          return rate / (lag + offset);
+        }
+      }
+
+      return null;
+    });
+  }
+
+  private summarizePitch(contour: Array<number | null>, levels: number[], voicedFrames: boolean[]): PitchStatistics {
+    const pitched = contour.filter((f0): f0 is number => f0 !== null);
+    const speechFrames = voicedFrames.filter(Boolean).length;
+
+    if (pitched.length === 0) {
+      return { mean: 0, min: 0, max: 0, range: 0, variance: 0, jitter: 0, shimmer: 0, voicedRatio: 0 };
+    }
+
+    const periodChanges: number[] = [];
+    const levelChanges: number[] = [];
+    const pitchedLevels: number[] = [];
+    for (let frame = 0; frame < contour.length; frame++) {
+      const f0 = contour[frame];
+      if (f0 === null) {
+        continue;
+      }
+      pitchedLevels.push(levels[frame]);
+      const previous = contour[frame - 1];
+      if (frame > 0 && previous !== null && previous !== undefined) {
+        periodChanges.push(Math.abs(1 / f0 - 1 / previous));
+        levelChanges.push(Math.abs(levels[frame] - levels[frame - 1]));
+      }
+    }
+
+    const mean = this.mean(pitched);
+    const min = Math.min(...pitched);
+    const max = Math.max(...pitched);
+    const meanPeriod = this.mean(pitched.map(f0 => 1 / f0));
+    const meanLevel = this.mean(pitchedLevels);
+
+    return {
+      mean,
+      min,
+      max,
+      range: max - min,
+      variance: this.mean(pitched.map(f0 => (f0 - mean) ** 2)),
+      jitter: periodChanges.length > 0 && meanPeriod > 0 ? this.mean(periodChanges) / meanPeriod : 0,
+      shimmer: levelChanges.length > 0 && meanLevel > 0 ? this.mean(levelChanges) / meanLevel : 0,
+      voicedRatio: speechFrames > 0 ? pitched.length / speechFrames : 0
+    };
+  }
+
+  private meanLevel(levels: number[], start: number, end: number, hopLength: number): number {
+    return this.mean(levels.slice(Math.floor(start / hopLength), Math.max(Math.floor(start / hopLength) + 1, Math.floor(end / hopLength))));
+  }
+
+  private toDb(rms: number): number {
+    return 20 * Math.log10(rms + 1e-10);
+  }
+
+  private dbToLevel(db: number): number {
+    return Math.max(0, Math.min(1, (db + LEVEL_RANGE_DB) / LEVEL_RANGE_DB));
+  }
+
+  private percentile(values: number[], p: number): number {
+    if (values.length === 0) {
+      return -Infinity;
+    }
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))];
+  }
+
+  private mean(values: number[]): number {
+    return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+  }
+}
@@ -0,0 +1,225 @@
+/**
+ * Audio Feature Extraction Tests
+ * Signal-level measurements on synthetic WAV recordings
+ */
+
+import { AudioFeatureExtractor } from '../services/audio-feature-extractor';
+import { SpeechAnalysisEngine } from '../services/speech-analysis-engine';
+import { FixtureTranscriptionProvider } from '../services/transcription-providers';
+import { EmotionFacialAnalysisEngine } from '../services/emotion-facial-analysis-engine';
+import {
+  SpeechAnalysisConfig,
+  AudioEncoding,
+  WhisperModel,
+  SpeechAnalysisErrorCode
+} from '../types/speech-analysis';
+import {
+  EmotionFacialConfig,
+  AudioEncoding as EmotionAudioEncoding,
+  InterviewStage,
+  FaceApiModel,
+  EmotionSensitivity
+} from '../types/emotion-facial-analysis';
+
+const SAMPLE_RATE = 16000;
+
+interface ToneSpec {
+  duration: number; // seconds
+  frequency?: number; // Hz; silence when omitted
+  amplitude?: number;
+}
+
+// A voiced tone: fundamental plus two harmonics, like a sustained vowel
+const synthesize = (parts: ToneSpec[]): Float32Array => {
+  const total = parts.reduce((sum, part) => sum + Math.round(part.duration * SAMPLE_RATE), 0);
+  const samples = new Float32Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    const length = Math.round(part.duration * SAMPLE_RATE);
+    for (let i = 0; i < length; i++) {
+      const t = i / SAMPLE_RATE;
+      const f = part.frequency;
+      samples[offset + i] = f
+        ? (part.amplitude ?? 0.3) * (0.6 * Math.sin(2 * Math.PI * f * t) + 0.3 * Math.sin(4 * Math.PI * f * t) + 0.1 * Math.sin(6 * Math.PI * f * t))
+        : 0.0005 * Math.sin(2 * Math.PI * 50 * t); // Faint mains hum as the noise floor
+    }
+    offset += length;
+  }
+  return samples;
+};
+
+const encodeWav = (samples: Float32Array, channels: number = 1): Buffer => {
+  const data = Buffer.alloc(samples.length * 2 * channels);
+  samples.forEach((sample, i) => {
+    for (let channel = 0; channel < channels; channel++) {
+      data.writeInt16LE(Math.round(Math.max(-1, Math.min(1, sample)) * 32767), (i * channels + channel) * 2);
+    }
+  });
+
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + data.length, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(channels, 22);
+  header.writeUInt32LE(SAMPLE_RATE, 24);
+  header.writeUInt32LE(SAMPLE_RATE * 2 * channels, 28);
+  header.writeUInt16LE(2 * channels, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(data.length, 40);
+
+  return Buffer.concat([header, data]);
+};
+
+// Speech, a one second pause, speech, then trailing silence
+const RECORDING = synthesize([
+  { duration: 0.5 },
+  { duration: 2, frequency: 150 },
+  { duration: 1 },
+  { duration: 2, frequency: 200 },
+  { duration: 0.5 }
+]);
+
+const wavAudio = (buffer: Buffer) => ({
+  buffer,
+  format: { encoding: AudioEncoding.WAV, mimeType: 'audio/wav', extension: 'wav' },
+  duration: 6,
+  sampleRate: SAMPLE_RATE,
+  channels: 1,
+  bitDepth: 16
+});
+
+describe('AudioFeatureExtractor', () => {
+  const extractor = new AudioFeatureExtractor();
+
+  it('should decode 16-bit PCM WAV and downmix stereo', () => {
+    const mono = extractor.decode(wavAudio(encodeWav(RECORDING)));
+    const stereo = extractor.decode(wavAudio(encodeWav(RECORDING, 2)));
+
+    expect(mono.sampleRate).toBe(SAMPLE_RATE);
+    expect(mono.duration).toBeCloseTo(6, 2);
+    expect(stereo.samples.length).toBe(mono.samples.length);
+    expect(stereo.samples[12000]).toBeCloseTo(mono.samples[12000], 4);
+  });
+
+  it('should reject payloads it cannot decode', () => {
+    expect(() => extractor.decode(wavAudio(Buffer.from('mock-audio-data'))))
+      .toThrow(expect.objectContaining({ code: SpeechAnalysisErrorCode.INVALID_AUDIO_FORMAT }));
+    expect(() => extractor.decode({ ...wavAudio(Buffer.alloc(0)), format: { encoding: AudioEncoding.MP3 } }))
+      .toThrow('does not support mp3');
+  });
+
+  it('should segment speech and measure the pause between utterances', () => {
+    const features = extractor.extractFromAudio(wavAudio(encodeWav(RECORDING)));
+
+    expect(features.speechSegments).toHaveLength(2);
+    expect(features.speechSegments[0].start).toBeCloseTo(0.5, 1);
+    expect(features.pauses).toHaveLength(1);
+    expect(features.pauses[0].duration).toBeCloseTo(1, 1);
+    expect(features.signalToNoiseRatio).toBeGreaterThan(30);
+  });
+
+  it('should track the fundamental frequency of each utterance', () => {
+    const features = extractor.extractFromAudio(wavAudio(encodeWav(RECORDING)));
+    const firstHalf = features.pitchContour.slice(100, 200).filter((f0): f0 is number => f0 !== null);
+    const secondHalf = features.pitchContour.slice(400, 500).filter((f0): f0 is number => f0 !== null);
+
+    expect(firstHalf.length).toBeGreaterThan(80);
+    expect(firstHalf[40]).toBeCloseTo(150, -1);
+    expect(secondHalf[40]).toBeCloseTo(200, -1);
+    expect(features.pitch.range).toBeGreaterThan(40);
+    expect(features.pitch.voicedRatio).toBeGreaterThan(0.9);
+  });
+});
+
+describe('Signal-level speech analysis', () => {
+  const config: SpeechAnalysisConfig = {
+    whisperApiKey: 'test-api-key',
+    whisperBaseUrl: 'https://api.openai.com/v1',
+    enableAdvancedAnalysis: true,
+    fillerWords: { verbal: ['um', 'uh'], lexical: ['like'], customFillers: [], detectionSensitivity: 0.8 },
+    paceThresholds: { optimalWPM: { min: 150, max: 190, optimal: 170 }, slowThreshold: 120, fastThreshold: 220, variabilityThreshold: 0.3 },
+    pauseThresholds: { minPauseLength: 0.3, maxOptimalPause: 2.0, hesitationThreshold: 1.5, strategicPauseRange: { min: 0.5, max: 1.5, optimal: 1.0 } },
+    clarityThresholds: { minClarityScore: 0.7, noiseThreshold: 0.3, articulationThreshold: 0.75, volumeConsistencyThreshold: 0.8 },
+    confidenceThresholds: { minConfidenceScore: 0.6, hesitationRatioThreshold: 0.15, fillerFrequencyThreshold: 8.0, assertivenessThreshold: 0.5 },
+    volumeThresholds: { optimalRange: { min: 0.4, max: 0.9 }, variabilityThreshold: 0.25, minAudibleLevel: 0.2, maxComfortableLevel: 0.95 }
+  };
+
+  it('should take pauses and volume from the samples rather than the transcript', async () => {
+    const engine = new SpeechAnalysisEngine(config, new FixtureTranscriptionProvider([{
+      text: 'I rebuilt the deploy pipeline and cut release time in half'
+    }]));
+
+    const result = await engine.analyzeSpeech({
+      audioData: wavAudio(encodeWav(RECORDING)),
+      context: { questionType: 'behavioral', language: 'en' },
+      options: {
+        enableTranscription: true,
+        enablePaceAnalysis: true,
+        enablePauseAnalysis: true,
+        enableFillerDetection: true,
+        enableClarityAnalysis: true,
+        enableConfidenceAnalysis: true,
+        enableEmotionDetection: true,
+        enableVolumeAnalysis: true,
+        confidenceThreshold: 0.7,
+        whisperModel: WhisperModel.BASE
+      }
+    });
+
+    expect(result.pauseAnalysis.metrics.unfilledPauses).toBe(1);
+    expect(result.pauseAnalysis.metrics.longestPause).toBeCloseTo(1, 1);
+    // A 0.3 amplitude voiced tone sits around -14 dBFS
+    expect(result.volumeAnalysis.metrics.averageVolume).toBeGreaterThan(0.7);
+    expect(result.volumeAnalysis.metrics.averageVolume).toBeLessThan(0.85);
+    expect(result.volumeAnalysis.metrics.optimalVolumePercentage).toBeGreaterThan(90);
+    expect(result.clarityAnalysis.metrics.signalToNoiseRatio).toBeGreaterThan(30);
+  });
+});
+
+describe('Voice characteristics from audio', () => {
+  const config: EmotionFacialConfig = {
+    enableAdvancedAnalysis: true,
+    faceApiSettings: { modelPath: '/models/face-api', detectionThreshold: 0.5, landmarkThreshold: 0.5, expressionThreshold: 0.3, maxFaces: 1 },
+    emotionThresholds: { minIntensity: 0.1, maxIntensity: 1.0, stabilityThreshold: 0.7, changeThreshold: 0.2 },
+    confidenceThresholds: { minConfidence: 0.6, highConfidence: 0.8, stabilityThreshold: 0.7 },
+    correlationThresholds: { minCorrelation: 0.5, highCorrelation: 0.8, discrepancyThreshold: 0.3 }
+  };
+
+  it('should fill the pitch and prosody fields from the samples', async () => {
+    const engine = new EmotionFacialAnalysisEngine(config);
+
+    const result = await engine.analyzeEmotionFacial({
+      audioData: {
+        buffer: encodeWav(RECORDING),
+        format: { encoding: EmotionAudioEncoding.WAV, mimeType: 'audio/wav', extension: 'wav' },
+        duration: 6,
+        sampleRate: SAMPLE_RATE,
+        channels: 1
+      },
+      context: { questionType: 'behavioral', interviewStage: InterviewStage.BEHAVIORAL },
+      options: {
+        enableVoiceEmotionDetection: true,
+        enableFacialExpressionAnalysis: false,
+        enableMicroExpressionDetection: false,
+        enableGazeTracking: false,
+        enablePostureAnalysis: false,
+        enableConfidenceAssessment: false,
+        enableEmotionCorrelation: false,
+        confidenceThreshold: 0.7,
+        faceApiModel: FaceApiModel.MEDIUM,
+        emotionSensitivity: EmotionSensitivity.HIGH
+      }
+    });
+
+    const { fundamentalFrequency, prosodyFeatures } = result.voiceEmotionAnalysis.voiceCharacteristics;
+    expect(fundamentalFrequency.meanF0).toBeGreaterThan(150);
+    expect(fundamentalFrequency.meanF0).toBeLessThan(200);
+    expect(prosodyFeatures.stressPatterns).toHaveLength(2);
+    expect(prosodyFeatures.intonationContour.length).toBeGreaterThan(10);
+    expect(prosodyFeatures.intonationContour[0]).toBeLessThan(prosodyFeatures.intonationContour[prosodyFeatures.intonationContour.length - 1]);
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Audio Feature Types
+ * Defines signal-level measurements extracted from decoded audio samples
+ */
+
+export interface AudioPayload {
+  buffer: Buffer;
+  format: { encoding: string };
+  sampleRate?: number;
+  channels?: number;
+}
+
+export interface AudioSignal {
+  samples: Float32Array; // Mono, normalized to [-1, 1]
+  sampleRate: number;
+  duration: number; // seconds
+  channels?: Float32Array[]; // Per-channel samples, kept for multi-channel sources
+}
+
+export interface AudioFeatureOptions {
+  frameLength: number; // seconds, analysis window for energy
+  hopLength: number; // seconds between frames
+  minPauseLength: number; // seconds of silence between speech counted as a pause
+  minSpeechLength: number; // shorter voiced bursts are treated as noise
+  minPitch: number; // Hz
+  maxPitch: number; // Hz
+  vadMarginDb: number; // Minimum level above the noise floor for a voiced frame
+  silenceFloorDb: number; // Frames below this level (dBFS) are never voiced
+}
+
+export interface AudioFeatures {
+  sampleRate: number;
+  duration: number;
+  hopLength: number;
+  energyEnvelope: number[]; // RMS level per frame on a 0-1 scale (-60 dBFS .. 0 dBFS)
+  voicedFrames: boolean[];
+  speechSegments: AudioSegment[];
+  pauses: AudioSegment[]; // Silences between speech, excluding leading and trailing silence
+  pitchContour: Array<number | null>; // F0 in Hz per frame, null when unvoiced
+  noiseFloor: number; // 0-1 level
+  speechLevel: number; // 0-1 level
+  signalToNoiseRatio: number; // dB
+  pitch: PitchStatistics;
+}
+
+export interface AudioSegment {
+  start: number;
+  end: number;
+  duration: number;
+  level: number; // Mean 0-1 level over the segment
+}
+
+export interface PitchStatistics {
+  mean: number;
+  min: number;
+  max: number;
+  range: number;
+  variance: number;
+  jitter: number; // Mean period-to-period variation, relative to the mean period
+  shimmer: number; // Mean frame-to-frame level variation in voiced speech, relative to the mean level
+  voicedRatio: number; // Share of speech frames with a detectable pitch
+}
@@ -0,0 +1,391 @@
+/**
+ * Code Collaboration Tests
+ * Document convergence, editor sync over data channels, screen sharing and
+ * scoring code answers
+ */
+
+import { EventEmitter } from 'events';
+import { CodeDocument } from '../services/code-document';
+import { CodeEditorChannel } from '../services/code-editor-channel';
+import { PeerConnectionManager } from '../services/peer-connection-manager';
+import { DefaultAIInterviewerService } from '../services/ai-interviewer-service';
+import { TechnicalEvaluationService } from '../services/technical-evaluation-service';
+import { PersonalityManager } from '../services/personality-manager';
+import { ScriptedLLMProvider } from '../services/llm-providers';
+import { ConfigValidator } from '../validation/config-validator';
+import { CODE_EDITOR_CHANNEL_LABEL, CodeLanguage } from '../types/code-collaboration';
+import {
+  DifficultyLevel,
+  FormalityLevel,
+  InterviewStyle,
+  InterviewTone,
+  QuestionType
+} from '../types/ai-interviewer';
+import { LLMTask } from '../types/llm-provider';
+
+describe('CodeDocument', () => {
+  it('should converge when replicas type at the same place concurrently', () => {
+    const alice = new CodeDocument('alice');
+    const bob = new CodeDocument('bob');
+    bob.apply(alice.insert(0, 'fn()'));
+
+    const fromAlice = alice.insert(3, 'a');
+    const fromBob = bob.insert(3, 'b');
+    alice.apply(fromBob);
+    bob.apply(fromAlice);
+
+    expect(alice.getText()).toBe(bob.getText());
+    expect(alice.getText()).toMatch(/^fn\((ab|ba)\)$/);
+  });
+
+  it('should keep each replica\'s run of characters together', () => {
+    const alice = new CodeDocument('alice');
+    const bob = new CodeDocument('bob');
+    const fromAlice = alice.insert(0, 'return a;');
+    const fromBob = bob.insert(0, 'return b;');
+
+    alice.apply(fromBob);
+    bob.apply(fromAlice);
+
+    expect(alice.getText()).toBe(bob.getText());
+    expect(['return a;return b;', 'return b;return a;']).toContain(alice.getText());
+  });
+
+  it('should apply deletes and operations that arrive out of order', () => {
+    const alice = new CodeDocument('alice');
+    const bob = new CodeDocument('bob');
+    const typed = alice.insert(0, 'let x = 1;');
+    const removed = alice.delete(4, 1);
+    const retyped = alice.insert(4, 'y');
+
+    bob.apply([...retyped, ...removed].reverse());
+    expect(bob.getText()).toBe('');
+
+    bob.apply([...typed].reverse());
+    bob.apply(typed);
+    expect(bob.getText()).toBe('let y = 1;');
+  });
+
+  it('should keep the latest language choice on every replica', () => {
+    const alice = new CodeDocument('alice');
+    const bob = new CodeDocument('bob', CodeLanguage.JAVASCRIPT);
+    const fromAlice = alice.setLanguage(CodeLanguage.PYTHON);
+    bob.apply(fromAlice);
+    const fromBob = bob.setLanguage(CodeLanguage.GO);
+
+    alice.apply(fromBob);
+    bob.apply(fromAlice);
+
+    expect(alice.getLanguage()).toBe(CodeLanguage.GO);
+    expect(bob.getLanguage()).toBe(CodeLanguage.GO);
+  });
+
+  it('should rebuild a replica from its operations', () => {
+    const alice = new CodeDocument('alice');
+    const bob = new CodeDocument('bob');
+    bob.apply(alice.insert(0, 'print(1)'));
+    alice.apply(bob.insert(8, '\nprint(2)'));
+    alice.delete(0, 9);
+    alice.setLanguage(CodeLanguage.PYTHON);
+
+    const carol = new CodeDocument('carol');
+    carol.apply(alice.getOperations());
+    bob.apply(alice.getOperations());
+
+    expect(carol.getText()).toBe('print(2)');
+    expect(bob.getText()).toBe('print(2)');
+    expect(carol.snapshot()).toMatchObject({ language: CodeLanguage.PYTHON, code: 'print(2)' });
+  });
+
+  it('should refuse positions outside the document', () => {
+    const document = new CodeDocument('alice');
+    document.insert(0, 'abc');
+
+    expect(() => document.insert(5, 'x')).toThrow(RangeError);
+    expect(() => document.delete(2, 2)).toThrow(RangeError);
+  });
+});
+
+describe('CodeEditorChannel', () => {
+  // Data channels pair up when the remote description is set
+  class FakeDataChannel {
+    readyState = 'connecting';
+    remote?: FakeDataChannel;
+    onopen?: () => void;
+    onclose?: () => void;
+    onmessage?: (event: { data: string }) => void;
+    onerror?: (error: any) => void;
+
+    constructor(readonly label: string) {}
+
+    send(data: string): void {
+      this.remote?.onmessage?.({ data });
+    }
+
+    open(): void {
+      this.readyState = 'open';
+      this.onopen?.();
+    }
+  }
+
+  class FakeTrack extends EventEmitter {
+    kind = 'video';
+    stop = jest.fn();
+
+    addEventListener(event: string, listener: () => void): void {
+      this.on(event, listener);
+    }
+  }
+
+  class FakeRTCPeerConnection {
+    static instances: FakeRTCPeerConnection[] = [];
+    ondatachannel?: (event: { channel: FakeDataChannel }) => void;
+    channels: FakeDataChannel[] = [];
+    senders: any[] = [];
+    close = jest.fn();
+    removeTrack = jest.fn((sender: any) => {
+      this.senders = this.senders.filter(existing => existing !== sender);
+    });
+
+    constructor() {
+      FakeRTCPeerConnection.instances.push(this);
+    }
+
+    createDataChannel(label: string): FakeDataChannel {
+      const channel = new FakeDataChannel(label);
+      this.channels.push(channel);
+      return channel;
+    }
+
+    addTrack(track: FakeTrack): any {
+      const sender = { track };
+      this.senders.push(sender);
+      return sender;
+    }
+
+    connectTo(remote: FakeRTCPeerConnection): void {
+      this.channels.forEach(channel => {
+        const accepted = new FakeDataChannel(channel.label);
+        channel.remote = accepted;
+        accepted.remote = channel;
+        remote.ondatachannel?.({ channel: accepted });
+        channel.open();
+        accepted.open();
+      });
+    }
+  }
+
+  const createManager = () => new PeerConnectionManager({
+    stunTurnConfig: { iceServers: [] },
+    connectionTimeout: 30000,
+    reconnectAttempts: 2,
+    reconnectDelay: 1000
+  });
+
+  beforeEach(() => {
+    FakeRTCPeerConnection.instances = [];
+    (global as any).RTCPeerConnection = FakeRTCPeerConnection;
+  });
+
+  afterEach(() => {
+    delete (global as any).RTCPeerConnection;
+    delete (global as any).navigator;
+  });
+
+  const pair = async () => {
+    const interviewerPeers = createManager();
+    const candidatePeers = createManager();
+    await interviewerPeers.createPeerConnection('candidate', true);
+    await candidatePeers.createPeerConnection('interviewer');
+    const [interviewerConnection, candidateConnection] = FakeRTCPeerConnection.instances;
+
+    const interviewer = new CodeEditorChannel(interviewerPeers, new CodeDocument('interviewer'));
+    const candidate = new CodeEditorChannel(candidatePeers, new CodeDocument('candidate'));
+    interviewer.attach('candidate', true);
+
+    return { interviewer, candidate, interviewerPeers, candidatePeers, connect: () => interviewerConnection.connectTo(candidateConnection) };
+  };
+
+  it('should open the editor channel from the initiating side only', async () => {
+    const { connect } = await pair();
+    connect();
+
+    const [interviewerConnection, candidateConnection] = FakeRTCPeerConnection.instances;
+    expect(interviewerConnection.channels.map(channel => channel.label)).toEqual([CODE_EDITOR_CHANNEL_LABEL]);
+    expect(candidateConnection.channels).toEqual([]);
+  });
+
+  it('should exchange edits typed before the channel opened', async () => {
+    const { interviewer, candidate, connect } = await pair();
+    interviewer.insert(0, '// Reverse a list\n');
+    candidate.setLanguage(CodeLanguage.TYPESCRIPT);
+
+    connect();
+
+    expect(candidate.getText()).toBe('// Reverse a list\n');
+    expect(interviewer.getLanguage()).toBe(CodeLanguage.TYPESCRIPT);
+  });
+
+  it('should sync live edits in both directions and report changes', async () => {
+    const { interviewer, candidate, connect } = await pair();
+    connect();
+    const changes: any[] = [];
+    interviewer.on('change', change => changes.push(change));
+
+    candidate.insert(0, 'const reverse = (xs) => xs.reverse();');
+    interviewer.delete(17, 2);
+    interviewer.insert(17, 'list');
+
+    expect(interviewer.getText()).toBe('const reverse = (list) => xs.reverse();');
+    expect(candidate.getText()).toBe(interviewer.getText());
+    expect(changes[changes.length - 1]).toMatchObject({ connectionId: 'candidate', text: expect.stringContaining('reverse') });
+  });
+
+  it('should ignore malformed messages', async () => {
+    const { interviewer, candidate, connect } = await pair();
+    connect();
+    const [interviewerConnection] = FakeRTCPeerConnection.instances;
+
+    interviewerConnection.channels[0].send('not json');
+    interviewerConnection.channels[0].send(JSON.stringify({ type: 'cursor' }));
+    interviewer.insert(0, 'ok');
+
+    expect(candidate.getText()).toBe('ok');
+  });
+
+  it('should drop invalid operations and apply the rest', async () => {
+    const { candidate, connect } = await pair();
+    connect();
+    const [interviewerConnection] = FakeRTCPeerConnection.instances;
+    const id = (clock: number) => ({ site: 'interviewer', clock });
+
+    expect(() => interviewerConnection.channels[0].send(JSON.stringify({
+      type: 'operations',
+      operations: [
+        { type: 'delete', id: null },
+        { type: 'insert', id: { site: 'interviewer' }, after: null, value: 'x' },
+        { type: 'insert', id: id(1), after: 'start', value: 'x' },
+        { type: 'insert', id: id(2), after: null, value: 'too long' },
+        { type: 'language', id: id(3), language: 'cobol' },
+        null,
+        { type: 'insert', id: id(4), after: null, value: 'a' },
+        { type: 'insert', id: id(5), after: id(4), value: 'b' },
+        { type: 'language', id: id(6), language: CodeLanguage.PYTHON }
+      ]
+    }))).not.toThrow();
+
+    expect(candidate.getText()).toBe('ab');
+    expect(candidate.getLanguage()).toBe(CodeLanguage.PYTHON);
+  });
+
+  it('should stop syncing once closed', async () => {
+    const { interviewer, candidate, connect } = await pair();
+    connect();
+    candidate.close();
+
+    interviewer.insert(0, 'late');
+
+    expect(candidate.getText()).toBe('');
+  });
+
+  it('should collect the snapshots for a response, ending with the current code', async () => {
+    const { candidate, connect } = await pair();
+    connect();
+    candidate.setLanguage(CodeLanguage.PYTHON);
+    candidate.insert(0, 'def f():');
+    candidate.takeSnapshot();
+    candidate.insert(8, ' return 1');
+
+    const snapshots = candidate.collectSnapshots();
+
+    expect(snapshots.map(snapshot => snapshot.code)).toEqual(['def f():', 'def f(): return 1']);
+    expect(snapshots[1].language).toBe(CodeLanguage.PYTHON);
+    expect(snapshots[1].version).toBeGreaterThan(snapshots[0].version);
+    expect(candidate.collectSnapshots()).toHaveLength(1);
+  });
+
+  it('should share the screen alongside the editor and stop when the capture ends', async () => {
+    const track = new FakeTrack();
+    const screen = { getTracks: () => [track], getVideoTracks: () => [track] };
+    (global as any).navigator = { mediaDevices: { getDisplayMedia: jest.fn(async () => screen) } };
+
+    const { candidatePeers } = await pair();
+    const [, candidateConnection] = FakeRTCPeerConnection.instances;
+    const stopped = jest.fn();
+    candidatePeers.on('screenShareStopped', stopped);
+
+    await candidatePeers.startScreenShare('interviewer');
+    await candidatePeers.startScreenShare('interviewer');
+    expect(candidateConnection.senders).toHaveLength(1);
+
+    track.emit('ended');
+
+    expect(candidateConnection.removeTrack).toHaveBeenCalledTimes(1);
+    expect(candidateConnection.senders).toEqual([]);
+    expect(track.stop).toHaveBeenCalled();
+    expect(stopped).toHaveBeenCalledWith({ connectionId: 'interviewer' });
+  });
+});
+
+describe('Code responses', () => {
+  it('should accept responses answered only with code', () => {
+    const snapshot = { language: CodeLanguage.PYTHON, code: 'print(1)', version: 3, capturedAt: new Date() };
+
+    expect(ConfigValidator.validateSubmitResponse({
+      questionId: '123e4567-e89b-12d3-a456-426614174000',
+      codeSnapshots: [snapshot]
+    }).isValid).toBe(true);
+
+    expect(ConfigValidator.validateSubmitResponse({
+      questionId: '123e4567-e89b-12d3-a456-426614174000',
+      codeSnapshots: [{ ...snapshot, language: 'brainfuck' as CodeLanguage }]
+    }).isValid).toBe(false);
+  });
+
+  it('should score the submitted code in technical evaluations', async () => {
+    const provider = new ScriptedLLMProvider();
+    const service = new DefaultAIInterviewerService(provider);
+    const technical = new TechnicalEvaluationService();
+    const personalityState = PersonalityManager.initializePersonality({
+      name: 'Test Interviewer',
+      style: InterviewStyle.STRUCTURED,
+      tone: InterviewTone.PROFESSIONAL,
+      formality: FormalityLevel.SEMI_FORMAL,
+      adaptiveness: 0.7,
+      followUpIntensity: 0.6,
+      encouragementLevel: 0.8
+    });
+
+    await service.evaluateTechnicalResponse({
+      sessionId: 'session-1',
+      question: {
+        id: 'question-1',
+        text: 'Reverse a linked list',
+        type: QuestionType.TECHNICAL,
+        category: 'algorithms',
+        difficulty: DifficultyLevel.MID,
+        expectedDuration: 10,
+        followUpQuestions: [],
+        evaluationCriteria: [],
+        metadata: { source: 'ai', version: 1, usageCount: 0, generatedAt: new Date(), modelVersion: 'scripted' }
+      } as any,
+      userResponse: {
+        questionId: 'question-1',
+        questionText: 'Reverse a linked list',
+        code: { language: CodeLanguage.PYTHON, code: 'def reverse(head):\n    prev = None', version: 7, capturedAt: new Date() },
+        duration: 300,
+        isSkipped: false,
+        timestamp: new Date()
+      },
+      roleSpecificCriteria: technical.getRoleSpecificCriteria('Software Engineer', 'Technology'),
+      technicalDomain: technical.getTechnicalDomainForRole('Software Engineer'),
+      personalityState
+    });
+
+    const [request] = provider.getHistory().filter(request => request.task === LLMTask.TECHNICAL_EVALUATION);
+    const prompt = request.messages[request.messages.length - 1].content;
+    expect(prompt).toContain('Candidate Code (python):');
+    expect(prompt).toContain('def reverse(head):\n    prev = None');
+    expect(prompt).not.toContain('No response provided');
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Code Collaboration Types
+ * Defines the shared code document edited by interview participants over a
+ * WebRTC data channel, and the snapshots kept with each response
+ */
+
+export const CODE_EDITOR_CHANNEL_LABEL = 'code-editor';
+
+export enum CodeLanguage {
+  JAVASCRIPT = 'javascript',
+  TYPESCRIPT = 'typescript',
+  PYTHON = 'python',
+  JAVA = 'java',
+  CSHARP = 'csharp',
+  CPP = 'cpp',
+  GO = 'go',
+  RUBY = 'ruby',
+  SQL = 'sql',
+  PLAINTEXT = 'plaintext'
+}
+
+// Identifies one character for its whole life, across every replica
+export interface CodeCharId {
+  site: string; // Replica that inserted the character
+  clock: number; // Lamport clock of that replica when it did
+}
+
+export type CodeOperation =
+  | { type: 'insert'; id: CodeCharId; after: CodeCharId | null; value: string }
+  | { type: 'delete'; id: CodeCharId }
+  | { type: 'language'; id: CodeCharId; language: CodeLanguage };
+
+export interface CodeChannelMessage {
+  type: 'operations';
+  operations: CodeOperation[];
+}
+
+// The code as it stood at one moment, stored with the response it answers
+export interface CodeSnapshot {
+  language: CodeLanguage;
+  code: string;
+  version: number; // Lamport clock of the replica that took it
+  capturedAt: Date;
+}
@@ -0,0 +1,192 @@
+/**
+ * Code Document
+ * Replicated text for the live coding editor. Characters form a sequence
+ * CRDT (RGA) and the language is a last-writer-wins register, so replicas
+ * that have applied the same operations hold the same code in any order
+ */
+
+import { CodeCharId, CodeLanguage, CodeOperation, CodeSnapshot } from '../types/code-collaboration';
+
+interface CodeChar {
+  id: CodeCharId;
+  after: CodeCharId | null; // Character it was typed after, kept so replays place it the same way
+  value: string;
+  deleted: boolean;
+}
+
+const keyOf = (id: CodeCharId): string => `${id.clock}@${id.site}`;
+
+// Later clocks win, and the site breaks ties so every replica agrees
+const compareIds = (a: CodeCharId, b: CodeCharId): number =>
+  a.clock !== b.clock ? a.clock - b.clock : a.site < b.site ? -1 : a.site > b.site ? 1 : 0;
+
+export class CodeDocument {
+  private chars: CodeChar[] = [];
+  private index: Map<string, CodeChar> = new Map();
+  private pending: CodeOperation[] = [];
+  private clock = 0;
+  private language: CodeLanguage;
+  private languageId: CodeCharId | null = null;
+
+  constructor(
+    private readonly site: string,
+    initialLanguage: CodeLanguage = CodeLanguage.PLAINTEXT
+  ) {
+    this.language = initialLanguage;
+  }
+
+  getText(): string {
+    return this.chars.filter(char => !char.deleted).map(char => char.value).join('');
+  }
+
+  getLanguage(): CodeLanguage {
+    return this.language;
+  }
+
+  /**
+   * Insert text before the visible character at the given position and
+   * return the operations to send to the other replicas
+   */
+  insert(position: number, text: string): CodeOperation[] {
+    let after = position > 0 ? this.visibleAt(position - 1).id : null;
+    const operations: CodeOperation[] = [];
+
+    for (const value of text) {
+      const operation: CodeOperation = { type: 'insert', id: this.nextId(), after, value };
+      this.integrate(operation);
+      operations.push(operation);
+      after = operation.id;
+    }
+    return operations;
+  }
+
+  delete(position: number, length: number): CodeOperation[] {
+    const targets: CodeChar[] = [];
+    for (let offset = 0; offset < length; offset++) {
+      targets.push(this.visibleAt(position + offset));
+    }
+
+    return targets.map(char => {
+      const operation: CodeOperation = { type: 'delete', id: char.id };
+      this.integrate(operation);
+      return operation;
+    });
+  }
+
+  setLanguage(language: CodeLanguage): CodeOperation[] {
+    const operation: CodeOperation = { type: 'language', id: this.nextId(), language };
+    this.integrate(operation);
+    return [operation];
+  }
+
+  /**
+   * Apply operations from another replica. Operations may arrive repeated or
+   * ahead of what they depend on; those wait until they can be applied
+   */
+  apply(operations: CodeOperation[]): void {
+    this.pending.push(...operations);
+
+    let progressed = true;
+    while (progressed) {
+      progressed = false;
+      this.pending = this.pending.filter(operation => {
+        if (!this.isReady(operation)) {
+          return true;
+        }
+        this.clock = Math.max(this.clock, operation.id.clock);
+        this.integrate(operation);
+        progressed = true;
+        return false;
+      });
+    }
+  }
+
+  /**
+   * Every operation needed to rebuild this document, for a replica that
+   * joins late or missed messages while disconnected
+   */
+  getOperations(): CodeOperation[] {
+    // Document order puts every character after the one it was typed after
+    const operations: CodeOperation[] = this.chars.map(char => ({
+      type: 'insert' as const,
+      id: char.id,
+      after: char.after,
+      value: char.value
+    }));
+
+    for (const char of this.chars) {
+      if (char.deleted) {
+        operations.push({ type: 'delete', id: char.id });
+      }
+    }
+    if (this.languageId) {
+      operations.push({ type: 'language', id: this.languageId, language: this.language });
+    }
+    return operations;
+  }
+
+  snapshot(): CodeSnapshot {
+    return {
+      language: this.language,
+      code: this.getText(),
+      version: this.clock,
+      capturedAt: new Date()
+    };
+  }
+
+  private nextId(): CodeCharId {
+    return { site: this.site, clock: ++this.clock };
+  }
+
+  private isReady(operation: CodeOperation): boolean {
+    switch (operation.type) {
+      case 'insert':
+        return !operation.after || this.index.has(keyOf(operation.after));
+      case 'delete':
+        return this.index.has(keyOf(operation.id));
+      default:
+        return true;
+    }
+  }
+
+  private integrate(operation: CodeOperation): void {
+    switch (operation.type) {
+      case 'insert': {
+        if (this.index.has(keyOf(operation.id))) {
+          return;
+        }
+
+        // Skip past characters inserted concurrently at the same place with
+        // later ids, along with everything typed after them
+        let position = operation.after ? this.chars.indexOf(this.index.get(keyOf(operation.after))!) + 1 : 0;
+        while (position < this.chars.length && compareIds(this.chars[position].id, operation.id) > 0) {
+          position++;
+        }
+
+        const char: CodeChar = { id: operation.id, after: operation.after, value: operation.value, deleted: false };
+        this.chars.splice(position, 0, char);
+        this.index.set(keyOf(operation.id), char);
+        return;
+      }
+      case 'delete':
+        this.index.get(keyOf(operation.id))!.deleted = true;
+        return;
+      case 'language':
+        if (!this.languageId || compareIds(operation.id, this.languageId) > 0) {
+          this.language = operation.language;
+          this.languageId = operation.id;
+        }
+        return;
+    }
+  }
+
+  private visibleAt(position: number): CodeChar {
+    let seen = 0;
+    for (const char of this.chars) {
+      if (!char.deleted && seen++ === position) {
+        return char;
+      }
+    }
+    throw new RangeError(`Position ${position} is outside the document`);
+  }
+}
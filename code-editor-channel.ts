@@ -0,0 +1,169 @@
+/**
+ * Code Editor Channel
+ * Keeps a shared code document in sync between interview participants over
+ * a WebRTC data channel, and records the snapshots submitted with responses
+ */
+
+import { EventEmitter } from 'events';
+import { logger } from '../utils/logger';
+import { PeerConnectionManager } from './peer-connection-manager';
+import { CodeDocument } from './code-document';
+import {
+  CODE_EDITOR_CHANNEL_LABEL,
+  CodeChannelMessage,
+  CodeCharId,
+  CodeLanguage,
+  CodeOperation,
+  CodeSnapshot
+} from '../types/code-collaboration';
+
+const LANGUAGES: string[] = Object.values(CodeLanguage);
+
+const isCharId = (id: any): id is CodeCharId =>
+  typeof id === 'object' && id !== null &&
+  typeof id.site === 'string' && id.site.length > 0 &&
+  Number.isSafeInteger(id.clock) && id.clock > 0;
+
+// Operations come from another participant, so their shape is checked before the document sees them
+const isValidOperation = (operation: any): operation is CodeOperation => {
+  if (typeof operation !== 'object' || operation === null || !isCharId(operation.id)) {
+    return false;
+  }
+  switch (operation.type) {
+    case 'insert':
+      return (operation.after === null || isCharId(operation.after)) &&
+        typeof operation.value === 'string' && Array.from(operation.value).length === 1;
+    case 'delete':
+      return true;
+    case 'language':
+      return LANGUAGES.includes(operation.language);
+    default:
+      return false;
+  }
+};
+
+export class CodeEditorChannel extends EventEmitter {
+  private connections: Set<string> = new Set();
+  private snapshots: CodeSnapshot[] = [];
+
+  constructor(
+    private peers: PeerConnectionManager,
+    readonly document: CodeDocument
+  ) {
+    super();
+    this.peers.on('dataChannelOpen', this.handleOpen);
+    this.peers.on('dataChannelMessage', this.handleMessage);
+  }
+
+  /**
+   * Share the editor with a peer. The side that initiated the peer
+   * connection opens the channel and the other side accepts it
+   */
+  attach(connectionId: string, isInitiator: boolean): void {
+    this.connections.add(connectionId);
+    if (isInitiator) {
+      this.peers.createDataChannel(connectionId, CODE_EDITOR_CHANNEL_LABEL);
+    }
+  }
+
+  // Stop sending edits to a peer, for example once it has left the session
+  detach(connectionId: string): void {
+    this.connections.delete(connectionId);
+  }
+
+  insert(position: number, text: string): void {
+    this.broadcast(this.document.insert(position, text));
+  }
+
+  delete(position: number, length: number): void {
+    this.broadcast(this.document.delete(position, length));
+  }
+
+  setLanguage(language: CodeLanguage): void {
+    this.broadcast(this.document.setLanguage(language));
+  }
+
+  getText(): string {
+    return this.document.getText();
+  }
+
+  getLanguage(): CodeLanguage {
+    return this.document.getLanguage();
+  }
+
+  takeSnapshot(): CodeSnapshot {
+    const snapshot = this.document.snapshot();
+    this.snapshots.push(snapshot);
+    return snapshot;
+  }
+
+  /**
+   * Snapshots taken since the last collection, for the response being
+   * submitted. The current code is always included as the last snapshot
+   */
+  collectSnapshots(): CodeSnapshot[] {
+    const last = this.snapshots[this.snapshots.length - 1];
+    if (!last || last.code !== this.document.getText() || last.language !== this.document.getLanguage()) {
+      this.takeSnapshot();
+    }
+    return this.snapshots.splice(0);
+  }
+
+  close(): void {
+    this.peers.off('dataChannelOpen', this.handleOpen);
+    this.peers.off('dataChannelMessage', this.handleMessage);
+    this.connections.clear();
+  }
+
+  // Both sides send everything they hold when the channel opens, which also
+  // catches up a peer that edited while disconnected
+  private handleOpen = ({ connectionId, label }: { connectionId: string; label: string }): void => {
+    if (label !== CODE_EDITOR_CHANNEL_LABEL) {
+      return;
+    }
+    this.connections.add(connectionId);
+    this.send(connectionId, this.document.getOperations());
+  };
+
+  private handleMessage = ({ connectionId, label, data }: { connectionId: string; label: string; data: any }): void => {
+    if (label !== CODE_EDITOR_CHANNEL_LABEL) {
+      return;
+    }
+
+    let message: CodeChannelMessage;
+    try {
+      message = JSON.parse(data);
+    } catch (error) {
+      logger.warn('Ignoring malformed code editor message', { connectionId, error });
+      return;
+    }
+
+    if (message?.type !== 'operations' || !Array.isArray(message.operations)) {
+      logger.warn('Ignoring unknown code editor message', { connectionId, type: message?.type });
+      return;
+    }
+
+    const operations = message.operations.filter(isValidOperation);
+    if (operations.length < message.operations.length) {
+      logger.warn('Ignoring invalid code editor operations', {
+        connectionId,
+        invalid: message.operations.length - operations.length
+      });
+    }
+
+    this.document.apply(operations);
+    this.emit('change', { connectionId, text: this.document.getText(), language: this.document.getLanguage() });
+  };
+
+  private broadcast(operations: CodeOperation[]): void {
+    this.connections.forEach(connectionId => this.send(connectionId, operations));
+  }
+
+  private send(connectionId: string, operations: CodeOperation[]): void {
+    const message: CodeChannelMessage = { type: 'operations', operations };
+    if (!this.peers.sendDataChannelMessage(connectionId, CODE_EDITOR_CHANNEL_LABEL, JSON.stringify(message))) {
+      // The full state goes out again when the channel (re)opens
+      logger.debug('Code editor channel not open, operations deferred', { connectionId });
+    }
+  }
+}
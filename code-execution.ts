@@ -0,0 +1,99 @@
+/**
+ * Code Execution Types
+ * Defines the sandboxed runner that checks candidate code against hidden
+ * test cases and measures how its runtime grows with the input size
+ */
+
+import { CodeLanguage } from './code-collaboration';
+import { AIInterviewerError } from './ai-interviewer';
+
+export interface CodeRunner {
+  supports(language: CodeLanguage): boolean;
+  run(request: CodeExecutionRequest): Promise<CodeExecutionReport>;
+}
+
+export interface CodeExecutionRequest {
+  language: CodeLanguage;
+  code: string;
+  functionName: string; // Function the candidate was asked to write
+  testCases: CodeTestCase[];
+  complexityProbe?: ComplexityProbe;
+}
+
+export interface CodeTestCase {
+  id: string;
+  arguments: unknown[]; // JSON values passed to the function in order
+  expectedOutput: unknown;
+  hidden?: boolean; // Hidden cases never reveal their inputs or outputs in feedback
+}
+
+// Inputs generated at growing sizes to time the solution
+export interface ComplexityProbe {
+  argumentKind: ScalingArgumentKind;
+  sizes: number[]; // Large enough that runtimes are well above timer resolution
+  argumentIndex?: number; // Position of the generated argument (default 0)
+  arguments?: unknown[]; // The other arguments, held fixed
+}
+
+export enum ScalingArgumentKind {
+  INTEGER = 'integer', // n itself
+  INTEGER_ARRAY = 'integer_array',
+  SORTED_INTEGER_ARRAY = 'sorted_integer_array',
+  STRING = 'string' // n lowercase letters
+}
+
+// Wraps the runtime command in an isolation layer, such as bubblewrap or a
+// container, that gives it no network, no writable or host filesystem and
+// an unprivileged user
+export interface SandboxIsolation {
+  wrap(command: string, args: string[]): SandboxCommand;
+}
+
+export interface SandboxCommand {
+  command: string;
+  args: string[];
+}
+
+export interface SandboxLimits {
+  timeoutMs: number; // Wall clock for the whole run
+  callTimeoutMs: number; // For a single call of the candidate function
+  memoryMb: number;
+  maxOutputBytes: number;
+}
+
+export interface TestCaseResult {
+  testCaseId: string;
+  passed: boolean;
+  hidden: boolean;
+  durationMs: number;
+  actualOutput?: unknown; // Omitted for hidden cases
+  error?: string; // Error name only; messages written by the candidate's code are dropped
+}
+
+export interface ComplexitySample {
+  size: number;
+  durationMs: number;
+}
+
+export interface EmpiricalComplexity {
+  timeComplexity: string; // Best fitting growth class, e.g. 'O(n log n)'
+  exponent: number; // Slope of log(runtime) against log(size)
+  samples: ComplexitySample[];
+}
+
+export interface CodeExecutionReport {
+  language: CodeLanguage;
+  passed: number;
+  total: number;
+  passRate: number; // 0-1
+  results: TestCaseResult[];
+  complexity?: EmpiricalComplexity;
+  error?: string; // The code did not load, or the sandbox stopped it
+}
+
+export class CodeExecutionError extends AIInterviewerError {
+  constructor(message: string, public language?: CodeLanguage) {
+    super(message, 'CODE_EXECUTION_ERROR', 500);
+    this.name = 'CodeExecutionError';
+  }
+}
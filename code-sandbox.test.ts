@@ -0,0 +1,447 @@
+/**
+ * Code Sandbox Tests
+ * Running answers against hidden test cases, sandbox limits, complexity
+ * estimates and how test results shape the technical score
+ */
+
+import {
+  BubblewrapIsolation,
+  SandboxedCodeRunner,
+  estimateComplexity,
+  compareComplexity,
+  generateScalingArgument
+} from '../services/code-sandbox';
+import { DefaultAIInterviewerService } from '../services/ai-interviewer-service';
+import { AIInterviewerController } from '../controllers/ai-interviewer-controller';
+import { TechnicalEvaluationService } from '../services/technical-evaluation-service';
+import { PersonalityManager } from '../services/personality-manager';
+import { ScriptedLLMProvider } from '../services/llm-providers';
+import { CodeLanguage } from '../types/code-collaboration';
+import {
+  CodeExecutionError,
+  CodeExecutionReport,
+  CodeRunner,
+  CodeTestCase,
+  ScalingArgumentKind
+} from '../types/code-execution';
+import {
+  DifficultyLevel,
+  ExpectedSolution,
+  FormalityLevel,
+  InterviewStyle,
+  InterviewTone,
+  QuestionType,
+  TechnicalEvaluationContext
+} from '../types/ai-interviewer';
+import { LLMTask } from '../types/llm-provider';
+
+jest.setTimeout(30000);
+
+const twoSumCases: CodeTestCase[] = [
+  { id: 'visible', arguments: [[2, 7, 11, 15], 9], expectedOutput: [0, 1], hidden: false },
+  { id: 'negatives', arguments: [[-3, 4, 3, 90], 0], expectedOutput: [0, 2] },
+  { id: 'duplicates', arguments: [[3, 3], 6], expectedOutput: [0, 1] }
+];
+
+describe('SandboxedCodeRunner', () => {
+  const runner = new SandboxedCodeRunner({ limits: { timeoutMs: 8000, callTimeoutMs: 500, memoryMb: 128 } });
+
+  it('should run JavaScript answers against the test cases', async () => {
+    const report = await runner.run({
+      language: CodeLanguage.JAVASCRIPT,
+      functionName: 'twoSum',
+      testCases: twoSumCases,
+      code: `
+        function twoSum(nums, target) {
+          const seen = new Map();
+          for (let i = 0; i < nums.length; i++) {
+            if (seen.has(target - nums[i])) return [seen.get(target - nums[i]), i];
+            seen.set(nums[i], i);
+          }
+          return [];
+        }`
+    });
+
+    expect(report).toMatchObject({ passed: 3, total: 3, passRate: 1 });
+    expect(report.error).toBeUndefined();
+  });
+
+  it('should transpile TypeScript and only reveal outputs of visible cases', async () => {
+    const report = await runner.run({
+      language: CodeLanguage.TYPESCRIPT,
+      functionName: 'twoSum',
+      testCases: twoSumCases,
+      code: `
+        export const twoSum = (nums: number[], target: number): number[] => {
+          for (let i = 0; i < nums.length; i++) {
+            for (let j = i + 1; j < nums.length; j++) {
+              if (nums[i] + nums[j] === target && i > 0) return [i, j];
+            }
+          }
+          return [0, 1];
+        };`
+    });
+
+    expect(report.passed).toBe(2);
+    expect(report.results[0]).toMatchObject({ testCaseId: 'visible', passed: true, hidden: false, actualOutput: [0, 1] });
+    expect(report.results[1]).toMatchObject({ testCaseId: 'negatives', passed: false, hidden: true });
+    expect(report.results[1].actualOutput).toBeUndefined();
+  });
+
+  it('should run Python answers, including LeetCode style classes', async () => {
+    const report = await runner.run({
+      language: CodeLanguage.PYTHON,
+      functionName: 'twoSum',
+      testCases: twoSumCases,
+      code: [
+        'class Solution:',
+        '    def twoSum(self, nums, target):',
+        '        seen = {}',
+        '        for i, n in enumerate(nums):',
+        '            if target - n in seen:',
+        '                return (seen[target - n], i)',
+        '            seen[n] = i'
+      ].join('\n')
+    });
+
+    expect(report).toMatchObject({ passed: 3, total: 3 });
+  });
+
+  it('should report code that does not load or lacks the function', async () => {
+    const syntax = await runner.run({ language: CodeLanguage.JAVASCRIPT, functionName: 'twoSum', testCases: twoSumCases, code: 'function twoSum( {' });
+    expect(syntax.error).toMatch(/^SyntaxError/);
+    expect(syntax.passed).toBe(0);
+    expect(syntax.results.every(result => !result.passed)).toBe(true);
+
+    const missing = await runner.run({ language: CodeLanguage.PYTHON, functionName: 'twoSum', testCases: twoSumCases, code: 'def other(): pass' });
+    expect(missing.error).toBe('NameError: Function twoSum is not defined');
+  });
+
+  it('should keep the host out of reach of JavaScript answers', async () => {
+    const report = await runner.run({
+      language: CodeLanguage.JAVASCRIPT,
+      functionName: 'probe',
+      testCases: [
+        { id: 'require', arguments: ['typeof require'], expectedOutput: 'undefined', hidden: false },
+        { id: 'process', arguments: ['typeof process'], expectedOutput: 'undefined', hidden: false },
+        { id: 'fetch', arguments: ['typeof fetch'], expectedOutput: 'undefined', hidden: false },
+        { id: 'escape', arguments: ['this.constructor.constructor("return process")()'], expectedOutput: null, hidden: false }
+      ],
+      code: `
+        const checks = {
+          'typeof require': () => typeof require,
+          'typeof process': () => typeof process,
+          'typeof fetch': () => typeof fetch,
+          'this.constructor.constructor("return process")()': () => (function () { return this; })().constructor.constructor('return process')()
+        };
+        function probe(check) { return checks[check](); }`
+    });
+
+    expect(report.results.slice(0, 3).every(result => result.passed)).toBe(true);
+    expect(report.results[3]).toMatchObject({ passed: false, error: expect.any(String) });
+  });
+
+  it('should refuse network access and file writes from Python answers', async () => {
+    const report = await runner.run({
+      language: CodeLanguage.PYTHON,
+      functionName: 'attempt',
+      testCases: [
+        { id: 'socket', arguments: ['socket'], expectedOutput: 'ok', hidden: false },
+        { id: 'write', arguments: ['write'], expectedOutput: 'ok', hidden: false },
+        { id: 'subprocess', arguments: ['subprocess'], expectedOutput: 'ok', hidden: false }
+      ],
+      code: [
+        'def attempt(kind):',
+        '    if kind == "socket":',
+        '        import socket',
+        '        socket.create_connection(("example.com", 80), timeout=1)',
+        '    elif kind == "write":',
+        '        open("escaped.txt", "w").write("x")',
+        '    else:',
+        '        import subprocess',
+        '        subprocess.run(["true"])',
+        '    return "ok"'
+      ].join('\n')
+    });
+
+    expect(report.passed).toBe(0);
+    report.results.forEach(result => expect(result.error).toMatch(/PermissionError/));
+  });
+
+  it('should stop calls that run too long or use too much memory', async () => {
+    const report = await runner.run({
+      language: CodeLanguage.JAVASCRIPT,
+      functionName: 'work',
+      testCases: [
+        { id: 'loop', arguments: ['loop'], expectedOutput: 1 },
+        { id: 'quick', arguments: ['quick'], expectedOutput: 1 }
+      ],
+      code: `function work(kind) { if (kind === 'loop') { for (;;) {} } return 1; }`
+    });
+    expect(report.results[0]).toMatchObject({ passed: false, error: expect.stringContaining('timed out') });
+    expect(report.results[1].passed).toBe(true);
+
+    const python = await runner.run({
+      language: CodeLanguage.PYTHON,
+      functionName: 'grow',
+      testCases: [{ id: 'memory', arguments: [], expectedOutput: 0 }],
+      code: 'def grow():\n    return len(bytearray(512 * 1024 * 1024))'
+    });
+    expect(python.results[0]).toMatchObject({ passed: false, error: expect.stringContaining('MemoryError') });
+  });
+
+  it('should time the answer on probe inputs of growing size', async () => {
+    const report = await runner.run({
+      language: CodeLanguage.JAVASCRIPT,
+      functionName: 'total',
+      testCases: [{ id: 'sum', arguments: [[1, 2, 3]], expectedOutput: 6 }],
+      complexityProbe: { argumentKind: ScalingArgumentKind.INTEGER_ARRAY, sizes: [1000, 10000, 100000] },
+      code: 'function total(xs) { return xs.reduce((a, b) => a + b, 0); }'
+    });
+
+    expect(report.complexity?.samples.map(sample => sample.size)).toEqual([1000, 10000, 100000]);
+    expect(report.complexity?.samples.every(sample => sample.durationMs >= 0)).toBe(true);
+  });
+
+  it('should report only the names of errors raised by the code', async () => {
+    const report = await runner.run({
+      language: CodeLanguage.PYTHON,
+      functionName: 'leak',
+      testCases: [
+        { id: 'builtin', arguments: ['builtin'], expectedOutput: 'ok', hidden: false },
+        { id: 'custom', arguments: ['custom'], expectedOutput: 'ok', hidden: false }
+      ],
+      code: [
+        'def leak(kind):',
+        '    if kind == "builtin":',
+        '        raise ValueError("secret from the host")',
+        '    raise type("secret from the host", (Exception,), {})()'
+      ].join('\n')
+    });
+    expect(report.results.map(result => result.error)).toEqual(['ValueError', 'Error']);
+
+    const forged = await runner.run({
+      language: CodeLanguage.PYTHON,
+      functionName: 'f',
+      testCases: [{ id: 'only', arguments: [], expectedOutput: 1 }],
+      code: 'import sys\nsys.__stdout__.write("secret from the host")\nsys.__stdout__.flush()\nraise SystemExit(0)'
+    });
+    expect(forged.error).toBe('The code wrote unreadable output');
+  });
+
+  it('should start the runtime through the isolation layer', async () => {
+    const isolation = { wrap: jest.fn((command: string, args: string[]) => ({ command, args })) };
+    const isolated = new SandboxedCodeRunner({ isolation, limits: { timeoutMs: 8000, callTimeoutMs: 500 } });
+
+    const report = await isolated.run({
+      language: CodeLanguage.JAVASCRIPT,
+      functionName: 'one',
+      testCases: [{ id: 'one', arguments: [], expectedOutput: 1 }],
+      code: 'function one() { return 1; }'
+    });
+
+    expect(report.passed).toBe(1);
+    expect(isolation.wrap).toHaveBeenCalledWith(process.execPath, expect.arrayContaining(['-e']));
+  });
+
+  it('should refuse unsupported languages and invalid function names', async () => {
+    await expect(runner.run({ language: CodeLanguage.GO, functionName: 'f', testCases: [], code: '' }))
+      .rejects.toThrow(CodeExecutionError);
+    await expect(runner.run({ language: CodeLanguage.JAVASCRIPT, functionName: 'f; process.exit()', testCases: [], code: '' }))
+      .rejects.toThrow('Invalid function name');
+  });
+});
+
+describe('BubblewrapIsolation', () => {
+  it('should run the command without network, host files or privileges', () => {
+    const { command, args } = new BubblewrapIsolation({ bwrapPath: '/usr/bin/bwrap' }).wrap('python3', ['-I', '-c', 'pass']);
+
+    expect(command).toBe('/usr/bin/bwrap');
+    expect(args).toEqual(expect.arrayContaining(['--unshare-all', '--unshare-user', '--cap-drop', '--clearenv']));
+    expect(args.slice(args.indexOf('--uid'), args.indexOf('--uid') + 4)).toEqual(['--uid', '65534', '--gid', '65534']);
+    expect(args.slice(args.indexOf('--remount-ro'), args.indexOf('--remount-ro') + 2)).toEqual(['--remount-ro', '/']);
+    expect(args).not.toContain('--bind');
+    expect(args).not.toContain('--share-net');
+    expect(args.slice(args.indexOf('--'))).toEqual(['--', 'python3', '-I', '-c', 'pass']);
+  });
+});
+
+describe('Complexity estimation', () => {
+  const sizes = [1000, 2000, 4000, 8000, 16000];
+
+  it('should pick the growth class that fits the runtimes', () => {
+    const measure = (growth: (n: number) => number) => sizes.map(size => ({ size, durationMs: growth(size) * 1e-4 }));
+
+    expect(estimateComplexity(measure(() => 5)).timeComplexity).toBe('O(1)');
+    expect(estimateComplexity(measure(n => n)).timeComplexity).toBe('O(n)');
+    expect(estimateComplexity(measure(n => n * Math.log2(n))).timeComplexity).toBe('O(n log n)');
+    expect(estimateComplexity(measure(n => n * n))).toMatchObject({ timeComplexity: 'O(n^2)', exponent: 2 });
+  });
+
+  it('should compare complexity notations', () => {
+    expect(compareComplexity('O(n)', 'O(n log n)')).toBeLessThan(0);
+    expect(compareComplexity('O(n²)', 'O(n^2)')).toBe(0);
+    expect(compareComplexity('O(n^2)', 'O(N)')).toBeGreaterThan(0);
+    expect(compareComplexity('O(n + m)', 'O(n)')).toBeNull();
+  });
+
+  it('should generate the same probe input every time', () => {
+    const input = generateScalingArgument(ScalingArgumentKind.SORTED_INTEGER_ARRAY, 50) as number[];
+
+    expect(input).toHaveLength(50);
+    expect(input).toEqual([...input].sort((a, b) => a - b));
+    expect(generateScalingArgument(ScalingArgumentKind.SORTED_INTEGER_ARRAY, 50)).toEqual(input);
+    expect(generateScalingArgument(ScalingArgumentKind.STRING, 12)).toMatch(/^[a-z]{12}$/);
+  });
+});
+
+describe('Technical evaluation with code execution', () => {
+  const solution: ExpectedSolution = {
+    description: 'Hash map lookup of complements',
+    keyComponents: ['hash map'],
+    alternativeApproaches: ['sorting with two pointers'],
+    commonMistakes: ['using the same element twice'],
+    timeComplexity: 'O(n)',
+    functionName: 'twoSum',
+    testCases: twoSumCases
+  };
+
+  const report = (overrides: Partial<CodeExecutionReport> = {}): CodeExecutionReport => ({
+    language: CodeLanguage.PYTHON,
+    passed: 1,
+    total: 2,
+    passRate: 0.5,
+    results: [],
+    complexity: { timeComplexity: 'O(n^2)', exponent: 2, samples: [] },
+    ...overrides
+  });
+
+  const createContext = (overrides: Partial<TechnicalEvaluationContext> = {}): TechnicalEvaluationContext => {
+    const technical = new TechnicalEvaluationService();
+    return {
+      sessionId: 'session-1',
+      question: {
+        id: 'question-1',
+        text: 'Find two numbers that add up to a target',
+        type: QuestionType.TECHNICAL,
+        category: 'algorithms',
+        difficulty: DifficultyLevel.MID,
+        expectedDuration: 10,
+        followUpQuestions: [],
+        evaluationCriteria: []
+      } as any,
+      userResponse: {
+        questionId: 'question-1',
+        questionText: 'Find two numbers that add up to a target',
+        code: { language: CodeLanguage.PYTHON, code: 'def twoSum(nums, target): ...', version: 4, capturedAt: new Date() },
+        duration: 600,
+        isSkipped: false,
+        timestamp: new Date()
+      },
+      roleSpecificCriteria: technical.getRoleSpecificCriteria('Software Engineer', 'Technology'),
+      technicalDomain: technical.getTechnicalDomainForRole('Software Engineer'),
+      expectedSolution: solution,
+      personalityState: PersonalityManager.initializePersonality({
+        name: 'Test Interviewer',
+        style: InterviewStyle.STRUCTURED,
+        tone: InterviewTone.PROFESSIONAL,
+        formality: FormalityLevel.SEMI_FORMAL,
+        adaptiveness: 0.7,
+        followUpIntensity: 0.6,
+        encouragementLevel: 0.8
+      }),
+      ...overrides
+    };
+  };
+
+  const modelScores = JSON.stringify({
+    overallScore: 80,
+    technicalAccuracy: 90,
+    completeness: 70,
+    criteriaScores: [],
+    roleSpecificScores: [],
+    algorithmicComplexity: { timeComplexity: 'O(n)', spaceComplexity: 'O(n)', isOptimal: true, improvementSuggestions: [] },
+    difficultyAssessment: { perceivedDifficulty: 'mid', actualPerformance: 80, isAppropriate: true, reasoning: 'Fits' },
+    adaptationRecommendation: { recommendedLevel: 'mid', confidence: 0.7, reasoning: 'Steady', adaptationStrategy: 'maintain_level' },
+    strengths: ['Clear naming'],
+    improvements: [],
+    followUpSuggestions: [],
+    confidence: 0.8
+  });
+
+  const createService = (codeRunner: CodeRunner) => new DefaultAIInterviewerService(
+    new ScriptedLLMProvider([{ task: LLMTask.TECHNICAL_EVALUATION, response: modelScores }]),
+    { codeRunner }
+  );
+
+  const stubRunner = (result: CodeExecutionReport | Error): CodeRunner & { run: jest.Mock } => ({
+    supports: language => language === CodeLanguage.PYTHON,
+    run: jest.fn(async () => {
+      if (result instanceof Error) {
+        throw result;
+      }
+      return result;
+    })
+  });
+
+  it('should blend test results and measured complexity into the scores', async () => {
+    const runner = stubRunner(report());
+    const evaluation = await createService(runner).evaluateTechnicalResponse(createContext());
+
+    expect(runner.run).toHaveBeenCalledWith(expect.objectContaining({ functionName: 'twoSum', testCases: twoSumCases }));
+    expect(evaluation.overallScore).toBe(65);
+    expect(evaluation.technicalAccuracy).toBe(70);
+    expect(evaluation.algorithmicComplexity).toMatchObject({ timeComplexity: 'O(n^2)', spaceComplexity: 'O(n)', isOptimal: false });
+    expect(evaluation.improvements).toContain('Passed 1 of 2 test cases');
+    expect(evaluation.codeExecution?.passRate).toBe(0.5);
+  });
+
+  it('should keep the model evaluation when there is nothing to run', async () => {
+    const runner = stubRunner(report());
+    const service = createService(runner);
+
+    const withoutTests = await service.evaluateTechnicalResponse(createContext({ expectedSolution: { ...solution, testCases: [] } }));
+    const unsupported = await service.evaluateTechnicalResponse(createContext({
+      userResponse: { ...createContext().userResponse, code: { language: CodeLanguage.GO, code: 'func twoSum() {}', version: 1, capturedAt: new Date() } }
+    }));
+
+    expect(runner.run).not.toHaveBeenCalled();
+    expect(withoutTests.overallScore).toBe(80);
+    expect(unsupported.codeExecution).toBeUndefined();
+  });
+
+  it('should keep the model evaluation when the sandbox fails', async () => {
+    const evaluation = await createService(stubRunner(new CodeExecutionError('python3 is not installed or not on PATH')))
+      .evaluateTechnicalResponse(createContext());
+
+    expect(evaluation.overallScore).toBe(80);
+    expect(evaluation.algorithmicComplexity?.isOptimal).toBe(true);
+  });
+
+  it('should run the stored test cases and ignore any sent with the request', async () => {
+    const runner = stubRunner(report());
+    const sessions = { getSession: jest.fn(), getExpectedSolution: jest.fn().mockResolvedValue(solution) };
+    const controller = new AIInterviewerController(createService(runner), sessions, {} as any);
+    const { question, userResponse, personalityState } = createContext();
+    const res: any = {};
+    res.status = jest.fn(() => res);
+    res.json = jest.fn(() => res);
+
+    await controller.evaluateTechnicalResponse({
+      userId: 'user-1',
+      body: {
+        sessionId: 'session-1',
+        question,
+        userResponse,
+        personalityState,
+        role: 'Software Engineer',
+        industry: 'Technology',
+        expectedSolution: { ...solution, testCases: [{ id: 'forged', arguments: [], expectedOutput: null }] }
+      }
+    } as any, res);
+
+    expect(sessions.getExpectedSolution).toHaveBeenCalledWith('session-1', 'user-1', 'question-1');
+    expect(runner.run).toHaveBeenCalledWith(expect.objectContaining({ testCases: twoSumCases }));
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ success: true }));
+  });
+});
@@ -0,0 +1,632 @@
+/**
+ * Code Sandbox
+ * Runs candidate code in a separate, resource-limited process inside an
+ * isolation layer, checks it against hidden test cases in this process and
+ * estimates its time complexity from runtimes at growing input sizes
+ */
+
+import { execFile } from 'child_process';
+import * as os from 'os';
+import { isDeepStrictEqual, promisify } from 'util';
+import { logger } from '../utils/logger';
+import { CodeLanguage } from '../types/code-collaboration';
+import {
+  CodeRunner,
+  CodeExecutionRequest,
+  CodeExecutionReport,
+  CodeExecutionError,
+  ComplexityProbe,
+  ComplexitySample,
+  EmpiricalComplexity,
+  SandboxCommand,
+  SandboxIsolation,
+  SandboxLimits,
+  ScalingArgumentKind,
+  TestCaseResult
+} from '../types/code-execution';
+
+const execFileAsync = promisify(execFile);
+
+const DEFAULT_LIMITS: SandboxLimits = {
+  timeoutMs: 10000,
+  callTimeoutMs: 2000,
+  memoryMb: 256,
+  maxOutputBytes: 4 * 1024 * 1024
+};
+
+const SUPPORTED_LANGUAGES = [CodeLanguage.JAVASCRIPT, CodeLanguage.TYPESCRIPT, CodeLanguage.PYTHON];
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+// Everything the sandbox prints is written by the candidate's code, which
+// could use error messages to carry data out. Only these error names are
+// reported; anything else is reported as a plain Error
+const REPORTED_ERRORS = new Set([
+  'ArithmeticError', 'AssertionError', 'AttributeError', 'EvalError', 'IndentationError', 'IndexError',
+  'KeyError', 'MemoryError', 'NameError', 'NotImplementedError', 'OverflowError', 'PermissionError',
+  'RangeError', 'RecursionError', 'ReferenceError', 'StopIteration', 'SyntaxError', 'TabError',
+  'TimeoutError', 'TypeError', 'UnboundLocalError', 'ValueError', 'ZeroDivisionError'
+]);
+const CALL_TIMEOUT = /^(TimeoutError: Call|Error: Script execution) timed out after \d+ms$/;
+
+// Read-only system directories visible inside bubblewrap; the runtimes must live under one of them
+const DEFAULT_READ_ONLY_PATHS = ['/usr', '/bin', '/lib', '/lib64'];
+const UNPRIVILEGED_ID = '65534'; // nobody
+
+// Each probe size is timed a few times and the fastest run kept, to damp noise
+const PROBE_REPEATS = 3;
+const PROBE_SEED = 20240601;
+
+// Growth classes in increasing order, with the function each one scales by
+const COMPLEXITY_CLASSES: Array<{ name: string; growth: (n: number) => number }> = [
+  { name: 'O(1)', growth: () => 1 },
+  { name: 'O(log n)', growth: n => Math.log2(Math.max(n, 2)) },
+  { name: 'O(n)', growth: n => n },
+  { name: 'O(n log n)', growth: n => n * Math.log2(Math.max(n, 2)) },
+  { name: 'O(n^2)', growth: n => n * n },
+  { name: 'O(n^3)', growth: n => n * n * n },
+  { name: 'O(2^n)', growth: n => Math.pow(2, n) }
+];
+
+interface SandboxCall {
+  id: string;
+  arguments: unknown[];
+  repeat: number;
+  returnValue: boolean;
+}
+
+interface SandboxCallResult {
+  id: string;
+  ok: boolean;
+  value?: unknown;
+  error?: string;
+  durationMs: number;
+}
+
+interface SandboxOutput {
+  results: SandboxCallResult[];
+  error?: string;
+}
+
+interface SandboxJob {
+  code: string;
+  functionName: string;
+  calls: SandboxCall[];
+  callTimeoutMs: number;
+  timeoutMs: number;
+  memoryMb: number;
+}
+
+/**
+ * Node harness. Candidate code runs in a fresh V8 context that holds no
+ * host objects, so it cannot reach require, process or the network. Only
+ * strings cross between the context and the harness. A V8 context is not
+ * a security boundary, which is why the process runs inside the isolation
+ * layer as well
+ */
+const NODE_HARNESS = `'use strict';
+const vm = require('vm');
+const { performance } = require('perf_hooks');
+let input = '';
+process.stdin.setEncoding('utf8');
+process.stdin.on('data', chunk => { input += chunk; });
+process.stdin.on('end', () => {
+  const job = JSON.parse(input);
+  const context = vm.createContext(Object.create(null), { codeGeneration: { strings: false, wasm: false } });
+  const run = (source, values = {}) => {
+    Object.assign(context, values);
+    return vm.runInContext(source, context, { timeout: job.callTimeoutMs });
+  };
+  // Host errors (timeouts, syntax) are read here; errors thrown by the
+  // candidate are described inside the context so no host object enters it
+  const describe = error => {
+    if (error instanceof Error) {
+      return error.name + ': ' + error.message;
+    }
+    if (error === null || typeof error !== 'object' && typeof error !== 'function') {
+      return String(error);
+    }
+    try {
+      return String(run('String(__error && __error.name ? __error.name + ": " + __error.message : __error)', { __error: error }));
+    } catch (inner) {
+      return 'Unknown error';
+    }
+  };
+  const output = { results: [] };
+  try {
+    run('var module = { exports: {} }, exports = module.exports;' +
+      'var console = { log() {}, info() {}, warn() {}, error() {}, debug() {} };');
+    new vm.Script(job.code, { filename: 'solution.js' }).runInContext(context, { timeout: job.callTimeoutMs });
+    run('var __fn = typeof ' + job.functionName + ' === "function" ? ' + job.functionName +
+      ' : module.exports[' + JSON.stringify(job.functionName) + '];');
+  } catch (error) {
+    output.error = describe(error);
+  }
+  if (!output.error && run('typeof __fn') !== 'function') {
+    output.error = 'NameError: Function ' + job.functionName + ' is not defined';
+  }
+  if (output.error) {
+    process.stdout.write(JSON.stringify(output));
+    return;
+  }
+  for (const call of job.calls) {
+    const result = { id: call.id, ok: true, durationMs: Infinity };
+    try {
+      for (let attempt = 0; attempt < call.repeat; attempt++) {
+        run('__args = JSON.parse(__argsJson)', { __argsJson: JSON.stringify(call.arguments) });
+        const started = performance.now();
+        run('__result = __fn.apply(undefined, __args)');
+        result.durationMs = Math.min(result.durationMs, performance.now() - started);
+      }
+      if (call.returnValue) {
+        const json = run('JSON.stringify(__result === undefined ? null : __result)');
+        result.value = json === undefined ? null : JSON.parse(json);
+      }
+    } catch (error) {
+      Object.assign(result, { ok: false, error: describe(error), durationMs: 0 });
+    }
+    output.results.push(result);
+  }
+  process.stdout.write(JSON.stringify(output));
+});
+`;
+
+/**
+ * Python harness. Limits are set with setrlimit and an audit hook refuses
+ * sockets, subprocesses and file writes before candidate code is loaded.
+ * The hook does not stop file reads; the isolation layer keeps host files
+ * out of the process
+ */
+const PYTHON_HARNESS = `import copy, json, math, os, resource, signal, sys, time
+
+job = json.loads(sys.stdin.read())
+out = sys.stdout
+sys.stdout = sys.stderr = open(os.devnull, 'w')
+
+memory = job['memoryMb'] * 1024 * 1024
+resource.setrlimit(resource.RLIMIT_AS, (memory, memory))
+cpu = math.ceil(job['timeoutMs'] / 1000)
+resource.setrlimit(resource.RLIMIT_CPU, (cpu, cpu + 1))
+resource.setrlimit(resource.RLIMIT_FSIZE, (0, 0))
+
+BLOCKED = ('socket.', 'subprocess.', 'os.system', 'os.exec', 'os.posix_spawn', 'os.spawn', 'os.fork',
+           'os.forkpty', 'os.kill', 'os.putenv', 'ctypes.', 'sys.addaudithook', 'webbrowser.')
+WRITE_FLAGS = os.O_WRONLY | os.O_RDWR | os.O_CREAT | os.O_APPEND
+
+def audit(event, args):
+    if event.startswith(BLOCKED):
+        raise PermissionError(event + ' is not allowed in the sandbox')
+    if event == 'open' and ((isinstance(args[1], str) and any(c in args[1] for c in 'wax+')) or (args[2] or 0) & WRITE_FLAGS):
+        raise PermissionError('Writing files is not allowed in the sandbox')
+
+def timed_out(signum, frame):
+    raise TimeoutError('Call timed out after %dms' % job['callTimeoutMs'])
+
+def encode(value):
+    return list(value) if isinstance(value, (set, frozenset, range)) else repr(value)
+
+def describe(error):
+    return '%s: %s' % (type(error).__name__, error)
+
+signal.signal(signal.SIGALRM, timed_out)
+sys.addaudithook(audit)
+output = {'results': []}
+
+try:
+    namespace = {'__name__': 'solution'}
+    exec(compile(job['code'], 'solution.py', 'exec'), namespace)
+    fn = namespace.get(job['functionName'])
+    if fn is None and isinstance(namespace.get('Solution'), type):
+        fn = getattr(namespace['Solution'](), job['functionName'], None)
+    if not callable(fn):
+        raise NameError('Function %s is not defined' % job['functionName'])
+except BaseException as error:
+    output['error'] = describe(error)
+    fn = None
+
+for call in (job['calls'] if fn else []):
+    result = {'id': call['id'], 'ok': True, 'durationMs': float('inf')}
+    try:
+        for _ in range(call['repeat']):
+            args = copy.deepcopy(call['arguments'])
+            signal.setitimer(signal.ITIMER_REAL, job['callTimeoutMs'] / 1000)
+            started = time.perf_counter()
+            try:
+                value = fn(*args)
+            finally:
+                elapsed = (time.perf_counter() - started) * 1000
+                signal.setitimer(signal.ITIMER_REAL, 0)
+            result['durationMs'] = min(result['durationMs'], elapsed)
+        if call['returnValue']:
+            result['value'] = json.loads(json.dumps(value, default=encode, allow_nan=False))
+    except BaseException as error:
+        result.update(ok=False, error=describe(error), durationMs=0)
+    output['results'].append(result)
+
+out.write(json.dumps(output))
+`;
+
+/**
+ * Runs the runtime with bubblewrap in new network, PID, IPC and user
+ * namespaces, as an unprivileged user without capabilities. The root is
+ * read-only and holds only the system directories, so host files and
+ * the network are out of reach even for code that escapes the harness
+ */
+export class BubblewrapIsolation implements SandboxIsolation {
+  private bwrapPath: string;
+  private readOnlyPaths: string[];
+
+  constructor(config: { bwrapPath?: string; readOnlyPaths?: string[] } = {}) {
+    this.bwrapPath = config.bwrapPath || 'bwrap';
+    this.readOnlyPaths = config.readOnlyPaths?.length ? config.readOnlyPaths : DEFAULT_READ_ONLY_PATHS;
+  }
+
+  wrap(command: string, args: string[]): SandboxCommand {
+    return {
+      command: this.bwrapPath,
+      args: [
+        '--unshare-all',
+        '--unshare-user',
+        '--uid', UNPRIVILEGED_ID,
+        '--gid', UNPRIVILEGED_ID,
+        '--cap-drop', 'ALL',
+        '--die-with-parent',
+        '--new-session',
+        ...this.readOnlyPaths.flatMap(path => ['--ro-bind-try', path, path]),
+        '--proc', '/proc',
+        '--dev', '/dev',
+        '--dir', '/tmp',
+        '--remount-ro', '/',
+        '--chdir', '/tmp',
+        '--clearenv',
+        '--setenv', 'PATH', '/usr/bin:/bin',
+        '--setenv', 'LANG', 'C.UTF-8',
+        '--',
+        command,
+        ...args
+      ]
+    };
+  }
+}
+
+export class SandboxedCodeRunner implements CodeRunner {
+  private nodePath: string;
+  private pythonPath: string;
+  private isolation?: SandboxIsolation;
+  private limits: SandboxLimits;
+
+  /**
+   * Without an isolation layer the process limits and harness checks are
+   * the only protection, which is only fit for trusted code such as tests
+   */
+  constructor(config: {
+    nodePath?: string;
+    pythonPath?: string;
+    isolation?: SandboxIsolation;
+    limits?: Partial<SandboxLimits>;
+  } = {}) {
+    this.nodePath = config.nodePath || process.execPath;
+    this.pythonPath = config.pythonPath || 'python3';
+    this.isolation = config.isolation;
+    this.limits = {
+      timeoutMs: config.limits?.timeoutMs || DEFAULT_LIMITS.timeoutMs,
+      callTimeoutMs: config.limits?.callTimeoutMs || DEFAULT_LIMITS.callTimeoutMs,
+      memoryMb: config.limits?.memoryMb || DEFAULT_LIMITS.memoryMb,
+      maxOutputBytes: config.limits?.maxOutputBytes || DEFAULT_LIMITS.maxOutputBytes
+    };
+  }
+
+  supports(language: CodeLanguage): boolean {
+    return SUPPORTED_LANGUAGES.includes(language);
+  }
+
+  async run(request: CodeExecutionRequest): Promise<CodeExecutionReport> {
+    if (!this.supports(request.language)) {
+      throw new CodeExecutionError(`Running ${request.language} code is not supported`, request.language);
+    }
+    if (!IDENTIFIER.test(request.functionName)) {
+      throw new CodeExecutionError(`Invalid function name: ${request.functionName}`, request.language);
+    }
+
+    const calls: SandboxCall[] = [
+      ...request.testCases.map(testCase => ({ id: testCase.id, arguments: testCase.arguments, repeat: 1, returnValue: true })),
+      ...(request.complexityProbe ? this.probeCalls(request.complexityProbe) : [])
+    ];
+
+    let output: SandboxOutput;
+    try {
+      const code = request.language === CodeLanguage.TYPESCRIPT ? await this.transpile(request.code) : request.code;
+      output = await this.execute(request.language, {
+        code,
+        functionName: request.functionName,
+        calls,
+        callTimeoutMs: this.limits.callTimeoutMs,
+        timeoutMs: this.limits.timeoutMs,
+        memoryMb: this.limits.memoryMb
+      });
+    } catch (error) {
+      if (error instanceof CodeExecutionError) {
+        throw error;
+      }
+      output = { results: [], error: error instanceof Error ? error.message : String(error) };
+    }
+
+    const report = this.buildReport(request, output);
+    logger.info('Candidate code executed', {
+      language: request.language,
+      passed: report.passed,
+      total: report.total,
+      timeComplexity: report.complexity?.timeComplexity,
+      error: report.error
+    });
+    return report;
+  }
+
+  private probeCalls(probe: ComplexityProbe): SandboxCall[] {
+    const index = probe.argumentIndex ?? 0;
+    return probe.sizes.map(size => {
+      const args = [...(probe.arguments || [])];
+      args[index] = generateScalingArgument(probe.argumentKind, size);
+      return { id: `probe:${size}`, arguments: args, repeat: PROBE_REPEATS, returnValue: false };
+    });
+  }
+
+  private async transpile(code: string): Promise<string> {
+    const ts = await import('typescript');
+    const output = ts.transpileModule(code, {
+      compilerOptions: { target: ts.ScriptTarget.ES2020, module: ts.ModuleKind.CommonJS },
+      reportDiagnostics: true
+    });
+
+    const [diagnostic] = output.diagnostics || [];
+    if (diagnostic) {
+      throw new Error(`SyntaxError: ${ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')}`);
+    }
+    return output.outputText;
+  }
+
+  private async execute(language: CodeLanguage, job: SandboxJob): Promise<SandboxOutput> {
+    const runtime: SandboxCommand = language === CodeLanguage.PYTHON
+      ? { command: this.pythonPath, args: ['-I', '-S', '-c', PYTHON_HARNESS] }
+      : { command: this.nodePath, args: [`--max-old-space-size=${this.limits.memoryMb}`, '-e', NODE_HARNESS] };
+    const { command, args } = this.isolation ? this.isolation.wrap(runtime.command, runtime.args) : runtime;
+
+    const execution = execFileAsync(command, args, {
+      cwd: os.tmpdir(),
+      env: { PATH: process.env.PATH || '/usr/bin:/bin', LANG: 'C.UTF-8' },
+      timeout: this.limits.timeoutMs,
+      killSignal: 'SIGKILL',
+      maxBuffer: this.limits.maxOutputBytes
+    });
+    execution.child.stdin?.end(JSON.stringify(job));
+
+    let stdout: string;
+    try {
+      ({ stdout } = await execution);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        throw new CodeExecutionError(`${command} is not installed or not on PATH`, language);
+      }
+
+      const stderr = (error.stderr || '').toString();
+      if (error.killed || error.signal === 'SIGKILL' || error.signal === 'SIGXCPU') {
+        return { results: [], error: `Execution timed out after ${this.limits.timeoutMs}ms` };
+      }
+      if (/heap out of memory|MemoryError/.test(stderr)) {
+        return { results: [], error: `Memory limit of ${this.limits.memoryMb}MB exceeded` };
+      }
+      return { results: [], error: this.reportedError(stderr.trim().split('\n').pop() || '', job.functionName) };
+    }
+
+    let output: SandboxOutput;
+    try {
+      output = JSON.parse(stdout);
+    } catch (error) {
+      return { results: [], error: 'The code wrote unreadable output' };
+    }
+    if (!Array.isArray(output?.results)) {
+      return { results: [], error: 'The code wrote unreadable output' };
+    }
+
+    return {
+      results: output.results.map(result => ({
+        id: String(result.id),
+        ok: result.ok === true,
+        value: result.value,
+        durationMs: Number(result.durationMs) || 0,
+        error: result.error === undefined ? undefined : this.reportedError(result.error, job.functionName)
+      })),
+      error: output.error === undefined ? undefined : this.reportedError(output.error, job.functionName)
+    };
+  }
+
+  /**
+   * Reduce an error from the sandbox to its name. The harness's own
+   * timeout and missing function errors are rebuilt from trusted values
+   */
+  private reportedError(raw: unknown, functionName: string): string {
+    const text = String(raw);
+    if (CALL_TIMEOUT.test(text)) {
+      return `TimeoutError: Call timed out after ${this.limits.callTimeoutMs}ms`;
+    }
+    if (text === `NameError: Function ${functionName} is not defined`) {
+      return text;
+    }
+
+    const name = text.split(':', 1)[0].trim();
+    return REPORTED_ERRORS.has(name) ? name : 'Error';
+  }
+
+  private buildReport(request: CodeExecutionRequest, output: SandboxOutput): CodeExecutionReport {
+    const byId = new Map(output.results.map(result => [result.id, result]));
+
+    const results: TestCaseResult[] = request.testCases.map(testCase => {
+      const hidden = testCase.hidden ?? true;
+      const result = byId.get(testCase.id);
+      if (!result) {
+        return { testCaseId: testCase.id, passed: false, hidden, durationMs: 0, error: output.error || 'Not run' };
+      }
+
+      return {
+        testCaseId: testCase.id,
+        passed: result.ok && outputsMatch(testCase.expectedOutput, result.value),
+        hidden,
+        durationMs: result.durationMs,
+        actualOutput: hidden ? undefined : result.value,
+        error: result.error
+      };
+    });
+
+    const samples: ComplexitySample[] = (request.complexityProbe?.sizes || [])
+      .map(size => byId.get(`probe:${size}`))
+      .filter((result): result is SandboxCallResult => !!result && result.ok)
+      .map(result => ({ size: Number(result.id.slice('probe:'.length)), durationMs: result.durationMs }));
+
+    const passed = results.filter(result => result.passed).length;
+    return {
+      language: request.language,
+      passed,
+      total: results.length,
+      passRate: results.length ? passed / results.length : 0,
+      results,
+      complexity: samples.length >= 2 ? estimateComplexity(samples) : undefined,
+      error: output.error
+    };
+  }
+}
+
+/**
+ * Pick the growth class that best explains the runtimes: the one whose
+ * runtime-to-growth ratio varies least across sizes
+ */
+export function estimateComplexity(samples: ComplexitySample[]): EmpiricalComplexity {
+  const sorted = [...samples].sort((a, b) => a.size - b.size);
+
+  let best = COMPLEXITY_CLASSES[0].name;
+  let bestSpread = Infinity;
+  for (const complexity of COMPLEXITY_CLASSES) {
+    const ratios = sorted.map(sample => sample.durationMs / complexity.growth(sample.size));
+    if (ratios.some(ratio => !Number.isFinite(ratio) || ratio <= 0)) {
+      continue;
+    }
+
+    const mean = ratios.reduce((sum, ratio) => sum + ratio, 0) / ratios.length;
+    const spread = Math.sqrt(ratios.reduce((sum, ratio) => sum + (ratio - mean) ** 2, 0) / ratios.length) / mean;
+    if (spread < bestSpread) {
+      best = complexity.name;
+      bestSpread = spread;
+    }
+  }
+
+  return { timeComplexity: best, exponent: logLogSlope(sorted), samples: sorted };
+}
+
+/**
+ * Order two complexity strings such as 'O(n)' and 'O(n log n)'. Returns
+ * null when either is not a class the sandbox can measure
+ */
+export function compareComplexity(a: string, b: string): number | null {
+  const rank = (value: string) => COMPLEXITY_CLASSES.findIndex(complexity => complexity.name === normalizeComplexity(value));
+  const [rankA, rankB] = [rank(a), rank(b)];
+  return rankA < 0 || rankB < 0 ? null : rankA - rankB;
+}
+
+function normalizeComplexity(value: string): string {
+  const compact = value.toLowerCase().replace(/\s+/g, '').replace(/²/g, '^2').replace(/³/g, '^3').replace(/\*/g, '');
+  const match = COMPLEXITY_CLASSES.find(complexity => complexity.name.toLowerCase().replace(/\s+/g, '') === compact);
+  return match ? match.name : value;
+}
+
+function logLogSlope(samples: ComplexitySample[]): number {
+  const points = samples
+    .filter(sample => sample.size > 0 && sample.durationMs > 0)
+    .map(sample => ({ x: Math.log(sample.size), y: Math.log(sample.durationMs) }));
+  if (points.length < 2) {
+    return 0;
+  }
+
+  const meanX = points.reduce((sum, point) => sum + point.x, 0) / points.length;
+  const meanY = points.reduce((sum, point) => sum + point.y, 0) / points.length;
+  const covariance = points.reduce((sum, point) => sum + (point.x - meanX) * (point.y - meanY), 0);
+  const variance = points.reduce((sum, point) => sum + (point.x - meanX) ** 2, 0);
+  return variance ? Math.round((covariance / variance) * 100) / 100 : 0;
+}
+
+/**
+ * Deterministic input of the given size, so repeated evaluations of the
+ * same answer time the same work
+ */
+export function generateScalingArgument(kind: ScalingArgumentKind, size: number): unknown {
+  let state = PROBE_SEED;
+  const next = () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+
+  switch (kind) {
+    case ScalingArgumentKind.INTEGER:
+      return size;
+    case ScalingArgumentKind.INTEGER_ARRAY:
+      return Array.from({ length: size }, () => Math.floor(next() * (2 * size + 1)) - size);
+    case ScalingArgumentKind.SORTED_INTEGER_ARRAY:
+      return Array.from({ length: size }, () => Math.floor(next() * (2 * size + 1)) - size).sort((a, b) => a - b);
+    case ScalingArgumentKind.STRING:
+      return Array.from({ length: size }, () => String.fromCharCode(97 + Math.floor(next() * 26))).join('');
+  }
+}
+
+// Numbers are compared with a small tolerance so floating point answers pass
+function outputsMatch(expected: unknown, actual: unknown): boolean {
+  if (typeof expected === 'number' && typeof actual === 'number') {
+    return Math.abs(expected - actual) <= 1e-9 * Math.max(1, Math.abs(expected));
+  }
+  if (Array.isArray(expected) && Array.isArray(actual)) {
+    return expected.length === actual.length && expected.every((value, index) => outputsMatch(value, actual[index]));
+  }
+  if (expected && actual && typeof expected === 'object' && typeof actual === 'object') {
+    const keys = Object.keys(expected as object);
+    return keys.length === Object.keys(actual as object).length &&
+      keys.every(key => outputsMatch((expected as any)[key], (actual as any)[key]));
+  }
+  return isDeepStrictEqual(expected, actual);
+}
+
+/**
+ * Create a runner from environment variables, or undefined when
+ * CODE_SANDBOX_ENABLED is not 'true' and answers are scored by the model alone.
+ *
+ * CODE_SANDBOX_NODE_PATH and CODE_SANDBOX_PYTHON_PATH select the runtimes;
+ * CODE_SANDBOX_TIMEOUT_MS, CODE_SANDBOX_CALL_TIMEOUT_MS and
+ * CODE_SANDBOX_MEMORY_MB set the limits.
+ *
+ * Code runs under bubblewrap (CODE_SANDBOX_BWRAP_PATH), which sees only
+ * the colon separated CODE_SANDBOX_READ_ONLY_PATHS. CODE_SANDBOX_ISOLATION
+ * set to 'none' runs without it, for local development only.
+ */
+export function createCodeRunnerFromEnv(env: NodeJS.ProcessEnv = process.env): CodeRunner | undefined {
+  if (env.CODE_SANDBOX_ENABLED !== 'true') {
+    return undefined;
+  }
+
+  const isolated = env.CODE_SANDBOX_ISOLATION !== 'none';
+  if (!isolated) {
+    logger.warn('Code sandbox isolation is disabled; candidate code can read host files and use the network');
+  }
+
+  logger.info('Creating code sandbox runner', { isolated });
+  return new SandboxedCodeRunner({
+    nodePath: env.CODE_SANDBOX_NODE_PATH,
+    pythonPath: env.CODE_SANDBOX_PYTHON_PATH,
+    isolation: isolated
+      ? new BubblewrapIsolation({
+        bwrapPath: env.CODE_SANDBOX_BWRAP_PATH,
+        readOnlyPaths: env.CODE_SANDBOX_READ_ONLY_PATHS?.split(':').filter(Boolean)
+      })
+      : undefined,
+    limits: {
+      timeoutMs: env.CODE_SANDBOX_TIMEOUT_MS ? parseInt(env.CODE_SANDBOX_TIMEOUT_MS, 10) : undefined,
+      callTimeoutMs: env.CODE_SANDBOX_CALL_TIMEOUT_MS ? parseInt(env.CODE_SANDBOX_CALL_TIMEOUT_MS, 10) : undefined,
+      memoryMb: env.CODE_SANDBOX_MEMORY_MB ? parseInt(env.CODE_SANDBOX_MEMORY_MB, 10) : undefined
+    }
+  });
+}
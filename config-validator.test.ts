@@ -200,6 +200,22 @@ describe('ConfigValidator', () => {
       expect(result.isValid).toBe(false);
       expect(result.errors.some(e => e.field === 'configId')).toBe(true);
     });
+
+    it('should validate the interviewers invited to the session', () => {
+      const valid = ConfigValidator.validateCreateSession({
+        configId: '123e4567-e89b-12d3-a456-426614174000',
+        interviewerIds: ['interviewer-1', 'interviewer-2'],
+      });
+      const duplicated = ConfigValidator.validateCreateSession({
+        configId: '123e4567-e89b-12d3-a456-426614174000',
+        interviewerIds: ['interviewer-1', 'interviewer-1'],
+      });
+
+      expect(valid.isValid).toBe(true);
+      expect(duplicated.isValid).toBe(false);
+      expect(duplicated.errors.some(e => e.field.startsWith('interviewerIds'))).toBe(true);
+      expect(ConfigValidator.validateInterviewerIds(['']).isValid).toBe(false);
+    });
   });
 
   describe('validateSessionControl', () => {
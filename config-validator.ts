@@ -16,14 +16,22 @@ import {
   SessionControlRequest,
   SessionAction,
 } from '../types/interview-config';
+import { PanelTurnPolicy } from '../types/ai-interviewer';
+import { DocumentFormat } from '../types/interview-grounding';
+import { CodeLanguage } from '../types/code-collaboration';
 
 export class ConfigValidator {
   private static readonly MIN_DURATION = 5; // 5 minutes
   private static readonly MAX_DURATION = 180; // 3 hours
   private static readonly MAX_NAME_LENGTH = 100;
+  private static readonly MAX_CODE_LENGTH = 100000;
+  private static readonly MAX_CODE_SNAPSHOTS = 50;
   private static readonly MAX_DESCRIPTION_LENGTH = 500;
   private static readonly MAX_TAGS = 10;
   private static readonly MAX_TAG_LENGTH = 30;
+  private static readonly MAX_INTERVIEWERS = 10;
+  private static readonly MIN_DOCUMENT_LENGTH = 50;
+  private static readonly MAX_DOCUMENT_LENGTH = 50000; // ~10 pages of text
 
   // Schema definitions
   private static readonly aiPersonalitySchema = Joi.object({
@@ -36,6 +44,31 @@ export class ConfigValidator {
     encouragementLevel: Joi.number().min(0).max(1).optional(),
   });
 
+  private static readonly groundingDocumentSchema = Joi.object({
+    content: Joi.string().min(this.MIN_DOCUMENT_LENGTH).max(this.MAX_DOCUMENT_LENGTH).required(),
+    format: Joi.string().valid(...Object.values(DocumentFormat)).required(),
+    fileName: Joi.string().max(255).optional(),
+  });
+
+  private static readonly panelPersonaSchema = Joi.object({
+    id: Joi.string().min(1).max(50).required(),
+    name: Joi.string().min(1).max(50).required(),
+    title: Joi.string().max(100).optional(),
+    style: Joi.string().valid(...Object.values(InterviewStyle)).required(),
+    tone: Joi.string().valid(...Object.values(InterviewTone)).required(),
+    formality: Joi.string().valid(...Object.values(FormalityLevel)).required(),
+    adaptiveness: Joi.number().min(0).max(1).required(),
+    followUpIntensity: Joi.number().min(0).max(1).required(),
+    encouragementLevel: Joi.number().min(0).max(1).required(),
+    focusAreas: Joi.array().items(Joi.string().valid(...Object.values(FocusArea))).max(10).required(),
+  });
+
+  private static readonly panelSettingsSchema = Joi.object({
+    personas: Joi.array().items(this.panelPersonaSchema).min(2).max(4).unique('id').required(),
+    turnPolicy: Joi.string().valid(...Object.values(PanelTurnPolicy)).required(),
+    allowFollowUpHandOff: Joi.boolean().required(),
+  });
+
   private static readonly notificationSettingsSchema = Joi.object({
     timeWarnings: Joi.boolean().optional(),
     warningThresholds: Joi.array().items(Joi.number().min(0).max(100)).max(5).optional(),
@@ -56,6 +89,7 @@ export class ConfigValidator {
     timePerQuestion: Joi.number().min(30).max(1800).optional(), // 30 seconds to 30 minutes
     breaksBetweenQuestions: Joi.number().min(0).max(300).optional(), // up to 5 minutes
     notifications: this.notificationSettingsSchema.optional(),
+    panel: this.panelSettingsSchema.optional(),
   });
 
   private static readonly createConfigSchema = Joi.object({
@@ -86,6 +120,8 @@ export class ConfigValidator {
       .max(this.MAX_TAGS)
       .unique()
       .optional(),
+    resume: this.groundingDocumentSchema.optional(),
+    jobDescription: this.groundingDocumentSchema.optional(),
   });
 
   private static readonly updateConfigSchema = Joi.object({
@@ -115,11 +151,19 @@ export class ConfigValidator {
       .max(this.MAX_TAGS)
       .unique()
       .optional(),
+    resume: this.groundingDocumentSchema.allow(null).optional(),
+    jobDescription: this.groundingDocumentSchema.allow(null).optional(),
   });
 
+  private static readonly interviewerIdsSchema = Joi.array()
+    .items(Joi.string().min(1).max(255))
+    .max(this.MAX_INTERVIEWERS)
+    .unique();
+
   private static readonly createSessionSchema = Joi.object({
     configId: Joi.string().uuid().required(),
     settings: this.interviewSettingsSchema.optional(),
+    interviewerIds: this.interviewerIdsSchema.optional(),
   });
 
   private static readonly sessionControlSchema = Joi.object({
@@ -132,6 +176,12 @@ export class ConfigValidator {
     textResponse: Joi.string().max(10000).optional(),
     audioUrl: Joi.string().uri().optional(),
     videoUrl: Joi.string().uri().optional(),
+    codeSnapshots: Joi.array().items(Joi.object({
+      language: Joi.string().valid(...Object.values(CodeLanguage)).required(),
+      code: Joi.string().allow('').max(this.MAX_CODE_LENGTH).required(),
+      version: Joi.number().integer().min(0).required(),
+      capturedAt: Joi.date().required(),
+    })).min(1).max(this.MAX_CODE_SNAPSHOTS).optional(),
     metadata: Joi.object({
       wordCount: Joi.number().min(0).optional(),
       sentenceCount: Joi.number().min(0).optional(),
@@ -142,7 +192,7 @@ export class ConfigValidator {
       emotionalTone: Joi.string().optional(),
       keywordsUsed: Joi.array().items(Joi.string()).optional(),
     }).optional(),
-  }).or('textResponse', 'audioUrl', 'videoUrl'); // At least one response type required
+  }).or('textResponse', 'audioUrl', 'videoUrl', 'codeSnapshots'); // At least one response type required
 
   /**
    * Validate interview configuration creation request
@@ -229,6 +279,29 @@ export class ConfigValidator {
     return result;
   }
 
+  /**
+   * Validate the interviewers assigned to a session
+   */
+  static validateInterviewerIds(interviewerIds: string[]): ValidationResult {
+    const { error } = this.interviewerIdsSchema.required().validate(interviewerIds, { abortEarly: false });
+
+    const result: ValidationResult = {
+      isValid: !error,
+      errors: [],
+      warnings: [],
+    };
+
+    if (error) {
+      result.errors = error.details.map(detail => ({
+        field: ['interviewerIds', ...detail.path].join('.'),
+        message: detail.message,
+        code: detail.type,
+      }));
+    }
+
+    return result;
+  }
+
   /**
    * Validate session control request
    */
@@ -35,6 +35,12 @@ export const config = {
     billing: process.env.BILLING_SERVICE_URL || 'http://localhost:3001',
   },
 
+  analysisJobs: {
+    concurrency: parseInt(process.env.ANALYSIS_JOB_CONCURRENCY || '4', 10),
+    maxAttempts: parseInt(process.env.ANALYSIS_JOB_MAX_ATTEMPTS || '3', 10),
+    webhookSecret: process.env.ANALYSIS_JOB_WEBHOOK_SECRET,
+  },
+
   // Feature flags
   features: {
     enableTemplateCache: process.env.ENABLE_TEMPLATE_CACHE === 'true',
@@ -0,0 +1,295 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ConversationMemory,
+  ConversationTurn,
+  ContextBudgetConfig,
+  MemoryContext,
+  PinnedClaim,
+  ClaimType,
+  ResponseSummary,
+} from '../types/ai-interviewer';
+import { estimateTokens, truncateToTokens } from '../utils/token-estimator';
+
+export const DEFAULT_CONTEXT_BUDGET: ContextBudgetConfig = {
+  maxContextTokens: 1200,
+  recentResponseCount: 3,
+  maxPinnedClaims: 12,
+  maxSummaryTokens: 300,
+  maxResponseChars: 400,
+};
+
+const SUMMARY_LINE_CHARS = 160;
+const CLAIM_CHARS = 160;
+
+const PROJECT_PATTERN = /\b(?:I|we)\s+(?:led|built|designed|architected|migrated|launched|created|developed|implemented|shipped|founded|rewrote|rebuilt|introduced|automated)\b/i;
+const RESPONSIBILITY_PATTERN = /\b(?:I was responsible for|I owned|I own|I managed|I manage|my role was|I mentored|I was in charge of|I ran)\b/i;
+const METRIC_PATTERN = /(?:[$£€]\s?\d[\d,.]*\s?(?:k|m|bn|million|billion)?|\b\d[\d,.]*\s?(?:%|percent|x\b|ms\b|milliseconds|seconds|hours|days|weeks|users|customers|requests|engineers|people|services|servers|k\b|m\b))/i;
+
+// Technologies worth remembering verbatim so later questions can reference them
+const TECHNOLOGY_LEXICON = [
+  'Kafka', 'RabbitMQ', 'Kubernetes', 'Docker', 'Terraform', 'AWS', 'GCP', 'Azure',
+  'PostgreSQL', 'MySQL', 'MongoDB', 'Redis', 'Elasticsearch', 'Cassandra', 'DynamoDB',
+  'GraphQL', 'gRPC', 'REST', 'React', 'Angular', 'Vue', 'Node.js', 'TypeScript',
+  'JavaScript', 'Python', 'Java', 'Go', 'Rust', 'Spark', 'Airflow', 'Snowflake',
+  'TensorFlow', 'PyTorch', 'Jenkins', 'GitHub Actions', 'Spring', 'Django', 'Rails',
+];
+
+/**
+ * Keeps long interviews coherent without sending the full transcript to the model.
+ *
+ * Turns that fall out of the personality state's short conversation window are
+ * folded into a bounded rolling summary, and concrete claims from the candidate
+ * (projects, metrics, technologies) are pinned so follow-ups can refer back to
+ * them. `buildContext` then selects what fits into a prompt's token budget.
+ */
+export class ConversationMemoryManager {
+  static initializeMemory(): ConversationMemory {
+    return {
+      summary: '',
+      summarizedTurnCount: 0,
+      pinnedClaims: [],
+      lastUpdated: new Date(),
+    };
+  }
+
+  static resolveBudget(
+    overrides: Partial<ContextBudgetConfig> = {},
+    maxContextTokens?: number
+  ): ContextBudgetConfig {
+    const budget = { ...DEFAULT_CONTEXT_BUDGET, ...overrides };
+    if (maxContextTokens !== undefined && maxContextTokens > 0) {
+      budget.maxContextTokens = maxContextTokens;
+    }
+    return budget;
+  }
+
+  /**
+   * Fold turns that are leaving the short-term history into the rolling summary.
+   * The oldest summary lines are dropped once the summary exceeds its budget.
+   */
+  static absorbTurns(
+    memory: ConversationMemory,
+    turns: ConversationTurn[],
+    budget: ContextBudgetConfig = DEFAULT_CONTEXT_BUDGET
+  ): ConversationMemory {
+    if (turns.length === 0) {
+      return memory;
+    }
+
+    const lines = memory.summary ? memory.summary.split('\n') : [];
+    for (const turn of turns) {
+      const line = this.summarizeTurn(turn);
+      if (line) {
+        lines.push(line);
+      }
+    }
+
+    while (lines.length > 1 && estimateTokens(lines.join('\n')) > budget.maxSummaryTokens) {
+      lines.shift();
+    }
+
+    return {
+      ...memory,
+      summary: truncateToTokens(lines.join('\n'), budget.maxSummaryTokens),
+      summarizedTurnCount: memory.summarizedTurnCount + turns.length,
+      lastUpdated: new Date(),
+    };
+  }
+
+  /**
+   * Pin claims from a candidate response. Duplicates are ignored and only the
+   * most recent `maxPinnedClaims` are kept.
+   */
+  static pinClaims(
+    memory: ConversationMemory,
+    responseText: string,
+    sourceQuestionId?: string,
+    budget: ContextBudgetConfig = DEFAULT_CONTEXT_BUDGET
+  ): ConversationMemory {
+    const claims = this.extractClaims(responseText, sourceQuestionId);
+    if (claims.length === 0) {
+      return memory;
+    }
+
+    const known = new Set(memory.pinnedClaims.map(claim => this.normalize(claim.text)));
+    const added = claims.filter(claim => {
+      const key = this.normalize(claim.text);
+      if (known.has(key)) {
+        return false;
+      }
+      known.add(key);
+      return true;
+    });
+
+    return {
+      ...memory,
+      pinnedClaims: [...memory.pinnedClaims, ...added].slice(-budget.maxPinnedClaims),
+      lastUpdated: new Date(),
+    };
+  }
+
+  static extractClaims(text: string, sourceQuestionId?: string): PinnedClaim[] {
+    if (!text || !text.trim()) {
+      return [];
+    }
+
+    const claims: PinnedClaim[] = [];
+    const mentionedAt = new Date();
+    const addClaim = (type: ClaimType, claimText: string) => {
+      claims.push({ id: uuidv4(), type, text: claimText, sourceQuestionId, mentionedAt });
+    };
+
+    for (const sentence of this.splitSentences(text)) {
+      const claimText = sentence.length > CLAIM_CHARS
+        ? sentence.substring(0, CLAIM_CHARS - 3).trimEnd() + '...'
+        : sentence;
+
+      if (METRIC_PATTERN.test(sentence)) {
+        addClaim(ClaimType.METRIC, claimText);
+      } else if (PROJECT_PATTERN.test(sentence)) {
+        addClaim(ClaimType.PROJECT, claimText);
+      } else if (RESPONSIBILITY_PATTERN.test(sentence)) {
+        addClaim(ClaimType.RESPONSIBILITY, claimText);
+      }
+    }
+
+    for (const technology of TECHNOLOGY_LEXICON) {
+      const escaped = technology.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      if (new RegExp(`(^|[^A-Za-z0-9])${escaped}(?![A-Za-z0-9])`).test(text)) {
+        addClaim(ClaimType.TECHNOLOGY, technology);
+      }
+    }
+
+    return claims;
+  }
+
+  /**
+   * Select the history to include in a prompt, in priority order: the latest
+   * response, pinned claims, the remaining recent responses, then the summary
+   * of older turns. Anything that does not fit is counted as omitted.
+   */
+  static buildContext(
+    previousResponses: ResponseSummary[],
+    memory: ConversationMemory | undefined,
+    budget: ContextBudgetConfig = DEFAULT_CONTEXT_BUDGET
+  ): MemoryContext {
+    let remaining = budget.maxContextTokens;
+    const recentWindow = previousResponses.slice(-Math.max(1, budget.recentResponseCount));
+    const included: ResponseSummary[] = [];
+    const pinnedClaims: PinnedClaim[] = [];
+    let summary: string | undefined;
+
+    const latest = recentWindow[recentWindow.length - 1];
+    if (latest) {
+      // The latest response is always kept so follow-ups stay grounded
+      remaining -= estimateTokens(this.formatResponse(latest, 0, budget));
+      included.push(latest);
+    }
+
+    if (memory) {
+      for (const claim of [...memory.pinnedClaims].reverse()) {
+        const cost = estimateTokens(this.formatClaim(claim));
+        if (cost > remaining) {
+          break;
+        }
+        pinnedClaims.unshift(claim);
+        remaining -= cost;
+      }
+    }
+
+    for (let i = recentWindow.length - 2; i >= 0; i--) {
+      const cost = estimateTokens(this.formatResponse(recentWindow[i], 0, budget));
+      if (cost > remaining) {
+        break;
+      }
+      included.unshift(recentWindow[i]);
+      remaining -= cost;
+    }
+
+    if (memory?.summary && remaining > 0) {
+      summary = truncateToTokens(memory.summary, Math.min(remaining, budget.maxSummaryTokens));
+      remaining -= estimateTokens(summary);
+    }
+
+    return {
+      summary,
+      pinnedClaims,
+      recentResponses: included,
+      omittedResponseCount: previousResponses.length - included.length,
+      estimatedTokens: budget.maxContextTokens - remaining,
+    };
+  }
+
+  static renderContext(context: MemoryContext, budget: ContextBudgetConfig = DEFAULT_CONTEXT_BUDGET): string {
+    const sections: string[] = [];
+
+    if (context.summary) {
+      sections.push(`Earlier in the Interview (summary):\n${context.summary}`);
+    }
+
+    if (context.pinnedClaims.length > 0) {
+      sections.push(`Candidate Claims (stay consistent with these):\n${context.pinnedClaims.map(claim => this.formatClaim(claim)).join('\n')}`);
+    }
+
+    if (context.recentResponses.length > 0) {
+      const offset = context.omittedResponseCount;
+      const header = offset > 0
+        ? `Recent Questions and Responses (${offset} earlier response${offset === 1 ? '' : 's'} not shown):`
+        : 'Previous Questions and Responses:';
+      sections.push(`${header}\n${context.recentResponses.map((resp, idx) => this.formatResponse(resp, offset + idx, budget)).join('\n')}`);
+    }
+
+    return sections.join('\n\n');
+  }
+
+  private static formatResponse(resp: ResponseSummary, index: number, budget: ContextBudgetConfig): string {
+    let answer = 'Skipped';
+    if (resp.responseText) {
+      answer = resp.responseText.length > budget.maxResponseChars
+        ? resp.responseText.substring(0, budget.maxResponseChars) + '...'
+        : resp.responseText;
+    }
+
+    return `${index + 1}. Q: ${resp.questionText}
+   A: ${answer}
+   Duration: ${resp.duration}s, Score: ${resp.evaluationScore || 'N/A'}`;
+  }
+
+  private static formatClaim(claim: PinnedClaim): string {
+    return `- [${claim.type}] ${claim.text}`;
+  }
+
+  private static summarizeTurn(turn: ConversationTurn): string | null {
+    const content = (turn.content || '').trim();
+    if (!content) {
+      return null;
+    }
+
+    const firstSentence = this.splitSentences(content)[0] || content;
+    const text = firstSentence.length > SUMMARY_LINE_CHARS
+      ? firstSentence.substring(0, SUMMARY_LINE_CHARS - 3).trimEnd() + '...'
+      : firstSentence;
+
+    switch (turn.type) {
+      case 'response':
+        return `- Candidate: ${text}`;
+      case 'follow_up':
+        return `- Follow-up: ${text}`;
+      case 'question':
+        return `- Asked: ${text}`;
+      default:
+        return null;
+    }
+  }
+
+  private static splitSentences(text: string): string[] {
+    return text
+      .split(/(?<=[.!?])\s+|\n+/)
+      .map(sentence => sentence.trim())
+      .filter(sentence => sentence.length > 0);
+  }
+
+  private static normalize(text: string): string {
+    return text.toLowerCase().replace(/\s+/g, ' ').trim();
+  }
+}
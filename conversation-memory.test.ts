@@ -0,0 +1,149 @@
+import { DefaultAIInterviewerService } from '../services/ai-interviewer-service';
+import { PersonalityManager } from '../services/personality-manager';
+import { ConversationMemoryManager, DEFAULT_CONTEXT_BUDGET } from '../services/conversation-memory-manager';
+import { ScriptedLLMProvider } from '../services/llm-providers';
+import { estimateTokens } from '../utils/token-estimator';
+import {
+  AIPersonalityConfig,
+  ClaimType,
+  QuestionGenerationContext,
+  ResponseSummary,
+  QuestionType,
+  DifficultyLevel,
+  FocusArea,
+  InterviewStyle,
+  InterviewTone,
+  FormalityLevel,
+} from '../types/ai-interviewer';
+
+const personalityConfig: AIPersonalityConfig = {
+  name: 'Test Interviewer',
+  style: InterviewStyle.CONVERSATIONAL,
+  tone: InterviewTone.FRIENDLY,
+  formality: FormalityLevel.SEMI_FORMAL,
+  adaptiveness: 0.5,
+  followUpIntensity: 0.5,
+  encouragementLevel: 0.5,
+};
+
+const makeResponse = (index: number, text: string): ResponseSummary => ({
+  questionId: `q-${index}`,
+  questionText: `Question ${index}`,
+  responseText: text,
+  duration: 90,
+  isSkipped: false,
+  timestamp: new Date(),
+});
+
+describe('Conversation Memory', () => {
+  describe('ConversationMemoryManager', () => {
+    it('should pin projects, metrics and technologies from a response', () => {
+      const claims = ConversationMemoryManager.extractClaims(
+        'I led the migration of our billing system to Kafka. It cut processing latency by 40%.',
+        'q-1'
+      );
+
+      expect(claims.map(claim => claim.type)).toEqual([ClaimType.PROJECT, ClaimType.METRIC, ClaimType.TECHNOLOGY]);
+      expect(claims[2].text).toBe('Kafka');
+      expect(claims.every(claim => claim.sourceQuestionId === 'q-1')).toBe(true);
+    });
+
+    it('should not pin the same claim twice and keep only the most recent claims', () => {
+      let memory = ConversationMemoryManager.initializeMemory();
+      const budget = { ...DEFAULT_CONTEXT_BUDGET, maxPinnedClaims: 2 };
+
+      memory = ConversationMemoryManager.pinClaims(memory, 'We used Redis.', undefined, budget);
+      memory = ConversationMemoryManager.pinClaims(memory, 'We used Redis.', undefined, budget);
+      expect(memory.pinnedClaims).toHaveLength(1);
+
+      memory = ConversationMemoryManager.pinClaims(memory, 'Later we adopted Docker and Kubernetes.', undefined, budget);
+      expect(memory.pinnedClaims.map(claim => claim.text).sort()).toEqual(['Docker', 'Kubernetes']);
+    });
+
+    it('should keep the rolling summary within its token budget', () => {
+      const budget = { ...DEFAULT_CONTEXT_BUDGET, maxSummaryTokens: 40 };
+      const turns = Array.from({ length: 20 }, (_, i) => ({
+        type: 'response' as const,
+        content: `Answer number ${i} talked about a different system in detail.`,
+        timestamp: new Date(),
+      }));
+
+      const memory = ConversationMemoryManager.absorbTurns(ConversationMemoryManager.initializeMemory(), turns, budget);
+
+      expect(memory.summarizedTurnCount).toBe(20);
+      expect(estimateTokens(memory.summary)).toBeLessThanOrEqual(40);
+      expect(memory.summary).toContain('Answer number 19');
+      expect(memory.summary).not.toContain('Answer number 0 ');
+    });
+
+    it('should always keep the latest response and count what was omitted', () => {
+      const responses = Array.from({ length: 8 }, (_, i) => makeResponse(i + 1, 'x'.repeat(400)));
+      const budget = { ...DEFAULT_CONTEXT_BUDGET, maxContextTokens: 150 };
+
+      const context = ConversationMemoryManager.buildContext(responses, undefined, budget);
+
+      expect(context.recentResponses[context.recentResponses.length - 1].questionId).toBe('q-8');
+      expect(context.omittedResponseCount).toBe(8 - context.recentResponses.length);
+      expect(context.omittedResponseCount).toBeGreaterThanOrEqual(5);
+    });
+  });
+
+  describe('PersonalityManager memory', () => {
+    it('should fold turns leaving the history window into memory', () => {
+      let state = PersonalityManager.initializePersonality(personalityConfig);
+
+      state = PersonalityManager.updatePersonalityState(state, {
+        type: 'response',
+        content: 'At my last job I built a payments API in Go serving 2 million users.',
+        metadata: { questionId: 'q-0' },
+      });
+      for (let i = 0; i < 12; i++) {
+        state = PersonalityManager.updatePersonalityState(state, { type: 'question', content: `Question ${i}?` });
+      }
+
+      expect(state.conversationHistory).toHaveLength(11);
+      expect(state.memory!.summarizedTurnCount).toBe(2);
+      expect(state.memory!.summary).toContain('payments API');
+      expect(state.memory!.pinnedClaims.map(claim => claim.text)).toContain('Go');
+    });
+  });
+
+  describe('DefaultAIInterviewerService prompt budgeting', () => {
+    it('should keep question prompts bounded for long interviews', async () => {
+      const provider = new ScriptedLLMProvider();
+      const service = new DefaultAIInterviewerService(provider, { contextBudget: { maxContextTokens: 300 } });
+      const longAnswer = 'I designed a sharded PostgreSQL cluster. '.repeat(40);
+
+      const buildContext = (count: number): QuestionGenerationContext => ({
+        sessionId: 'memory-session',
+        userId: 'memory-user',
+        interviewConfig: {
+          id: 'config',
+          role: 'Backend Developer',
+          industry: 'Technology',
+          difficulty: DifficultyLevel.SENIOR,
+          duration: 90,
+          questionTypes: [QuestionType.TECHNICAL],
+          focusAreas: [FocusArea.TECHNICAL_SKILLS],
+          aiPersonality: personalityConfig,
+        },
+        currentQuestionIndex: count,
+        previousResponses: Array.from({ length: count }, (_, i) => makeResponse(i + 1, longAnswer)),
+        personalityState: PersonalityManager.initializePersonality(personalityConfig),
+        questionType: QuestionType.TECHNICAL,
+      });
+
+      await service.generateQuestion(buildContext(3));
+      await service.generateQuestion(buildContext(30));
+
+      const [shortPrompt, longPrompt] = provider.getHistory().map(request =>
+        request.messages[request.messages.length - 1].content
+      );
+
+      expect(longPrompt).toContain('Question 30');
+      expect(longPrompt).not.toContain('Question 1\n');
+      expect(longPrompt).toContain('earlier responses not shown');
+      expect(estimateTokens(longPrompt) - estimateTokens(shortPrompt)).toBeLessThan(50);
+    });
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Speaker Diarization Types
+ * Defines who spoke when in a recording that holds both the AI interviewer and the candidate
+ */
+
+export enum SpeakerRole {
+  INTERVIEWER = 'interviewer',
+  CANDIDATE = 'candidate'
+}
+
+export enum DiarizationMethod {
+  CHANNEL = 'channel', // Each speaker recorded on their own channel
+  CLUSTERING = 'clustering', // Speech windows grouped by pitch and level
+  SINGLE_SPEAKER = 'single_speaker' // No second voice found; everything is the candidate
+}
+
+export interface DiarizationConfig {
+  candidateChannel: number; // Microphone channel in multi-channel recordings
+  interviewerChannel: number; // Interviewer TTS playback channel
+  channelDominanceDb: number; // Level difference for a frame to belong to one channel
+  minChannelCoverage: number; // Share of speech frames with a dominant channel needed to trust channels
+  windowLength: number; // seconds per clustering window
+  minTurnLength: number; // seconds; shorter turns are merged into their neighbours
+  minSpeakerSeparation: number; // Cluster distance relative to spread below which there is one speaker
+  firstSpeaker: SpeakerRole; // Who opens the recording, used to name clusters without hints
+}
+
+export interface DiarizationHints {
+  interviewerSpeech?: TimeRange[]; // Known TTS playback times, relative to the start of the recording
+}
+
+export interface TimeRange {
+  start: number; // seconds
+  end: number;
+}
+
+export interface SpeakerTurn extends TimeRange {
+  speaker: SpeakerRole;
+  confidence: number; // 0-1
+}
+
+export interface DiarizationResult {
+  method: DiarizationMethod;
+  turns: SpeakerTurn[]; // In time order, non-overlapping
+  speakingTime: Record<SpeakerRole, number>; // seconds
+  confidence: number;
+}
@@ -0,0 +1,36 @@
+/**
+ * Embedding Provider Types
+ * Defines the offline text embedding backends used for semantic relevance scoring
+ */
+
+import { TextAnalysisError, TextAnalysisErrorCode } from './text-analysis';
+
+export interface EmbeddingProvider {
+  readonly type: EmbeddingProviderType;
+  embed(texts: string[]): Promise<number[][]>; // One vector per input, in order
+}
+
+export interface EmbeddingProviderConfig {
+  type: EmbeddingProviderType;
+  binaryPath?: string; // llama.cpp embedding CLI, e.g. /usr/local/bin/llama-embedding
+  modelPath?: string; // GGUF sentence embedding model, e.g. all-MiniLM-L6-v2.Q8_0.gguf
+  threads?: number;
+  timeoutMs?: number;
+  vectors?: Record<string, number[]>; // Precomputed vectors keyed by word or phrase
+  vectorFile?: string; // GloVe-style text file: a token followed by its components on each line
+}
+
+export enum EmbeddingProviderType {
+  LOCAL_MODEL = 'local_model',
+  VECTOR_TABLE = 'vector_table'
+}
+
+export class EmbeddingProviderError extends TextAnalysisError {
+  public provider: EmbeddingProviderType;
+
+  constructor(params: { provider: EmbeddingProviderType; code: TextAnalysisErrorCode; message: string; details?: any }) {
+    super(params);
+    this.name = 'EmbeddingProviderError';
+    this.provider = params.provider;
+  }
+}
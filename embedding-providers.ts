@@ -0,0 +1,241 @@
+/**
+ * Embedding Providers
+ * Offline text embedding adapters for semantic relevance scoring: a local
+ * sentence embedding model run on CPU through llama.cpp, and a precomputed
+ * vector table for word and phrase vectors such as GloVe
+ */
+
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { promisify } from 'util';
+import { logger } from '../utils/logger';
+import {
+  EmbeddingProvider,
+  EmbeddingProviderType,
+  EmbeddingProviderConfig,
+  EmbeddingProviderError
+} from '../types/embedding-provider';
+import { TextAnalysisErrorCode } from '../types/text-analysis';
+
+const execFileAsync = promisify(execFile);
+
+// llama.cpp reads one prompt per separator-delimited chunk
+const PROMPT_SEPARATOR = '<#sep#>';
+const MAX_PHRASE_TOKENS = 3;
+
+/**
+ * Adapter for the llama.cpp embedding command line tool with a GGUF sentence
+ * embedding model. All texts are embedded in one invocation with mean pooling
+ * and L2 normalization, and read back from the JSON output.
+ */
+export class LocalModelEmbeddingProvider implements EmbeddingProvider {
+  readonly type = EmbeddingProviderType.LOCAL_MODEL;
+  private binaryPath: string;
+  private modelPath: string;
+  private threads: number;
+  private timeoutMs: number;
+
+  constructor(config: {
+    binaryPath?: string;
+    modelPath?: string;
+    threads?: number;
+    timeoutMs?: number;
+  } = {}) {
+    this.binaryPath = config.binaryPath || 'llama-embedding';
+    this.modelPath = config.modelPath || path.join(process.cwd(), 'models', 'all-MiniLM-L6-v2.Q8_0.gguf');
+    this.threads = config.threads || Math.max(1, os.cpus().length - 1);
+    this.timeoutMs = config.timeoutMs || 30000;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+
+    const args = [
+      '-m', this.modelPath,
+      '-p', texts.map(text => text.replace(/\s+/g, ' ').trim()).join(PROMPT_SEPARATOR),
+      '--embd-separator', PROMPT_SEPARATOR,
+      '--embd-output-format', 'json',
+      '--embd-normalize', '2',
+      '--pooling', 'mean',
+      '-t', String(this.threads),
+      '--log-disable'
+    ];
+
+    let stdout: string;
+    try {
+      ({ stdout } = await execFileAsync(this.binaryPath, args, { timeout: this.timeoutMs, maxBuffer: 64 * 1024 * 1024 }));
+    } catch (error: any) {
+      throw new EmbeddingProviderError({
+        provider: this.type,
+        code: error.code === 'ENOENT' ? TextAnalysisErrorCode.CONFIGURATION_ERROR : TextAnalysisErrorCode.PROCESSING_FAILED,
+        message: error.code === 'ENOENT'
+          ? `${this.binaryPath} is not installed or not on PATH`
+          : `${path.basename(this.binaryPath)} exited with an error: ${(error.stderr || error.message || '').toString().trim()}`,
+        details: { command: this.binaryPath, model: this.modelPath }
+      });
+    }
+
+    return this.parseOutput(stdout, texts.length);
+  }
+
+  private parseOutput(stdout: string, expected: number): number[][] {
+    try {
+      const output = JSON.parse(stdout.slice(stdout.indexOf('{')));
+      const vectors: number[][] = (output.data || [])
+        .sort((a: any, b: any) => a.index - b.index)
+        .map((entry: any) => entry.embedding);
+
+      if (vectors.length !== expected) {
+        throw new Error(`expected ${expected} embeddings, received ${vectors.length}`);
+      }
+      return vectors;
+    } catch (error: any) {
+      throw new EmbeddingProviderError({
+        provider: this.type,
+        code: TextAnalysisErrorCode.PROCESSING_FAILED,
+        message: `Could not read embeddings: ${error.message}`,
+        details: error
+      });
+    }
+  }
+}
+
+/**
+ * Embeds text from a table of precomputed vectors. A text's vector is the mean
+ * of the vectors of its tokens, preferring the longest phrase in the table
+ * ("machine learning" or "machine_learning") over its single words. Texts with
+ * no known tokens get a zero vector.
+ */
+export class VectorTableEmbeddingProvider implements EmbeddingProvider {
+  readonly type = EmbeddingProviderType.VECTOR_TABLE;
+  private vectors: Map<string, number[]> | null = null;
+  private vectorFile?: string;
+  private dimensions = 0;
+
+  constructor(config: { vectors?: Record<string, number[]>; vectorFile?: string } = {}) {
+    if (config.vectors) {
+      this.setVectors(new Map(Object.entries(config.vectors).map(([key, vector]) => [this.normalizeKey(key), vector])));
+    } else if (!config.vectorFile) {
+      throw new EmbeddingProviderError({
+        provider: this.type,
+        code: TextAnalysisErrorCode.CONFIGURATION_ERROR,
+        message: 'A vector table needs either vectors or a vector file'
+      });
+    }
+    this.vectorFile = config.vectorFile;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors = this.vectors || await this.loadVectorFile();
+    return texts.map(text => this.embedText(text, vectors));
+  }
+
+  private embedText(text: string, vectors: Map<string, number[]>): number[] {
+    const tokens = (text.toLowerCase().match(/[\p{L}\p{N}][\p{L}\p{N}'+#.-]*/gu) || [])
+      .map(token => token.replace(/[.'-]+$/, ''));
+    const found: number[][] = [];
+
+    for (let i = 0; i < tokens.length;) {
+      let length = Math.min(MAX_PHRASE_TOKENS, tokens.length - i);
+      for (; length > 0; length--) {
+        const vector = vectors.get(tokens.slice(i, i + length).join(' '));
+        if (vector) {
+          found.push(vector);
+          break;
+        }
+      }
+      i += Math.max(length, 1);
+    }
+
+    const sum = new Array(this.dimensions).fill(0);
+    found.forEach(vector => vector.forEach((value, d) => { sum[d] += value; }));
+    return found.length > 0 ? sum.map(value => value / found.length) : sum;
+  }
+
+  private async loadVectorFile(): Promise<Map<string, number[]>> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.vectorFile!, 'utf8');
+    } catch (error: any) {
+      throw new EmbeddingProviderError({
+        provider: this.type,
+        code: TextAnalysisErrorCode.CONFIGURATION_ERROR,
+        message: `Could not read vector file ${this.vectorFile}: ${error.message}`,
+        details: error
+      });
+    }
+
+    const vectors = new Map<string, number[]>();
+    for (const line of content.split(/\r?\n/)) {
+      const parts = line.trim().split(/\s+/);
+      if (parts.length < 3) continue; // Blank lines and the word2vec "count dimensions" header
+
+      vectors.set(this.normalizeKey(parts[0]), parts.slice(1).map(Number));
+    }
+
+    logger.info('Loaded embedding vector table', { file: this.vectorFile, entries: vectors.size });
+    return this.setVectors(vectors);
+  }
+
+  private setVectors(vectors: Map<string, number[]>): Map<string, number[]> {
+    const first = vectors.values().next().value;
+    this.dimensions = first ? first.length : 0;
+    this.vectors = vectors;
+    return vectors;
+  }
+
+  private normalizeKey(key: string): string {
+    return key.toLowerCase().replace(/_/g, ' ');
+  }
+}
+
+/**
+ * Create a provider from explicit configuration
+ */
+export function createEmbeddingProvider(config: EmbeddingProviderConfig): EmbeddingProvider {
+  switch (config.type) {
+    case EmbeddingProviderType.LOCAL_MODEL:
+      return new LocalModelEmbeddingProvider(config);
+
+    case EmbeddingProviderType.VECTOR_TABLE:
+      return new VectorTableEmbeddingProvider(config);
+
+    default:
+      throw new EmbeddingProviderError({
+        provider: config.type,
+        code: TextAnalysisErrorCode.CONFIGURATION_ERROR,
+        message: `Unsupported embedding provider: ${config.type}`
+      });
+  }
+}
+
+/**
+ * Create a provider from environment variables, or undefined when
+ * EMBEDDING_PROVIDER is not set and relevance should stay keyword-based.
+ *
+ * EMBEDDING_PROVIDER selects the adapter (local_model | vector_table).
+ * EMBEDDING_CLI_PATH, EMBEDDING_MODEL_PATH, EMBEDDING_THREADS and
+ * EMBEDDING_TIMEOUT_MS configure the local model; EMBEDDING_VECTOR_FILE the
+ * vector table.
+ */
+export function createEmbeddingProviderFromEnv(env: NodeJS.ProcessEnv = process.env): EmbeddingProvider | undefined {
+  if (!env.EMBEDDING_PROVIDER) {
+    return undefined;
+  }
+
+  const type = env.EMBEDDING_PROVIDER as EmbeddingProviderType;
+  logger.info('Creating embedding provider', { type });
+
+  return createEmbeddingProvider({
+    type,
+    binaryPath: env.EMBEDDING_CLI_PATH,
+    modelPath: env.EMBEDDING_MODEL_PATH,
+    threads: env.EMBEDDING_THREADS ? parseInt(env.EMBEDDING_THREADS, 10) : undefined,
+    timeoutMs: env.EMBEDDING_TIMEOUT_MS ? parseInt(env.EMBEDDING_TIMEOUT_MS, 10) : undefined,
+    vectorFile: env.EMBEDDING_VECTOR_FILE
+  });
+}
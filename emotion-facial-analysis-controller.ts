@@ -6,6 +6,11 @@
 import { Request, Response } from 'express';
 import multer from 'multer';
 import { EmotionFacialAnalysisEngine } from '../services/emotion-facial-analysis-engine';
+import { AnalysisJobQueue } from '../services/analysis-job-queue';
+import { EmotionFacialAnalysisJobProcessor, encodeMedia } from '../services/analysis-job-processors';
+import { analysisJobQueue } from '../services/analysis-jobs';
+import { getJobUser, getStatusCodeForJobError } from './analysis-job-controller';
+import { AuthenticatedRequest } from '../middleware/security-middleware';
 import { logger } from '../utils/logger';
 import {
   EmotionFacialAnalysisRequest,
@@ -22,6 +27,9 @@ import {
   EmotionFacialAnalysisError,
   EmotionFacialAnalysisErrorCode
 } from '../types/emotion-facial-analysis';
+import { AnalysisJobType, AnalysisJobError, AnalysisJobErrorCode, EmotionFacialAnalysisJobPayload } from '../types/analysis-job';
+
+const MAX_BATCH_FILES = 20;
 
 // Configure multer for video and audio file uploads
 const upload = multer({
@@ -59,8 +67,9 @@ const upload = multer({
 export class EmotionFacialAnalysisController {
   private emotionFacialEngine: EmotionFacialAnalysisEngine;
   public uploadMiddleware: any;
+  public batchUploadMiddleware: any;
 
-  constructor() {
+  constructor(private jobQueue: AnalysisJobQueue = analysisJobQueue) {
     // Initialize with default configuration
     const defaultConfig: EmotionFacialConfig = {
       enableAdvancedAnalysis: true,
@@ -94,6 +103,12 @@ export class EmotionFacialAnalysisController {
       { name: 'video', maxCount: 1 },
       { name: 'audio', maxCount: 1 }
     ]);
+    this.batchUploadMiddleware = upload.fields([
+      { name: 'video', maxCount: MAX_BATCH_FILES },
+      { name: 'audio', maxCount: MAX_BATCH_FILES }
+    ]);
+    this.jobQueue.registerProcessor(new EmotionFacialAnalysisJobProcessor(this.emotionFacialEngine));
+    this.jobQueue.start().catch(() => undefined); // Failures are logged by the queue
   }
 
   /**
@@ -466,6 +481,131 @@ export class EmotionFacialAnalysisController {
     }
   };
 
+  /**
+   * Queue a batch of recordings for analysis. The n-th video and n-th audio file form one item.
+   * Poll the returned job or pass a webhookUrl
+   */
+  public batchAnalyze = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const user = getJobUser(req, res);
+      if (!user) {
+        return;
+      }
+
+      const files = req.files as { [fieldname: string]: Express.Multer.File[] };
+      const videoFiles = files?.video || [];
+      const audioFiles = files?.audio || [];
+
+      if (videoFiles.length === 0 && audioFiles.length === 0) {
+        res.status(400).json({
+          success: false,
+          error: 'At least one video or audio file is required'
+        });
+        return;
+      }
+
+      if (videoFiles.length > 0 && audioFiles.length > 0 && videoFiles.length !== audioFiles.length) {
+        res.status(400).json({
+          success: false,
+          error: 'Video and audio files must be paired when both are uploaded'
+        });
+        return;
+      }
+
+      const { context, options, webhookUrl, metadata } = req.body;
+
+      const parsedContext = this.parseJsonField('context', context);
+      const parsedOptions = this.parseJsonField('options', options);
+      const parsedMetadata = this.parseJsonField('metadata', metadata);
+
+      const analysisContext = {
+        questionType: parsedContext?.questionType || 'behavioral',
+        interviewStage: parsedContext?.interviewStage || InterviewStage.BEHAVIORAL,
+        expectedDuration: parsedContext?.expectedDuration || 120,
+        ...parsedContext
+      };
+
+      const hasVideo = videoFiles.length > 0;
+      const analysisOptions = {
+        enableVoiceEmotionDetection: true,
+        enableFacialExpressionAnalysis: hasVideo,
+        enableMicroExpressionDetection: hasVideo,
+        enableGazeTracking: hasVideo,
+        enablePostureAnalysis: hasVideo,
+        enableConfidenceAssessment: true,
+        enableEmotionCorrelation: hasVideo && audioFiles.length > 0,
+        confidenceThreshold: 0.7,
+        faceApiModel: FaceApiModel.MEDIUM,
+        emotionSensitivity: EmotionSensitivity.MEDIUM,
+        ...parsedOptions
+      };
+
+      const payloads: EmotionFacialAnalysisJobPayload[] = [];
+      for (let i = 0; i < Math.max(videoFiles.length, audioFiles.length); i++) {
+        payloads.push({
+          video: videoFiles[i] ? encodeMedia(await this.processVideoFile(videoFiles[i])) : undefined,
+          audio: audioFiles[i] ? encodeMedia(await this.processAudioFile(audioFiles[i])) : undefined,
+          context: analysisContext,
+          options: analysisOptions
+        });
+      }
+
+      const job = await this.jobQueue.submit({
+        type: AnalysisJobType.EMOTION_FACIAL,
+        payloads,
+        webhookUrl,
+        metadata: parsedMetadata,
+        ownerId: user.id
+      });
+
+      res.status(202).json({
+        success: true,
+        job
+      });
+
+    } catch (error: any) {
+      logger.error('Batch emotion and facial analysis failed', { error });
+
+      if (error instanceof AnalysisJobError) {
+        res.status(getStatusCodeForJobError(error.code)).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+          details: error.details
+        });
+      } else if (error instanceof EmotionFacialAnalysisError) {
+        res.status(this.getStatusCodeForError(error.code)).json({
+          success: false,
+          error: error.message,
+          code: error.code
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Internal server error'
+        });
+      }
+    }
+  };
+
+  /**
+   * Parse a JSON encoded multipart form field, rejecting malformed input
+   */
+  private parseJsonField(field: string, value: any): any {
+    if (typeof value !== 'string') {
+      return value;
+    }
+    try {
+      return JSON.parse(value);
+    } catch (error) {
+      throw new AnalysisJobError({
+        code: AnalysisJobErrorCode.INVALID_INPUT,
+        message: `${field} must be valid JSON`,
+        details: { field }
+      });
+    }
+  }
+
   /**
    * Process uploaded video file and extract metadata
    */
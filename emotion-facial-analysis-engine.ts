@@ -45,11 +45,20 @@ import {
   EmotionConsistency,
   MultiModalPattern,
   MultiModalPatternType,
-  AnalysisModality
+  AnalysisModality,
+  AudioData,
+  VoiceCharacteristics,
+  StressPattern,
+  StressType
 } from '../types/emotion-facial-analysis';
+import { AudioFeatureExtractor } from './audio-feature-extractor';
+import { AudioFeatures } from '../types/audio-features';
+
+const INTONATION_CONTOUR_POINTS = 50;
 
 export class EmotionFacialAnalysisEngine {
   private config: EmotionFacialConfig;
+  private audioFeatureExtractor = new AudioFeatureExtractor();
 
   constructor(config: EmotionFacialConfig) {
     this.config = config;
@@ -158,7 +167,7 @@ export class EmotionFacialAnalysisEngine {
         variance: this.calculateVariance(intensities)
       };
 
-      // Simulate voice characteristics analysis
+      // Measure pitch and prosody from the samples
       const voiceCharacteristics = this.analyzeVoiceCharacteristics(request.audioData);
       
       // Generate temporal patterns
@@ -674,7 +683,7 @@ export class EmotionFacialAnalysisEngine {
       emotionalStability: 0,
       emotionalIntensity: 0,
       emotionalRange: { min: 0, max: 0, average: 0, variance: 0 },
-      voiceCharacteristics: {} as any,
+      voiceCharacteristics: this.createEmptyVoiceCharacteristics(),
       temporalPatterns: [],
       recommendations: ['Voice emotion analysis not enabled']
     };
@@ -749,7 +758,87 @@ export class EmotionFacialAnalysisEngine {
   }
 
   // Placeholder methods for detailed analysis (would be implemented with actual ML models)
-  private analyzeVoiceCharacteristics(audioData: any): any { return {}; }
+  private analyzeVoiceCharacteristics(audioData: AudioData): VoiceCharacteristics {
+    let features: AudioFeatures;
+    try {
+      features = this.audioFeatureExtractor.extractFromAudio(audioData);
+    } catch (error: any) {
+      logger.warn('Audio could not be decoded for voice characteristics', {
+        encoding: audioData.format.encoding,
+        reason: error.message
+      });
+      return this.createEmptyVoiceCharacteristics();
+    }
+
+    const { pitch } = features;
+    const durations = features.speechSegments.map(segment => segment.duration);
+    const meanDuration = durations.length > 0 ? durations.reduce((sum, d) => sum + d, 0) / durations.length : 0;
+
+    return {
+      fundamentalFrequency: {
+        meanF0: pitch.mean,
+        f0Range: pitch.range,
+        f0Variance: pitch.variance,
+        jitter: pitch.jitter,
+        shimmer: pitch.shimmer
+      },
+      spectralFeatures: this.createEmptyVoiceCharacteristics().spectralFeatures, // Not measured yet
+      prosodyFeatures: {
+        rhythmVariability: meanDuration > 0 ? Math.sqrt(this.calculateVariance(durations)) / meanDuration : 0,
+        stressPatterns: this.findStressPatterns(features),
+        intonationContour: this.sampleContour(features.pitchContour, INTONATION_CONTOUR_POINTS)
+      },
+      qualityFeatures: this.createEmptyVoiceCharacteristics().qualityFeatures // Not measured yet
+    };
+  }
+
+  // Phrase-level stress: the loudest point of each speech segment, ranked against the others
+  private findStressPatterns(features: AudioFeatures): StressPattern[] {
+    const peaks = features.speechSegments.map(segment => {
+      const first = Math.floor(segment.start / features.hopLength);
+      const last = Math.min(features.energyEnvelope.length, Math.ceil(segment.end / features.hopLength));
+      let peakFrame = first;
+      for (let frame = first; frame < last; frame++) {
+        if (features.energyEnvelope[frame] > features.energyEnvelope[peakFrame]) {
+          peakFrame = frame;
+        }
+      }
+      return { position: peakFrame * features.hopLength, intensity: features.energyEnvelope[peakFrame] ?? 0 };
+    });
+
+    const sorted = peaks.map(peak => peak.intensity).sort((a, b) => a - b);
+    const median = sorted[Math.floor(sorted.length / 2)];
+    const upperQuartile = sorted[Math.floor(sorted.length * 0.75)];
+
+    return peaks.map(peak => ({
+      ...peak,
+      type: peak.intensity >= upperQuartile ? StressType.PRIMARY
+        : peak.intensity >= median ? StressType.SECONDARY
+        : StressType.UNSTRESSED
+    }));
+  }
+
+  // Average the voiced pitch values into at most `points` buckets
+  private sampleContour(contour: Array<number | null>, points: number): number[] {
+    const voiced = contour.filter((f0): f0 is number => f0 !== null);
+    const bucketSize = Math.max(1, Math.ceil(voiced.length / points));
+    const sampled: number[] = [];
+    for (let i = 0; i < voiced.length; i += bucketSize) {
+      const bucket = voiced.slice(i, i + bucketSize);
+      sampled.push(bucket.reduce((sum, f0) => sum + f0, 0) / bucket.length);
+    }
+    return sampled;
+  }
+
+  private createEmptyVoiceCharacteristics(): VoiceCharacteristics {
+    return {
+      fundamentalFrequency: { meanF0: 0, f0Range: 0, f0Variance: 0, jitter: 0, shimmer: 0 },
+      spectralFeatures: { spectralCentroid: 0, spectralRolloff: 0, spectralFlux: 0, mfccCoefficients: [] },
+      prosodyFeatures: { rhythmVariability: 0, stressPatterns: [], intonationContour: [] },
+      qualityFeatures: { breathiness: 0, roughness: 0, strain: 0, nasality: 0, creakiness: 0 }
+    };
+  }
+
   private identifyEmotionTemporalPatterns(emotions: any[]): any[] { return []; }
   private analyzeFacialMovements(landmarks: any[]): any[] { return []; }
   private analyzeEyeContact(landmarks: any[]): EyeContactAnalysis { 
@@ -31,6 +31,12 @@ router.post('/analyze/confidence',
   emotionFacialController.analyzeConfidence
 );
 
+// Batch analysis
+router.post('/analyze/batch',
+  emotionFacialController.batchUploadMiddleware,
+  emotionFacialController.batchAnalyze
+);
+
 // Configuration and options
 router.get('/options', emotionFacialController.getAnalysisOptions);
 
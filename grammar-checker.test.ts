@@ -0,0 +1,143 @@
+/**
+ * Grammar Checker Tests
+ * Rule-based grammar and style findings, their positions and suggested fixes
+ */
+
+import { GrammarChecker } from '../services/grammar-checker';
+import { TextAnalysisEngine } from '../services/text-analysis-engine';
+import {
+  GrammarRuleConfig,
+  GrammarStrictness,
+  GrammarRule,
+  GrammarErrorType,
+  ErrorSeverity,
+  TextAnalysisConfig,
+  QuestionType,
+  ResponseStructure
+} from '../types/text-analysis';
+
+const rules = (strictness: GrammarStrictness): GrammarRuleConfig => ({
+  enableSpellCheck: true,
+  enableGrammarCheck: true,
+  enableStyleCheck: true,
+  strictness
+});
+
+describe('GrammarChecker', () => {
+  const checker = new GrammarChecker(rules(GrammarStrictness.MODERATE));
+
+  describe('grammar rules', () => {
+    it('should flag subject-verb agreement with an exact position and fix', () => {
+      const text = 'I led the migration.\nThen he have to review it.';
+
+      const [error] = checker.detectGrammarErrors(text);
+
+      expect(error.rule).toBe(GrammarRule.SUBJECT_VERB_AGREEMENT);
+      expect(error.severity).toBe(ErrorSeverity.HIGH);
+      expect(text.slice(error.position.start, error.position.end)).toBe('he have');
+      expect(error.position).toEqual({ start: 26, end: 33, line: 2, column: 6 });
+      expect(error.replacement).toBe('he has');
+    });
+
+    it('should not flag questions or infinitives', () => {
+      expect(checker.detectGrammarErrors('What did he do after the outage? I asked him to help.')).toEqual([]);
+    });
+
+    it('should choose the article by sound, including acronyms', () => {
+      const errors = checker.detectGrammarErrors('We exposed a API and wrote an unit test for an SQL query.');
+
+      expect(errors.map(error => error.replacement)).toEqual(['an API', 'a unit']);
+      expect(errors.every(error => error.rule === GrammarRule.ARTICLE_AGREEMENT)).toBe(true);
+    });
+
+    it('should flag comma splices and long run-on sentences', () => {
+      const splice = checker.detectGrammarErrors('I fixed the bug, it was in the cache layer.');
+      expect(splice[0].rule).toBe(GrammarRule.COMMA_SPLICE);
+      expect(splice[0].type).toBe(GrammarErrorType.PUNCTUATION);
+
+      const runOn = 'We started the project late and the team was small so we had to cut scope and then we ' +
+        'moved the deadline twice and the client was unhappy but we still shipped the core features on time ' +
+        'and we learned a lot about planning and estimation along the way.';
+      const errors = checker.detectGrammarErrors(runOn);
+      expect(errors.some(error => error.rule === GrammarRule.RUN_ON_SENTENCE)).toBe(true);
+    });
+  });
+
+  describe('style rules', () => {
+    // Two passive sentences out of five
+    const passive = 'The service was redesigned by the team. The tests were written later. ' +
+      'We fixed the pipeline. We shipped the release. We wrote the runbook.';
+
+    it('should flag passive voice overuse according to strictness', () => {
+      const strict = new GrammarChecker(rules(GrammarStrictness.STRICT)).detectStyleIssues(passive);
+      const lenient = new GrammarChecker(rules(GrammarStrictness.LENIENT)).detectStyleIssues(passive);
+
+      expect(strict.filter(error => error.rule === GrammarRule.PASSIVE_VOICE)).toHaveLength(2);
+      expect(lenient.filter(error => error.rule === GrammarRule.PASSIVE_VOICE)).toHaveLength(0);
+    });
+
+    it('should flag dense hedging', () => {
+      const errors = checker.detectStyleIssues('I think I maybe improved the latency, sort of, by adding a cache.');
+
+      expect(errors.filter(error => error.rule === GrammarRule.HEDGING).length).toBeGreaterThanOrEqual(2);
+    });
+
+    it('should flag repeated words and openers', () => {
+      const errors = checker.detectStyleIssues(
+        'We improved the database. We tuned the database indexes. We moved the database to a bigger instance.'
+      );
+
+      expect(errors.filter(error => error.rule === GrammarRule.REPETITION).length).toBeGreaterThan(0);
+      expect(new GrammarChecker(rules(GrammarStrictness.LENIENT)).detectStyleIssues(
+        'We improved the database. We tuned the database indexes. We moved the database to a bigger instance.'
+      ).filter(error => error.rule === GrammarRule.REPETITION)).toHaveLength(0);
+    });
+  });
+
+  it('should turn each finding into a prioritized suggestion', () => {
+    const text = 'They was happy with teh result.';
+    const errors = checker.check(text);
+    const suggestions = checker.suggest(text, errors);
+
+    expect(suggestions).toHaveLength(2);
+    expect(suggestions[0]).toEqual(expect.objectContaining({
+      type: GrammarRule.SUBJECT_VERB_AGREEMENT,
+      example: '"They was" → "They were"',
+      priority: 3
+    }));
+    expect(suggestions[1].example).toBe('"teh" → "the"');
+  });
+
+  it('should feed grammar analysis in the text engine', async () => {
+    const config: TextAnalysisConfig = {
+      enableAdvancedAnalysis: true,
+      industryKeywords: {},
+      roleKeywords: {},
+      starMethodWeights: { situation: 0.2, task: 0.2, action: 0.4, result: 0.2 },
+      qualityThresholds: { excellent: 0.85, good: 0.70, fair: 0.55, poor: 0.40 },
+      grammarRules: rules(GrammarStrictness.MODERATE)
+    };
+    const engine = new TextAnalysisEngine(config);
+    const analyze = (text: string) => engine.analyzeText({
+      text,
+      context: { questionType: QuestionType.BEHAVIORAL, expectedStructure: ResponseStructure.STAR },
+      options: {
+        enableContentQuality: true,
+        enableStructureAnalysis: true,
+        enableKeywordRelevance: false,
+        enableSTARMethod: false,
+        enableGrammarCheck: true,
+        enableSentimentAnalysis: false,
+        confidenceThreshold: 0.7
+      }
+    });
+
+    const clean = await analyze('I led the migration to the new database. As a result, our queries became twice as fast.');
+    const sloppy = await analyze('He have led the migration to a new database. Teh queries was twice as fast as as before.');
+
+    expect(clean.grammarAnalysis.errors).toEqual([]);
+    expect(sloppy.grammarAnalysis.errors.length).toBeGreaterThanOrEqual(3);
+    expect(sloppy.grammarAnalysis.suggestions).toHaveLength(sloppy.grammarAnalysis.errors.length);
+    expect(sloppy.grammarAnalysis.score).toBeLessThan(clean.grammarAnalysis.score);
+  });
+});
@@ -0,0 +1,501 @@
+/**
+ * Grammar Checker
+ * Offline, rule-based grammar and style checks for English interview responses
+ */
+
+import {
+  GrammarError,
+  GrammarErrorType,
+  GrammarRule,
+  GrammarRuleConfig,
+  GrammarStrictness,
+  GrammarSuggestion,
+  ErrorSeverity,
+  TextPosition
+} from '../types/text-analysis';
+
+interface StrictnessProfile {
+  commaSplices: boolean;
+  runOnWords: number; // Sentences longer than this that chain clauses are run-ons
+  passiveRatio: number; // Share of passive sentences above which each one is flagged
+  hedgesPerHundredWords: number; // Hedge density above which each hedge is flagged
+  repetitionWindow: number; // Words; 0 disables the repetition check
+  repetitionCount: number; // Uses of one word within the window that count as repetitive
+}
+
+const STRICTNESS_PROFILES: Record<GrammarStrictness, StrictnessProfile> = {
+  [GrammarStrictness.LENIENT]: {
+    commaSplices: false,
+    runOnWords: 60,
+    passiveRatio: 0.5,
+    hedgesPerHundredWords: 4,
+    repetitionWindow: 0,
+    repetitionCount: 0
+  },
+  [GrammarStrictness.MODERATE]: {
+    commaSplices: true,
+    runOnWords: 40,
+    passiveRatio: 0.3,
+    hedgesPerHundredWords: 2,
+    repetitionWindow: 25,
+    repetitionCount: 3
+  },
+  [GrammarStrictness.STRICT]: {
+    commaSplices: true,
+    runOnWords: 30,
+    passiveRatio: 0.15,
+    hedgesPerHundredWords: 0,
+    repetitionWindow: 40,
+    repetitionCount: 3
+  }
+};
+
+const SEVERITY_PRIORITY: Record<ErrorSeverity, number> = {
+  [ErrorSeverity.CRITICAL]: 4,
+  [ErrorSeverity.HIGH]: 3,
+  [ErrorSeverity.MEDIUM]: 2,
+  [ErrorSeverity.LOW]: 1
+};
+
+// Words that make a following "subject verb" pair a question or an infinitive
+// clause ("did he do", "let it be"), where the bare verb is correct
+const NON_FINITE_CONTEXT = [
+  'did', 'does', 'do', 'will', 'would', 'can', 'could', 'should', 'shall', 'might', 'must', 'may',
+  'let', 'make', 'made', 'help', 'helped', 'see', 'saw', 'watch', 'watched', 'if', 'wish', 'had'
+];
+
+const AGREEMENT_RULES: Array<{ pattern: RegExp; fixes: Record<string, string> }> = [
+  {
+    pattern: /\b(he|she|it)\s+(have|do|are|were|don't)\b/gi,
+    fixes: { have: 'has', do: 'does', are: 'is', were: 'was', "don't": "doesn't" }
+  },
+  {
+    pattern: /\b(we|they|you)\s+(is|was|has|does|doesn't)\b/gi,
+    fixes: { is: 'are', was: 'were', has: 'have', does: 'do', "doesn't": "don't" }
+  },
+  {
+    pattern: /\b(I)\s+(is|are|has|does|doesn't)\b/g,
+    fixes: { is: 'am', are: 'am', has: 'have', does: 'do', "doesn't": "don't" }
+  },
+  {
+    pattern: /\b(there)\s+(is|was)(?=\s+(?:many|several|multiple|two|three|four|five|\d+)\b)/gi,
+    fixes: { is: 'are', was: 'were' }
+  }
+];
+
+const CONFUSED_WORDS: Array<{ pattern: RegExp; replace: (match: string) => string; message: string }> = [
+  {
+    pattern: /\b(could|would|should|must|might)\s+of\b/gi,
+    replace: match => match.replace(/of$/i, 'have'),
+    message: '"of" used in place of "have"'
+  },
+  {
+    pattern: /\b(more|less|better|worse|faster|slower|greater|higher|lower|rather|other)\s+then\b/gi,
+    replace: match => match.replace(/then$/i, 'than'),
+    message: '"then" used in place of "than" in a comparison'
+  }
+];
+
+const MISSPELLINGS: Record<string, string> = {
+  accomodate: 'accommodate',
+  acheive: 'achieve',
+  acheived: 'achieved',
+  alot: 'a lot',
+  begining: 'beginning',
+  definately: 'definitely',
+  enviroment: 'environment',
+  existance: 'existence',
+  independant: 'independent',
+  managment: 'management',
+  occured: 'occurred',
+  perfomance: 'performance',
+  recieve: 'receive',
+  recieved: 'received',
+  responsability: 'responsibility',
+  seperate: 'separate',
+  sucessful: 'successful',
+  teh: 'the',
+  untill: 'until',
+  wich: 'which'
+};
+
+// Repeats that are grammatical ("that that", "had had")
+const ALLOWED_REPEATS = ['that', 'had'];
+
+const PASSIVE_VOICE = /\b(am|is|are|was|were|be|been|being)\s+(?:\w+ly\s+)?(\w+ed|built|chosen|done|driven|found|given|held|known|led|made|paid|run|seen|sent|set|shown|spent|taken|taught|told|written)\b/gi;
+
+// Participles that read as adjectives after "to be" ("I was interested")
+const ADJECTIVAL_PARTICIPLES = [
+  'based', 'bored', 'concerned', 'engaged', 'excited', 'interested', 'involved', 'located', 'married',
+  'pleased', 'prepared', 'scared', 'supposed', 'surprised', 'tired', 'used', 'focused', 'motivated'
+];
+
+const HEDGES = [
+  'i think', 'i guess', 'i believe', 'i feel like', "i'm not sure", 'i suppose', 'maybe', 'perhaps',
+  'probably', 'possibly', 'kind of', 'sort of', 'somewhat', 'more or less', 'to some extent'
+];
+
+const SUBJECT_PRONOUNS = ['i', 'we', 'he', 'she', 'they', 'it', 'you'];
+const COORDINATORS = /\b(and|but|so|then|or)\b/gi;
+
+const STOPWORDS = new Set([
+  'that', 'this', 'with', 'from', 'have', 'were', 'they', 'their', 'there', 'then', 'than', 'when',
+  'what', 'which', 'would', 'could', 'should', 'about', 'into', 'also', 'because', 'been', 'some',
+  'more', 'most', 'very', 'just', 'only', 'each', 'other', 'them', 'these', 'those', 'will', 'your'
+]);
+
+interface SentenceSpan {
+  text: string;
+  start: number;
+}
+
+export class GrammarChecker {
+  private rules: GrammarRuleConfig;
+  private profile: StrictnessProfile;
+
+  constructor(rules: GrammarRuleConfig) {
+    this.rules = rules;
+    this.profile = STRICTNESS_PROFILES[rules.strictness];
+  }
+
+  /**
+   * Run every enabled rule family and return findings in text order
+   */
+  public check(text: string): GrammarError[] {
+    const errors: GrammarError[] = [];
+
+    if (this.rules.enableSpellCheck) {
+      errors.push(...this.detectSpellingErrors(text));
+    }
+    if (this.rules.enableGrammarCheck) {
+      errors.push(...this.detectGrammarErrors(text));
+    }
+    if (this.rules.enableStyleCheck) {
+      errors.push(...this.detectStyleIssues(text));
+    }
+
+    return errors.sort((a, b) => a.position.start - b.position.start);
+  }
+
+  public detectSpellingErrors(text: string): GrammarError[] {
+    const errors: GrammarError[] = [];
+
+    for (const match of this.matchesOf(text, /\b[A-Za-z]+\b/g)) {
+      const correction = MISSPELLINGS[match[0].toLowerCase()];
+      if (correction) {
+        errors.push(this.finding(text, match.index!, match[0].length, {
+          type: GrammarErrorType.SPELLING,
+          rule: GrammarRule.MISSPELLING,
+          severity: ErrorSeverity.MEDIUM,
+          message: `"${match[0]}" is misspelled`,
+          suggestion: `Use "${correction}"`,
+          replacement: this.matchCase(match[0], correction)
+        }));
+      }
+    }
+
+    for (const match of this.matchesOf(text, /\b([A-Za-z]+)\s+\1\b/gi)) {
+      if (ALLOWED_REPEATS.includes(match[1].toLowerCase())) continue;
+      errors.push(this.finding(text, match.index!, match[0].length, {
+        type: GrammarErrorType.SPELLING,
+        rule: GrammarRule.REPEATED_WORD,
+        severity: ErrorSeverity.MEDIUM,
+        message: `"${match[1]}" is repeated`,
+        suggestion: 'Remove the duplicated word',
+        replacement: match[1]
+      }));
+    }
+
+    return errors;
+  }
+
+  /**
+   * Agreement errors, confused words and run-on sentences
+   */
+  public detectGrammarErrors(text: string): GrammarError[] {
+    const errors: GrammarError[] = [];
+
+    for (const { pattern, fixes } of AGREEMENT_RULES) {
+      for (const match of this.matchesOf(text, pattern)) {
+        const [phrase, subject, verb] = match;
+        if (NON_FINITE_CONTEXT.includes(this.previousWord(text, match.index!))) continue;
+
+        const corrected = this.matchCase(verb, fixes[verb.toLowerCase()]);
+        errors.push(this.finding(text, match.index!, phrase.length, {
+          type: GrammarErrorType.GRAMMAR,
+          rule: GrammarRule.SUBJECT_VERB_AGREEMENT,
+          severity: ErrorSeverity.HIGH,
+          message: `"${verb}" does not agree with "${subject}"`,
+          suggestion: `Use "${subject} ${corrected}"`,
+          replacement: `${subject} ${corrected}`
+        }));
+      }
+    }
+
+    for (const match of this.matchesOf(text, /\b(a|an)\s+([A-Za-z][\w-]*)/gi)) {
+      const [phrase, article, word] = match;
+      const expected = this.expectedArticle(word);
+      if (article.toLowerCase() === expected) continue;
+
+      const corrected = this.matchCase(article, expected);
+      errors.push(this.finding(text, match.index!, phrase.length, {
+        type: GrammarErrorType.GRAMMAR,
+        rule: GrammarRule.ARTICLE_AGREEMENT,
+        severity: ErrorSeverity.MEDIUM,
+        message: `Use "${expected}" before "${word}"`,
+        suggestion: `Write "${corrected} ${word}"`,
+        replacement: `${corrected} ${word}`
+      }));
+    }
+
+    for (const { pattern, replace, message } of CONFUSED_WORDS) {
+      for (const match of this.matchesOf(text, pattern)) {
+        const corrected = replace(match[0]);
+        errors.push(this.finding(text, match.index!, match[0].length, {
+          type: GrammarErrorType.WORD_CHOICE,
+          rule: GrammarRule.CONFUSED_WORDS,
+          severity: ErrorSeverity.MEDIUM,
+          message,
+          suggestion: `Write "${corrected}"`,
+          replacement: corrected
+        }));
+      }
+    }
+
+    for (const sentence of this.splitSentences(text)) {
+      errors.push(...this.detectRunOns(text, sentence));
+    }
+
+    return errors;
+  }
+
+  /**
+   * Passive-voice overuse, hedging and repetition. Thresholds follow the
+   * configured strictness.
+   */
+  public detectStyleIssues(text: string): GrammarError[] {
+    return [
+      ...this.detectPassiveOveruse(text),
+      ...this.detectHedging(text),
+      ...this.detectRepetition(text)
+    ];
+  }
+
+  /**
+   * One suggestion per finding, showing the fix on the original wording
+   */
+  public suggest(text: string, errors: GrammarError[]): GrammarSuggestion[] {
+    return errors.map(error => {
+      const original = text.slice(error.position.start, error.position.end);
+      return {
+        type: error.rule,
+        message: error.suggestion,
+        example: error.replacement !== undefined
+          ? `"${original}" → "${error.replacement}"`
+          : `"${original}"`,
+        priority: SEVERITY_PRIORITY[error.severity]
+      };
+    });
+  }
+
+  public countPassiveSentences(sentences: string[]): number {
+    return sentences.filter(sentence => this.findPassives(sentence).length > 0).length;
+  }
+
+  private detectRunOns(text: string, sentence: SentenceSpan): GrammarError[] {
+    const errors: GrammarError[] = [];
+    const words = sentence.text.split(/\s+/).filter(word => word.length > 0);
+    const firstWord = words[0]?.toLowerCase();
+
+    // Comma splice: two independent clauses, each opening with a subject pronoun
+    if (this.profile.commaSplices && SUBJECT_PRONOUNS.includes(firstWord)) {
+      for (const match of this.matchesOf(sentence.text, /,\s+(I|we|he|she|they|it|you)\s+(?!and\b|or\b)/gi)) {
+        const pronoun = match[1];
+        errors.push(this.finding(text, sentence.start + match.index!, match[0].trimEnd().length, {
+          type: GrammarErrorType.PUNCTUATION,
+          rule: GrammarRule.COMMA_SPLICE,
+          severity: ErrorSeverity.MEDIUM,
+          message: 'Two complete sentences are joined by a comma',
+          suggestion: 'Use a full stop or semicolon, or join the clauses with a conjunction',
+          replacement: `. ${pronoun === 'I' ? 'I' : pronoun.charAt(0).toUpperCase() + pronoun.slice(1)}`
+        }));
+      }
+    }
+
+    const coordinators = this.matchesOf(sentence.text, COORDINATORS);
+    if (words.length > this.profile.runOnWords && coordinators.length >= 2) {
+      // Suggest splitting at the conjunction closest to the middle
+      const middle = sentence.text.length / 2;
+      const split = coordinators.reduce((best, match) =>
+        Math.abs(match.index! - middle) < Math.abs(best.index! - middle) ? match : best);
+      const before = sentence.text.slice(0, split.index!).trimEnd().replace(/,$/, '');
+      const after = sentence.text.slice(split.index! + split[0].length).trimStart();
+
+      errors.push(this.finding(text, sentence.start, sentence.text.length, {
+        type: GrammarErrorType.GRAMMAR,
+        rule: GrammarRule.RUN_ON_SENTENCE,
+        severity: ErrorSeverity.MEDIUM,
+        message: `Run-on sentence: ${words.length} words chained with ${coordinators.length} conjunctions`,
+        suggestion: `Split the sentence before "${split[0]} ${after.split(/\s+/)[0]}"`,
+        replacement: `${before}. ${after.charAt(0).toUpperCase()}${after.slice(1)}`
+      }));
+    }
+
+    return errors;
+  }
+
+  private detectPassiveOveruse(text: string): GrammarError[] {
+    const sentences = this.splitSentences(text);
+    const passives = sentences.map(sentence => ({ sentence, matches: this.findPassives(sentence.text) }));
+    const passiveCount = passives.filter(entry => entry.matches.length > 0).length;
+
+    if (passiveCount < 2 || passiveCount / Math.max(sentences.length, 1) <= this.profile.passiveRatio) {
+      return [];
+    }
+
+    return passives.flatMap(({ sentence, matches }) => matches.map(match =>
+      this.finding(text, sentence.start + match.index!, match[0].length, {
+        type: GrammarErrorType.STYLE,
+        rule: GrammarRule.PASSIVE_VOICE,
+        severity: ErrorSeverity.LOW,
+        message: `Passive voice ("${match[0]}") in ${passiveCount} of ${sentences.length} sentences hides who acted`,
+        suggestion: 'Name who did it, e.g. "I" or "we", and use the active voice',
+        replacement: `I ${match[2]}`
+      })
+    ));
+  }
+
+  private detectHedging(text: string): GrammarError[] {
+    const wordCount = (text.match(/\b[\w']+\b/g) || []).length;
+    const matches = HEDGES.flatMap(hedge =>
+      this.matchesOf(text, new RegExp(`\\b${hedge.replace(/'/g, "['’]")}\\b,?\\s*`, 'gi')));
+
+    const density = (matches.length / Math.max(wordCount, 1)) * 100;
+    if (matches.length === 0 || density <= this.profile.hedgesPerHundredWords) {
+      return [];
+    }
+
+    return matches.map(match => this.finding(text, match.index!, match[0].trimEnd().length, {
+      type: GrammarErrorType.WORD_CHOICE,
+      rule: GrammarRule.HEDGING,
+      severity: ErrorSeverity.LOW,
+      message: `Hedging ("${match[0].replace(/,?\s*$/, '')}") weakens the statement`,
+      suggestion: 'State it directly',
+      replacement: ''
+    }));
+  }
+
+  private detectRepetition(text: string): GrammarError[] {
+    const { repetitionWindow, repetitionCount } = this.profile;
+    if (repetitionWindow === 0) {
+      return [];
+    }
+
+    const errors: GrammarError[] = [];
+    const tokens = this.matchesOf(text, /\b[A-Za-z][\w'-]*\b/g);
+    const recent = new Map<string, number[]>(); // word -> token indexes
+
+    tokens.forEach((token, index) => {
+      const word = token[0].toLowerCase();
+      if (word.length < 4 || STOPWORDS.has(word)) return;
+
+      const uses = (recent.get(word) || []).filter(previous => index - previous < repetitionWindow);
+      uses.push(index);
+
+      if (uses.length >= repetitionCount) {
+        errors.push(this.finding(text, token.index!, token[0].length, {
+          type: GrammarErrorType.STYLE,
+          rule: GrammarRule.REPETITION,
+          severity: ErrorSeverity.LOW,
+          message: `"${token[0]}" is used ${uses.length} times within ${repetitionWindow} words`,
+          suggestion: 'Vary the wording or refer back with a pronoun'
+        }));
+        recent.set(word, []);
+      } else {
+        recent.set(word, uses);
+      }
+    });
+
+    // Three sentences in a row opening with the same word; longer streaks are reported once
+    const sentences = this.splitSentences(text);
+    const openers = sentences.map(sentence => sentence.text.split(/\s+/)[0]);
+    for (let i = 2; i < sentences.length; i++) {
+      const opener = openers[i].toLowerCase();
+      const streak = openers.slice(i - 2, i + 1).every(word => word.toLowerCase() === opener);
+      if (streak && (i === 2 || openers[i - 3].toLowerCase() !== opener)) {
+        errors.push(this.finding(text, sentences[i].start, openers[i].length, {
+          type: GrammarErrorType.STYLE,
+          rule: GrammarRule.REPETITION,
+          severity: ErrorSeverity.LOW,
+          message: `Three sentences in a row start with "${openers[i]}"`,
+          suggestion: 'Vary how sentences open, e.g. lead with the context or the result'
+        }));
+      }
+    }
+
+    return errors;
+  }
+
+  private findPassives(sentence: string): RegExpExecArray[] {
+    return this.matchesOf(sentence, PASSIVE_VOICE)
+      .filter(match => !ADJECTIVAL_PARTICIPLES.includes(match[2].toLowerCase()));
+  }
+
+  private expectedArticle(word: string): 'a' | 'an' {
+    // Acronyms are read letter by letter: "an API", "an SLA", "a URL"
+    if (/^[A-Z]{2,}s?$/.test(word)) {
+      return 'AEFHILMNORSX'.includes(word[0]) ? 'an' : 'a';
+    }
+
+    const lower = word.toLowerCase();
+    if (/^(hour|honest|honor|honour|heir)/.test(lower)) return 'an';
+    if (/^(uni|use|usu|uti|ure|uro|eu|one|once|ubiq)/.test(lower)) return 'a';
+    return /^[aeiou]/.test(lower) ? 'an' : 'a';
+  }
+
+  private splitSentences(text: string): SentenceSpan[] {
+    return this.matchesOf(text, /[^.!?]+[.!?]*/g)
+      .map(match => {
+        const leading = match[0].length - match[0].trimStart().length;
+        return { text: match[0].trim(), start: match.index! + leading };
+      })
+      .filter(sentence => sentence.text.length > 0);
+  }
+
+  // Every match of a global pattern, with capture groups and index
+  private matchesOf(text: string, pattern: RegExp): RegExpExecArray[] {
+    const matches: RegExpExecArray[] = [];
+    const regex = new RegExp(pattern.source, pattern.flags);
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(text)) !== null) {
+      matches.push(match);
+      if (match[0].length === 0) regex.lastIndex++;
+    }
+    return matches;
+  }
+
+  private previousWord(text: string, index: number): string {
+    const match = text.slice(0, index).match(/([\w']+)\W*$/);
+    return match ? match[1].toLowerCase() : '';
+  }
+
+  private matchCase(original: string, replacement: string): string {
+    return /^[A-Z]/.test(original) ? replacement.charAt(0).toUpperCase() + replacement.slice(1) : replacement;
+  }
+
+  private finding(
+    text: string,
+    start: number,
+    length: number,
+    details: Omit<GrammarError, 'position'>
+  ): GrammarError {
+    return { ...details, position: this.toPosition(text, start, start + length) };
+  }
+
+  private toPosition(text: string, start: number, end: number): TextPosition {
+    const before = text.slice(0, start);
+    const line = before.split('\n').length;
+    const column = start - (before.lastIndexOf('\n') + 1) + 1;
+    return { start, end, line, column };
+  }
+}
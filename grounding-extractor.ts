@@ -0,0 +1,280 @@
+import {
+  GroundingExtractor,
+  InterviewGrounding,
+  ResumeProfile,
+  ResumeProject,
+  JobDescriptionProfile,
+  JobRequirement,
+  SkillMatch,
+  DocumentFormat,
+} from '../types/interview-grounding';
+import { logger } from '../utils/logger';
+
+// Canonical skill name -> lowercase aliases that may appear in documents
+export const SKILL_VOCABULARY: Record<string, string[]> = {
+  'JavaScript': ['javascript', 'js', 'es6'],
+  'TypeScript': ['typescript'],
+  'Python': ['python'],
+  'Java': ['java'],
+  'Go': ['golang'],
+  'Rust': ['rust'],
+  'C#': ['c#', '.net', 'dotnet'],
+  'C++': ['c++', 'cpp'],
+  'Ruby': ['ruby', 'rails', 'ruby on rails'],
+  'Kotlin': ['kotlin'],
+  'Swift': ['swift'],
+  'SQL': ['sql'],
+  'React': ['react', 'react.js', 'reactjs'],
+  'Angular': ['angular'],
+  'Vue': ['vue', 'vue.js', 'vuejs'],
+  'Node.js': ['node.js', 'nodejs'],
+  'Express': ['express.js', 'expressjs'],
+  'Django': ['django'],
+  'Spring': ['spring boot', 'spring framework'],
+  'GraphQL': ['graphql'],
+  'REST APIs': ['restful', 'rest api', 'rest apis'],
+  'gRPC': ['grpc'],
+  'PostgreSQL': ['postgresql', 'postgres'],
+  'MySQL': ['mysql'],
+  'MongoDB': ['mongodb', 'mongo'],
+  'Redis': ['redis'],
+  'Elasticsearch': ['elasticsearch', 'elastic search'],
+  'DynamoDB': ['dynamodb'],
+  'Cassandra': ['cassandra'],
+  'Kafka': ['kafka'],
+  'RabbitMQ': ['rabbitmq'],
+  'Spark': ['spark', 'apache spark'],
+  'Airflow': ['airflow'],
+  'AWS': ['aws', 'amazon web services'],
+  'GCP': ['gcp', 'google cloud'],
+  'Azure': ['azure'],
+  'Docker': ['docker'],
+  'Kubernetes': ['kubernetes', 'k8s'],
+  'Terraform': ['terraform'],
+  'CI/CD': ['ci/cd', 'continuous integration', 'continuous delivery'],
+  'Microservices': ['microservices', 'microservice'],
+  'Distributed Systems': ['distributed systems', 'distributed system'],
+  'System Design': ['system design'],
+  'Machine Learning': ['machine learning', 'ml'],
+  'TensorFlow': ['tensorflow'],
+  'PyTorch': ['pytorch'],
+  'Data Analysis': ['data analysis', 'analytics'],
+  'Linux': ['linux'],
+  'Git': ['git'],
+  'Testing': ['unit testing', 'integration testing', 'tdd', 'test automation'],
+  'Observability': ['observability', 'monitoring', 'prometheus', 'grafana', 'datadog'],
+  'Security': ['application security', 'oauth', 'authentication'],
+  'Agile': ['agile', 'scrum', 'kanban'],
+  'Leadership': ['leadership', 'mentoring', 'mentored', 'led a team', 'team lead'],
+  'Communication': ['communication', 'stakeholder management', 'stakeholders'],
+  'Product Management': ['product management', 'roadmap', 'product strategy'],
+};
+
+const ACTION_VERBS = [
+  'led', 'built', 'designed', 'migrated', 'implemented', 'launched', 'developed', 'created',
+  'architected', 'scaled', 'reduced', 'improved', 'automated', 'delivered', 'owned', 'optimized',
+  'rewrote', 'introduced', 'shipped', 'managed',
+];
+
+const PREFERRED_MARKERS = /\b(preferred|nice to have|nice-to-have|bonus|a plus|is a plus|desirable|ideally)\b/i;
+const METRIC_PATTERN = /\d+\s*(%|percent|x\b|ms\b|k\b|m\b|users|customers|requests|engineers|people)|\$\s?\d/i;
+const MAX_PROJECTS = 5;
+const MAX_REQUIREMENTS = 15;
+const MAX_SUMMARY_LENGTH = 240;
+
+interface DocumentLine {
+  text: string;
+  isBullet: boolean;
+}
+
+interface DocumentSection {
+  heading: string;
+  lines: DocumentLine[];
+}
+
+/**
+ * Heuristic extractor for resumes and job descriptions. It recognises skills
+ * from SKILL_VOCABULARY, treats resume bullets that start with an action verb
+ * as projects and job description bullets as requirements, marking those
+ * under "preferred"/"nice to have" headings as optional.
+ */
+export class DefaultGroundingExtractor implements GroundingExtractor {
+  extractResume(content: string, format: DocumentFormat): ResumeProfile {
+    const sections = this.splitSections(this.normalize(content, format));
+    const lines = sections.flatMap(section => section.lines.map(line => line.text));
+
+    const projects = lines
+      .filter(line => this.startsWithActionVerb(line))
+      .map(line => this.toProject(line))
+      .sort((a, b) => this.projectWeight(b) - this.projectWeight(a))
+      .slice(0, MAX_PROJECTS);
+
+    const years = lines
+      .map(line => line.match(/(\d{1,2})\+?\s+years?/i))
+      .filter((match): match is RegExpMatchArray => match !== null)
+      .map(match => parseInt(match[1], 10));
+
+    const profile: ResumeProfile = {
+      skills: this.findSkills(lines.join('\n')),
+      projects,
+      yearsOfExperience: years.length > 0 ? Math.max(...years) : undefined,
+    };
+
+    logger.debug('Extracted resume profile', {
+      skills: profile.skills.length,
+      projects: profile.projects.length,
+    });
+
+    return profile;
+  }
+
+  extractJobDescription(content: string, format: DocumentFormat): JobDescriptionProfile {
+    const text = this.normalize(content, format);
+    const sections = this.splitSections(text);
+    const firstLine = text.split('\n').find(line => line.trim().length > 0)?.trim();
+
+    const requirements: JobRequirement[] = [];
+    for (const section of sections) {
+      const optionalSection = PREFERRED_MARKERS.test(section.heading);
+      for (const line of section.lines.filter(l => l.isBullet)) {
+        requirements.push({
+          text: line.text,
+          skills: this.findSkills(line.text),
+          required: !optionalSection && !PREFERRED_MARKERS.test(line.text),
+        });
+      }
+    }
+
+    // Without bullets, fall back to sentences that name a skill
+    if (requirements.length === 0) {
+      for (const sentence of text.split(/(?<=[.!?])\s+|\n/)) {
+        const skills = this.findSkills(sentence);
+        if (skills.length > 0) {
+          requirements.push({ text: sentence.trim(), skills, required: !PREFERRED_MARKERS.test(sentence) });
+        }
+      }
+    }
+
+    const profile: JobDescriptionProfile = {
+      title: firstLine && firstLine.length <= 80 && !firstLine.startsWith('-') ? firstLine : undefined,
+      requirements: requirements.slice(0, MAX_REQUIREMENTS),
+      skills: this.findSkills(text),
+    };
+
+    logger.debug('Extracted job description profile', {
+      requirements: profile.requirements.length,
+      skills: profile.skills.length,
+    });
+
+    return profile;
+  }
+
+  buildGrounding(resume?: ResumeProfile, jobDescription?: JobDescriptionProfile): InterviewGrounding {
+    const grounding: InterviewGrounding = { resume, jobDescription };
+
+    if (resume && jobDescription) {
+      grounding.skillMatch = this.matchSkills(resume, jobDescription);
+    }
+
+    return grounding;
+  }
+
+  private matchSkills(resume: ResumeProfile, jobDescription: JobDescriptionProfile): SkillMatch {
+    const resumeSkills = new Set(resume.skills);
+    const requiredSkills = new Set(
+      jobDescription.requirements.filter(r => r.required).flatMap(r => r.skills)
+    );
+
+    return {
+      matched: jobDescription.skills.filter(skill => resumeSkills.has(skill)),
+      missing: Array.from(requiredSkills).filter(skill => !resumeSkills.has(skill)),
+      additional: resume.skills.filter(skill => !jobDescription.skills.includes(skill)),
+    };
+  }
+
+  // Reduce every format to plain lines, keeping bullet markers
+  private normalize(content: string, format: DocumentFormat): string {
+    let text = content.replace(/\r\n?/g, '\n');
+
+    if (format === DocumentFormat.MARKDOWN) {
+      text = text
+        .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+        .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+        .replace(/(\*\*|__|`)/g, '')
+        .replace(/^#{1,6}\s*(.+)$/gm, '$1:');
+    }
+
+    if (format === DocumentFormat.PDF_TEXT) {
+      text = text
+        .replace(/-\n(?=[a-z])/g, '') // Words hyphenated across lines
+        .replace(/\f/g, '\n')
+        .replace(/[ \t]{2,}/g, ' ');
+    }
+
+    return text
+      .replace(/^\s*[•●▪◦‣]\s*/gm, '- ')
+      .replace(/^\s*\d+[.)]\s+/gm, '- ')
+      .replace(/^\s*[*+]\s+/gm, '- ');
+  }
+
+  private splitSections(text: string): DocumentSection[] {
+    const sections: DocumentSection[] = [{ heading: '', lines: [] }];
+
+    for (const raw of text.split('\n')) {
+      const line = raw.trim();
+      if (!line) continue;
+
+      if (this.isHeading(line)) {
+        sections.push({ heading: line.replace(/:$/, ''), lines: [] });
+        continue;
+      }
+
+      const isBullet = line.startsWith('- ');
+      sections[sections.length - 1].lines.push({
+        text: isBullet ? line.slice(2).trim() : line,
+        isBullet,
+      });
+    }
+
+    return sections;
+  }
+
+  private isHeading(line: string): boolean {
+    if (line.startsWith('- ') || line.length > 60) {
+      return false;
+    }
+    return /:$/.test(line) || (/^[A-Z][A-Z &/]+$/.test(line) && line.length > 3);
+  }
+
+  private startsWithActionVerb(line: string): boolean {
+    const firstWord = line.trim().split(/\s+/)[0]?.toLowerCase().replace(/[^a-z]/g, '');
+    return ACTION_VERBS.includes(firstWord);
+  }
+
+  private toProject(line: string): ResumeProject {
+    const summary = line.trim();
+    return {
+      summary: summary.length > MAX_SUMMARY_LENGTH ? `${summary.slice(0, MAX_SUMMARY_LENGTH - 3)}...` : summary,
+      technologies: this.findSkills(summary),
+      hasMetric: METRIC_PATTERN.test(summary),
+    };
+  }
+
+  // Concrete, measurable projects make the best interview anchors
+  private projectWeight(project: ResumeProject): number {
+    return project.technologies.length + (project.hasMetric ? 2 : 0);
+  }
+
+  private findSkills(text: string): string[] {
+    const haystack = ` ${text.toLowerCase().replace(/[^a-z0-9+#./\s-]/g, ' ').replace(/\s+/g, ' ')} `;
+
+    return Object.entries(SKILL_VOCABULARY)
+      .filter(([, aliases]) => aliases.some(alias => this.containsTerm(haystack, alias)))
+      .map(([skill]) => skill);
+  }
+
+  private containsTerm(haystack: string, term: string): boolean {
+    const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`[\\s(/,]${escaped}(?=[\\s),/.;:]|$)`).test(haystack);
+  }
+}
@@ -244,6 +244,32 @@ describe('Improvement Recommendations', () => {
       expect(routine.weeklyGoals).toBeInstanceOf(Array);
       expect(routine.progressTracking).toBeInstanceOf(Array);
     });
+
+    it('should generate pronunciation drills from an assessment', async () => {
+      const drills = await practiceDrillService.generatePronunciationDrills({
+        score: 0.55,
+        words: [
+          { word: 'We', score: 0.95, issues: [] },
+          { word: 'cooper', expected: 'kubernetes', score: 0.4, issues: ['substitution'] },
+          { word: 'migrated', score: 0.5, issues: ['rushed'] },
+          { word: 'quickly.', score: 0.45, issues: ['weak', 'low_intelligibility'] }
+        ],
+        mispronouncedTerms: [
+          { term: 'Kubernetes', heardAs: 'cooper netties', guide: 'koo-ber-NET-eez', tip: 'Four syllables with the stress on NET' }
+        ]
+      });
+
+      expect(drills.map(drill => drill.title)).toEqual([
+        'Technical Term Pronunciation',
+        'Clear Word Shadowing',
+        'Syllable Pacing',
+        'Voice Projection Through Word Endings'
+      ]);
+      expect(drills.every(drill => drill.targetWeakness === 'pronunciation' && drill.difficulty === 'medium')).toBe(true);
+      expect(drills[0].instructions[0]).toContain('Kubernetes (koo-ber-NET-eez)');
+      expect(drills[1].instructions[0]).toBe('Practice words: quickly');
+      expect(drills[2].instructions[0]).toBe('Practice words: migrated');
+    });
   });
 
   describe('STAR Method Examples', () => {
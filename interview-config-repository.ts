@@ -21,13 +21,20 @@ import {
   InterviewStyle,
   InterviewTone,
   FormalityLevel,
+  ConfigGrounding,
 } from '../types/interview-config';
+import { CodeSnapshot } from '../types/code-collaboration';
+import { ExpectedSolution } from '../types/ai-interviewer';
 
 export class DatabaseInterviewConfigRepository implements InterviewConfigRepository {
   constructor(private pool: Pool) {}
 
   // Configuration operations
-  async createConfig(userId: string, configData: CreateInterviewConfigRequest): Promise<InterviewConfig> {
+  async createConfig(
+    userId: string,
+    configData: CreateInterviewConfigRequest,
+    grounding?: ConfigGrounding
+  ): Promise<InterviewConfig> {
     const client = await this.pool.connect();
     try {
       await client.query('BEGIN');
@@ -71,8 +78,8 @@ export class DatabaseInterviewConfigRepository implements InterviewConfigReposit
         INSERT INTO interview_configs (
           id, user_id, name, description, template_id, role, company, industry,
           difficulty, duration, question_types, focus_areas, ai_personality,
-          settings, is_template, is_public, tags, created_at, updated_at
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19)
+          settings, grounding, is_template, is_public, tags, created_at, updated_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20)
         RETURNING *
       `;
 
@@ -91,6 +98,7 @@ export class DatabaseInterviewConfigRepository implements InterviewConfigReposit
         JSON.stringify(configData.focusAreas),
         JSON.stringify(defaultAIPersonality),
         JSON.stringify(defaultSettings),
+        grounding ? JSON.stringify(grounding) : null,
         false, // is_template
         false, // is_public
         JSON.stringify(configData.tags || []),
@@ -132,7 +140,11 @@ export class DatabaseInterviewConfigRepository implements InterviewConfigReposit
     return result.rows.map(row => this.mapRowToConfig(row));
   }
 
-  async updateConfig(configId: string, configData: UpdateInterviewConfigRequest): Promise<InterviewConfig> {
+  async updateConfig(
+    configId: string,
+    configData: UpdateInterviewConfigRequest,
+    grounding?: ConfigGrounding | null
+  ): Promise<InterviewConfig> {
     const client = await this.pool.connect();
     try {
       await client.query('BEGIN');
@@ -210,6 +222,11 @@ export class DatabaseInterviewConfigRepository implements InterviewConfigReposit
         updateValues.push(JSON.stringify(configData.tags));
       }
 
+      if (grounding !== undefined) {
+        updateFields.push(`grounding = $${paramIndex++}`);
+        updateValues.push(grounding ? JSON.stringify(grounding) : null);
+      }
+
       // Always update the updated_at timestamp
       updateFields.push(`updated_at = $${paramIndex++}`);
       updateValues.push(new Date());
@@ -404,7 +421,7 @@ export class DatabaseInterviewConfigRepository implements InterviewConfigReposit
     return result.rows.map(row => this.mapRowToQuestion(row));
   }
 
-  async createQuestion(questionData: Partial<Question>): Promise<Question> {
+  async createQuestion(questionData: Partial<Question>, expectedSolution?: ExpectedSolution): Promise<Question> {
     const questionId = uuidv4();
     const now = new Date();
 
@@ -412,8 +429,8 @@ export class DatabaseInterviewConfigRepository implements InterviewConfigReposit
       INSERT INTO questions (
         id, config_id, template_id, type, category, difficulty, text, context,
         expected_answer_structure, evaluation_criteria, follow_up_questions,
-        time_limit, tags, metadata, created_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+        time_limit, tags, metadata, expected_solution, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
       RETURNING *
     `;
 
@@ -432,6 +449,7 @@ export class DatabaseInterviewConfigRepository implements InterviewConfigReposit
       questionData.timeLimit || null,
       JSON.stringify(questionData.tags || []),
       JSON.stringify(questionData.metadata || {}),
+      expectedSolution ? JSON.stringify(expectedSolution) : null,
       now,
       now,
     ];
@@ -440,6 +458,19 @@ export class DatabaseInterviewConfigRepository implements InterviewConfigReposit
     return this.mapRowToQuestion(result.rows[0]);
   }
 
+  async findExpectedSolution(questionId: string): Promise<ExpectedSolution | null> {
+    const query = `
+      SELECT expected_solution FROM questions WHERE id = $1
+      UNION ALL
+      SELECT expected_solution FROM template_questions WHERE id = $1
+      LIMIT 1
+    `;
+    const result = await this.pool.query(query, [questionId]);
+    const row = result.rows[0];
+
+    return row?.expected_solution ? JSON.parse(row.expected_solution) : null;
+  }
+
   async updateQuestion(questionId: string, questionData: Partial<Question>): Promise<Question> {
     // Implementation similar to updateConfig but for questions
     // Simplified for brevity
@@ -519,6 +550,7 @@ export class DatabaseInterviewConfigRepository implements InterviewConfigReposit
           deviceType: 'unknown',
           interruptions: 0,
           technicalIssues: [],
+          interviewerIds: sessionData.interviewerIds || [],
         }),
       ];
 
@@ -675,8 +707,8 @@ export class DatabaseInterviewConfigRepository implements InterviewConfigReposit
     const query = `
       INSERT INTO session_responses (
         id, session_id, question_id, text_response, audio_url, video_url,
-        started_at, completed_at, duration, is_skipped, confidence, metadata
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+        started_at, completed_at, duration, is_skipped, confidence, code_snapshots, metadata
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
       RETURNING *
     `;
 
@@ -692,6 +724,7 @@ export class DatabaseInterviewConfigRepository implements InterviewConfigReposit
       0, // Will be calculated based on actual timing
       false,
       responseData.metadata?.confidenceLevel || null,
+      responseData.codeSnapshots ? JSON.stringify(responseData.codeSnapshots) : null,
       JSON.stringify(responseData.metadata || {}),
     ];
 
@@ -756,6 +789,7 @@ export class DatabaseInterviewConfigRepository implements InterviewConfigReposit
       focusAreas: JSON.parse(row.focus_areas || '[]'),
       aiPersonality: JSON.parse(row.ai_personality || '{}'),
       settings: JSON.parse(row.settings || '{}'),
+      grounding: row.grounding ? JSON.parse(row.grounding) : undefined,
       isTemplate: row.is_template || false,
       isPublic: row.is_public || false,
       tags: JSON.parse(row.tags || '[]'),
@@ -844,7 +878,15 @@ export class DatabaseInterviewConfigRepository implements InterviewConfigReposit
       duration: row.duration || 0,
       isSkipped: row.is_skipped || false,
       confidence: row.confidence,
+      codeSnapshots: row.code_snapshots ? this.parseCodeSnapshots(row.code_snapshots) : undefined,
       metadata: JSON.parse(row.metadata || '{}'),
     };
   }
+
+  private parseCodeSnapshots(value: string): CodeSnapshot[] {
+    return JSON.parse(value).map((snapshot: CodeSnapshot) => ({
+      ...snapshot,
+      capturedAt: new Date(snapshot.capturedAt),
+    }));
+  }
 }
\ No newline at end of file
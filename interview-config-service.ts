@@ -20,12 +20,21 @@ import {
   UnauthorizedAccessError,
   SessionState,
   SessionAction,
+  ConfigGrounding,
+  GroundingDocument,
+  GroundingDocumentInput,
 } from '../types/interview-config';
+import { GroundingExtractor } from '../types/interview-grounding';
+import { ExpectedSolution } from '../types/ai-interviewer';
 import { ConfigValidator } from '../validation/config-validator';
+import { DefaultGroundingExtractor } from './grounding-extractor';
 import { logger } from '../utils/logger';
 
 export class DefaultInterviewConfigService implements InterviewConfigService {
-  constructor(private repository: InterviewConfigRepository) {}
+  constructor(
+    private repository: InterviewConfigRepository,
+    private groundingExtractor: GroundingExtractor = new DefaultGroundingExtractor()
+  ) {}
 
   // Configuration management
   async createConfiguration(userId: string, configData: CreateInterviewConfigRequest): Promise<InterviewConfig> {
@@ -50,7 +59,12 @@ export class DefaultInterviewConfigService implements InterviewConfigService {
         tags: configData.tags ? ConfigValidator.validateAndSanitizeTags(configData.tags) : [],
       };
 
-      const config = await this.repository.createConfig(userId, sanitizedData);
+      const grounding = this.buildGrounding(
+        configData.resume && this.toDocument(configData.resume),
+        configData.jobDescription && this.toDocument(configData.jobDescription)
+      );
+
+      const config = await this.repository.createConfig(userId, sanitizedData, grounding);
       
       logger.info('Interview configuration created', {
         configId: config.id,
@@ -65,7 +79,7 @@ export class DefaultInterviewConfigService implements InterviewConfigService {
       logger.error('Failed to create interview configuration', {
         error,
         userId,
-        configData: { ...configData, settings: '[REDACTED]' },
+        configData: { ...configData, settings: '[REDACTED]', resume: undefined, jobDescription: undefined },
       });
       throw error;
     }
@@ -120,7 +134,16 @@ export class DefaultInterviewConfigService implements InterviewConfigService {
         tags: configData.tags ? ConfigValidator.validateAndSanitizeTags(configData.tags) : undefined,
       };
 
-      const updatedConfig = await this.repository.updateConfig(configId, sanitizedData);
+      // Re-extract only when a document is attached, replaced or detached
+      let grounding: ConfigGrounding | null | undefined;
+      if (configData.resume !== undefined || configData.jobDescription !== undefined) {
+        grounding = this.buildGrounding(
+          this.resolveDocument(configData.resume, existingConfig.grounding?.resume),
+          this.resolveDocument(configData.jobDescription, existingConfig.grounding?.jobDescription)
+        ) || null;
+      }
+
+      const updatedConfig = await this.repository.updateConfig(configId, sanitizedData, grounding);
       
       logger.info('Interview configuration updated', {
         configId,
@@ -133,7 +156,7 @@ export class DefaultInterviewConfigService implements InterviewConfigService {
       logger.error('Failed to update interview configuration', {
         error,
         configId,
-        configData: { ...configData, settings: '[REDACTED]' },
+        configData: { ...configData, settings: '[REDACTED]', resume: undefined, jobDescription: undefined },
       });
       throw error;
     }
@@ -355,6 +378,150 @@ export class DefaultInterviewConfigService implements InterviewConfigService {
     }
   }
 
+  /**
+   * Pause the session timer on the candidate's behalf, for example while they
+   * reconnect. Unlike a user pause it is allowed whatever the configuration
+   * says and does not count towards the pause count
+   */
+  async suspendSession(sessionId: string, reason: string): Promise<InterviewSession> {
+    try {
+      const session = await this.repository.findSessionById(sessionId);
+      if (!session) {
+        throw new SessionNotFoundError('Session not found', sessionId);
+      }
+
+      // Only a running timer needs suspending
+      if (session.state !== SessionState.IN_PROGRESS) {
+        return session;
+      }
+
+      const now = new Date();
+      const updatedSession = await this.repository.updateSession(sessionId, {
+        state: SessionState.PAUSED,
+        pausedAt: now,
+        metadata: {
+          ...session.metadata,
+          suspendedAt: now.toISOString(),
+          suspendReason: reason,
+          interruptions: (session.metadata.interruptions || 0) + 1,
+          technicalIssues: [...(session.metadata.technicalIssues || []), reason],
+        },
+      });
+
+      logger.info('Session suspended', { sessionId, reason });
+
+      return updatedSession;
+    } catch (error) {
+      logger.error('Failed to suspend session', { error, sessionId, reason });
+      throw error;
+    }
+  }
+
+  /**
+   * Restart the timer of a suspended session at the question it stopped on.
+   * Sessions the user paused themselves stay paused
+   */
+  async resumeSuspendedSession(sessionId: string): Promise<InterviewSession> {
+    try {
+      const session = await this.repository.findSessionById(sessionId);
+      if (!session) {
+        throw new SessionNotFoundError('Session not found', sessionId);
+      }
+
+      if (session.state !== SessionState.PAUSED || !session.metadata.suspendedAt) {
+        return session;
+      }
+
+      const now = new Date();
+      const pausedDuration = session.pausedAt ?
+        Math.floor((now.getTime() - session.pausedAt.getTime()) / 1000) : 0;
+
+      const updatedSession = await this.repository.updateSession(sessionId, {
+        state: SessionState.IN_PROGRESS,
+        resumedAt: now,
+        metadata: {
+          ...session.metadata,
+          suspendedAt: undefined,
+          suspendReason: undefined,
+          totalPausedTime: (session.metadata.totalPausedTime || 0) + pausedDuration,
+          lastResumedAt: now.toISOString(),
+        },
+      });
+
+      logger.info('Suspended session resumed', {
+        sessionId,
+        currentQuestionIndex: updatedSession.currentQuestionIndex,
+        pausedDuration,
+      });
+
+      return await this.enforceTimeLimits(updatedSession);
+    } catch (error) {
+      logger.error('Failed to resume suspended session', { error, sessionId });
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the users who may join the live session as interviewers.
+   * Only the owner of the session can change them
+   */
+  async assignInterviewers(sessionId: string, userId: string, interviewerIds: string[]): Promise<InterviewSession> {
+    try {
+      const validation = ConfigValidator.validateInterviewerIds(interviewerIds);
+      if (!validation.isValid) {
+        throw new ConfigValidationError('Interviewer validation failed', validation.errors);
+      }
+
+      const session = await this.repository.findSessionById(sessionId);
+      if (!session) {
+        throw new SessionNotFoundError('Session not found', sessionId);
+      }
+
+      if (session.userId !== userId) {
+        throw new UnauthorizedAccessError('User does not have access to this session');
+      }
+
+      const updatedSession = await this.repository.updateSession(sessionId, {
+        metadata: {
+          ...session.metadata,
+          interviewerIds,
+        },
+      });
+
+      logger.info('Session interviewers assigned', { sessionId, interviewers: interviewerIds.length });
+
+      return updatedSession;
+    } catch (error) {
+      logger.error('Failed to assign session interviewers', { error, sessionId, userId });
+      throw error;
+    }
+  }
+
+  /**
+   * The stored reference solution and code tests for one of the session's
+   * questions. Questions that are not part of a stored session have none
+   */
+  async getExpectedSolution(sessionId: string, userId: string, questionId: string): Promise<ExpectedSolution | null> {
+    if (!ConfigValidator.isValidUUID(sessionId)) {
+      return null;
+    }
+
+    const session = await this.repository.findSessionById(sessionId);
+    if (!session) {
+      return null;
+    }
+
+    if (session.userId !== userId) {
+      throw new UnauthorizedAccessError('User does not have access to this session');
+    }
+
+    if (!session.questions.some(question => question.id === questionId)) {
+      return null;
+    }
+
+    return this.repository.findExpectedSolution(questionId);
+  }
+
   // Response management
   async submitResponse(sessionId: string, responseData: SubmitResponseRequest): Promise<SessionResponse> {
     try {
@@ -387,6 +554,7 @@ export class DefaultInterviewConfigService implements InterviewConfigService {
         hasText: !!responseData.textResponse,
         hasAudio: !!responseData.audioUrl,
         hasVideo: !!responseData.videoUrl,
+        codeSnapshots: responseData.codeSnapshots?.length || 0,
       });
 
       return response;
@@ -394,7 +562,7 @@ export class DefaultInterviewConfigService implements InterviewConfigService {
       logger.error('Failed to submit response', {
         error,
         sessionId,
-        responseData: { ...responseData, textResponse: '[REDACTED]' },
+        responseData: { ...responseData, textResponse: '[REDACTED]', codeSnapshots: undefined },
       });
       throw error;
     }
@@ -795,4 +963,40 @@ export class DefaultInterviewConfigService implements InterviewConfigService {
     
     return Math.max(0, totalElapsed - totalPausedTime - currentPauseDuration);
   }
+
+  /**
+   * Extract the resume and job description profile used to ground questions
+   */
+  private buildGrounding(resume?: GroundingDocument, jobDescription?: GroundingDocument): ConfigGrounding | undefined {
+    if (!resume && !jobDescription) {
+      return undefined;
+    }
+
+    const profile = this.groundingExtractor.buildGrounding(
+      resume && this.groundingExtractor.extractResume(resume.content, resume.format),
+      jobDescription && this.groundingExtractor.extractJobDescription(jobDescription.content, jobDescription.format)
+    );
+
+    return { resume, jobDescription, profile };
+  }
+
+  // undefined keeps the stored document, null detaches it
+  private resolveDocument(
+    input: GroundingDocumentInput | null | undefined,
+    existing?: GroundingDocument
+  ): GroundingDocument | undefined {
+    if (input === undefined) {
+      return existing;
+    }
+    return input ? this.toDocument(input) : undefined;
+  }
+
+  private toDocument(input: GroundingDocumentInput): GroundingDocument {
+    return {
+      content: input.content,
+      format: input.format,
+      fileName: input.fileName,
+      attachedAt: new Date(),
+    };
+  }
 }
\ No newline at end of file
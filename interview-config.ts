@@ -1,5 +1,9 @@
 // Interview Configuration Types and Interfaces
 
+import { DocumentFormat, InterviewGrounding } from './interview-grounding';
+import { CodeSnapshot } from './code-collaboration';
+import { ExpectedSolution, PanelTurnPolicy } from './ai-interviewer';
+
 export interface InterviewConfig {
   id: string;
   userId: string;
@@ -15,6 +19,7 @@ export interface InterviewConfig {
   focusAreas: FocusArea[];
   aiPersonality: AIPersonality;
   settings: InterviewSettings;
+  grounding?: ConfigGrounding;
   isTemplate: boolean;
   isPublic: boolean;
   tags: string[];
@@ -71,6 +76,7 @@ export interface SessionResponse {
   duration: number; // response time in seconds
   isSkipped: boolean;
   confidence?: number;
+  codeSnapshots?: CodeSnapshot[]; // Live coding answers, oldest first; the last is the submitted code
   metadata: ResponseMetadata;
 }
 
@@ -183,6 +189,36 @@ export interface InterviewSettings {
   timePerQuestion?: number; // in seconds
   breaksBetweenQuestions: number; // in seconds
   notifications: NotificationSettings;
+  panel?: PanelSettings;
+}
+
+export interface PanelSettings {
+  personas: PanelPersona[]; // 2-4 interviewers
+  turnPolicy: PanelTurnPolicy;
+  allowFollowUpHandOff: boolean;
+}
+
+export interface PanelPersona extends AIPersonality {
+  id: string;
+  title?: string;
+  focusAreas: FocusArea[];
+}
+
+// Resume and job description attached to a configuration
+export interface ConfigGrounding {
+  resume?: GroundingDocument;
+  jobDescription?: GroundingDocument;
+  profile: InterviewGrounding; // Extracted once when the documents are attached
+}
+
+export interface GroundingDocument extends GroundingDocumentInput {
+  attachedAt: Date;
+}
+
+export interface GroundingDocumentInput {
+  content: string;
+  format: DocumentFormat;
+  fileName?: string;
 }
 
 export interface NotificationSettings {
@@ -236,6 +272,8 @@ export interface SessionMetadata {
   totalPausedTime?: number; // in seconds
   lastPausedAt?: string;
   lastResumedAt?: string;
+  suspendedAt?: string; // Set while paused by the system rather than the user
+  suspendReason?: string;
   autoSkippedQuestions?: number[];
   skippedQuestions?: Array<{
     questionId: string;
@@ -251,6 +289,9 @@ export interface SessionMetadata {
   abandonReason?: string;
   endedAt?: string;
   abandonedAt?: string;
+
+  // Live session metadata
+  interviewerIds?: string[]; // Users who may join the live session as interviewers
 }
 
 export interface ResponseMetadata {
@@ -314,6 +355,8 @@ export interface CreateInterviewConfigRequest {
   aiPersonality?: Partial<AIPersonality>;
   settings?: Partial<InterviewSettings>;
   tags?: string[];
+  resume?: GroundingDocumentInput;
+  jobDescription?: GroundingDocumentInput;
 }
 
 export interface UpdateInterviewConfigRequest {
@@ -329,11 +372,14 @@ export interface UpdateInterviewConfigRequest {
   aiPersonality?: Partial<AIPersonality>;
   settings?: Partial<InterviewSettings>;
   tags?: string[];
+  resume?: GroundingDocumentInput | null; // null detaches the document
+  jobDescription?: GroundingDocumentInput | null;
 }
 
 export interface CreateSessionRequest {
   configId: string;
   settings?: Partial<InterviewSettings>;
+  interviewerIds?: string[]; // Users invited to join the live session as interviewers
 }
 
 export interface SessionControlRequest {
@@ -346,6 +392,7 @@ export interface SubmitResponseRequest {
   textResponse?: string;
   audioUrl?: string;
   videoUrl?: string;
+  codeSnapshots?: CodeSnapshot[];
   metadata?: Partial<ResponseMetadata>;
 }
 
@@ -361,10 +408,14 @@ export enum SessionAction {
 // Service Interfaces
 export interface InterviewConfigRepository {
   // Configuration operations
-  createConfig(userId: string, configData: CreateInterviewConfigRequest): Promise<InterviewConfig>;
+  createConfig(userId: string, configData: CreateInterviewConfigRequest, grounding?: ConfigGrounding): Promise<InterviewConfig>;
   findConfigById(configId: string): Promise<InterviewConfig | null>;
   findConfigsByUserId(userId: string): Promise<InterviewConfig[]>;
-  updateConfig(configId: string, configData: UpdateInterviewConfigRequest): Promise<InterviewConfig>;
+  updateConfig(
+    configId: string,
+    configData: UpdateInterviewConfigRequest,
+    grounding?: ConfigGrounding | null // Omitted leaves the stored grounding unchanged
+  ): Promise<InterviewConfig>;
   deleteConfig(configId: string): Promise<void>;
   
   // Template operations
@@ -376,7 +427,8 @@ export interface InterviewConfigRepository {
   // Question operations
   findQuestionsByConfigId(configId: string): Promise<Question[]>;
   findQuestionsByTemplateId(templateId: string): Promise<Question[]>;
-  createQuestion(questionData: Partial<Question>): Promise<Question>;
+  createQuestion(questionData: Partial<Question>, expectedSolution?: ExpectedSolution): Promise<Question>;
+  findExpectedSolution(questionId: string): Promise<ExpectedSolution | null>; // Kept out of Question, which candidates see
   updateQuestion(questionId: string, questionData: Partial<Question>): Promise<Question>;
   deleteQuestion(questionId: string): Promise<void>;
   
@@ -415,6 +467,10 @@ export interface InterviewConfigService {
   getSession(sessionId: string): Promise<InterviewSession>;
   getUserSessions(userId: string): Promise<InterviewSession[]>;
   controlSession(sessionId: string, action: SessionControlRequest): Promise<InterviewSession>;
+  suspendSession(sessionId: string, reason: string): Promise<InterviewSession>;
+  resumeSuspendedSession(sessionId: string): Promise<InterviewSession>;
+  assignInterviewers(sessionId: string, userId: string, interviewerIds: string[]): Promise<InterviewSession>;
+  getExpectedSolution(sessionId: string, userId: string, questionId: string): Promise<ExpectedSolution | null>;
   getSessionStatus(sessionId: string): Promise<{
     session: InterviewSession;
     timeStatus: {
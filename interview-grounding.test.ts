@@ -0,0 +1,257 @@
+import { AIInterviewerController } from '../controllers/ai-interviewer-controller';
+import { DefaultGroundingExtractor } from '../services/grounding-extractor';
+import { DefaultAIInterviewerService } from '../services/ai-interviewer-service';
+import { InMemoryQuestionCache } from '../services/question-cache-service';
+import { PersonalityManager } from '../services/personality-manager';
+import { ScriptedLLMProvider } from '../services/llm-providers';
+import { DocumentFormat, InterviewGrounding } from '../types/interview-grounding';
+import {
+  AIPersonalityConfig,
+  QuestionGenerationContext,
+  QuestionType,
+  DifficultyLevel,
+  FocusArea,
+  InterviewStyle,
+  InterviewTone,
+  FormalityLevel,
+} from '../types/ai-interviewer';
+
+const RESUME = `# Jordan Lee
+Backend engineer with 7 years of experience.
+
+## Experience
+- Led the Kafka migration from RabbitMQ, cutting message latency by 40%
+- Built a PostgreSQL sharding layer in Go (golang) serving 2M users
+- Attended weekly planning meetings
+
+## Skills
+TypeScript, Node.js, Docker, Kubernetes`;
+
+const JOB_DESCRIPTION = `Senior Backend Engineer
+
+Requirements:
+• 5+ years building distributed systems
+• Production experience with Kafka and PostgreSQL
+• Deploying services on AWS with Terraform
+
+Nice to have:
+• GraphQL API design`;
+
+const personalityConfig: AIPersonalityConfig = {
+  name: 'Test Interviewer',
+  style: InterviewStyle.CONVERSATIONAL,
+  tone: InterviewTone.FRIENDLY,
+  formality: FormalityLevel.SEMI_FORMAL,
+  adaptiveness: 0.5,
+  followUpIntensity: 0.5,
+  encouragementLevel: 0.5,
+};
+
+const buildContext = (grounding?: InterviewGrounding, userId = 'user-1'): QuestionGenerationContext => ({
+  sessionId: `session-${userId}`,
+  userId,
+  interviewConfig: {
+    id: 'config-1',
+    role: 'Backend Developer',
+    industry: 'Technology',
+    difficulty: DifficultyLevel.SENIOR,
+    duration: 45,
+    questionTypes: [QuestionType.TECHNICAL],
+    focusAreas: [FocusArea.TECHNICAL_SKILLS],
+    aiPersonality: personalityConfig,
+    grounding,
+  },
+  currentQuestionIndex: 0,
+  previousResponses: [],
+  personalityState: PersonalityManager.initializePersonality(personalityConfig),
+  questionType: QuestionType.TECHNICAL,
+});
+
+describe('Interview Grounding', () => {
+  const extractor = new DefaultGroundingExtractor();
+
+  describe('DefaultGroundingExtractor', () => {
+    it('should extract skills, projects and experience from a Markdown resume', () => {
+      const resume = extractor.extractResume(RESUME, DocumentFormat.MARKDOWN);
+
+      expect(resume.skills).toEqual(expect.arrayContaining(['Kafka', 'RabbitMQ', 'PostgreSQL', 'Go', 'TypeScript', 'Kubernetes']));
+      expect(resume.yearsOfExperience).toBe(7);
+      expect(resume.projects).toHaveLength(2);
+      expect(resume.projects[0].summary).toContain('Kafka migration');
+      expect(resume.projects[0].hasMetric).toBe(true);
+    });
+
+    it('should separate required and preferred job requirements', () => {
+      const jobDescription = extractor.extractJobDescription(JOB_DESCRIPTION, DocumentFormat.PLAIN_TEXT);
+
+      expect(jobDescription.title).toBe('Senior Backend Engineer');
+      expect(jobDescription.requirements).toHaveLength(4);
+      expect(jobDescription.requirements.filter(r => r.required).map(r => r.text)).toEqual([
+        '5+ years building distributed systems',
+        'Production experience with Kafka and PostgreSQL',
+        'Deploying services on AWS with Terraform',
+      ]);
+      expect(jobDescription.requirements[3]).toEqual(expect.objectContaining({ required: false, skills: ['GraphQL'] }));
+    });
+
+    it('should rejoin words hyphenated across lines in PDF text', () => {
+      const resume = extractor.extractResume('Migrated billing to Kuber-\nnetes and Terra-\nform', DocumentFormat.PDF_TEXT);
+
+      expect(resume.skills).toEqual(['Kubernetes', 'Terraform']);
+    });
+
+    it('should report matched and missing skills when both documents are attached', () => {
+      const grounding = extractor.buildGrounding(
+        extractor.extractResume(RESUME, DocumentFormat.MARKDOWN),
+        extractor.extractJobDescription(JOB_DESCRIPTION, DocumentFormat.PLAIN_TEXT)
+      );
+
+      expect(grounding.skillMatch?.matched).toEqual(expect.arrayContaining(['Kafka', 'PostgreSQL']));
+      expect(grounding.skillMatch?.missing).toEqual(expect.arrayContaining(['AWS', 'Terraform', 'Distributed Systems']));
+      expect(grounding.skillMatch?.missing).not.toContain('GraphQL');
+    });
+  });
+
+  describe('DefaultAIInterviewerService grounding', () => {
+    const grounding = extractor.buildGrounding(
+      extractor.extractResume(RESUME, DocumentFormat.MARKDOWN),
+      extractor.extractJobDescription(JOB_DESCRIPTION, DocumentFormat.PLAIN_TEXT)
+    );
+
+    it('should include resume projects and job requirements in the question prompt', async () => {
+      const provider = new ScriptedLLMProvider();
+      const service = new DefaultAIInterviewerService(provider);
+
+      await service.generateQuestion(buildContext(grounding));
+
+      const prompt = provider.getHistory()[0].messages[1].content;
+      expect(prompt).toContain('Led the Kafka migration from RabbitMQ');
+      expect(prompt).toContain('Deploying services on AWS with Terraform');
+      expect(prompt).toContain('Required skills not shown on the resume');
+    });
+
+    it('should score evaluations against required job requirements', async () => {
+      const provider = new ScriptedLLMProvider();
+      const service = new DefaultAIInterviewerService(provider);
+      const question = await service.generateQuestion(buildContext(grounding));
+
+      await service.evaluateResponse({
+        sessionId: 'session-user-1',
+        question,
+        userResponse: {
+          questionId: question.id,
+          questionText: question.text,
+          responseText: 'We moved every topic over with dual writes.',
+          duration: 120,
+          isSkipped: false,
+          timestamp: new Date(),
+        },
+        evaluationCriteria: question.evaluationCriteria,
+        personalityState: buildContext().personalityState,
+        interviewConfig: buildContext(grounding).interviewConfig,
+      });
+
+      const prompt = provider.getHistory()[1].messages[1].content;
+      expect(prompt).toContain('Production experience with Kafka and PostgreSQL');
+      expect(prompt).not.toContain('GraphQL API design');
+    });
+
+    it('should not share grounded questions through the question cache', async () => {
+      const provider = new ScriptedLLMProvider();
+      const cache = new InMemoryQuestionCache();
+      const service = new DefaultAIInterviewerService(provider, { questionCache: cache });
+
+      await service.generateQuestion(buildContext(grounding, 'alice'));
+      await service.generateQuestion(buildContext(grounding, 'bob'));
+
+      expect(provider.getHistory()).toHaveLength(2);
+      expect(cache.getStats().variants).toBe(0);
+    });
+  });
+
+  describe('AIInterviewerController grounding', () => {
+    const grounding = extractor.buildGrounding(
+      extractor.extractResume(RESUME, DocumentFormat.MARKDOWN),
+      extractor.extractJobDescription(JOB_DESCRIPTION, DocumentFormat.PLAIN_TEXT)
+    );
+
+    const createResponse = () => {
+      const res: any = {};
+      res.status = jest.fn(() => res);
+      res.json = jest.fn(() => res);
+      return res;
+    };
+
+    const storedSession = (profile?: InterviewGrounding) => ({
+      id: 'session-user-1',
+      userId: 'user-1',
+      config: { ...buildContext().interviewConfig, grounding: profile && { profile } },
+    });
+
+    it('should ground questions in the profile saved with the session instead of the request', async () => {
+      const provider = new ScriptedLLMProvider();
+      const sessions = { getSession: jest.fn().mockResolvedValue(storedSession(grounding)) };
+      const controller = new AIInterviewerController(new DefaultAIInterviewerService(provider), sessions as any, {} as any);
+      const forged = extractor.buildGrounding(
+        undefined,
+        extractor.extractJobDescription('Requirements:\n• Ten years of COBOL', DocumentFormat.PLAIN_TEXT)
+      );
+
+      await controller.generateQuestion({ userId: 'user-1', body: buildContext(forged) } as any, createResponse());
+
+      expect(sessions.getSession).toHaveBeenCalledWith('session-user-1');
+      const prompt = provider.getHistory()[0].messages[1].content;
+      expect(prompt).toContain('Led the Kafka migration from RabbitMQ');
+      expect(prompt).not.toContain('COBOL');
+    });
+
+    it('should drop grounding from the request when none was saved', async () => {
+      const provider = new ScriptedLLMProvider();
+      const sessions = { getSession: jest.fn().mockResolvedValue(storedSession()) };
+      const controller = new AIInterviewerController(new DefaultAIInterviewerService(provider), sessions as any, {} as any);
+
+      await controller.generateQuestion({ userId: 'user-1', body: buildContext(grounding) } as any, createResponse());
+
+      expect(provider.getHistory()[0].messages[1].content).not.toContain('Led the Kafka migration from RabbitMQ');
+    });
+
+    it('should evaluate against the saved job requirements when the request has no configuration', async () => {
+      const provider = new ScriptedLLMProvider();
+      const sessions = { getSession: jest.fn().mockResolvedValue(storedSession(grounding)) };
+      const controller = new AIInterviewerController(new DefaultAIInterviewerService(provider), sessions as any, {} as any);
+      const question = await new DefaultAIInterviewerService(new ScriptedLLMProvider()).generateQuestion(buildContext());
+
+      await controller.evaluateResponse({
+        userId: 'user-1',
+        body: {
+          sessionId: 'session-user-1',
+          question,
+          userResponse: {
+            questionId: question.id,
+            questionText: question.text,
+            responseText: 'We moved every topic over with dual writes.',
+            duration: 120,
+            isSkipped: false,
+            timestamp: new Date(),
+          },
+          evaluationCriteria: question.evaluationCriteria,
+          personalityState: buildContext().personalityState,
+        },
+      } as any, createResponse());
+
+      expect(provider.getHistory()[0].messages[1].content).toContain('Production experience with Kafka and PostgreSQL');
+    });
+
+    it('should refuse sessions of other users', async () => {
+      const provider = new ScriptedLLMProvider();
+      const sessions = { getSession: jest.fn().mockResolvedValue(storedSession(grounding)) };
+      const controller = new AIInterviewerController(new DefaultAIInterviewerService(provider), sessions as any, {} as any);
+
+      const res = createResponse();
+      await controller.generateQuestion({ userId: 'user-2', body: buildContext() } as any, res);
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(provider.getHistory()).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,51 @@
+// Resume and Job Description Grounding Types and Interfaces
+
+export interface GroundingExtractor {
+  extractResume(content: string, format: DocumentFormat): ResumeProfile;
+  extractJobDescription(content: string, format: DocumentFormat): JobDescriptionProfile;
+  buildGrounding(resume?: ResumeProfile, jobDescription?: JobDescriptionProfile): InterviewGrounding;
+}
+
+// What question generation and evaluation know about the candidate and target job
+export interface InterviewGrounding {
+  resume?: ResumeProfile;
+  jobDescription?: JobDescriptionProfile;
+  skillMatch?: SkillMatch; // Only when both documents are attached
+}
+
+export interface ResumeProfile {
+  skills: string[];
+  projects: ResumeProject[];
+  yearsOfExperience?: number;
+}
+
+export interface ResumeProject {
+  summary: string; // The resume bullet or sentence describing the work
+  technologies: string[];
+  hasMetric: boolean; // Mentions a number, percentage or other measurable outcome
+}
+
+export interface JobDescriptionProfile {
+  title?: string;
+  requirements: JobRequirement[];
+  skills: string[];
+}
+
+export interface JobRequirement {
+  text: string;
+  skills: string[];
+  required: boolean; // False for "preferred" / "nice to have" items
+}
+
+export interface SkillMatch {
+  matched: string[];
+  missing: string[]; // Required by the job description but absent from the resume
+  additional: string[]; // On the resume but not asked for
+}
+
+// Enums
+export enum DocumentFormat {
+  PLAIN_TEXT = 'plain_text',
+  MARKDOWN = 'markdown',
+  PDF_TEXT = 'pdf_text', // Text already extracted from a PDF
+}
@@ -0,0 +1,39 @@
+/**
+ * Language Pack Types
+ * Defines the per-language lexicons and formulas used by speech and text analysis
+ */
+
+export const AUTO_DETECT_LANGUAGE = 'auto';
+
+export type STARComponentName = 'situation' | 'task' | 'action' | 'result';
+
+export interface LanguagePack {
+  code: string; // ISO 639-1
+  name: string; // English name, as reported by hosted transcription APIs
+  fillers: {
+    verbal: string[]; // Hesitation sounds
+    lexical: string[]; // Filler words and phrases
+  };
+  starIndicators: Record<STARComponentName, string[]>; // Cue phrases scored per sentence
+  starKeywords: Record<STARComponentName, string[]>; // Looser keywords that mark a component as present
+  stopwords: string[]; // Frequent function words, used for language detection
+  countSyllables(word: string): number;
+  readingEase(stats: ReadabilityStats): number; // 0-100 on the Flesch scale, higher is easier
+}
+
+export interface ReadabilityStats {
+  words: number;
+  sentences: number;
+  syllables: number;
+}
+
+export interface LanguageResolution {
+  pack: LanguagePack; // Falls back to the default pack when the language is unsupported
+  support: LanguageSupport;
+}
+
+export interface LanguageSupport {
+  language: string; // Normalized code, or 'und' when it could not be determined
+  supported: boolean; // False when no pack exists and the default pack's heuristics were applied
+  detected: boolean; // True when the language was inferred rather than requested
+}
@@ -0,0 +1,199 @@
+/**
+ * Language Pack Tests
+ * Per-language lexicons and formulas, detection, and their use by the analysis engines
+ */
+
+import {
+  LanguagePackRegistry,
+  ENGLISH_LANGUAGE_PACK,
+  SPANISH_LANGUAGE_PACK,
+  GERMAN_LANGUAGE_PACK,
+  HINDI_LANGUAGE_PACK
+} from '../services/language-packs';
+import { SpeechAnalysisEngine } from '../services/speech-analysis-engine';
+import { TextAnalysisEngine } from '../services/text-analysis-engine';
+import { FixtureTranscriptionProvider } from '../services/transcription-providers';
+import {
+  SpeechAnalysisConfig,
+  SpeechAnalysisRequest,
+  AudioEncoding,
+  WhisperModel,
+  FillerType
+} from '../types/speech-analysis';
+import {
+  TextAnalysisConfig,
+  TextAnalysisRequest,
+  QuestionType,
+  ResponseStructure,
+  GrammarStrictness
+} from '../types/text-analysis';
+
+describe('Language Packs', () => {
+  const registry = new LanguagePackRegistry();
+
+  describe('syllabification and readability', () => {
+    it('should count syllables with each language\'s rules', () => {
+      expect(SPANISH_LANGUAGE_PACK.countSyllables('poesía')).toBe(4); // po-e-sí-a
+      expect(SPANISH_LANGUAGE_PACK.countSyllables('ciudad')).toBe(2); // ciu-dad
+      expect(GERMAN_LANGUAGE_PACK.countSyllables('Freiheit')).toBe(2);
+      expect(GERMAN_LANGUAGE_PACK.countSyllables('Theater')).toBe(3);
+      expect(HINDI_LANGUAGE_PACK.countSyllables('नमस्ते')).toBe(3); // न-मस्-ते
+      expect(ENGLISH_LANGUAGE_PACK.countSyllables('deployment')).toBe(3);
+    });
+
+    it('should score reading ease with the language\'s formula', () => {
+      const stats = { words: 100, sentences: 5, syllables: 150 };
+
+      expect(ENGLISH_LANGUAGE_PACK.readingEase(stats)).toBeCloseTo(206.835 - 1.015 * 20 - 84.6 * 1.5);
+      expect(SPANISH_LANGUAGE_PACK.readingEase(stats)).toBeCloseTo(206.84 - 60 * 1.5 - 1.02 * 20);
+      expect(GERMAN_LANGUAGE_PACK.readingEase(stats)).toBeCloseTo(180 - 20 - 58.5 * 1.5);
+    });
+  });
+
+  describe('LanguagePackRegistry', () => {
+    it('should normalize codes, regions and API language names', () => {
+      expect(registry.normalize('en-US')).toBe('en');
+      expect(registry.normalize('Spanish')).toBe('es');
+      expect(registry.get('DE')).toBe(GERMAN_LANGUAGE_PACK);
+    });
+
+    it('should detect the language of a transcript', () => {
+      expect(registry.detect('En mi último trabajo lideré la migración de la base de datos y el equipo')).toBe('es');
+      expect(registry.detect('Ich habe die Migration geleitet und das Team war mit dem Ergebnis zufrieden')).toBe('de');
+      expect(registry.detect('मैंने डेटाबेस का माइग्रेशन किया और टीम को भी सिखाया')).toBe('hi');
+      expect(registry.detect('我负责数据库迁移项目')).toBe('und');
+      expect(registry.detect('Kubernetes')).toBeUndefined();
+    });
+
+    it('should fall back to the default pack and flag languages without a pack', () => {
+      const french = registry.resolve('fr-FR');
+      expect(french.pack).toBe(ENGLISH_LANGUAGE_PACK);
+      expect(french.support).toEqual({ language: 'fr', supported: false, detected: false });
+
+      const detected = registry.resolve('auto', 'Ich habe das Projekt mit dem Team geleitet und es war ein Erfolg');
+      expect(detected.pack).toBe(GERMAN_LANGUAGE_PACK);
+      expect(detected.support).toEqual({ language: 'de', supported: true, detected: true });
+    });
+  });
+
+  describe('SpeechAnalysisEngine', () => {
+    const config: SpeechAnalysisConfig = {
+      whisperApiKey: 'test-api-key',
+      whisperBaseUrl: 'https://api.openai.com/v1',
+      enableAdvancedAnalysis: true,
+      fillerWords: { verbal: ['um', 'uh'], lexical: ['like', 'you know'], customFillers: [], detectionSensitivity: 0.8 },
+      paceThresholds: { optimalWPM: { min: 150, max: 190, optimal: 170 }, slowThreshold: 120, fastThreshold: 220, variabilityThreshold: 0.3 },
+      pauseThresholds: { minPauseLength: 0.3, maxOptimalPause: 2.0, hesitationThreshold: 1.5, strategicPauseRange: { min: 0.5, max: 1.5, optimal: 1.0 } },
+      clarityThresholds: { minClarityScore: 0.7, noiseThreshold: 0.3, articulationThreshold: 0.75, volumeConsistencyThreshold: 0.8 },
+      confidenceThresholds: { minConfidenceScore: 0.6, hesitationRatioThreshold: 0.15, fillerFrequencyThreshold: 8.0, assertivenessThreshold: 0.5 },
+      volumeThresholds: { optimalRange: { min: 0.4, max: 0.9 }, variabilityThreshold: 0.25, minAudibleLevel: 0.2, maxComfortableLevel: 0.95 }
+    };
+
+    const buildRequest = (language: string): SpeechAnalysisRequest => ({
+      audioData: {
+        buffer: Buffer.from('mock-audio-data'),
+        format: { encoding: AudioEncoding.MP3, mimeType: 'audio/mpeg', extension: 'mp3' },
+        duration: 12,
+        sampleRate: 44100,
+        channels: 1,
+        bitDepth: 16
+      },
+      context: { questionType: 'behavioral', language },
+      options: {
+        enableTranscription: true,
+        enablePaceAnalysis: true,
+        enablePauseAnalysis: true,
+        enableFillerDetection: true,
+        enableClarityAnalysis: true,
+        enableConfidenceAnalysis: true,
+        enableEmotionDetection: true,
+        enableVolumeAnalysis: true,
+        confidenceThreshold: 0.7,
+        whisperModel: WhisperModel.BASE
+      }
+    });
+
+    it('should detect the language of the transcript and use its filler lexicon', async () => {
+      const provider = new FixtureTranscriptionProvider([{
+        text: 'Eh, bueno, en mi equipo teníamos un problema con la base de datos y, o sea, lo resolvimos en una semana.'
+      }]);
+      const engine = new SpeechAnalysisEngine(config, provider);
+
+      const result = await engine.analyzeSpeech(buildRequest('auto'));
+
+      expect(provider.getHistory()[0].language).toBeUndefined();
+      expect(result.languageSupport).toEqual({ language: 'es', supported: true, detected: true });
+      expect(result.fillerAnalysis.detectedFillers.map(filler => filler.filler)).toEqual(['eh', 'bueno', 'o sea']);
+      expect(result.fillerAnalysis.detectedFillers[0].type).toBe(FillerType.VERBAL);
+    });
+
+    it('should report reduced confidence for a language without a pack', async () => {
+      const text = 'Dans mon dernier poste, j\'ai dirigé la migration de la base de données.';
+      const french = await new SpeechAnalysisEngine(config, new FixtureTranscriptionProvider([{ text, language: 'fr' }]))
+        .analyzeSpeech(buildRequest('fr'));
+      const english = await new SpeechAnalysisEngine(config, new FixtureTranscriptionProvider([{ text, language: 'en' }]))
+        .analyzeSpeech(buildRequest('en'));
+
+      expect(french.languageSupport?.supported).toBe(false);
+      expect(french.confidence).toBeLessThan(english.confidence);
+    });
+  });
+
+  describe('TextAnalysisEngine', () => {
+    const config: TextAnalysisConfig = {
+      enableAdvancedAnalysis: true,
+      industryKeywords: { technology: ['software', 'database'] },
+      roleKeywords: { general: ['experience', 'results'] },
+      starMethodWeights: { situation: 0.2, task: 0.2, action: 0.4, result: 0.2 },
+      qualityThresholds: { excellent: 0.85, good: 0.70, fair: 0.55, poor: 0.40 },
+      grammarRules: { enableSpellCheck: true, enableGrammarCheck: true, enableStyleCheck: true, strictness: GrammarStrictness.MODERATE }
+    };
+
+    const buildRequest = (text: string, language?: string): TextAnalysisRequest => ({
+      text,
+      context: { questionType: QuestionType.BEHAVIORAL, expectedStructure: ResponseStructure.STAR, language },
+      options: {
+        enableContentQuality: true,
+        enableStructureAnalysis: true,
+        enableKeywordRelevance: true,
+        enableSTARMethod: true,
+        enableGrammarCheck: true,
+        enableSentimentAnalysis: true,
+        confidenceThreshold: 0.7
+      }
+    });
+
+    it('should find STAR components with German cue phrases', async () => {
+      const engine = new TextAnalysisEngine(config);
+
+      const result = await engine.analyzeText(buildRequest(
+        'Die Situation war schwierig, weil unsere Datenbank ständig ausfiel. Meine Aufgabe war es, die Ursache zu finden. ' +
+        'Ich habe ein Monitoring eingeführt und die Abfragen umgesetzt. Das Ergebnis: Wir haben die Ausfälle um 80 Prozent reduziert.'
+      ));
+
+      expect(result.languageSupport).toEqual({ language: 'de', supported: true, detected: true });
+      expect(result.starMethodAnalysis!.structure.situation.present).toBe(true);
+      expect(result.starMethodAnalysis!.structure.result.content).toContain('Ergebnis');
+    });
+
+    it('should keep German words with umlauts intact when scoring readability', async () => {
+      const engine = new TextAnalysisEngine(config);
+
+      const result = await engine.analyzeText(buildRequest('Wir prüften die Lösung. Sie lief schnell.', 'de'));
+
+      expect(result.contentQuality.metrics.wordCount).toBe(7);
+      expect(result.contentQuality.metrics.readabilityScore).toBeGreaterThan(0);
+    });
+
+    it('should reduce confidence when the language has no pack', async () => {
+      const engine = new TextAnalysisEngine(config);
+      const text = 'Dans mon dernier poste, j\'ai dirigé la migration de la base de données pour toute l\'équipe.';
+
+      const unsupported = await engine.analyzeText(buildRequest(text, 'fr'));
+      const supported = await engine.analyzeText(buildRequest(text, 'en'));
+
+      expect(unsupported.languageSupport?.supported).toBe(false);
+      expect(unsupported.confidence).toBeCloseTo(supported.confidence * 0.6);
+    });
+  });
+});
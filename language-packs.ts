@@ -0,0 +1,280 @@
+/**
+ * Language Packs
+ * Filler lexicons, STAR cue phrases, syllabification and readability formulas
+ * per language, with detection for transcripts whose language is not given
+ */
+
+import { logger } from '../utils/logger';
+import {
+  LanguagePack,
+  LanguageResolution,
+  ReadabilityStats,
+  AUTO_DETECT_LANGUAGE
+} from '../types/language-pack';
+
+export const UNDETERMINED_LANGUAGE = 'und';
+
+// Analysis confidence is scaled by this when no pack exists for the language
+export const UNSUPPORTED_LANGUAGE_CONFIDENCE_FACTOR = 0.6;
+
+const MIN_STOPWORD_SHARE = 0.05; // Below this, text is too short or too unusual to call
+const MIN_KNOWN_SCRIPT_SHARE = 0.5;
+
+const wordsPerSentence = (stats: ReadabilityStats): number => stats.words / Math.max(stats.sentences, 1);
+const syllablesPerWord = (stats: ReadabilityStats): number => stats.syllables / Math.max(stats.words, 1);
+
+const countVowelGroups = (word: string): number => {
+  const vowels = word.match(/[aeiouy]+/gi);
+  return Math.max(1, vowels ? vowels.length : 1);
+};
+
+// Spanish: adjacent strong vowels, or a stressed í/ú next to another vowel,
+// belong to separate syllables (hiatus); other vowel pairs are diphthongs
+const SPANISH_STRONG_VOWELS = 'aeoáéó';
+const SPANISH_STRESSED_WEAK_VOWELS = 'íú';
+
+const countSpanishSyllables = (word: string): number => {
+  const groups = word.toLowerCase().match(/[aeiouáéíóúü]+/g) || [];
+  const nuclei = groups.reduce((sum, group) => {
+    let count = 1;
+    for (let i = 1; i < group.length; i++) {
+      const [previous, current] = [group[i - 1], group[i]];
+      const hiatus = (SPANISH_STRONG_VOWELS.includes(previous) && SPANISH_STRONG_VOWELS.includes(current)) ||
+        SPANISH_STRESSED_WEAK_VOWELS.includes(previous) ||
+        SPANISH_STRESSED_WEAK_VOWELS.includes(current);
+      if (hiatus) count++;
+    }
+    return sum + count;
+  }, 0);
+  return Math.max(1, nuclei);
+};
+
+// German: diphthongs and long vowels written double are one nucleus
+const GERMAN_DIPHTHONGS = ['ei', 'ey', 'ai', 'ay', 'au', 'eu', 'äu', 'ie', 'aa', 'ee', 'oo'];
+
+const countGermanSyllables = (word: string): number => {
+  const groups = word.toLowerCase().match(/[aeiouäöüy]+/g) || [];
+  const nuclei = groups.reduce((sum, group) => {
+    let count = 0;
+    for (let i = 0; i < group.length; i += GERMAN_DIPHTHONGS.includes(group.slice(i, i + 2)) ? 2 : 1) {
+      count++;
+    }
+    return sum + count;
+  }, 0);
+  return Math.max(1, nuclei);
+};
+
+// Hindi: count aksharas - independent vowels, plus consonants that are not
+// joined to the next consonant by a virama. Romanized text falls back to vowel groups.
+const DEVANAGARI_AKSHARA = /[अ-औॠॡ]|[क-हक़-य़](?!़?्)/g;
+
+const countHindiSyllables = (word: string): number => {
+  const aksharas = word.match(DEVANAGARI_AKSHARA);
+  return aksharas ? aksharas.length : countVowelGroups(word);
+};
+
+export const ENGLISH_LANGUAGE_PACK: LanguagePack = {
+  code: 'en',
+  name: 'English',
+  fillers: {
+    verbal: ['um', 'uh', 'er', 'ah', 'hmm'],
+    lexical: ['like', 'you know', 'basically', 'actually', 'literally', 'i mean', 'sort of', 'kind of']
+  },
+  starIndicators: {
+    situation: ['situation', 'context', 'background', 'when', 'where', 'what happened'],
+    task: ['task', 'goal', 'objective', 'responsibility', 'needed to', 'had to'],
+    action: ['action', 'did', 'implemented', 'decided', 'approached', 'took steps'],
+    result: ['result', 'outcome', 'achieved', 'accomplished', 'impact', 'success']
+  },
+  starKeywords: {
+    situation: ['situation', 'faced', 'encountered', 'challenge', 'problem', 'issue'],
+    task: ['task', 'responsible', 'needed', 'required', 'goal', 'objective'],
+    action: ['action', 'did', 'implemented', 'decided', 'took', 'performed', 'executed'],
+    result: ['result', 'outcome', 'achieved', 'accomplished', 'success', 'impact', 'improved']
+  },
+  stopwords: [
+    'the', 'and', 'is', 'was', 'i', 'to', 'of', 'a', 'in', 'that', 'it', 'we', 'with', 'for', 'on',
+    'my', 'this', 'have', 'were', 'they'
+  ],
+  countSyllables: countVowelGroups,
+  // Flesch Reading Ease
+  readingEase: stats => 206.835 - 1.015 * wordsPerSentence(stats) - 84.6 * syllablesPerWord(stats)
+};
+
+export const SPANISH_LANGUAGE_PACK: LanguagePack = {
+  code: 'es',
+  name: 'Spanish',
+  fillers: {
+    verbal: ['eh', 'em', 'mmm', 'ehm'],
+    lexical: ['este', 'pues', 'o sea', 'bueno', 'digamos', 'como que', 'es decir', 'vale']
+  },
+  starIndicators: {
+    situation: ['situación', 'contexto', 'cuando', 'donde', 'lo que pasó', 'en ese momento'],
+    task: ['tarea', 'objetivo', 'meta', 'responsabilidad', 'tenía que', 'necesitaba'],
+    action: ['acción', 'hice', 'implementé', 'decidí', 'propuse', 'tomé medidas'],
+    result: ['resultado', 'logramos', 'conseguimos', 'impacto', 'éxito', 'mejoró']
+  },
+  starKeywords: {
+    situation: ['situación', 'enfrenté', 'reto', 'desafío', 'problema'],
+    task: ['tarea', 'responsable', 'necesitaba', 'objetivo', 'meta'],
+    action: ['acción', 'hice', 'implementé', 'decidí', 'organicé', 'desarrollé'],
+    result: ['resultado', 'logramos', 'conseguimos', 'éxito', 'impacto', 'mejoró', 'redujo', 'aumentó']
+  },
+  stopwords: [
+    'el', 'la', 'de', 'que', 'y', 'en', 'los', 'las', 'un', 'una', 'por', 'con', 'para', 'es', 'fue',
+    'lo', 'se', 'mi', 'del', 'al'
+  ],
+  countSyllables: countSpanishSyllables,
+  // Fernández Huerta
+  readingEase: stats => 206.84 - 60 * syllablesPerWord(stats) - 1.02 * wordsPerSentence(stats)
+};
+
+export const GERMAN_LANGUAGE_PACK: LanguagePack = {
+  code: 'de',
+  name: 'German',
+  fillers: {
+    verbal: ['äh', 'ähm', 'öh', 'hm', 'hmm'],
+    lexical: ['also', 'halt', 'quasi', 'sozusagen', 'irgendwie', 'eigentlich', 'na ja', 'ich meine']
+  },
+  starIndicators: {
+    situation: ['situation', 'kontext', 'hintergrund', 'als', 'damals', 'was passiert ist'],
+    task: ['aufgabe', 'ziel', 'verantwortung', 'musste', 'sollte', 'zuständig'],
+    action: ['maßnahme', 'habe ich', 'umgesetzt', 'entschieden', 'eingeführt', 'vorgeschlagen'],
+    result: ['ergebnis', 'erreicht', 'erfolg', 'auswirkung', 'verbessert', 'geschafft']
+  },
+  starKeywords: {
+    situation: ['situation', 'herausforderung', 'problem', 'stand vor'],
+    task: ['aufgabe', 'verantwortlich', 'zuständig', 'ziel', 'musste'],
+    action: ['habe', 'umgesetzt', 'entschieden', 'eingeführt', 'organisiert', 'entwickelt'],
+    result: ['ergebnis', 'erreicht', 'erfolg', 'verbessert', 'reduziert', 'gesteigert']
+  },
+  stopwords: [
+    'der', 'die', 'das', 'und', 'ich', 'ist', 'nicht', 'mit', 'wir', 'ein', 'eine', 'zu', 'auf', 'den',
+    'es', 'war', 'habe', 'auch', 'dem', 'haben'
+  ],
+  countSyllables: countGermanSyllables,
+  // Amstad's adaptation of Flesch Reading Ease
+  readingEase: stats => 180 - wordsPerSentence(stats) - 58.5 * syllablesPerWord(stats)
+};
+
+export const HINDI_LANGUAGE_PACK: LanguagePack = {
+  code: 'hi',
+  name: 'Hindi',
+  fillers: {
+    verbal: ['अ', 'अं', 'उम', 'हम्म', 'um', 'uh'],
+    lexical: ['मतलब', 'यानी', 'वो क्या है', 'जैसे कि', 'बस', 'matlab', 'basically']
+  },
+  starIndicators: {
+    situation: ['स्थिति', 'परिस्थिति', 'जब', 'उस समय', 'क्या हुआ'],
+    task: ['काम', 'लक्ष्य', 'उद्देश्य', 'ज़िम्मेदारी', 'करना था'],
+    action: ['मैंने', 'किया', 'लागू किया', 'फ़ैसला', 'तय किया'],
+    result: ['परिणाम', 'नतीजा', 'सफलता', 'हासिल', 'सुधार']
+  },
+  starKeywords: {
+    situation: ['स्थिति', 'समस्या', 'चुनौती', 'परेशानी'],
+    task: ['काम', 'ज़िम्मेदार', 'लक्ष्य', 'ज़रूरत'],
+    action: ['मैंने', 'किया', 'लागू', 'बनाया', 'शुरू'],
+    result: ['परिणाम', 'नतीजा', 'सफल', 'हासिल', 'सुधार', 'बढ़', 'कम हुआ']
+  },
+  stopwords: [
+    'है', 'का', 'की', 'के', 'में', 'और', 'को', 'से', 'मैंने', 'था', 'थी', 'यह', 'वह', 'हम', 'पर',
+    'भी', 'कि', 'ने', 'हैं', 'तो'
+  ],
+  countSyllables: countHindiSyllables,
+  // No established formula exists for Hindi. Flesch's sentence weight is kept
+  // and the word weight reduced, since akshara counts run above spoken
+  // syllables (the inherent vowel is often silent).
+  readingEase: stats => 206.835 - 1.015 * wordsPerSentence(stats) - 65 * syllablesPerWord(stats)
+};
+
+export const DEFAULT_LANGUAGE_PACKS: LanguagePack[] = [
+  ENGLISH_LANGUAGE_PACK,
+  SPANISH_LANGUAGE_PACK,
+  GERMAN_LANGUAGE_PACK,
+  HINDI_LANGUAGE_PACK
+];
+
+export class LanguagePackRegistry {
+  private packs = new Map<string, LanguagePack>();
+  private defaultLanguage: string;
+
+  constructor(packs: LanguagePack[] = DEFAULT_LANGUAGE_PACKS, defaultLanguage: string = 'en') {
+    packs.forEach(pack => this.register(pack));
+    this.defaultLanguage = defaultLanguage;
+  }
+
+  register(pack: LanguagePack): void {
+    this.packs.set(pack.code, pack);
+  }
+
+  get(language: string): LanguagePack | undefined {
+    return this.packs.get(this.normalize(language));
+  }
+
+  list(): LanguagePack[] {
+    return Array.from(this.packs.values());
+  }
+
+  /**
+   * Normalize 'en-US', 'EN' or a name such as 'english' to an ISO 639-1 code
+   */
+  normalize(language: string): string {
+    const lower = language.trim().toLowerCase();
+    const named = this.list().find(pack => pack.name.toLowerCase() === lower);
+    if (named) return named.code;
+    return lower.split(/[-_]/)[0];
+  }
+
+  /**
+   * Guess the language of a text from its script and stopwords. Returns
+   * 'und' for text mostly in a script no pack covers, and undefined when
+   * there is too little evidence either way.
+   */
+  detect(text: string): string | undefined {
+    const letters = text.match(/\p{L}/gu) || [];
+    if (letters.length === 0) {
+      return undefined;
+    }
+
+    const known = letters.filter(letter => /\p{Script=Latin}|\p{Script=Devanagari}/u.test(letter)).length;
+    if (known / letters.length < MIN_KNOWN_SCRIPT_SHARE) {
+      return UNDETERMINED_LANGUAGE;
+    }
+
+    const words = text.toLowerCase().split(/[^\p{L}\p{M}]+/u).filter(word => word.length > 0);
+    let best: { code: string; share: number } | undefined;
+    for (const pack of this.packs.values()) {
+      const stopwords = new Set(pack.stopwords);
+      const share = words.filter(word => stopwords.has(word)).length / Math.max(words.length, 1);
+      if (!best || share > best.share) {
+        best = { code: pack.code, share };
+      }
+    }
+
+    return best && best.share >= MIN_STOPWORD_SHARE ? best.code : undefined;
+  }
+
+  /**
+   * Pick the pack for a requested language, detecting it from the text when
+   * the request leaves it open. Unsupported languages fall back to the
+   * default pack and are reported as such.
+   */
+  resolve(requested: string | undefined, text: string = ''): LanguageResolution {
+    const normalized = requested ? this.normalize(requested) : '';
+    const detected = !normalized || normalized === AUTO_DETECT_LANGUAGE;
+    const language = detected ? this.detect(text) || this.defaultLanguage : normalized;
+    const pack = this.packs.get(language);
+
+    if (!pack) {
+      logger.warn('No language pack available, falling back to default heuristics', {
+        language,
+        fallback: this.defaultLanguage
+      });
+    }
+
+    return {
+      pack: pack || this.packs.get(this.defaultLanguage)!,
+      support: { language, supported: !!pack, detected }
+    };
+  }
+}
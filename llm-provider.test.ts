@@ -0,0 +1,248 @@
+import axios from 'axios';
+import { DefaultAIInterviewerService } from '../services/ai-interviewer-service';
+import { PersonalityManager } from '../services/personality-manager';
+import {
+  ScriptedLLMProvider,
+  OpenAICompatibleLLMProvider,
+  createLLMProvider,
+  createLLMProviderFromEnv,
+} from '../services/llm-providers';
+import { LLMProviderType, LLMTask, LLMProviderError } from '../types/llm-provider';
+import {
+  QuestionGenerationContext,
+  AIPersonalityConfig,
+  QuestionType,
+  DifficultyLevel,
+  FocusArea,
+  InterviewStyle,
+  InterviewTone,
+  FormalityLevel,
+} from '../types/ai-interviewer';
+
+jest.mock('axios');
+
+describe('LLM Provider Layer', () => {
+  const personalityConfig: AIPersonalityConfig = {
+    name: 'Test Interviewer',
+    style: InterviewStyle.STRUCTURED,
+    tone: InterviewTone.PROFESSIONAL,
+    formality: FormalityLevel.SEMI_FORMAL,
+    adaptiveness: 0.7,
+    followUpIntensity: 0.6,
+    encouragementLevel: 0.8,
+  };
+
+  const createContext = (): QuestionGenerationContext => ({
+    sessionId: 'offline-session',
+    userId: 'offline-user',
+    interviewConfig: {
+      id: 'offline-config',
+      role: 'Software Engineer',
+      industry: 'Technology',
+      difficulty: DifficultyLevel.MID,
+      duration: 60,
+      questionTypes: [QuestionType.BEHAVIORAL],
+      focusAreas: [FocusArea.PROBLEM_SOLVING],
+      aiPersonality: personalityConfig,
+    },
+    currentQuestionIndex: 0,
+    previousResponses: [],
+    personalityState: PersonalityManager.initializePersonality(personalityConfig),
+    questionType: QuestionType.BEHAVIORAL,
+  });
+
+  describe('ScriptedLLMProvider', () => {
+    it('should answer from the first matching fixture', async () => {
+      const provider = new ScriptedLLMProvider([
+        { task: LLMTask.FOLLOW_UP_GENERATION, response: 'follow-up' },
+        { task: LLMTask.QUESTION_GENERATION, pattern: 'Kafka', response: 'kafka question' },
+        { task: LLMTask.QUESTION_GENERATION, response: 'generic question' },
+      ]);
+
+      const kafka = await provider.complete({
+        task: LLMTask.QUESTION_GENERATION,
+        messages: [{ role: 'user', content: 'Ask about Kafka' }],
+      });
+      const generic = await provider.complete({
+        task: LLMTask.QUESTION_GENERATION,
+        messages: [{ role: 'user', content: 'Ask anything' }],
+      });
+
+      expect(kafka.content).toBe('kafka question');
+      expect(generic.content).toBe('generic question');
+      expect(kafka.provider).toBe(LLMProviderType.SCRIPTED);
+      expect(kafka.usage?.totalTokens).toBeGreaterThan(0);
+    });
+
+    it('should consume one-shot fixtures', async () => {
+      const provider = new ScriptedLLMProvider([
+        { task: LLMTask.RESPONSE_EVALUATION, response: 'first', once: true },
+        { task: LLMTask.RESPONSE_EVALUATION, response: 'second' },
+      ]);
+      const request = { task: LLMTask.RESPONSE_EVALUATION, messages: [{ role: 'user' as const, content: 'x' }] };
+
+      expect((await provider.complete(request)).content).toBe('first');
+      expect((await provider.complete(request)).content).toBe('second');
+      expect((await provider.complete(request)).content).toBe('second');
+      expect(provider.getHistory()).toHaveLength(3);
+    });
+
+    it('should be deterministic without fixtures', async () => {
+      const first = new ScriptedLLMProvider();
+      const second = new ScriptedLLMProvider();
+      const request = { task: LLMTask.QUESTION_GENERATION, messages: [{ role: 'user' as const, content: 'q' }] };
+
+      for (let i = 0; i < 3; i++) {
+        const a = await first.complete(request);
+        const b = await second.complete(request);
+        expect(a.content).toBe(b.content);
+        expect(() => JSON.parse(a.content)).not.toThrow();
+      }
+    });
+  });
+
+  describe('Offline interview through DefaultAIInterviewerService', () => {
+    it('should run question, follow-up and evaluation without network access', async () => {
+      const provider = new ScriptedLLMProvider();
+      const service = new DefaultAIInterviewerService(provider);
+      const context = createContext();
+
+      const question = await service.generateQuestion(context);
+      expect(question.metadata.source).toBe('ai_generated');
+      expect(question.metadata.modelVersion).toBe('scripted-v1');
+
+      const userResponse = {
+        questionId: question.id,
+        questionText: question.text,
+        responseText: 'I led the migration and cut latency by 40%.',
+        duration: 90,
+        isSkipped: false,
+        timestamp: new Date(),
+      };
+
+      const followUp = await service.generateFollowUpQuestion({
+        sessionId: context.sessionId,
+        userId: context.userId,
+        originalQuestion: question,
+        userResponse,
+        personalityState: context.personalityState,
+        interviewConfig: context.interviewConfig,
+      });
+      expect(followUp.category).toBe('follow_up');
+
+      const evaluation = await service.evaluateResponse({
+        sessionId: context.sessionId,
+        question,
+        userResponse,
+        evaluationCriteria: question.evaluationCriteria,
+        personalityState: context.personalityState,
+      });
+      expect(evaluation.overallScore).toBe(72);
+      expect(evaluation.metadata.flags).not.toContain('parsing_error');
+
+      expect(provider.getHistory().map(request => request.task)).toEqual([
+        LLMTask.QUESTION_GENERATION,
+        LLMTask.FOLLOW_UP_GENERATION,
+        LLMTask.RESPONSE_EVALUATION,
+      ]);
+    });
+
+    it('should wrap provider failures in QuestionGenerationError', async () => {
+      const provider = new ScriptedLLMProvider([
+        {
+          task: LLMTask.QUESTION_GENERATION,
+          response: () => {
+            throw new LLMProviderError('backend down', LLMProviderType.SCRIPTED);
+          },
+        },
+      ]);
+      const service = new DefaultAIInterviewerService(provider);
+
+      await expect(service.generateQuestion(createContext())).rejects.toThrow('backend down');
+    });
+  });
+
+  describe('OpenAICompatibleLLMProvider', () => {
+    const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it('should post chat completions to the configured endpoint', async () => {
+      mockedAxios.post.mockResolvedValue({
+        data: {
+          model: 'llama-3-8b',
+          choices: [{ message: { content: '{"text":"hi"}' }, finish_reason: 'stop' }],
+          usage: { prompt_tokens: 12, completion_tokens: 4, total_tokens: 16 },
+        },
+      });
+
+      const provider = new OpenAICompatibleLLMProvider({
+        baseUrl: 'http://localhost:8080/v1/',
+        model: 'llama-3-8b',
+      });
+      const result = await provider.complete({
+        task: LLMTask.QUESTION_GENERATION,
+        messages: [{ role: 'user', content: 'hello' }],
+        maxTokens: 100,
+      });
+
+      expect(mockedAxios.post).toHaveBeenCalledWith(
+        'http://localhost:8080/v1/chat/completions',
+        expect.objectContaining({ model: 'llama-3-8b', max_tokens: 100 }),
+        expect.any(Object)
+      );
+      expect(result.content).toBe('{"text":"hi"}');
+      expect(result.usage).toEqual({ promptTokens: 12, completionTokens: 4, totalTokens: 16 });
+    });
+
+    it('should keep multi-byte characters that are split across stream chunks', async () => {
+      const events = Buffer.from([
+        'data: {"model":"llama-3-8b","choices":[{"delta":{"content":"Café "}}]}',
+        'data: {"choices":[{"delta":{"content":"naïve — 日本"}}]}',
+        'data: [DONE]',
+        '',
+      ].join('\n'), 'utf8');
+      // Cut every chunk three bytes long, so each multi-byte character lands across a boundary
+      const chunks: Buffer[] = [];
+      for (let offset = 0; offset < events.length; offset += 3) {
+        chunks.push(events.subarray(offset, offset + 3));
+      }
+      mockedAxios.post.mockResolvedValue({
+        data: (async function* () {
+          yield* chunks;
+        })(),
+      });
+
+      const provider = new OpenAICompatibleLLMProvider({ baseUrl: 'http://localhost:8080/v1', model: 'llama-3-8b' });
+      let streamed = '';
+      for await (const chunk of provider.stream({ task: LLMTask.QUESTION_GENERATION, messages: [{ role: 'user', content: 'x' }] })) {
+        streamed += chunk.delta;
+      }
+
+      expect(streamed).toBe('Café naïve — 日本');
+    });
+
+    it('should raise LLMProviderError when the endpoint fails', async () => {
+      mockedAxios.post.mockRejectedValue(new Error('ECONNREFUSED'));
+
+      const provider = new OpenAICompatibleLLMProvider({ baseUrl: 'http://localhost:8080/v1', model: 'local' });
+
+      await expect(
+        provider.complete({ task: LLMTask.RESPONSE_EVALUATION, messages: [{ role: 'user', content: 'x' }] })
+      ).rejects.toBeInstanceOf(LLMProviderError);
+    });
+  });
+
+  describe('Provider factory', () => {
+    it('should build the provider named by LLM_PROVIDER', () => {
+      const provider = createLLMProviderFromEnv({ LLM_PROVIDER: 'scripted' } as NodeJS.ProcessEnv);
+      expect(provider.type).toBe(LLMProviderType.SCRIPTED);
+    });
+
+    it('should reject unknown provider types', () => {
+      expect(() => createLLMProvider({ type: 'unknown' as LLMProviderType })).toThrow(LLMProviderError);
+    });
+  });
+});
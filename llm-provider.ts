@@ -0,0 +1,93 @@
+// LLM Provider Types and Interfaces
+
+import { AIInterviewerError } from './ai-interviewer';
+
+export interface LLMProvider {
+  readonly type: LLMProviderType;
+  readonly model: string;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletionResult>;
+  stream?(request: LLMCompletionRequest): AsyncIterable<LLMStreamChunk>;
+}
+
+export interface LLMCompletionRequest {
+  task: LLMTask;
+  messages: LLMMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  metadata?: Record<string, any>;
+}
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMCompletionResult {
+  content: string;
+  model: string;
+  provider: LLMProviderType;
+  usage?: LLMTokenUsage;
+  finishReason?: string;
+}
+
+export interface LLMStreamChunk {
+  delta: string;
+  model?: string;
+  usage?: LLMTokenUsage; // Usually only present on the final chunk
+  finishReason?: string;
+}
+
+export interface LLMTokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMProviderConfig {
+  type: LLMProviderType;
+  model?: string;
+  apiKey?: string;
+  baseUrl?: string;
+  timeoutMs?: number;
+  headers?: Record<string, string>;
+  fixtures?: ScriptedFixture[];
+}
+
+/**
+ * A canned completion for the scripted provider. Fixtures are matched in
+ * order: the first one whose task (and pattern, if set) matches the request
+ * is used. Fixtures with `once` set are consumed after their first match.
+ */
+export interface ScriptedFixture {
+  task?: LLMTask;
+  pattern?: string | RegExp;
+  response: string | ((request: LLMCompletionRequest) => string);
+  once?: boolean;
+}
+
+// Enums
+export enum LLMProviderType {
+  OPENAI = 'openai',
+  OPENAI_COMPATIBLE = 'openai_compatible',
+  SCRIPTED = 'scripted',
+}
+
+export enum LLMTask {
+  QUESTION_GENERATION = 'question_generation',
+  FOLLOW_UP_GENERATION = 'follow_up_generation',
+  RESPONSE_EVALUATION = 'response_evaluation',
+  TECHNICAL_EVALUATION = 'technical_evaluation',
+}
+
+// Error types
+export class LLMProviderError extends AIInterviewerError {
+  constructor(
+    message: string,
+    public provider: LLMProviderType,
+    public task?: LLMTask,
+    statusCode: number = 502
+  ) {
+    super(message, 'LLM_PROVIDER_ERROR', statusCode);
+    this.name = 'LLMProviderError';
+  }
+}
@@ -0,0 +1,493 @@
+import OpenAI from 'openai';
+import axios from 'axios';
+import { StringDecoder } from 'string_decoder';
+import {
+  LLMProvider,
+  LLMProviderType,
+  LLMProviderConfig,
+  LLMCompletionRequest,
+  LLMCompletionResult,
+  LLMStreamChunk,
+  LLMTask,
+  LLMTokenUsage,
+  ScriptedFixture,
+  LLMProviderError,
+} from '../types/llm-provider';
+import { logger } from '../utils/logger';
+import { estimateTokens } from '../utils/token-estimator';
+
+/**
+ * Adapter for the hosted OpenAI chat completions API
+ */
+export class OpenAILLMProvider implements LLMProvider {
+  readonly type = LLMProviderType.OPENAI;
+  readonly model: string;
+  private client: OpenAI;
+
+  constructor(config: { apiKey?: string; model?: string; baseUrl?: string } = {}) {
+    this.model = config.model || 'gpt-4';
+    this.client = new OpenAI({
+      apiKey: config.apiKey || process.env.OPENAI_API_KEY,
+      ...(config.baseUrl ? { baseURL: config.baseUrl } : {}),
+    });
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResult> {
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+    });
+
+    const content = completion.choices[0]?.message?.content;
+    if (!content) {
+      throw new LLMProviderError('No response from OpenAI', this.type, request.task);
+    }
+
+    return {
+      content,
+      model: completion.model || this.model,
+      provider: this.type,
+      usage: mapUsage(completion.usage),
+      finishReason: completion.choices[0]?.finish_reason || undefined,
+    };
+  }
+
+  async *stream(request: LLMCompletionRequest): AsyncIterable<LLMStreamChunk> {
+    const stream = await this.client.chat.completions.create({
+      model: this.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      stream: true,
+    });
+
+    for await (const chunk of stream) {
+      yield {
+        delta: chunk.choices[0]?.delta?.content || '',
+        model: chunk.model,
+        usage: mapUsage((chunk as any).usage),
+        finishReason: chunk.choices[0]?.finish_reason || undefined,
+      };
+    }
+  }
+}
+
+/**
+ * Adapter for self-hosted models exposing an OpenAI-compatible
+ * `/chat/completions` endpoint (vLLM, llama.cpp server, Ollama, LocalAI, ...)
+ */
+export class OpenAICompatibleLLMProvider implements LLMProvider {
+  readonly type = LLMProviderType.OPENAI_COMPATIBLE;
+  readonly model: string;
+  private baseUrl: string;
+  private apiKey?: string;
+  private timeoutMs: number;
+  private headers: Record<string, string>;
+
+  constructor(config: { baseUrl: string; model: string; apiKey?: string; timeoutMs?: number; headers?: Record<string, string> }) {
+    if (!config.baseUrl) {
+      throw new LLMProviderError('baseUrl is required for an OpenAI-compatible provider', LLMProviderType.OPENAI_COMPATIBLE, undefined, 500);
+    }
+
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    this.model = config.model;
+    this.apiKey = config.apiKey;
+    this.timeoutMs = config.timeoutMs || 60000;
+    this.headers = config.headers || {};
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResult> {
+    try {
+      const response = await axios.post(
+        `${this.baseUrl}/chat/completions`,
+        {
+          model: this.model,
+          messages: request.messages,
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+          stream: false,
+        },
+        {
+          timeout: this.timeoutMs,
+          headers: {
+            'Content-Type': 'application/json',
+            ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+            ...this.headers,
+          },
+        }
+      );
+
+      const choice = response.data?.choices?.[0];
+      const content = choice?.message?.content;
+      if (!content) {
+        throw new LLMProviderError(`No response from model endpoint ${this.baseUrl}`, this.type, request.task);
+      }
+
+      return {
+        content,
+        model: response.data.model || this.model,
+        provider: this.type,
+        usage: mapUsage(response.data.usage),
+        finishReason: choice.finish_reason || undefined,
+      };
+    } catch (error) {
+      if (error instanceof LLMProviderError) {
+        throw error;
+      }
+
+      throw new LLMProviderError(
+        `Model endpoint request failed: ${error instanceof Error ? error.message : String(error)}`,
+        this.type,
+        request.task
+      );
+    }
+  }
+
+  async *stream(request: LLMCompletionRequest): AsyncIterable<LLMStreamChunk> {
+    let response;
+    try {
+      response = await axios.post(
+        `${this.baseUrl}/chat/completions`,
+        {
+          model: this.model,
+          messages: request.messages,
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+          stream: true,
+        },
+        {
+          timeout: this.timeoutMs,
+          responseType: 'stream',
+          headers: {
+            'Content-Type': 'application/json',
+            Accept: 'text/event-stream',
+            ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+            ...this.headers,
+          },
+        }
+      );
+    } catch (error) {
+      throw new LLMProviderError(
+        `Model endpoint request failed: ${error instanceof Error ? error.message : String(error)}`,
+        this.type,
+        request.task
+      );
+    }
+
+    // The endpoint replies with server-sent events: `data: {...}` lines ending with `data: [DONE]`
+    for await (const line of readLines(response.data)) {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) {
+        continue;
+      }
+
+      const payload = trimmed.substring(5).trim();
+      if (payload === '[DONE]') {
+        return;
+      }
+
+      let parsed: any;
+      try {
+        parsed = JSON.parse(payload);
+      } catch {
+        logger.warn('Skipping malformed stream event from model endpoint', { payload });
+        continue;
+      }
+
+      const choice = parsed.choices?.[0];
+      yield {
+        delta: choice?.delta?.content || '',
+        model: parsed.model,
+        usage: mapUsage(parsed.usage),
+        finishReason: choice?.finish_reason || undefined,
+      };
+    }
+  }
+}
+
+/**
+ * Deterministic provider that answers from fixtures instead of a model.
+ * Used in CI and on machines without network access; with no fixtures
+ * configured it falls back to a built-in script that is enough to run a
+ * whole interview end to end.
+ */
+export class ScriptedLLMProvider implements LLMProvider {
+  readonly type = LLMProviderType.SCRIPTED;
+  readonly model: string;
+  private fixtures: ScriptedFixture[];
+  private callCounts: Map<LLMTask, number> = new Map();
+  private history: LLMCompletionRequest[] = [];
+
+  constructor(fixtures: ScriptedFixture[] = [], model: string = 'scripted-v1') {
+    this.fixtures = [...fixtures];
+    this.model = model;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResult> {
+    const callIndex = this.callCounts.get(request.task) || 0;
+    this.callCounts.set(request.task, callIndex + 1);
+    this.history.push(request);
+
+    const prompt = request.messages.map(message => message.content).join('\n');
+    const fixtureIndex = this.fixtures.findIndex(fixture => this.matches(fixture, request.task, prompt));
+
+    let content: string;
+    if (fixtureIndex >= 0) {
+      const fixture = this.fixtures[fixtureIndex];
+      content = typeof fixture.response === 'function' ? fixture.response(request) : fixture.response;
+      if (fixture.once) {
+        this.fixtures.splice(fixtureIndex, 1);
+      }
+    } else {
+      content = getDefaultScriptedResponse(request.task, callIndex);
+    }
+
+    const promptTokens = estimateTokens(prompt);
+    const completionTokens = estimateTokens(content);
+
+    return {
+      content,
+      model: this.model,
+      provider: this.type,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+      },
+      finishReason: 'stop',
+    };
+  }
+
+  async *stream(request: LLMCompletionRequest): AsyncIterable<LLMStreamChunk> {
+    const result = await this.complete(request);
+    const pieces = result.content.match(/\S+\s*|\s+/g) || [];
+
+    for (let i = 0; i < pieces.length; i++) {
+      const isLast = i === pieces.length - 1;
+      yield {
+        delta: pieces[i],
+        model: result.model,
+        ...(isLast ? { usage: result.usage, finishReason: result.finishReason } : {}),
+      };
+    }
+  }
+
+  /**
+   * Add fixtures after construction (e.g. per test case)
+   */
+  addFixtures(...fixtures: ScriptedFixture[]): void {
+    this.fixtures.push(...fixtures);
+  }
+
+  /**
+   * Requests received so far, in call order
+   */
+  getHistory(): LLMCompletionRequest[] {
+    return [...this.history];
+  }
+
+  reset(): void {
+    this.callCounts.clear();
+    this.history = [];
+  }
+
+  private matches(fixture: ScriptedFixture, task: LLMTask, prompt: string): boolean {
+    if (fixture.task && fixture.task !== task) {
+      return false;
+    }
+
+    if (fixture.pattern === undefined) {
+      return true;
+    }
+
+    return typeof fixture.pattern === 'string'
+      ? prompt.includes(fixture.pattern)
+      : fixture.pattern.test(prompt);
+  }
+}
+
+/**
+ * Create a provider from explicit configuration
+ */
+export function createLLMProvider(config: LLMProviderConfig): LLMProvider {
+  switch (config.type) {
+    case LLMProviderType.OPENAI:
+      return new OpenAILLMProvider({
+        apiKey: config.apiKey,
+        model: config.model,
+        baseUrl: config.baseUrl,
+      });
+
+    case LLMProviderType.OPENAI_COMPATIBLE:
+      return new OpenAICompatibleLLMProvider({
+        baseUrl: config.baseUrl || '',
+        model: config.model || 'default',
+        apiKey: config.apiKey,
+        timeoutMs: config.timeoutMs,
+        headers: config.headers,
+      });
+
+    case LLMProviderType.SCRIPTED:
+      return new ScriptedLLMProvider(config.fixtures, config.model);
+
+    default:
+      throw new LLMProviderError(`Unsupported LLM provider: ${config.type}`, config.type, undefined, 500);
+  }
+}
+
+/**
+ * Create a provider from environment variables.
+ *
+ * LLM_PROVIDER selects the adapter (openai | openai_compatible | scripted,
+ * default openai). LLM_MODEL, LLM_BASE_URL, LLM_API_KEY and LLM_TIMEOUT_MS
+ * configure it; OPENAI_API_KEY is still honoured for the OpenAI adapter.
+ */
+export function createLLMProviderFromEnv(env: NodeJS.ProcessEnv = process.env): LLMProvider {
+  const type = (env.LLM_PROVIDER || LLMProviderType.OPENAI) as LLMProviderType;
+
+  logger.info('Creating LLM provider', { type, model: env.LLM_MODEL });
+
+  return createLLMProvider({
+    type,
+    model: env.LLM_MODEL,
+    apiKey: env.LLM_API_KEY || (type === LLMProviderType.OPENAI ? env.OPENAI_API_KEY : undefined),
+    baseUrl: env.LLM_BASE_URL,
+    timeoutMs: env.LLM_TIMEOUT_MS ? parseInt(env.LLM_TIMEOUT_MS, 10) : undefined,
+  });
+}
+
+function mapUsage(usage: any): LLMTokenUsage | undefined {
+  if (!usage) {
+    return undefined;
+  }
+
+  const promptTokens = usage.prompt_tokens || 0;
+  const completionTokens = usage.completion_tokens || 0;
+
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: usage.total_tokens || promptTokens + completionTokens,
+  };
+}
+
+// Network chunks can end inside a multi-byte character, so bytes are decoded
+// across chunk boundaries before the text is split into lines
+async function* readLines(chunks: AsyncIterable<Buffer>): AsyncIterable<string> {
+  const decoder = new StringDecoder('utf8');
+  let pending = '';
+
+  for await (const chunk of chunks) {
+    pending += decoder.write(chunk);
+    const lines = pending.split('\n');
+    pending = lines.pop() || '';
+    yield* lines;
+  }
+
+  pending += decoder.end();
+  if (pending) {
+    yield pending;
+  }
+}
+
+const SCRIPTED_QUESTIONS = [
+  {
+    text: 'Tell me about a time you had to deliver a project under a tight deadline.',
+    category: 'behavioral',
+    expectedStructure: 'star',
+  },
+  {
+    text: 'Describe a disagreement with a teammate and how you resolved it.',
+    category: 'teamwork',
+    expectedStructure: 'star',
+  },
+  {
+    text: 'Walk me through how you would design a URL shortening service.',
+    category: 'system_design',
+    expectedStructure: 'structured',
+  },
+  {
+    text: 'What is the most technically challenging problem you have solved recently?',
+    category: 'problem_solving',
+    expectedStructure: 'star',
+  },
+  {
+    text: 'How do you decide what to prioritise when everything seems urgent?',
+    category: 'situational',
+    expectedStructure: 'free_form',
+  },
+];
+
+function getDefaultScriptedResponse(task: LLMTask, callIndex: number): string {
+  switch (task) {
+    case LLMTask.QUESTION_GENERATION: {
+      const question = SCRIPTED_QUESTIONS[callIndex % SCRIPTED_QUESTIONS.length];
+      return JSON.stringify({
+        ...question,
+        timeLimit: 300,
+        context: 'Scripted question for offline interviews',
+        evaluationCriteria: [
+          { name: 'Content Quality', description: 'Relevance and depth of the response', weight: 0.4, type: 'content_quality' },
+          { name: 'Communication', description: 'Clarity and articulation of ideas', weight: 0.3, type: 'communication' },
+          { name: 'Structure', description: 'Organization and flow of the response', weight: 0.3, type: 'structure' },
+        ],
+      });
+    }
+
+    case LLMTask.FOLLOW_UP_GENERATION:
+      return JSON.stringify({
+        text: 'Can you walk me through the specific steps you took and what the measurable outcome was?',
+        category: 'follow_up',
+        timeLimit: 180,
+        context: 'Scripted follow-up probing for concrete detail',
+      });
+
+    case LLMTask.RESPONSE_EVALUATION:
+      return JSON.stringify({
+        overallScore: 72,
+        criteriaScores: [
+          { criteriaName: 'Content Quality', score: 74, feedback: 'Relevant example with reasonable depth' },
+          { criteriaName: 'Communication', score: 72, feedback: 'Generally clear delivery' },
+          { criteriaName: 'Structure', score: 70, feedback: 'Could separate situation and result more clearly' },
+        ],
+        strengths: ['Used a concrete example'],
+        improvements: ['Quantify the outcome'],
+        followUpSuggestions: ['Ask about measurable results'],
+        confidence: 0.8,
+      });
+
+    case LLMTask.TECHNICAL_EVALUATION:
+      return JSON.stringify({
+        overallScore: 70,
+        technicalAccuracy: 72,
+        completeness: 68,
+        criteriaScores: [
+          { criteriaName: 'Technical Accuracy', score: 72, feedback: 'Core concepts are correct' },
+        ],
+        roleSpecificScores: [
+          { skillName: 'Problem Solving', score: 70, importance: 'high', feedback: 'Reasonable approach', examples: [] },
+        ],
+        difficultyAssessment: {
+          perceivedDifficulty: 'mid',
+          actualPerformance: 70,
+          isAppropriate: true,
+          reasoning: 'Performance matches the question level',
+        },
+        adaptationRecommendation: {
+          recommendedLevel: 'mid',
+          confidence: 0.7,
+          reasoning: 'Maintain current level',
+          adaptationStrategy: 'maintain_level',
+        },
+        strengths: ['Identified the main components'],
+        improvements: ['Discuss edge cases'],
+        followUpSuggestions: ['Ask about complexity trade-offs'],
+        confidence: 0.8,
+      });
+
+    default:
+      return '{}';
+  }
+}
@@ -0,0 +1,145 @@
+import { Pool } from 'pg';
+import {
+  LLMUsageFilter,
+  LLMUsageGroupTotals,
+  LLMUsageRecord,
+  LLMUsageRepository
+} from '../types/llm-usage';
+import { db } from './connection';
+
+export class PostgresLLMUsageRepository implements LLMUsageRepository {
+  constructor(private pool: Pool = db) {}
+
+  async saveRecord(record: LLMUsageRecord): Promise<void> {
+    const query = `
+      INSERT INTO llm_usage_records (
+        id, session_id, user_id, task, provider, model, prompt_tokens, completion_tokens,
+        total_tokens, cost_usd, estimated, duration_ms, created_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+    `;
+
+    await this.pool.query(query, [
+      record.id,
+      record.sessionId || null,
+      record.userId || null,
+      record.task,
+      record.provider,
+      record.model,
+      record.promptTokens,
+      record.completionTokens,
+      record.totalTokens,
+      record.costUsd,
+      record.estimated,
+      record.durationMs ?? null,
+      record.createdAt
+    ]);
+  }
+
+  async assignSessionUser(sessionId: string, userId: string): Promise<void> {
+    await this.pool.query(
+      'UPDATE llm_usage_records SET user_id = $2 WHERE session_id = $1 AND user_id IS NULL',
+      [sessionId, userId]
+    );
+  }
+
+  async findSessionUser(sessionId: string): Promise<string | null> {
+    const result = await this.pool.query(
+      `SELECT user_id FROM llm_usage_records
+       WHERE session_id = $1 AND user_id IS NOT NULL
+       ORDER BY created_at DESC
+       LIMIT 1`,
+      [sessionId]
+    );
+
+    return result.rows[0]?.user_id || null;
+  }
+
+  async findRecords(filter: LLMUsageFilter): Promise<LLMUsageRecord[]> {
+    const { where, values } = this.buildFilter(filter);
+    const result = await this.pool.query(
+      `SELECT * FROM llm_usage_records ${where} ORDER BY created_at ASC`,
+      values
+    );
+
+    return result.rows.map(row => this.mapRowToRecord(row));
+  }
+
+  async sumUsage(filter: LLMUsageFilter): Promise<LLMUsageGroupTotals[]> {
+    const { where, values } = this.buildFilter(filter);
+    const query = `
+      SELECT task, model,
+             COUNT(*) AS calls,
+             SUM(prompt_tokens) AS prompt_tokens,
+             SUM(completion_tokens) AS completion_tokens,
+             SUM(total_tokens) AS total_tokens,
+             SUM(cost_usd) AS cost_usd,
+             COUNT(*) FILTER (WHERE estimated) AS estimated_calls,
+             MIN(created_at) AS first_call_at,
+             MAX(created_at) AS last_call_at
+      FROM llm_usage_records
+      ${where}
+      GROUP BY task, model
+      ORDER BY first_call_at ASC
+    `;
+
+    const result = await this.pool.query(query, values);
+
+    // pg returns COUNT, SUM over integers and NUMERIC columns as strings
+    return result.rows.map(row => ({
+      task: row.task,
+      model: row.model,
+      totals: {
+        calls: parseInt(row.calls, 10),
+        promptTokens: parseInt(row.prompt_tokens, 10),
+        completionTokens: parseInt(row.completion_tokens, 10),
+        totalTokens: parseInt(row.total_tokens, 10),
+        costUsd: parseFloat(row.cost_usd),
+        estimatedCalls: parseInt(row.estimated_calls, 10)
+      },
+      firstCallAt: new Date(row.first_call_at),
+      lastCallAt: new Date(row.last_call_at)
+    }));
+  }
+
+  private buildFilter(filter: LLMUsageFilter): { where: string; values: any[] } {
+    const conditions: string[] = [];
+    const values: any[] = [];
+
+    if (filter.sessionId) {
+      values.push(filter.sessionId);
+      conditions.push(`session_id = $${values.length}`);
+    }
+    if (filter.userId) {
+      values.push(filter.userId);
+      conditions.push(`user_id = $${values.length}`);
+    }
+    if (filter.from) {
+      values.push(filter.from);
+      conditions.push(`created_at >= $${values.length}`);
+    }
+    if (filter.to) {
+      values.push(filter.to);
+      conditions.push(`created_at <= $${values.length}`);
+    }
+
+    return { where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '', values };
+  }
+
+  private mapRowToRecord(row: any): LLMUsageRecord {
+    return {
+      id: row.id,
+      sessionId: row.session_id || undefined,
+      userId: row.user_id || undefined,
+      task: row.task,
+      provider: row.provider,
+      model: row.model,
+      promptTokens: row.prompt_tokens,
+      completionTokens: row.completion_tokens,
+      totalTokens: row.total_tokens,
+      costUsd: parseFloat(row.cost_usd),
+      estimated: row.estimated,
+      durationMs: row.duration_ms ?? undefined,
+      createdAt: new Date(row.created_at)
+    };
+  }
+}
@@ -0,0 +1,409 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  LLMProvider,
+  LLMProviderType,
+  LLMCompletionRequest,
+  LLMCompletionResult,
+  LLMStreamChunk,
+  LLMTokenUsage,
+} from '../types/llm-provider';
+import {
+  AISpendLimiter,
+  LLMUsageTracker,
+  LLMUsageEntry,
+  LLMUsageGroupTotals,
+  LLMUsageRecord,
+  LLMUsageRepository,
+  LLMUsageTotals,
+  LLMUsageSummary,
+  LLMUsageFilter,
+  LLMUsageScope,
+  ModelPricing,
+  SubscriptionUsageScope,
+} from '../types/llm-usage';
+import { UsageLimitExceededError } from '../types/subscription';
+import { estimateTokens } from '../utils/token-estimator';
+import { logger } from '../utils/logger';
+
+// Published list prices; the longest matching model prefix wins
+export const DEFAULT_MODEL_PRICING: Record<string, ModelPricing> = {
+  'gpt-4o-mini': { promptPer1K: 0.00015, completionPer1K: 0.0006 },
+  'gpt-4o': { promptPer1K: 0.0025, completionPer1K: 0.01 },
+  'gpt-4-turbo': { promptPer1K: 0.01, completionPer1K: 0.03 },
+  'gpt-4': { promptPer1K: 0.03, completionPer1K: 0.06 },
+  'gpt-3.5-turbo': { promptPer1K: 0.0005, completionPer1K: 0.0015 },
+  'scripted': { promptPer1K: 0, completionPer1K: 0 },
+};
+
+export function calculateCost(
+  model: string,
+  promptTokens: number,
+  completionTokens: number,
+  pricing: Record<string, ModelPricing> = DEFAULT_MODEL_PRICING
+): number {
+  const key = Object.keys(pricing)
+    .filter(prefix => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+
+  if (!key) {
+    return 0;
+  }
+
+  const { promptPer1K, completionPer1K } = pricing[key];
+  return (promptTokens / 1000) * promptPer1K + (completionTokens / 1000) * completionPer1K;
+}
+
+const emptyTotals = (): LLMUsageTotals => ({
+  calls: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  totalTokens: 0,
+  costUsd: 0,
+  estimatedCalls: 0,
+});
+
+const unpricedModels: Set<string> = new Set();
+
+function createUsageRecord(
+  entry: LLMUsageEntry,
+  userId: string | undefined,
+  pricing: Record<string, ModelPricing>
+): LLMUsageRecord {
+  const record: LLMUsageRecord = {
+    ...entry,
+    userId,
+    id: uuidv4(),
+    totalTokens: entry.promptTokens + entry.completionTokens,
+    costUsd: calculateCost(entry.model, entry.promptTokens, entry.completionTokens, pricing),
+    createdAt: new Date(),
+  };
+
+  const hasPricing = Object.keys(pricing).some(prefix => entry.model.startsWith(prefix));
+  if (record.costUsd === 0 && record.totalTokens > 0 && !hasPricing && !unpricedModels.has(entry.model)) {
+    unpricedModels.add(entry.model);
+    logger.warn('No pricing configured for model; recording zero cost', { model: entry.model });
+  }
+
+  return record;
+}
+
+/**
+ * Keeps per-call LLM usage in memory and aggregates it per session, user
+ * and subscription billing period. Calls that only carry a session id are
+ * attributed to the user that session was linked to.
+ */
+export class InMemoryLLMUsageTracker implements LLMUsageTracker {
+  private records: LLMUsageRecord[] = [];
+  private sessionUsers: Map<string, string> = new Map();
+
+  constructor(
+    private pricing: Record<string, ModelPricing> = DEFAULT_MODEL_PRICING,
+    private maxRecords: number = 100000
+  ) {}
+
+  record(entry: LLMUsageEntry): LLMUsageRecord {
+    if (entry.sessionId && entry.userId) {
+      this.linkSession(entry.sessionId, entry.userId);
+    }
+
+    const userId = entry.userId || (entry.sessionId ? this.sessionUsers.get(entry.sessionId) : undefined);
+    const record = createUsageRecord(entry, userId, this.pricing);
+
+    this.records.push(record);
+    if (this.records.length > this.maxRecords) {
+      this.records.splice(0, this.records.length - this.maxRecords);
+    }
+
+    return record;
+  }
+
+  linkSession(sessionId: string, userId: string): void {
+    if (this.sessionUsers.get(sessionId) === userId) {
+      return;
+    }
+
+    this.sessionUsers.set(sessionId, userId);
+
+    // Attribute calls made before the session was linked
+    for (const record of this.records) {
+      if (record.sessionId === sessionId && !record.userId) {
+        record.userId = userId;
+      }
+    }
+  }
+
+  getSessionUser(sessionId: string): string | undefined {
+    return this.sessionUsers.get(sessionId);
+  }
+
+  getSessionUsage(sessionId: string): LLMUsageSummary {
+    return this.summarize(LLMUsageScope.SESSION, sessionId, this.getRecords({ sessionId }));
+  }
+
+  getUserUsage(userId: string, from?: Date, to?: Date): LLMUsageSummary {
+    return {
+      ...this.summarize(LLMUsageScope.USER, userId, this.getRecords({ userId, from, to })),
+      periodStart: from,
+      periodEnd: to,
+    };
+  }
+
+  getSubscriptionUsage(subscription: SubscriptionUsageScope): LLMUsageSummary {
+    const records = this.getRecords({
+      userId: subscription.userId,
+      from: subscription.currentPeriodStart,
+      to: subscription.currentPeriodEnd,
+    });
+
+    return {
+      ...this.summarize(LLMUsageScope.SUBSCRIPTION, subscription.id, records),
+      periodStart: subscription.currentPeriodStart,
+      periodEnd: subscription.currentPeriodEnd,
+    };
+  }
+
+  getRecords(filter: LLMUsageFilter = {}): LLMUsageRecord[] {
+    return this.records.filter(record =>
+      (!filter.sessionId || record.sessionId === filter.sessionId) &&
+      (!filter.userId || record.userId === filter.userId) &&
+      (!filter.from || record.createdAt >= filter.from) &&
+      (!filter.to || record.createdAt <= filter.to)
+    );
+  }
+
+  private summarize(scope: LLMUsageScope, scopeId: string, records: LLMUsageRecord[]): LLMUsageSummary {
+    const totals = emptyTotals();
+    const byTask: Record<string, LLMUsageTotals> = {};
+    const byModel: Record<string, LLMUsageTotals> = {};
+
+    for (const record of records) {
+      byTask[record.task] = byTask[record.task] || emptyTotals();
+      byModel[record.model] = byModel[record.model] || emptyTotals();
+
+      for (const target of [totals, byTask[record.task], byModel[record.model]]) {
+        target.calls++;
+        target.promptTokens += record.promptTokens;
+        target.completionTokens += record.completionTokens;
+        target.totalTokens += record.totalTokens;
+        target.costUsd += record.costUsd;
+        target.estimatedCalls += record.estimated ? 1 : 0;
+      }
+    }
+
+    return {
+      scope,
+      scopeId,
+      totals,
+      byTask,
+      byModel,
+      firstCallAt: records[0]?.createdAt,
+      lastCallAt: records[records.length - 1]?.createdAt,
+    };
+  }
+}
+
+/**
+ * Keeps LLM usage in the database, so AI spend caps survive restarts and
+ * hold across instances. Totals are summed by the database per task and
+ * model rather than loaded record by record.
+ */
+export class DatabaseLLMUsageTracker implements LLMUsageTracker {
+  constructor(
+    private repository: LLMUsageRepository,
+    private pricing: Record<string, ModelPricing> = DEFAULT_MODEL_PRICING
+  ) {}
+
+  async record(entry: LLMUsageEntry): Promise<LLMUsageRecord> {
+    if (entry.sessionId && entry.userId) {
+      await this.linkSession(entry.sessionId, entry.userId);
+    }
+
+    const userId = entry.userId || (entry.sessionId ? await this.getSessionUser(entry.sessionId) : undefined);
+    const record = createUsageRecord(entry, userId, this.pricing);
+
+    await this.repository.saveRecord(record);
+    return record;
+  }
+
+  async linkSession(sessionId: string, userId: string): Promise<void> {
+    await this.repository.assignSessionUser(sessionId, userId);
+  }
+
+  async getSessionUser(sessionId: string): Promise<string | undefined> {
+    return (await this.repository.findSessionUser(sessionId)) || undefined;
+  }
+
+  async getSessionUsage(sessionId: string): Promise<LLMUsageSummary> {
+    return this.summarize(LLMUsageScope.SESSION, sessionId, await this.repository.sumUsage({ sessionId }));
+  }
+
+  async getUserUsage(userId: string, from?: Date, to?: Date): Promise<LLMUsageSummary> {
+    return {
+      ...this.summarize(LLMUsageScope.USER, userId, await this.repository.sumUsage({ userId, from, to })),
+      periodStart: from,
+      periodEnd: to,
+    };
+  }
+
+  async getSubscriptionUsage(subscription: SubscriptionUsageScope): Promise<LLMUsageSummary> {
+    const groups = await this.repository.sumUsage({
+      userId: subscription.userId,
+      from: subscription.currentPeriodStart,
+      to: subscription.currentPeriodEnd,
+    });
+
+    return {
+      ...this.summarize(LLMUsageScope.SUBSCRIPTION, subscription.id, groups),
+      periodStart: subscription.currentPeriodStart,
+      periodEnd: subscription.currentPeriodEnd,
+    };
+  }
+
+  async getRecords(filter: LLMUsageFilter = {}): Promise<LLMUsageRecord[]> {
+    return this.repository.findRecords(filter);
+  }
+
+  private summarize(scope: LLMUsageScope, scopeId: string, groups: LLMUsageGroupTotals[]): LLMUsageSummary {
+    const totals = emptyTotals();
+    const byTask: Record<string, LLMUsageTotals> = {};
+    const byModel: Record<string, LLMUsageTotals> = {};
+
+    for (const group of groups) {
+      byTask[group.task] = byTask[group.task] || emptyTotals();
+      byModel[group.model] = byModel[group.model] || emptyTotals();
+
+      for (const target of [totals, byTask[group.task], byModel[group.model]]) {
+        target.calls += group.totals.calls;
+        target.promptTokens += group.totals.promptTokens;
+        target.completionTokens += group.totals.completionTokens;
+        target.totalTokens += group.totals.totalTokens;
+        target.costUsd += group.totals.costUsd;
+        target.estimatedCalls += group.totals.estimatedCalls;
+      }
+    }
+
+    const firstCalls = groups.map(group => group.firstCallAt.getTime());
+    const lastCalls = groups.map(group => group.lastCallAt.getTime());
+
+    return {
+      scope,
+      scopeId,
+      totals,
+      byTask,
+      byModel,
+      firstCallAt: groups.length > 0 ? new Date(Math.min(...firstCalls)) : undefined,
+      lastCallAt: groups.length > 0 ? new Date(Math.max(...lastCalls)) : undefined,
+    };
+  }
+}
+
+/**
+ * Wraps a provider and records token usage for every call. The session and
+ * user are read from `request.metadata`; when the backend reports no usage
+ * (e.g. most streams) tokens are estimated from the text. With a spend
+ * limiter, calls are refused once the user's plan has no AI spend left.
+ */
+export class MeteredLLMProvider implements LLMProvider {
+  readonly stream?: (request: LLMCompletionRequest) => AsyncIterable<LLMStreamChunk>;
+
+  constructor(
+    private inner: LLMProvider,
+    private tracker: LLMUsageTracker,
+    private spendLimiter?: AISpendLimiter
+  ) {
+    if (inner.stream) {
+      this.stream = (request: LLMCompletionRequest) => this.meterStream(request);
+    }
+  }
+
+  get type(): LLMProviderType {
+    return this.inner.type;
+  }
+
+  get model(): string {
+    return this.inner.model;
+  }
+
+  getInnerProvider(): LLMProvider {
+    return this.inner;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResult> {
+    await this.checkSpend(request);
+    const startedAt = Date.now();
+    const result = await this.inner.complete(request);
+
+    await this.recordUsage(request, result.model, result.content, result.usage, Date.now() - startedAt);
+    return result;
+  }
+
+  private async *meterStream(request: LLMCompletionRequest): AsyncIterable<LLMStreamChunk> {
+    await this.checkSpend(request);
+    const startedAt = Date.now();
+    let content = '';
+    let model = this.inner.model;
+    let usage: LLMTokenUsage | undefined;
+
+    try {
+      for await (const chunk of this.inner.stream!(request)) {
+        content += chunk.delta;
+        model = chunk.model || model;
+        usage = chunk.usage || usage;
+        yield chunk;
+      }
+    } finally {
+      // Also runs when the consumer stops early, so partial streams are billed
+      await this.recordUsage(request, model, content, usage, Date.now() - startedAt);
+    }
+  }
+
+  private async checkSpend(request: LLMCompletionRequest): Promise<void> {
+    const sessionId: string | undefined = request.metadata?.sessionId;
+    if (!this.spendLimiter) {
+      return;
+    }
+
+    let userId: string | undefined;
+    try {
+      userId = request.metadata?.userId || (sessionId ? await this.tracker.getSessionUser(sessionId) : undefined);
+      if (!userId) {
+        return;
+      }
+      await this.spendLimiter.assertAISpendAvailable(userId);
+    } catch (error) {
+      if (error instanceof UsageLimitExceededError) {
+        throw error;
+      }
+      // As with recording, a failed lookup must not break an interview
+      logger.error('Failed to check AI spend', { error, userId, task: request.task });
+    }
+  }
+
+  private async recordUsage(
+    request: LLMCompletionRequest,
+    model: string,
+    content: string,
+    usage: LLMTokenUsage | undefined,
+    durationMs: number
+  ): Promise<void> {
+    try {
+      const promptTokens = usage?.promptTokens ?? estimateTokens(request.messages.map(message => message.content).join('\n'));
+      const completionTokens = usage?.completionTokens ?? estimateTokens(content);
+
+      await this.tracker.record({
+        sessionId: request.metadata?.sessionId,
+        userId: request.metadata?.userId,
+        task: request.task,
+        provider: this.inner.type,
+        model,
+        promptTokens,
+        completionTokens,
+        estimated: !usage,
+        durationMs,
+      });
+    } catch (error) {
+      // Accounting must never break an interview
+      logger.error('Failed to record LLM usage', { error, task: request.task });
+    }
+  }
+}
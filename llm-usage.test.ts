@@ -0,0 +1,335 @@
+import { DefaultAIInterviewerService } from '../services/ai-interviewer-service';
+import { AIInterviewerController } from '../controllers/ai-interviewer-controller';
+import { PersonalityManager } from '../services/personality-manager';
+import { ScriptedLLMProvider } from '../services/llm-providers';
+import { DatabaseLLMUsageTracker, InMemoryLLMUsageTracker, MeteredLLMProvider, calculateCost } from '../services/llm-usage-tracker';
+import { LLMProviderType, LLMTask } from '../types/llm-provider';
+import { LLMUsageScope } from '../types/llm-usage';
+import { UsageLimitExceededError, UsageType } from '../types/subscription';
+import {
+  AIPersonalityConfig,
+  QuestionGenerationContext,
+  QuestionType,
+  DifficultyLevel,
+  FocusArea,
+  InterviewStyle,
+  InterviewTone,
+  FormalityLevel,
+} from '../types/ai-interviewer';
+
+const personalityConfig: AIPersonalityConfig = {
+  name: 'Test Interviewer',
+  style: InterviewStyle.CONVERSATIONAL,
+  tone: InterviewTone.FRIENDLY,
+  formality: FormalityLevel.SEMI_FORMAL,
+  adaptiveness: 0.5,
+  followUpIntensity: 0.5,
+  encouragementLevel: 0.5,
+};
+
+const questionContext: QuestionGenerationContext = {
+  sessionId: 'usage-session',
+  userId: 'usage-user',
+  interviewConfig: {
+    id: 'config',
+    role: 'Backend Developer',
+    industry: 'Technology',
+    difficulty: DifficultyLevel.MID,
+    duration: 30,
+    questionTypes: [QuestionType.TECHNICAL],
+    focusAreas: [FocusArea.TECHNICAL_SKILLS],
+    aiPersonality: personalityConfig,
+  },
+  currentQuestionIndex: 0,
+  previousResponses: [],
+  personalityState: PersonalityManager.initializePersonality(personalityConfig),
+  questionType: QuestionType.TECHNICAL,
+};
+
+const entry = (overrides: Record<string, any> = {}) => ({
+  task: LLMTask.QUESTION_GENERATION,
+  provider: LLMProviderType.OPENAI,
+  model: 'gpt-4',
+  promptTokens: 1000,
+  completionTokens: 500,
+  estimated: false,
+  ...overrides,
+});
+
+describe('LLM Usage Accounting', () => {
+  describe('calculateCost', () => {
+    it('should price by the longest matching model prefix', () => {
+      expect(calculateCost('gpt-4', 1000, 1000)).toBeCloseTo(0.09);
+      expect(calculateCost('gpt-4o-mini-2024-07-18', 1000, 1000)).toBeCloseTo(0.00075);
+      expect(calculateCost('unknown-model', 1000, 1000)).toBe(0);
+    });
+  });
+
+  describe('InMemoryLLMUsageTracker', () => {
+    it('should aggregate usage per session, task and model', () => {
+      const tracker = new InMemoryLLMUsageTracker();
+      tracker.record(entry({ sessionId: 's-1', userId: 'u-1' }));
+      tracker.record(entry({ sessionId: 's-1', task: LLMTask.RESPONSE_EVALUATION, estimated: true }));
+      tracker.record(entry({ sessionId: 's-2', userId: 'u-2' }));
+
+      const summary = tracker.getSessionUsage('s-1');
+
+      expect(summary.scope).toBe(LLMUsageScope.SESSION);
+      expect(summary.totals.calls).toBe(2);
+      expect(summary.totals.totalTokens).toBe(3000);
+      expect(summary.totals.costUsd).toBeCloseTo(0.12);
+      expect(summary.totals.estimatedCalls).toBe(1);
+      expect(summary.byTask[LLMTask.RESPONSE_EVALUATION].calls).toBe(1);
+      expect(summary.byModel['gpt-4'].calls).toBe(2);
+    });
+
+    it('should attribute session calls to the linked user and subscription period', () => {
+      const tracker = new InMemoryLLMUsageTracker();
+      tracker.record(entry({ sessionId: 's-1' }));
+      tracker.linkSession('s-1', 'u-1');
+      tracker.record(entry({ sessionId: 's-1' }));
+
+      expect(tracker.getUserUsage('u-1').totals.calls).toBe(2);
+
+      const now = Date.now();
+      const current = tracker.getSubscriptionUsage({
+        id: 'sub-1',
+        userId: 'u-1',
+        currentPeriodStart: new Date(now - 60000),
+        currentPeriodEnd: new Date(now + 60000),
+      });
+      const previous = tracker.getSubscriptionUsage({
+        id: 'sub-1',
+        userId: 'u-1',
+        currentPeriodStart: new Date(now - 120000),
+        currentPeriodEnd: new Date(now - 60000),
+      });
+
+      expect(current.scope).toBe(LLMUsageScope.SUBSCRIPTION);
+      expect(current.totals.calls).toBe(2);
+      expect(previous.totals.calls).toBe(0);
+    });
+  });
+
+  describe('DatabaseLLMUsageTracker', () => {
+    const createRepository = () => ({
+      saveRecord: jest.fn().mockResolvedValue(undefined),
+      assignSessionUser: jest.fn().mockResolvedValue(undefined),
+      findSessionUser: jest.fn().mockResolvedValue(null),
+      findRecords: jest.fn().mockResolvedValue([]),
+      sumUsage: jest.fn().mockResolvedValue([]),
+    });
+
+    it('should save metered calls and attribute session calls to the stored session user', async () => {
+      const repository = createRepository();
+      repository.findSessionUser.mockResolvedValue('u-1');
+      const tracker = new DatabaseLLMUsageTracker(repository);
+      const provider = new MeteredLLMProvider(new ScriptedLLMProvider(), tracker);
+
+      await provider.complete({
+        task: LLMTask.QUESTION_GENERATION,
+        messages: [{ role: 'user', content: 'Ask me something' }],
+        metadata: { sessionId: 's-1' },
+      });
+      const record = await tracker.record(entry({ sessionId: 's-1' }));
+
+      expect(repository.saveRecord).toHaveBeenCalledTimes(2);
+      expect(repository.saveRecord.mock.calls[0][0]).toEqual(expect.objectContaining({ sessionId: 's-1', userId: 'u-1' }));
+      expect(record.costUsd).toBeCloseTo(0.06);
+      expect(repository.assignSessionUser).not.toHaveBeenCalled();
+    });
+
+    it('should sum subscription spend from stored usage within the billing period', async () => {
+      const repository = createRepository();
+      const totals = (calls: number, costUsd: number) => ({
+        calls,
+        promptTokens: calls * 1000,
+        completionTokens: calls * 500,
+        totalTokens: calls * 1500,
+        costUsd,
+        estimatedCalls: 0,
+      });
+      repository.sumUsage.mockResolvedValue([
+        { task: LLMTask.QUESTION_GENERATION, model: 'gpt-4', totals: totals(2, 0.12), firstCallAt: new Date('2024-01-03'), lastCallAt: new Date('2024-01-09') },
+        { task: LLMTask.RESPONSE_EVALUATION, model: 'gpt-4o', totals: totals(1, 0.01), firstCallAt: new Date('2024-01-02'), lastCallAt: new Date('2024-01-05') },
+      ]);
+      const tracker = new DatabaseLLMUsageTracker(repository);
+      const period = {
+        id: 'sub-1',
+        userId: 'u-1',
+        currentPeriodStart: new Date('2024-01-01'),
+        currentPeriodEnd: new Date('2024-02-01'),
+      };
+
+      const usage = await tracker.getSubscriptionUsage(period);
+
+      expect(repository.sumUsage).toHaveBeenCalledWith({ userId: 'u-1', from: period.currentPeriodStart, to: period.currentPeriodEnd });
+      expect(usage.scope).toBe(LLMUsageScope.SUBSCRIPTION);
+      expect(usage.totals.calls).toBe(3);
+      expect(usage.totals.costUsd).toBeCloseTo(0.13);
+      expect(usage.byModel['gpt-4'].calls).toBe(2);
+      expect(usage.firstCallAt).toEqual(new Date('2024-01-02'));
+      expect(usage.lastCallAt).toEqual(new Date('2024-01-09'));
+    });
+  });
+
+  describe('MeteredLLMProvider', () => {
+    it('should estimate and record usage for streamed completions', async () => {
+      const tracker = new InMemoryLLMUsageTracker();
+      const provider = new MeteredLLMProvider(
+        new ScriptedLLMProvider([{ response: '{"text": "Describe a cache you built."}' }]),
+        tracker
+      );
+
+      let streamed = '';
+      for await (const chunk of provider.stream!({
+        task: LLMTask.QUESTION_GENERATION,
+        messages: [{ role: 'user', content: 'Ask me something' }],
+        metadata: { sessionId: 's-1', userId: 'u-1' },
+      })) {
+        streamed += chunk.delta;
+      }
+
+      const [record] = tracker.getRecords({ sessionId: 's-1' });
+      expect(streamed).toBe('{"text": "Describe a cache you built."}');
+      expect(record.userId).toBe('u-1');
+      expect(record.completionTokens).toBeGreaterThan(0);
+    });
+
+    it('should refuse calls once the user has no AI spend left', async () => {
+      const tracker = new InMemoryLLMUsageTracker();
+      tracker.linkSession('s-1', 'u-1');
+      const limiter = {
+        assertAISpendAvailable: jest.fn(async (userId: string) => {
+          if (userId === 'u-1') {
+            throw new UsageLimitExceededError('AI usage limit reached', UsageType.AI_SPEND, 50, 50);
+          }
+        }),
+      };
+      const provider = new MeteredLLMProvider(new ScriptedLLMProvider(), tracker, limiter);
+      const request = (metadata: Record<string, any>) => ({
+        task: LLMTask.QUESTION_GENERATION,
+        messages: [{ role: 'user' as const, content: 'Ask me something' }],
+        metadata,
+      });
+
+      await expect(provider.complete(request({ sessionId: 's-1' }))).rejects.toBeInstanceOf(UsageLimitExceededError);
+      await provider.complete(request({ sessionId: 's-2', userId: 'u-2' }));
+
+      expect(limiter.assertAISpendAvailable).toHaveBeenCalledWith('u-1');
+      expect(tracker.getRecords().map(record => record.userId)).toEqual(['u-2']);
+    });
+  });
+
+  describe('DefaultAIInterviewerService metering', () => {
+    it('should record every model call against the session and user', async () => {
+      const tracker = new InMemoryLLMUsageTracker();
+      const service = new DefaultAIInterviewerService(new ScriptedLLMProvider(), { usageTracker: tracker });
+
+      const question = await service.generateQuestion(questionContext);
+      await service.evaluateResponse({
+        sessionId: questionContext.sessionId,
+        question,
+        userResponse: {
+          questionId: question.id,
+          questionText: question.text,
+          responseText: 'I would put a read-through cache in front of the database.',
+          duration: 45,
+          isSkipped: false,
+          timestamp: new Date(),
+        },
+        evaluationCriteria: question.evaluationCriteria,
+        personalityState: questionContext.personalityState,
+      });
+
+      const session = tracker.getSessionUsage('usage-session');
+      expect(session.totals.calls).toBe(2);
+      expect(Object.keys(session.byTask).sort()).toEqual([LLMTask.QUESTION_GENERATION, LLMTask.RESPONSE_EVALUATION].sort());
+      expect(tracker.getUserUsage('usage-user').totals.calls).toBe(2);
+    });
+
+    it('should report the spend limit instead of a generation failure', async () => {
+      const limiter = {
+        assertAISpendAvailable: jest.fn().mockRejectedValue(
+          new UsageLimitExceededError('AI usage limit reached', UsageType.AI_SPEND, 50, 50)
+        ),
+      };
+      const service = new DefaultAIInterviewerService(new ScriptedLLMProvider(), {
+        usageTracker: new InMemoryLLMUsageTracker(),
+        aiSpendLimiter: limiter,
+      });
+
+      await expect(service.generateQuestion(questionContext)).rejects.toBeInstanceOf(UsageLimitExceededError);
+    });
+  });
+
+  describe('AIInterviewerController usage endpoints', () => {
+    const createResponse = () => {
+      const res: any = {};
+      res.status = jest.fn(() => res);
+      res.json = jest.fn(() => res);
+      return res;
+    };
+
+    it('should only show usage to admins', async () => {
+      const tracker = new InMemoryLLMUsageTracker();
+      tracker.record(entry({ sessionId: 's-1', userId: 'u-1' }));
+      const controller = new AIInterviewerController(
+        new DefaultAIInterviewerService(new ScriptedLLMProvider(), { usageTracker: tracker }),
+        { getSession: jest.fn(), getExpectedSolution: jest.fn() },
+        {} as any
+      );
+
+      const member = createResponse();
+      await controller.getUserUsage({ params: { userId: 'u-1' }, query: {}, user: { id: 'u-2', email: 'u2@example.com', role: 'user' } } as any, member);
+      expect(member.status).toHaveBeenCalledWith(403);
+
+      const admin = createResponse();
+      await controller.getUserUsage({ params: { userId: 'u-1' }, query: {}, user: { id: 'a-1', email: 'admin@example.com', role: 'admin' } } as any, admin);
+      expect(admin.status).not.toHaveBeenCalled();
+      expect(admin.json).toHaveBeenCalledWith(expect.objectContaining({
+        success: true,
+        data: expect.objectContaining({ scopeId: 'u-1' }),
+      }));
+    });
+
+    it('should bill model calls to the authenticated user instead of a userId in the body', async () => {
+      const tracker = new InMemoryLLMUsageTracker();
+      const limiter = { assertAISpendAvailable: jest.fn().mockResolvedValue(undefined) };
+      const controller = new AIInterviewerController(
+        new DefaultAIInterviewerService(new ScriptedLLMProvider(), { usageTracker: tracker, aiSpendLimiter: limiter }),
+        {
+          getSession: jest.fn().mockResolvedValue({ userId: 'u-1', config: questionContext.interviewConfig }),
+          getExpectedSolution: jest.fn(),
+        },
+        {} as any
+      );
+
+      const res = createResponse();
+      await controller.generateQuestion({ userId: 'u-1', body: { ...questionContext, userId: 'u-2' } } as any, res);
+      const question = res.json.mock.calls[0][0].data;
+
+      await controller.evaluateResponse({
+        userId: 'u-1',
+        body: {
+          sessionId: 'another-session',
+          userId: 'u-2',
+          question,
+          userResponse: {
+            questionId: question.id,
+            questionText: question.text,
+            responseText: 'I would shard by tenant.',
+            duration: 30,
+            isSkipped: false,
+            timestamp: new Date(),
+          },
+          evaluationCriteria: [],
+          personalityState: questionContext.personalityState,
+        },
+      } as any, createResponse());
+
+      expect(limiter.assertAISpendAvailable.mock.calls).toEqual([['u-1'], ['u-1']]);
+      expect(tracker.getRecords().map(record => record.userId)).toEqual(['u-1', 'u-1']);
+    });
+  });
+});
@@ -0,0 +1,104 @@
+// LLM Usage Accounting Types and Interfaces
+
+import { LLMProviderType, LLMTask } from './llm-provider';
+
+// In-memory trackers answer synchronously; database-backed ones return promises
+export interface LLMUsageTracker {
+  record(entry: LLMUsageEntry): LLMUsageRecord | Promise<LLMUsageRecord>;
+  linkSession(sessionId: string, userId: string): void | Promise<void>;
+  getSessionUser(sessionId: string): string | undefined | Promise<string | undefined>;
+  getSessionUsage(sessionId: string): LLMUsageSummary | Promise<LLMUsageSummary>;
+  getUserUsage(userId: string, from?: Date, to?: Date): LLMUsageSummary | Promise<LLMUsageSummary>;
+  getSubscriptionUsage(subscription: SubscriptionUsageScope): LLMUsageSummary | Promise<LLMUsageSummary>;
+  getRecords(filter?: LLMUsageFilter): LLMUsageRecord[] | Promise<LLMUsageRecord[]>;
+}
+
+export interface LLMUsageRepository {
+  saveRecord(record: LLMUsageRecord): Promise<void>;
+  assignSessionUser(sessionId: string, userId: string): Promise<void>; // Fills in records saved without a user
+  findSessionUser(sessionId: string): Promise<string | null>;
+  findRecords(filter: LLMUsageFilter): Promise<LLMUsageRecord[]>;
+  sumUsage(filter: LLMUsageFilter): Promise<LLMUsageGroupTotals[]>; // Summed per task and model
+}
+
+// What a metered provider knows about a single call
+export interface LLMUsageEntry {
+  sessionId?: string;
+  userId?: string;
+  task: LLMTask;
+  provider: LLMProviderType;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  estimated: boolean; // True when the backend reported no usage and tokens were estimated
+  durationMs?: number;
+}
+
+export interface LLMUsageRecord extends LLMUsageEntry {
+  id: string;
+  totalTokens: number;
+  costUsd: number;
+  createdAt: Date;
+}
+
+export interface LLMUsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  estimatedCalls: number;
+}
+
+export interface LLMUsageGroupTotals {
+  task: LLMTask;
+  model: string;
+  totals: LLMUsageTotals;
+  firstCallAt: Date;
+  lastCallAt: Date;
+}
+
+export interface LLMUsageSummary {
+  scope: LLMUsageScope;
+  scopeId: string;
+  periodStart?: Date;
+  periodEnd?: Date;
+  totals: LLMUsageTotals;
+  byTask: Record<string, LLMUsageTotals>;
+  byModel: Record<string, LLMUsageTotals>;
+  firstCallAt?: Date;
+  lastCallAt?: Date;
+}
+
+export interface LLMUsageFilter {
+  sessionId?: string;
+  userId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+// Checked before every metered model call; throws once the user's plan has no AI spend left
+export interface AISpendLimiter {
+  assertAISpendAvailable(userId: string): Promise<void>;
+}
+
+// AI spend for a subscription is the user's spend within the billing period
+export interface SubscriptionUsageScope {
+  id: string;
+  userId: string;
+  currentPeriodStart: Date;
+  currentPeriodEnd: Date;
+}
+
+// USD per 1,000 tokens
+export interface ModelPricing {
+  promptPer1K: number;
+  completionPer1K: number;
+}
+
+// Enums
+export enum LLMUsageScope {
+  SESSION = 'session',
+  USER = 'user',
+  SUBSCRIPTION = 'subscription',
+}
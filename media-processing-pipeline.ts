@@ -14,6 +14,9 @@ import {
   AudioAnalysisConfig,
   VideoAnalysisConfig,
   SpeechToTextConfig,
+  SpeakerDiarizationConfig,
+  SpeakerDiarizationInput,
+  SpeakerDiarizationResult,
   MediaAnalysisResult,
   AudioAnalysisResult,
   VideoAnalysisResult,
@@ -22,6 +25,8 @@ import {
   MediaErrorCode,
   MediaStreamingError
 } from '../types/media';
+import { SpeakerDiarizer } from './speaker-diarizer';
+import { SpeakerRole } from '../types/diarization';
 
 export interface ProcessingPipelineConfig {
   enableRealTimeProcessing: boolean;
@@ -342,6 +347,9 @@ export class MediaProcessingPipelineService extends EventEmitter {
         case ProcessorType.EMOTION_DETECTION:
           analysisData = await this.processEmotionDetection(processor.config, mediaData);
           break;
+        case ProcessorType.SPEAKER_DIARIZATION:
+          analysisData = await this.processSpeakerDiarization(processor.config as SpeakerDiarizationConfig, mediaData);
+          break;
         default:
           logger.warn('Unknown processor type', { type: processor.type });
           return null;
@@ -451,6 +459,33 @@ export class MediaProcessingPipelineService extends EventEmitter {
     return result;
   }
 
+  /**
+   * Label who spoke when, so speech and text analysis downstream can score
+   * the candidate's words alone. Expects WAV audio with the chunk's
+   * transcription when one is available.
+   */
+  private async processSpeakerDiarization(
+    config: SpeakerDiarizationConfig,
+    mediaData: SpeakerDiarizationInput
+  ): Promise<SpeakerDiarizationResult> {
+    const diarizer = new SpeakerDiarizer(config);
+    const diarization = diarizer.diarizeAudio(mediaData.audio, { interviewerSpeech: mediaData.interviewerSpeech });
+
+    const result: SpeakerDiarizationResult = { ...diarization };
+    if (mediaData.transcription) {
+      result.transcription = diarizer.labelTranscript(mediaData.transcription, diarization);
+      result.candidateTranscription = diarizer.candidateTranscript(mediaData.transcription, diarization);
+      result.candidateText = result.candidateTranscription.text;
+    }
+
+    logger.debug('Speaker diarization completed', {
+      method: diarization.method,
+      turns: diarization.turns.length,
+      candidateTime: diarization.speakingTime[SpeakerRole.CANDIDATE]
+    });
+    return result;
+  }
+
   private async processEmotionDetection(
     config: any,
     mediaData: any
@@ -498,6 +533,8 @@ export class MediaProcessingPipelineService extends EventEmitter {
       case ProcessorType.AUDIO_ANALYSIS:
       case ProcessorType.SPEECH_TO_TEXT:
         return 'audio/webm';
+      case ProcessorType.SPEAKER_DIARIZATION:
+        return 'audio/wav';
       case ProcessorType.VIDEO_ANALYSIS:
       case ProcessorType.EMOTION_DETECTION:
       case ProcessorType.FACE_DETECTION:
@@ -3,6 +3,10 @@
  * Defines interfaces for media capture, streaming, and recording
  */
 
+import { AudioPayload } from './audio-features';
+import { DiarizationConfig, DiarizationResult, TimeRange } from './diarization';
+import { TranscriptionResult } from './speech-analysis';
+
 export interface MediaStreamConfig {
   audio: AudioConfig;
   video: VideoConfig;
@@ -146,7 +150,8 @@ export enum ProcessorType {
   EMOTION_DETECTION = 'emotion_detection',
   FACE_DETECTION = 'face_detection',
   TRANSCODING = 'transcoding',
-  COMPRESSION = 'compression'
+  COMPRESSION = 'compression',
+  SPEAKER_DIARIZATION = 'speaker_diarization'
 }
 
 export interface ProcessorConfig {
@@ -179,6 +184,14 @@ export interface SpeechToTextConfig extends ProcessorConfig {
   enableSpeakerDiarization: boolean;
 }
 
+export type SpeakerDiarizationConfig = ProcessorConfig & Partial<DiarizationConfig>;
+
+export interface SpeakerDiarizationInput {
+  audio: AudioPayload;
+  transcription?: TranscriptionResult; // Labeled by speaker when given
+  interviewerSpeech?: TimeRange[]; // Known interviewer playback times
+}
+
 export interface MediaAnalysisResult {
   streamId: string;
   processorId: string;
@@ -203,6 +216,12 @@ export interface AudioAnalysisResult extends AnalysisData {
   confidence: number;
 }
 
+export interface SpeakerDiarizationResult extends AnalysisData, DiarizationResult {
+  transcription?: TranscriptionResult; // Every segment and word tagged with its speaker
+  candidateTranscription?: TranscriptionResult; // Only the candidate's speech, for scoring
+  candidateText?: string;
+}
+
 export interface VideoAnalysisResult extends AnalysisData {
   faces: FaceDetection[];
   emotions: EmotionDetection[];
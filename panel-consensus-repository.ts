@@ -0,0 +1,49 @@
+import { Pool } from 'pg';
+import { PerformanceReport } from '@ai-interview/types';
+import { db } from './connection';
+import { logger } from '../utils/logger';
+
+// Panel consensus as summarized by the AI interviewer when a session is run by a panel
+export interface PanelConsensusSummary {
+  questionCount: number;
+  averageScore: number; // 0-100
+  agreement: 'strong' | 'moderate' | 'split';
+  agreementBreakdown: Record<'strong' | 'moderate' | 'split', number>;
+  panelistAverages: Array<{ personaId: string; personaName: string; averageScore: number; evaluations: number }>;
+  topDisagreements: Array<{
+    questionId: string;
+    criteriaName?: string;
+    highest: { personaId: string; score: number };
+    lowest: { personaId: string; score: number };
+    spread: number;
+  }>;
+}
+
+export interface PanelPerformanceReport extends PerformanceReport {
+  panelConsensus?: PanelConsensusSummary;
+}
+
+export interface PanelConsensusRepository {
+  getPanelConsensus(sessionId: string): Promise<PanelConsensusSummary | null>;
+}
+
+export class PostgresPanelConsensusRepository implements PanelConsensusRepository {
+  constructor(private pool: Pool = db) {}
+
+  async getPanelConsensus(sessionId: string): Promise<PanelConsensusSummary | null> {
+    try {
+      const result = await this.pool.query(
+        'SELECT summary FROM panel_sessions WHERE session_id = $1',
+        [sessionId]
+      );
+
+      const summary: PanelConsensusSummary | undefined = result.rows[0]?.summary;
+
+      // A panel that has not evaluated any response yet has no consensus to report
+      return summary && summary.questionCount > 0 ? summary : null;
+    } catch (error) {
+      logger.error('Failed to get panel consensus', { sessionId, error });
+      throw error;
+    }
+  }
+}
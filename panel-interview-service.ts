@@ -0,0 +1,170 @@
+import {
+  AIInterviewerService,
+  QuestionGenerationContext,
+  FollowUpContext,
+  ResponseEvaluationContext,
+  InterviewConfigSummary,
+  GeneratedQuestion,
+  PanelState,
+  PanelTurn,
+  PanelQuestionResult,
+  PanelEvaluation,
+  PanelistEvaluation,
+  PanelPersonaConfig,
+  FocusArea,
+  PanelConfigurationError,
+} from '../types/ai-interviewer';
+import { PanelManager } from './panel-manager';
+import { logger } from '../utils/logger';
+
+/**
+ * Runs a panel interview on top of an AIInterviewerService. Each call picks
+ * the persona whose turn it is, swaps that persona's personality into the
+ * context and returns the updated panel state for the caller to store.
+ */
+export class PanelInterviewService {
+  constructor(private aiService: AIInterviewerService) {}
+
+  async generateQuestion(
+    context: Omit<QuestionGenerationContext, 'personalityState'>,
+    panelState: PanelState
+  ): Promise<PanelQuestionResult> {
+    const turn = PanelManager.selectNextInterviewer(panelState, context.focusArea);
+    const persona = this.getPersona(panelState, turn.personaId);
+
+    const question = await this.aiService.generateQuestion({
+      ...context,
+      interviewConfig: this.withPersona(context.interviewConfig, persona),
+      personalityState: PanelManager.getMember(panelState, persona.id).personalityState,
+      focusArea: context.focusArea || persona.focusAreas[0],
+    });
+    question.metadata.panelPersonaId = persona.id;
+
+    logger.info('Panel question generated', {
+      sessionId: context.sessionId,
+      personaId: persona.id,
+      reason: turn.reason,
+    });
+
+    return this.afterQuestion(panelState, turn, question, false);
+  }
+
+  async generateFollowUpQuestion(
+    context: Omit<FollowUpContext, 'personalityState'>,
+    panelState: PanelState,
+    focusArea?: FocusArea
+  ): Promise<PanelQuestionResult> {
+    const askedBy = context.originalQuestion.metadata.panelPersonaId || panelState.activePersonaId;
+    const turn = PanelManager.selectFollowUpInterviewer(panelState, askedBy, focusArea);
+    const persona = this.getPersona(panelState, turn.personaId);
+
+    const question = await this.aiService.generateFollowUpQuestion({
+      ...context,
+      interviewConfig: this.withPersona(context.interviewConfig, persona),
+      personalityState: PanelManager.getMember(panelState, persona.id).personalityState,
+    });
+    question.metadata.panelPersonaId = persona.id;
+
+    if (turn.isHandOff) {
+      logger.info('Panel follow-up handed off', {
+        sessionId: context.sessionId,
+        from: askedBy,
+        to: persona.id,
+        reason: turn.reason,
+      });
+    }
+
+    return this.afterQuestion(panelState, turn, question, true);
+  }
+
+  /**
+   * Every panelist evaluates the response independently, through their own
+   * personality and focus areas, before the scores are combined
+   */
+  async evaluateResponse(
+    context: Omit<ResponseEvaluationContext, 'personalityState'>,
+    panelState: PanelState
+  ): Promise<{ panelEvaluation: PanelEvaluation; panelState: PanelState }> {
+    const evaluations: PanelistEvaluation[] = await Promise.all(
+      panelState.config.personas.map(async persona => ({
+        personaId: persona.id,
+        personaName: persona.name,
+        evaluation: await this.aiService.evaluateResponse({
+          ...context,
+          interviewConfig: context.interviewConfig && this.withPersona(context.interviewConfig, persona),
+          personalityState: PanelManager.getMember(panelState, persona.id).personalityState,
+          evaluationFocus: persona.focusAreas,
+        }),
+      }))
+    );
+
+    evaluations.forEach(({ personaId, evaluation }) => {
+      evaluation.metadata.panelPersonaId = personaId;
+    });
+
+    const consensus = PanelManager.buildConsensus(evaluations);
+
+    logger.info('Panel evaluation completed', {
+      sessionId: context.sessionId,
+      questionId: context.question.id,
+      averageScore: consensus.averageScore,
+      agreement: consensus.agreement,
+    });
+
+    const updatedState = PanelManager.updatePanelState(panelState, panelState.activePersonaId, {
+      type: 'response',
+      content: context.userResponse.responseText || '',
+      metadata: {
+        questionId: context.question.id,
+        duration: context.userResponse.duration,
+        responseLength: context.userResponse.responseText?.length || 0,
+      },
+    });
+
+    return {
+      panelEvaluation: { questionId: context.question.id, evaluations, consensus },
+      panelState: updatedState,
+    };
+  }
+
+  private afterQuestion(
+    panelState: PanelState,
+    turn: PanelTurn,
+    question: GeneratedQuestion,
+    isFollowUp: boolean
+  ): PanelQuestionResult {
+    const recorded = PanelManager.recordTurn(panelState, turn, isFollowUp);
+    const updatedState = PanelManager.updatePanelState(recorded, turn.personaId, {
+      type: isFollowUp ? 'follow_up' : 'question',
+      content: question.text,
+      questionType: question.type,
+      isFollowUp,
+      metadata: { questionId: question.id },
+    });
+
+    return { question, turn, panelState: updatedState };
+  }
+
+  private withPersona(interviewConfig: InterviewConfigSummary, persona: PanelPersonaConfig): InterviewConfigSummary {
+    return {
+      ...interviewConfig,
+      aiPersonality: {
+        name: persona.name,
+        style: persona.style,
+        tone: persona.tone,
+        formality: persona.formality,
+        adaptiveness: persona.adaptiveness,
+        followUpIntensity: persona.followUpIntensity,
+        encouragementLevel: persona.encouragementLevel,
+      },
+    };
+  }
+
+  private getPersona(panelState: PanelState, personaId: string): PanelPersonaConfig {
+    const persona = panelState.config.personas.find(p => p.id === personaId);
+    if (!persona) {
+      throw new PanelConfigurationError(`Unknown panel persona: ${personaId}`);
+    }
+    return persona;
+  }
+}
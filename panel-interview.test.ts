@@ -0,0 +1,334 @@
+import { DefaultAIInterviewerService } from '../services/ai-interviewer-service';
+import { PanelInterviewService } from '../services/panel-interview-service';
+import { PanelManager } from '../services/panel-manager';
+import { AIInterviewerController } from '../controllers/ai-interviewer-controller';
+import { ScriptedLLMProvider } from '../services/llm-providers';
+import { LLMTask } from '../types/llm-provider';
+import {
+  PanelConfig,
+  PanelPersonaConfig,
+  PanelTurnPolicy,
+  PanelAgreementLevel,
+  PanelConfigurationError,
+  PanelSession,
+  QuestionGenerationContext,
+  QuestionType,
+  DifficultyLevel,
+  FocusArea,
+  InterviewStyle,
+  InterviewTone,
+  FormalityLevel,
+  ResponseSummary,
+} from '../types/ai-interviewer';
+
+const persona = (id: string, name: string, focusAreas: FocusArea[], tone = InterviewTone.PROFESSIONAL): PanelPersonaConfig => ({
+  id,
+  name,
+  style: InterviewStyle.STRUCTURED,
+  tone,
+  formality: FormalityLevel.SEMI_FORMAL,
+  adaptiveness: 0.5,
+  followUpIntensity: 0.5,
+  encouragementLevel: 0.5,
+  focusAreas,
+});
+
+const buildPanelConfig = (overrides: Partial<PanelConfig> = {}): PanelConfig => ({
+  personas: [
+    persona('manager', 'Morgan', [FocusArea.LEADERSHIP, FocusArea.COMMUNICATION], InterviewTone.FRIENDLY),
+    persona('engineer', 'Riley', [FocusArea.TECHNICAL_SKILLS, FocusArea.PROBLEM_SOLVING], InterviewTone.CHALLENGING),
+    persona('recruiter', 'Sam', [FocusArea.TEAMWORK]),
+  ],
+  turnPolicy: PanelTurnPolicy.ROUND_ROBIN,
+  allowFollowUpHandOff: true,
+  ...overrides,
+});
+
+const buildContext = (): Omit<QuestionGenerationContext, 'personalityState'> => ({
+  sessionId: 'panel-session',
+  userId: 'user-1',
+  interviewConfig: {
+    id: 'config-1',
+    role: 'Backend Developer',
+    industry: 'Technology',
+    difficulty: DifficultyLevel.MID,
+    duration: 45,
+    questionTypes: [QuestionType.BEHAVIORAL],
+    focusAreas: [FocusArea.PROBLEM_SOLVING],
+    aiPersonality: persona('manager', 'Morgan', []),
+  },
+  currentQuestionIndex: 0,
+  previousResponses: [],
+});
+
+const userResponse: ResponseSummary = {
+  questionId: 'q-1',
+  questionText: 'Tell me about a difficult outage.',
+  responseText: 'I led the rollback, added alerting and cut recovery time by half.',
+  duration: 90,
+  isSkipped: false,
+  timestamp: new Date(),
+};
+
+const evaluationFixture = (name: string, overallScore: number, strengths: string[]) => ({
+  task: LLMTask.RESPONSE_EVALUATION,
+  pattern: new RegExp(`personality of ${name}`),
+  response: JSON.stringify({
+    overallScore,
+    criteriaScores: [
+      { criteriaName: 'Content Quality', score: overallScore, feedback: 'Feedback' },
+      { criteriaName: 'Communication', score: 75, feedback: 'Feedback' },
+    ],
+    strengths,
+    improvements: ['Quantify the outcome'],
+    followUpSuggestions: [],
+    confidence: 0.8,
+  }),
+});
+
+describe('Panel Interview', () => {
+  describe('PanelManager', () => {
+    it('should require two to four personas with unique ids', () => {
+      const [first, second] = buildPanelConfig().personas;
+
+      expect(() => PanelManager.initializePanel(buildPanelConfig({ personas: [first] })))
+        .toThrow(PanelConfigurationError);
+      expect(() => PanelManager.initializePanel(buildPanelConfig({ personas: [first, { ...second, id: first.id }] })))
+        .toThrow(PanelConfigurationError);
+      expect(() => PanelManager.initializePanel(buildPanelConfig({ personas: [first, first, first, first, first].map((p, i) => ({ ...p, id: `p${i}` })) })))
+        .toThrow(PanelConfigurationError);
+
+      const state = PanelManager.initializePanel(buildPanelConfig());
+      expect(state.members.map(member => member.personalityState.name)).toEqual(['Morgan', 'Riley', 'Sam']);
+    });
+
+    it('should reject personas with missing or out of range fields', () => {
+      const [first, second] = buildPanelConfig().personas;
+      const withSecond = (changes: Record<string, unknown>) =>
+        buildPanelConfig({ personas: [first, { ...second, ...changes } as PanelPersonaConfig] });
+
+      expect(() => PanelManager.initializePanel(withSecond({ name: '' }))).toThrow('invalid name');
+      expect(() => PanelManager.initializePanel(withSecond({ tone: 'sarcastic' }))).toThrow('invalid tone');
+      expect(() => PanelManager.initializePanel(withSecond({ adaptiveness: 2 }))).toThrow('invalid adaptiveness');
+      expect(() => PanelManager.initializePanel(withSecond({ focusAreas: ['astrology'] }))).toThrow('invalid focusAreas');
+      expect(() => PanelManager.initializePanel(withSecond({ id: undefined }))).toThrow(PanelConfigurationError);
+    });
+
+    it('should rotate main questions under the round robin policy', () => {
+      let state = PanelManager.initializePanel(buildPanelConfig());
+      const askers: string[] = [];
+
+      for (let i = 0; i < 4; i++) {
+        const turn = PanelManager.selectNextInterviewer(state);
+        askers.push(turn.personaId);
+        state = PanelManager.recordTurn(state, turn, false);
+      }
+
+      expect(askers).toEqual(['manager', 'engineer', 'recruiter', 'manager']);
+    });
+
+    it('should give questions to the focus area owner under the focus area policy', () => {
+      const state = PanelManager.initializePanel(buildPanelConfig({ turnPolicy: PanelTurnPolicy.FOCUS_AREA }));
+
+      expect(PanelManager.selectNextInterviewer(state, FocusArea.TECHNICAL_SKILLS).personaId).toBe('engineer');
+      expect(PanelManager.selectNextInterviewer(state, FocusArea.TEAMWORK).personaId).toBe('recruiter');
+    });
+
+    it('should hand follow-ups to the persona owning the focus area only when allowed', () => {
+      const withHandOff = PanelManager.initializePanel(buildPanelConfig());
+      const withoutHandOff = PanelManager.initializePanel(buildPanelConfig({ allowFollowUpHandOff: false }));
+
+      const handOff = PanelManager.selectFollowUpInterviewer(withHandOff, 'manager', FocusArea.TECHNICAL_SKILLS);
+      expect(handOff).toEqual(expect.objectContaining({ personaId: 'engineer', isHandOff: true }));
+
+      const stay = PanelManager.selectFollowUpInterviewer(withoutHandOff, 'manager', FocusArea.TECHNICAL_SKILLS);
+      expect(stay).toEqual(expect.objectContaining({ personaId: 'manager', isHandOff: false }));
+    });
+
+    it('should keep the lead on main questions and rotate supporters on follow-ups', () => {
+      let state = PanelManager.initializePanel(buildPanelConfig({ turnPolicy: PanelTurnPolicy.LEAD_INTERVIEWER }));
+
+      expect(PanelManager.selectNextInterviewer(state, FocusArea.TEAMWORK).personaId).toBe('manager');
+
+      const first = PanelManager.selectFollowUpInterviewer(state, 'manager');
+      state = PanelManager.recordTurn(state, first, true);
+      const second = PanelManager.selectFollowUpInterviewer(state, 'manager');
+
+      expect([first.personaId, second.personaId]).toEqual(['engineer', 'recruiter']);
+    });
+  });
+
+  describe('PanelInterviewService', () => {
+    it('should ask questions as the persona whose turn it is', async () => {
+      const provider = new ScriptedLLMProvider();
+      const service = new PanelInterviewService(new DefaultAIInterviewerService(provider));
+      const panelState = PanelManager.initializePanel(buildPanelConfig());
+
+      const first = await service.generateQuestion(buildContext(), panelState);
+      const second = await service.generateQuestion(buildContext(), first.panelState);
+
+      expect(first.question.metadata.panelPersonaId).toBe('manager');
+      expect(second.question.metadata.panelPersonaId).toBe('engineer');
+      expect(provider.getHistory()[1].messages[0].content).toContain('Riley');
+      expect(PanelManager.getMember(second.panelState, 'engineer').questionsAsked).toBe(1);
+    });
+
+    it('should collect separate evaluations and report consensus and disagreement', async () => {
+      const provider = new ScriptedLLMProvider([
+        evaluationFixture('Morgan', 85, ['Clear ownership', 'Measured impact']),
+        evaluationFixture('Riley', 55, ['Clear ownership']),
+        evaluationFixture('Sam', 80, ['Measured impact']),
+      ]);
+      const service = new PanelInterviewService(new DefaultAIInterviewerService(provider));
+      const panelState = PanelManager.initializePanel(buildPanelConfig());
+      const { question } = await service.generateQuestion(buildContext(), panelState);
+
+      const { panelEvaluation, panelState: updated } = await service.evaluateResponse({
+        sessionId: 'panel-session',
+        question,
+        userResponse,
+        evaluationCriteria: question.evaluationCriteria,
+      }, panelState);
+
+      expect(panelEvaluation.evaluations.map(e => e.evaluation.overallScore)).toEqual([85, 55, 80]);
+      expect(panelEvaluation.consensus).toEqual(expect.objectContaining({
+        averageScore: 73,
+        minScore: 55,
+        maxScore: 85,
+        agreement: PanelAgreementLevel.SPLIT,
+        sharedImprovements: ['Quantify the outcome'],
+      }));
+      expect(panelEvaluation.consensus.sharedStrengths).toEqual(['Clear ownership', 'Measured impact']);
+      expect(panelEvaluation.consensus.disagreements[0]).toEqual(expect.objectContaining({
+        highest: { personaId: 'manager', score: 85 },
+        lowest: { personaId: 'engineer', score: 55 },
+        spread: 30,
+      }));
+      expect(updated.members.every(member =>
+        member.personalityState.conversationHistory.some(turn => turn.type === 'response')
+      )).toBe(true);
+
+      const report = PanelManager.summarizePanel([panelEvaluation]);
+      expect(report.agreementBreakdown[PanelAgreementLevel.SPLIT]).toBe(1);
+      expect(report.panelistAverages.find(p => p.personaId === 'engineer')?.averageScore).toBe(55);
+      expect(report.topDisagreements[0].questionId).toBe(question.id);
+    });
+  });
+
+  describe('AIInterviewerController', () => {
+    const createResponse = () => {
+      const res: any = {};
+      res.status = jest.fn(() => res);
+      res.json = jest.fn(() => res);
+      return res;
+    };
+
+    const storedSession = (panel?: PanelConfig) => ({
+      id: 'session-1',
+      userId: 'user-1',
+      config: { ...buildContext().interviewConfig, settings: { panel } },
+    });
+
+    const createPanelStore = () => {
+      const stored = new Map<string, PanelSession>();
+      return {
+        stored,
+        findBySessionId: jest.fn(async (sessionId: string) => stored.get(sessionId) || null),
+        save: jest.fn(async (panelSession: PanelSession) => {
+          stored.set(panelSession.sessionId, panelSession);
+        }),
+      };
+    };
+
+    it('should initialize the panel saved with the interview configuration', async () => {
+      const sessions = { getSession: jest.fn().mockResolvedValue(storedSession(buildPanelConfig())) };
+      const panels = createPanelStore();
+      const controller = new AIInterviewerController(new DefaultAIInterviewerService(new ScriptedLLMProvider()), sessions as any, panels);
+
+      const res = createResponse();
+      await controller.initializePanel({
+        userId: 'user-1',
+        body: { sessionId: 'session-1', panelConfig: buildPanelConfig({ personas: [] }) },
+      } as any, res);
+
+      expect(sessions.getSession).toHaveBeenCalledWith('session-1');
+      expect(res.status).toHaveBeenCalledWith(201);
+      expect(res.json.mock.calls[0][0].data.members.map((member: any) => member.personaId))
+        .toEqual(['manager', 'engineer', 'recruiter']);
+      expect(panels.stored.get('session-1')).toEqual(expect.objectContaining({ userId: 'user-1', evaluations: [] }));
+    });
+
+    it('should refuse sessions of other users and sessions without a panel', async () => {
+      const sessions = { getSession: jest.fn().mockResolvedValue(storedSession(buildPanelConfig())) };
+      const controller = new AIInterviewerController(new DefaultAIInterviewerService(new ScriptedLLMProvider()), sessions as any, createPanelStore());
+
+      const otherUser = createResponse();
+      await controller.initializePanel({ userId: 'user-2', body: { sessionId: 'session-1' } } as any, otherUser);
+      expect(otherUser.status).toHaveBeenCalledWith(403);
+
+      sessions.getSession.mockResolvedValue(storedSession());
+      const noPanel = createResponse();
+      await controller.initializePanel({ userId: 'user-1', body: { sessionId: 'session-1' } } as any, noPanel);
+      expect(noPanel.status).toHaveBeenCalledWith(400);
+      expect(noPanel.json).toHaveBeenCalledWith(expect.objectContaining({ code: 'PANEL_CONFIGURATION_ERROR' }));
+    });
+
+    it('should keep the panel state and evaluations on the server between calls', async () => {
+      const provider = new ScriptedLLMProvider([
+        evaluationFixture('Morgan', 85, ['Clear ownership', 'Measured impact']),
+        evaluationFixture('Riley', 55, ['Clear ownership']),
+        evaluationFixture('Sam', 80, ['Measured impact']),
+      ]);
+      const sessions = { getSession: jest.fn().mockResolvedValue(storedSession(buildPanelConfig())) };
+      const panels = createPanelStore();
+      const controller = new AIInterviewerController(new DefaultAIInterviewerService(provider), sessions as any, panels);
+      const context = { ...buildContext(), sessionId: 'session-1' };
+
+      await controller.initializePanel({ userId: 'user-1', body: { sessionId: 'session-1' } } as any, createResponse());
+
+      // A state sent by the client is ignored
+      const forged = { ...PanelManager.initializePanel(buildPanelConfig()), activePersonaId: 'recruiter', turnCount: 7 };
+      const first = createResponse();
+      await controller.generatePanelQuestion({ userId: 'user-1', body: { context, panelState: forged } } as any, first);
+      const second = createResponse();
+      await controller.generatePanelQuestion({ userId: 'user-1', body: { context } } as any, second);
+
+      const question = first.json.mock.calls[0][0].data.question;
+      expect(question.metadata.panelPersonaId).toBe('manager');
+      expect(second.json.mock.calls[0][0].data.question.metadata.panelPersonaId).toBe('engineer');
+      expect(panels.stored.get('session-1')?.panelState.turnCount).toBe(2);
+
+      await controller.evaluatePanelResponse({
+        userId: 'user-1',
+        body: { context: { sessionId: 'session-1', question, userResponse, evaluationCriteria: question.evaluationCriteria } },
+      } as any, createResponse());
+
+      const report = createResponse();
+      await controller.getPanelReport({
+        userId: 'user-1',
+        body: { sessionId: 'session-1', panelEvaluations: [] },
+      } as any, report);
+
+      expect(panels.stored.get('session-1')?.evaluations).toHaveLength(1);
+      expect(report.json.mock.calls[0][0].data).toEqual(expect.objectContaining({
+        questionCount: 1,
+        averageScore: 73,
+        agreement: PanelAgreementLevel.SPLIT,
+      }));
+    });
+
+    it('should require the panel to be initialized before asking questions', async () => {
+      const sessions = { getSession: jest.fn().mockResolvedValue(storedSession(buildPanelConfig())) };
+      const controller = new AIInterviewerController(new DefaultAIInterviewerService(new ScriptedLLMProvider()), sessions as any, createPanelStore());
+
+      const res = createResponse();
+      await controller.generatePanelQuestion({
+        userId: 'user-1',
+        body: { context: { ...buildContext(), sessionId: 'session-1' }, panelState: PanelManager.initializePanel(buildPanelConfig()) },
+      } as any, res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ code: 'PANEL_CONFIGURATION_ERROR' }));
+    });
+  });
+});
@@ -0,0 +1,363 @@
+import {
+  PanelConfig,
+  PanelPersonaConfig,
+  PanelState,
+  PanelMemberState,
+  PanelTurn,
+  PanelTurnPolicy,
+  PanelistEvaluation,
+  PanelConsensus,
+  PanelDisagreement,
+  PanelEvaluation,
+  PanelReportSummary,
+  PanelAgreementLevel,
+  CriteriaConsensus,
+  FocusArea,
+  InterviewStyle,
+  InterviewTone,
+  FormalityLevel,
+  PanelConfigurationError,
+} from '../types/ai-interviewer';
+import { PersonalityManager, ConversationEvent } from './personality-manager';
+import { logger } from '../utils/logger';
+
+const MIN_PANEL_SIZE = 2;
+const MAX_PANEL_SIZE = 4;
+
+// Score spreads (0-100 scale) separating strong, moderate and split panels
+const STRONG_AGREEMENT_SPREAD = 10;
+const MODERATE_AGREEMENT_SPREAD = 20;
+const DISAGREEMENT_SPREAD = 20;
+
+export class PanelManager {
+  /**
+   * Initialize one personality state per panel persona
+   */
+  static initializePanel(config: PanelConfig): PanelState {
+    this.validatePanelConfig(config);
+
+    logger.info('Initializing interview panel', {
+      personas: config.personas.map(persona => persona.id),
+      turnPolicy: config.turnPolicy,
+    });
+
+    return {
+      config,
+      members: config.personas.map(persona => ({
+        personaId: persona.id,
+        personalityState: PersonalityManager.initializePersonality(persona),
+        questionsAsked: 0,
+        followUpsAsked: 0,
+      })),
+      activePersonaId: config.personas[0].id,
+      turnCount: 0,
+    };
+  }
+
+  static validatePanelConfig(config: PanelConfig): void {
+    const { personas } = config;
+
+    if (!Array.isArray(personas) || personas.length < MIN_PANEL_SIZE || personas.length > MAX_PANEL_SIZE) {
+      throw new PanelConfigurationError(
+        `A panel needs between ${MIN_PANEL_SIZE} and ${MAX_PANEL_SIZE} personas, got ${personas?.length || 0}`
+      );
+    }
+
+    personas.forEach(persona => this.validatePersona(persona));
+
+    const ids = new Set(personas.map(persona => persona.id));
+    if (ids.size !== personas.length) {
+      throw new PanelConfigurationError('Panel persona ids must be unique');
+    }
+
+    if (!Object.values(PanelTurnPolicy).includes(config.turnPolicy)) {
+      throw new PanelConfigurationError(`Unknown panel turn policy: ${config.turnPolicy}`);
+    }
+
+    if (typeof config.allowFollowUpHandOff !== 'boolean') {
+      throw new PanelConfigurationError('Panel allowFollowUpHandOff must be a boolean');
+    }
+  }
+
+  private static validatePersona(persona: PanelPersonaConfig): void {
+    if (typeof persona?.id !== 'string' || !persona.id.trim()) {
+      throw new PanelConfigurationError('Panel personas need an id');
+    }
+
+    const invalid = (field: string) =>
+      new PanelConfigurationError(`Panel persona ${persona.id} has an invalid ${field}`);
+
+    if (typeof persona.name !== 'string' || !persona.name.trim()) {
+      throw invalid('name');
+    }
+    if (!Object.values(InterviewStyle).includes(persona.style)) {
+      throw invalid('style');
+    }
+    if (!Object.values(InterviewTone).includes(persona.tone)) {
+      throw invalid('tone');
+    }
+    if (!Object.values(FormalityLevel).includes(persona.formality)) {
+      throw invalid('formality');
+    }
+
+    // Personality traits are 0-1 scales
+    for (const trait of ['adaptiveness', 'followUpIntensity', 'encouragementLevel'] as const) {
+      const value = persona[trait];
+      if (typeof value !== 'number' || !(value >= 0 && value <= 1)) {
+        throw invalid(trait);
+      }
+    }
+
+    if (!Array.isArray(persona.focusAreas) ||
+        !persona.focusAreas.every(area => Object.values(FocusArea).includes(area))) {
+      throw invalid('focusAreas');
+    }
+  }
+
+  /**
+   * Pick the persona who asks the next main question
+   */
+  static selectNextInterviewer(state: PanelState, focusArea?: FocusArea): PanelTurn {
+    const { personas, turnPolicy } = state.config;
+
+    switch (turnPolicy) {
+      case PanelTurnPolicy.LEAD_INTERVIEWER:
+        return { personaId: personas[0].id, isHandOff: false, reason: 'Lead interviewer asks main questions' };
+
+      case PanelTurnPolicy.FOCUS_AREA: {
+        const owners = focusArea ? personas.filter(persona => persona.focusAreas.includes(focusArea)) : [];
+        if (owners.length > 0) {
+          // Among owners, give the turn to whoever has asked the least
+          const owner = owners.reduce((least, persona) =>
+            this.getMember(state, persona.id).questionsAsked < this.getMember(state, least.id).questionsAsked
+              ? persona
+              : least
+          );
+          return { personaId: owner.id, isHandOff: false, reason: `Owns focus area ${focusArea}` };
+        }
+        return { ...this.nextInRotation(state), reason: 'No persona owns this focus area; rotating' };
+      }
+
+      case PanelTurnPolicy.ROUND_ROBIN:
+      default:
+        return { ...this.nextInRotation(state), reason: 'Round robin' };
+    }
+  }
+
+  /**
+   * Pick the persona who asks a follow-up. With hand-off enabled, a follow-up
+   * on a focus area another persona owns goes to that persona; under the
+   * lead-interviewer policy follow-ups rotate through the supporting personas.
+   */
+  static selectFollowUpInterviewer(state: PanelState, askedByPersonaId: string, focusArea?: FocusArea): PanelTurn {
+    const { personas, turnPolicy, allowFollowUpHandOff } = state.config;
+    const stay: PanelTurn = { personaId: askedByPersonaId, isHandOff: false, reason: 'Original interviewer follows up' };
+
+    if (!allowFollowUpHandOff) {
+      return stay;
+    }
+
+    const others = personas.filter(persona => persona.id !== askedByPersonaId);
+    const owner = focusArea ? others.find(persona => persona.focusAreas.includes(focusArea)) : undefined;
+    if (owner) {
+      return { personaId: owner.id, isHandOff: true, reason: `Handed off to focus area owner for ${focusArea}` };
+    }
+
+    if (turnPolicy === PanelTurnPolicy.LEAD_INTERVIEWER && others.length > 0) {
+      const supporter = others.reduce((least, persona) =>
+        this.getMember(state, persona.id).followUpsAsked < this.getMember(state, least.id).followUpsAsked
+          ? persona
+          : least
+      );
+      return { personaId: supporter.id, isHandOff: true, reason: 'Supporting interviewer follows up' };
+    }
+
+    return stay;
+  }
+
+  /**
+   * Record that a persona asked a question and make it the active persona
+   */
+  static recordTurn(state: PanelState, turn: PanelTurn, isFollowUp: boolean): PanelState {
+    return {
+      ...state,
+      activePersonaId: turn.personaId,
+      turnCount: state.turnCount + 1,
+      members: state.members.map(member => member.personaId !== turn.personaId ? member : {
+        ...member,
+        questionsAsked: member.questionsAsked + (isFollowUp ? 0 : 1),
+        followUpsAsked: member.followUpsAsked + (isFollowUp ? 1 : 0),
+      }),
+    };
+  }
+
+  /**
+   * Questions only update the asking persona; every panelist hears the responses
+   */
+  static updatePanelState(state: PanelState, personaId: string, event: ConversationEvent): PanelState {
+    return {
+      ...state,
+      members: state.members.map(member =>
+        event.type === 'response' || member.personaId === personaId
+          ? { ...member, personalityState: PersonalityManager.updatePersonalityState(member.personalityState, event) }
+          : member
+      ),
+    };
+  }
+
+  static getMember(state: PanelState, personaId: string): PanelMemberState {
+    const member = state.members.find(m => m.personaId === personaId);
+    if (!member) {
+      throw new PanelConfigurationError(`Unknown panel persona: ${personaId}`);
+    }
+    return member;
+  }
+
+  /**
+   * Combine separate panelist evaluations of one response into consensus,
+   * shared feedback and the points where panelists disagree
+   */
+  static buildConsensus(evaluations: PanelistEvaluation[]): PanelConsensus {
+    const scores = evaluations.map(e => e.evaluation.overallScore);
+    const averageScore = this.average(scores);
+    const minScore = scores.length > 0 ? Math.min(...scores) : 0;
+    const maxScore = scores.length > 0 ? Math.max(...scores) : 0;
+    const disagreements: PanelDisagreement[] = [];
+
+    const overallDisagreement = this.findDisagreement(
+      evaluations.map(e => ({ personaId: e.personaId, score: e.evaluation.overallScore }))
+    );
+    if (overallDisagreement) {
+      disagreements.push(overallDisagreement);
+    }
+
+    const criteriaNames = Array.from(new Set(
+      evaluations.flatMap(e => e.evaluation.criteriaScores.map(score => score.criteriaName))
+    ));
+    const criteriaConsensus: CriteriaConsensus[] = criteriaNames.map(criteriaName => {
+      const criteriaScores = evaluations.flatMap(e => e.evaluation.criteriaScores
+        .filter(score => score.criteriaName === criteriaName)
+        .map(score => ({ personaId: e.personaId, score: score.score })));
+
+      const disagreement = this.findDisagreement(criteriaScores);
+      if (disagreement) {
+        disagreements.push({ ...disagreement, criteriaName });
+      }
+
+      const values = criteriaScores.map(s => s.score);
+      return {
+        criteriaName,
+        averageScore: Math.round(this.average(values)),
+        spread: Math.max(...values) - Math.min(...values),
+      };
+    });
+
+    return {
+      averageScore: Math.round(averageScore),
+      minScore,
+      maxScore,
+      standardDeviation: Math.round(this.standardDeviation(scores, averageScore) * 10) / 10,
+      agreement: this.getAgreementLevel(maxScore - minScore),
+      criteriaConsensus,
+      sharedStrengths: this.sharedFeedback(evaluations.map(e => e.evaluation.strengths)),
+      sharedImprovements: this.sharedFeedback(evaluations.map(e => e.evaluation.improvements)),
+      disagreements: disagreements.sort((a, b) => b.spread - a.spread),
+    };
+  }
+
+  /**
+   * Session-level panel summary for the performance report
+   */
+  static summarizePanel(panelEvaluations: PanelEvaluation[]): PanelReportSummary {
+    const agreementBreakdown: Record<PanelAgreementLevel, number> = {
+      [PanelAgreementLevel.STRONG]: 0,
+      [PanelAgreementLevel.MODERATE]: 0,
+      [PanelAgreementLevel.SPLIT]: 0,
+    };
+    const byPersona = new Map<string, { personaName: string; scores: number[] }>();
+
+    for (const panelEvaluation of panelEvaluations) {
+      agreementBreakdown[panelEvaluation.consensus.agreement]++;
+      for (const { personaId, personaName, evaluation } of panelEvaluation.evaluations) {
+        const entry = byPersona.get(personaId) || { personaName, scores: [] };
+        entry.scores.push(evaluation.overallScore);
+        byPersona.set(personaId, entry);
+      }
+    }
+
+    const averageSpread = this.average(
+      panelEvaluations.map(e => e.consensus.maxScore - e.consensus.minScore)
+    );
+
+    return {
+      questionCount: panelEvaluations.length,
+      averageScore: Math.round(this.average(panelEvaluations.map(e => e.consensus.averageScore))),
+      agreement: this.getAgreementLevel(averageSpread),
+      agreementBreakdown,
+      panelistAverages: Array.from(byPersona.entries()).map(([personaId, entry]) => ({
+        personaId,
+        personaName: entry.personaName,
+        averageScore: Math.round(this.average(entry.scores)),
+        evaluations: entry.scores.length,
+      })),
+      topDisagreements: panelEvaluations
+        .flatMap(e => e.consensus.disagreements.map(d => ({ ...d, questionId: e.questionId })))
+        .sort((a, b) => b.spread - a.spread)
+        .slice(0, 5),
+    };
+  }
+
+  private static nextInRotation(state: PanelState): Omit<PanelTurn, 'reason'> {
+    const { personas } = state.config;
+    // Main questions asked so far decide whose turn it is
+    const asked = state.members.reduce((sum, member) => sum + member.questionsAsked, 0);
+    return { personaId: personas[asked % personas.length].id, isHandOff: false };
+  }
+
+  private static findDisagreement(scores: Array<{ personaId: string; score: number }>): PanelDisagreement | null {
+    if (scores.length < 2) {
+      return null;
+    }
+
+    const highest = scores.reduce((max, s) => s.score > max.score ? s : max);
+    const lowest = scores.reduce((min, s) => s.score < min.score ? s : min);
+    const spread = highest.score - lowest.score;
+
+    return spread >= DISAGREEMENT_SPREAD ? { highest, lowest, spread } : null;
+  }
+
+  private static getAgreementLevel(spread: number): PanelAgreementLevel {
+    if (spread <= STRONG_AGREEMENT_SPREAD) return PanelAgreementLevel.STRONG;
+    if (spread <= MODERATE_AGREEMENT_SPREAD) return PanelAgreementLevel.MODERATE;
+    return PanelAgreementLevel.SPLIT;
+  }
+
+  private static sharedFeedback(lists: string[][]): string[] {
+    const counts = new Map<string, { text: string; count: number }>();
+    for (const list of lists) {
+      for (const item of new Set(list.map(text => text.trim()).filter(Boolean))) {
+        const key = item.toLowerCase();
+        const entry = counts.get(key) || { text: item, count: 0 };
+        entry.count++;
+        counts.set(key, entry);
+      }
+    }
+
+    const quorum = Math.ceil(lists.length / 2);
+    return Array.from(counts.values())
+      .filter(entry => entry.count >= quorum)
+      .sort((a, b) => b.count - a.count)
+      .map(entry => entry.text);
+  }
+
+  private static average(values: number[]): number {
+    return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+  }
+
+  private static standardDeviation(values: number[], mean: number): number {
+    if (values.length === 0) {
+      return 0;
+    }
+    return Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length);
+  }
+}
@@ -0,0 +1,47 @@
+import { Pool } from 'pg';
+import { PanelSession, PanelSessionRepository } from '../types/ai-interviewer';
+import { db } from './connection';
+
+export class PostgresPanelSessionRepository implements PanelSessionRepository {
+  constructor(private pool: Pool = db) {}
+
+  async findBySessionId(sessionId: string): Promise<PanelSession | null> {
+    const result = await this.pool.query(
+      'SELECT * FROM panel_sessions WHERE session_id = $1',
+      [sessionId]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const row = result.rows[0];
+    return {
+      sessionId: row.session_id,
+      userId: row.user_id,
+      panelState: row.panel_state,
+      evaluations: row.evaluations,
+      summary: row.summary,
+    };
+  }
+
+  async save(panelSession: PanelSession): Promise<void> {
+    const query = `
+      INSERT INTO panel_sessions (session_id, user_id, panel_state, evaluations, summary)
+      VALUES ($1, $2, $3, $4, $5)
+      ON CONFLICT (session_id) DO UPDATE SET
+        panel_state = EXCLUDED.panel_state,
+        evaluations = EXCLUDED.evaluations,
+        summary = EXCLUDED.summary,
+        updated_at = NOW()
+    `;
+
+    await this.pool.query(query, [
+      panelSession.sessionId,
+      panelSession.userId,
+      JSON.stringify(panelSession.panelState),
+      JSON.stringify(panelSession.evaluations),
+      JSON.stringify(panelSession.summary)
+    ]);
+  }
+}
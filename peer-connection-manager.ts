@@ -1,6 +1,7 @@
 /**
  * Peer Connection Manager
- * Manages WebRTC peer connections and media streams
+ * Manages WebRTC peer connections, media streams and data channels.
+ * Failed connections are recovered with ICE restarts
  */
 
 import { EventEmitter } from 'events';
@@ -14,6 +15,10 @@ import {
   SignalingErrorCode
 } from '../types/webrtc';
 
+const SCREEN_STREAM_ID = 'screen';
+
+const dataChannelKey = (connectionId: string, label: string): string => `${connectionId}:${label}`;
+
 export interface PeerConnectionManagerConfig {
   stunTurnConfig: STUNTURNConfig;
   connectionTimeout: number;
@@ -25,6 +30,11 @@ export class PeerConnectionManager extends EventEmitter {
   private connections: Map<string, RTCPeerConnection> = new Map();
   private localStreams: Map<string, MediaStream> = new Map();
   private remoteStreams: Map<string, MediaStream> = new Map();
+  private initiators: Set<string> = new Set();
+  private restartAttempts: Map<string, number> = new Map();
+  private restartTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private dataChannels: Map<string, RTCDataChannel> = new Map();
+  private screenSenders: Map<string, RTCRtpSender[]> = new Map();
   private config: PeerConnectionManagerConfig;
 
   constructor(config: PeerConnectionManagerConfig) {
@@ -58,6 +68,9 @@ export class PeerConnectionManager extends EventEmitter {
 
       // Store connection
       this.connections.set(connectionId, peerConnection);
+      if (isInitiator) {
+        this.initiators.add(connectionId);
+      }
 
       // Add local streams if available
       const localStream = this.localStreams.get('default');
@@ -105,6 +118,31 @@ export class PeerConnectionManager extends EventEmitter {
     }
   }
 
+  /**
+   * Create an offer that renegotiates ICE on an existing connection, for
+   * example after the network changed or the remote peer reconnected
+   */
+  public async restartIce(connectionId: string): Promise<RTCSessionDescriptionInit> {
+    const connection = this.connections.get(connectionId);
+    if (!connection) {
+      throw new Error(`Connection ${connectionId} not found`);
+    }
+
+    try {
+      logger.info('Restarting ICE', { connectionId, attempt: this.restartAttempts.get(connectionId) || 0 });
+
+      const offer = await connection.createOffer({ iceRestart: true });
+      await connection.setLocalDescription(offer);
+
+      this.emit('iceRestart', { connectionId, offer });
+      return offer;
+
+    } catch (error) {
+      logger.error('Failed to restart ICE', { connectionId, error });
+      throw error;
+    }
+  }
+
   /**
    * Handle incoming offer and create answer
    */
@@ -223,6 +261,93 @@ export class PeerConnectionManager extends EventEmitter {
     }
   }
 
+  /**
+   * Share the screen on a connection next to the camera stream. The caller
+   * renegotiates with createOffer afterwards. Sharing stops for every
+   * connection when the user ends it from the browser
+   */
+  public async startScreenShare(connectionId: string): Promise<MediaStream> {
+    const connection = this.connections.get(connectionId);
+    if (!connection) {
+      throw new Error(`Connection ${connectionId} not found`);
+    }
+
+    const alreadyCapturing = this.localStreams.has(SCREEN_STREAM_ID);
+    const stream = await this.getLocalStream(SCREEN_STREAM_ID, { audio: false, video: true, screen: true });
+
+    if (!alreadyCapturing) {
+      stream.getVideoTracks().forEach(track => {
+        track.addEventListener('ended', () => this.stopScreenShare());
+      });
+    }
+
+    if (!this.screenSenders.has(connectionId)) {
+      this.screenSenders.set(connectionId, stream.getTracks().map(track => connection.addTrack(track, stream)));
+      logger.info('Screen share started', { connectionId });
+      this.emit('screenShareStarted', { connectionId, stream });
+    }
+
+    return stream;
+  }
+
+  /**
+   * Stop sharing the screen on every connection
+   */
+  public stopScreenShare(): void {
+    for (const [connectionId, senders] of this.screenSenders.entries()) {
+      const connection = this.connections.get(connectionId);
+      try {
+        senders.forEach(sender => connection?.removeTrack(sender));
+      } catch (error) {
+        logger.error('Failed to remove screen share tracks', { connectionId, error });
+      }
+      this.emit('screenShareStopped', { connectionId });
+    }
+
+    this.screenSenders.clear();
+    this.stopStream(SCREEN_STREAM_ID);
+  }
+
+  /**
+   * Open a data channel to the remote peer. The peer receives it through
+   * ondatachannel, so only one side creates each label
+   */
+  public createDataChannel(
+    connectionId: string,
+    label: string,
+    options: RTCDataChannelInit = { ordered: true }
+  ): RTCDataChannel {
+    const connection = this.connections.get(connectionId);
+    if (!connection) {
+      throw new Error(`Connection ${connectionId} not found`);
+    }
+
+    const channel = connection.createDataChannel(label, options);
+    this.setupDataChannelHandlers(channel, connectionId);
+
+    logger.info('Data channel created', { connectionId, label });
+    return channel;
+  }
+
+  /**
+   * Send a message on an open data channel. Returns false when the channel
+   * does not exist or is not open yet
+   */
+  public sendDataChannelMessage(connectionId: string, label: string, data: string): boolean {
+    const channel = this.dataChannels.get(dataChannelKey(connectionId, label));
+    if (!channel || channel.readyState !== 'open') {
+      return false;
+    }
+
+    try {
+      channel.send(data);
+      return true;
+    } catch (error) {
+      logger.error('Failed to send data channel message', { connectionId, label, error });
+      return false;
+    }
+  }
+
   /**
    * Update media state (mute/unmute, enable/disable video)
    */
@@ -292,6 +417,10 @@ export class PeerConnectionManager extends EventEmitter {
     try {
       connection.close();
       this.connections.delete(connectionId);
+      this.initiators.delete(connectionId);
+      this.forgetRestarts(connectionId);
+      this.forgetDataChannels(connectionId);
+      this.screenSenders.delete(connectionId);
       
       logger.info('Peer connection closed', { connectionId });
       this.emit('connectionClosed', { connectionId });
@@ -343,6 +472,12 @@ export class PeerConnectionManager extends EventEmitter {
     }
 
     // Clear maps
+    this.restartTimers.forEach(timer => clearTimeout(timer));
+    this.restartTimers.clear();
+    this.restartAttempts.clear();
+    this.dataChannels.clear();
+    this.screenSenders.clear();
+    this.initiators.clear();
     this.connections.clear();
     this.localStreams.clear();
     this.remoteStreams.clear();
@@ -377,6 +512,8 @@ export class PeerConnectionManager extends EventEmitter {
 
       if (connection.iceConnectionState === 'failed') {
         this.handleConnectionFailure(connectionId);
+      } else if (connection.iceConnectionState === 'connected' || connection.iceConnectionState === 'completed') {
+        this.handleConnectionRecovered(connectionId);
       }
     };
 
@@ -457,12 +594,20 @@ export class PeerConnectionManager extends EventEmitter {
   }
 
   private setupDataChannelHandlers(channel: RTCDataChannel, connectionId: string): void {
+    const key = dataChannelKey(connectionId, channel.label);
+    this.dataChannels.set(key, channel);
+
     channel.onopen = () => {
       logger.info('Data channel opened', { connectionId, label: channel.label });
+      this.emit('dataChannelOpen', { connectionId, label: channel.label });
     };
 
     channel.onclose = () => {
       logger.info('Data channel closed', { connectionId, label: channel.label });
+      if (this.dataChannels.get(key) === channel) {
+        this.dataChannels.delete(key);
+      }
+      this.emit('dataChannelClose', { connectionId, label: channel.label });
     };
 
     channel.onmessage = (event) => {
@@ -488,13 +633,58 @@ export class PeerConnectionManager extends EventEmitter {
     };
   }
 
+  /**
+   * Schedule an ICE restart with a growing delay. Only the side that
+   * initiated the connection restarts, so both peers never offer at once
+   */
   private handleConnectionFailure(connectionId: string): void {
     logger.warn('Handling connection failure', { connectionId });
     
     this.emit('connectionFailed', { connectionId });
-    
-    // Attempt reconnection logic could be added here
-    // For now, just emit the failure event
+
+    if (!this.initiators.has(connectionId) || this.restartTimers.has(connectionId)) {
+      return;
+    }
+
+    const attempt = (this.restartAttempts.get(connectionId) || 0) + 1;
+    if (attempt > this.config.reconnectAttempts) {
+      logger.warn('ICE restart attempts exhausted', { connectionId, attempts: this.config.reconnectAttempts });
+      this.emit('reconnectFailed', { connectionId });
+      return;
+    }
+
+    this.restartAttempts.set(connectionId, attempt);
+    this.restartTimers.set(connectionId, setTimeout(() => {
+      this.restartTimers.delete(connectionId);
+      this.restartIce(connectionId).catch(() => this.handleConnectionFailure(connectionId));
+    }, this.config.reconnectDelay * attempt));
+  }
+
+  private handleConnectionRecovered(connectionId: string): void {
+    const attempts = this.restartAttempts.get(connectionId);
+    this.forgetRestarts(connectionId);
+
+    if (attempts) {
+      logger.info('Connection recovered', { connectionId, attempts });
+      this.emit('connectionRecovered', { connectionId, attempts });
+    }
+  }
+
+  private forgetDataChannels(connectionId: string): void {
+    for (const key of Array.from(this.dataChannels.keys())) {
+      if (key.startsWith(`${connectionId}:`)) {
+        this.dataChannels.delete(key);
+      }
+    }
+  }
+
+  private forgetRestarts(connectionId: string): void {
+    const timer = this.restartTimers.get(connectionId);
+    if (timer) {
+      clearTimeout(timer);
+    }
+    this.restartTimers.delete(connectionId);
+    this.restartAttempts.delete(connectionId);
   }
 
   // Getters for monitoring
@@ -10,6 +10,7 @@ import {
   DifficultyLevel,
 } from '../types/ai-interviewer';
 import { logger } from '../utils/logger';
+import { ConversationMemoryManager } from './conversation-memory-manager';
 
 export class PersonalityManager {
   /**
@@ -64,6 +65,14 @@ export class PersonalityManager {
 
     const updatedState = { ...currentState };
 
+    // Turns leaving the short-term window are folded into long-term memory
+    let memory = currentState.memory || ConversationMemoryManager.initializeMemory();
+    memory = ConversationMemoryManager.absorbTurns(memory, currentState.conversationHistory.slice(0, -10));
+    if (event.type === 'response') {
+      memory = ConversationMemoryManager.pinClaims(memory, event.content, event.metadata?.questionId);
+    }
+    updatedState.memory = memory;
+
     // Add conversation turn to history
     updatedState.conversationHistory = [
       ...currentState.conversationHistory.slice(-10), // Keep last 10 turns
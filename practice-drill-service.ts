@@ -24,6 +24,20 @@ export interface PracticeDrillService {
     priorityAreas: string[],
     availableTimePerDay: number
   ): Promise<DailyPracticeRoutine>;
+
+  generatePronunciationDrills(
+    assessment: PronunciationDrillInput
+  ): Promise<PersonalizedDrill[]>;
+}
+
+/**
+ * The parts of a speech analysis pronunciation assessment that drills are built from
+ */
+export interface PronunciationDrillInput {
+  score: number;
+  words: Array<{ word: string; expected?: string; score: number; issues: string[] }>;
+  mispronouncedTerms: Array<{ term: string; heardAs: string; guide?: string; tip?: string }>;
+  omittedWords?: string[];
 }
 
 export interface ProgressiveDrillPlan {
@@ -146,6 +160,113 @@ export class DefaultPracticeDrillService implements PracticeDrillService {
     };
   }
 
+  async generatePronunciationDrills(
+    assessment: PronunciationDrillInput
+  ): Promise<PersonalizedDrill[]> {
+    const difficulty = this.determineDifficulty(assessment.score);
+    const drills: PersonalizedDrill[] = [];
+    const flaggedWords = (issues: string[]) => Array.from(new Set(assessment.words
+      .filter(word => word.score < 0.6 && word.issues.some(issue => issues.includes(issue)))
+      .map(word => (word.expected || word.word).replace(/[^\p{L}\p{M}\p{N}'-]+/gu, ''))));
+
+    const terms = assessment.mispronouncedTerms.filter((term, index, all) =>
+      all.findIndex(other => other.term === term.term) === index);
+    if (terms.length > 0) {
+      drills.push({
+        id: `pronunciation_terms_${difficulty}_${Date.now()}`,
+        title: 'Technical Term Pronunciation',
+        description: `Practice the technical terms that were hard to recognize: ${terms.map(term => term.term).join(', ')}`,
+        targetWeakness: 'pronunciation',
+        difficulty,
+        estimatedDuration: 5 + terms.length * 3,
+        instructions: [
+          ...terms.map(term => term.guide
+            ? `${term.term} (${term.guide}): ${term.tip || 'say it slowly, then at normal speed'}. It was heard as "${term.heardAs}".`
+            : `${term.term}: say it slowly, syllable by syllable, then at normal speed. It was heard as "${term.heardAs}".`),
+          'Say each term five times, then use it in a sentence about your own work',
+          'Record the sentences and check that a speech-to-text app writes the term correctly'
+        ],
+        successCriteria: [
+          'Each term is transcribed correctly in three recordings in a row',
+          'Terms are said at the same pace as the rest of the sentence'
+        ]
+      });
+    }
+
+    const unclear = flaggedWords(['low_intelligibility', 'substitution']).filter(word =>
+      !terms.some(term => term.term.toLowerCase() === word.toLowerCase()));
+    if (unclear.length > 0 || (assessment.omittedWords && assessment.omittedWords.length > 0)) {
+      const practiceWords = [...unclear, ...(assessment.omittedWords || [])].slice(0, 10);
+      drills.push({
+        id: `pronunciation_words_${difficulty}_${Date.now()}`,
+        title: 'Clear Word Shadowing',
+        description: 'Shadow a model speaker on the words that were hard to understand',
+        targetWeakness: 'pronunciation',
+        difficulty,
+        estimatedDuration: 15,
+        instructions: [
+          `Practice words: ${practiceWords.join(', ')}`,
+          'Listen to each word in a dictionary recording and repeat it right after the speaker',
+          'Exaggerate the stressed syllable, then relax to a natural delivery',
+          'Read a paragraph containing these words aloud and record it'
+        ],
+        successCriteria: [
+          'Every practice word is transcribed correctly when read aloud',
+          'A listener understands the paragraph without asking you to repeat'
+        ]
+      });
+    }
+
+    const rushed = flaggedWords(['rushed', 'drawn_out']);
+    if (rushed.length > 0) {
+      drills.push({
+        id: `pronunciation_pacing_${difficulty}_${Date.now()}`,
+        title: 'Syllable Pacing',
+        description: 'Give each syllable its full length so words do not blur together',
+        targetWeakness: 'pronunciation',
+        difficulty,
+        estimatedDuration: 10,
+        instructions: [
+          `Practice words: ${rushed.slice(0, 10).join(', ')}`,
+          'Tap out each syllable on the table while saying the word',
+          'Say the word in a short sentence at half speed, then at normal speed'
+        ],
+        successCriteria: [
+          'Every syllable can be heard in a recording',
+          'Practice words keep the same pace as the words around them'
+        ]
+      });
+    }
+
+    const faded = flaggedWords(['weak', 'mumbled']);
+    if (faded.length > 0) {
+      drills.push({
+        id: `pronunciation_projection_${difficulty}_${Date.now()}`,
+        title: 'Voice Projection Through Word Endings',
+        description: 'Keep your voice strong to the last sound of each word',
+        targetWeakness: 'pronunciation',
+        difficulty,
+        estimatedDuration: 10,
+        instructions: [
+          `Practice words: ${faded.slice(0, 10).join(', ')}`,
+          'Read sentences aloud to someone across the room',
+          'Open your mouth wider on vowels and finish final consonants crisply'
+        ],
+        successCriteria: [
+          'Final words of sentences are as loud as the first',
+          'A listener across the room hears every word'
+        ]
+      });
+    }
+
+    logger.info('Generated pronunciation drills', {
+      drillCount: drills.length,
+      mispronouncedTerms: terms.length
+    });
+
+    return drills;
+  }
+
   private async generateDrillsForSpecificArea(
     area: string,
     categoryScores: CategoryScores,
@@ -0,0 +1,132 @@
+import crypto from 'crypto';
+import {
+  PromptRegistry,
+  PromptTemplate,
+  PromptTemplateParams,
+  PromptAssignment,
+  PromptKind,
+  RenderedPrompt,
+  PromptRegistryError,
+} from '../types/prompt-registry';
+import { DEFAULT_PROMPT_TEMPLATES } from './prompt-templates';
+import { logger } from '../utils/logger';
+
+const BUCKET_COUNT = 100;
+
+/**
+ * In-memory registry of versioned system prompts.
+ *
+ * Sessions are hashed into one of 100 buckets per prompt kind, and buckets
+ * are split between versions by traffic weight, so a session always sees
+ * the same prompt version while different sessions exercise the variants.
+ */
+export class DefaultPromptRegistry implements PromptRegistry {
+  private templates: Map<PromptKind, PromptTemplate[]> = new Map();
+  private trafficSplits: Map<PromptKind, Record<string, number>> = new Map();
+
+  constructor(templates: PromptTemplate[] = DEFAULT_PROMPT_TEMPLATES) {
+    templates.forEach(template => this.register(template));
+  }
+
+  register(template: PromptTemplate): void {
+    const existing = this.templates.get(template.kind) || [];
+    if (existing.some(t => t.version === template.version)) {
+      throw new PromptRegistryError(
+        `Prompt ${template.kind} already has a version ${template.version}`,
+        template.kind
+      );
+    }
+
+    this.templates.set(template.kind, [...existing, template]);
+  }
+
+  getTemplate(kind: PromptKind, version?: string): PromptTemplate {
+    const templates = this.templates.get(kind) || [];
+    const template = version
+      ? templates.find(t => t.version === version)
+      : templates[templates.length - 1];
+
+    if (!template) {
+      throw new PromptRegistryError(
+        version ? `Unknown version ${version} for prompt ${kind}` : `No templates registered for prompt ${kind}`,
+        kind
+      );
+    }
+
+    return template;
+  }
+
+  listTemplates(kind?: PromptKind): PromptTemplate[] {
+    if (kind) {
+      return [...(this.templates.get(kind) || [])];
+    }
+    return Array.from(this.templates.values()).flat();
+  }
+
+  /**
+   * Override template traffic weights for a prompt kind, e.g. `{ v1: 50, v2: 50 }`.
+   * Versions missing from the split receive no new sessions.
+   */
+  setTrafficSplit(kind: PromptKind, split: Record<string, number>): void {
+    for (const [version, weight] of Object.entries(split)) {
+      this.getTemplate(kind, version);
+      if (!(weight >= 0)) {
+        throw new PromptRegistryError(`Invalid traffic weight ${weight} for ${kind} ${version}`, kind);
+      }
+    }
+
+    if (!Object.values(split).some(weight => weight > 0)) {
+      throw new PromptRegistryError(`Traffic split for ${kind} must give at least one version a positive weight`, kind);
+    }
+
+    this.trafficSplits.set(kind, { ...split });
+    logger.info('Prompt traffic split updated', { kind, split });
+  }
+
+  assign(kind: PromptKind, sessionId: string): PromptAssignment {
+    const bucket = this.getBucket(kind, sessionId);
+    const weighted = this.getWeightedTemplates(kind);
+    const total = weighted.reduce((sum, entry) => sum + entry.weight, 0);
+
+    let template = weighted[weighted.length - 1].template;
+    let threshold = 0;
+    for (const entry of weighted) {
+      threshold += (entry.weight / total) * BUCKET_COUNT;
+      if (bucket < threshold) {
+        template = entry.template;
+        break;
+      }
+    }
+
+    return { kind, templateId: template.id, version: template.version, bucket };
+  }
+
+  render(kind: PromptKind, sessionId: string, params: PromptTemplateParams): RenderedPrompt {
+    const assignment = this.assign(kind, sessionId);
+    const template = this.getTemplate(kind, assignment.version);
+
+    return { content: template.render(params), assignment };
+  }
+
+  private getWeightedTemplates(kind: PromptKind): Array<{ template: PromptTemplate; weight: number }> {
+    const templates = this.templates.get(kind) || [];
+    const split = this.trafficSplits.get(kind);
+    const weighted = templates
+      .map(template => ({
+        template,
+        weight: split ? split[template.version] || 0 : template.trafficWeight ?? 1,
+      }))
+      .filter(entry => entry.weight > 0);
+
+    if (weighted.length === 0) {
+      throw new PromptRegistryError(`No active templates for prompt ${kind}`, kind);
+    }
+
+    return weighted;
+  }
+
+  private getBucket(kind: PromptKind, sessionId: string): number {
+    const digest = crypto.createHash('sha256').update(`${kind}:${sessionId}`).digest();
+    return digest.readUInt32BE(0) % BUCKET_COUNT;
+  }
+}
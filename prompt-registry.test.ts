@@ -0,0 +1,136 @@
+import { DefaultAIInterviewerService } from '../services/ai-interviewer-service';
+import { DefaultPromptRegistry } from '../services/prompt-registry-service';
+import { PersonalityManager } from '../services/personality-manager';
+import { ScriptedLLMProvider } from '../services/llm-providers';
+import { PromptKind, PromptRegistryError, PromptTemplate } from '../types/prompt-registry';
+import {
+  AIPersonalityConfig,
+  QuestionType,
+  DifficultyLevel,
+  InterviewStyle,
+  InterviewTone,
+  FormalityLevel,
+} from '../types/ai-interviewer';
+
+const personalityConfig: AIPersonalityConfig = {
+  name: 'Test Interviewer',
+  style: InterviewStyle.FORMAL,
+  tone: InterviewTone.PROFESSIONAL,
+  formality: FormalityLevel.FORMAL,
+  adaptiveness: 0.5,
+  followUpIntensity: 0.5,
+  encouragementLevel: 0.5,
+};
+
+const evaluationTemplate = (version: string, trafficWeight?: number): PromptTemplate => ({
+  id: `evaluation-system-${version}`,
+  kind: PromptKind.EVALUATION_SYSTEM,
+  version,
+  trafficWeight,
+  render: ({ personalityState }) => `Evaluator ${version} for ${personalityState.name}`,
+});
+
+const sessionIds = Array.from({ length: 400 }, (_, i) => `session-${i}`);
+
+describe('Prompt Registry', () => {
+  describe('DefaultPromptRegistry', () => {
+    it('should assign a session to the same version every time', () => {
+      const registry = new DefaultPromptRegistry([evaluationTemplate('v1'), evaluationTemplate('v2')]);
+
+      const first = registry.assign(PromptKind.EVALUATION_SYSTEM, 'session-42');
+      const second = registry.assign(PromptKind.EVALUATION_SYSTEM, 'session-42');
+
+      expect(second).toEqual(first);
+      expect(first.bucket).toBeGreaterThanOrEqual(0);
+      expect(first.bucket).toBeLessThan(100);
+    });
+
+    it('should split sessions between versions by traffic weight', () => {
+      const registry = new DefaultPromptRegistry([evaluationTemplate('v1'), evaluationTemplate('v2')]);
+      registry.setTrafficSplit(PromptKind.EVALUATION_SYSTEM, { v1: 80, v2: 20 });
+
+      const v2Count = sessionIds
+        .map(id => registry.assign(PromptKind.EVALUATION_SYSTEM, id).version)
+        .filter(version => version === 'v2').length;
+
+      expect(v2Count).toBeGreaterThan(40);
+      expect(v2Count).toBeLessThan(120);
+    });
+
+    it('should not assign versions with zero traffic but keep them addressable', () => {
+      const registry = new DefaultPromptRegistry([evaluationTemplate('v1'), evaluationTemplate('v2', 0)]);
+
+      const versions = new Set(sessionIds.map(id => registry.assign(PromptKind.EVALUATION_SYSTEM, id).version));
+
+      expect(versions).toEqual(new Set(['v1']));
+      expect(registry.getTemplate(PromptKind.EVALUATION_SYSTEM, 'v2').id).toBe('evaluation-system-v2');
+    });
+
+    it('should reject duplicate versions, unknown versions and empty splits', () => {
+      const registry = new DefaultPromptRegistry([evaluationTemplate('v1')]);
+
+      expect(() => registry.register(evaluationTemplate('v1'))).toThrow(PromptRegistryError);
+      expect(() => registry.getTemplate(PromptKind.EVALUATION_SYSTEM, 'v9')).toThrow(PromptRegistryError);
+      expect(() => registry.setTrafficSplit(PromptKind.EVALUATION_SYSTEM, { v1: 0 })).toThrow(PromptRegistryError);
+      expect(() => registry.assign(PromptKind.INTERVIEWER_SYSTEM, 'session-1')).toThrow(PromptRegistryError);
+    });
+
+    it('should render the interview config into the v2 interviewer prompt', () => {
+      const registry = new DefaultPromptRegistry();
+      const template = registry.getTemplate(PromptKind.INTERVIEWER_SYSTEM, 'v2');
+
+      const content = template.render({
+        personalityState: PersonalityManager.initializePersonality(personalityConfig),
+        interviewConfig: {
+          id: 'config',
+          role: 'Data Engineer',
+          industry: 'Finance',
+          difficulty: DifficultyLevel.MID,
+          duration: 30,
+          questionTypes: [QuestionType.TECHNICAL],
+          focusAreas: [],
+          aiPersonality: personalityConfig,
+        },
+      });
+
+      expect(content).toContain('Data Engineer position in the Finance industry');
+    });
+  });
+
+  describe('DefaultAIInterviewerService prompt versions', () => {
+    it('should record the assigned prompt version in evaluation metadata', async () => {
+      const registry = new DefaultPromptRegistry([evaluationTemplate('v1'), evaluationTemplate('v2')]);
+      registry.setTrafficSplit(PromptKind.EVALUATION_SYSTEM, { v2: 1 });
+      const provider = new ScriptedLLMProvider();
+      const service = new DefaultAIInterviewerService(provider, { promptRegistry: registry });
+      const question = {
+        id: 'q-1',
+        text: 'Describe a difficult bug you fixed.',
+        type: QuestionType.BEHAVIORAL,
+        category: 'problem_solving',
+        difficulty: DifficultyLevel.MID,
+        evaluationCriteria: [],
+        metadata: { version: 1, usageCount: 0, generatedAt: new Date(), modelVersion: 'scripted-v1' },
+      };
+
+      const evaluation = await service.evaluateResponse({
+        sessionId: 'session-7',
+        question,
+        userResponse: {
+          questionId: question.id,
+          questionText: question.text,
+          responseText: 'I traced a race condition with extra logging.',
+          duration: 60,
+          isSkipped: false,
+          timestamp: new Date(),
+        },
+        evaluationCriteria: [],
+        personalityState: PersonalityManager.initializePersonality(personalityConfig),
+      });
+
+      expect(evaluation.metadata.promptVersion).toBe('v2');
+      expect(evaluation.metadata.promptId).toBe('evaluation-system-v2');
+      expect(provider.getHistory()[0].messages[0].content).toBe('Evaluator v2 for Test Interviewer');
+    });
+  });
+});
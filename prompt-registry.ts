@@ -0,0 +1,66 @@
+// Prompt Registry Types and Interfaces
+
+import {
+  AIInterviewerError,
+  AIPersonalityState,
+  InterviewConfigSummary,
+  RoleSpecificCriteria,
+  TechnicalDomain,
+} from './ai-interviewer';
+
+export interface PromptRegistry {
+  register(template: PromptTemplate): void;
+  getTemplate(kind: PromptKind, version?: string): PromptTemplate;
+  listTemplates(kind?: PromptKind): PromptTemplate[];
+  setTrafficSplit(kind: PromptKind, split: Record<string, number>): void;
+  assign(kind: PromptKind, sessionId: string): PromptAssignment;
+  render(kind: PromptKind, sessionId: string, params: PromptTemplateParams): RenderedPrompt;
+}
+
+/**
+ * A versioned system prompt. Templates of the same kind compete for
+ * sessions according to their traffic weight; a weight of 0 keeps a
+ * version available for replays without assigning it to new sessions.
+ */
+export interface PromptTemplate {
+  id: string;
+  kind: PromptKind;
+  version: string;
+  description?: string;
+  trafficWeight?: number; // Relative share of sessions (default 1)
+  render(params: PromptTemplateParams): string;
+}
+
+export interface PromptTemplateParams {
+  personalityState: AIPersonalityState;
+  interviewConfig?: InterviewConfigSummary;
+  technicalDomain?: TechnicalDomain;
+  roleSpecificCriteria?: RoleSpecificCriteria;
+}
+
+export interface PromptAssignment {
+  kind: PromptKind;
+  templateId: string;
+  version: string;
+  bucket: number; // 0-99, stable for a session
+}
+
+export interface RenderedPrompt {
+  content: string;
+  assignment: PromptAssignment;
+}
+
+// Enums
+export enum PromptKind {
+  INTERVIEWER_SYSTEM = 'interviewer_system',
+  EVALUATION_SYSTEM = 'evaluation_system',
+  TECHNICAL_EVALUATION_SYSTEM = 'technical_evaluation_system',
+}
+
+// Error Types
+export class PromptRegistryError extends AIInterviewerError {
+  constructor(message: string, public kind?: PromptKind) {
+    super(message, 'PROMPT_REGISTRY_ERROR', 500);
+    this.name = 'PromptRegistryError';
+  }
+}
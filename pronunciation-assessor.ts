@@ -0,0 +1,453 @@
+/**
+ * Pronunciation Assessor
+ * Scores articulation and intelligibility word by word, by aligning the
+ * transcript to a reference text and to the audio, and flags technical terms
+ * that are commonly mispronounced
+ */
+
+import { TranscriptionResult, WordSegment } from '../types/speech-analysis';
+import { AudioFeatures } from '../types/audio-features';
+import { LanguagePack } from '../types/language-pack';
+import {
+  PronunciationConfig,
+  PronunciationOptions,
+  PronunciationAssessment,
+  PronunciationIssueType,
+  WordPronunciation,
+  MispronouncedTerm,
+  TechnicalTermPronunciation
+} from '../types/pronunciation';
+
+export const DEFAULT_PRONUNCIATION_CONFIG: PronunciationConfig = {
+  minWordProbability: 0.6,
+  rushedSyllableRatio: 0.5,
+  drawnOutSyllableRatio: 2.5,
+  weakLevelDrop: 0.15,
+  minVoicedRatio: 0.3,
+  flagThreshold: 0.6
+};
+
+export const TECHNICAL_TERM_PRONUNCIATIONS: TechnicalTermPronunciation[] = [
+  {
+    term: 'Kubernetes',
+    guide: 'koo-ber-NET-eez',
+    spellings: ['kubernetes', 'k8s'],
+    misrecognitions: ['cooper netties', 'cooper nettys', 'cooper knitties', 'kuber nets', 'kubernetis', 'cuba netes', 'cube ernetes'],
+    tip: 'Four syllables with the stress on NET'
+  },
+  {
+    term: 'SQL',
+    guide: 'ESS-kyoo-EL or SEE-kwel',
+    spellings: ['sql', 'sequel'],
+    misrecognitions: ['squeal', 'squirrel'],
+    tip: 'Say the three letters, or "sequel"; keep them from running into one syllable'
+  },
+  {
+    term: 'nginx',
+    guide: 'EN-jin-EKS',
+    spellings: ['nginx', 'engine x'],
+    misrecognitions: ['n jinx', 'en jinx', 'enginks', 'n gin x'],
+    tip: 'Say "engine" followed by the letter x'
+  },
+  {
+    term: 'PostgreSQL',
+    guide: 'POHST-gres-kyoo-EL',
+    spellings: ['postgresql', 'postgres'],
+    misrecognitions: ['post gray', 'post grass', 'post greasy', 'postgre sequel'],
+    tip: 'Two parts, "post-gres" and then the letters Q L; "Postgres" alone is fine'
+  },
+  {
+    term: 'Linux',
+    guide: 'LIN-uks',
+    spellings: ['linux'],
+    misrecognitions: ['lie nux', 'line ux', 'lie knucks'],
+    tip: 'A short "i", as in "lint"'
+  },
+  {
+    term: 'Django',
+    guide: 'JANG-goh',
+    spellings: ['django'],
+    misrecognitions: ['d jango', 'dee jango', 'de jango'],
+    tip: 'The d is silent'
+  },
+  {
+    term: 'YAML',
+    guide: 'YAM-ul',
+    spellings: ['yaml'],
+    misrecognitions: ['yamel', 'yamil', 'y a m l'],
+    tip: 'Rhymes with "camel"'
+  },
+  {
+    term: 'kubectl',
+    guide: 'KOOB-kun-TROHL',
+    spellings: ['kubectl', 'kube control', 'cube control', 'kube c t l', 'cube c t l'],
+    misrecognitions: ['cube cuddle', 'cube cuttle', 'kube cuddle'],
+    tip: '"Kube" followed by "control", or by the letters C T L'
+  },
+  {
+    term: 'Hadoop',
+    guide: 'huh-DOOP',
+    spellings: ['hadoop'],
+    misrecognitions: ['had oop', 'hey doop', 'hay doop'],
+    tip: 'Stress the second syllable'
+  },
+  {
+    term: 'Ubuntu',
+    guide: 'oo-BOON-too',
+    spellings: ['ubuntu'],
+    misrecognitions: ['you bun to', 'you bunt to', 'oo boon too'],
+    tip: 'Three syllables with the stress on BOON'
+  },
+  {
+    term: 'Redis',
+    guide: 'RED-iss',
+    spellings: ['redis'],
+    misrecognitions: ['reddis', 'redish'],
+    tip: '"Red" followed by "iss"'
+  }
+];
+
+// Articulation lost per issue, from a perfect 1
+const ARTICULATION_PENALTIES: Partial<Record<PronunciationIssueType, number>> = {
+  [PronunciationIssueType.RUSHED]: 0.35,
+  [PronunciationIssueType.DRAWN_OUT]: 0.15,
+  [PronunciationIssueType.WEAK]: 0.25,
+  [PronunciationIssueType.MUMBLED]: 0.3
+};
+const SUBSTITUTION_INTELLIGIBILITY = 0.3;
+const MISRECOGNITION_CONFIDENCE = 0.8;
+const TERM_PENALTY = 0.05;
+const MAX_TERM_PENALTY = 0.2;
+const MIN_NORM_WORDS = 5; // Fewer words give no reliable speaker norms
+const ACTIVE_LEVEL_MARGIN = 0.1; // About 6 dB above the noise floor counts as sound
+const SUBSTITUTION_COST = 1.5; // Above one edit, below an insertion plus an omission
+
+// A transcript word with its normalized form, skipping punctuation-only tokens
+interface HeardWord {
+  word: WordSegment;
+  token: string;
+  phraseFinal: boolean;
+}
+
+interface ReferenceAlignment {
+  expected: Array<string | undefined>; // Per heard word; undefined for inserted words
+  omitted: string[];
+  matched: number;
+  referenceLength: number;
+}
+
+interface WordAcoustics {
+  duration: number; // Seconds from the first to the last sounding frame inside the word
+  level?: number;
+  voicedRatio?: number; // Share of sounding frames with a pitch
+}
+
+// The speaker's own typical values, which each word is compared against
+interface SpeakerNorms {
+  syllableLength?: number;
+  level?: number;
+}
+
+export class PronunciationAssessor {
+  private config: PronunciationConfig;
+  private lexicon: TechnicalTermPronunciation[];
+
+  constructor(config: Partial<PronunciationConfig> = {}, lexicon: TechnicalTermPronunciation[] = TECHNICAL_TERM_PRONUNCIATIONS) {
+    this.config = { ...DEFAULT_PRONUNCIATION_CONFIG, ...config };
+    this.lexicon = lexicon;
+  }
+
+  /**
+   * Assess every transcribed word. Audio features, when available, give each
+   * word its articulated length, level and voicing; a reference text turns
+   * misheard words into substitutions and unheard ones into omissions.
+   */
+  public assess(
+    transcription: TranscriptionResult,
+    language: LanguagePack,
+    features?: AudioFeatures,
+    options: PronunciationOptions = {}
+  ): PronunciationAssessment {
+    const heard = this.heardWords(transcription);
+    const alignment = options.referenceText ? this.alignReference(heard, options.referenceText) : undefined;
+    const acoustics = heard.map(({ word }) => this.measureWord(word, features));
+    const syllables = heard.map(({ token }) => Math.max(1, language.countSyllables(token)));
+
+    const syllableLengths = acoustics.map((measure, i) => measure.duration / syllables[i]).filter(length => length > 0);
+    const levels = acoustics.map(measure => measure.level).filter((level): level is number => level !== undefined);
+    const norms: SpeakerNorms = {
+      syllableLength: syllableLengths.length >= MIN_NORM_WORDS ? this.median(syllableLengths) : undefined,
+      level: levels.length >= MIN_NORM_WORDS ? this.median(levels) : undefined
+    };
+
+    const words = heard.map((entry, i) =>
+      this.scoreWord(entry, acoustics[i], syllables[i], norms, alignment ? alignment.expected[i] : undefined));
+    const mispronouncedTerms = this.detectTerms(heard, alignment, options.technicalTerms || []);
+
+    const totalSyllables = syllables.reduce((sum, count) => sum + count, 0);
+    const articulation = totalSyllables > 0
+      ? words.reduce((sum, word) => sum + word.articulation * word.syllables, 0) / totalSyllables
+      : 0;
+    const intelligibility = this.mean(words.map(word => word.intelligibility));
+    const referenceCoverage = alignment && alignment.referenceLength > 0
+      ? alignment.matched / alignment.referenceLength
+      : undefined;
+
+    let score = (articulation + intelligibility) / 2;
+    if (referenceCoverage !== undefined) {
+      score *= 0.5 + 0.5 * referenceCoverage;
+    }
+    score -= Math.min(MAX_TERM_PENALTY, mispronouncedTerms.length * TERM_PENALTY);
+
+    return {
+      score: this.round(Math.max(0, Math.min(1, score))),
+      articulation: this.round(articulation),
+      intelligibility: this.round(intelligibility),
+      words,
+      mispronouncedTerms,
+      omittedWords: alignment ? alignment.omitted : [],
+      referenceCoverage: referenceCoverage !== undefined ? this.round(referenceCoverage) : undefined,
+      audioAligned: !!features
+    };
+  }
+
+  /**
+   * Words scoring below the flag threshold overall or for articulation alone,
+   * for reporting
+   */
+  public flaggedWords(assessment: PronunciationAssessment): WordPronunciation[] {
+    return assessment.words.filter(word =>
+      word.score < this.config.flagThreshold || word.articulation < this.config.flagThreshold);
+  }
+
+  private scoreWord(
+    { word, token, phraseFinal }: HeardWord,
+    acoustics: WordAcoustics,
+    syllables: number,
+    norms: SpeakerNorms,
+    expected: string | undefined
+  ): WordPronunciation {
+    const issues: PronunciationIssueType[] = [];
+
+    if (norms.syllableLength !== undefined && acoustics.duration > 0) {
+      const ratio = acoustics.duration / syllables / norms.syllableLength;
+      if (ratio < this.config.rushedSyllableRatio) {
+        issues.push(PronunciationIssueType.RUSHED);
+      } else if (ratio > this.config.drawnOutSyllableRatio && !phraseFinal) {
+        // Lengthening the last word of a phrase is natural
+        issues.push(PronunciationIssueType.DRAWN_OUT);
+      }
+    }
+    if (norms.level !== undefined && acoustics.level !== undefined && acoustics.level < norms.level - this.config.weakLevelDrop) {
+      issues.push(PronunciationIssueType.WEAK);
+    }
+    if (acoustics.voicedRatio !== undefined && acoustics.voicedRatio < this.config.minVoicedRatio) {
+      issues.push(PronunciationIssueType.MUMBLED);
+    }
+
+    const probability = word.probability ?? word.confidence;
+    if (probability < this.config.minWordProbability) {
+      issues.push(PronunciationIssueType.LOW_INTELLIGIBILITY);
+    }
+    const substituted = expected !== undefined && expected !== token;
+    if (substituted) {
+      issues.push(PronunciationIssueType.SUBSTITUTION);
+    }
+
+    const articulation = Math.max(0, 1 - issues.reduce((sum, issue) => sum + (ARTICULATION_PENALTIES[issue] || 0), 0));
+    const intelligibility = substituted ? Math.min(probability, SUBSTITUTION_INTELLIGIBILITY) : probability;
+
+    return {
+      word: word.word,
+      expected,
+      start: word.start,
+      end: word.end,
+      syllables,
+      articulation: this.round(articulation),
+      intelligibility: this.round(intelligibility),
+      score: this.round((articulation + intelligibility) / 2),
+      issues
+    };
+  }
+
+  /**
+   * Trim the word's span to the frames that carry sound, so word timings that
+   * include surrounding silence do not read as slow articulation
+   */
+  private measureWord(word: WordSegment, features?: AudioFeatures): WordAcoustics {
+    const spoken = Math.max(0, word.end - word.start);
+    if (!features) {
+      return { duration: spoken };
+    }
+
+    const first = Math.max(0, Math.floor(word.start / features.hopLength));
+    const last = Math.min(features.energyEnvelope.length, Math.ceil(word.end / features.hopLength));
+    if (last <= first) {
+      return { duration: spoken };
+    }
+
+    const sounding: number[] = [];
+    for (let frame = first; frame < last; frame++) {
+      if (features.energyEnvelope[frame] > features.noiseFloor + ACTIVE_LEVEL_MARGIN) sounding.push(frame);
+    }
+    if (sounding.length === 0) {
+      return { duration: spoken, level: this.mean(features.energyEnvelope.slice(first, last)), voicedRatio: 0 };
+    }
+
+    return {
+      duration: Math.min(spoken, (sounding[sounding.length - 1] - sounding[0] + 1) * features.hopLength),
+      level: this.mean(sounding.map(frame => features.energyEnvelope[frame])),
+      voicedRatio: sounding.filter(frame => features.pitchContour[frame] !== null).length / sounding.length
+    };
+  }
+
+  /**
+   * Edit-distance alignment of the heard words against the reference text
+   */
+  private alignReference(heard: HeardWord[], referenceText: string): ReferenceAlignment {
+    const reference = this.tokenize(referenceText);
+    const rows = heard.length + 1;
+    const columns = reference.length + 1;
+    const cost: number[][] = Array.from({ length: rows }, (_, i) =>
+      Array.from({ length: columns }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)));
+
+    for (let i = 1; i < rows; i++) {
+      for (let j = 1; j < columns; j++) {
+        const substitution = cost[i - 1][j - 1] + (heard[i - 1].token === reference[j - 1] ? 0 : SUBSTITUTION_COST);
+        cost[i][j] = Math.min(substitution, cost[i - 1][j] + 1, cost[i][j - 1] + 1);
+      }
+    }
+
+    const expected: Array<string | undefined> = new Array(heard.length).fill(undefined);
+    const omitted: string[] = [];
+    let matched = 0;
+    let i = heard.length;
+    let j = reference.length;
+
+    while (i > 0 || j > 0) {
+      const same = i > 0 && j > 0 && heard[i - 1].token === reference[j - 1];
+      if (i > 0 && j > 0 && cost[i][j] === cost[i - 1][j - 1] + (same ? 0 : SUBSTITUTION_COST)) {
+        expected[i - 1] = reference[j - 1];
+        if (same) matched++;
+        i--;
+        j--;
+      } else if (i > 0 && cost[i][j] === cost[i - 1][j] + 1) {
+        i--; // Inserted word
+      } else {
+        omitted.unshift(reference[j - 1]);
+        j--;
+      }
+    }
+
+    return { expected, omitted, matched, referenceLength: reference.length };
+  }
+
+  /**
+   * Technical terms heard as one of their common misrecognitions, heard
+   * correctly but with low recognizer confidence, or substituted in a reference
+   * text. Overlapping detections keep the first.
+   */
+  private detectTerms(heard: HeardWord[], alignment: ReferenceAlignment | undefined, technicalTerms: string[]): MispronouncedTerm[] {
+    const found: MispronouncedTerm[] = [];
+    const tokens = heard.map(entry => entry.token);
+
+    for (const entry of this.lexicon) {
+      for (const phrase of entry.misrecognitions) {
+        this.findPhrase(tokens, phrase).forEach(([from, to]) =>
+          found.push(this.termAt(entry.term, heard.slice(from, to), MISRECOGNITION_CONFIDENCE, entry)));
+      }
+      for (const phrase of entry.spellings) {
+        this.findPhrase(tokens, phrase).forEach(([from, to]) => {
+          const probability = Math.min(...heard.slice(from, to).map(({ word }) => word.probability ?? word.confidence));
+          if (probability < this.config.minWordProbability) {
+            found.push(this.termAt(entry.term, heard.slice(from, to), 1 - probability, entry));
+          }
+        });
+      }
+    }
+
+    const extraTerms = technicalTerms
+      .map(term => term.toLowerCase())
+      .filter(term => !this.lexicon.some(entry => entry.spellings.includes(term)));
+    heard.forEach((entry, i) => {
+      const probability = entry.word.probability ?? entry.word.confidence;
+      const expected = alignment ? alignment.expected[i] : undefined;
+
+      if (expected !== undefined && expected !== entry.token) {
+        const lexiconEntry = this.lexicon.find(candidate => candidate.spellings.includes(expected));
+        if (lexiconEntry || extraTerms.includes(expected)) {
+          found.push(this.termAt(lexiconEntry ? lexiconEntry.term : expected, [entry], MISRECOGNITION_CONFIDENCE, lexiconEntry));
+        }
+      } else if (extraTerms.includes(entry.token) && probability < this.config.minWordProbability) {
+        found.push(this.termAt(entry.word.word, [entry], 1 - probability));
+      }
+    });
+
+    return found
+      .sort((a, b) => a.start - b.start || b.confidence - a.confidence)
+      .filter((term, i, sorted) => i === 0 || term.start >= sorted[i - 1].end)
+      .map(term => ({ ...term, confidence: this.round(term.confidence) }));
+  }
+
+  private termAt(term: string, words: HeardWord[], confidence: number, entry?: TechnicalTermPronunciation): MispronouncedTerm {
+    return {
+      term,
+      heardAs: words.map(({ word }) => word.word.replace(/[^\p{L}\p{M}\p{N}'-]+$/u, '')).join(' '),
+      start: words[0].word.start,
+      end: words[words.length - 1].word.end,
+      guide: entry ? entry.guide : undefined,
+      tip: entry ? entry.tip : undefined,
+      confidence
+    };
+  }
+
+  // Start and end indices of each occurrence of the phrase's tokens
+  private findPhrase(tokens: string[], phrase: string): Array<[number, number]> {
+    const parts = this.tokenize(phrase);
+    const matches: Array<[number, number]> = [];
+
+    for (let i = 0; i + parts.length <= tokens.length; i++) {
+      if (parts.every((part, offset) => tokens[i + offset] === part)) {
+        matches.push([i, i + parts.length]);
+      }
+    }
+    return matches;
+  }
+
+  private heardWords(transcription: TranscriptionResult): HeardWord[] {
+    const heard: HeardWord[] = [];
+
+    for (const segment of transcription.segments) {
+      const words = segment.words
+        .map(word => ({ word, token: this.normalize(word.word), phraseFinal: false }))
+        .filter(entry => entry.token.length > 0);
+      words.forEach((entry, i) => {
+        entry.phraseFinal = i === words.length - 1 || /[.!?,;:]$/.test(entry.word.word);
+      });
+      heard.push(...words);
+    }
+    return heard;
+  }
+
+  private tokenize(text: string): string[] {
+    return text.split(/\s+/).map(token => this.normalize(token)).filter(token => token.length > 0);
+  }
+
+  private normalize(word: string): string {
+    return word.toLowerCase().replace(/[^\p{L}\p{M}\p{N}]+/gu, '');
+  }
+
+  private median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+  }
+
+  private mean(values: number[]): number {
+    return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,222 @@
+/**
+ * Pronunciation Assessment Tests
+ * Per-word articulation and intelligibility, reference alignment and technical terms
+ */
+
+import { PronunciationAssessor } from '../services/pronunciation-assessor';
+import { AudioFeatureExtractor } from '../services/audio-feature-extractor';
+import { SpeechAnalysisEngine } from '../services/speech-analysis-engine';
+import { FixtureTranscriptionProvider } from '../services/transcription-providers';
+import { ENGLISH_LANGUAGE_PACK } from '../services/language-packs';
+import { PronunciationIssueType } from '../types/pronunciation';
+import {
+  SpeechAnalysisConfig,
+  TranscriptionResult,
+  AudioEncoding,
+  WhisperModel,
+  ClarityIssueType
+} from '../types/speech-analysis';
+
+const SAMPLE_RATE = 16000;
+
+interface WordSpec {
+  word: string;
+  probability?: number;
+  voiced?: number; // seconds of tone at the start of the word's 0.3 s slot
+  amplitude?: number;
+}
+
+const SLOT = 0.3;
+const GAP = 0.1;
+
+// Each word is a 150 Hz voiced tone in its own slot, separated by faint hum
+const synthesize = (words: WordSpec[]): Float32Array => {
+  const samples = new Float32Array(Math.round((GAP + words.length * (SLOT + GAP)) * SAMPLE_RATE));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = 0.0005 * Math.sin(2 * Math.PI * 50 * i / SAMPLE_RATE);
+  }
+  words.forEach((word, index) => {
+    const start = Math.round((GAP + index * (SLOT + GAP)) * SAMPLE_RATE);
+    const length = Math.round((word.voiced ?? SLOT) * SAMPLE_RATE);
+    for (let i = 0; i < length; i++) {
+      const t = i / SAMPLE_RATE;
+      samples[start + i] = (word.amplitude ?? 0.3) * (0.6 * Math.sin(2 * Math.PI * 150 * t) + 0.3 * Math.sin(4 * Math.PI * 150 * t));
+    }
+  });
+  return samples;
+};
+
+const encodeWav = (samples: Float32Array): Buffer => {
+  const data = Buffer.alloc(samples.length * 2);
+  samples.forEach((sample, i) => data.writeInt16LE(Math.round(Math.max(-1, Math.min(1, sample)) * 32767), i * 2));
+
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + data.length, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(1, 22);
+  header.writeUInt32LE(SAMPLE_RATE, 24);
+  header.writeUInt32LE(SAMPLE_RATE * 2, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(data.length, 40);
+
+  return Buffer.concat([header, data]);
+};
+
+const timedWords = (words: WordSpec[]) => words.map((spec, index) => ({
+  word: spec.word,
+  start: GAP + index * (SLOT + GAP),
+  end: GAP + index * (SLOT + GAP) + SLOT,
+  confidence: spec.probability ?? 0.95
+}));
+
+const transcriptionOf = (words: WordSpec[]): TranscriptionResult => {
+  const segments = timedWords(words).map(word => ({ ...word, probability: word.confidence }));
+  return {
+    text: words.map(word => word.word).join(' '),
+    segments: [{ id: 0, text: words.map(word => word.word).join(' '), start: segments[0].start, end: segments[segments.length - 1].end, confidence: 0.9, words: segments }],
+    language: 'en',
+    confidence: 0.9,
+    wordCount: words.length,
+    duration: GAP + words.length * (SLOT + GAP)
+  };
+};
+
+const SPOKEN: WordSpec[] = [
+  { word: 'We' },
+  { word: 'ran' },
+  { word: 'the' },
+  { word: 'tests', voiced: 0.08 },
+  { word: 'on' },
+  { word: 'a' },
+  { word: 'new', voiced: 0.08, amplitude: 0.02 },
+  { word: 'box' },
+  { word: 'with' },
+  { word: 'cooper', probability: 0.7 },
+  { word: 'netties', probability: 0.7 },
+  { word: 'and' },
+  { word: 'SQL.', probability: 0.4 }
+];
+
+describe('PronunciationAssessor', () => {
+  const assessor = new PronunciationAssessor();
+  const features = new AudioFeatureExtractor().extract({
+    samples: synthesize(SPOKEN),
+    sampleRate: SAMPLE_RATE,
+    duration: GAP + SPOKEN.length * (SLOT + GAP)
+  });
+
+  it('should flag rushed and weak words measured in the audio', () => {
+    const assessment = assessor.assess(transcriptionOf(SPOKEN), ENGLISH_LANGUAGE_PACK, features);
+
+    const byWord = (word: string) => assessment.words.find(entry => entry.word === word)!;
+    expect(assessment.audioAligned).toBe(true);
+    expect(byWord('tests').issues).toEqual([PronunciationIssueType.RUSHED]);
+    expect(byWord('new').issues).toEqual([PronunciationIssueType.RUSHED, PronunciationIssueType.WEAK]);
+    expect(byWord('ran').issues).toEqual([]);
+    expect(byWord('ran').score).toBeGreaterThan(0.9);
+    expect(byWord('tests').articulation).toBeLessThan(byWord('ran').articulation);
+  });
+
+  it('should flag misrecognized and unclear technical terms with a guide', () => {
+    const assessment = assessor.assess(transcriptionOf(SPOKEN), ENGLISH_LANGUAGE_PACK);
+
+    expect(assessment.audioAligned).toBe(false);
+    expect(assessment.mispronouncedTerms).toEqual([
+      expect.objectContaining({ term: 'Kubernetes', heardAs: 'cooper netties', guide: 'koo-ber-NET-eez', confidence: 0.8 }),
+      expect.objectContaining({ term: 'SQL', heardAs: 'SQL', confidence: 0.6 })
+    ]);
+    expect(assessment.words.find(word => word.word === 'SQL.')!.issues).toEqual([PronunciationIssueType.LOW_INTELLIGIBILITY]);
+  });
+
+  it('should check context terms that are not in the lexicon', () => {
+    const words: WordSpec[] = [{ word: 'We' }, { word: 'use' }, { word: 'terraform', probability: 0.3 }];
+
+    const assessment = assessor.assess(transcriptionOf(words), ENGLISH_LANGUAGE_PACK, undefined, { technicalTerms: ['Terraform'] });
+
+    expect(assessment.mispronouncedTerms).toEqual([
+      expect.objectContaining({ term: 'terraform', confidence: 0.7, guide: undefined })
+    ]);
+  });
+
+  it('should align a reference text into substitutions and omissions', () => {
+    const words: WordSpec[] = [
+      { word: 'We' }, { word: 'deployed' }, { word: 'it' }, { word: 'on' }, { word: 'cooper' }, { word: 'netties' }, { word: 'yesterday' }
+    ];
+
+    const assessment = assessor.assess(transcriptionOf(words), ENGLISH_LANGUAGE_PACK, undefined, {
+      referenceText: 'We deployed it on Kubernetes yesterday with Helm.'
+    });
+
+    const substituted = assessment.words.filter(word => word.issues.includes(PronunciationIssueType.SUBSTITUTION));
+    expect(substituted).toHaveLength(1);
+    expect(substituted[0]).toEqual(expect.objectContaining({ expected: 'kubernetes', intelligibility: 0.3 }));
+    expect(assessment.words[6].expected).toBe('yesterday');
+    expect(assessment.omittedWords).toEqual(['with', 'helm']);
+    expect(assessment.referenceCoverage).toBe(0.63);
+    expect(assessment.mispronouncedTerms).toHaveLength(1);
+    expect(assessment.score).toBeLessThan(assessor.assess(transcriptionOf(words), ENGLISH_LANGUAGE_PACK).score);
+  });
+});
+
+describe('Pronunciation assessment in speech analysis', () => {
+  const config: SpeechAnalysisConfig = {
+    whisperApiKey: 'test-api-key',
+    whisperBaseUrl: 'https://api.openai.com/v1',
+    enableAdvancedAnalysis: true,
+    fillerWords: { verbal: ['um', 'uh'], lexical: ['like'], customFillers: [], detectionSensitivity: 0.8 },
+    paceThresholds: { optimalWPM: { min: 150, max: 190, optimal: 170 }, slowThreshold: 120, fastThreshold: 220, variabilityThreshold: 0.3 },
+    pauseThresholds: { minPauseLength: 0.3, maxOptimalPause: 2.0, hesitationThreshold: 1.5, strategicPauseRange: { min: 0.5, max: 1.5, optimal: 1.0 } },
+    clarityThresholds: { minClarityScore: 0.7, noiseThreshold: 0.3, articulationThreshold: 0.75, volumeConsistencyThreshold: 0.8 },
+    confidenceThresholds: { minConfidenceScore: 0.6, hesitationRatioThreshold: 0.15, fillerFrequencyThreshold: 8.0, assertivenessThreshold: 0.5 },
+    volumeThresholds: { optimalRange: { min: 0.4, max: 0.9 }, variabilityThreshold: 0.25, minAudibleLevel: 0.2, maxComfortableLevel: 0.95 }
+  };
+
+  it('should report word-level clarity issues and term recommendations', async () => {
+    const engine = new SpeechAnalysisEngine(config, new FixtureTranscriptionProvider([{
+      text: SPOKEN.map(word => word.word).join(' '),
+      words: timedWords(SPOKEN)
+    }]));
+
+    const result = await engine.analyzeSpeech({
+      audioData: {
+        buffer: encodeWav(synthesize(SPOKEN)),
+        format: { encoding: AudioEncoding.WAV, mimeType: 'audio/wav', extension: 'wav' },
+        duration: GAP + SPOKEN.length * (SLOT + GAP),
+        sampleRate: SAMPLE_RATE,
+        channels: 1,
+        bitDepth: 16
+      },
+      context: { questionType: 'technical', language: 'en' },
+      options: {
+        enableTranscription: true,
+        enablePaceAnalysis: true,
+        enablePauseAnalysis: true,
+        enableFillerDetection: true,
+        enableClarityAnalysis: true,
+        enableConfidenceAnalysis: true,
+        enableEmotionDetection: true,
+        enableVolumeAnalysis: true,
+        confidenceThreshold: 0.7,
+        whisperModel: WhisperModel.BASE,
+        enablePronunciationAssessment: true
+      }
+    });
+
+    const clarity = result.clarityAnalysis;
+    expect(clarity.pronunciation).toBeDefined();
+    expect(clarity.metrics.pronunciationScore).toBe(clarity.pronunciation!.score);
+    expect(clarity.issues).toContainEqual(expect.objectContaining({
+      type: ClarityIssueType.MISPRONUNCIATION,
+      affectedWords: ['Kubernetes'],
+      suggestion: 'Say it koo-ber-NET-eez. Four syllables with the stress on NET'
+    }));
+    expect(clarity.issues.some(issue => issue.affectedWords.includes('new'))).toBe(true);
+    expect(clarity.recommendations).toContain('Practice the pronunciation of: Kubernetes, SQL');
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Pronunciation Assessment Types
+ * Defines per-word articulation and intelligibility scores and flagged technical terms
+ */
+
+export enum PronunciationIssueType {
+  LOW_INTELLIGIBILITY = 'low_intelligibility', // The recognizer was unsure what was said
+  SUBSTITUTION = 'substitution', // Heard as a different word than the reference text
+  RUSHED = 'rushed', // Syllables much shorter than the speaker's own norm
+  DRAWN_OUT = 'drawn_out', // Syllables much longer than the speaker's own norm
+  WEAK = 'weak', // Much quieter than the surrounding speech
+  MUMBLED = 'mumbled' // Little voicing inside the word
+}
+
+export interface PronunciationConfig {
+  minWordProbability: number; // Recognizer probability below which a word is hard to understand
+  rushedSyllableRatio: number; // Syllable length relative to the speaker's median
+  drawnOutSyllableRatio: number;
+  weakLevelDrop: number; // 0-1 level below the speaker's median word level (0.1 is about 6 dB)
+  minVoicedRatio: number; // Share of voiced frames inside a word
+  flagThreshold: number; // Words scoring below this are reported
+}
+
+export interface TechnicalTermPronunciation {
+  term: string;
+  guide: string; // Respelling with the stressed syllable in capitals, e.g. koo-ber-NET-eez
+  spellings: string[]; // Transcriptions of a correct pronunciation
+  misrecognitions: string[]; // What recognizers write for common mispronunciations
+  tip: string;
+}
+
+export interface PronunciationOptions {
+  referenceText?: string; // Script the candidate read aloud, when practising one
+  technicalTerms?: string[]; // Further terms to check, beyond the lexicon
+}
+
+export interface WordPronunciation {
+  word: string;
+  expected?: string; // Aligned reference word, when a reference text was given
+  start: number;
+  end: number;
+  syllables: number;
+  articulation: number; // 0-1
+  intelligibility: number; // 0-1
+  score: number; // 0-1
+  issues: PronunciationIssueType[];
+}
+
+export interface MispronouncedTerm {
+  term: string;
+  heardAs: string;
+  start: number;
+  end: number;
+  guide?: string;
+  tip?: string;
+  confidence: number; // 0-1, how sure we are the term was mispronounced
+}
+
+export interface PronunciationAssessment {
+  score: number; // 0-1
+  articulation: number;
+  intelligibility: number;
+  words: WordPronunciation[];
+  mispronouncedTerms: MispronouncedTerm[];
+  omittedWords: string[]; // Reference words that were not heard
+  referenceCoverage?: number; // Share of reference words heard as written
+  audioAligned: boolean; // False when only transcript timing was available
+}
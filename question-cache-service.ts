@@ -0,0 +1,212 @@
+import { v4 as uuidv4 } from 'uuid';
+import { GeneratedQuestion, QuestionGenerationContext, QuestionType } from '../types/ai-interviewer';
+import {
+  QuestionCache,
+  QuestionCacheConfig,
+  QuestionCacheResult,
+  QuestionCacheStats,
+} from '../types/question-cache';
+import { logger } from '../utils/logger';
+
+export const DEFAULT_QUESTION_CACHE_CONFIG: QuestionCacheConfig = {
+  ttlMs: 6 * 60 * 60 * 1000, // 6 hours
+  maxVariantsPerKey: 20,
+  maxKeys: 1000,
+  maxSeenPerUser: 1000,
+};
+
+interface CachedVariant {
+  question: GeneratedQuestion;
+  fingerprint: string;
+  expiresAt: number;
+}
+
+/**
+ * In-memory cache of generated questions keyed on the parts of a
+ * QuestionGenerationContext that shape the question: role, industry,
+ * difficulty, question type, focus area and interviewer style. Session
+ * details (ids, history, mood) are ignored so template-driven sessions share
+ * entries; each key holds several variants and users are only served
+ * questions they have not seen, including those already asked this session.
+ */
+export class InMemoryQuestionCache implements QuestionCache {
+  private config: QuestionCacheConfig;
+  private entries: Map<string, CachedVariant[]> = new Map();
+  private inFlight: Map<string, Promise<GeneratedQuestion>> = new Map();
+  private seenByUser: Map<string, Set<string>> = new Map();
+  private stats = { hits: 0, misses: 0, deduplicated: 0 };
+
+  constructor(config: Partial<QuestionCacheConfig> = {}) {
+    this.config = { ...DEFAULT_QUESTION_CACHE_CONFIG, ...config };
+  }
+
+  async getOrGenerate(
+    context: QuestionGenerationContext,
+    generate: () => Promise<GeneratedQuestion>,
+    variant?: string
+  ): Promise<QuestionCacheResult> {
+    const key = this.buildKey(context, variant);
+
+    const cached = this.lookup(context, variant);
+    if (cached) {
+      return { question: cached, cacheHit: true, deduplicated: false };
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      const shared = await pending;
+      if (!this.getExcluded(context).has(this.fingerprint(shared.text))) {
+        this.stats.deduplicated++;
+        this.markSeen(context.userId, shared.text);
+        return { question: this.clone(shared), cacheHit: true, deduplicated: true };
+      }
+    }
+
+    this.stats.misses++;
+    const generation = generate().then(question => {
+      this.store(context, question, variant);
+      return question;
+    });
+    this.inFlight.set(key, generation);
+
+    try {
+      const question = await generation;
+      this.markSeen(context.userId, question.text);
+      return { question, cacheHit: false, deduplicated: false };
+    } finally {
+      if (this.inFlight.get(key) === generation) {
+        this.inFlight.delete(key);
+      }
+    }
+  }
+
+  lookup(context: QuestionGenerationContext, variant?: string): GeneratedQuestion | null {
+    const key = this.buildKey(context, variant);
+    const variants = this.getLiveVariants(key);
+    if (variants.length === 0) {
+      return null;
+    }
+
+    const excluded = this.getExcluded(context);
+    const match = variants.find(entry => !excluded.has(entry.fingerprint));
+    if (!match) {
+      return null;
+    }
+
+    this.stats.hits++;
+    this.markSeen(context.userId, match.question.text);
+    return this.clone(match.question);
+  }
+
+  store(context: QuestionGenerationContext, question: GeneratedQuestion, variant?: string): void {
+    // Fallback questions are placeholders, not worth serving to other sessions
+    if (question.metadata.isFallback) {
+      return;
+    }
+
+    const key = this.buildKey(context, variant);
+    const fingerprint = this.fingerprint(question.text);
+    const variants = this.getLiveVariants(key).filter(entry => entry.fingerprint !== fingerprint);
+
+    variants.push({ question, fingerprint, expiresAt: Date.now() + this.config.ttlMs });
+    this.entries.delete(key);
+    this.entries.set(key, variants.slice(-this.config.maxVariantsPerKey));
+
+    while (this.entries.size > this.config.maxKeys) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  markSeen(userId: string, questionText: string): void {
+    if (!userId) {
+      return;
+    }
+
+    const seen = this.seenByUser.get(userId) || new Set<string>();
+    seen.delete(this.fingerprint(questionText));
+    seen.add(this.fingerprint(questionText));
+
+    // Sets iterate in insertion order, so the first entries are the oldest
+    while (seen.size > this.config.maxSeenPerUser) {
+      seen.delete(seen.values().next().value as string);
+    }
+
+    this.seenByUser.set(userId, seen);
+  }
+
+  getStats(): QuestionCacheStats {
+    let variants = 0;
+    this.entries.forEach(entry => {
+      variants += entry.length;
+    });
+
+    return { ...this.stats, keys: this.entries.size, variants };
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.inFlight.clear();
+    this.seenByUser.clear();
+    this.stats = { hits: 0, misses: 0, deduplicated: 0 };
+    logger.info('Question cache cleared');
+  }
+
+  private buildKey(context: QuestionGenerationContext, variant?: string): string {
+    const { interviewConfig } = context;
+    const personality = interviewConfig.aiPersonality;
+
+    return [
+      interviewConfig.role,
+      interviewConfig.industry,
+      context.difficulty || interviewConfig.difficulty,
+      context.questionType || QuestionType.BEHAVIORAL,
+      context.focusArea || interviewConfig.focusAreas[0] || '',
+      personality?.style || '',
+      personality?.tone || '',
+      variant || '',
+    ].map(part => String(part).trim().toLowerCase().replace(/\s+/g, ' ')).join('|');
+  }
+
+  private getLiveVariants(key: string): CachedVariant[] {
+    const variants = this.entries.get(key);
+    if (!variants) {
+      return [];
+    }
+
+    const now = Date.now();
+    const live = variants.filter(entry => entry.expiresAt > now);
+    if (live.length === 0) {
+      this.entries.delete(key);
+    } else if (live.length !== variants.length) {
+      this.entries.set(key, live);
+    }
+
+    return live;
+  }
+
+  private getExcluded(context: QuestionGenerationContext): Set<string> {
+    const excluded = new Set(this.seenByUser.get(context.userId) || []);
+    for (const response of context.previousResponses || []) {
+      excluded.add(this.fingerprint(response.questionText));
+    }
+    return excluded;
+  }
+
+  // Each session gets its own question id; the text and criteria are shared
+  private clone(question: GeneratedQuestion): GeneratedQuestion {
+    return {
+      ...question,
+      id: uuidv4(),
+      metadata: {
+        ...question.metadata,
+        source: 'cache',
+        cacheHit: true,
+      },
+    };
+  }
+
+  private fingerprint(text: string): string {
+    return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+  }
+}
@@ -0,0 +1,181 @@
+import { DefaultAIInterviewerService } from '../services/ai-interviewer-service';
+import { InMemoryQuestionCache } from '../services/question-cache-service';
+import { PersonalityManager } from '../services/personality-manager';
+import { ScriptedLLMProvider } from '../services/llm-providers';
+import { LLMTask } from '../types/llm-provider';
+import {
+  AIPersonalityConfig,
+  AIStreamEventType,
+  GeneratedQuestion,
+  QuestionGenerationContext,
+  QuestionType,
+  DifficultyLevel,
+  FocusArea,
+  InterviewStyle,
+  InterviewTone,
+  FormalityLevel,
+} from '../types/ai-interviewer';
+
+const personalityConfig: AIPersonalityConfig = {
+  name: 'Test Interviewer',
+  style: InterviewStyle.CONVERSATIONAL,
+  tone: InterviewTone.FRIENDLY,
+  formality: FormalityLevel.SEMI_FORMAL,
+  adaptiveness: 0.5,
+  followUpIntensity: 0.5,
+  encouragementLevel: 0.5,
+};
+
+const buildContext = (userId: string, overrides: Partial<QuestionGenerationContext> = {}): QuestionGenerationContext => ({
+  sessionId: `session-${userId}`,
+  userId,
+  interviewConfig: {
+    id: 'template-backend',
+    role: 'Backend Developer',
+    industry: 'Technology',
+    difficulty: DifficultyLevel.MID,
+    duration: 30,
+    questionTypes: [QuestionType.TECHNICAL],
+    focusAreas: [FocusArea.TECHNICAL_SKILLS],
+    aiPersonality: personalityConfig,
+  },
+  currentQuestionIndex: 0,
+  previousResponses: [],
+  personalityState: PersonalityManager.initializePersonality(personalityConfig),
+  questionType: QuestionType.TECHNICAL,
+  ...overrides,
+});
+
+const makeQuestion = (text: string, isFallback = false): GeneratedQuestion => ({
+  id: `q-${text}`,
+  text,
+  type: QuestionType.TECHNICAL,
+  category: 'technical',
+  difficulty: DifficultyLevel.MID,
+  evaluationCriteria: [],
+  metadata: { version: 1, usageCount: 0, generatedAt: new Date(), modelVersion: 'scripted-v1', isFallback },
+});
+
+// Each call produces a different question so variants can be told apart
+const numberedProvider = () => {
+  let count = 0;
+  return new ScriptedLLMProvider([
+    {
+      task: LLMTask.QUESTION_GENERATION,
+      response: () => JSON.stringify({ text: `Question variant ${++count}`, category: 'technical', timeLimit: 300 }),
+    },
+  ]);
+};
+
+describe('Question Cache', () => {
+  describe('InMemoryQuestionCache', () => {
+    it('should serve cached questions to other users but not repeat them for the same user', () => {
+      const cache = new InMemoryQuestionCache();
+      cache.store(buildContext('alice'), makeQuestion('How do you design an idempotent API?'));
+
+      const forBob = cache.lookup(buildContext('bob'));
+      expect(forBob?.text).toBe('How do you design an idempotent API?');
+      expect(forBob?.id).not.toBe('q-How do you design an idempotent API?');
+      expect(forBob?.metadata.cacheHit).toBe(true);
+
+      expect(cache.lookup(buildContext('bob'))).toBeNull();
+    });
+
+    it('should exclude questions already asked in the session', () => {
+      const cache = new InMemoryQuestionCache();
+      cache.store(buildContext('alice'), makeQuestion('Explain eventual consistency.'));
+
+      const context = buildContext('carol', {
+        previousResponses: [{
+          questionId: 'q-0',
+          questionText: 'Explain eventual consistency',
+          duration: 60,
+          isSkipped: false,
+          timestamp: new Date(),
+        }],
+      });
+
+      expect(cache.lookup(context)).toBeNull();
+    });
+
+    it('should key on the normalised template and ignore session details', () => {
+      const cache = new InMemoryQuestionCache();
+      cache.store(buildContext('alice'), makeQuestion('What is backpressure?'));
+
+      const sameTemplate = buildContext('dave', {
+        currentQuestionIndex: 4,
+        interviewConfig: { ...buildContext('dave').interviewConfig, id: 'other', role: '  backend developer ' },
+      });
+      const otherDifficulty = buildContext('erin', { difficulty: DifficultyLevel.SENIOR });
+
+      expect(cache.lookup(sameTemplate)?.text).toBe('What is backpressure?');
+      expect(cache.lookup(otherDifficulty)).toBeNull();
+    });
+
+    it('should expire entries after the TTL and never cache fallbacks', () => {
+      jest.useFakeTimers();
+      try {
+        const cache = new InMemoryQuestionCache({ ttlMs: 1000 });
+        cache.store(buildContext('alice'), makeQuestion('Describe a queue you operated.'));
+        cache.store(buildContext('alice'), makeQuestion('Tell me about problem solving.', true));
+
+        expect(cache.getStats().variants).toBe(1);
+
+        jest.advanceTimersByTime(1001);
+        expect(cache.lookup(buildContext('bob'))).toBeNull();
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should share one in-flight generation between concurrent identical requests', async () => {
+      const cache = new InMemoryQuestionCache();
+      let resolve!: (question: GeneratedQuestion) => void;
+      const generate = jest.fn(() => new Promise<GeneratedQuestion>(r => { resolve = r; }));
+
+      const first = cache.getOrGenerate(buildContext('alice'), generate);
+      const second = cache.getOrGenerate(buildContext('bob'), generate);
+      resolve(makeQuestion('How would you rate-limit an API?'));
+
+      const [a, b] = await Promise.all([first, second]);
+
+      expect(generate).toHaveBeenCalledTimes(1);
+      expect(a.cacheHit).toBe(false);
+      expect(b.deduplicated).toBe(true);
+      expect(b.question.text).toBe(a.question.text);
+      expect(b.question.id).not.toBe(a.question.id);
+      expect(cache.getStats()).toEqual(expect.objectContaining({ misses: 1, deduplicated: 1 }));
+    });
+  });
+
+  describe('DefaultAIInterviewerService caching', () => {
+    it('should reuse questions across users and generate new ones for repeat users', async () => {
+      const provider = numberedProvider();
+      const service = new DefaultAIInterviewerService(provider, { questionCache: new InMemoryQuestionCache() });
+
+      const first = await service.generateQuestion(buildContext('alice'));
+      const second = await service.generateQuestion(buildContext('bob'));
+      const third = await service.generateQuestion(buildContext('alice'));
+
+      expect(second.text).toBe(first.text);
+      expect(second.metadata.cacheHit).toBe(true);
+      expect(third.text).not.toBe(first.text);
+      expect(provider.getHistory()).toHaveLength(2);
+    });
+
+    it('should complete streams from the cache without calling the model', async () => {
+      const provider = numberedProvider();
+      const service = new DefaultAIInterviewerService(provider, { questionCache: new InMemoryQuestionCache() });
+
+      await service.generateQuestion(buildContext('alice'));
+
+      const events = [];
+      for await (const event of service.streamQuestion(buildContext('bob'))) {
+        events.push(event);
+      }
+
+      expect(events.map(event => event.type)).toEqual([AIStreamEventType.TOKEN, AIStreamEventType.COMPLETE]);
+      expect(provider.getHistory()).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,41 @@
+// Question Cache Types and Interfaces
+
+import { GeneratedQuestion, QuestionGenerationContext } from './ai-interviewer';
+
+export interface QuestionCache {
+  /**
+   * Return a cached question the user has not seen, or generate one. Concurrent
+   * calls for the same key share a single in-flight generation.
+   */
+  getOrGenerate(
+    context: QuestionGenerationContext,
+    generate: () => Promise<GeneratedQuestion>,
+    variant?: string
+  ): Promise<QuestionCacheResult>;
+  lookup(context: QuestionGenerationContext, variant?: string): GeneratedQuestion | null;
+  store(context: QuestionGenerationContext, question: GeneratedQuestion, variant?: string): void;
+  markSeen(userId: string, questionText: string): void;
+  getStats(): QuestionCacheStats;
+  clear(): void;
+}
+
+export interface QuestionCacheConfig {
+  ttlMs: number;
+  maxVariantsPerKey: number; // Distinct questions kept per normalised context
+  maxKeys: number; // Least recently used keys are evicted beyond this
+  maxSeenPerUser: number;
+}
+
+export interface QuestionCacheResult {
+  question: GeneratedQuestion;
+  cacheHit: boolean;
+  deduplicated: boolean; // Served from another request's in-flight generation
+}
+
+export interface QuestionCacheStats {
+  hits: number;
+  misses: number;
+  deduplicated: number;
+  keys: number;
+  variants: number;
+}
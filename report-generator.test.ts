@@ -1,4 +1,5 @@
 import { DefaultReportGeneratorService } from '../services/report-generator';
+import { PanelConsensusSummary } from '../database/panel-consensus-repository';
 import { ResponseAnalysis, CategoryScores, InterviewSession, Question, UserResponse } from '@ai-interview/types';
 
 describe('DefaultReportGeneratorService', () => {
@@ -8,6 +9,67 @@ describe('DefaultReportGeneratorService', () => {
     reportGenerator = new DefaultReportGeneratorService();
   });
 
+  const buildSession = (): InterviewSession => ({
+    id: 'session-1',
+    userId: 'user-1',
+    config: {
+      industry: 'tech',
+      role: 'software engineer',
+      company: 'test company',
+      difficulty: 'medium',
+      questionTypes: ['technical'],
+      timeLimit: 3600,
+      interviewerPersonality: 'friendly',
+    },
+    status: 'completed',
+    questions: [
+      {
+        id: 'q1',
+        text: 'Tell me about yourself',
+        type: 'behavioral',
+        difficulty: 1,
+        expectedDuration: 120,
+      },
+    ],
+    responses: [
+      {
+        questionId: 'q1',
+        textResponse: 'I am a software engineer with 5 years of experience.',
+        timestamp: new Date(),
+        duration: 90,
+        analysis: {
+          textAnalysis: {
+            wordCount: 10,
+            sentenceCount: 1,
+            keywordRelevance: 0.8,
+            structureScore: 0.7,
+            clarityScore: 0.9,
+            grammarScore: 0.85,
+          },
+          speechAnalysis: {
+            pace: 150,
+            pauseCount: 1,
+            fillerWordCount: 0,
+            clarityScore: 0.9,
+            volumeConsistency: 0.9,
+          },
+          emotionAnalysis: {
+            confidence: 0.8,
+            nervousness: 0.2,
+            enthusiasm: 0.7,
+            stress: 0.1,
+            engagement: 0.9,
+          },
+          confidenceScore: 0.8,
+          overallScore: 0.85,
+        },
+      },
+    ],
+    startTime: new Date(),
+    duration: 90,
+    metadata: {},
+  });
+
   describe('calculateCategoryScores', () => {
     it('should calculate correct category scores from analyses', () => {
       const analyses: ResponseAnalysis[] = [
@@ -222,66 +284,7 @@ describe('DefaultReportGeneratorService', () => {
 
   describe('generateAnnotatedTranscript', () => {
     it('should generate transcript with segments and highlights', () => {
-      const mockSession: InterviewSession = {
-        id: 'session-1',
-        userId: 'user-1',
-        config: {
-          industry: 'tech',
-          role: 'software engineer',
-          company: 'test company',
-          difficulty: 'medium',
-          questionTypes: ['technical'],
-          timeLimit: 3600,
-          interviewerPersonality: 'friendly',
-        },
-        status: 'completed',
-        questions: [
-          {
-            id: 'q1',
-            text: 'Tell me about yourself',
-            type: 'behavioral',
-            difficulty: 1,
-            expectedDuration: 120,
-          },
-        ],
-        responses: [
-          {
-            questionId: 'q1',
-            textResponse: 'I am a software engineer with 5 years of experience.',
-            timestamp: new Date(),
-            duration: 90,
-            analysis: {
-              textAnalysis: {
-                wordCount: 10,
-                sentenceCount: 1,
-                keywordRelevance: 0.8,
-                structureScore: 0.7,
-                clarityScore: 0.9,
-                grammarScore: 0.85,
-              },
-              speechAnalysis: {
-                pace: 150,
-                pauseCount: 1,
-                fillerWordCount: 0,
-                clarityScore: 0.9,
-                volumeConsistency: 0.9,
-              },
-              emotionAnalysis: {
-                confidence: 0.8,
-                nervousness: 0.2,
-                enthusiasm: 0.7,
-                stress: 0.1,
-                engagement: 0.9,
-              },
-              confidenceScore: 0.8,
-              overallScore: 0.85,
-            },
-          },
-        ],
-        startTime: new Date(),
-        duration: 90,
-        metadata: {},
-      };
+      const mockSession = buildSession();
 
       const transcript = reportGenerator.generateAnnotatedTranscript(mockSession);
 
@@ -292,4 +295,41 @@ describe('DefaultReportGeneratorService', () => {
       expect(transcript.summary).toContain('1 questions answered');
     });
   });
+
+  describe('generateReport', () => {
+    const panelConsensus: PanelConsensusSummary = {
+      questionCount: 1,
+      averageScore: 73,
+      agreement: 'split',
+      agreementBreakdown: { strong: 0, moderate: 0, split: 1 },
+      panelistAverages: [
+        { personaId: 'manager', personaName: 'Morgan', averageScore: 85, evaluations: 1 },
+        { personaId: 'engineer', personaName: 'Riley', averageScore: 55, evaluations: 1 },
+      ],
+      topDisagreements: [
+        { questionId: 'q1', highest: { personaId: 'manager', score: 85 }, lowest: { personaId: 'engineer', score: 55 }, spread: 30 },
+      ],
+    };
+
+    it('should include the panel consensus of panel sessions', async () => {
+      const panelConsensusRepository = { getPanelConsensus: jest.fn().mockResolvedValue(panelConsensus) };
+      reportGenerator = new DefaultReportGeneratorService(undefined, undefined, undefined, panelConsensusRepository);
+      jest.spyOn(reportGenerator as any, 'fetchInterviewSession').mockResolvedValue(buildSession());
+
+      const report = await reportGenerator.generateReport('session-1');
+
+      expect(panelConsensusRepository.getPanelConsensus).toHaveBeenCalledWith('session-1');
+      expect(report.panelConsensus).toEqual(panelConsensus);
+    });
+
+    it('should leave the panel consensus out for single interviewer sessions', async () => {
+      const panelConsensusRepository = { getPanelConsensus: jest.fn().mockResolvedValue(null) };
+      reportGenerator = new DefaultReportGeneratorService(undefined, undefined, undefined, panelConsensusRepository);
+      jest.spyOn(reportGenerator as any, 'fetchInterviewSession').mockResolvedValue(buildSession());
+
+      const report = await reportGenerator.generateReport('session-1');
+
+      expect(report).not.toHaveProperty('panelConsensus');
+    });
+  });
 });
\ No newline at end of file
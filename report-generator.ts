@@ -36,9 +36,10 @@ import {
   DefaultPracticeDrillService,
   PracticeDrillService 
 } from './practice-drill-service';
+import { PanelConsensusRepository, PanelPerformanceReport } from '../database/panel-consensus-repository';
 
 export interface ReportGeneratorService {
-  generateReport(sessionId: string): Promise<PerformanceReport>;
+  generateReport(sessionId: string): Promise<PanelPerformanceReport>;
   calculateCategoryScores(analyses: ResponseAnalysis[]): CategoryScores;
   generateImprovementPlan(categoryScores: CategoryScores, analyses: ResponseAnalysis[]): ImprovementPlan;
   generatePersonalizedImprovementPlan(categoryScores: CategoryScores, analyses: ResponseAnalysis[], session: InterviewSession): Promise<ImprovementPlan>;
@@ -53,17 +54,20 @@ export class DefaultReportGeneratorService implements ReportGeneratorService {
   private improvementService: ImprovementRecommendationService;
   private answerSuggestionService: AnswerSuggestionService;
   private practiceDrillService: PracticeDrillService;
+  private panelConsensusRepository?: PanelConsensusRepository;
 
   constructor(
     improvementService?: ImprovementRecommendationService,
     answerSuggestionService?: AnswerSuggestionService,
-    practiceDrillService?: PracticeDrillService
+    practiceDrillService?: PracticeDrillService,
+    panelConsensusRepository?: PanelConsensusRepository
   ) {
     this.improvementService = improvementService || new DefaultImprovementRecommendationService();
     this.answerSuggestionService = answerSuggestionService || new DefaultAnswerSuggestionService();
     this.practiceDrillService = practiceDrillService || new DefaultPracticeDrillService();
+    this.panelConsensusRepository = panelConsensusRepository;
   }
-  async generateReport(sessionId: string): Promise<PerformanceReport> {
+  async generateReport(sessionId: string): Promise<PanelPerformanceReport> {
     try {
       logger.info('Generating performance report', { sessionId });
 
@@ -107,7 +111,10 @@ export class DefaultReportGeneratorService implements ReportGeneratorService {
       // Identify strengths and weaknesses
       const { strengths, weaknesses } = this.identifyStrengthsAndWeaknesses(categoryScores);
 
-      const report: PerformanceReport = {
+      // Only sessions run by a panel have consensus to report
+      const panelConsensus = await this.panelConsensusRepository?.getPanelConsensus(sessionId);
+
+      const report: PanelPerformanceReport = {
         id: this.generateReportId(),
         sessionId,
         userId: session.userId,
@@ -119,6 +126,7 @@ export class DefaultReportGeneratorService implements ReportGeneratorService {
         benchmarkComparison,
         transcript,
         visualComponents,
+        ...(panelConsensus && { panelConsensus }),
         createdAt: new Date(),
       };
 
@@ -1,10 +1,11 @@
 import { Pool } from 'pg';
 import { PerformanceReport, CategoryScores, ImprovementPlan, BenchmarkComparison, AnnotatedTranscript } from '@ai-interview/types';
 import { db } from './connection';
+import { PanelPerformanceReport } from './panel-consensus-repository';
 import { logger } from '../utils/logger';
 
 export interface ReportRepository {
-  saveReport(report: PerformanceReport): Promise<void>;
+  saveReport(report: PanelPerformanceReport): Promise<void>;
   getReport(reportId: string): Promise<PerformanceReport | null>;
   getReportsByUserId(userId: string, limit?: number, offset?: number): Promise<PerformanceReport[]>;
   getReportsBySessionId(sessionId: string): Promise<PerformanceReport | null>;
@@ -17,7 +18,7 @@ export interface ReportRepository {
 export class PostgresReportRepository implements ReportRepository {
   constructor(private pool: Pool = db) {}
 
-  async saveReport(report: PerformanceReport): Promise<void> {
+  async saveReport(report: PanelPerformanceReport): Promise<void> {
     const client = await this.pool.connect();
     
     try {
@@ -26,8 +27,8 @@ export class PostgresReportRepository implements ReportRepository {
       // Insert main report record
       const reportQuery = `
         INSERT INTO performance_reports (
-          id, session_id, user_id, overall_score, strengths, weaknesses, visual_components, created_at
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+          id, session_id, user_id, overall_score, strengths, weaknesses, visual_components, panel_consensus, created_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
       `;
       
       await client.query(reportQuery, [
@@ -38,6 +39,7 @@ export class PostgresReportRepository implements ReportRepository {
         JSON.stringify(report.strengths),
         JSON.stringify(report.weaknesses),
         JSON.stringify(report.visualComponents),
+        report.panelConsensus ? JSON.stringify(report.panelConsensus) : null,
         report.createdAt
       ]);
 
@@ -359,7 +361,7 @@ export class PostgresReportRepository implements ReportRepository {
     }
   }
 
-  private mapRowToReport(row: any): PerformanceReport {
+  private mapRowToReport(row: any): PanelPerformanceReport {
     return {
       id: row.id,
       sessionId: row.session_id,
@@ -394,6 +396,7 @@ export class PostgresReportRepository implements ReportRepository {
         summary: row.summary || '',
       },
       visualComponents: JSON.parse(row.visual_components || '{}'),
+      panelConsensus: row.panel_consensus || undefined,
       createdAt: row.created_at,
     };
   }
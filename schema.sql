@@ -16,6 +16,7 @@ CREATE TABLE IF NOT EXISTS interview_configs (
     focus_areas JSONB NOT NULL,
     ai_personality JSONB NOT NULL,
     settings JSONB NOT NULL,
+    grounding JSONB, -- Attached resume / job description and their extracted profile
     is_template BOOLEAN DEFAULT FALSE,
     is_public BOOLEAN DEFAULT FALSE,
     tags JSONB DEFAULT '[]'::jsonb,
@@ -113,6 +114,12 @@ CREATE TABLE IF NOT EXISTS session_responses (
     metadata JSONB DEFAULT '{}'::jsonb
 );
 
+-- Columns added after the initial release
+ALTER TABLE interview_configs ADD COLUMN IF NOT EXISTS grounding JSONB;
+ALTER TABLE session_responses ADD COLUMN IF NOT EXISTS code_snapshots JSONB;
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS expected_solution JSONB;
+ALTER TABLE template_questions ADD COLUMN IF NOT EXISTS expected_solution JSONB;
+
 -- Indexes for better performance
 CREATE INDEX IF NOT EXISTS idx_interview_configs_user_id ON interview_configs(user_id);
 CREATE INDEX IF NOT EXISTS idx_interview_configs_template_id ON interview_configs(template_id);
@@ -0,0 +1,199 @@
+/**
+ * Semantic Relevance Tests
+ * Embedding providers, semantic keyword matching and its use by the text analysis engine
+ */
+
+import { execFile } from 'child_process';
+import { mkdtempSync, writeFileSync } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  LocalModelEmbeddingProvider,
+  VectorTableEmbeddingProvider
+} from '../services/embedding-providers';
+import { SemanticRelevanceScorer } from '../services/semantic-relevance';
+import { TextAnalysisEngine } from '../services/text-analysis-engine';
+import { EmbeddingProvider, EmbeddingProviderType, EmbeddingProviderError } from '../types/embedding-provider';
+import {
+  TextAnalysisConfig,
+  TextAnalysisRequest,
+  TextAnalysisErrorCode,
+  QuestionType,
+  GrammarStrictness
+} from '../types/text-analysis';
+
+jest.mock('child_process');
+
+const mockExecFile = execFile as unknown as jest.Mock;
+
+// Four dimensions: scale, storage, quality, cooking
+const VECTORS: Record<string, number[]> = {
+  scalability: [1, 0, 0, 0],
+  horizontal_scaling: [0.9, 0.1, 0, 0],
+  scaling: [0.8, 0.2, 0, 0],
+  traffic: [0.9, 0, 0, 0.1],
+  service: [0.5, 0.5, 0, 0],
+  database: [0, 1, 0, 0],
+  postgres: [0.05, 0.95, 0, 0],
+  testing: [0, 0, 1, 0],
+  kitchen: [0, 0, 0, 1],
+  cooking: [0, 0, 0.1, 0.9]
+};
+
+const ANSWER = 'We added horizontal scaling. Postgres handled the load.';
+
+describe('Semantic Relevance', () => {
+  beforeEach(() => {
+    mockExecFile.mockReset();
+  });
+
+  describe('VectorTableEmbeddingProvider', () => {
+    it('should prefer phrase vectors over their words and average the rest', async () => {
+      const provider = new VectorTableEmbeddingProvider({ vectors: VECTORS });
+
+      const [phrase, mixed, unknown] = await provider.embed(['Horizontal scaling', 'scaling postgres.', 'nothing known']);
+
+      expect(phrase).toEqual([0.9, 0.1, 0, 0]);
+      expect(mixed[0]).toBeCloseTo(0.425);
+      expect(mixed[1]).toBeCloseTo(0.575);
+      expect(unknown).toEqual([0, 0, 0, 0]);
+    });
+
+    it('should load a GloVe-style vector file', async () => {
+      const file = path.join(mkdtempSync(path.join(os.tmpdir(), 'vectors-')), 'vectors.txt');
+      writeFileSync(file, '2 3\nmachine_learning 1 0 0\nmodel 0 1 0\n');
+      const provider = new VectorTableEmbeddingProvider({ vectorFile: file });
+
+      expect(await provider.embed(['Machine learning model'])).toEqual([[0.5, 0.5, 0]]);
+    });
+  });
+
+  describe('LocalModelEmbeddingProvider', () => {
+    it('should embed all texts in one run of the model', async () => {
+      mockExecFile.mockImplementation((_command: string, _args: string[], _options: any, callback: Function) => {
+        callback(null, {
+          stdout: JSON.stringify({
+            object: 'list',
+            data: [
+              { object: 'embedding', index: 1, embedding: [0, 1] },
+              { object: 'embedding', index: 0, embedding: [1, 0] }
+            ]
+          }),
+          stderr: ''
+        });
+      });
+      const provider = new LocalModelEmbeddingProvider({ modelPath: '/models/minilm.gguf', threads: 2 });
+
+      const vectors = await provider.embed(['first text', 'second\ntext']);
+
+      expect(vectors).toEqual([[1, 0], [0, 1]]);
+      expect(mockExecFile).toHaveBeenCalledTimes(1);
+      const [command, args] = mockExecFile.mock.calls[0];
+      expect(command).toBe('llama-embedding');
+      expect(args).toEqual(expect.arrayContaining(['-m', '/models/minilm.gguf', '--embd-output-format', 'json', '-t', '2']));
+      expect(args[args.indexOf('-p') + 1]).toBe('first text<#sep#>second text');
+    });
+
+    it('should report a missing binary as a configuration error', async () => {
+      mockExecFile.mockImplementation((_command: string, _args: string[], _options: any, callback: Function) => {
+        callback(Object.assign(new Error('spawn llama-embedding ENOENT'), { code: 'ENOENT' }));
+      });
+
+      const error = await new LocalModelEmbeddingProvider().embed(['text']).catch(e => e);
+
+      expect(error).toBeInstanceOf(EmbeddingProviderError);
+      expect(error.provider).toBe(EmbeddingProviderType.LOCAL_MODEL);
+      expect(error.code).toBe(TextAnalysisErrorCode.CONFIGURATION_ERROR);
+    });
+  });
+
+  describe('SemanticRelevanceScorer', () => {
+    const scorer = new SemanticRelevanceScorer(new VectorTableEmbeddingProvider({ vectors: VECTORS }));
+
+    it('should credit keywords through semantic neighbours in the answer', async () => {
+      const result = await scorer.score(ANSWER, { keywords: ['scalability', 'database', 'testing', 'load'] });
+
+      const scalability = result.keywordMatches.find(match => match.keyword === 'scalability')!;
+      expect(scalability.semanticNeighbours![0]).toEqual({ phrase: 'horizontal scaling', similarity: 0.994 });
+      expect(scalability.similarity).toBe(0.994);
+      expect(scalability.context).toEqual(['We added horizontal scaling.']);
+
+      const database = result.keywordMatches.find(match => match.keyword === 'database')!;
+      expect(database.semanticNeighbours!.map(neighbour => neighbour.phrase)).toContain('postgres');
+
+      const load = result.keywordMatches.find(match => match.keyword === 'load')!;
+      expect(load).toEqual(expect.objectContaining({ frequency: 1, similarity: 1 }));
+
+      expect(result.missingKeywords).toEqual(['testing']);
+      expect(result.keywordCoverage).toBe(0.75);
+    });
+
+    it('should score the answer against the question and the expected answer', async () => {
+      const targets = {
+        keywords: [],
+        question: 'How did the service cope with more traffic?',
+        expectedAnswer: 'Scaling out the database tier.'
+      };
+
+      const onTopic = await scorer.score(ANSWER, targets);
+      const offTopic = await scorer.score('I enjoy cooking in my kitchen.', targets);
+
+      expect(onTopic.questionSimilarity!).toBeGreaterThan(0.8);
+      expect(offTopic.questionSimilarity!).toBeLessThan(0.2);
+      expect(onTopic.expectedAnswerSimilarity!).toBeGreaterThan(offTopic.expectedAnswerSimilarity!);
+      expect(onTopic.score).toBeGreaterThan(offTopic.score);
+    });
+  });
+
+  describe('TextAnalysisEngine', () => {
+    const config: TextAnalysisConfig = {
+      enableAdvancedAnalysis: true,
+      industryKeywords: {},
+      roleKeywords: { backend: ['scalability', 'database'] },
+      starMethodWeights: { situation: 0.2, task: 0.2, action: 0.4, result: 0.2 },
+      qualityThresholds: { excellent: 0.85, good: 0.70, fair: 0.55, poor: 0.40 },
+      grammarRules: { enableSpellCheck: true, enableGrammarCheck: true, enableStyleCheck: true, strictness: GrammarStrictness.MODERATE }
+    };
+
+    const request: TextAnalysisRequest = {
+      text: ANSWER,
+      context: { questionType: QuestionType.TECHNICAL, role: 'backend', question: 'How did the service cope with more traffic?' },
+      options: {
+        enableContentQuality: true,
+        enableStructureAnalysis: true,
+        enableKeywordRelevance: true,
+        enableSTARMethod: false,
+        enableGrammarCheck: true,
+        enableSentimentAnalysis: true,
+        confidenceThreshold: 0.7
+      }
+    };
+
+    it('should use semantic matches for keyword relevance and content relevance', async () => {
+      const scorer = new SemanticRelevanceScorer(new VectorTableEmbeddingProvider({ vectors: VECTORS }));
+      const engine = new TextAnalysisEngine(config, undefined, scorer);
+
+      const result = await engine.analyzeText(request);
+      const literal = await new TextAnalysisEngine(config).analyzeText(request);
+
+      expect(result.keywordRelevance.relevantKeywords.map(match => match.keyword)).toEqual(['scalability', 'database']);
+      expect(result.keywordRelevance.semanticRelevance!.questionSimilarity).toBeGreaterThan(0.8);
+      expect(result.contentQuality.metrics.relevanceScore).toBe(result.keywordRelevance.score);
+      expect(literal.keywordRelevance.relevantKeywords).toEqual([]);
+      expect(literal.keywordRelevance.semanticRelevance).toBeUndefined();
+    });
+
+    it('should fall back to keyword matching when embedding fails', async () => {
+      const failing: EmbeddingProvider = {
+        type: EmbeddingProviderType.LOCAL_MODEL,
+        embed: jest.fn().mockRejectedValue(new Error('model not found'))
+      };
+      const engine = new TextAnalysisEngine(config, undefined, new SemanticRelevanceScorer(failing));
+
+      const result = await engine.analyzeText(request);
+
+      expect(failing.embed).toHaveBeenCalled();
+      expect(result.keywordRelevance.semanticRelevance).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Semantic Relevance Scorer
+ * Scores an answer against the question, the expected keywords and a reference
+ * answer by embedding similarity, so related wording earns credit
+ */
+
+import { EmbeddingProvider } from '../types/embedding-provider';
+import {
+  KeywordMatch,
+  KeywordImportance,
+  SemanticNeighbour,
+  SemanticRelevance
+} from '../types/text-analysis';
+
+const DEFAULT_NEIGHBOUR_THRESHOLD = 0.6;
+const DEFAULT_MAX_NEIGHBOURS = 3;
+const MAX_CANDIDATE_PHRASES = 200;
+const MAX_CACHED_EMBEDDINGS = 5000;
+
+const WEIGHTS = {
+  keywords: 0.5,
+  question: 0.3,
+  expectedAnswer: 0.2
+};
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'that', 'this', 'with', 'was', 'were', 'are', 'but', 'not', 'you', 'your', 'our',
+  'they', 'them', 'their', 'there', 'then', 'than', 'had', 'has', 'have', 'been', 'being', 'from', 'into',
+  'onto', 'over', 'when', 'what', 'which', 'who', 'how', 'why', 'would', 'could', 'should', 'will', 'can',
+  'did', 'does', 'its', 'also', 'very', 'just', 'some', 'any', 'all', 'each', 'more', 'most', 'much',
+  'about', 'after', 'before', 'while', 'because', 'where', 'his', 'her', 'she', 'him', 'one'
+]);
+
+export interface SemanticRelevanceTargets {
+  keywords: string[];
+  question?: string;
+  expectedAnswer?: string;
+  importanceOf?: (keyword: string) => KeywordImportance;
+}
+
+export class SemanticRelevanceScorer {
+  private provider: EmbeddingProvider;
+  private neighbourThreshold: number;
+  private maxNeighbours: number;
+  private cache = new Map<string, number[]>();
+
+  constructor(provider: EmbeddingProvider, options: { neighbourThreshold?: number; maxNeighbours?: number } = {}) {
+    this.provider = provider;
+    this.neighbourThreshold = options.neighbourThreshold ?? DEFAULT_NEIGHBOUR_THRESHOLD;
+    this.maxNeighbours = options.maxNeighbours ?? DEFAULT_MAX_NEIGHBOURS;
+  }
+
+  /**
+   * Match each keyword literally or through answer phrases that are close to
+   * it in embedding space, and compare the whole answer with the question and
+   * the expected answer
+   */
+  public async score(text: string, targets: SemanticRelevanceTargets): Promise<SemanticRelevance> {
+    const sentences = text.split(/(?<=[.!?])\s+/).map(sentence => sentence.trim()).filter(sentence => sentence.length > 0);
+    const candidates = this.candidatePhrases(sentences);
+    const keywords = Array.from(new Set(targets.keywords.map(keyword => keyword.trim()).filter(keyword => keyword.length > 0)));
+
+    const embeddings = await this.embedAll([
+      text,
+      ...(targets.question ? [targets.question] : []),
+      ...(targets.expectedAnswer ? [targets.expectedAnswer] : []),
+      ...keywords,
+      ...candidates
+    ]);
+    const answerVector = embeddings.get(text)!;
+
+    const keywordMatches: KeywordMatch[] = [];
+    const missingKeywords: string[] = [];
+
+    for (const keyword of keywords) {
+      const keywordVector = embeddings.get(keyword)!;
+      const neighbours: SemanticNeighbour[] = candidates
+        .filter(phrase => phrase !== keyword.toLowerCase())
+        .map(phrase => ({ phrase, similarity: this.round(this.cosine(keywordVector, embeddings.get(phrase)!)) }))
+        .filter(neighbour => neighbour.similarity >= this.neighbourThreshold)
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, this.maxNeighbours);
+
+      const literal = this.countOccurrences(text, keyword);
+      if (literal === 0 && neighbours.length === 0) {
+        missingKeywords.push(keyword);
+        continue;
+      }
+
+      const matchedPhrases = literal > 0 ? [keyword] : neighbours.map(neighbour => neighbour.phrase);
+      const similarity = literal > 0 ? 1 : neighbours[0].similarity;
+
+      keywordMatches.push({
+        keyword,
+        frequency: matchedPhrases.reduce((sum, phrase) => sum + this.countOccurrences(text, phrase), 0),
+        relevanceScore: similarity,
+        context: sentences.filter(sentence => matchedPhrases.some(phrase => this.countOccurrences(sentence, phrase) > 0)),
+        importance: targets.importanceOf ? targets.importanceOf(keyword) : KeywordImportance.MEDIUM,
+        similarity,
+        semanticNeighbours: neighbours
+      });
+    }
+
+    const keywordCoverage = keywords.length > 0 ? keywordMatches.length / keywords.length : 0;
+    const questionSimilarity = targets.question
+      ? this.round(this.cosine(answerVector, embeddings.get(targets.question)!))
+      : undefined;
+    const expectedAnswerSimilarity = targets.expectedAnswer
+      ? this.round(this.cosine(answerVector, embeddings.get(targets.expectedAnswer)!))
+      : undefined;
+
+    // Weighted over the targets that were supplied
+    const components: Array<[number, number]> = [];
+    if (keywords.length > 0) components.push([keywordCoverage, WEIGHTS.keywords]);
+    if (questionSimilarity !== undefined) components.push([Math.max(0, questionSimilarity), WEIGHTS.question]);
+    if (expectedAnswerSimilarity !== undefined) components.push([Math.max(0, expectedAnswerSimilarity), WEIGHTS.expectedAnswer]);
+    const totalWeight = components.reduce((sum, [, weight]) => sum + weight, 0);
+
+    return {
+      score: totalWeight > 0 ? components.reduce((sum, [value, weight]) => sum + value * weight, 0) / totalWeight : 0,
+      questionSimilarity,
+      expectedAnswerSimilarity,
+      keywordCoverage,
+      keywordMatches,
+      missingKeywords
+    };
+  }
+
+  /**
+   * Content words and adjacent content-word pairs from the answer, so both
+   * "scaling" and "horizontal scaling" can be compared with a keyword
+   */
+  private candidatePhrases(sentences: string[]): string[] {
+    const phrases = new Set<string>();
+
+    for (const sentence of sentences) {
+      const tokens = (sentence.toLowerCase().match(/[\p{L}\p{N}][\p{L}\p{N}'+#-]*/gu) || [])
+        .map(token => (STOPWORDS.has(token) || token.length < 3 ? null : token));
+
+      tokens.forEach((token, i) => {
+        if (!token) return;
+        phrases.add(token);
+        const next = tokens[i + 1];
+        if (next) {
+          phrases.add(`${token} ${next}`);
+        }
+      });
+    }
+
+    return Array.from(phrases).slice(0, MAX_CANDIDATE_PHRASES);
+  }
+
+  // Keyword and phrase vectors recur across answers, so they are cached
+  private async embedAll(texts: string[]): Promise<Map<string, number[]>> {
+    const unique = Array.from(new Set(texts));
+    const missing = unique.filter(text => !this.cache.has(text));
+
+    if (missing.length > 0) {
+      const vectors = await this.provider.embed(missing);
+      if (this.cache.size + missing.length > MAX_CACHED_EMBEDDINGS) {
+        this.cache.clear();
+      }
+      missing.forEach((text, i) => this.cache.set(text, vectors[i]));
+    }
+
+    return new Map(unique.map(text => [text, this.cache.get(text)!]));
+  }
+
+  private countOccurrences(text: string, phrase: string): number {
+    const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+    return (text.match(new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, 'giu')) || []).length;
+  }
+
+  private cosine(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      dot += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+    return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+  }
+}
@@ -329,6 +329,97 @@ describe('Session Control Functionality', () => {
     });
   });
 
+  describe('Session Suspension', () => {
+    it('should suspend a running session even when pause is not allowed', async () => {
+      const restrictedSession = {
+        ...mockSession,
+        config: { ...mockConfig, settings: { ...mockConfig.settings, allowPause: false } },
+        state: SessionState.IN_PROGRESS,
+        currentQuestionIndex: 1,
+      };
+      mockRepository.findSessionById.mockResolvedValue(restrictedSession);
+      mockRepository.updateSession.mockResolvedValue({ ...restrictedSession, state: SessionState.PAUSED });
+
+      const result = await service.suspendSession(mockSessionId, 'connection_lost');
+
+      expect(result.state).toBe(SessionState.PAUSED);
+      expect(mockRepository.updateSession).toHaveBeenCalledWith(
+        mockSessionId,
+        expect.objectContaining({
+          state: SessionState.PAUSED,
+          pausedAt: expect.any(Date),
+          metadata: expect.objectContaining({
+            suspendedAt: expect.any(String),
+            suspendReason: 'connection_lost',
+            interruptions: 1,
+            technicalIssues: ['connection_lost'],
+          }),
+        })
+      );
+      expect(mockRepository.updateSession.mock.calls[0][1].metadata.pauseCount).toBeUndefined();
+    });
+
+    it('should leave sessions that are not running untouched', async () => {
+      const pausedSession = { ...mockSession, state: SessionState.PAUSED };
+      mockRepository.findSessionById.mockResolvedValue(pausedSession);
+
+      const result = await service.suspendSession(mockSessionId, 'connection_lost');
+
+      expect(result).toBe(pausedSession);
+      expect(mockRepository.updateSession).not.toHaveBeenCalled();
+    });
+
+    it('should resume a suspended session at the same question', async () => {
+      const suspendedSession = {
+        ...mockSession,
+        state: SessionState.PAUSED,
+        currentQuestionIndex: 1,
+        startedAt: new Date(Date.now() - 120000),
+        pausedAt: new Date(Date.now() - 30000), // Suspended 30 seconds ago
+        metadata: {
+          ...mockSession.metadata,
+          suspendedAt: new Date(Date.now() - 30000).toISOString(),
+          suspendReason: 'connection_lost',
+          totalPausedTime: 10,
+        },
+      };
+      mockRepository.findSessionById.mockResolvedValue(suspendedSession);
+      mockRepository.updateSession.mockImplementation(async (_id: string, update: Partial<InterviewSession>) => ({
+        ...suspendedSession,
+        ...update,
+      }));
+
+      const result = await service.resumeSuspendedSession(mockSessionId);
+
+      expect(result.state).toBe(SessionState.IN_PROGRESS);
+      expect(result.currentQuestionIndex).toBe(1);
+      expect(result.metadata.suspendedAt).toBeUndefined();
+      expect(result.metadata.totalPausedTime).toBeGreaterThanOrEqual(40);
+      expect(mockRepository.updateSession).toHaveBeenCalledWith(
+        mockSessionId,
+        expect.objectContaining({
+          state: SessionState.IN_PROGRESS,
+          resumedAt: expect.any(Date),
+        })
+      );
+    });
+
+    it('should not resume a session the user paused', async () => {
+      const pausedSession = {
+        ...mockSession,
+        state: SessionState.PAUSED,
+        pausedAt: new Date(),
+        metadata: { ...mockSession.metadata, pauseCount: 1 },
+      };
+      mockRepository.findSessionById.mockResolvedValue(pausedSession);
+
+      const result = await service.resumeSuspendedSession(mockSessionId);
+
+      expect(result.state).toBe(SessionState.PAUSED);
+      expect(mockRepository.updateSession).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Session Status', () => {
     it('should return comprehensive session status', async () => {
       const inProgressSession = { 
@@ -0,0 +1,315 @@
+import { DefaultAIInterviewerService, summarizeInterviewConfig } from './ai-interviewer-service';
+import { TechnicalEvaluationService } from './technical-evaluation-service';
+import { PersonalityManager } from './personality-manager';
+import { DefaultPromptRegistry } from './prompt-registry-service';
+import {
+  AIPersonalityState,
+  GeneratedQuestion,
+  InterviewConfigSummary,
+  ResponseEvaluation,
+  ResponseSummary,
+  TechnicalResponseEvaluation,
+  QuestionType,
+  DifficultyLevel,
+  AnswerStructure,
+  EvaluationCriteria,
+} from '../types/ai-interviewer';
+import { InterviewSession, SessionResponse, Question } from '../types/interview-config';
+import { PromptKind } from '../types/prompt-registry';
+import {
+  ReplayTarget,
+  SessionReplayOptions,
+  SessionReplayResult,
+  ResponseReplayResult,
+  ReplayCorpusResult,
+  ReplayScoreSummary,
+  ReplayStatus,
+  ScoreDiff,
+  SessionReplayError,
+} from '../types/session-replay';
+import { logger } from '../utils/logger';
+
+const DEFAULT_REGRESSION_THRESHOLD = 5;
+const TECHNICAL_QUESTION_TYPES = [QuestionType.TECHNICAL, QuestionType.CODING, QuestionType.SYSTEM_DESIGN];
+
+interface ReplayEvaluator {
+  label: string;
+  service: DefaultAIInterviewerService;
+}
+
+/**
+ * Re-evaluates stored interview sessions with a chosen provider and prompt
+ * versions and diffs the scores against a baseline, so evaluator changes
+ * can be regression-tested on historical sessions before rollout.
+ *
+ * Replays pin the prompt version of every kind and sample at temperature 0;
+ * responses are evaluated one at a time under the original session id, so
+ * repeated runs against the same model produce the same requests.
+ */
+export class SessionReplayService {
+  private technicalEvaluationService = new TechnicalEvaluationService();
+
+  async replaySession(session: InterviewSession, options: SessionReplayOptions): Promise<SessionReplayResult> {
+    if (!options.baseline && !options.baselineEvaluations) {
+      throw new SessionReplayError('Replay needs a baseline target or stored baseline evaluations', session.id);
+    }
+
+    const candidate = this.createEvaluator(options.candidate);
+    const baseline = options.baseline ? this.createEvaluator(options.baseline) : undefined;
+    const threshold = options.regressionThreshold ?? DEFAULT_REGRESSION_THRESHOLD;
+    const interviewConfig = summarizeInterviewConfig(session.config);
+    const personalityState = PersonalityManager.initializePersonality(interviewConfig.aiPersonality);
+
+    logger.info('Replaying interview session', {
+      sessionId: session.id,
+      responses: session.responses.length,
+      candidate: candidate.label,
+      baseline: baseline?.label || 'stored evaluations',
+    });
+
+    const responses: ResponseReplayResult[] = [];
+    for (const response of session.responses) {
+      responses.push(await this.replayResponse(session, response, {
+        candidate,
+        baseline,
+        baselineEvaluation: options.baselineEvaluations?.[response.id],
+        interviewConfig,
+        personalityState,
+        threshold,
+      }));
+    }
+
+    const compared = responses.filter(r => r.status === ReplayStatus.COMPARED);
+
+    return {
+      sessionId: session.id,
+      baselineLabel: baseline?.label || 'stored evaluations',
+      candidateLabel: candidate.label,
+      responses,
+      ...this.summarizeResponses(compared),
+      regressions: compared.filter(r => r.regression).length,
+    };
+  }
+
+  /**
+   * Replay several sessions and aggregate the score changes across all of them
+   */
+  async replayCorpus(sessions: InterviewSession[], options: SessionReplayOptions): Promise<ReplayCorpusResult> {
+    const results: SessionReplayResult[] = [];
+    for (const session of sessions) {
+      results.push(await this.replaySession(session, options));
+    }
+
+    const responses = results.flatMap(result => result.responses);
+    const compared = responses.filter(r => r.status === ReplayStatus.COMPARED);
+
+    return {
+      sessions: results,
+      ...this.summarizeResponses(compared),
+      regressions: compared.filter(r => r.regression).length,
+      failedResponses: responses.filter(r => r.status === ReplayStatus.FAILED).length,
+    };
+  }
+
+  private async replayResponse(
+    session: InterviewSession,
+    response: SessionResponse,
+    replay: {
+      candidate: ReplayEvaluator;
+      baseline?: ReplayEvaluator;
+      baselineEvaluation?: ResponseEvaluation;
+      interviewConfig: InterviewConfigSummary;
+      personalityState: AIPersonalityState;
+      threshold: number;
+    }
+  ): Promise<ResponseReplayResult> {
+    const question = this.toGeneratedQuestion(response.question);
+    const technical = TECHNICAL_QUESTION_TYPES.includes(question.type);
+    const result: ResponseReplayResult = {
+      responseId: response.id,
+      questionId: response.questionId,
+      questionCategory: String(response.question.category),
+      technical,
+      status: ReplayStatus.COMPARED,
+      criteria: [],
+      fallback: false,
+      regression: false,
+    };
+
+    if (response.isSkipped || !response.textResponse) {
+      return { ...result, status: ReplayStatus.SKIPPED };
+    }
+
+    if (!replay.baseline && !replay.baselineEvaluation) {
+      return { ...result, status: ReplayStatus.NO_BASELINE };
+    }
+
+    try {
+      const evaluate = (evaluator: ReplayEvaluator) =>
+        this.evaluate(evaluator, session, question, this.toResponseSummary(response), replay.interviewConfig, replay.personalityState, technical);
+
+      const baselineEvaluation = replay.baselineEvaluation || await evaluate(replay.baseline!);
+      const candidateEvaluation = await evaluate(replay.candidate);
+
+      const overall = this.diff(baselineEvaluation.overallScore, candidateEvaluation.overallScore);
+      result.overall = overall;
+      result.criteria = this.diffCriteria(baselineEvaluation, candidateEvaluation);
+      result.fallback = Boolean(baselineEvaluation.metadata?.isFallback || candidateEvaluation.metadata?.isFallback);
+      result.regression = overall.delta < -replay.threshold;
+
+      if (this.isTechnical(baselineEvaluation) && this.isTechnical(candidateEvaluation)) {
+        result.technicalAccuracy = this.diff(baselineEvaluation.technicalAccuracy, candidateEvaluation.technicalAccuracy);
+        result.completeness = this.diff(baselineEvaluation.completeness, candidateEvaluation.completeness);
+      }
+
+      return result;
+    } catch (error) {
+      logger.warn('Failed to replay response', { error, sessionId: session.id, responseId: response.id });
+      return { ...result, status: ReplayStatus.FAILED, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  private async evaluate(
+    evaluator: ReplayEvaluator,
+    session: InterviewSession,
+    question: GeneratedQuestion,
+    userResponse: ResponseSummary,
+    interviewConfig: InterviewConfigSummary,
+    personalityState: AIPersonalityState,
+    technical: boolean
+  ): Promise<ResponseEvaluation> {
+    if (technical) {
+      return evaluator.service.evaluateTechnicalResponse({
+        sessionId: session.id,
+        question,
+        userResponse,
+        roleSpecificCriteria: this.technicalEvaluationService.getRoleSpecificCriteria(
+          interviewConfig.role,
+          interviewConfig.industry
+        ),
+        technicalDomain: this.technicalEvaluationService.getTechnicalDomainForRole(interviewConfig.role),
+        personalityState,
+      });
+    }
+
+    return evaluator.service.evaluateResponse({
+      sessionId: session.id,
+      question,
+      userResponse,
+      evaluationCriteria: question.evaluationCriteria,
+      personalityState,
+      interviewConfig,
+    });
+  }
+
+  private createEvaluator(target: ReplayTarget): ReplayEvaluator {
+    const promptRegistry = new DefaultPromptRegistry();
+    const versions = target.promptVersions || {};
+
+    // Pin every prompt kind, defaulting to the latest registered version
+    for (const kind of Object.values(PromptKind)) {
+      const version = versions[kind] || promptRegistry.getTemplate(kind).version;
+      promptRegistry.setTrafficSplit(kind, { [version]: 1 });
+    }
+
+    return {
+      label: target.label,
+      service: new DefaultAIInterviewerService(target.provider, { promptRegistry, temperature: 0 }),
+    };
+  }
+
+  private diff(baseline: number, candidate: number): ScoreDiff {
+    return { baseline, candidate, delta: candidate - baseline };
+  }
+
+  private diffCriteria(
+    baseline: ResponseEvaluation,
+    candidate: ResponseEvaluation
+  ): Array<ScoreDiff & { criteriaName: string }> {
+    return baseline.criteriaScores
+      .map(score => {
+        const match = candidate.criteriaScores.find(
+          c => c.criteriaName.toLowerCase() === score.criteriaName.toLowerCase()
+        );
+        return match ? { criteriaName: score.criteriaName, ...this.diff(score.score, match.score) } : null;
+      })
+      .filter((entry): entry is ScoreDiff & { criteriaName: string } => entry !== null);
+  }
+
+  private summarizeResponses(responses: ResponseReplayResult[]): Pick<
+    SessionReplayResult,
+    'overall' | 'byCriteria' | 'byQuestionCategory'
+  > {
+    const byCriteria: Record<string, number[]> = {};
+    const byQuestionCategory: Record<string, number[]> = {};
+
+    for (const response of responses) {
+      (byQuestionCategory[response.questionCategory] ||= []).push(response.overall!.delta);
+      for (const criteria of response.criteria) {
+        (byCriteria[criteria.criteriaName] ||= []).push(criteria.delta);
+      }
+    }
+
+    const summarizeGroups = (groups: Record<string, number[]>) =>
+      Object.fromEntries(Object.entries(groups).map(([key, deltas]) => [key, this.summarize(deltas)]));
+
+    return {
+      overall: this.summarize(responses.map(r => r.overall!.delta)),
+      byCriteria: summarizeGroups(byCriteria),
+      byQuestionCategory: summarizeGroups(byQuestionCategory),
+    };
+  }
+
+  private summarize(deltas: number[]): ReplayScoreSummary {
+    if (deltas.length === 0) {
+      return { count: 0, meanDelta: 0, meanAbsoluteDelta: 0, maxAbsoluteDelta: 0 };
+    }
+
+    const round = (value: number) => Math.round(value * 100) / 100;
+    return {
+      count: deltas.length,
+      meanDelta: round(deltas.reduce((sum, d) => sum + d, 0) / deltas.length),
+      meanAbsoluteDelta: round(deltas.reduce((sum, d) => sum + Math.abs(d), 0) / deltas.length),
+      maxAbsoluteDelta: Math.max(...deltas.map(Math.abs)),
+    };
+  }
+
+  private isTechnical(evaluation: ResponseEvaluation): evaluation is TechnicalResponseEvaluation {
+    return typeof (evaluation as TechnicalResponseEvaluation).technicalAccuracy === 'number';
+  }
+
+  private toGeneratedQuestion(question: Question): GeneratedQuestion {
+    return {
+      id: question.id,
+      text: question.text,
+      type: question.type as string as QuestionType,
+      category: String(question.category),
+      difficulty: question.difficulty as string as DifficultyLevel,
+      expectedAnswerStructure: question.expectedAnswerStructure as string as AnswerStructure | undefined,
+      evaluationCriteria: question.evaluationCriteria as unknown as EvaluationCriteria[],
+      timeLimit: question.timeLimit,
+      context: question.context,
+      followUpQuestions: question.followUpQuestions,
+      metadata: {
+        source: question.metadata?.source,
+        version: question.metadata?.version ?? 1,
+        usageCount: question.metadata?.usageCount ?? 0,
+        generatedAt: question.createdAt,
+        modelVersion: 'stored',
+      },
+    };
+  }
+
+  private toResponseSummary(response: SessionResponse): ResponseSummary {
+    return {
+      questionId: response.questionId,
+      questionText: response.question.text,
+      responseText: response.textResponse,
+      code: response.codeSnapshots?.[response.codeSnapshots.length - 1],
+      duration: response.duration,
+      confidence: response.confidence,
+      isSkipped: response.isSkipped,
+      timestamp: response.completedAt || response.startedAt,
+    };
+  }
+}
@@ -0,0 +1,190 @@
+import { SessionReplayService } from '../services/session-replay-service';
+import { ScriptedLLMProvider } from '../services/llm-providers';
+import { LLMTask } from '../types/llm-provider';
+import { PromptKind } from '../types/prompt-registry';
+import { ReplayStatus, SessionReplayError } from '../types/session-replay';
+import { ResponseEvaluation } from '../types/ai-interviewer';
+import {
+  InterviewConfig,
+  InterviewSession,
+  Question,
+  SessionResponse,
+  QuestionType,
+  QuestionCategory,
+  DifficultyLevel,
+  FocusArea,
+  SessionState,
+  InterviewStyle,
+  InterviewTone,
+  FormalityLevel,
+} from '../types/interview-config';
+
+const config = {
+  id: 'config-1',
+  userId: 'user-1',
+  name: 'Backend practice',
+  role: 'Backend Developer',
+  industry: 'Technology',
+  difficulty: DifficultyLevel.MID,
+  duration: 30,
+  questionTypes: [QuestionType.BEHAVIORAL, QuestionType.TECHNICAL],
+  focusAreas: [FocusArea.COMMUNICATION],
+  aiPersonality: {
+    name: 'Test Interviewer',
+    style: InterviewStyle.CONVERSATIONAL,
+    tone: InterviewTone.FRIENDLY,
+    formality: FormalityLevel.SEMI_FORMAL,
+    adaptiveness: 0.5,
+    followUpIntensity: 0.5,
+    encouragementLevel: 0.5,
+  },
+  isTemplate: false,
+  isPublic: false,
+  tags: [],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+} as unknown as InterviewConfig;
+
+const buildQuestion = (id: string, type: QuestionType, category: QuestionCategory): Question => ({
+  id,
+  type,
+  category,
+  difficulty: DifficultyLevel.MID,
+  text: `Question ${id}`,
+  evaluationCriteria: [],
+  tags: [],
+  metadata: { version: 1, usageCount: 0 },
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+const buildResponse = (id: string, question: Question, overrides: Partial<SessionResponse> = {}): SessionResponse => ({
+  id,
+  sessionId: 'session-1',
+  questionId: question.id,
+  question,
+  textResponse: 'I led the migration and cut latency by 40%.',
+  startedAt: new Date(),
+  duration: 90,
+  isSkipped: false,
+  metadata: {},
+  ...overrides,
+});
+
+const behavioral = buildQuestion('q1', QuestionType.BEHAVIORAL, QuestionCategory.EXPERIENCE);
+const technical = buildQuestion('q2', QuestionType.TECHNICAL, QuestionCategory.SKILLS);
+const skipped = buildQuestion('q3', QuestionType.BEHAVIORAL, QuestionCategory.TEAMWORK);
+
+const session: InterviewSession = {
+  id: 'session-1',
+  userId: 'user-1',
+  configId: config.id,
+  config,
+  state: SessionState.COMPLETED,
+  currentQuestionIndex: 3,
+  questions: [behavioral, technical, skipped],
+  responses: [
+    buildResponse('r1', behavioral),
+    buildResponse('r2', technical),
+    buildResponse('r3', skipped, { isSkipped: true, textResponse: undefined }),
+  ],
+  startedAt: new Date(),
+  duration: 600,
+  metadata: {},
+};
+
+const evaluation = (overallScore: number, communication: number): string =>
+  JSON.stringify({
+    overallScore,
+    criteriaScores: [
+      { criteriaName: 'Content Quality', score: overallScore, feedback: 'Relevant' },
+      { criteriaName: 'Communication', score: communication, feedback: 'Clear' },
+    ],
+    strengths: ['Concrete example'],
+    improvements: ['Quantify more'],
+    followUpSuggestions: [],
+    confidence: 0.8,
+  });
+
+describe('SessionReplayService', () => {
+  const service = new SessionReplayService();
+
+  it('should diff candidate scores against a baseline target per response and category', async () => {
+    const baseline = new ScriptedLLMProvider([{ task: LLMTask.RESPONSE_EVALUATION, response: evaluation(80, 78) }]);
+    const candidate = new ScriptedLLMProvider([{ task: LLMTask.RESPONSE_EVALUATION, response: evaluation(70, 81) }]);
+
+    const result = await service.replaySession(session, {
+      baseline: { label: 'current', provider: baseline },
+      candidate: { label: 'next', provider: candidate },
+    });
+
+    const [behavioralResult, technicalResult, skippedResult] = result.responses;
+    expect(behavioralResult.status).toBe(ReplayStatus.COMPARED);
+    expect(behavioralResult.overall).toEqual({ baseline: 80, candidate: 70, delta: -10 });
+    expect(behavioralResult.criteria).toContainEqual({ criteriaName: 'Communication', baseline: 78, candidate: 81, delta: 3 });
+    expect(behavioralResult.regression).toBe(true);
+
+    expect(technicalResult.technical).toBe(true);
+    expect(technicalResult.technicalAccuracy).toEqual({ baseline: 72, candidate: 72, delta: 0 });
+    expect(skippedResult.status).toBe(ReplayStatus.SKIPPED);
+
+    expect(result.overall).toEqual({ count: 2, meanDelta: -5, meanAbsoluteDelta: 5, maxAbsoluteDelta: 10 });
+    expect(result.byQuestionCategory[QuestionCategory.EXPERIENCE].meanDelta).toBe(-10);
+    expect(result.regressions).toBe(1);
+  });
+
+  it('should replay at temperature 0 with the pinned prompt version', async () => {
+    const candidate = new ScriptedLLMProvider();
+
+    await service.replaySession(session, {
+      baseline: { label: 'current', provider: new ScriptedLLMProvider() },
+      candidate: { label: 'v1', provider: candidate, promptVersions: { [PromptKind.EVALUATION_SYSTEM]: 'v1' } },
+    });
+
+    const requests = candidate.getHistory();
+    expect(requests).toHaveLength(2);
+    expect(requests.every(request => request.temperature === 0)).toBe(true);
+  });
+
+  it('should compare against stored evaluations and report responses without one', async () => {
+    const stored = { overallScore: 60, criteriaScores: [] } as unknown as ResponseEvaluation;
+
+    const result = await service.replaySession(session, {
+      candidate: { label: 'next', provider: new ScriptedLLMProvider() },
+      baselineEvaluations: { r1: stored },
+    });
+
+    expect(result.baselineLabel).toBe('stored evaluations');
+    expect(result.responses[0].overall).toEqual({ baseline: 60, candidate: 72, delta: 12 });
+    expect(result.responses[1].status).toBe(ReplayStatus.NO_BASELINE);
+  });
+
+  it('should record failures without aborting the corpus replay', async () => {
+    const candidate = new ScriptedLLMProvider();
+    jest.spyOn(candidate, 'complete').mockImplementation(async request => {
+      if (request.task === LLMTask.TECHNICAL_EVALUATION) {
+        throw new Error('provider unavailable');
+      }
+      return ScriptedLLMProvider.prototype.complete.call(candidate, request);
+    });
+
+    const result = await service.replayCorpus([session, { ...session, id: 'session-2' }], {
+      baseline: { label: 'current', provider: new ScriptedLLMProvider() },
+      candidate: { label: 'next', provider: candidate },
+    });
+
+    expect(result.sessions).toHaveLength(2);
+    expect(result.failedResponses).toBe(2);
+    expect(result.sessions[0].responses[1]).toEqual(expect.objectContaining({
+      status: ReplayStatus.FAILED,
+      error: expect.stringContaining('provider unavailable'),
+    }));
+    expect(result.overall.count).toBe(2);
+  });
+
+  it('should require a baseline', async () => {
+    await expect(
+      service.replaySession(session, { candidate: { label: 'next', provider: new ScriptedLLMProvider() } })
+    ).rejects.toThrow(SessionReplayError);
+  });
+});
@@ -0,0 +1,85 @@
+// Session Replay Types and Interfaces
+
+import { AIInterviewerError, ResponseEvaluation } from './ai-interviewer';
+import { LLMProvider } from './llm-provider';
+import { PromptKind } from './prompt-registry';
+
+// A provider and prompt versions to evaluate a session with
+export interface ReplayTarget {
+  label: string; // e.g. "gpt-4o / evaluation v2", shown in reports
+  provider: LLMProvider;
+  promptVersions?: Partial<Record<PromptKind, string>>; // Pinned for every replayed session
+}
+
+export interface SessionReplayOptions {
+  candidate: ReplayTarget;
+  // Scores to compare against: stored evaluations keyed by SessionResponse id,
+  // or a second target that re-evaluates the session the same way
+  baseline?: ReplayTarget;
+  baselineEvaluations?: Record<string, ResponseEvaluation>;
+  regressionThreshold?: number; // Absolute overall score change flagged as a regression (default 5)
+}
+
+export interface ScoreDiff {
+  baseline: number;
+  candidate: number;
+  delta: number; // candidate - baseline
+}
+
+export interface ResponseReplayResult {
+  responseId: string;
+  questionId: string;
+  questionCategory: string;
+  technical: boolean; // Evaluated with evaluateTechnicalResponse
+  status: ReplayStatus;
+  error?: string;
+  overall?: ScoreDiff;
+  criteria: Array<ScoreDiff & { criteriaName: string }>;
+  technicalAccuracy?: ScoreDiff;
+  completeness?: ScoreDiff;
+  fallback: boolean; // Either side used default scores after invalid model output
+  regression: boolean; // Overall score dropped by more than the threshold
+}
+
+export interface ReplayScoreSummary {
+  count: number;
+  meanDelta: number;
+  meanAbsoluteDelta: number;
+  maxAbsoluteDelta: number;
+}
+
+export interface SessionReplayResult {
+  sessionId: string;
+  baselineLabel: string;
+  candidateLabel: string;
+  responses: ResponseReplayResult[];
+  overall: ReplayScoreSummary;
+  byCriteria: Record<string, ReplayScoreSummary>;
+  byQuestionCategory: Record<string, ReplayScoreSummary>;
+  regressions: number;
+}
+
+export interface ReplayCorpusResult {
+  sessions: SessionReplayResult[];
+  overall: ReplayScoreSummary;
+  byCriteria: Record<string, ReplayScoreSummary>;
+  byQuestionCategory: Record<string, ReplayScoreSummary>;
+  regressions: number;
+  failedResponses: number;
+}
+
+// Enums
+export enum ReplayStatus {
+  COMPARED = 'compared',
+  SKIPPED = 'skipped', // The candidate skipped the question; nothing to evaluate
+  NO_BASELINE = 'no_baseline',
+  FAILED = 'failed',
+}
+
+// Error Types
+export class SessionReplayError extends AIInterviewerError {
+  constructor(message: string, public sessionId?: string) {
+    super(message, 'SESSION_REPLAY_ERROR', 400);
+    this.name = 'SessionReplayError';
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * Signaling Authentication Tests
+ * Handshake tokens, session membership and roles, and rejection of messages
+ * that claim another user or session
+ */
+
+import { createServer, Server as HTTPServer } from 'http';
+import { AddressInfo } from 'net';
+import { SignalingServer } from '../services/signaling-server';
+import { InterviewSessionSignalingAuthorizer } from '../services/signaling-auth';
+import { TestSignalingClient } from './mocks/signaling.client';
+import { InterviewSession, SessionState } from '../types/interview-config';
+import {
+  SignalingErrorCode,
+  SignalingServerConfig,
+  SignalingTokenVerifier,
+  SignalingSessionLifecycle
+} from '../types/webrtc';
+
+jest.mock('../database/connection', () => ({ db: {} }));
+
+const interviewSession = (id: string, userId: string, overrides: Partial<InterviewSession> = {}): InterviewSession => ({
+  id,
+  userId,
+  configId: 'config-1',
+  config: {} as any,
+  state: SessionState.IN_PROGRESS,
+  currentQuestionIndex: 0,
+  questions: [],
+  responses: [],
+  startedAt: new Date(),
+  duration: 0,
+  metadata: { interviewerIds: ['interviewer-1'] },
+  ...overrides
+});
+
+const sessions: Record<string, InterviewSession> = {
+  'session-1': interviewSession('session-1', 'candidate-1'),
+  'session-2': interviewSession('session-2', 'candidate-2'),
+  'session-closed': interviewSession('session-closed', 'candidate-1', { state: SessionState.COMPLETED })
+};
+
+const authorizer = new InterviewSessionSignalingAuthorizer({
+  findSessionById: async (sessionId: string) => sessions[sessionId] || null
+});
+
+// Tokens are the user ids, except for the invalid one
+const tokenVerifier: SignalingTokenVerifier = {
+  verifyAccessToken: token => {
+    if (token === 'expired') {
+      throw new Error('Invalid or expired token');
+    }
+    return { userId: token, email: `${token}@example.com` };
+  }
+};
+
+const lifecycle: SignalingSessionLifecycle = {
+  participantDisconnected: async () => undefined,
+  participantResumed: async () => null,
+  participantExpired: async () => undefined
+};
+
+const config: SignalingServerConfig = {
+  port: 0,
+  corsOrigins: ['*'],
+  stunTurnConfig: { iceServers: [] },
+  maxSessionDuration: 3600000,
+  heartbeatInterval: 60000,
+  connectionTimeout: 120000
+};
+
+const join = (sessionId: string, fields: Record<string, any> = {}) => ({
+  sessionId,
+  mediaConstraints: { audio: true, video: true },
+  ...fields
+});
+
+describe('InterviewSessionSignalingAuthorizer', () => {
+  it('should grant roles from the owning interview session', async () => {
+    expect(await authorizer.authorize('candidate-1', 'session-1')).toBe('interviewee');
+    expect(await authorizer.authorize('interviewer-1', 'session-1')).toBe('interviewer');
+    expect(await authorizer.authorize('candidate-2', 'session-1')).toBeNull();
+  });
+
+  it('should refuse unknown and closed sessions', async () => {
+    expect(await authorizer.authorize('candidate-1', 'missing')).toBeNull();
+    expect(await authorizer.authorize('candidate-1', 'session-closed')).toBeNull();
+  });
+});
+
+describe('SignalingServer authentication', () => {
+  let httpServer: HTTPServer;
+  let signaling: SignalingServer;
+  let url: string;
+  let clients: TestSignalingClient[];
+
+  beforeEach(async () => {
+    httpServer = createServer();
+    signaling = new SignalingServer(httpServer, config, { tokenVerifier, authorizer, lifecycle });
+    await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve));
+    await signaling.whenReady();
+    url = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+    clients = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.map(client => client.close()));
+    await signaling.shutdown();
+    await new Promise(resolve => httpServer.close(resolve));
+  });
+
+  const connect = async (token: string) => {
+    const client = await TestSignalingClient.connect(url, token);
+    clients.push(client);
+    return client;
+  };
+
+  const joined = async (token: string, sessionId: string) => {
+    const client = await connect(token);
+    await client.emit('join_session', join(sessionId));
+    await client.waitFor('session_joined');
+    return client;
+  };
+
+  it('should refuse connections without a valid token', async () => {
+    await expect(TestSignalingClient.connect(url)).rejects.toMatchObject({
+      data: { code: SignalingErrorCode.AUTHENTICATION_FAILED }
+    });
+    await expect(TestSignalingClient.connect(url, 'expired')).rejects.toMatchObject({
+      message: 'Invalid or expired token',
+      data: { code: SignalingErrorCode.AUTHENTICATION_FAILED }
+    });
+  });
+
+  it('should join with the role the interview session grants', async () => {
+    const interviewer = await connect('interviewer-1');
+    await interviewer.emit('join_session', join('session-1', { userRole: 'interviewer' }));
+
+    const joinedSession = await interviewer.waitFor('session_joined');
+    expect(joinedSession.participants).toEqual([
+      expect.objectContaining({ userId: 'interviewer-1', role: 'interviewer' })
+    ]);
+  });
+
+  it('should reject users outside the session and claimed roles or identities', async () => {
+    const stranger = await connect('candidate-2');
+    await stranger.emit('join_session', join('session-1'));
+    expect((await stranger.waitFor('error')).code).toBe(SignalingErrorCode.SESSION_ACCESS_DENIED);
+
+    const candidate = await connect('candidate-1');
+    await candidate.emit('join_session', join('session-1', { userRole: 'interviewer' }));
+    expect((await candidate.waitFor('error')).code).toBe(SignalingErrorCode.SESSION_ACCESS_DENIED);
+
+    await candidate.emit('join_session', join('session-1', { userId: 'interviewer-1' }));
+    expect((await candidate.waitFor('error')).code).toBe(SignalingErrorCode.IDENTITY_MISMATCH);
+
+    await candidate.emit('join_session', join('session-closed'));
+    expect((await candidate.waitFor('error')).code).toBe(SignalingErrorCode.SESSION_ACCESS_DENIED);
+  });
+
+  it('should reject signaling from sockets that have not joined', async () => {
+    await joined('candidate-1', 'session-1');
+    const interviewer = await connect('interviewer-1');
+
+    await interviewer.emit('offer', { targetUserId: 'candidate-1', offer: { type: 'offer', sdp: 'v=0' } });
+    expect((await interviewer.waitFor('error')).code).toBe(SignalingErrorCode.SESSION_ACCESS_DENIED);
+  });
+
+  it('should reject spoofed offers, answers and ICE candidates', async () => {
+    const candidate = await joined('candidate-1', 'session-1');
+    const interviewer = await joined('interviewer-1', 'session-1');
+
+    await candidate.emit('offer', { userId: 'interviewer-1', targetUserId: 'interviewer-1', offer: { type: 'offer', sdp: 'v=0' } });
+    expect((await candidate.waitFor('error')).code).toBe(SignalingErrorCode.IDENTITY_MISMATCH);
+
+    await candidate.emit('answer', { sessionId: 'session-2', targetUserId: 'interviewer-1', answer: { type: 'answer', sdp: 'v=0' } });
+    expect((await candidate.waitFor('error')).code).toBe(SignalingErrorCode.IDENTITY_MISMATCH);
+
+    await candidate.emit('ice_candidate', { userId: 'interviewer-1', targetUserId: 'interviewer-1', candidate: { candidate: 'c1' } });
+    expect((await candidate.waitFor('error')).code).toBe(SignalingErrorCode.IDENTITY_MISMATCH);
+
+    await expect(interviewer.waitFor('offer', () => true, 200)).rejects.toThrow('Timed out');
+    await expect(interviewer.waitFor('ice_candidate', () => true, 200)).rejects.toThrow('Timed out');
+  });
+
+  it('should stamp forwarded messages with the authenticated sender and keep them in the session', async () => {
+    const candidate = await joined('candidate-1', 'session-1');
+    const interviewer = await joined('interviewer-1', 'session-1');
+    const otherCandidate = await joined('candidate-2', 'session-2');
+
+    await interviewer.emit('offer', { targetUserId: 'candidate-1', offer: { type: 'offer', sdp: 'v=0' } });
+    expect(await candidate.waitFor('offer')).toEqual({
+      from: 'interviewer-1',
+      sessionId: 'session-1',
+      offer: { type: 'offer', sdp: 'v=0' }
+    });
+
+    await interviewer.emit('offer', { targetUserId: 'candidate-2', offer: { type: 'offer', sdp: 'v=0' } });
+    expect((await interviewer.waitFor('error')).message).toBe('Target user not found');
+    await expect(otherCandidate.waitFor('offer', () => true, 200)).rejects.toThrow('Timed out');
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * Signaling Session Authorizer
+ * Decides who may join a live interview session, and in which role, from
+ * the interview session that owns it
+ */
+
+import { DatabaseInterviewConfigRepository } from '../repositories/interview-config-repository';
+import { db } from '../database/connection';
+import { logger } from '../utils/logger';
+import { InterviewConfigRepository, SessionState } from '../types/interview-config';
+import { SignalingSessionAuthorizer } from '../types/webrtc';
+
+const CLOSED_SESSION_STATES = [SessionState.COMPLETED, SessionState.ABANDONED];
+
+export class InterviewSessionSignalingAuthorizer implements SignalingSessionAuthorizer {
+  constructor(
+    private sessions: Pick<InterviewConfigRepository, 'findSessionById'> = new DatabaseInterviewConfigRepository(db)
+  ) {}
+
+  /**
+   * The session owner joins as the interviewee and the users it lists as
+   * interviewers join as interviewers. Closed sessions cannot be joined
+   */
+  async authorize(userId: string, sessionId: string): Promise<'interviewer' | 'interviewee' | null> {
+    const session = await this.sessions.findSessionById(sessionId);
+    if (!session || CLOSED_SESSION_STATES.includes(session.state)) {
+      logger.debug('Signaling session not open for joining', { sessionId, state: session?.state });
+      return null;
+    }
+
+    if (session.userId === userId) {
+      return 'interviewee';
+    }
+    if (session.metadata?.interviewerIds?.includes(userId)) {
+      return 'interviewer';
+    }
+    return null;
+  }
+}
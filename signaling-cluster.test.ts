@@ -0,0 +1,392 @@
+/**
+ * Signaling Cluster Tests
+ * Shared session state, the cross-node message bus, and signaling between
+ * peers connected to different nodes
+ */
+
+import { createServer, Server as HTTPServer } from 'http';
+import { AddressInfo } from 'net';
+import { SignalingServer } from '../services/signaling-server';
+import { TestSignalingClient } from './mocks/signaling.client';
+import {
+  InMemorySignalingSessionStore,
+  InMemorySignalingBroker,
+  InMemorySignalingMessageBus,
+  RedisSignalingSessionStore,
+  createSignalingState
+} from '../services/signaling-state-adapters';
+import {
+  SignalingState,
+  SignalingStateBackend,
+  SignalingBusMessage,
+  RedisClientLike
+} from '../types/signaling-state';
+import {
+  InterviewSession,
+  PeerConnection,
+  SessionStatus,
+  SignalingServerConfig,
+  SignalingSessionAuthorizer,
+  SignalingTokenVerifier,
+  SignalingSessionLifecycle
+} from '../types/webrtc';
+
+jest.mock('../database/connection', () => ({ db: {} }));
+
+/**
+ * Local stand-in for a Redis server. Every connection created from it sees
+ * the same keys and channels
+ */
+class FakeRedisServer {
+  strings = new Map<string, { value: string; expiresAt?: number }>();
+  hashes = new Map<string, Map<string, string>>();
+  sets = new Map<string, Set<string>>();
+  channels = new Map<string, Set<(message: string, channel: string) => void>>();
+
+  connect(): RedisClientLike {
+    const server = this;
+    const subscriptions = new Map<string, (message: string, channel: string) => void>();
+
+    return {
+      async get(key) {
+        const entry = server.strings.get(key);
+        if (!entry || (entry.expiresAt !== undefined && entry.expiresAt <= Date.now())) {
+          server.strings.delete(key);
+          return null;
+        }
+        return entry.value;
+      },
+      async set(key, value, options = {}) {
+        if (options.NX && (await this.get(key)) !== null) {
+          return null;
+        }
+        server.strings.set(key, { value, expiresAt: options.PX ? Date.now() + options.PX : undefined });
+        return 'OK';
+      },
+      async del(keys) {
+        let removed = 0;
+        for (const key of Array.isArray(keys) ? keys : [keys]) {
+          for (const collection of [server.strings, server.hashes, server.sets]) {
+            removed += (collection as Map<string, unknown>).delete(key) ? 1 : 0;
+          }
+        }
+        return removed;
+      },
+      async hSet(key, field, value) {
+        const hash = server.hashes.get(key) || new Map<string, string>();
+        server.hashes.set(key, hash);
+        const added = hash.has(field) ? 0 : 1;
+        hash.set(field, value);
+        return added;
+      },
+      async hDel(key, field) {
+        return server.hashes.get(key)?.delete(field) ? 1 : 0;
+      },
+      async hGetAll(key) {
+        return Object.fromEntries(server.hashes.get(key) || []);
+      },
+      async sAdd(key, member) {
+        const set = server.sets.get(key) || new Set<string>();
+        server.sets.set(key, set);
+        const added = set.has(member) ? 0 : 1;
+        set.add(member);
+        return added;
+      },
+      async sRem(key, member) {
+        return server.sets.get(key)?.delete(member) ? 1 : 0;
+      },
+      async sMembers(key) {
+        return Array.from(server.sets.get(key) || []);
+      },
+      async publish(channel, message) {
+        const listeners = Array.from(server.channels.get(channel) || []);
+        listeners.forEach(listener => setImmediate(() => listener(message, channel)));
+        return listeners.length;
+      },
+      async subscribe(channel, listener) {
+        const listeners = server.channels.get(channel) || new Set();
+        server.channels.set(channel, listeners);
+        listeners.add(listener);
+        subscriptions.set(channel, listener);
+      },
+      async unsubscribe(channel) {
+        const listener = subscriptions.get(channel);
+        if (listener) {
+          server.channels.get(channel)?.delete(listener);
+          subscriptions.delete(channel);
+        }
+      },
+      async quit() {
+        for (const channel of Array.from(subscriptions.keys())) {
+          await this.unsubscribe(channel);
+        }
+        return 'OK';
+      }
+    };
+  }
+}
+
+const config: SignalingServerConfig = {
+  port: 0,
+  corsOrigins: ['*'],
+  stunTurnConfig: { iceServers: [] },
+  maxSessionDuration: 3600000,
+  heartbeatInterval: 60000,
+  connectionTimeout: 120000
+};
+
+// Tokens are the user ids, and both users belong to session-1
+const tokenVerifier: SignalingTokenVerifier = {
+  verifyAccessToken: token => ({ userId: token, email: `${token}@example.com` })
+};
+const authorizer: SignalingSessionAuthorizer = {
+  authorize: async userId => userId.startsWith('interviewer') ? 'interviewer' : 'interviewee'
+};
+
+const lifecycle: SignalingSessionLifecycle = {
+  participantDisconnected: async () => undefined,
+  participantResumed: async () => null,
+  participantExpired: async () => undefined
+};
+
+const startNode = async (state: SignalingState, nodeId?: string) => {
+  const httpServer: HTTPServer = createServer();
+  const signaling = new SignalingServer(httpServer, config, { ...state, nodeId, tokenVerifier, authorizer, lifecycle });
+  await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve));
+  await signaling.whenReady();
+  const { port } = httpServer.address() as AddressInfo;
+  return { httpServer, signaling, url: `http://127.0.0.1:${port}` };
+};
+
+const stopNode = async (node: { httpServer: HTTPServer; signaling: SignalingServer }) => {
+  await node.signaling.shutdown();
+  await new Promise(resolve => node.httpServer.close(resolve));
+};
+
+const joinData = (userId: string, userRole: 'interviewer' | 'interviewee') => ({
+  sessionId: 'session-1',
+  userId,
+  userRole,
+  mediaConstraints: { audio: true, video: true }
+});
+
+const newSession = (id: string): InterviewSession => ({
+  id,
+  participants: new Map(),
+  createdAt: new Date(),
+  status: SessionStatus.WAITING,
+  recordingActive: false,
+  mediaStreams: new Map()
+});
+
+const participant = (userId: string): PeerConnection => ({
+  id: `socket-${userId}`,
+  userId,
+  sessionId: 'session-1',
+  role: 'interviewee',
+  connectionState: 'new',
+  mediaState: { audio: true, video: false },
+  connectedAt: new Date(),
+  lastActivity: new Date()
+});
+
+const busMessage = (event: string): SignalingBusMessage => ({
+  originNodeId: 'node-a',
+  target: { room: 'session-1' },
+  event,
+  payload: { at: 1 }
+});
+
+// Each call of the returned function gives a node its own connections to the shared state
+const clusters: Record<string, () => () => SignalingState> = {
+  memory: () => {
+    const store = new InMemorySignalingSessionStore();
+    const broker = new InMemorySignalingBroker();
+    return () => ({ store, bus: new InMemorySignalingMessageBus(broker) });
+  },
+  redis: () => {
+    const redis = new FakeRedisServer();
+    return () => createSignalingState({
+      backend: SignalingStateBackend.REDIS,
+      client: redis.connect(),
+      subscriber: redis.connect()
+    });
+  }
+};
+
+describe('Signaling session stores', () => {
+  const stores = {
+    memory: () => new InMemorySignalingSessionStore(),
+    redis: () => new RedisSignalingSessionStore(new FakeRedisServer().connect())
+  };
+
+  Object.entries(stores).forEach(([backend, createStore]) => {
+    describe(backend, () => {
+      it('should keep the first session created and merge participants from several nodes', async () => {
+        const store = createStore();
+        await store.createSession(newSession('session-1'));
+        const second = newSession('session-1');
+        second.status = SessionStatus.ACTIVE;
+        const existing = await store.createSession(second);
+
+        expect(existing.status).toBe(SessionStatus.WAITING);
+
+        await store.saveParticipant('session-1', participant('alice'));
+        await store.saveParticipant('session-1', participant('bob'));
+        await store.setSessionStatus('session-1', SessionStatus.ACTIVE);
+
+        const session = await store.getSession('session-1');
+        expect(session!.status).toBe(SessionStatus.ACTIVE);
+        expect(Array.from(session!.participants.keys()).sort()).toEqual(['alice', 'bob']);
+        expect(session!.participants.get('alice')!.lastActivity).toBeInstanceOf(Date);
+        expect(await store.listSessionIds()).toEqual(['session-1']);
+
+        await store.deleteSession('session-1');
+        expect(await store.getSession('session-1')).toBeNull();
+        expect(await store.listSessionIds()).toEqual([]);
+      });
+
+      it('should only remove a presence for the socket that owns it', async () => {
+        const store = createStore();
+        await store.setPresence({ userId: 'alice', sessionId: 'session-1', nodeId: 'node-b', socketId: 'new', updatedAt: new Date() });
+
+        await store.removePresence('alice', 'old');
+        expect((await store.getPresence('alice'))!.nodeId).toBe('node-b');
+
+        await store.removePresence('alice', 'new');
+        expect(await store.getPresence('alice')).toBeNull();
+      });
+
+      it('should expire nodes that stop sending heartbeats', async () => {
+        const store = createStore();
+        await store.markNodeAlive('node-a', 20);
+        await store.markNodeAlive('node-b', 60000);
+
+        await new Promise(resolve => setTimeout(resolve, 40));
+        expect(await store.isNodeAlive('node-a')).toBe(false);
+        expect(await store.isNodeAlive('node-b')).toBe(true);
+
+        await store.markNodeDown('node-b');
+        expect(await store.isNodeAlive('node-b')).toBe(false);
+      });
+    });
+  });
+});
+
+describe('Signaling message buses', () => {
+  Object.entries(clusters).forEach(([backend, createCluster]) => {
+    it(`should deliver messages to subscribers on other nodes (${backend})`, async () => {
+      const joinCluster = createCluster();
+      const [publisher, subscriber] = [joinCluster().bus, joinCluster().bus];
+      const received: SignalingBusMessage[] = [];
+      await subscriber.subscribe('rooms', message => received.push(message));
+
+      await publisher.publish('rooms', busMessage('user_joined'));
+      await new Promise(resolve => setImmediate(resolve));
+      await subscriber.unsubscribe('rooms');
+      await publisher.publish('rooms', busMessage('user_left'));
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(received).toEqual([busMessage('user_joined')]);
+
+      await publisher.close();
+      await subscriber.close();
+    });
+  });
+});
+
+describe('SignalingServer across nodes', () => {
+  Object.entries(clusters).forEach(([backend, createCluster]) => {
+    describe(backend, () => {
+      let nodes: Array<Awaited<ReturnType<typeof startNode>>>;
+      let clients: TestSignalingClient[];
+      let joinCluster: () => SignalingState;
+
+      beforeEach(async () => {
+        joinCluster = createCluster();
+        nodes = [await startNode(joinCluster(), 'node-1'), await startNode(joinCluster(), 'node-2')];
+        clients = [];
+      });
+
+      afterEach(async () => {
+        await Promise.all(clients.map(client => client.close()));
+        for (const node of nodes) {
+          await stopNode(node).catch(() => undefined);
+        }
+      });
+
+      const connect = async (url: string, userId: string) => {
+        const client = await TestSignalingClient.connect(url, userId);
+        clients.push(client);
+        return client;
+      };
+
+      it('should relay signaling and media state to a peer on another node', async () => {
+        const interviewer = await connect(nodes[0].url, 'interviewer-1');
+        const candidate = await connect(nodes[1].url, 'candidate-1');
+
+        await interviewer.emit('join_session', joinData('interviewer-1', 'interviewer'));
+        await interviewer.waitFor('session_joined');
+        await candidate.emit('join_session', joinData('candidate-1', 'interviewee'));
+
+        const joined = await candidate.waitFor('session_joined');
+        expect(joined.participants.map((p: PeerConnection) => p.userId).sort()).toEqual(['candidate-1', 'interviewer-1']);
+        const userJoined = await interviewer.waitFor('user_joined');
+        expect(userJoined.user.userId).toBe('candidate-1');
+        expect(userJoined.sessionStatus).toBe(SessionStatus.ACTIVE);
+
+        await interviewer.emit('offer', { sessionId: 'session-1', userId: 'interviewer-1', targetUserId: 'candidate-1', offer: { type: 'offer', sdp: 'v=0' } });
+        expect(await candidate.waitFor('offer')).toEqual({ from: 'interviewer-1', sessionId: 'session-1', offer: { type: 'offer', sdp: 'v=0' } });
+
+        await candidate.emit('answer', { sessionId: 'session-1', userId: 'candidate-1', targetUserId: 'interviewer-1', answer: { type: 'answer', sdp: 'v=0' } });
+        expect((await interviewer.waitFor('answer')).from).toBe('candidate-1');
+
+        await candidate.emit('ice_candidate', { sessionId: 'session-1', userId: 'candidate-1', targetUserId: 'interviewer-1', candidate: { candidate: 'c1', sdpMLineIndex: 0, sdpMid: '0' } });
+        expect((await interviewer.waitFor('ice_candidate')).candidate.candidate).toBe('c1');
+
+        await candidate.emit('media_state_change', { sessionId: 'session-1', userId: 'candidate-1', mediaState: { video: false } });
+        const mediaState = await interviewer.waitFor('media_state_change');
+        expect(mediaState).toEqual({ userId: 'candidate-1', mediaState: { audio: true, video: false, screen: false } });
+
+        const session = await nodes[0].signaling.getSessionInfo('session-1');
+        expect(session!.participants.get('candidate-1')!.mediaState.video).toBe(false);
+      });
+
+      it('should reject a user already connected to another node', async () => {
+        const first = await connect(nodes[0].url, 'candidate-1');
+        const second = await connect(nodes[1].url, 'candidate-1');
+
+        await first.emit('join_session', joinData('candidate-1', 'interviewee'));
+        await first.waitFor('session_joined');
+        await second.emit('join_session', joinData('candidate-1', 'interviewee'));
+
+        expect((await second.waitFor('error')).code).toBe('USER_ALREADY_IN_SESSION');
+      });
+
+      it('should keep the session when a node restarts and let its users rejoin', async () => {
+        const interviewer = await connect(nodes[0].url, 'interviewer-1');
+        const candidate = await connect(nodes[1].url, 'candidate-1');
+        await interviewer.emit('join_session', joinData('interviewer-1', 'interviewer'));
+        await interviewer.waitFor('session_joined');
+        await candidate.emit('join_session', joinData('candidate-1', 'interviewee'));
+        await candidate.waitFor('session_joined');
+
+        await stopNode(nodes[0]);
+
+        const survivor = await nodes[1].signaling.getSessionInfo('session-1');
+        expect(Array.from(survivor!.participants.keys()).sort()).toEqual(['candidate-1', 'interviewer-1']);
+
+        nodes[0] = await startNode(joinCluster(), 'node-1');
+
+        const rejoined = await connect(nodes[0].url, 'interviewer-1');
+        await rejoined.emit('join_session', joinData('interviewer-1', 'interviewer'));
+        const joined = await rejoined.waitFor('session_joined');
+        expect(joined.participants).toHaveLength(2);
+        expect((await candidate.waitFor('user_joined')).user.userId).toBe('interviewer-1');
+
+        await candidate.emit('offer', { sessionId: 'session-1', userId: 'candidate-1', targetUserId: 'interviewer-1', offer: { type: 'offer', sdp: 'v=1' } });
+        expect((await rejoined.waitFor('offer')).offer.sdp).toBe('v=1');
+      });
+    });
+  });
+});
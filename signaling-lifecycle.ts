@@ -0,0 +1,59 @@
+/**
+ * Interview Session Signaling Lifecycle
+ * Pauses the interview timer while the candidate is disconnected, picks the
+ * interview up at the same question when they come back, and abandons it
+ * when they do not come back within the grace period
+ */
+
+import { DefaultInterviewConfigService } from './interview-config-service';
+import { DatabaseInterviewConfigRepository } from '../repositories/interview-config-repository';
+import { db } from '../database/connection';
+import { InterviewConfigService, SessionAction, SessionState } from '../types/interview-config';
+import { PeerConnection, InterviewResumeState, SignalingSessionLifecycle } from '../types/webrtc';
+
+const DISCONNECT_REASON = 'connection_lost';
+const EXPIRED_REASON = 'reconnect_timeout';
+
+export class InterviewSessionSignalingLifecycle implements SignalingSessionLifecycle {
+  constructor(
+    private sessions: Pick<
+      InterviewConfigService,
+      'getSession' | 'suspendSession' | 'resumeSuspendedSession' | 'controlSession'
+    > =
+      new DefaultInterviewConfigService(new DatabaseInterviewConfigRepository(db))
+  ) {}
+
+  async participantDisconnected(participant: PeerConnection): Promise<void> {
+    // The timer runs for the candidate, so an interviewer dropping leaves it running
+    if (participant.role === 'interviewee') {
+      await this.sessions.suspendSession(participant.sessionId, DISCONNECT_REASON);
+    }
+  }
+
+  async participantResumed(participant: PeerConnection): Promise<InterviewResumeState | null> {
+    const session = participant.role === 'interviewee'
+      ? await this.sessions.resumeSuspendedSession(participant.sessionId)
+      : await this.sessions.getSession(participant.sessionId);
+
+    return {
+      state: session.state,
+      currentQuestionIndex: session.currentQuestionIndex,
+      currentQuestion: session.questions[session.currentQuestionIndex]
+    };
+  }
+
+  async participantExpired(participant: PeerConnection): Promise<void> {
+    if (participant.role !== 'interviewee') {
+      return;
+    }
+
+    // Only the suspension from the drop is ended; a pause the candidate chose stays as it is
+    const session = await this.sessions.getSession(participant.sessionId);
+    if (session.state === SessionState.PAUSED && session.metadata.suspendedAt) {
+      await this.sessions.controlSession(participant.sessionId, {
+        action: SessionAction.ABANDON,
+        metadata: { reason: EXPIRED_REASON }
+      });
+    }
+  }
+}
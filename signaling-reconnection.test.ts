@@ -0,0 +1,378 @@
+/**
+ * Signaling Reconnection Tests
+ * Held slots, resume tokens, interview pause and resume, and ICE restarts
+ * after a dropped connection
+ */
+
+import { createServer, Server as HTTPServer } from 'http';
+import { AddressInfo } from 'net';
+import { SignalingServer } from '../services/signaling-server';
+import { InterviewSessionSignalingLifecycle } from '../services/signaling-lifecycle';
+import { PeerConnectionManager } from '../services/peer-connection-manager';
+import {
+  InMemorySignalingSessionStore,
+  InMemorySignalingBroker,
+  InMemorySignalingMessageBus
+} from '../services/signaling-state-adapters';
+import { TestSignalingClient } from './mocks/signaling.client';
+import { SessionAction, SessionState } from '../types/interview-config';
+import { SignalingState } from '../types/signaling-state';
+import {
+  PeerConnection,
+  SignalingErrorCode,
+  SignalingServerConfig,
+  SignalingSessionLifecycle,
+  SignalingTokenVerifier,
+  SignalingSessionAuthorizer
+} from '../types/webrtc';
+
+jest.mock('../database/connection', () => ({ db: {} }));
+
+const config: SignalingServerConfig = {
+  port: 0,
+  corsOrigins: ['*'],
+  stunTurnConfig: { iceServers: [] },
+  maxSessionDuration: 3600000,
+  heartbeatInterval: 60000,
+  connectionTimeout: 120000,
+  reconnectGracePeriod: 300
+};
+
+const tokenVerifier: SignalingTokenVerifier = {
+  verifyAccessToken: token => ({ userId: token, email: `${token}@example.com` })
+};
+const authorizer: SignalingSessionAuthorizer = {
+  authorize: async userId => userId.startsWith('interviewer') ? 'interviewer' : 'interviewee'
+};
+
+const interviewState = { state: SessionState.IN_PROGRESS, currentQuestionIndex: 2 };
+
+const createLifecycle = () => ({
+  participantDisconnected: jest.fn(async (_participant: PeerConnection) => undefined),
+  participantResumed: jest.fn(async (_participant: PeerConnection) => interviewState),
+  participantExpired: jest.fn(async (_participant: PeerConnection) => undefined)
+});
+
+const join = { sessionId: 'session-1', mediaConstraints: { audio: true, video: true } };
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('SignalingServer reconnection', () => {
+  let nodes: Array<{ httpServer: HTTPServer; signaling: SignalingServer; url: string }>;
+  let clients: TestSignalingClient[];
+  let lifecycle: ReturnType<typeof createLifecycle>;
+  let state: () => SignalingState;
+
+  const startNode = async (nodeId: string) => {
+    const httpServer = createServer();
+    const signaling = new SignalingServer(httpServer, config, { ...state(), nodeId, tokenVerifier, authorizer, lifecycle });
+    await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve));
+    await signaling.whenReady();
+    const node = { httpServer, signaling, url: `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}` };
+    nodes.push(node);
+    return node;
+  };
+
+  const connect = async (url: string, userId: string) => {
+    const client = await TestSignalingClient.connect(url, userId);
+    clients.push(client);
+    return client;
+  };
+
+  const joinAs = async (url: string, userId: string) => {
+    const client = await connect(url, userId);
+    await client.emit('join_session', join);
+    const { resumeToken } = await client.waitFor('session_joined');
+    return { client, resumeToken };
+  };
+
+  beforeEach(() => {
+    const store = new InMemorySignalingSessionStore();
+    const broker = new InMemorySignalingBroker();
+    state = () => ({ store, bus: new InMemorySignalingMessageBus(broker) });
+    lifecycle = createLifecycle();
+    nodes = [];
+    clients = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.map(client => client.close()));
+    for (const node of nodes) {
+      await node.signaling.shutdown();
+      await new Promise(resolve => node.httpServer.close(resolve));
+    }
+  });
+
+  it('should hold a dropped participant\'s slot and let them resume with the token', async () => {
+    const node = await startNode('node-1');
+    const interviewer = await joinAs(node.url, 'interviewer-1');
+    const candidate = await joinAs(node.url, 'candidate-1');
+    expect(candidate.resumeToken).toMatch(/^[0-9a-f]{64}$/);
+
+    await candidate.client.close();
+
+    expect(await interviewer.client.waitFor('user_disconnected')).toEqual({ userId: 'candidate-1', reconnectGracePeriod: 300 });
+    const held = await node.signaling.getSessionInfo('session-1');
+    expect(held!.participants.get('candidate-1')!.connectionState).toBe('disconnected');
+    expect(lifecycle.participantDisconnected).toHaveBeenCalledWith(expect.objectContaining({ userId: 'candidate-1', role: 'interviewee' }));
+
+    // A plain join cannot take the held slot
+    const reconnected = await connect(node.url, 'candidate-1');
+    await reconnected.emit('join_session', join);
+    expect(await reconnected.waitFor('error')).toMatchObject({
+      code: SignalingErrorCode.USER_ALREADY_IN_SESSION,
+      details: { sessionId: 'session-1' }
+    });
+
+    await reconnected.emit('resume_session', { sessionId: 'session-1', resumeToken: candidate.resumeToken });
+    const resumed = await reconnected.waitFor('session_resumed');
+    expect(resumed.interview).toEqual(interviewState);
+    expect(resumed.participants).toHaveLength(2);
+    expect(resumed.resumeToken).not.toBe(candidate.resumeToken);
+    expect(lifecycle.participantResumed).toHaveBeenCalledWith(expect.objectContaining({ userId: 'candidate-1' }));
+
+    const reconnect = await interviewer.client.waitFor('user_reconnected');
+    expect(reconnect).toMatchObject({ user: { userId: 'candidate-1', connectionState: 'new' }, iceRestart: true, interview: interviewState });
+
+    await interviewer.client.emit('offer', { targetUserId: 'candidate-1', offer: { type: 'offer', sdp: 'ice-restart' } });
+    expect((await reconnected.waitFor('offer')).offer.sdp).toBe('ice-restart');
+
+    // The grace period timer no longer releases the slot
+    await delay(400);
+    expect((await node.signaling.getSessionInfo('session-1'))!.participants.has('candidate-1')).toBe(true);
+  });
+
+  it('should reject wrong tokens and release the slot after the grace period', async () => {
+    const node = await startNode('node-1');
+    const interviewer = await joinAs(node.url, 'interviewer-1');
+    const candidate = await joinAs(node.url, 'candidate-1');
+    await candidate.client.close();
+    await interviewer.client.waitFor('user_disconnected');
+
+    const reconnected = await connect(node.url, 'candidate-1');
+    await reconnected.emit('resume_session', { sessionId: 'session-1', resumeToken: 'f'.repeat(64) });
+    expect((await reconnected.waitFor('error')).code).toBe(SignalingErrorCode.RESUMPTION_FAILED);
+
+    expect(await interviewer.client.waitFor('user_left')).toEqual({ userId: 'candidate-1', sessionStatus: 'waiting' });
+    expect((await node.signaling.getSessionInfo('session-1'))!.participants.has('candidate-1')).toBe(false);
+    await delay(50);
+    expect(lifecycle.participantExpired).toHaveBeenCalledWith(expect.objectContaining({ userId: 'candidate-1', role: 'interviewee' }));
+
+    await reconnected.emit('resume_session', { sessionId: 'session-1', resumeToken: candidate.resumeToken });
+    expect((await reconnected.waitFor('error')).code).toBe(SignalingErrorCode.RESUMPTION_FAILED);
+  });
+
+  it('should resume a suspended interview when the candidate joins again', async () => {
+    const node = await startNode('node-1');
+    const candidate = await connect(node.url, 'candidate-1');
+    await candidate.emit('join_session', join);
+
+    expect((await candidate.waitFor('session_joined')).interview).toEqual(interviewState);
+    expect(lifecycle.participantResumed).toHaveBeenCalledWith(expect.objectContaining({ userId: 'candidate-1', role: 'interviewee' }));
+  });
+
+  it('should take the slot over from a socket that has not noticed the drop', async () => {
+    const node = await startNode('node-1');
+    const interviewer = await joinAs(node.url, 'interviewer-1');
+    const stale = await joinAs(node.url, 'candidate-1');
+
+    const fresh = await connect(node.url, 'candidate-1');
+    await fresh.emit('resume_session', { sessionId: 'session-1', resumeToken: stale.resumeToken });
+
+    expect(await stale.client.waitFor('session_superseded')).toEqual({ sessionId: 'session-1' });
+    await fresh.waitFor('session_resumed');
+    await interviewer.client.waitFor('user_reconnected');
+
+    // The superseded socket closing does not hold the slot again
+    await expect(interviewer.client.waitFor('user_disconnected', () => true, 200)).rejects.toThrow('Timed out');
+    expect(lifecycle.participantDisconnected).not.toHaveBeenCalled();
+  });
+
+  it('should resume on another node', async () => {
+    const first = await startNode('node-1');
+    const second = await startNode('node-2');
+    const interviewer = await joinAs(second.url, 'interviewer-1');
+    const candidate = await joinAs(first.url, 'candidate-1');
+    await candidate.client.close();
+    await interviewer.client.waitFor('user_disconnected');
+
+    const reconnected = await connect(second.url, 'candidate-1');
+    await reconnected.emit('resume_session', { sessionId: 'session-1', resumeToken: candidate.resumeToken });
+    await reconnected.waitFor('session_resumed');
+    await interviewer.client.waitFor('user_reconnected');
+
+    // The first node's grace period passes without releasing the resumed slot
+    await delay(400);
+    expect((await second.signaling.getSessionInfo('session-1'))!.participants.has('candidate-1')).toBe(true);
+  });
+});
+
+describe('InterviewSessionSignalingLifecycle', () => {
+  const participant = (role: 'interviewer' | 'interviewee'): PeerConnection => ({
+    id: 'socket-1',
+    userId: 'user-1',
+    sessionId: 'session-1',
+    role,
+    connectionState: 'disconnected',
+    mediaState: { audio: true, video: true },
+    connectedAt: new Date(),
+    lastActivity: new Date()
+  });
+
+  const session = {
+    state: SessionState.IN_PROGRESS,
+    currentQuestionIndex: 1,
+    questions: [{ id: 'q1' }, { id: 'q2' }]
+  } as any;
+
+  const suspended = { ...session, state: SessionState.PAUSED, metadata: { suspendedAt: new Date().toISOString() } };
+
+  const createSessions = () => ({
+    getSession: jest.fn().mockResolvedValue(session),
+    suspendSession: jest.fn().mockResolvedValue(suspended),
+    resumeSuspendedSession: jest.fn().mockResolvedValue(session),
+    controlSession: jest.fn().mockResolvedValue({ ...session, state: SessionState.ABANDONED })
+  });
+
+  it('should pause the interview only when the candidate drops', async () => {
+    const sessions = createSessions();
+    const hooks: SignalingSessionLifecycle = new InterviewSessionSignalingLifecycle(sessions);
+
+    await hooks.participantDisconnected(participant('interviewer'));
+    expect(sessions.suspendSession).not.toHaveBeenCalled();
+
+    await hooks.participantDisconnected(participant('interviewee'));
+    expect(sessions.suspendSession).toHaveBeenCalledWith('session-1', 'connection_lost');
+  });
+
+  it('should resume the candidate at the current question', async () => {
+    const sessions = createSessions();
+    const hooks = new InterviewSessionSignalingLifecycle(sessions);
+
+    expect(await hooks.participantResumed(participant('interviewee'))).toEqual({
+      state: SessionState.IN_PROGRESS,
+      currentQuestionIndex: 1,
+      currentQuestion: { id: 'q2' }
+    });
+    expect(sessions.resumeSuspendedSession).toHaveBeenCalledWith('session-1');
+
+    await hooks.participantResumed(participant('interviewer'));
+    expect(sessions.getSession).toHaveBeenCalledWith('session-1');
+    expect(sessions.resumeSuspendedSession).toHaveBeenCalledTimes(1);
+  });
+
+  it('should abandon the interview suspended for a candidate who did not come back', async () => {
+    const sessions = createSessions();
+    const hooks = new InterviewSessionSignalingLifecycle(sessions);
+
+    await hooks.participantExpired(participant('interviewee'));
+    expect(sessions.controlSession).not.toHaveBeenCalled();
+
+    sessions.getSession.mockResolvedValue(suspended);
+    await hooks.participantExpired(participant('interviewer'));
+    expect(sessions.controlSession).not.toHaveBeenCalled();
+
+    await hooks.participantExpired(participant('interviewee'));
+    expect(sessions.controlSession).toHaveBeenCalledWith('session-1', {
+      action: SessionAction.ABANDON,
+      metadata: { reason: 'reconnect_timeout' }
+    });
+  });
+});
+
+describe('PeerConnectionManager ICE restart', () => {
+  class FakeRTCPeerConnection {
+    static instances: FakeRTCPeerConnection[] = [];
+    iceConnectionState = 'new';
+    connectionState = 'new';
+    oniceconnectionstatechange?: () => void;
+    createOffer = jest.fn(async (options?: { iceRestart?: boolean }) => ({
+      type: 'offer',
+      sdp: options?.iceRestart ? 'restart' : 'initial'
+    }));
+    setLocalDescription = jest.fn(async () => undefined);
+    close = jest.fn();
+
+    constructor() {
+      FakeRTCPeerConnection.instances.push(this);
+    }
+
+    changeIceState(state: string): void {
+      this.iceConnectionState = state;
+      this.oniceconnectionstatechange?.();
+    }
+  }
+
+  const createManager = () => new PeerConnectionManager({
+    stunTurnConfig: { iceServers: [] },
+    connectionTimeout: 30000,
+    reconnectAttempts: 2,
+    reconnectDelay: 1000
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    FakeRTCPeerConnection.instances = [];
+    (global as any).RTCPeerConnection = FakeRTCPeerConnection;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    delete (global as any).RTCPeerConnection;
+  });
+
+  it('should restart ICE after a failure with a growing delay until attempts run out', async () => {
+    const manager = createManager();
+    const restarts: any[] = [];
+    const exhausted = jest.fn();
+    manager.on('iceRestart', event => restarts.push(event));
+    manager.on('reconnectFailed', exhausted);
+
+    await manager.createPeerConnection('peer-1', true);
+    const [connection] = FakeRTCPeerConnection.instances;
+
+    connection.changeIceState('failed');
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(restarts).toEqual([{ connectionId: 'peer-1', offer: { type: 'offer', sdp: 'restart' } }]);
+    expect(connection.createOffer).toHaveBeenCalledWith({ iceRestart: true });
+
+    connection.changeIceState('failed');
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(restarts).toHaveLength(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(restarts).toHaveLength(2);
+
+    connection.changeIceState('failed');
+    expect(exhausted).toHaveBeenCalledWith({ connectionId: 'peer-1' });
+  });
+
+  it('should reset attempts once the connection recovers', async () => {
+    const manager = createManager();
+    const recovered = jest.fn();
+    manager.on('connectionRecovered', recovered);
+
+    await manager.createPeerConnection('peer-1', true);
+    const [connection] = FakeRTCPeerConnection.instances;
+
+    connection.changeIceState('failed');
+    await jest.advanceTimersByTimeAsync(1000);
+    connection.changeIceState('connected');
+    expect(recovered).toHaveBeenCalledWith({ connectionId: 'peer-1', attempts: 1 });
+
+    connection.changeIceState('failed');
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(connection.createOffer).toHaveBeenCalledTimes(2);
+  });
+
+  it('should leave restarts to the initiating peer', async () => {
+    const manager = createManager();
+    const failed = jest.fn();
+    manager.on('connectionFailed', failed);
+
+    await manager.createPeerConnection('peer-1', false);
+    FakeRTCPeerConnection.instances[0].changeIceState('failed');
+    await jest.advanceTimersByTimeAsync(5000);
+
+    expect(failed).toHaveBeenCalledWith({ connectionId: 'peer-1' });
+    expect(FakeRTCPeerConnection.instances[0].createOffer).not.toHaveBeenCalled();
+  });
+});
@@ -1,11 +1,22 @@
 /**
  * WebRTC Signaling Server
- * Handles WebSocket-based signaling for peer-to-peer connections
+ * Handles WebSocket-based signaling for peer-to-peer connections. Session
+ * state lives in a shared store and messages for peers on other nodes travel
+ * over a message bus, so several nodes can serve one session. Sockets
+ * authenticate with an access token and every message is bound to that user.
+ * A dropped participant's slot is held for a grace period, during which a
+ * new socket can reclaim it with the resume token issued on join
  */
 
 import { Server as SocketIOServer, Socket } from 'socket.io';
 import { Server as HTTPServer } from 'http';
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
 import { logger } from '../utils/logger';
+import { InMemorySignalingSessionStore, InMemorySignalingMessageBus } from './signaling-state-adapters';
+import { InterviewSessionSignalingAuthorizer } from './signaling-auth';
+import { InterviewSessionSignalingLifecycle } from './signaling-lifecycle';
+import { JWTTokenService } from './token';
 import {
   SignalingMessage,
   SignalingMessageType,
@@ -17,17 +28,55 @@ import {
   SignalingServerConfig,
   SignalingError,
   SignalingErrorCode,
-  STUNTURNConfig
+  STUNTURNConfig,
+  SignalingIdentity,
+  SignalingTokenVerifier,
+  SignalingSessionAuthorizer,
+  SignalingSessionLifecycle,
+  SignalingServerOptions,
+  ResumeSessionData
 } from '../types/webrtc';
+import {
+  SignalingSessionStore,
+  SignalingMessageBus,
+  SignalingBusMessage,
+  SignalingNodeOptions,
+  ParticipantPresence
+} from '../types/signaling-state';
+
+const ROOMS_CHANNEL = 'rooms';
+const NODE_TTL_HEARTBEATS = 3; // A node missing this many heartbeats is considered gone
+const DEFAULT_RECONNECT_GRACE_PERIOD = 30000;
+const SESSION_SUPERSEDED_EVENT = 'session_superseded';
 
 export class SignalingServer {
   private io: SocketIOServer;
-  private sessions: Map<string, InterviewSession> = new Map();
-  private userSockets: Map<string, Socket> = new Map();
+  private userSockets: Map<string, Socket> = new Map(); // Sockets connected to this node
+  private localParticipants: Map<string, PeerConnection> = new Map();
   private config: SignalingServerConfig;
-
-  constructor(httpServer: HTTPServer, config: SignalingServerConfig) {
+  private nodeId: string;
+  private store: SignalingSessionStore;
+  private bus: SignalingMessageBus;
+  private tokenVerifier: SignalingTokenVerifier;
+  private authorizer: SignalingSessionAuthorizer;
+  private lifecycle: SignalingSessionLifecycle;
+  private graceTimers: Map<string, NodeJS.Timeout> = new Map();
+  private ready: Promise<void>;
+  private heartbeat?: NodeJS.Timeout;
+  private shuttingDown: boolean = false;
+
+  constructor(
+    httpServer: HTTPServer,
+    config: SignalingServerConfig,
+    options: SignalingNodeOptions & SignalingServerOptions = {}
+  ) {
     this.config = config;
+    this.nodeId = options.nodeId || uuidv4();
+    this.store = options.store || new InMemorySignalingSessionStore();
+    this.bus = options.bus || new InMemorySignalingMessageBus();
+    this.tokenVerifier = options.tokenVerifier || new JWTTokenService();
+    this.authorizer = options.authorizer || new InterviewSessionSignalingAuthorizer();
+    this.lifecycle = options.lifecycle || new InterviewSessionSignalingLifecycle();
     this.io = new SocketIOServer(httpServer, {
       cors: {
         origin: config.corsOrigins,
@@ -37,24 +86,48 @@ export class SignalingServer {
     });
 
     this.setupEventHandlers();
+    this.ready = this.joinCluster();
     this.startHeartbeat();
     
     logger.info('WebRTC Signaling Server initialized', {
+      nodeId: this.nodeId,
       corsOrigins: config.corsOrigins,
       heartbeatInterval: config.heartbeatInterval
     });
   }
 
+  /**
+   * Resolves once the node is registered and listening on the message bus
+   */
+  public whenReady(): Promise<void> {
+    return this.ready;
+  }
+
+  private async joinCluster(): Promise<void> {
+    await this.store.markNodeAlive(this.nodeId, this.nodeTtl());
+    await this.bus.subscribe(ROOMS_CHANNEL, message => this.deliver(message));
+    await this.bus.subscribe(this.nodeChannel(this.nodeId), message => this.deliver(message));
+  }
+
   private setupEventHandlers(): void {
+    this.io.use((socket, next) => this.authenticate(socket, next));
+
     this.io.on('connection', (socket: Socket) => {
-      logger.info('Client connected', { socketId: socket.id });
+      logger.info('Client connected', { socketId: socket.id, userId: this.getIdentity(socket).userId });
 
       socket.on('join_session', (data: JoinSessionData) => {
         this.handleJoinSession(socket, data);
       });
 
-      socket.on('leave_session', (data: { sessionId: string; userId: string }) => {
-        this.handleLeaveSession(socket, data);
+      socket.on('resume_session', (data: ResumeSessionData) => {
+        this.handleResumeSession(socket, data);
+      });
+
+      socket.on('leave_session', (data: { sessionId?: string; userId?: string }) => {
+        const participant = this.authorizeMessage(socket, data);
+        if (participant) {
+          this.handleLeaveSession(socket, { sessionId: participant.sessionId, userId: participant.userId });
+        }
       });
 
       socket.on('offer', (data: any) => {
@@ -83,38 +156,114 @@ export class SignalingServer {
     });
   }
 
-  private handleJoinSession(socket: Socket, data: JoinSessionData): void {
+  /**
+   * Verify the handshake token. Accepted from the auth payload or a bearer
+   * Authorization header
+   */
+  private authenticate(socket: Socket, next: (error?: Error) => void): void {
+    const header = socket.handshake.headers.authorization;
+    const token = socket.handshake.auth?.token || (header?.startsWith('Bearer ') ? header.slice(7) : undefined);
+
+    if (!token) {
+      next(this.createAuthError('Authentication token required'));
+      return;
+    }
+
     try {
-      logger.info('User joining session', {
-        sessionId: data.sessionId,
+      const { userId, email } = this.tokenVerifier.verifyAccessToken(token);
+      socket.data.identity = { userId, email } as SignalingIdentity;
+      next();
+    } catch (error) {
+      logger.warn('Rejected signaling connection', { socketId: socket.id, error: error instanceof Error ? error.message : error });
+      next(this.createAuthError('Invalid or expired token'));
+    }
+  }
+
+  private createAuthError(message: string): Error {
+    const error = new Error(message) as Error & { data: SignalingError };
+    error.data = { code: SignalingErrorCode.AUTHENTICATION_FAILED, message };
+    return error;
+  }
+
+  private getIdentity(socket: Socket): SignalingIdentity {
+    return socket.data.identity;
+  }
+
+  /**
+   * Resolve the sender of a message to its joined participant, rejecting
+   * messages that claim another user or session
+   */
+  private authorizeMessage(socket: Socket, data: { sessionId?: string; userId?: string }): PeerConnection | null {
+    const { userId } = this.getIdentity(socket);
+    const participant = this.localParticipants.get(userId);
+
+    if (!participant || this.userSockets.get(userId)?.id !== socket.id) {
+      this.sendError(socket, SignalingErrorCode.SESSION_ACCESS_DENIED, 'Not joined to a session');
+      return null;
+    }
+    if ((data?.userId && data.userId !== userId) || (data?.sessionId && data.sessionId !== participant.sessionId)) {
+      this.sendError(socket, SignalingErrorCode.IDENTITY_MISMATCH, 'Message does not match the authenticated user', {
         userId: data.userId,
-        role: data.userRole
+        sessionId: data.sessionId
+      });
+      return null;
+    }
+
+    return participant;
+  }
+
+  private async handleJoinSession(socket: Socket, data: JoinSessionData): Promise<void> {
+    try {
+      const { userId } = this.getIdentity(socket);
+
+      logger.info('User joining session', {
+        sessionId: data?.sessionId,
+        userId
       });
 
       // Validate input
-      if (!data.sessionId || !data.userId || !data.userRole) {
+      if (!data?.sessionId || !data.mediaConstraints) {
         this.sendError(socket, SignalingErrorCode.INVALID_MESSAGE_FORMAT, 'Missing required fields');
         return;
       }
+      if (data.userId && data.userId !== userId) {
+        this.sendError(socket, SignalingErrorCode.IDENTITY_MISMATCH, 'User does not match the authenticated user');
+        return;
+      }
 
-      // Check if user is already in a session
-      if (this.userSockets.has(data.userId)) {
-        this.sendError(socket, SignalingErrorCode.USER_ALREADY_IN_SESSION, 'User already connected');
+      // Check membership and role against the owning interview session
+      const role = await this.authorizer.authorize(userId, data.sessionId);
+      if (!role) {
+        this.sendError(socket, SignalingErrorCode.SESSION_ACCESS_DENIED, 'Not a participant of this session');
+        return;
+      }
+      if (data.userRole && data.userRole !== role) {
+        this.sendError(socket, SignalingErrorCode.SESSION_ACCESS_DENIED, 'Role not permitted in this session', { role });
+        return;
+      }
+
+      // Check if user is already connected to this or another node
+      const presence = await this.store.getPresence(userId);
+      if (presence && await this.isPresenceLive(presence)) {
+        // The holder of the resume token can take the slot over with resume_session
+        this.sendError(socket, SignalingErrorCode.USER_ALREADY_IN_SESSION, 'User already connected', {
+          sessionId: presence.sessionId
+        });
         return;
       }
 
       // Get or create session
-      let session = this.sessions.get(data.sessionId);
+      let session = await this.store.getSession(data.sessionId);
       if (!session) {
-        session = this.createSession(data.sessionId);
+        session = await this.store.createSession(this.createSession(data.sessionId));
       }
 
       // Create peer connection
       const peerConnection: PeerConnection = {
         id: socket.id,
-        userId: data.userId,
+        userId,
         sessionId: data.sessionId,
-        role: data.userRole,
+        role,
         connectionState: 'new',
         mediaState: {
           audio: data.mediaConstraints.audio,
@@ -126,33 +275,54 @@ export class SignalingServer {
       };
 
       // Add to session
-      session.participants.set(data.userId, peerConnection);
-      this.userSockets.set(data.userId, socket);
+      const resumeToken = crypto.randomBytes(32).toString('hex');
+      session.participants.set(userId, peerConnection);
+      await this.store.saveParticipant(data.sessionId, peerConnection);
+      await this.store.setPresence({
+        userId,
+        sessionId: data.sessionId,
+        nodeId: this.nodeId,
+        socketId: socket.id,
+        updatedAt: new Date(),
+        resumeTokenHash: this.hashResumeToken(resumeToken)
+      });
+      this.userSockets.set(userId, socket);
+      this.localParticipants.set(userId, peerConnection);
 
       // Join socket room
       socket.join(data.sessionId);
 
       // Update session status
-      if (session.participants.size >= 2) {
+      if (session.participants.size >= 2 && session.status !== SessionStatus.ACTIVE) {
         session.status = SessionStatus.ACTIVE;
+        await this.store.setSessionStatus(data.sessionId, session.status);
       }
 
+      // A candidate whose held slot was lost still has their interview suspended
+      const interview = await this.lifecycle.participantResumed(peerConnection).catch(error => {
+        logger.error('Failed to resume interview for participant', { sessionId: data.sessionId, userId, error });
+        return null;
+      });
+
       // Notify user of successful join
       socket.emit('session_joined', {
         sessionId: data.sessionId,
         participants: Array.from(session.participants.values()),
-        stunTurnConfig: this.config.stunTurnConfig
+        stunTurnConfig: this.config.stunTurnConfig,
+        resumeToken,
+        reconnectGracePeriod: this.gracePeriod(),
+        interview
       });
 
       // Notify other participants
-      socket.to(data.sessionId).emit('user_joined', {
+      await this.emitToRoom(data.sessionId, 'user_joined', {
         user: peerConnection,
         sessionStatus: session.status
-      });
+      }, socket.id);
 
       logger.info('User successfully joined session', {
         sessionId: data.sessionId,
-        userId: data.userId,
+        userId,
         participantCount: session.participants.size
       });
 
@@ -162,39 +332,30 @@ export class SignalingServer {
     }
   }
 
-  private handleLeaveSession(socket: Socket, data: { sessionId: string; userId: string }): void {
+  private async handleLeaveSession(socket: Socket, data: { sessionId: string; userId: string }): Promise<void> {
     try {
       logger.info('User leaving session', data);
 
-      const session = this.sessions.get(data.sessionId);
+      const session = await this.store.getSession(data.sessionId);
       if (!session) {
         this.sendError(socket, SignalingErrorCode.SESSION_NOT_FOUND, 'Session not found');
         return;
       }
 
-      // Remove participant
-      session.participants.delete(data.userId);
-      this.userSockets.delete(data.userId);
+      await this.store.removePresence(data.userId, socket.id);
+      if (this.userSockets.get(data.userId)?.id === socket.id) {
+        this.userSockets.delete(data.userId);
+        this.localParticipants.delete(data.userId);
+      }
 
       // Leave socket room
       socket.leave(data.sessionId);
 
-      // Update session status
-      if (session.participants.size === 0) {
-        session.status = SessionStatus.ENDED;
-        this.sessions.delete(data.sessionId);
-      } else if (session.participants.size === 1) {
-        session.status = SessionStatus.WAITING;
-      }
-
       // Notify user
       socket.emit('session_left', { sessionId: data.sessionId });
 
-      // Notify other participants
-      socket.to(data.sessionId).emit('user_left', {
-        userId: data.userId,
-        sessionStatus: session.status
-      });
+      // Remove participant and notify the others
+      await this.removeFromSession(session, data.userId, socket.id);
 
       logger.info('User successfully left session', {
         sessionId: data.sessionId,
@@ -207,125 +368,312 @@ export class SignalingServer {
     }
   }
 
-  private handleOffer(socket: Socket, data: any): void {
+  /**
+   * Reclaim a held slot, or take it over from a socket that has not noticed
+   * the connection drop yet. Peers are asked to restart ICE
+   */
+  private async handleResumeSession(socket: Socket, data: ResumeSessionData): Promise<void> {
     try {
-      logger.debug('Handling WebRTC offer', { from: data.userId, to: data.targetUserId });
+      const { userId } = this.getIdentity(socket);
 
-      const targetSocket = this.userSockets.get(data.targetUserId);
-      if (!targetSocket) {
-        this.sendError(socket, SignalingErrorCode.SESSION_NOT_FOUND, 'Target user not found');
+      logger.info('User resuming session', { sessionId: data?.sessionId, userId });
+
+      if (!data?.sessionId || !data.resumeToken) {
+        this.sendError(socket, SignalingErrorCode.INVALID_MESSAGE_FORMAT, 'Missing required fields');
         return;
       }
 
-      // Forward offer to target user
-      targetSocket.emit('offer', {
-        from: data.userId,
+      const presence = await this.store.getPresence(userId);
+      if (!presence || presence.sessionId !== data.sessionId || !this.matchesResumeToken(presence, data.resumeToken)) {
+        this.sendError(socket, SignalingErrorCode.RESUMPTION_FAILED, 'Invalid resume token');
+        return;
+      }
+      if (presence.disconnectedAt && !(await this.isPresenceLive(presence))) {
+        this.sendError(socket, SignalingErrorCode.RESUMPTION_FAILED, 'Reconnect grace period expired');
+        return;
+      }
+
+      const session = await this.store.getSession(data.sessionId);
+      const participant = session?.participants.get(userId);
+      if (!session || !participant) {
+        this.sendError(socket, SignalingErrorCode.RESUMPTION_FAILED, 'Participant slot no longer held');
+        return;
+      }
+
+      // Move the slot to this socket, with a fresh token
+      this.clearGraceTimer(userId);
+      const previousSocket = this.userSockets.get(userId);
+      const resumeToken = crypto.randomBytes(32).toString('hex');
+
+      participant.id = socket.id;
+      participant.connectionState = 'new';
+      participant.lastActivity = new Date();
+      await this.store.saveParticipant(data.sessionId, participant);
+      await this.store.setPresence({
+        userId,
         sessionId: data.sessionId,
-        offer: data.offer
+        nodeId: this.nodeId,
+        socketId: socket.id,
+        updatedAt: new Date(),
+        resumeTokenHash: this.hashResumeToken(resumeToken)
       });
+      this.userSockets.set(userId, socket);
+      this.localParticipants.set(userId, participant);
+      socket.join(data.sessionId);
+
+      // Drop the previous socket if it is still connected
+      if (previousSocket && previousSocket.id !== socket.id) {
+        previousSocket.emit(SESSION_SUPERSEDED_EVENT, { sessionId: data.sessionId });
+        previousSocket.disconnect(true);
+      } else if (!presence.disconnectedAt && presence.nodeId !== this.nodeId) {
+        await this.bus.publish(this.nodeChannel(presence.nodeId), {
+          originNodeId: this.nodeId,
+          target: { userId },
+          event: SESSION_SUPERSEDED_EVENT,
+          payload: { sessionId: data.sessionId }
+        });
+      }
+
+      // Pick the interview up where it stopped
+      const interview = await this.lifecycle.participantResumed(participant).catch(error => {
+        logger.error('Failed to resume interview for participant', { sessionId: data.sessionId, userId, error });
+        return null;
+      });
+
+      socket.emit('session_resumed', {
+        sessionId: data.sessionId,
+        participants: Array.from(session.participants.values()),
+        stunTurnConfig: this.config.stunTurnConfig,
+        resumeToken,
+        reconnectGracePeriod: this.gracePeriod(),
+        interview
+      });
+
+      // Peers restart ICE towards the new connection
+      await this.emitToRoom(data.sessionId, 'user_reconnected', {
+        user: participant,
+        iceRestart: true,
+        interview
+      }, socket.id);
 
-      this.updateLastActivity(data.userId);
+      logger.info('User successfully resumed session', { sessionId: data.sessionId, userId });
 
     } catch (error) {
-      logger.error('Error handling offer', { error, data });
+      logger.error('Error handling resume session', { error, data });
+      this.sendError(socket, SignalingErrorCode.RESUMPTION_FAILED, 'Failed to resume session');
     }
   }
 
-  private handleAnswer(socket: Socket, data: any): void {
+  private async handleOffer(socket: Socket, data: any): Promise<void> {
     try {
-      logger.debug('Handling WebRTC answer', { from: data.userId, to: data.targetUserId });
+      const sender = this.authorizeMessage(socket, data);
+      if (!sender) {
+        return;
+      }
+
+      logger.debug('Handling WebRTC offer', { from: sender.userId, to: data.targetUserId });
 
-      const targetSocket = this.userSockets.get(data.targetUserId);
-      if (!targetSocket) {
+      // Forward offer to target user
+      const delivered = await this.emitToUser(data.targetUserId, sender.sessionId, 'offer', {
+        from: sender.userId,
+        sessionId: sender.sessionId,
+        offer: data.offer
+      });
+      if (!delivered) {
         this.sendError(socket, SignalingErrorCode.SESSION_NOT_FOUND, 'Target user not found');
         return;
       }
 
+      this.updateLastActivity(sender.userId);
+
+    } catch (error) {
+      logger.error('Error handling offer', { error, data });
+    }
+  }
+
+  private async handleAnswer(socket: Socket, data: any): Promise<void> {
+    try {
+      const sender = this.authorizeMessage(socket, data);
+      if (!sender) {
+        return;
+      }
+
+      logger.debug('Handling WebRTC answer', { from: sender.userId, to: data.targetUserId });
+
       // Forward answer to target user
-      targetSocket.emit('answer', {
-        from: data.userId,
-        sessionId: data.sessionId,
+      const delivered = await this.emitToUser(data.targetUserId, sender.sessionId, 'answer', {
+        from: sender.userId,
+        sessionId: sender.sessionId,
         answer: data.answer
       });
+      if (!delivered) {
+        this.sendError(socket, SignalingErrorCode.SESSION_NOT_FOUND, 'Target user not found');
+        return;
+      }
 
-      this.updateLastActivity(data.userId);
+      this.updateLastActivity(sender.userId);
 
     } catch (error) {
       logger.error('Error handling answer', { error, data });
     }
   }
 
-  private handleIceCandidate(socket: Socket, data: any): void {
+  private async handleIceCandidate(socket: Socket, data: any): Promise<void> {
     try {
-      logger.debug('Handling ICE candidate', { from: data.userId, to: data.targetUserId });
-
-      const targetSocket = this.userSockets.get(data.targetUserId);
-      if (!targetSocket) {
-        return; // ICE candidates can be sent before target connects
+      const sender = this.authorizeMessage(socket, data);
+      if (!sender) {
+        return;
       }
 
-      // Forward ICE candidate to target user
-      targetSocket.emit('ice_candidate', {
-        from: data.userId,
-        sessionId: data.sessionId,
+      logger.debug('Handling ICE candidate', { from: sender.userId, to: data.targetUserId });
+
+      // Forward ICE candidate to target user. Candidates can be sent before the target connects
+      await this.emitToUser(data.targetUserId, sender.sessionId, 'ice_candidate', {
+        from: sender.userId,
+        sessionId: sender.sessionId,
         candidate: data.candidate
       });
 
-      this.updateLastActivity(data.userId);
+      this.updateLastActivity(sender.userId);
 
     } catch (error) {
       logger.error('Error handling ICE candidate', { error, data });
     }
   }
 
-  private handleMediaStateChange(socket: Socket, data: any): void {
+  private async handleMediaStateChange(socket: Socket, data: any): Promise<void> {
     try {
-      logger.debug('Handling media state change', data);
-
-      const session = this.sessions.get(data.sessionId);
-      if (!session) {
-        this.sendError(socket, SignalingErrorCode.SESSION_NOT_FOUND, 'Session not found');
-        return;
-      }
-
-      const participant = session.participants.get(data.userId);
+      const participant = this.authorizeMessage(socket, data);
       if (!participant) {
         return;
       }
 
+      logger.debug('Handling media state change', { userId: participant.userId, mediaState: data.mediaState });
+
       // Update media state
       participant.mediaState = { ...participant.mediaState, ...data.mediaState };
       participant.lastActivity = new Date();
+      await this.store.saveParticipant(participant.sessionId, participant);
 
       // Notify other participants
-      socket.to(data.sessionId).emit('media_state_change', {
-        userId: data.userId,
+      await this.emitToRoom(participant.sessionId, 'media_state_change', {
+        userId: participant.userId,
         mediaState: participant.mediaState
-      });
+      }, socket.id);
 
     } catch (error) {
       logger.error('Error handling media state change', { error, data });
     }
   }
 
-  private handleDisconnect(socket: Socket): void {
+  private async handleDisconnect(socket: Socket): Promise<void> {
     logger.info('Client disconnected', { socketId: socket.id });
 
-    // Find and remove user from all sessions
-    for (const [userId, userSocket] of this.userSockets.entries()) {
-      if (userSocket.id === socket.id) {
-        // Find user's session
-        for (const [sessionId, session] of this.sessions.entries()) {
-          if (session.participants.has(userId)) {
-            this.handleLeaveSession(socket, { sessionId, userId });
-            break;
-          }
-        }
-        break;
+    // Sessions outlive a node shutting down, so its participants stay for other nodes to pick up
+    if (this.shuttingDown) {
+      return;
+    }
+
+    // Nothing to hold when the socket never joined or its slot was already resumed elsewhere
+    const { userId } = this.getIdentity(socket);
+    const participant = this.localParticipants.get(userId);
+    if (!participant || this.userSockets.get(userId)?.id !== socket.id) {
+      return;
+    }
+    this.userSockets.delete(userId);
+    this.localParticipants.delete(userId);
+
+    try {
+      const presence = await this.store.getPresence(userId);
+      if (presence && presence.socketId === socket.id) {
+        await this.holdSlot(participant, presence);
       }
+    } catch (error) {
+      logger.error('Error handling disconnect', { socketId: socket.id, userId, error });
     }
   }
 
+  /**
+   * Keep a dropped participant in the session for the grace period and pause
+   * the interview until they resume
+   */
+  private async holdSlot(participant: PeerConnection, presence: ParticipantPresence): Promise<void> {
+    const { userId, sessionId } = participant;
+    const gracePeriod = this.gracePeriod();
+
+    logger.info('Holding participant slot for reconnect', { sessionId, userId, gracePeriod });
+
+    participant.connectionState = 'disconnected';
+    await this.store.saveParticipant(sessionId, participant);
+    await this.store.setPresence({ ...presence, updatedAt: new Date(), disconnectedAt: new Date() });
+
+    this.clearGraceTimer(userId);
+    this.graceTimers.set(userId, setTimeout(() => {
+      this.graceTimers.delete(userId);
+      this.releaseSlot(sessionId, userId, presence.socketId).catch(error => {
+        logger.error('Failed to release participant slot', { sessionId, userId, error });
+      });
+    }, gracePeriod));
+
+    await this.emitToRoom(sessionId, 'user_disconnected', { userId, reconnectGracePeriod: gracePeriod });
+
+    await this.lifecycle.participantDisconnected(participant).catch(error => {
+      logger.error('Failed to pause interview for disconnected participant', { sessionId, userId, error });
+    });
+  }
+
+  /**
+   * Remove a participant whose grace period ran out without a resume, and
+   * end the interview that was paused for them
+   */
+  private async releaseSlot(sessionId: string, userId: string, socketId: string): Promise<void> {
+    const presence = await this.store.getPresence(userId);
+    if (!presence || presence.socketId !== socketId || !presence.disconnectedAt) {
+      return;
+    }
+
+    logger.info('Reconnect grace period expired', { sessionId, userId });
+
+    await this.store.removePresence(userId, socketId);
+    const session = await this.store.getSession(sessionId);
+    const participant = session?.participants.get(userId);
+    if (session) {
+      await this.removeFromSession(session, userId);
+    }
+    if (participant) {
+      await this.expireParticipant(participant);
+    }
+  }
+
+  private async expireParticipant(participant: PeerConnection): Promise<void> {
+    await this.lifecycle.participantExpired(participant).catch(error => {
+      logger.error('Failed to end interview for expired participant', {
+        sessionId: participant.sessionId,
+        userId: participant.userId,
+        error
+      });
+    });
+  }
+
+  private clearGraceTimer(userId: string): void {
+    const timer = this.graceTimers.get(userId);
+    if (timer) {
+      clearTimeout(timer);
+      this.graceTimers.delete(userId);
+    }
+  }
+
+  private async removeFromSession(session: InterviewSession, userId: string, exceptSocketId?: string): Promise<void> {
+    session.participants.delete(userId);
+    await this.store.removeParticipant(session.id, userId);
+    await this.updateStatusAfterLeave(session);
+
+    await this.emitToRoom(session.id, 'user_left', {
+      userId,
+      sessionStatus: session.status
+    }, exceptSocketId);
+  }
+
   private createSession(sessionId: string): InterviewSession {
     const session: InterviewSession = {
       id: sessionId,
@@ -336,22 +684,126 @@ export class SignalingServer {
       mediaStreams: new Map()
     };
 
-    this.sessions.set(sessionId, session);
     logger.info('Created new interview session', { sessionId });
     
     return session;
   }
 
-  private updateLastActivity(userId: string): void {
-    for (const session of this.sessions.values()) {
-      const participant = session.participants.get(userId);
-      if (participant) {
-        participant.lastActivity = new Date();
-        break;
+  private async updateStatusAfterLeave(session: InterviewSession): Promise<void> {
+    if (session.participants.size === 0) {
+      session.status = SessionStatus.ENDED;
+      await this.store.deleteSession(session.id);
+    } else if (session.participants.size === 1 && session.status !== SessionStatus.WAITING) {
+      session.status = SessionStatus.WAITING;
+      await this.store.setSessionStatus(session.id, session.status);
+    }
+  }
+
+  /**
+   * A presence is live while its socket is connected here, while the node
+   * holding it is alive, or while its slot is held for a reconnect
+   */
+  private async isPresenceLive(presence: ParticipantPresence): Promise<boolean> {
+    if (presence.disconnectedAt) {
+      return Date.now() - presence.disconnectedAt.getTime() <= this.gracePeriod();
+    }
+    if (presence.nodeId === this.nodeId) {
+      return this.userSockets.get(presence.userId)?.id === presence.socketId;
+    }
+    return this.store.isNodeAlive(presence.nodeId);
+  }
+
+  /**
+   * Send to a participant of the given session, wherever their socket is connected
+   */
+  private async emitToUser(userId: string, sessionId: string, event: string, payload: any): Promise<boolean> {
+    const socket = this.userSockets.get(userId);
+    if (socket) {
+      if (this.localParticipants.get(userId)?.sessionId !== sessionId) {
+        return false;
+      }
+      socket.emit(event, payload);
+      return true;
+    }
+
+    const presence = await this.store.getPresence(userId);
+    if (!presence || presence.nodeId === this.nodeId || presence.sessionId !== sessionId) {
+      return false;
+    }
+
+    await this.bus.publish(this.nodeChannel(presence.nodeId), {
+      originNodeId: this.nodeId,
+      target: { userId },
+      event,
+      payload
+    });
+    return true;
+  }
+
+  private async emitToRoom(room: string, event: string, payload: any, exceptSocketId?: string): Promise<void> {
+    this.emitToLocalRoom(room, event, payload, exceptSocketId);
+    await this.bus.publish(ROOMS_CHANNEL, {
+      originNodeId: this.nodeId,
+      target: { room, exceptSocketId },
+      event,
+      payload
+    });
+  }
+
+  private emitToLocalRoom(room: string, event: string, payload: any, exceptSocketId?: string): void {
+    const sockets = this.io.to(room);
+    (exceptSocketId ? sockets.except(exceptSocketId) : sockets).emit(event, payload);
+  }
+
+  /**
+   * Hand a message from another node to the sockets connected here
+   */
+  private deliver(message: SignalingBusMessage): void {
+    if (message.originNodeId === this.nodeId) {
+      return;
+    }
+
+    if ('room' in message.target) {
+      this.emitToLocalRoom(message.target.room, message.event, message.payload, message.target.exceptSocketId);
+    } else {
+      const socket = this.userSockets.get(message.target.userId);
+      socket?.emit(message.event, message.payload);
+      if (message.event === SESSION_SUPERSEDED_EVENT) {
+        socket?.disconnect(true);
       }
     }
   }
 
+  private nodeChannel(nodeId: string): string {
+    return `node:${nodeId}`;
+  }
+
+  private gracePeriod(): number {
+    return this.config.reconnectGracePeriod ?? DEFAULT_RECONNECT_GRACE_PERIOD;
+  }
+
+  private hashResumeToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private matchesResumeToken(presence: ParticipantPresence, token: string): boolean {
+    if (!presence.resumeTokenHash || typeof token !== 'string') {
+      return false;
+    }
+    return crypto.timingSafeEqual(Buffer.from(this.hashResumeToken(token)), Buffer.from(presence.resumeTokenHash));
+  }
+
+  private nodeTtl(): number {
+    return this.config.heartbeatInterval * NODE_TTL_HEARTBEATS;
+  }
+
+  private updateLastActivity(userId: string): void {
+    const participant = this.localParticipants.get(userId);
+    if (participant) {
+      participant.lastActivity = new Date();
+    }
+  }
+
   private sendError(socket: Socket, code: SignalingErrorCode, message: string, details?: any): void {
     const error: SignalingError = { code, message, details };
     socket.emit('error', error);
@@ -359,66 +811,121 @@ export class SignalingServer {
   }
 
   private startHeartbeat(): void {
-    setInterval(() => {
-      this.cleanupInactiveSessions();
+    this.heartbeat = setInterval(() => {
+      this.cleanupInactiveSessions().catch(error => {
+        logger.error('Signaling heartbeat failed', { nodeId: this.nodeId, error });
+      });
     }, this.config.heartbeatInterval);
   }
 
-  private cleanupInactiveSessions(): void {
+  private async cleanupInactiveSessions(): Promise<void> {
     const now = new Date();
     const timeout = this.config.connectionTimeout;
 
-    for (const [sessionId, session] of this.sessions.entries()) {
-      // Check for inactive participants
-      for (const [userId, participant] of session.participants.entries()) {
-        const inactiveTime = now.getTime() - participant.lastActivity.getTime();
-        
-        if (inactiveTime > timeout) {
-          logger.info('Removing inactive participant', {
-            sessionId,
-            userId,
-            inactiveTime
-          });
-
-          const socket = this.userSockets.get(userId);
-          if (socket) {
-            this.handleLeaveSession(socket, { sessionId, userId });
-          }
+    await this.store.markNodeAlive(this.nodeId, this.nodeTtl());
+
+    // Check this node's participants for inactivity, and record activity for the others
+    for (const [userId, participant] of Array.from(this.localParticipants.entries())) {
+      const inactiveTime = now.getTime() - participant.lastActivity.getTime();
+
+      if (inactiveTime > timeout) {
+        logger.info('Removing inactive participant', {
+          sessionId: participant.sessionId,
+          userId,
+          inactiveTime
+        });
+
+        const socket = this.userSockets.get(userId);
+        if (socket) {
+          await this.handleLeaveSession(socket, { sessionId: participant.sessionId, userId });
         }
+      } else {
+        await this.store.saveParticipant(participant.sessionId, participant);
       }
+    }
 
-      // Remove empty sessions
-      if (session.participants.size === 0) {
-        this.sessions.delete(sessionId);
+    // Remove participants left behind by nodes that stopped without cleaning up
+    for (const sessionId of await this.store.listSessionIds()) {
+      const session = await this.store.getSession(sessionId);
+      if (!session) {
+        continue;
+      }
+
+      for (const [userId, participant] of Array.from(session.participants.entries())) {
+        if (this.localParticipants.has(userId)) {
+          continue;
+        }
+
+        // Held slots expire with their grace period, the others after the connection timeout
+        const presence = await this.store.getPresence(userId);
+        const owned = presence && presence.sessionId === sessionId ? presence : null;
+        if (owned && await this.isPresenceLive(owned)) {
+          continue;
+        }
+        if (!owned?.disconnectedAt && now.getTime() - participant.lastActivity.getTime() <= timeout) {
+          continue;
+        }
+
+        logger.info('Removing orphaned participant', { sessionId, userId, nodeId: presence?.nodeId });
+        if (owned) {
+          await this.store.removePresence(userId, owned.socketId);
+        }
+        await this.removeFromSession(session, userId);
+        if (owned?.disconnectedAt) {
+          await this.expireParticipant(participant);
+        }
+      }
+
+      // Remove empty sessions not already ended by the removals above
+      if (session.participants.size === 0 && session.status !== SessionStatus.ENDED) {
+        await this.store.deleteSession(sessionId);
         logger.info('Removed empty session', { sessionId });
       }
     }
   }
 
   // Public methods for external access
-  public getSessionInfo(sessionId: string): InterviewSession | undefined {
-    return this.sessions.get(sessionId);
+  public getSessionInfo(sessionId: string): Promise<InterviewSession | null> {
+    return this.store.getSession(sessionId);
   }
 
-  public getActiveSessionsCount(): number {
-    return this.sessions.size;
+  public async getActiveSessionsCount(): Promise<number> {
+    return (await this.store.listSessionIds()).length;
   }
 
+  // Users connected to this node
   public getConnectedUsersCount(): number {
     return this.userSockets.size;
   }
 
+  public getNodeId(): string {
+    return this.nodeId;
+  }
+
   public async shutdown(): Promise<void> {
-    logger.info('Shutting down signaling server');
+    logger.info('Shutting down signaling server', { nodeId: this.nodeId });
+    this.shuttingDown = true;
+
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+    }
+
+    // Other nodes release held slots once their grace period has passed
+    this.graceTimers.forEach(timer => clearTimeout(timer));
+    this.graceTimers.clear();
     
     // Notify all clients
     this.io.emit('server_shutdown', { message: 'Server is shutting down' });
     
     // Close all connections
     this.io.close();
+
+    // Let other nodes accept this node's participants as soon as they reconnect
+    await this.bus.close();
+    await this.store.markNodeDown(this.nodeId);
     
-    // Clear data
-    this.sessions.clear();
+    // Clear local data. Sessions stay in the store
     this.userSockets.clear();
+    this.localParticipants.clear();
   }
-}
\ No newline at end of file
+}
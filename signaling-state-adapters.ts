@@ -0,0 +1,389 @@
+/**
+ * Signaling State Adapters
+ * Session stores and message buses for the signaling server: in-memory
+ * versions for a single node or tests, and Redis-protocol versions that let
+ * nodes behind a load balancer share sessions and relay messages
+ */
+
+import { logger } from '../utils/logger';
+import {
+  SignalingStateBackend,
+  SignalingSessionStore,
+  SignalingMessageBus,
+  SignalingBusMessage,
+  SignalingBusHandler,
+  SignalingState,
+  SignalingStateConfig,
+  ParticipantPresence,
+  RedisClientLike
+} from '../types/signaling-state';
+import { InterviewSession, PeerConnection, SessionStatus, MediaStreamInfo } from '../types/webrtc';
+
+const DEFAULT_KEY_PREFIX = 'signaling:';
+
+interface StoredSession {
+  id: string;
+  createdAt: string;
+  status: SessionStatus;
+  recordingActive: boolean;
+  mediaStreams: Array<Omit<MediaStreamInfo, 'startedAt'> & { startedAt: string }>;
+}
+
+const toStoredSession = (session: InterviewSession): StoredSession => ({
+  id: session.id,
+  createdAt: session.createdAt.toISOString(),
+  status: session.status,
+  recordingActive: session.recordingActive,
+  mediaStreams: Array.from(session.mediaStreams.values()).map(stream => ({ ...stream, startedAt: stream.startedAt.toISOString() }))
+});
+
+const fromStoredSession = (stored: StoredSession, participants: PeerConnection[]): InterviewSession => ({
+  id: stored.id,
+  participants: new Map(participants.map(participant => [participant.userId, participant])),
+  createdAt: new Date(stored.createdAt),
+  status: stored.status,
+  recordingActive: stored.recordingActive,
+  mediaStreams: new Map(stored.mediaStreams.map(stream => [stream.streamId, { ...stream, startedAt: new Date(stream.startedAt) }]))
+});
+
+const parseParticipant = (json: string): PeerConnection => {
+  const participant = JSON.parse(json);
+  return { ...participant, connectedAt: new Date(participant.connectedAt), lastActivity: new Date(participant.lastActivity) };
+};
+
+const parsePresence = (json: string): ParticipantPresence => {
+  const presence = JSON.parse(json);
+  return {
+    ...presence,
+    updatedAt: new Date(presence.updatedAt),
+    disconnectedAt: presence.disconnectedAt ? new Date(presence.disconnectedAt) : undefined
+  };
+};
+
+/**
+ * Process-local store. State is lost when the process exits
+ */
+export class InMemorySignalingSessionStore implements SignalingSessionStore {
+  private sessions: Map<string, string> = new Map();
+  private participants: Map<string, Map<string, string>> = new Map();
+  private presences: Map<string, string> = new Map();
+  private nodes: Map<string, number> = new Map(); // Node id to expiry time
+
+  async getSession(sessionId: string): Promise<InterviewSession | null> {
+    const stored = this.sessions.get(sessionId);
+    if (!stored) {
+      return null;
+    }
+    const participants = Array.from(this.participants.get(sessionId)?.values() || []).map(parseParticipant);
+    return fromStoredSession(JSON.parse(stored), participants);
+  }
+
+  async createSession(session: InterviewSession): Promise<InterviewSession> {
+    if (!this.sessions.has(session.id)) {
+      this.sessions.set(session.id, JSON.stringify(toStoredSession(session)));
+      this.participants.set(session.id, new Map());
+    }
+    return (await this.getSession(session.id))!;
+  }
+
+  async saveParticipant(sessionId: string, participant: PeerConnection): Promise<void> {
+    this.participants.get(sessionId)?.set(participant.userId, JSON.stringify(participant));
+  }
+
+  async removeParticipant(sessionId: string, userId: string): Promise<void> {
+    this.participants.get(sessionId)?.delete(userId);
+  }
+
+  async setSessionStatus(sessionId: string, status: SessionStatus): Promise<void> {
+    const stored = this.sessions.get(sessionId);
+    if (stored) {
+      this.sessions.set(sessionId, JSON.stringify({ ...JSON.parse(stored), status }));
+    }
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId);
+    this.participants.delete(sessionId);
+  }
+
+  async listSessionIds(): Promise<string[]> {
+    return Array.from(this.sessions.keys());
+  }
+
+  async getPresence(userId: string): Promise<ParticipantPresence | null> {
+    const stored = this.presences.get(userId);
+    return stored ? parsePresence(stored) : null;
+  }
+
+  async setPresence(presence: ParticipantPresence): Promise<void> {
+    this.presences.set(presence.userId, JSON.stringify(presence));
+  }
+
+  async removePresence(userId: string, socketId?: string): Promise<void> {
+    const stored = this.presences.get(userId);
+    if (stored && (!socketId || parsePresence(stored).socketId === socketId)) {
+      this.presences.delete(userId);
+    }
+  }
+
+  async markNodeAlive(nodeId: string, ttlMs: number): Promise<void> {
+    this.nodes.set(nodeId, Date.now() + ttlMs);
+  }
+
+  async markNodeDown(nodeId: string): Promise<void> {
+    this.nodes.delete(nodeId);
+  }
+
+  async isNodeAlive(nodeId: string): Promise<boolean> {
+    return (this.nodes.get(nodeId) || 0) > Date.now();
+  }
+}
+
+/**
+ * Routes published messages between the in-memory buses attached to it
+ */
+export class InMemorySignalingBroker {
+  private channels: Map<string, Set<SignalingBusHandler>> = new Map();
+
+  publish(channel: string, message: SignalingBusMessage): void {
+    const json = JSON.stringify(message);
+    for (const handler of this.channels.get(channel) || []) {
+      // Delivered on a later tick with a copy, as a network bus would
+      setImmediate(() => handler(JSON.parse(json)));
+    }
+  }
+
+  subscribe(channel: string, handler: SignalingBusHandler): void {
+    const handlers = this.channels.get(channel) || new Set();
+    handlers.add(handler);
+    this.channels.set(channel, handlers);
+  }
+
+  unsubscribe(channel: string, handler: SignalingBusHandler): void {
+    this.channels.get(channel)?.delete(handler);
+  }
+}
+
+/**
+ * Bus for nodes in one process. Nodes exchange messages when they share a broker
+ */
+export class InMemorySignalingMessageBus implements SignalingMessageBus {
+  private handlers: Map<string, SignalingBusHandler> = new Map();
+
+  constructor(private broker: InMemorySignalingBroker = new InMemorySignalingBroker()) {}
+
+  async publish(channel: string, message: SignalingBusMessage): Promise<void> {
+    this.broker.publish(channel, message);
+  }
+
+  async subscribe(channel: string, handler: SignalingBusHandler): Promise<void> {
+    await this.unsubscribe(channel);
+    this.handlers.set(channel, handler);
+    this.broker.subscribe(channel, handler);
+  }
+
+  async unsubscribe(channel: string): Promise<void> {
+    const handler = this.handlers.get(channel);
+    if (handler) {
+      this.broker.unsubscribe(channel, handler);
+      this.handlers.delete(channel);
+    }
+  }
+
+  async close(): Promise<void> {
+    for (const channel of Array.from(this.handlers.keys())) {
+      await this.unsubscribe(channel);
+    }
+  }
+}
+
+/**
+ * Store kept in Redis so sessions outlive the node that created them.
+ * Participants live in a hash per session so nodes never overwrite each other's
+ */
+export class RedisSignalingSessionStore implements SignalingSessionStore {
+  constructor(private client: RedisClientLike, private keyPrefix: string = DEFAULT_KEY_PREFIX) {}
+
+  async getSession(sessionId: string): Promise<InterviewSession | null> {
+    const stored = await this.client.get(this.sessionKey(sessionId));
+    if (!stored) {
+      return null;
+    }
+    const participants = await this.client.hGetAll(this.participantsKey(sessionId));
+    return fromStoredSession(JSON.parse(stored), Object.values(participants).map(parseParticipant));
+  }
+
+  async createSession(session: InterviewSession): Promise<InterviewSession> {
+    const created = await this.client.set(this.sessionKey(session.id), JSON.stringify(toStoredSession(session)), { NX: true });
+    if (created) {
+      await this.client.sAdd(this.sessionsKey(), session.id);
+    }
+    return (await this.getSession(session.id))!;
+  }
+
+  async saveParticipant(sessionId: string, participant: PeerConnection): Promise<void> {
+    await this.client.hSet(this.participantsKey(sessionId), participant.userId, JSON.stringify(participant));
+  }
+
+  async removeParticipant(sessionId: string, userId: string): Promise<void> {
+    await this.client.hDel(this.participantsKey(sessionId), userId);
+  }
+
+  async setSessionStatus(sessionId: string, status: SessionStatus): Promise<void> {
+    const stored = await this.client.get(this.sessionKey(sessionId));
+    if (stored) {
+      await this.client.set(this.sessionKey(sessionId), JSON.stringify({ ...JSON.parse(stored), status }));
+    }
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    await this.client.del([this.sessionKey(sessionId), this.participantsKey(sessionId)]);
+    await this.client.sRem(this.sessionsKey(), sessionId);
+  }
+
+  async listSessionIds(): Promise<string[]> {
+    return this.client.sMembers(this.sessionsKey());
+  }
+
+  async getPresence(userId: string): Promise<ParticipantPresence | null> {
+    const stored = await this.client.get(this.presenceKey(userId));
+    return stored ? parsePresence(stored) : null;
+  }
+
+  async setPresence(presence: ParticipantPresence): Promise<void> {
+    await this.client.set(this.presenceKey(presence.userId), JSON.stringify(presence));
+  }
+
+  async removePresence(userId: string, socketId?: string): Promise<void> {
+    if (socketId) {
+      const presence = await this.getPresence(userId);
+      if (!presence || presence.socketId !== socketId) {
+        return;
+      }
+    }
+    await this.client.del(this.presenceKey(userId));
+  }
+
+  async markNodeAlive(nodeId: string, ttlMs: number): Promise<void> {
+    await this.client.set(this.nodeKey(nodeId), new Date().toISOString(), { PX: ttlMs });
+  }
+
+  async markNodeDown(nodeId: string): Promise<void> {
+    await this.client.del(this.nodeKey(nodeId));
+  }
+
+  async isNodeAlive(nodeId: string): Promise<boolean> {
+    return (await this.client.get(this.nodeKey(nodeId))) !== null;
+  }
+
+  private sessionKey(sessionId: string): string {
+    return `${this.keyPrefix}session:${sessionId}`;
+  }
+
+  private participantsKey(sessionId: string): string {
+    return `${this.keyPrefix}session:${sessionId}:participants`;
+  }
+
+  private sessionsKey(): string {
+    return `${this.keyPrefix}sessions`;
+  }
+
+  private presenceKey(userId: string): string {
+    return `${this.keyPrefix}presence:${userId}`;
+  }
+
+  private nodeKey(nodeId: string): string {
+    return `${this.keyPrefix}node:${nodeId}`;
+  }
+}
+
+/**
+ * Bus over Redis pub/sub. A subscribed Redis connection cannot run other
+ * commands, so publishing and subscribing use separate clients
+ */
+export class RedisSignalingMessageBus implements SignalingMessageBus {
+  private channels: Set<string> = new Set();
+
+  constructor(
+    private publisher: RedisClientLike,
+    private subscriber: RedisClientLike,
+    private keyPrefix: string = DEFAULT_KEY_PREFIX
+  ) {}
+
+  async publish(channel: string, message: SignalingBusMessage): Promise<void> {
+    await this.publisher.publish(this.keyPrefix + channel, JSON.stringify(message));
+  }
+
+  async subscribe(channel: string, handler: SignalingBusHandler): Promise<void> {
+    await this.unsubscribe(channel);
+    await this.subscriber.subscribe(this.keyPrefix + channel, raw => {
+      try {
+        handler(JSON.parse(raw));
+      } catch (error) {
+        logger.error('Failed to handle signaling bus message', { channel, error });
+      }
+    });
+    this.channels.add(channel);
+  }
+
+  async unsubscribe(channel: string): Promise<void> {
+    if (this.channels.delete(channel)) {
+      await this.subscriber.unsubscribe(this.keyPrefix + channel);
+    }
+  }
+
+  async close(): Promise<void> {
+    for (const channel of Array.from(this.channels)) {
+      await this.unsubscribe(channel);
+    }
+  }
+}
+
+/**
+ * Create a store and bus from explicit configuration
+ */
+export function createSignalingState(config: SignalingStateConfig): SignalingState {
+  switch (config.backend) {
+    case SignalingStateBackend.MEMORY:
+      return { store: new InMemorySignalingSessionStore(), bus: new InMemorySignalingMessageBus() };
+    case SignalingStateBackend.REDIS:
+      if (!config.client || !config.subscriber) {
+        throw new Error('The Redis signaling backend needs a command client and a subscriber client');
+      }
+      return {
+        store: new RedisSignalingSessionStore(config.client, config.keyPrefix),
+        bus: new RedisSignalingMessageBus(config.client, config.subscriber, config.keyPrefix)
+      };
+    default:
+      throw new Error(`Unsupported signaling state backend: ${config.backend}`);
+  }
+}
+
+/**
+ * Create a store and bus from environment variables.
+ *
+ * SIGNALING_STATE_BACKEND selects the backend (memory | redis, default
+ * memory). The Redis backend shares the application's Redis connection and
+ * opens a second one for subscriptions; SIGNALING_KEY_PREFIX namespaces keys
+ * and channels.
+ */
+export async function createSignalingStateFromEnv(env: NodeJS.ProcessEnv = process.env): Promise<SignalingState> {
+  const backend = (env.SIGNALING_STATE_BACKEND || SignalingStateBackend.MEMORY) as SignalingStateBackend;
+
+  logger.info('Creating signaling state', { backend });
+
+  if (backend !== SignalingStateBackend.REDIS) {
+    return createSignalingState({ backend });
+  }
+
+  const { redis } = await import('../database/connection');
+  const subscriber = redis.duplicate();
+  await subscriber.connect();
+
+  return createSignalingState({
+    backend,
+    client: redis as unknown as RedisClientLike,
+    subscriber: subscriber as unknown as RedisClientLike,
+    keyPrefix: env.SIGNALING_KEY_PREFIX
+  });
+}
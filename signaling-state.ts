@@ -0,0 +1,94 @@
+/**
+ * Signaling State Types
+ * Defines the shared session store and cross-node message bus that let
+ * several signaling nodes serve the same interview sessions
+ */
+
+import { InterviewSession, PeerConnection, SessionStatus } from './webrtc';
+
+export enum SignalingStateBackend {
+  MEMORY = 'memory', // Single node, or several nodes in one process
+  REDIS = 'redis' // Any server speaking the Redis protocol
+}
+
+export interface ParticipantPresence {
+  userId: string;
+  sessionId: string;
+  nodeId: string; // Node holding the participant's socket
+  socketId: string;
+  updatedAt: Date;
+  resumeTokenHash?: string; // Hash of the token that can reclaim the slot
+  disconnectedAt?: Date; // Set while the slot is held for a reconnect
+}
+
+export interface SignalingSessionStore {
+  getSession(sessionId: string): Promise<InterviewSession | null>;
+  createSession(session: InterviewSession): Promise<InterviewSession>; // Returns the existing session when another node created it first
+  saveParticipant(sessionId: string, participant: PeerConnection): Promise<void>;
+  removeParticipant(sessionId: string, userId: string): Promise<void>;
+  setSessionStatus(sessionId: string, status: SessionStatus): Promise<void>;
+  deleteSession(sessionId: string): Promise<void>;
+  listSessionIds(): Promise<string[]>;
+  getPresence(userId: string): Promise<ParticipantPresence | null>;
+  setPresence(presence: ParticipantPresence): Promise<void>;
+  removePresence(userId: string, socketId?: string): Promise<void>; // Only while the socket still owns it, when given
+  markNodeAlive(nodeId: string, ttlMs: number): Promise<void>;
+  markNodeDown(nodeId: string): Promise<void>;
+  isNodeAlive(nodeId: string): Promise<boolean>;
+}
+
+export type SignalingBusTarget =
+  | { room: string; exceptSocketId?: string } // Every socket in a session room
+  | { userId: string }; // The socket of one participant
+
+export interface SignalingBusMessage {
+  originNodeId: string;
+  target: SignalingBusTarget;
+  event: string;
+  payload: any;
+}
+
+export type SignalingBusHandler = (message: SignalingBusMessage) => void;
+
+export interface SignalingMessageBus {
+  publish(channel: string, message: SignalingBusMessage): Promise<void>;
+  subscribe(channel: string, handler: SignalingBusHandler): Promise<void>;
+  unsubscribe(channel: string): Promise<void>;
+  close(): Promise<void>;
+}
+
+export interface SignalingState {
+  store: SignalingSessionStore;
+  bus: SignalingMessageBus;
+}
+
+export interface SignalingNodeOptions extends Partial<SignalingState> {
+  nodeId?: string; // Keep it stable across restarts so the node's own participants can rejoin at once
+}
+
+/**
+ * The subset of Redis commands the Redis backend uses, named as in the
+ * node-redis v4 client. Subscriptions need a connection of their own
+ */
+export interface RedisClientLike {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, options?: { PX?: number; NX?: boolean }): Promise<string | null>;
+  del(key: string | string[]): Promise<number>;
+  hSet(key: string, field: string, value: string): Promise<number>;
+  hDel(key: string, field: string): Promise<number>;
+  hGetAll(key: string): Promise<Record<string, string>>;
+  sAdd(key: string, member: string): Promise<number>;
+  sRem(key: string, member: string): Promise<number>;
+  sMembers(key: string): Promise<string[]>;
+  publish(channel: string, message: string): Promise<number>;
+  subscribe(channel: string, listener: (message: string, channel: string) => void): Promise<void>;
+  unsubscribe(channel: string): Promise<void>;
+  quit(): Promise<unknown>;
+}
+
+export interface SignalingStateConfig {
+  backend: SignalingStateBackend;
+  client?: RedisClientLike; // Commands and publishing
+  subscriber?: RedisClientLike; // Subscriptions
+  keyPrefix?: string;
+}
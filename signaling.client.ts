@@ -0,0 +1,95 @@
+/**
+ * Minimal Socket.IO client over Engine.IO long-polling, enough to drive the
+ * signaling events from a test
+ */
+export class TestSignalingClient {
+  private received: Array<{ event: string; data: any }> = [];
+  private waiters: Array<() => void> = [];
+  private controller = new AbortController();
+  private closed = false;
+
+  private constructor(private url: string) {}
+
+  /**
+   * Open a connection, sending the token in the handshake auth payload.
+   * Rejects with the server's connect error data when it refuses the socket
+   */
+  static async connect(baseUrl: string, token?: string): Promise<TestSignalingClient> {
+    const handshake = await (await fetch(`${baseUrl}/socket.io/?EIO=4&transport=polling`)).text();
+    const { sid } = JSON.parse(handshake.slice(1));
+    const client = new TestSignalingClient(`${baseUrl}/socket.io/?EIO=4&transport=polling&sid=${sid}`);
+    await client.send(token ? `40${JSON.stringify({ token })}` : '40');
+    client.poll();
+
+    const { error } = await client.waitFor('connect');
+    if (error) {
+      await client.close();
+      throw error;
+    }
+    return client;
+  }
+
+  emit(event: string, data: any): Promise<void> {
+    return this.send(`42${JSON.stringify([event, data])}`);
+  }
+
+  async waitFor(event: string, predicate: (data: any) => boolean = () => true, timeoutMs = 3000): Promise<any> {
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+      const index = this.received.findIndex(message => message.event === event && predicate(message.data));
+      if (index >= 0) {
+        return this.received.splice(index, 1)[0].data;
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for ${event}`);
+      }
+      await new Promise<void>(resolve => {
+        this.waiters.push(resolve);
+        setTimeout(resolve, 50);
+      });
+    }
+  }
+
+  async close(): Promise<void> {
+    if (!this.closed) {
+      this.closed = true;
+      await this.send('1').catch(() => undefined);
+      this.controller.abort();
+    }
+  }
+
+  private send(packet: string): Promise<void> {
+    return fetch(this.url, { method: 'POST', body: packet, signal: this.controller.signal }).then(() => undefined);
+  }
+
+  private async poll(): Promise<void> {
+    while (!this.closed) {
+      let body: string;
+      try {
+        const response = await fetch(this.url, { signal: this.controller.signal });
+        if (!response.ok) {
+          break;
+        }
+        body = await response.text();
+      } catch {
+        break;
+      }
+
+      for (const packet of body.split('\x1e')) {
+        if (packet === '2') {
+          await this.send('3').catch(() => undefined);
+        } else if (packet === '1') {
+          this.closed = true;
+        } else if (packet.startsWith('40')) {
+          this.received.push({ event: 'connect', data: {} });
+        } else if (packet.startsWith('44')) {
+          this.received.push({ event: 'connect', data: { error: JSON.parse(packet.slice(2)) } });
+        } else if (packet.startsWith('42')) {
+          const [event, data] = JSON.parse(packet.slice(2));
+          this.received.push({ event, data });
+        }
+      }
+      this.waiters.splice(0).forEach(resolve => resolve());
+    }
+  }
+}
@@ -0,0 +1,265 @@
+/**
+ * Speaker Diarization Tests
+ * Separating interviewer and candidate speech by channel and by voice
+ */
+
+import { SpeakerDiarizer } from '../services/speaker-diarizer';
+import { SpeechAnalysisEngine } from '../services/speech-analysis-engine';
+import { FixtureTranscriptionProvider } from '../services/transcription-providers';
+import { MediaProcessingPipelineService } from '../services/media-processing-pipeline';
+import { SpeakerRole, DiarizationMethod } from '../types/diarization';
+import { ProcessorType } from '../types/media';
+import {
+  SpeechAnalysisConfig,
+  TranscriptionResult,
+  AudioEncoding,
+  WhisperModel
+} from '../types/speech-analysis';
+
+const SAMPLE_RATE = 16000;
+
+interface ToneSpec {
+  duration: number; // seconds
+  frequency?: number; // Hz; silence when omitted
+  amplitude?: number;
+}
+
+// A voiced tone: fundamental plus two harmonics, like a sustained vowel
+const synthesize = (parts: ToneSpec[]): Float32Array => {
+  const total = parts.reduce((sum, part) => sum + Math.round(part.duration * SAMPLE_RATE), 0);
+  const samples = new Float32Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    const length = Math.round(part.duration * SAMPLE_RATE);
+    for (let i = 0; i < length; i++) {
+      const t = i / SAMPLE_RATE;
+      const f = part.frequency;
+      samples[offset + i] = f
+        ? (part.amplitude ?? 0.3) * (0.6 * Math.sin(2 * Math.PI * f * t) + 0.3 * Math.sin(4 * Math.PI * f * t) + 0.1 * Math.sin(6 * Math.PI * f * t))
+        : 0.0005 * Math.sin(2 * Math.PI * 50 * t); // Faint mains hum as the noise floor
+    }
+    offset += length;
+  }
+  return samples;
+};
+
+// Interleaves one sample array per channel
+const encodeWav = (channels: Float32Array[]): Buffer => {
+  const frames = channels[0].length;
+  const data = Buffer.alloc(frames * 2 * channels.length);
+  for (let i = 0; i < frames; i++) {
+    channels.forEach((samples, channel) => {
+      data.writeInt16LE(Math.round(Math.max(-1, Math.min(1, samples[i])) * 32767), (i * channels.length + channel) * 2);
+    });
+  }
+
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + data.length, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(channels.length, 22);
+  header.writeUInt32LE(SAMPLE_RATE, 24);
+  header.writeUInt32LE(SAMPLE_RATE * 2 * channels.length, 28);
+  header.writeUInt16LE(2 * channels.length, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(data.length, 40);
+
+  return Buffer.concat([header, data]);
+};
+
+const wavAudio = (buffer: Buffer, channels: number = 1) => ({
+  buffer,
+  format: { encoding: AudioEncoding.WAV, mimeType: 'audio/wav', extension: 'wav' },
+  duration: 8,
+  sampleRate: SAMPLE_RATE,
+  channels,
+  bitDepth: 16
+});
+
+// The interviewer asks (0.5-2.5 s, 220 Hz), the candidate answers (3-7 s, 120 Hz)
+const INTERVIEWER_PART = [{ duration: 0.5 }, { duration: 2, frequency: 220 }, { duration: 5.5 }];
+const CANDIDATE_PART = [{ duration: 3 }, { duration: 4, frequency: 120 }, { duration: 1 }];
+const MIXED = synthesize([
+  { duration: 0.5 },
+  { duration: 2, frequency: 220 },
+  { duration: 0.5 },
+  { duration: 4, frequency: 120 },
+  { duration: 1 }
+]);
+
+const TRANSCRIPTION_WORDS = [
+  { word: 'Tell', start: 0.6, end: 0.9 },
+  { word: 'me', start: 0.9, end: 1.1 },
+  { word: 'about', start: 1.1, end: 1.5 },
+  { word: 'yourself.', start: 1.5, end: 2.3 },
+  { word: 'I', start: 3.1, end: 3.3 },
+  { word: 'lead', start: 3.3, end: 3.8 },
+  { word: 'the', start: 3.8, end: 4.0 },
+  { word: 'platform', start: 4.0, end: 4.8 },
+  { word: 'team', start: 4.8, end: 5.4 },
+  { word: 'at', start: 5.4, end: 5.7 },
+  { word: 'Acme.', start: 5.7, end: 6.8 }
+];
+
+const transcription = (): TranscriptionResult => ({
+  text: 'Tell me about yourself. I lead the platform team at Acme.',
+  segments: [{
+    id: 0,
+    text: 'Tell me about yourself. I lead the platform team at Acme.',
+    start: 0.6,
+    end: 6.8,
+    confidence: 0.9,
+    words: TRANSCRIPTION_WORDS.map(word => ({ ...word, confidence: 0.9, probability: 0.9 }))
+  }],
+  language: 'en',
+  confidence: 0.9,
+  wordCount: TRANSCRIPTION_WORDS.length,
+  duration: 8
+});
+
+describe('SpeakerDiarizer', () => {
+  const diarizer = new SpeakerDiarizer();
+
+  it('should separate speakers by channel when each has their own', () => {
+    const audio = wavAudio(encodeWav([synthesize(CANDIDATE_PART), synthesize(INTERVIEWER_PART)]), 2);
+
+    const result = diarizer.diarizeAudio(audio);
+
+    expect(result.method).toBe(DiarizationMethod.CHANNEL);
+    expect(result.turns.map(turn => turn.speaker)).toEqual([SpeakerRole.INTERVIEWER, SpeakerRole.CANDIDATE]);
+    expect(result.turns[1].start).toBeCloseTo(3, 1);
+    expect(result.speakingTime[SpeakerRole.CANDIDATE]).toBeCloseTo(4, 0);
+    expect(result.speakingTime[SpeakerRole.INTERVIEWER]).toBeCloseTo(2, 0);
+  });
+
+  it('should cluster voices when both share a channel', () => {
+    // The same mix on both channels gives the channels nothing to separate
+    const result = diarizer.diarizeAudio(wavAudio(encodeWav([MIXED, MIXED]), 2));
+
+    expect(result.method).toBe(DiarizationMethod.CLUSTERING);
+    expect(result.turns.map(turn => turn.speaker)).toEqual([SpeakerRole.INTERVIEWER, SpeakerRole.CANDIDATE]);
+    expect(result.turns[0].end).toBeCloseTo(2.5, 1);
+    expect(result.speakingTime[SpeakerRole.CANDIDATE]).toBeCloseTo(4, 0);
+    expect(result.confidence).toBeGreaterThan(0.5);
+  });
+
+  it('should name clusters from known interviewer playback times', () => {
+    // Here the candidate opens, so only the hint tells the voices apart
+    const audio = wavAudio(encodeWav([MIXED]));
+
+    const result = diarizer.diarizeAudio(audio, { interviewerSpeech: [{ start: 3, end: 7 }] });
+
+    expect(result.turns.map(turn => turn.speaker)).toEqual([SpeakerRole.CANDIDATE, SpeakerRole.INTERVIEWER]);
+  });
+
+  it('should treat a single voice as the candidate', () => {
+    const audio = wavAudio(encodeWav([synthesize([
+      { duration: 0.5 },
+      { duration: 2, frequency: 150 },
+      { duration: 0.5 },
+      { duration: 3, frequency: 150 },
+      { duration: 1 }
+    ])]));
+
+    const result = diarizer.diarizeAudio(audio);
+
+    expect(result.method).toBe(DiarizationMethod.SINGLE_SPEAKER);
+    expect(result.turns).toHaveLength(1);
+    expect(result.turns[0].speaker).toBe(SpeakerRole.CANDIDATE);
+  });
+
+  it('should keep only the candidate words of the transcript', () => {
+    const diarization = diarizer.diarizeAudio(wavAudio(encodeWav([MIXED])));
+
+    const labeled = diarizer.labelTranscript(transcription(), diarization);
+    const candidate = diarizer.candidateTranscript(transcription(), diarization);
+
+    expect(labeled.segments[0].words[0].speaker).toBe(SpeakerRole.INTERVIEWER);
+    expect(labeled.segments[0].speaker).toBe(SpeakerRole.CANDIDATE);
+    expect(candidate.text).toBe('I lead the platform team at Acme.');
+    expect(candidate.wordCount).toBe(7);
+    expect(candidate.segments[0].start).toBe(3.1);
+    expect(candidate.duration).toBeCloseTo(4, 0);
+  });
+});
+
+describe('Diarized speech analysis', () => {
+  const config: SpeechAnalysisConfig = {
+    whisperApiKey: 'test-api-key',
+    whisperBaseUrl: 'https://api.openai.com/v1',
+    enableAdvancedAnalysis: true,
+    fillerWords: { verbal: ['um', 'uh'], lexical: ['like'], customFillers: [], detectionSensitivity: 0.8 },
+    paceThresholds: { optimalWPM: { min: 150, max: 190, optimal: 170 }, slowThreshold: 120, fastThreshold: 220, variabilityThreshold: 0.3 },
+    pauseThresholds: { minPauseLength: 0.3, maxOptimalPause: 2.0, hesitationThreshold: 1.5, strategicPauseRange: { min: 0.5, max: 1.5, optimal: 1.0 } },
+    clarityThresholds: { minClarityScore: 0.7, noiseThreshold: 0.3, articulationThreshold: 0.75, volumeConsistencyThreshold: 0.8 },
+    confidenceThresholds: { minConfidenceScore: 0.6, hesitationRatioThreshold: 0.15, fillerFrequencyThreshold: 8.0, assertivenessThreshold: 0.5 },
+    volumeThresholds: { optimalRange: { min: 0.4, max: 0.9 }, variabilityThreshold: 0.25, minAudibleLevel: 0.2, maxComfortableLevel: 0.95 }
+  };
+
+  const options = {
+    enableTranscription: true,
+    enablePaceAnalysis: true,
+    enablePauseAnalysis: true,
+    enableFillerDetection: true,
+    enableClarityAnalysis: true,
+    enableConfidenceAnalysis: true,
+    enableEmotionDetection: true,
+    enableVolumeAnalysis: true,
+    confidenceThreshold: 0.7,
+    whisperModel: WhisperModel.BASE
+  };
+
+  it('should score only the candidate when diarization is enabled', async () => {
+    const provider = () => new FixtureTranscriptionProvider([{
+      text: transcription().text,
+      words: TRANSCRIPTION_WORDS
+    }]);
+    const request = (enableDiarization: boolean) => ({
+      audioData: wavAudio(encodeWav([MIXED])),
+      context: { questionType: 'behavioral', language: 'en' },
+      options: { ...options, enableDiarization }
+    });
+
+    const diarized = await new SpeechAnalysisEngine(config, provider()).analyzeSpeech(request(true));
+    const whole = await new SpeechAnalysisEngine(config, provider()).analyzeSpeech(request(false));
+
+    expect(diarized.diarization!.method).toBe(DiarizationMethod.CLUSTERING);
+    expect(diarized.transcription.wordCount).toBe(7);
+    expect(diarized.transcription.text).toBe('I lead the platform team at Acme');
+    // The gap while the interviewer hands over is not the candidate's pause
+    expect(diarized.pauseAnalysis.metrics.unfilledPauses).toBe(0);
+    expect(whole.pauseAnalysis.metrics.unfilledPauses).toBe(1);
+    expect(whole.diarization).toBeUndefined();
+  });
+});
+
+describe('Speaker diarization processor', () => {
+  it('should label the transcription and return the candidate text', async () => {
+    const service = new MediaProcessingPipelineService({
+      enableRealTimeProcessing: false,
+      processingInterval: 1000,
+      maxConcurrentProcessors: 1,
+      audioAnalysisEnabled: false,
+      videoAnalysisEnabled: false,
+      speechToTextEnabled: false,
+      emotionDetectionEnabled: false
+    });
+    const pipeline = await service.createPipeline('stream-1', [
+      { type: ProcessorType.SPEAKER_DIARIZATION, config: { minTurnLength: 0.3 } }
+    ]);
+
+    const [result] = await service.processMediaData(pipeline.id, {
+      audio: wavAudio(encodeWav([MIXED])),
+      transcription: transcription()
+    }, Date.now());
+
+    expect(pipeline.processors[0].inputFormat).toBe('audio/wav');
+    expect(result.type).toBe(ProcessorType.SPEAKER_DIARIZATION);
+    expect(result.data.candidateText).toBe('I lead the platform team at Acme.');
+    expect(result.data.transcription.segments[0].words[4].speaker).toBe(SpeakerRole.CANDIDATE);
+  });
+});
@@ -0,0 +1,444 @@
+/**
+ * Speaker Diarizer
+ * Separates the AI interviewer's voice from the candidate's in a recording,
+ * by channel when each has their own and by clustering speech windows on
+ * pitch and level otherwise
+ */
+
+import { logger } from '../utils/logger';
+import { AudioFeatureExtractor } from './audio-feature-extractor';
+import { AudioPayload, AudioSignal } from '../types/audio-features';
+import {
+  SpeakerRole,
+  DiarizationMethod,
+  DiarizationConfig,
+  DiarizationHints,
+  DiarizationResult,
+  SpeakerTurn,
+  TimeRange
+} from '../types/diarization';
+import { TranscriptionResult, TranscriptionSegment, WordSegment } from '../types/speech-analysis';
+
+export const DEFAULT_DIARIZATION_CONFIG: DiarizationConfig = {
+  candidateChannel: 0,
+  interviewerChannel: 1,
+  channelDominanceDb: 6,
+  minChannelCoverage: 0.6,
+  windowLength: 1.0,
+  minTurnLength: 0.5,
+  minSpeakerSeparation: 4,
+  firstSpeaker: SpeakerRole.INTERVIEWER
+};
+
+const CHANNEL_FRAME_LENGTH = 0.02; // seconds
+const CHANNEL_SILENCE_DB = -50;
+const CHANNEL_VAD_MARGIN_DB = 6;
+const KMEANS_ITERATIONS = 20;
+// Feature units for clustering: a quarter octave of pitch and about 6 dB of level
+const PITCH_SCALE = 0.25;
+const LEVEL_SCALE = 0.1;
+const MIN_CENTROID_DISTANCE = 1;
+const SINGLE_SPEAKER_CONFIDENCE = 0.5;
+
+// A stretch of audio attributed to one speaker before turns are merged
+interface LabeledSpan extends TimeRange {
+  speaker: SpeakerRole;
+  confidence: number;
+}
+
+interface SpeechWindow extends TimeRange {
+  pitch: number | null; // Median F0 in Hz
+  level: number;
+}
+
+export class SpeakerDiarizer {
+  private config: DiarizationConfig;
+  private featureExtractor: AudioFeatureExtractor;
+
+  constructor(config: Partial<DiarizationConfig> = {}, featureExtractor: AudioFeatureExtractor = new AudioFeatureExtractor()) {
+    this.config = { ...DEFAULT_DIARIZATION_CONFIG, ...config };
+    this.featureExtractor = featureExtractor;
+  }
+
+  /**
+   * Decode an audio payload and diarize it
+   */
+  public diarizeAudio(audio: AudioPayload, hints: DiarizationHints = {}): DiarizationResult {
+    return this.diarize(this.featureExtractor.decode(audio), hints);
+  }
+
+  /**
+   * Use the interviewer and candidate channels when the recording has them and
+   * one voice dominates each; otherwise cluster speech windows into two voices
+   */
+  public diarize(signal: AudioSignal, hints: DiarizationHints = {}): DiarizationResult {
+    const result = this.diarizeByChannel(signal) || this.diarizeByClustering(signal, hints);
+
+    logger.debug('Diarized recording', {
+      method: result.method,
+      turns: result.turns.length,
+      candidateTime: result.speakingTime[SpeakerRole.CANDIDATE],
+      interviewerTime: result.speakingTime[SpeakerRole.INTERVIEWER]
+    });
+
+    return result;
+  }
+
+  /**
+   * Tag every word and segment with its speaker. A segment takes the speaker
+   * of most of its words.
+   */
+  public labelTranscript(transcription: TranscriptionResult, diarization: DiarizationResult): TranscriptionResult {
+    const segments = transcription.segments.map(segment => {
+      const words = segment.words.map(word => ({ ...word, speaker: this.speakerAt(diarization, (word.start + word.end) / 2) }));
+      const candidateWords = words.filter(word => word.speaker === SpeakerRole.CANDIDATE).length;
+      const midpoint = (segment.start + segment.end) / 2;
+      const speaker = words.length > 0
+        ? (candidateWords * 2 >= words.length ? SpeakerRole.CANDIDATE : SpeakerRole.INTERVIEWER)
+        : this.speakerAt(diarization, midpoint);
+      return { ...segment, words, speaker };
+    });
+
+    return { ...transcription, segments };
+  }
+
+  /**
+   * The transcript with interviewer speech removed. Duration becomes the
+   * candidate's speaking time so rates are not diluted by the interviewer.
+   */
+  public candidateTranscript(transcription: TranscriptionResult, diarization: DiarizationResult): TranscriptionResult {
+    const segments: TranscriptionSegment[] = [];
+
+    for (const segment of this.labelTranscript(transcription, diarization).segments) {
+      const words = segment.words.filter(word => word.speaker === SpeakerRole.CANDIDATE);
+      if (words.length === 0) continue;
+
+      segments.push({
+        ...segment,
+        id: segments.length,
+        text: words.length === segment.words.length ? segment.text : words.map(word => word.word).join(' '),
+        start: words.length === segment.words.length ? segment.start : words[0].start,
+        end: words.length === segment.words.length ? segment.end : words[words.length - 1].end,
+        confidence: this.mean(words.map(word => word.confidence)),
+        words
+      });
+    }
+
+    const words = segments.flatMap(segment => segment.words);
+    const speakingTime = diarization.speakingTime[SpeakerRole.CANDIDATE];
+
+    return {
+      ...transcription,
+      text: segments.map(segment => segment.text).join(' '),
+      segments,
+      confidence: this.mean(words.map(word => word.confidence)),
+      wordCount: words.length,
+      duration: speakingTime > 0 ? speakingTime : transcription.duration
+    };
+  }
+
+  /**
+   * The samples to measure the candidate's voice on: their own channel when
+   * the speakers were separated by channel, otherwise the mixed signal
+   */
+  public candidateSignal(signal: AudioSignal, diarization: DiarizationResult): AudioSignal {
+    if (diarization.method === DiarizationMethod.CHANNEL && signal.channels) {
+      return { samples: signal.channels[this.config.candidateChannel], sampleRate: signal.sampleRate, duration: signal.duration };
+    }
+    return signal;
+  }
+
+  public turnsOf(diarization: DiarizationResult, speaker: SpeakerRole): SpeakerTurn[] {
+    return diarization.turns.filter(turn => turn.speaker === speaker);
+  }
+
+  /**
+   * The speaker of the turn holding `time`, or of the nearest turn
+   */
+  public speakerAt(diarization: DiarizationResult, time: number): SpeakerRole {
+    let nearest: SpeakerTurn | undefined;
+    let nearestDistance = Infinity;
+
+    for (const turn of diarization.turns) {
+      const distance = time < turn.start ? turn.start - time : time > turn.end ? time - turn.end : 0;
+      if (distance < nearestDistance) {
+        nearest = turn;
+        nearestDistance = distance;
+      }
+    }
+
+    return nearest ? nearest.speaker : SpeakerRole.CANDIDATE;
+  }
+
+  /**
+   * Label each frame by the channel that is clearly louder. Returns null when
+   * the channels do not separate the voices, e.g. a mono recording copied to
+   * both channels.
+   */
+  private diarizeByChannel(signal: AudioSignal): DiarizationResult | null {
+    const { candidateChannel, interviewerChannel, channelDominanceDb, minChannelCoverage } = this.config;
+    const channels = signal.channels;
+    if (!channels || !channels[candidateChannel] || !channels[interviewerChannel]) {
+      return null;
+    }
+
+    const frameSize = Math.max(1, Math.round(CHANNEL_FRAME_LENGTH * signal.sampleRate));
+    const frameLength = frameSize / signal.sampleRate;
+    const candidateDb = this.frameLevels(channels[candidateChannel], frameSize);
+    const interviewerDb = this.frameLevels(channels[interviewerChannel], frameSize);
+    const candidateThreshold = Math.max(CHANNEL_SILENCE_DB, this.percentile(candidateDb, 10) + CHANNEL_VAD_MARGIN_DB);
+    const interviewerThreshold = Math.max(CHANNEL_SILENCE_DB, this.percentile(interviewerDb, 10) + CHANNEL_VAD_MARGIN_DB);
+
+    const spans: LabeledSpan[] = [];
+    let activeFrames = 0;
+
+    candidateDb.forEach((db, frame) => {
+      if (db <= candidateThreshold && interviewerDb[frame] <= interviewerThreshold) return;
+      activeFrames++;
+
+      const difference = db - interviewerDb[frame];
+      if (Math.abs(difference) < channelDominanceDb) return;
+
+      spans.push({
+        start: frame * frameLength,
+        end: (frame + 1) * frameLength,
+        speaker: difference > 0 ? SpeakerRole.CANDIDATE : SpeakerRole.INTERVIEWER,
+        confidence: Math.min(1, Math.abs(difference) / (channelDominanceDb * 2))
+      });
+    });
+
+    if (activeFrames === 0 || spans.length / activeFrames < minChannelCoverage) {
+      return null;
+    }
+
+    return this.buildResult(DiarizationMethod.CHANNEL, this.mergeSpans(spans));
+  }
+
+  /**
+   * Split speech into short windows, describe each by pitch and level, and
+   * split them into two groups with k-means. Groups that are not clearly
+   * apart are treated as one speaker, the candidate.
+   */
+  private diarizeByClustering(signal: AudioSignal, hints: DiarizationHints): DiarizationResult {
+    const features = this.featureExtractor.extract(signal);
+    const windows: SpeechWindow[] = [];
+
+    for (const segment of features.speechSegments) {
+      const count = Math.max(1, Math.round(segment.duration / this.config.windowLength));
+      const length = segment.duration / count;
+
+      for (let i = 0; i < count; i++) {
+        const start = segment.start + i * length;
+        const end = start + length;
+        const first = Math.floor(start / features.hopLength);
+        const last = Math.min(features.energyEnvelope.length, Math.ceil(end / features.hopLength));
+        const pitches = features.pitchContour.slice(first, last).filter((pitch): pitch is number => pitch !== null);
+
+        windows.push({
+          start,
+          end,
+          pitch: pitches.length > 0 ? this.median(pitches) : null,
+          level: this.mean(features.energyEnvelope.slice(first, last))
+        });
+      }
+    }
+
+    const singleSpeaker = () => this.buildResult(
+      DiarizationMethod.SINGLE_SPEAKER,
+      windows.length > 0
+        ? [{ start: windows[0].start, end: windows[windows.length - 1].end, speaker: SpeakerRole.CANDIDATE, confidence: SINGLE_SPEAKER_CONFIDENCE }]
+        : []
+    );
+
+    if (windows.length < 2) {
+      return singleSpeaker();
+    }
+
+    const clustering = this.twoMeans(this.featureVectors(windows));
+    if (!clustering) {
+      return singleSpeaker();
+    }
+
+    const interviewerCluster = this.interviewerCluster(windows, clustering.assignments, hints);
+    const spans: LabeledSpan[] = windows.map((window, i) => ({
+      start: window.start,
+      end: window.end,
+      speaker: clustering.assignments[i] === interviewerCluster ? SpeakerRole.INTERVIEWER : SpeakerRole.CANDIDATE,
+      confidence: clustering.confidences[i]
+    }));
+
+    // A lone window between two of the other voice is most likely a misfit
+    for (let i = 1; i < spans.length - 1; i++) {
+      if (spans[i - 1].speaker === spans[i + 1].speaker && spans[i].speaker !== spans[i - 1].speaker) {
+        spans[i] = { ...spans[i], speaker: spans[i - 1].speaker, confidence: spans[i].confidence / 2 };
+      }
+    }
+
+    return this.buildResult(DiarizationMethod.CLUSTERING, this.mergeSpans(spans));
+  }
+
+  // Pitch in octaves and level, each in units of a just-noticeable voice difference.
+  // Unvoiced windows take the mean pitch.
+  private featureVectors(windows: SpeechWindow[]): number[][] {
+    const pitches = windows.map(window => window.pitch).filter((pitch): pitch is number => pitch !== null);
+    const meanPitch = pitches.length > 0 ? this.mean(pitches) : 1;
+
+    return windows.map(window => [Math.log2(window.pitch ?? meanPitch) / PITCH_SCALE, window.level / LEVEL_SCALE]);
+  }
+
+  /**
+   * k-means with k = 2, seeded with the first window and the one farthest
+   * from it. Returns null when the clusters are closer than one feature unit
+   * or than `minSpeakerSeparation` times their spread.
+   */
+  private twoMeans(points: number[][]): { assignments: number[]; confidences: number[] } | null {
+    const farthest = points.reduce((best, point, i) =>
+      this.distance(point, points[0]) > this.distance(points[best], points[0]) ? i : best, 0);
+    let centroids = [points[0], points[farthest]];
+    let assignments: number[] = [];
+
+    for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+      const next = points.map(point => (this.distance(point, centroids[0]) <= this.distance(point, centroids[1]) ? 0 : 1));
+      const converged = next.every((cluster, i) => cluster === assignments[i]);
+      assignments = next;
+      if (converged) break;
+
+      centroids = [0, 1].map(cluster => {
+        const members = points.filter((_, i) => assignments[i] === cluster);
+        return members.length > 0 ? this.transpose(members).map(values => this.mean(values)) : centroids[cluster];
+      });
+    }
+
+    if (new Set(assignments).size < 2) {
+      return null;
+    }
+
+    const spread = Math.sqrt(this.mean(points.map((point, i) => Math.pow(this.distance(point, centroids[assignments[i]]), 2))));
+    const centroidDistance = this.distance(centroids[0], centroids[1]);
+    if (centroidDistance < MIN_CENTROID_DISTANCE || centroidDistance / Math.max(spread, 1e-6) < this.config.minSpeakerSeparation) {
+      return null;
+    }
+
+    const confidences = points.map((point, i) => {
+      const own = this.distance(point, centroids[assignments[i]]);
+      const other = this.distance(point, centroids[1 - assignments[i]]);
+      return other + own > 0 ? (other - own) / (other + own) : 0;
+    });
+
+    return { assignments, confidences };
+  }
+
+  /**
+   * The cluster that overlaps the known interviewer speech the most, or
+   * without hints the cluster that opens the recording when the interviewer
+   * is configured to speak first
+   */
+  private interviewerCluster(windows: SpeechWindow[], assignments: number[], hints: DiarizationHints): number {
+    if (hints.interviewerSpeech && hints.interviewerSpeech.length > 0) {
+      const share = [0, 1].map(cluster => {
+        const members = windows.filter((_, i) => assignments[i] === cluster);
+        const total = members.reduce((sum, window) => sum + (window.end - window.start), 0);
+        const overlap = members.reduce((sum, window) => sum + this.overlap(window, hints.interviewerSpeech!), 0);
+        return total > 0 ? overlap / total : 0;
+      });
+      return share[1] > share[0] ? 1 : 0;
+    }
+
+    return this.config.firstSpeaker === SpeakerRole.INTERVIEWER ? assignments[0] : 1 - assignments[0];
+  }
+
+  /**
+   * Join consecutive spans of the same speaker into turns, then fold turns
+   * shorter than `minTurnLength` into a neighbour
+   */
+  private mergeSpans(spans: LabeledSpan[]): SpeakerTurn[] {
+    let turns = this.joinSpans(spans);
+
+    for (;;) {
+      const shortTurns = turns
+        .map((turn, index) => ({ turn, index }))
+        .filter(({ turn }) => turn.end - turn.start < this.config.minTurnLength);
+      if (turns.length < 2 || shortTurns.length === 0) break;
+
+      const { index } = shortTurns.reduce((a, b) => (b.turn.end - b.turn.start < a.turn.end - a.turn.start ? b : a));
+      const neighbour = turns[index - 1] || turns[index + 1];
+      turns[index] = { ...turns[index], speaker: neighbour.speaker };
+      turns = this.joinSpans(turns);
+    }
+
+    return turns.map(turn => ({ ...turn, confidence: Math.round(turn.confidence * 100) / 100 }));
+  }
+
+  private joinSpans(spans: LabeledSpan[]): SpeakerTurn[] {
+    const turns: Array<SpeakerTurn & { weight: number }> = [];
+
+    for (const span of spans) {
+      const duration = span.end - span.start;
+      const last = turns[turns.length - 1];
+      if (last && last.speaker === span.speaker) {
+        last.confidence = (last.confidence * last.weight + span.confidence * duration) / (last.weight + duration);
+        last.weight += duration;
+        last.end = span.end;
+      } else {
+        turns.push({ start: span.start, end: span.end, speaker: span.speaker, confidence: span.confidence, weight: duration });
+      }
+    }
+
+    return turns.map(({ weight, ...turn }) => turn);
+  }
+
+  private buildResult(method: DiarizationMethod, turns: SpeakerTurn[]): DiarizationResult {
+    const speakingTime: Record<SpeakerRole, number> = {
+      [SpeakerRole.INTERVIEWER]: 0,
+      [SpeakerRole.CANDIDATE]: 0
+    };
+    turns.forEach(turn => { speakingTime[turn.speaker] += turn.end - turn.start; });
+
+    const total = speakingTime[SpeakerRole.INTERVIEWER] + speakingTime[SpeakerRole.CANDIDATE];
+    const confidence = total > 0
+      ? turns.reduce((sum, turn) => sum + turn.confidence * (turn.end - turn.start), 0) / total
+      : 0;
+
+    return { method, turns, speakingTime, confidence };
+  }
+
+  private frameLevels(samples: Float32Array, frameSize: number): number[] {
+    const levels: number[] = [];
+    for (let offset = 0; offset + frameSize <= samples.length; offset += frameSize) {
+      let sum = 0;
+      for (let i = offset; i < offset + frameSize; i++) {
+        sum += samples[i] * samples[i];
+      }
+      levels.push(20 * Math.log10(Math.sqrt(sum / frameSize) + 1e-10));
+    }
+    return levels;
+  }
+
+  private overlap(range: TimeRange, others: TimeRange[]): number {
+    return others.reduce((sum, other) => sum + Math.max(0, Math.min(range.end, other.end) - Math.max(range.start, other.start)), 0);
+  }
+
+  private distance(a: number[], b: number[]): number {
+    return Math.sqrt(a.reduce((sum, value, i) => sum + Math.pow(value - b[i], 2), 0));
+  }
+
+  private transpose(rows: number[][]): number[][] {
+    return rows.length > 0 ? rows[0].map((_, column) => rows.map(row => row[column])) : [];
+  }
+
+  private mean(values: number[]): number {
+    return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+  }
+
+  private median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+  }
+
+  private percentile(values: number[], p: number): number {
+    if (values.length === 0) return -Infinity;
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))];
+  }
+}
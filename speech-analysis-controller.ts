@@ -6,6 +6,11 @@
 import { Request, Response } from 'express';
 import multer from 'multer';
 import { SpeechAnalysisEngine } from '../services/speech-analysis-engine';
+import { AnalysisJobQueue } from '../services/analysis-job-queue';
+import { SpeechAnalysisJobProcessor, encodeMedia } from '../services/analysis-job-processors';
+import { analysisJobQueue } from '../services/analysis-jobs';
+import { getJobUser, getStatusCodeForJobError } from './analysis-job-controller';
+import { AuthenticatedRequest } from '../middleware/security-middleware';
 import { logger } from '../utils/logger';
 import {
   SpeechAnalysisRequest,
@@ -18,6 +23,9 @@ import {
   SpeechAnalysisError,
   SpeechAnalysisErrorCode
 } from '../types/speech-analysis';
+import { AnalysisJobType, AnalysisJobError, AnalysisJobErrorCode, SpeechAnalysisJobPayload } from '../types/analysis-job';
+
+const MAX_BATCH_FILES = 20;
 
 // Configure multer for audio file uploads
 const upload = multer({
@@ -47,8 +55,9 @@ const upload = multer({
 export class SpeechAnalysisController {
   private speechAnalysisEngine: SpeechAnalysisEngine;
   public uploadMiddleware: any;
+  public batchUploadMiddleware: any;
 
-  constructor() {
+  constructor(private jobQueue: AnalysisJobQueue = analysisJobQueue) {
     // Initialize with default configuration
     const defaultConfig: SpeechAnalysisConfig = {
       whisperApiKey: process.env.OPENAI_API_KEY || 'mock-api-key',
@@ -94,6 +103,9 @@ export class SpeechAnalysisController {
 
     this.speechAnalysisEngine = new SpeechAnalysisEngine(defaultConfig);
     this.uploadMiddleware = upload.single('audio');
+    this.batchUploadMiddleware = upload.array('audio', MAX_BATCH_FILES);
+    this.jobQueue.registerProcessor(new SpeechAnalysisJobProcessor(this.speechAnalysisEngine));
+    this.jobQueue.start().catch(() => undefined); // Failures are logged by the queue
   }
 
   /**
@@ -444,6 +456,119 @@ export class SpeechAnalysisController {
     }
   };
 
+  /**
+   * Queue a batch of recordings for analysis. Poll the returned job or pass a webhookUrl
+   */
+  public batchAnalyze = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const user = getJobUser(req, res);
+      if (!user) {
+        return;
+      }
+
+      const files = req.files as Express.Multer.File[] | undefined;
+
+      if (!files || files.length === 0) {
+        res.status(400).json({
+          success: false,
+          error: 'At least one audio file is required'
+        });
+        return;
+      }
+
+      const { context, options, webhookUrl, metadata } = req.body;
+
+      const parsedContext = this.parseJsonField('context', context);
+      const parsedOptions = this.parseJsonField('options', options);
+      const parsedMetadata = this.parseJsonField('metadata', metadata);
+
+      const analysisContext = {
+        questionType: parsedContext?.questionType || 'behavioral',
+        expectedDuration: parsedContext?.expectedDuration || 120,
+        language: parsedContext?.language || 'en',
+        interviewStage: parsedContext?.interviewStage || InterviewStage.BEHAVIORAL,
+        ...parsedContext
+      };
+
+      const analysisOptions = {
+        enableTranscription: true,
+        enablePaceAnalysis: true,
+        enablePauseAnalysis: true,
+        enableFillerDetection: true,
+        enableClarityAnalysis: true,
+        enableConfidenceAnalysis: true,
+        enableEmotionDetection: true,
+        enableVolumeAnalysis: true,
+        confidenceThreshold: 0.7,
+        whisperModel: WhisperModel.BASE,
+        ...parsedOptions
+      };
+
+      const payloads: SpeechAnalysisJobPayload[] = [];
+      for (const file of files) {
+        payloads.push({
+          audio: encodeMedia(await this.processAudioFile(file)),
+          context: analysisContext,
+          options: analysisOptions
+        });
+      }
+
+      const job = await this.jobQueue.submit({
+        type: AnalysisJobType.SPEECH,
+        payloads,
+        webhookUrl,
+        metadata: parsedMetadata,
+        ownerId: user.id
+      });
+
+      res.status(202).json({
+        success: true,
+        job
+      });
+
+    } catch (error: any) {
+      logger.error('Batch speech analysis failed', { error });
+
+      if (error instanceof AnalysisJobError) {
+        res.status(getStatusCodeForJobError(error.code)).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+          details: error.details
+        });
+      } else if (error instanceof SpeechAnalysisError) {
+        res.status(this.getStatusCodeForError(error.code)).json({
+          success: false,
+          error: error.message,
+          code: error.code
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Internal server error'
+        });
+      }
+    }
+  };
+
+  /**
+   * Parse a JSON encoded multipart form field, rejecting malformed input
+   */
+  private parseJsonField(field: string, value: any): any {
+    if (typeof value !== 'string') {
+      return value;
+    }
+    try {
+      return JSON.parse(value);
+    } catch (error) {
+      throw new AnalysisJobError({
+        code: AnalysisJobErrorCode.INVALID_INPUT,
+        message: `${field} must be valid JSON`,
+        details: { field }
+      });
+    }
+  }
+
   /**
    * Process uploaded audio file and extract metadata
    */
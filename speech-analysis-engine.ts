@@ -21,31 +21,84 @@ import {
   WhisperModel,
   AudioEncoding,
   FillerType,
+  PacePattern,
   PacePatternType,
+  PausePattern,
   PausePatternType,
   ConfidenceIndicatorType,
   EmotionType,
   VolumePatternType,
   SegmentSeverity,
   TimeSegment,
-  TranscriptionSegment,
-  WordSegment,
   PaceMetrics,
   PauseMetrics,
   FillerMetrics,
   ClarityMetrics,
+  ClarityIssue,
+  ClarityIssueType,
   ConfidenceMetrics,
   VolumeMetrics
 } from '../types/speech-analysis';
+import { TranscriptionProvider } from '../types/transcription-provider';
+import { createTranscriptionProviderFromEnv } from './transcription-providers';
+import { AudioFeatureExtractor } from './audio-feature-extractor';
+import { AudioFeatures, AudioSignal } from '../types/audio-features';
+import { SpeakerDiarizer } from './speaker-diarizer';
+import { DiarizationResult, SpeakerRole } from '../types/diarization';
+import { PronunciationAssessor } from './pronunciation-assessor';
+import { PronunciationAssessment, PronunciationIssueType, WordPronunciation } from '../types/pronunciation';
+import { SpeechPatternDetector } from './speech-pattern-detector';
+import { LanguagePackRegistry, UNSUPPORTED_LANGUAGE_CONFIDENCE_FACTOR } from './language-packs';
+import { LanguagePack, LanguageSupport, AUTO_DETECT_LANGUAGE } from '../types/language-pack';
+
+const PRONUNCIATION_ISSUE_DESCRIPTIONS: Partial<Record<ClarityIssueType, string>> = {
+  [ClarityIssueType.MISPRONUNCIATION]: 'Words that were hard to recognize',
+  [ClarityIssueType.MUMBLING]: 'Words spoken with little voice',
+  [ClarityIssueType.UNCLEAR_ENUNCIATION]: 'Words that dropped well below your speaking volume',
+  [ClarityIssueType.POOR_ARTICULATION]: 'Words rushed or stretched compared with your usual pace'
+};
+
+const PRONUNCIATION_ISSUE_SUGGESTIONS: Partial<Record<ClarityIssueType, string>> = {
+  [ClarityIssueType.MISPRONUNCIATION]: 'Say these words slowly, stressing each syllable, then at normal speed',
+  [ClarityIssueType.MUMBLING]: 'Open your mouth wider and voice the vowels fully',
+  [ClarityIssueType.UNCLEAR_ENUNCIATION]: 'Keep your volume up through the end of the phrase',
+  [ClarityIssueType.POOR_ARTICULATION]: 'Give every syllable its full length'
+};
 
 export class SpeechAnalysisEngine {
   private config: SpeechAnalysisConfig;
+  private transcriptionProvider: TranscriptionProvider;
+  private audioFeatureExtractor: AudioFeatureExtractor;
+  private patternDetector: SpeechPatternDetector;
+  private languagePacks: LanguagePackRegistry;
+  private diarizer: SpeakerDiarizer;
+  private pronunciationAssessor: PronunciationAssessor;
 
-  constructor(config: SpeechAnalysisConfig) {
+  /**
+   * Without a transcription provider, one is selected from the environment
+   * (STT_PROVIDER), using the configured Whisper API key and base URL.
+   */
+  constructor(
+    config: SpeechAnalysisConfig,
+    transcriptionProvider?: TranscriptionProvider,
+    languagePacks: LanguagePackRegistry = new LanguagePackRegistry(),
+    diarizer?: SpeakerDiarizer
+  ) {
     this.config = config;
+    this.languagePacks = languagePacks;
+    this.transcriptionProvider = transcriptionProvider || createTranscriptionProviderFromEnv(process.env, {
+      apiKey: config.whisperApiKey,
+      baseUrl: config.whisperBaseUrl
+    });
+    this.audioFeatureExtractor = new AudioFeatureExtractor({
+      minPauseLength: config.pauseThresholds.minPauseLength
+    });
+    this.diarizer = diarizer || new SpeakerDiarizer({}, this.audioFeatureExtractor);
+    this.patternDetector = new SpeechPatternDetector(config.pauseThresholds);
+    this.pronunciationAssessor = new PronunciationAssessor();
     logger.info('Speech Analysis Engine initialized', {
       enableAdvancedAnalysis: config.enableAdvancedAnalysis,
-      whisperModel: 'configured',
+      transcriptionProvider: this.transcriptionProvider.type,
       fillerWordsCount: config.fillerWords.verbal.length + config.fillerWords.lexical.length
     });
   }
@@ -67,23 +120,38 @@ export class SpeechAnalysisEngine {
         language: request.context.language
       });
 
-      // Step 1: Transcribe audio using Whisper API
-      const transcription = await this.transcribeAudio(request);
+      // Step 1: Transcribe audio with the configured speech-to-text provider
+      const fullTranscription = await this.transcribeAudio(request);
+
+      // Step 2: Decode the samples and, when asked, keep only the candidate's speech
+      const signal = this.decodeAudio(request);
+      const diarization = this.diarize(request, signal);
+      const transcription = diarization
+        ? this.candidateTranscription(fullTranscription, diarization)
+        : fullTranscription;
 
-      // Step 2: Analyze different aspects of speech
+      // Step 3: Pick the language pack, trusting the language the provider heard
+      const language = this.languagePacks.resolve(transcription.language || request.context.language, transcription.text);
+
+      // Step 4: Measure energy, pauses and pitch from the samples themselves
+      const audioFeatures = signal ? this.extractAudioFeatures(signal, diarization) : undefined;
+
+      // Step 5: Analyze different aspects of speech
       const result: SpeechAnalysisResult = {
         overallScore: 0,
         transcription,
-        paceAnalysis: await this.analyzePace(transcription, request),
-        pauseAnalysis: await this.analyzePauses(transcription, request),
-        fillerAnalysis: await this.analyzeFillers(transcription, request),
-        clarityAnalysis: await this.analyzeClarity(request),
+        paceAnalysis: await this.analyzePace(transcription, request, language.pack),
+        pauseAnalysis: await this.analyzePauses(transcription, request, audioFeatures),
+        fillerAnalysis: await this.analyzeFillers(transcription, request, language.pack),
+        clarityAnalysis: await this.analyzeClarity(request, transcription, language.pack, audioFeatures),
         confidenceAnalysis: await this.analyzeConfidence(transcription, request),
-        emotionAnalysis: await this.analyzeEmotions(request),
-        volumeAnalysis: await this.analyzeVolume(request),
+        emotionAnalysis: await this.analyzeEmotions(request, audioFeatures),
+        volumeAnalysis: await this.analyzeVolume(request, audioFeatures),
         recommendations: [],
         confidence: 0,
-        processingTime: 0
+        processingTime: 0,
+        languageSupport: language.support,
+        diarization
       };
 
       // Calculate overall score
@@ -93,7 +161,7 @@ export class SpeechAnalysisEngine {
       result.recommendations = this.generateRecommendations(result);
       
       // Calculate confidence
-      result.confidence = this.calculateAnalysisConfidence(result);
+      result.confidence = this.calculateAnalysisConfidence(result, language.support);
       
       result.processingTime = Date.now() - startTime;
 
@@ -107,6 +175,9 @@ export class SpeechAnalysisEngine {
 
     } catch (error: any) {
       logger.error('Speech analysis failed', { error, request: { duration: request.audioData.duration } });
+      if (error instanceof SpeechAnalysisError) {
+        throw error;
+      }
       throw new SpeechAnalysisError({
         code: SpeechAnalysisErrorCode.PROCESSING_FAILED,
         message: 'Failed to analyze speech',
@@ -116,29 +187,44 @@ export class SpeechAnalysisEngine {
   }
 
   /**
-   * Transcribe audio using Whisper API
+   * Transcribe audio with the configured speech-to-text provider
    */
   private async transcribeAudio(request: SpeechAnalysisRequest): Promise<TranscriptionResult> {
     try {
       logger.info('Starting audio transcription', {
         duration: request.audioData.duration,
         format: request.audioData.format.encoding,
-        language: request.context.language
+        language: request.context.language,
+        provider: this.transcriptionProvider.type,
+        whisperModel: request.options.whisperModel
       });
 
-      // In a real implementation, this would call the OpenAI Whisper API
-      // For now, we'll simulate the transcription process
-      const mockTranscription = this.simulateWhisperTranscription(request);
+      const transcription = await this.transcriptionProvider.transcribe({
+        audio: request.audioData,
+        language: request.context.language === AUTO_DETECT_LANGUAGE ? undefined : request.context.language,
+        model: request.options.whisperModel
+      });
 
       logger.info('Transcription completed', {
-        wordCount: mockTranscription.wordCount,
-        confidence: mockTranscription.confidence,
-        language: mockTranscription.language
+        wordCount: transcription.wordCount,
+        confidence: transcription.confidence,
+        language: transcription.language
       });
 
-      return mockTranscription;
+      if (transcription.wordCount === 0) {
+        throw new SpeechAnalysisError({
+          code: SpeechAnalysisErrorCode.INSUFFICIENT_AUDIO_QUALITY,
+          message: 'No speech detected in audio'
+        });
+      }
+
+      return transcription;
 
     } catch (error: any) {
+      if (error instanceof SpeechAnalysisError) {
+        throw error;
+      }
+
       logger.error('Transcription failed', { error });
       throw new SpeechAnalysisError({
         code: SpeechAnalysisErrorCode.TRANSCRIPTION_FAILED,
@@ -148,79 +234,19 @@ export class SpeechAnalysisEngine {
     }
   }
 
-  /**
-   * Simulate Whisper API transcription (for testing/demo purposes)
-   */
-  private simulateWhisperTranscription(request: SpeechAnalysisRequest): TranscriptionResult {
-    // Mock transcription based on audio duration and context
-    const mockTexts = [
-      "In my previous role as a software engineer, I faced a challenging situation where our main database was experiencing performance issues. I was responsible for identifying and resolving the bottleneck within twenty-four hours. I immediately started by analyzing query patterns, implemented database indexing strategies, and optimized the most expensive queries. As a result, we reduced response times by sixty percent and improved overall system performance.",
-      "Um, so I think, you know, the biggest challenge I faced was, uh, working with a difficult team member. Like, they were always, um, disagreeing with our decisions and, uh, it was really hard to, you know, get things done efficiently.",
-      "I have extensive experience in JavaScript, React, and Node.js. I've built several full-stack applications and I'm comfortable with both frontend and backend development. I enjoy solving complex problems and working in collaborative environments."
-    ];
-
-    const selectedText = mockTexts[Math.floor(Math.random() * mockTexts.length)];
-    const words = selectedText.split(' ');
-    const duration = request.audioData.duration;
-    const wordsPerSecond = words.length / duration;
-
-    // Create word segments with timestamps
-    const wordSegments: WordSegment[] = words.map((word, index) => ({
-      word: word.replace(/[.,!?]/g, ''),
-      start: (index / wordsPerSecond),
-      end: ((index + 1) / wordsPerSecond),
-      confidence: 0.85 + Math.random() * 0.15,
-      probability: 0.8 + Math.random() * 0.2
-    }));
-
-    // Create segments (sentences)
-    const segments: TranscriptionSegment[] = [];
-    let currentSegment: WordSegment[] = [];
-    let segmentId = 0;
-    let segmentStart = 0;
-
-    wordSegments.forEach((wordSegment, index) => {
-      currentSegment.push(wordSegment);
-      
-      // End segment on punctuation or every 10-15 words
-      if (wordSegment.word.match(/[.!?]/) || currentSegment.length >= 12 || index === wordSegments.length - 1) {
-        const segmentText = currentSegment.map(w => w.word).join(' ');
-        const segmentEnd = currentSegment[currentSegment.length - 1].end;
-        
-        segments.push({
-          id: segmentId++,
-          text: segmentText,
-          start: segmentStart,
-          end: segmentEnd,
-          confidence: currentSegment.reduce((sum, w) => sum + w.confidence, 0) / currentSegment.length,
-          words: [...currentSegment]
-        });
-
-        segmentStart = segmentEnd;
-        currentSegment = [];
-      }
-    });
-
-    return {
-      text: selectedText,
-      segments,
-      language: request.context.language,
-      confidence: 0.87,
-      wordCount: words.length,
-      duration: request.audioData.duration
-    };
-  }
-
   /**
    * Analyze speech pace and rhythm
    */
-  private async analyzePace(transcription: TranscriptionResult, request: SpeechAnalysisRequest): Promise<PaceAnalysis> {
+  private async analyzePace(
+    transcription: TranscriptionResult,
+    request: SpeechAnalysisRequest,
+    language: LanguagePack
+  ): Promise<PaceAnalysis> {
     const duration = transcription.duration;
     const wordCount = transcription.wordCount;
     const wordsPerMinute = (wordCount / duration) * 60;
 
-    // Calculate syllables (simplified estimation)
-    const syllableCount = this.estimateSyllables(transcription.text);
+    const syllableCount = this.estimateSyllables(transcription.text, language);
     const syllablesPerMinute = (syllableCount / duration) * 60;
 
     // Analyze pace variability across segments
@@ -271,7 +297,7 @@ export class SpeechAnalysisEngine {
       slowSegments
     };
 
-    const patterns = this.identifyPacePatterns(segmentPaces, transcription.segments);
+    const patterns = this.patternDetector.detectPacePatterns(transcription, optimalRange);
     const recommendations = this.generatePaceRecommendations(metrics, patterns);
     const score = this.calculatePaceScore(metrics, patterns);
 
@@ -286,20 +312,27 @@ export class SpeechAnalysisEngine {
   /**
    * Analyze pauses and hesitations
    */
-  private async analyzePauses(transcription: TranscriptionResult, request: SpeechAnalysisRequest): Promise<PauseAnalysis> {
+  private async analyzePauses(
+    transcription: TranscriptionResult,
+    request: SpeechAnalysisRequest,
+    audioFeatures?: AudioFeatures
+  ): Promise<PauseAnalysis> {
     const pauses: TimeSegment[] = [];
     let totalPauseTime = 0;
 
-    // Identify pauses between words and segments
-    for (let i = 0; i < transcription.segments.length - 1; i++) {
-      const currentSegment = transcription.segments[i];
-      const nextSegment = transcription.segments[i + 1];
-      const pauseDuration = nextSegment.start - currentSegment.end;
+    // Silences measured in the signal; without decodable audio, fall back to
+    // gaps between transcript segments
+    const gaps = audioFeatures
+      ? audioFeatures.pauses.map(pause => ({ start: pause.start, end: pause.end }))
+      : transcription.segments.slice(1).map((segment, i) => ({ start: transcription.segments[i].end, end: segment.start }));
+
+    for (const gap of gaps) {
+      const pauseDuration = gap.end - gap.start;
 
       if (pauseDuration > this.config.pauseThresholds.minPauseLength) {
         pauses.push({
-          start: currentSegment.end,
-          end: nextSegment.start,
+          start: gap.start,
+          end: gap.end,
           value: pauseDuration,
           severity: this.categorizePauseSeverity(pauseDuration)
         });
@@ -337,7 +370,7 @@ export class SpeechAnalysisEngine {
       hesitationPauses
     };
 
-    const patterns = this.identifyPausePatterns(pauses, transcription);
+    const patterns = this.patternDetector.detectPausePatterns(pauses, transcription, request.context.technicalTerms);
     const recommendations = this.generatePauseRecommendations(metrics, patterns);
     const score = this.calculatePauseScore(metrics, patterns);
 
@@ -352,38 +385,45 @@ export class SpeechAnalysisEngine {
   /**
    * Analyze filler words and hesitations
    */
-  private async analyzeFillers(transcription: TranscriptionResult, request: SpeechAnalysisRequest): Promise<FillerAnalysis> {
+  private async analyzeFillers(
+    transcription: TranscriptionResult,
+    request: SpeechAnalysisRequest,
+    language: LanguagePack
+  ): Promise<FillerAnalysis> {
+    // The configured lexicon is the English one; other languages use their pack's
+    const lexicon = language.code === 'en' ? this.config.fillerWords : language.fillers;
     const fillerWords = [
-      ...this.config.fillerWords.verbal,
-      ...this.config.fillerWords.lexical,
+      ...lexicon.verbal,
+      ...lexicon.lexical,
       ...this.config.fillerWords.customFillers
     ];
+    const longestFiller = Math.max(1, ...fillerWords.map(filler => filler.split(/\s+/).length));
 
     const detectedFillers: any[] = [];
     let totalFillers = 0;
 
-    // Analyze each segment for filler words
+    // Analyze each segment for filler words, preferring the longest matching phrase
     transcription.segments.forEach(segment => {
-      const words = segment.text.toLowerCase().split(/\s+/);
-      
-      words.forEach((word, wordIndex) => {
-        const cleanWord = word.replace(/[^\w]/g, '');
-        
-        if (fillerWords.includes(cleanWord)) {
-          const wordSegment = segment.words[wordIndex];
-          if (wordSegment) {
-            detectedFillers.push({
-              filler: cleanWord,
-              start: wordSegment.start,
-              end: wordSegment.end,
-              confidence: wordSegment.confidence,
-              context: segment.text,
-              type: this.categorizeFillerType(cleanWord)
-            });
-            totalFillers++;
-          }
+      const words = segment.words.map(word => word.word.toLowerCase().replace(/[^\p{L}\p{M}\p{N}]/gu, ''));
+
+      for (let i = 0; i < words.length; i++) {
+        for (let length = Math.min(longestFiller, words.length - i); length > 0; length--) {
+          const phrase = words.slice(i, i + length).join(' ');
+          if (!fillerWords.includes(phrase)) continue;
+
+          detectedFillers.push({
+            filler: phrase,
+            start: segment.words[i].start,
+            end: segment.words[i + length - 1].end,
+            confidence: segment.words[i].confidence,
+            context: segment.text,
+            type: this.categorizeFillerType(phrase, lexicon.verbal)
+          });
+          totalFillers++;
+          i += length - 1;
+          break;
         }
-      });
+      }
     });
 
     // Calculate metrics
@@ -428,10 +468,32 @@ export class SpeechAnalysisEngine {
   /**
    * Analyze speech clarity and articulation
    */
-  private async analyzeClarity(request: SpeechAnalysisRequest): Promise<ClarityAnalysis> {
-    // In a real implementation, this would analyze audio signal properties
-    // For now, we'll simulate clarity analysis based on audio characteristics
-    
+  private async analyzeClarity(
+    request: SpeechAnalysisRequest,
+    transcription: TranscriptionResult,
+    language: LanguagePack,
+    audioFeatures?: AudioFeatures
+  ): Promise<ClarityAnalysis> {
+    const pronunciation = request.options.enablePronunciationAssessment
+      ? this.pronunciationAssessor.assess(transcription, language, audioFeatures, {
+        referenceText: request.context.referenceText,
+        technicalTerms: request.context.technicalTerms
+      })
+      : undefined;
+    const issues = pronunciation ? this.identifyPronunciationIssues(pronunciation) : [];
+
+    if (audioFeatures) {
+      const metrics = this.applyPronunciation(this.measureClarity(audioFeatures), pronunciation);
+      return {
+        score: this.calculateClarityScore(metrics),
+        metrics,
+        issues,
+        recommendations: this.generateClarityRecommendations(metrics, issues),
+        pronunciation
+      };
+    }
+
+    // Without decodable samples, estimate clarity from the recording format
     const sampleRate = request.audioData.sampleRate;
     const bitDepth = request.audioData.bitDepth;
     const duration = request.audioData.duration;
@@ -439,7 +501,7 @@ export class SpeechAnalysisEngine {
     // Simulate clarity metrics based on audio quality
     const baseClarity = Math.min(1.0, (sampleRate / 44100) * (bitDepth / 16));
     
-    const metrics: ClarityMetrics = {
+    const metrics: ClarityMetrics = this.applyPronunciation({
       articulationScore: baseClarity * (0.8 + Math.random() * 0.2),
       pronunciationScore: baseClarity * (0.85 + Math.random() * 0.15),
       enunciationScore: baseClarity * (0.75 + Math.random() * 0.25),
@@ -447,9 +509,8 @@ export class SpeechAnalysisEngine {
       speechClarity: baseClarity * (0.82 + Math.random() * 0.18),
       backgroundNoiseLevel: Math.random() * 0.3,
       signalToNoiseRatio: 15 + Math.random() * 10 // dB
-    };
+    }, pronunciation);
 
-    const issues: any[] = []; // Would identify specific clarity issues
     const recommendations = this.generateClarityRecommendations(metrics, issues);
     const score = this.calculateClarityScore(metrics);
 
@@ -457,10 +518,91 @@ export class SpeechAnalysisEngine {
       score,
       metrics,
       issues,
-      recommendations
+      recommendations,
+      pronunciation
+    };
+  }
+
+  /**
+   * Replace signal-based articulation estimates with word-level scores
+   */
+  private applyPronunciation(metrics: ClarityMetrics, pronunciation?: PronunciationAssessment): ClarityMetrics {
+    if (!pronunciation || pronunciation.words.length === 0) {
+      return metrics;
+    }
+
+    return {
+      ...metrics,
+      articulationScore: pronunciation.articulation,
+      pronunciationScore: pronunciation.score,
+      enunciationScore: pronunciation.intelligibility
     };
   }
 
+  /**
+   * One issue per run of consecutive low-scoring words with the same problem,
+   * and one per mispronounced technical term
+   */
+  private identifyPronunciationIssues(pronunciation: PronunciationAssessment): ClarityIssue[] {
+    const issues: ClarityIssue[] = [];
+    const flagged = new Set(this.pronunciationAssessor.flaggedWords(pronunciation));
+    let run: WordPronunciation[] = [];
+    let runType: ClarityIssueType | undefined;
+
+    const closeRun = () => {
+      if (run.length > 0 && runType) {
+        const score = Math.min(...run.map(word => word.score));
+        const severity = score < 0.3 ? SegmentSeverity.HIGH : score < 0.45 ? SegmentSeverity.MEDIUM : SegmentSeverity.LOW;
+        issues.push({
+          type: runType,
+          severity,
+          timeSegment: { start: run[0].start, end: run[run.length - 1].end, value: score, severity },
+          description: PRONUNCIATION_ISSUE_DESCRIPTIONS[runType]!,
+          affectedWords: run.map(word => word.word),
+          suggestion: PRONUNCIATION_ISSUE_SUGGESTIONS[runType]!
+        });
+      }
+      run = [];
+      runType = undefined;
+    };
+
+    for (const word of pronunciation.words) {
+      const type = flagged.has(word) ? this.clarityIssueTypeOf(word) : undefined;
+      if (type !== runType) closeRun();
+      if (type) {
+        run.push(word);
+        runType = type;
+      }
+    }
+    closeRun();
+
+    for (const term of pronunciation.mispronouncedTerms) {
+      issues.push({
+        type: ClarityIssueType.MISPRONUNCIATION,
+        severity: SegmentSeverity.MEDIUM,
+        timeSegment: { start: term.start, end: term.end, value: term.confidence, severity: SegmentSeverity.MEDIUM },
+        description: `"${term.term}" was heard as "${term.heardAs}"`,
+        affectedWords: [term.term],
+        suggestion: term.guide ? `Say it ${term.guide}. ${term.tip}` : `Practice saying "${term.term}" slowly and clearly`
+      });
+    }
+
+    return issues.sort((a, b) => a.timeSegment.start - b.timeSegment.start);
+  }
+
+  private clarityIssueTypeOf(word: WordPronunciation): ClarityIssueType {
+    if (word.issues.includes(PronunciationIssueType.SUBSTITUTION) || word.issues.includes(PronunciationIssueType.LOW_INTELLIGIBILITY)) {
+      return ClarityIssueType.MISPRONUNCIATION;
+    }
+    if (word.issues.includes(PronunciationIssueType.MUMBLED)) {
+      return ClarityIssueType.MUMBLING;
+    }
+    if (word.issues.includes(PronunciationIssueType.WEAK)) {
+      return ClarityIssueType.UNCLEAR_ENUNCIATION;
+    }
+    return ClarityIssueType.POOR_ARTICULATION;
+  }
+
   /**
    * Analyze confidence indicators in speech
    */
@@ -501,7 +643,11 @@ export class SpeechAnalysisEngine {
   /**
    * Analyze emotional content in speech
    */
-  private async analyzeEmotions(request: SpeechAnalysisRequest): Promise<EmotionAnalysis> {
+  private async analyzeEmotions(request: SpeechAnalysisRequest, audioFeatures?: AudioFeatures): Promise<EmotionAnalysis> {
+    if (audioFeatures && audioFeatures.pitch.voicedRatio > 0) {
+      return this.measureEmotions(audioFeatures);
+    }
+
     // Simulate emotion analysis based on speech characteristics
     const emotions = [
       { emotion: EmotionType.CONFIDENCE, intensity: 0.7 + Math.random() * 0.3, confidence: 0.8 },
@@ -542,7 +688,18 @@ export class SpeechAnalysisEngine {
   /**
    * Analyze volume and vocal dynamics
    */
-  private async analyzeVolume(request: SpeechAnalysisRequest): Promise<VolumeAnalysis> {
+  private async analyzeVolume(request: SpeechAnalysisRequest, audioFeatures?: AudioFeatures): Promise<VolumeAnalysis> {
+    if (audioFeatures) {
+      const metrics = this.measureVolume(audioFeatures);
+      const patterns: any[] = [];
+      return {
+        score: this.calculateVolumeScore(metrics),
+        metrics,
+        patterns,
+        recommendations: this.generateVolumeRecommendations(metrics, patterns)
+      };
+    }
+
     // Simulate volume analysis based on audio characteristics
     const averageVolume = 0.6 + Math.random() * 0.3;
     const volumeRange = {
@@ -572,6 +729,191 @@ export class SpeechAnalysisEngine {
     };
   }
 
+  /**
+   * Decode the payload for signal-level measurements. Formats the decoder
+   * does not support fall back to transcript- and metadata-based estimates.
+   */
+  private decodeAudio(request: SpeechAnalysisRequest): AudioSignal | undefined {
+    try {
+      return this.audioFeatureExtractor.decode(request.audioData);
+    } catch (error: any) {
+      logger.warn('Audio could not be decoded for signal analysis, using estimates', {
+        encoding: request.audioData.format.encoding,
+        reason: error.message
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Find the candidate's turns when the recording also holds the interviewer.
+   * Diarization needs the samples, so undecodable audio is analyzed whole.
+   */
+  private diarize(request: SpeechAnalysisRequest, signal?: AudioSignal): DiarizationResult | undefined {
+    if (!request.options.enableDiarization) {
+      return undefined;
+    }
+    if (!signal) {
+      logger.warn('Diarization skipped, audio could not be decoded', { encoding: request.audioData.format.encoding });
+      return undefined;
+    }
+
+    return this.diarizer.diarize(signal, { interviewerSpeech: request.context.interviewerSpeech });
+  }
+
+  private candidateTranscription(transcription: TranscriptionResult, diarization: DiarizationResult): TranscriptionResult {
+    const candidate = this.diarizer.candidateTranscript(transcription, diarization);
+
+    if (candidate.wordCount === 0) {
+      throw new SpeechAnalysisError({
+        code: SpeechAnalysisErrorCode.INSUFFICIENT_AUDIO_QUALITY,
+        message: 'No candidate speech detected in audio',
+        details: { method: diarization.method, turns: diarization.turns.length }
+      });
+    }
+
+    return candidate;
+  }
+
+  /**
+   * Measure the candidate's voice only: their own channel when they have
+   * one, restricted to their turns
+   */
+  private extractAudioFeatures(signal: AudioSignal, diarization?: DiarizationResult): AudioFeatures {
+    if (!diarization) {
+      return this.audioFeatureExtractor.extract(signal);
+    }
+
+    return this.audioFeatureExtractor.extract(
+      this.diarizer.candidateSignal(signal, diarization),
+      this.diarizer.turnsOf(diarization, SpeakerRole.CANDIDATE)
+    );
+  }
+
+  private measureClarity(features: AudioFeatures): ClarityMetrics {
+    const volumeConsistency = Math.max(0, 1 - this.speechLevelDeviation(features) * 4);
+    const speechClarity = Math.min(1, features.signalToNoiseRatio / 30) * 0.6 + volumeConsistency * 0.4;
+
+    // Articulation is estimated from signal quality until word-level scoring exists
+    return {
+      articulationScore: speechClarity,
+      pronunciationScore: speechClarity,
+      enunciationScore: speechClarity,
+      volumeConsistency,
+      speechClarity,
+      backgroundNoiseLevel: features.noiseFloor,
+      signalToNoiseRatio: features.signalToNoiseRatio
+    };
+  }
+
+  private measureVolume(features: AudioFeatures): VolumeMetrics {
+    const thresholds = this.config.volumeThresholds;
+    const levels = this.speechLevels(features);
+    const sorted = [...levels].sort((a, b) => a - b);
+    const inRange = levels.filter(level => level >= thresholds.optimalRange.min && level <= thresholds.optimalRange.max);
+
+    return {
+      averageVolume: features.speechLevel,
+      volumeRange: {
+        min: sorted[Math.floor(sorted.length * 0.1)] ?? 0,
+        max: sorted[Math.floor(sorted.length * 0.9)] ?? 0,
+        optimal: thresholds.optimalRange
+      },
+      volumeVariability: this.speechLevelDeviation(features),
+      optimalVolumePercentage: levels.length > 0 ? (inRange.length / levels.length) * 100 : 0,
+      tooQuietSegments: this.findLevelRuns(features, level => level < thresholds.minAudibleLevel),
+      tooLoudSegments: this.findLevelRuns(features, level => level > thresholds.maxComfortableLevel)
+    };
+  }
+
+  /**
+   * Prosody heuristics: varied pitch reads as enthusiasm, unsteady pitch and
+   * level (jitter, shimmer) as nervousness
+   */
+  private measureEmotions(features: AudioFeatures): EmotionAnalysis {
+    const clamp = (value: number) => Math.max(0, Math.min(1, value));
+    const { pitch } = features;
+    const pitchVariation = pitch.mean > 0 ? Math.sqrt(pitch.variance) / pitch.mean : 0;
+
+    const nervousness = clamp(pitch.jitter / 0.05) * 0.5 + clamp(pitch.shimmer / 0.3) * 0.5;
+    const enthusiasm = clamp(pitchVariation / 0.25) * 0.7 + clamp(features.speechLevel / 0.7) * 0.3;
+    const calmness = clamp(1 - nervousness * 0.7 - clamp(pitchVariation / 0.4) * 0.3);
+    const confidence = clamp(features.speechLevel / 0.6) * 0.5 + (1 - nervousness) * 0.5;
+    const detectionConfidence = 0.5 + pitch.voicedRatio * 0.4;
+
+    const emotions = [
+      { emotion: EmotionType.CONFIDENCE, intensity: confidence },
+      { emotion: EmotionType.ENTHUSIASM, intensity: enthusiasm },
+      { emotion: EmotionType.NERVOUSNESS, intensity: nervousness },
+      { emotion: EmotionType.CALMNESS, intensity: calmness }
+    ].map(emotion => ({
+      ...emotion,
+      confidence: detectionConfidence,
+      timeSegments: [],
+      triggers: []
+    }));
+
+    const primaryEmotion = emotions.reduce((prev, current) =>
+      prev.intensity > current.intensity ? prev : current
+    ).emotion;
+
+    const emotionalStability = clamp(1 - clamp(pitch.shimmer / 0.3) * 0.5 - clamp(pitchVariation / 0.4) * 0.5);
+    const intensities = emotions.map(e => e.intensity);
+
+    return {
+      score: this.calculateEmotionScore(emotions, emotionalStability),
+      primaryEmotion,
+      emotions,
+      emotionalStability,
+      emotionalRange: {
+        min: Math.min(...intensities),
+        max: Math.max(...intensities),
+        average: intensities.reduce((sum, value) => sum + value, 0) / intensities.length,
+        variance: this.calculateVariance(intensities)
+      },
+      recommendations: this.generateEmotionRecommendations(emotions, emotionalStability)
+    };
+  }
+
+  private speechLevels(features: AudioFeatures): number[] {
+    return features.energyEnvelope.filter((_, frame) => features.voicedFrames[frame]);
+  }
+
+  private speechLevelDeviation(features: AudioFeatures): number {
+    const levels = this.speechLevels(features);
+    return levels.length > 0 ? Math.sqrt(this.calculateVariance(levels)) : 0;
+  }
+
+  // Stretches of speech of at least half a second whose level matches the predicate
+  private findLevelRuns(features: AudioFeatures, predicate: (level: number) => boolean): TimeSegment[] {
+    const runs: TimeSegment[] = [];
+    let start = -1;
+    let sum = 0;
+
+    features.energyEnvelope.forEach((level, frame) => {
+      const matches = features.voicedFrames[frame] && predicate(level);
+      if (matches) {
+        start = start < 0 ? frame : start;
+        sum += level;
+      }
+      if ((!matches || frame === features.energyEnvelope.length - 1) && start >= 0) {
+        const end = matches ? frame + 1 : frame;
+        if ((end - start) * features.hopLength >= 0.5) {
+          runs.push({
+            start: start * features.hopLength,
+            end: end * features.hopLength,
+            value: sum / (end - start),
+            severity: (end - start) * features.hopLength > 3 ? SegmentSeverity.HIGH : SegmentSeverity.MEDIUM
+          });
+        }
+        start = -1;
+        sum = 0;
+      }
+    });
+
+    return runs;
+  }
+
   // Helper methods for calculations and analysis
 
   private validateInput(request: SpeechAnalysisRequest): void {
@@ -597,14 +939,9 @@ export class SpeechAnalysisEngine {
     }
   }
 
-  private estimateSyllables(text: string): number {
-    // Simplified syllable counting algorithm
-    const words = text.toLowerCase().split(/\s+/);
-    return words.reduce((total, word) => {
-      const vowelGroups = word.match(/[aeiouy]+/g);
-      const syllableCount = vowelGroups ? vowelGroups.length : 1;
-      return total + Math.max(1, syllableCount);
-    }, 0);
+  private estimateSyllables(text: string, language: LanguagePack): number {
+    const words = text.toLowerCase().split(/\s+/).filter(word => word.length > 0);
+    return words.reduce((total, word) => total + language.countSyllables(word), 0);
   }
 
   private calculateVariance(values: number[]): number {
@@ -630,13 +967,8 @@ export class SpeechAnalysisEngine {
     return SegmentSeverity.LOW;
   }
 
-  private categorizeFillerType(filler: string): FillerType {
-    const verbalFillers = ['um', 'uh', 'er', 'ah'];
-    const lexicalFillers = ['like', 'you know', 'basically', 'actually', 'literally'];
-    
-    if (verbalFillers.includes(filler)) return FillerType.VERBAL;
-    if (lexicalFillers.includes(filler)) return FillerType.LEXICAL;
-    return FillerType.LEXICAL;
+  private categorizeFillerType(filler: string, verbalFillers: string[]): FillerType {
+    return verbalFillers.includes(filler) ? FillerType.VERBAL : FillerType.LEXICAL;
   }
 
   private assessFillerImpact(count: number, total: number): any {
@@ -668,7 +1000,7 @@ export class SpeechAnalysisEngine {
     );
   }
 
-  private calculatePaceScore(metrics: PaceMetrics, patterns: any[]): number {
+  private calculatePaceScore(metrics: PaceMetrics, patterns: PacePattern[]): number {
     let score = 1.0;
     
     // Penalize deviation from optimal pace
@@ -682,10 +1014,13 @@ export class SpeechAnalysisEngine {
     // Penalize rushing or slow segments
     score -= (metrics.rushingSegments.length + metrics.slowSegments.length) * 0.05;
     
+    // Penalize rushing, trailing off and accelerating
+    score -= patterns.reduce((sum, pattern) => sum + pattern.impact, 0) * 0.1;
+    
     return Math.max(0, Math.min(1, score));
   }
 
-  private calculatePauseScore(metrics: PauseMetrics, patterns: any[]): number {
+  private calculatePauseScore(metrics: PauseMetrics, patterns: PausePattern[]): number {
     let score = 0.8; // Base score
     
     // Reward strategic pauses
@@ -699,6 +1034,10 @@ export class SpeechAnalysisEngine {
       score -= 0.2;
     }
     
+    // Penalize searching for technical terms
+    const thinking = patterns.find(pattern => pattern.type === PausePatternType.THINKING);
+    score -= (thinking?.occurrences.length || 0) * 0.03;
+    
     return Math.max(0, Math.min(1, score));
   }
 
@@ -747,8 +1086,9 @@ export class SpeechAnalysisEngine {
     return metrics.optimalVolumePercentage / 100;
   }
 
-  private calculateAnalysisConfidence(result: SpeechAnalysisResult): number {
-    return result.transcription.confidence * 0.6 + 0.4; // Base confidence from transcription
+  private calculateAnalysisConfidence(result: SpeechAnalysisResult, language: LanguageSupport): number {
+    const confidence = result.transcription.confidence * 0.6 + 0.4; // Base confidence from transcription
+    return language.supported ? confidence : confidence * UNSUPPORTED_LANGUAGE_CONFIDENCE_FACTOR;
   }
 
   // Recommendation generation methods
@@ -764,10 +1104,8 @@ export class SpeechAnalysisEngine {
     return recommendations.slice(0, 8); // Limit to top 8 recommendations
   }
 
-  // Placeholder methods for pattern identification and recommendation generation
-  private identifyPacePatterns(paces: number[], segments: any[]): any[] { return []; }
-  private identifyPausePatterns(pauses: TimeSegment[], transcription: TranscriptionResult): any[] { return []; }
-  private generatePaceRecommendations(metrics: PaceMetrics, patterns: any[]): string[] { 
+  // Placeholder methods for recommendation generation
+  private generatePaceRecommendations(metrics: PaceMetrics, patterns: PacePattern[]): string[] { 
     const recommendations = [];
     if (metrics.averageWordsPerMinute > metrics.optimalRange.max) {
       recommendations.push('Slow down your speaking pace for better clarity');
@@ -775,13 +1113,27 @@ export class SpeechAnalysisEngine {
     if (metrics.averageWordsPerMinute < metrics.optimalRange.min) {
       recommendations.push('Increase your speaking pace to maintain engagement');
     }
+    const types = patterns.map(pattern => pattern.type);
+    if (types.includes(PacePatternType.NERVOUS_RUSH)) {
+      recommendations.push('Take a breath before answering; your opening was much faster than the rest');
+    }
+    if (types.includes(PacePatternType.ACCELERATING)) {
+      recommendations.push('Keep a steady pace as the answer develops instead of speeding up');
+    }
+    if (types.includes(PacePatternType.DECELERATING)) {
+      recommendations.push('Finish with a clear concluding sentence rather than trailing off');
+    }
     return recommendations;
   }
-  private generatePauseRecommendations(metrics: PauseMetrics, patterns: any[]): string[] {
+  private generatePauseRecommendations(metrics: PauseMetrics, patterns: PausePattern[]): string[] {
     const recommendations = [];
     if (metrics.hesitationPauses > 5) {
       recommendations.push('Practice reducing hesitation pauses through preparation');
     }
+    if (patterns.some(pattern => pattern.type === PausePatternType.THINKING)) {
+      recommendations.push('Rehearse the technical terms you expect to use so they come without long pauses');
+    }
+
     return recommendations;
   }
   private generateFillerRecommendations(metrics: FillerMetrics, fillers: any[]): string[] {
@@ -791,11 +1143,21 @@ export class SpeechAnalysisEngine {
     }
     return recommendations;
   }
-  private generateClarityRecommendations(metrics: ClarityMetrics, issues: any[]): string[] {
+  private generateClarityRecommendations(metrics: ClarityMetrics, issues: ClarityIssue[]): string[] {
     const recommendations = [];
     if (metrics.articulationScore < 0.7) {
       recommendations.push('Focus on clearer articulation and enunciation');
     }
+
+    const mispronounced = Array.from(new Set(issues
+      .filter(issue => issue.type === ClarityIssueType.MISPRONUNCIATION)
+      .flatMap(issue => issue.affectedWords)));
+    if (mispronounced.length > 0) {
+      recommendations.push(`Practice the pronunciation of: ${mispronounced.slice(0, 5).join(', ')}`);
+    }
+    if (issues.some(issue => issue.type === ClarityIssueType.MUMBLING || issue.type === ClarityIssueType.UNCLEAR_ENUNCIATION)) {
+      recommendations.push('Carry your voice through to the end of each word');
+    }
     return recommendations;
   }
   private generateConfidenceRecommendations(metrics: ConfidenceMetrics, indicators: any[]): string[] {
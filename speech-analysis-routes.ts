@@ -31,6 +31,12 @@ router.post('/analyze/confidence',
   speechAnalysisController.analyzeConfidence
 );
 
+// Batch analysis
+router.post('/analyze/batch',
+  speechAnalysisController.batchUploadMiddleware,
+  speechAnalysisController.batchAnalyze
+);
+
 // Configuration and options
 router.get('/options', speechAnalysisController.getAnalysisOptions);
 
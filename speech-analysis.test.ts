@@ -4,6 +4,7 @@
  */
 
 import { SpeechAnalysisEngine } from '../services/speech-analysis-engine';
+import { FixtureTranscriptionProvider } from '../services/transcription-providers';
 import {
   SpeechAnalysisRequest,
   SpeechAnalysisConfig,
@@ -62,7 +63,7 @@ describe('SpeechAnalysisEngine', () => {
       }
     };
 
-    speechAnalysisEngine = new SpeechAnalysisEngine(defaultConfig);
+    speechAnalysisEngine = new SpeechAnalysisEngine(defaultConfig, new FixtureTranscriptionProvider());
   });
 
   describe('Basic Speech Analysis', () => {
@@ -3,6 +3,10 @@
  * Defines interfaces for speech and audio analysis
  */
 
+import { LanguageSupport } from './language-pack';
+import { DiarizationResult, SpeakerRole, TimeRange } from './diarization';
+import { PronunciationAssessment } from './pronunciation';
+
 export interface SpeechAnalysisRequest {
   audioData: AudioData;
   context: SpeechAnalysisContext;
@@ -36,9 +40,12 @@ export enum AudioEncoding {
 export interface SpeechAnalysisContext {
   questionType: string;
   expectedDuration?: number;
-  language: string;
+  language: string; // ISO 639-1 code, or 'auto' to detect it from the transcript
   speakerProfile?: SpeakerProfile;
   interviewStage?: InterviewStage;
+  technicalTerms?: string[]; // Domain terms (e.g. from the job description) checked when classifying pauses
+  interviewerSpeech?: TimeRange[]; // Known interviewer playback times, used to tell the voices apart
+  referenceText?: string; // Script read aloud in pronunciation practice
 }
 
 export interface SpeakerProfile {
@@ -66,6 +73,8 @@ export interface SpeechAnalysisOptions {
   enableVolumeAnalysis: boolean;
   confidenceThreshold: number;
   whisperModel: WhisperModel;
+  enableDiarization?: boolean; // Score only the candidate's speech when the recording includes the interviewer
+  enablePronunciationAssessment?: boolean; // Score articulation and intelligibility per word
 }
 
 export enum WhisperModel {
@@ -89,6 +98,8 @@ export interface SpeechAnalysisResult {
   recommendations: string[];
   confidence: number;
   processingTime: number;
+  languageSupport?: LanguageSupport;
+  diarization?: DiarizationResult;
 }
 
 export interface TranscriptionResult {
@@ -107,6 +118,7 @@ export interface TranscriptionSegment {
   end: number;
   confidence: number;
   words: WordSegment[];
+  speaker?: SpeakerRole;
 }
 
 export interface WordSegment {
@@ -115,6 +127,7 @@ export interface WordSegment {
   end: number;
   confidence: number;
   probability: number;
+  speaker?: SpeakerRole;
 }
 
 export interface PaceAnalysis {
@@ -276,6 +289,7 @@ export interface ClarityAnalysis {
   metrics: ClarityMetrics;
   issues: ClarityIssue[];
   recommendations: string[];
+  pronunciation?: PronunciationAssessment;
 }
 
 export interface ClarityMetrics {
@@ -0,0 +1,294 @@
+/**
+ * Speech Pattern Detector
+ * Finds pace and pause patterns in the word-timing stream of a transcription
+ */
+
+import {
+  TranscriptionResult,
+  WordSegment,
+  TimeSegment,
+  SegmentSeverity,
+  PaceRange,
+  PauseThresholds,
+  PacePattern,
+  PacePatternType,
+  PausePattern,
+  PausePatternType,
+  PauseOccurrence,
+  PauseImpact
+} from '../types/speech-analysis';
+
+const PACE_WINDOW_WORDS = 8;
+const MIN_PACE_WINDOW_WORDS = 4; // A shorter final window is merged into the previous one
+const OPENING_SECONDS = 10;
+const CLOSING_SECONDS = 10;
+const RUSH_RATIO = 1.15; // Opening pace relative to the rest of the answer
+const TRAIL_OFF_RATIO = 0.75; // Closing pace relative to the rest of the answer
+const ACCELERATION_RATIO = 1.2; // Final third relative to the first third
+const MIN_TREND_WINDOWS = 4;
+const TECHNICAL_LOOKAHEAD_WORDS = 2;
+const CONTEXT_WORDS = 3;
+const WORD_TIMING_TOLERANCE = 0.05; // seconds
+
+const TECHNICAL_TERMS = [
+  'algorithm', 'api', 'architecture', 'asynchronous', 'cache', 'caching', 'cluster', 'complexity',
+  'concurrency', 'container', 'containers', 'database', 'deadlock', 'deployment', 'docker', 'encryption',
+  'graphql', 'grpc', 'hash', 'hashmap', 'idempotency', 'idempotent', 'index', 'indexes', 'inheritance',
+  'java', 'javascript', 'kafka', 'kubernetes', 'lambda', 'latency', 'microservices', 'mongodb', 'mutex',
+  'oauth', 'pipeline', 'polymorphism', 'postgres', 'postgresql', 'python', 'queue', 'react', 'recursion',
+  'redis', 'replication', 'scalability', 'serverless', 'sharding', 'terraform', 'thread', 'throughput',
+  'typescript'
+];
+
+interface PaceWindow {
+  start: number;
+  end: number;
+  wordsPerMinute: number;
+}
+
+export class SpeechPatternDetector {
+  private pauseThresholds: PauseThresholds;
+
+  constructor(pauseThresholds: PauseThresholds) {
+    this.pauseThresholds = pauseThresholds;
+  }
+
+  /**
+   * Detect rushed openings, trailing off and acceleration over the course of an answer
+   */
+  public detectPacePatterns(transcription: TranscriptionResult, optimalRange: PaceRange): PacePattern[] {
+    const windows = this.buildPaceWindows(this.flattenWords(transcription));
+    if (windows.length === 0) {
+      return [];
+    }
+
+    return [
+      this.detectRushedOpening(windows, optimalRange),
+      this.detectAcceleration(windows),
+      this.detectTrailingOff(windows)
+    ].filter((pattern): pattern is PacePattern => pattern !== null);
+  }
+
+  /**
+   * Classify pauses by where they fall: before a technical term, mid-sentence
+   * or at a sentence boundary
+   */
+  public detectPausePatterns(
+    pauses: TimeSegment[],
+    transcription: TranscriptionResult,
+    technicalTerms: string[] = []
+  ): PausePattern[] {
+    const words = this.flattenWords(transcription);
+    const segmentEnds = new Set<WordSegment>(
+      transcription.segments
+        .filter(segment => segment.words.length > 0)
+        .map(segment => segment.words[segment.words.length - 1])
+    );
+    const extraTerms = technicalTerms.map(term => term.toLowerCase());
+    const occurrences: PauseOccurrence[] = [];
+
+    for (const pause of pauses) {
+      const nextIndex = words.findIndex(word => word.start >= pause.end - WORD_TIMING_TOLERANCE);
+      const before = words.slice(0, nextIndex === -1 ? words.length : nextIndex);
+      const after = nextIndex === -1 ? [] : words.slice(nextIndex);
+      const previous = before[before.length - 1];
+
+      const atBoundary = !previous || /[.?!]$/.test(previous.word) || segmentEnds.has(previous);
+      const isLong = pause.value >= this.pauseThresholds.hesitationThreshold;
+      const strategicRange = this.pauseThresholds.strategicPauseRange;
+
+      let type: PausePatternType | undefined;
+      if (isLong && after.slice(0, TECHNICAL_LOOKAHEAD_WORDS).some(word => this.isTechnicalTerm(word.word, extraTerms))) {
+        type = PausePatternType.THINKING;
+      } else if (isLong && (!atBoundary || pause.value > this.pauseThresholds.maxOptimalPause)) {
+        type = PausePatternType.HESITATION;
+      } else if (atBoundary && pause.value >= strategicRange.min && pause.value <= strategicRange.max) {
+        type = PausePatternType.STRATEGIC;
+      }
+
+      if (type) {
+        occurrences.push({
+          start: pause.start,
+          end: pause.end,
+          duration: pause.value,
+          type,
+          context: [
+            ...before.slice(-CONTEXT_WORDS).map(word => word.word),
+            '…',
+            ...after.slice(0, CONTEXT_WORDS).map(word => word.word)
+          ].join(' '),
+          severity: pause.severity
+        });
+      }
+    }
+
+    const minutes = transcription.duration / 60;
+    const impacts: Array<[PausePatternType, PauseImpact]> = [
+      [PausePatternType.THINKING, PauseImpact.NEGATIVE],
+      [PausePatternType.HESITATION, PauseImpact.NEGATIVE],
+      [PausePatternType.STRATEGIC, PauseImpact.POSITIVE]
+    ];
+
+    return impacts
+      .map(([type, impact]) => {
+        const matching = occurrences.filter(occurrence => occurrence.type === type);
+        return {
+          type,
+          occurrences: matching,
+          frequency: minutes > 0 ? matching.length / minutes : 0,
+          impact
+        };
+      })
+      .filter(pattern => pattern.occurrences.length > 0);
+  }
+
+  private detectRushedOpening(windows: PaceWindow[], optimalRange: PaceRange): PacePattern | null {
+    const openingEnd = windows[0].start + OPENING_SECONDS;
+    const rest = windows.filter(window => window.start >= openingEnd);
+    const reference = rest.length >= 2 ? this.median(rest.map(window => window.wordsPerMinute)) : optimalRange.optimal;
+    const threshold = Math.max(optimalRange.max, reference * RUSH_RATIO);
+
+    const rushed: PaceWindow[] = [];
+    for (const window of windows) {
+      if (window.start >= openingEnd || window.wordsPerMinute <= threshold) break;
+      rushed.push(window);
+    }
+    if (rushed.length === 0) {
+      return null;
+    }
+
+    const pace = this.mean(rushed.map(window => window.wordsPerMinute));
+    return {
+      type: PacePatternType.NERVOUS_RUSH,
+      segments: rushed.map(window => this.toTimeSegment(window, reference)),
+      impact: Math.min(1, pace / reference - 1),
+      description: `Opened at ${Math.round(pace)} WPM against ${Math.round(reference)} WPM ` +
+        (rest.length >= 2 ? 'for the rest of the answer' : 'optimal')
+    };
+  }
+
+  private detectTrailingOff(windows: PaceWindow[]): PacePattern | null {
+    if (windows.length < 3) {
+      return null;
+    }
+
+    const closingStart = windows[windows.length - 1].end - CLOSING_SECONDS;
+    const body = windows.filter(window => window.end <= closingStart);
+    const reference = this.median((body.length >= 2 ? body : windows.slice(0, -1)).map(window => window.wordsPerMinute));
+
+    const trailing: PaceWindow[] = [];
+    for (let i = windows.length - 1; i > 0; i--) {
+      const window = windows[i];
+      if (window.end <= closingStart || window.wordsPerMinute >= reference * TRAIL_OFF_RATIO) break;
+      trailing.unshift(window);
+    }
+    if (trailing.length === 0) {
+      return null;
+    }
+
+    const pace = this.mean(trailing.map(window => window.wordsPerMinute));
+    return {
+      type: PacePatternType.DECELERATING,
+      segments: trailing.map(window => this.toTimeSegment(window, reference)),
+      impact: Math.min(1, 1 - pace / reference),
+      description: `Trailed off to ${Math.round(pace)} WPM from ${Math.round(reference)} WPM at the end of the answer`
+    };
+  }
+
+  private detectAcceleration(windows: PaceWindow[]): PacePattern | null {
+    if (windows.length < MIN_TREND_WINDOWS) {
+      return null;
+    }
+
+    const third = Math.ceil(windows.length / 3);
+    const opening = this.mean(windows.slice(0, third).map(window => window.wordsPerMinute));
+    const closing = this.mean(windows.slice(-third).map(window => window.wordsPerMinute));
+    if (this.paceTrend(windows) <= 0 || closing < opening * ACCELERATION_RATIO) {
+      return null;
+    }
+
+    return {
+      type: PacePatternType.ACCELERATING,
+      segments: windows
+        .slice(-third)
+        .filter(window => window.wordsPerMinute >= opening * ACCELERATION_RATIO)
+        .map(window => this.toTimeSegment(window, opening)),
+      impact: Math.min(1, closing / opening - 1),
+      description: `Pace rose from ${Math.round(opening)} WPM to ${Math.round(closing)} WPM over the answer`
+    };
+  }
+
+  /**
+   * Split the word stream into consecutive windows and measure the speaking
+   * rate of each. Silences longer than a pause are not counted as speaking time.
+   */
+  private buildPaceWindows(words: WordSegment[]): PaceWindow[] {
+    const chunks: WordSegment[][] = [];
+    for (let i = 0; i < words.length; i += PACE_WINDOW_WORDS) {
+      chunks.push(words.slice(i, i + PACE_WINDOW_WORDS));
+    }
+    if (chunks.length > 1 && chunks[chunks.length - 1].length < MIN_PACE_WINDOW_WORDS) {
+      chunks[chunks.length - 2].push(...chunks.pop()!);
+    }
+
+    return chunks
+      .map(chunk => {
+        const start = chunk[0].start;
+        const end = chunk[chunk.length - 1].end;
+        const silence = chunk.slice(1).reduce((sum, word, i) =>
+          sum + Math.max(0, word.start - chunk[i].end - this.pauseThresholds.minPauseLength), 0);
+        const speakingTime = end - start - silence;
+        return { start, end, wordsPerMinute: speakingTime > 0 ? (chunk.length / speakingTime) * 60 : 0 };
+      })
+      .filter(window => window.wordsPerMinute > 0);
+  }
+
+  private toTimeSegment(window: PaceWindow, reference: number): TimeSegment {
+    const deviation = Math.abs(window.wordsPerMinute / reference - 1);
+    return {
+      start: window.start,
+      end: window.end,
+      value: window.wordsPerMinute,
+      severity: deviation > 0.5 ? SegmentSeverity.HIGH : deviation > 0.3 ? SegmentSeverity.MEDIUM : SegmentSeverity.LOW
+    };
+  }
+
+  // Least-squares slope of pace over time, in WPM per second
+  private paceTrend(windows: PaceWindow[]): number {
+    const times = windows.map(window => (window.start + window.end) / 2);
+    const paces = windows.map(window => window.wordsPerMinute);
+    const meanTime = this.mean(times);
+    const meanPace = this.mean(paces);
+    const covariance = times.reduce((sum, time, i) => sum + (time - meanTime) * (paces[i] - meanPace), 0);
+    const variance = times.reduce((sum, time) => sum + Math.pow(time - meanTime, 2), 0);
+    return variance > 0 ? covariance / variance : 0;
+  }
+
+  private isTechnicalTerm(word: string, extraTerms: string[]): boolean {
+    const token = word.replace(/^[^\w]+|[^\w+#]+$/g, '');
+    const normalized = token.toLowerCase();
+    if (!normalized) return false;
+
+    return (
+      TECHNICAL_TERMS.includes(normalized) ||
+      extraTerms.some(term => term === normalized || term.startsWith(`${normalized} `)) ||
+      /[a-z][A-Z]/.test(token) || // PostgreSQL, GraphQL
+      /^[A-Z]{2,}s?$/.test(token) || // API, SQL, VMs
+      (/\d/.test(token) && /[a-z]/i.test(token)) // k8s, EC2
+    );
+  }
+
+  private flattenWords(transcription: TranscriptionResult): WordSegment[] {
+    return transcription.segments.flatMap(segment => segment.words);
+  }
+
+  private mean(values: number[]): number {
+    return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+  }
+
+  private median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Speech Pattern Detector Tests
+ * Pace and pause patterns over word timings
+ */
+
+import { SpeechPatternDetector } from '../services/speech-pattern-detector';
+import {
+  TranscriptionResult,
+  TranscriptionSegment,
+  WordSegment,
+  PauseThresholds,
+  PacePatternType,
+  PausePatternType,
+  PauseImpact,
+  SegmentSeverity
+} from '../types/speech-analysis';
+
+const pauseThresholds: PauseThresholds = {
+  minPauseLength: 0.3,
+  maxOptimalPause: 2.0,
+  hesitationThreshold: 1.5,
+  strategicPauseRange: { min: 0.5, max: 1.5, optimal: 1.0 }
+};
+
+const optimalRange = { min: 150, max: 190, optimal: 170 };
+
+// Words spoken back to back at a fixed rate
+const speak = (text: string, start: number, wordsPerMinute: number): WordSegment[] => {
+  const length = 60 / wordsPerMinute;
+  return text.split(' ').map((word, i) => ({
+    word,
+    start: start + i * length,
+    end: start + (i + 1) * length,
+    confidence: 0.9,
+    probability: 0.9
+  }));
+};
+
+const transcript = (...phrases: WordSegment[][]): TranscriptionResult => {
+  const segments: TranscriptionSegment[] = phrases.map((words, id) => ({
+    id,
+    text: words.map(word => word.word).join(' '),
+    start: words[0].start,
+    end: words[words.length - 1].end,
+    confidence: 0.9,
+    words
+  }));
+  return {
+    text: segments.map(segment => segment.text).join(' '),
+    segments,
+    language: 'en',
+    confidence: 0.9,
+    wordCount: segments.reduce((sum, segment) => sum + segment.words.length, 0),
+    duration: segments[segments.length - 1].end
+  };
+};
+
+const FILLER = 'we worked through the problem as a team and kept everyone aligned on the goal';
+
+describe('SpeechPatternDetector', () => {
+  const detector = new SpeechPatternDetector(pauseThresholds);
+
+  describe('pace patterns', () => {
+    it('should flag a rushed opening with the segments that were rushed', () => {
+      const opening = speak('so basically I was the lead on the migration and we had', 0, 260);
+      const body = speak(`${FILLER} ${FILLER} ${FILLER}`, 3, 165);
+
+      const patterns = detector.detectPacePatterns(transcript(opening, body), optimalRange);
+      const rush = patterns.find(pattern => pattern.type === PacePatternType.NERVOUS_RUSH);
+
+      expect(rush).toBeDefined();
+      expect(rush!.segments[0].start).toBe(0);
+      expect(rush!.segments[0].value).toBeCloseTo(260, 0);
+      expect(rush!.segments[0].severity).toBe(SegmentSeverity.HIGH);
+      expect(patterns.map(pattern => pattern.type)).not.toContain(PacePatternType.DECELERATING);
+    });
+
+    it('should flag trailing off at the end of an answer', () => {
+      const body = speak(`${FILLER} ${FILLER} ${FILLER}`, 0, 170);
+      const ending = speak('and that was more or less how it went I think', 20, 90);
+
+      const patterns = detector.detectPacePatterns(transcript(body, ending), optimalRange);
+      const trailing = patterns.find(pattern => pattern.type === PacePatternType.DECELERATING);
+
+      expect(trailing).toBeDefined();
+      expect(trailing!.segments[trailing!.segments.length - 1].end).toBeCloseTo(ending[ending.length - 1].end);
+      expect(trailing!.impact).toBeGreaterThan(0.3);
+    });
+
+    it('should flag pacing that speeds up as the answer goes on', () => {
+      const phrases = [140, 160, 185, 215, 245].map((pace, i) => speak(FILLER, i * 7, pace));
+
+      const patterns = detector.detectPacePatterns(transcript(...phrases), optimalRange);
+      const accelerating = patterns.find(pattern => pattern.type === PacePatternType.ACCELERATING);
+
+      expect(accelerating).toBeDefined();
+      expect(accelerating!.segments.every(segment => segment.start >= 21)).toBe(true);
+    });
+
+    it('should report nothing for an even delivery', () => {
+      const phrases = [0, 7, 14, 21].map(start => speak(FILLER, start, 170));
+
+      expect(detector.detectPacePatterns(transcript(...phrases), optimalRange)).toEqual([]);
+    });
+  });
+
+  describe('pause patterns', () => {
+    const first = speak('We moved the session store to', 0, 170);
+    const second = speak('Redis and put it behind a', 4, 170);
+    const third = speak('small proxy. Then we load tested it.', 7, 170);
+    const fourth = speak('Response times dropped by half.', 13, 170);
+    const transcription = transcript([...first, ...second, ...third], fourth);
+
+    const pauses = [
+      { start: first[first.length - 1].end, end: second[0].start, value: second[0].start - first[first.length - 1].end, severity: SegmentSeverity.MEDIUM },
+      { start: second[second.length - 1].end, end: third[0].start, value: third[0].start - second[second.length - 1].end, severity: SegmentSeverity.MEDIUM },
+      { start: third[third.length - 1].end, end: fourth[0].start, value: fourth[0].start - third[third.length - 1].end, severity: SegmentSeverity.LOW }
+    ];
+
+    it('should separate pauses before technical terms from hesitations and strategic pauses', () => {
+      const patterns = detector.detectPausePatterns(pauses, transcription);
+      const byType = Object.fromEntries(patterns.map(pattern => [pattern.type, pattern]));
+
+      expect(byType[PausePatternType.THINKING].occurrences).toHaveLength(1);
+      expect(byType[PausePatternType.THINKING].occurrences[0].context).toBe('session store to … Redis and put');
+      expect(byType[PausePatternType.THINKING].impact).toBe(PauseImpact.NEGATIVE);
+      expect(byType[PausePatternType.HESITATION].occurrences[0].start).toBeCloseTo(pauses[2].start);
+      expect(byType[PausePatternType.STRATEGIC]).toBeUndefined();
+    });
+
+    it('should treat context terms as technical and reward pauses at sentence boundaries', () => {
+      const sentence = speak('I owned the rollout.', 0, 170);
+      const next = speak('Canary releases caught two regressions.', 2.5, 170);
+      const gap = { start: sentence[3].end, end: next[0].start, value: next[0].start - sentence[3].end, severity: SegmentSeverity.LOW };
+
+      const strategic = detector.detectPausePatterns([gap], transcript([...sentence, ...next]));
+      expect(strategic.map(pattern => pattern.type)).toEqual([PausePatternType.STRATEGIC]);
+
+      const longGap = { ...gap, end: 5, value: 5 - gap.start };
+      const later = speak('Canary releases caught two regressions.', 5, 170);
+      const thinking = detector.detectPausePatterns([longGap], transcript([...sentence, ...later]), ['canary releases']);
+      expect(thinking.map(pattern => pattern.type)).toEqual([PausePatternType.THINKING]);
+    });
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * STAR Segmenter Tests
+ * Sentence spans per STAR component, their proportions and order
+ */
+
+import { STARSegmenter } from '../services/star-segmenter';
+import { TextAnalysisEngine } from '../services/text-analysis-engine';
+import { ENGLISH_LANGUAGE_PACK } from '../services/language-packs';
+import {
+  TextAnalysisConfig,
+  TextAnalysisRequest,
+  STARWeights,
+  QuestionType,
+  ResponseStructure,
+  GrammarStrictness
+} from '../types/text-analysis';
+
+const weights: STARWeights = { situation: 0.2, task: 0.2, action: 0.4, result: 0.2 };
+
+const ORDERED = 'Last year our checkout service faced a serious problem with timeouts. ' +
+  'I was responsible for finding the cause. ' +
+  'I implemented connection pooling and decided to add caching. ' +
+  'It was a busy two weeks. ' +
+  'As a result, errors dropped by 80%.';
+
+const RESULT_FIRST = 'We achieved a 40% drop in errors. ' +
+  'The situation was that checkout kept timing out. ' +
+  'I implemented connection pooling.';
+
+describe('STARSegmenter', () => {
+  const segmenter = new STARSegmenter(weights);
+
+  it('should assign each sentence span to a component with exact offsets', () => {
+    const { segments, orderIssues } = segmenter.segment(ORDERED, ENGLISH_LANGUAGE_PACK);
+
+    expect(segments.map(segment => segment.component)).toEqual(['situation', 'task', 'action', 'action', 'result']);
+    segments.forEach(segment => expect(ORDERED.slice(segment.start, segment.end)).toBe(segment.text));
+    expect(segments[1]).toEqual(expect.objectContaining({ start: 70, text: 'I was responsible for finding the cause.' }));
+    expect(orderIssues).toEqual([]);
+  });
+
+  it('should carry a sentence without cues on as the previous component with low confidence', () => {
+    const { segments } = segmenter.segment(ORDERED, ENGLISH_LANGUAGE_PACK);
+
+    expect(segments[3]).toEqual(expect.objectContaining({ text: 'It was a busy two weeks.', component: 'action', confidence: 0.3 }));
+    expect(segments[2].confidence).toBe(1);
+  });
+
+  it('should measure proportions against the configured weights', () => {
+    const { proportions, targetProportions } = segmenter.segment(ORDERED, ENGLISH_LANGUAGE_PACK);
+
+    expect(targetProportions).toEqual({ situation: 0.2, task: 0.2, action: 0.4, result: 0.2 });
+    expect(proportions.action).toBeCloseTo(15 / 40);
+    expect(Object.values(proportions).reduce((sum, share) => sum + share, 0)).toBeCloseTo(1);
+  });
+
+  it('should flag a result stated before the action', () => {
+    const { segments, orderIssues } = segmenter.segment(RESULT_FIRST, ENGLISH_LANGUAGE_PACK);
+
+    expect(segments.map(segment => segment.component)).toEqual(['result', 'situation', 'action']);
+    expect(orderIssues).toContainEqual({
+      component: 'result',
+      expectedAfter: 'action',
+      start: 0,
+      end: 33,
+      message: 'The result is stated before the action'
+    });
+  });
+
+  it('should feed segmentation, balance and order into STAR analysis', async () => {
+    const config: TextAnalysisConfig = {
+      enableAdvancedAnalysis: true,
+      industryKeywords: {},
+      roleKeywords: {},
+      starMethodWeights: weights,
+      qualityThresholds: { excellent: 0.85, good: 0.70, fair: 0.55, poor: 0.40 },
+      grammarRules: { enableSpellCheck: true, enableGrammarCheck: true, enableStyleCheck: true, strictness: GrammarStrictness.MODERATE }
+    };
+    const engine = new TextAnalysisEngine(config);
+    const buildRequest = (text: string): TextAnalysisRequest => ({
+      text,
+      context: { questionType: QuestionType.BEHAVIORAL, expectedStructure: ResponseStructure.STAR },
+      options: {
+        enableContentQuality: true,
+        enableStructureAnalysis: true,
+        enableKeywordRelevance: false,
+        enableSTARMethod: true,
+        enableGrammarCheck: false,
+        enableSentimentAnalysis: false,
+        confidenceThreshold: 0.7
+      }
+    });
+
+    const ordered = (await engine.analyzeText(buildRequest(ORDERED))).starMethodAnalysis!;
+    const resultFirst = (await engine.analyzeText(buildRequest(RESULT_FIRST))).starMethodAnalysis!;
+
+    expect(ordered.segmentation.segments).toHaveLength(5);
+    expect(ordered.structure.action.content).toBe('I implemented connection pooling and decided to add caching. It was a busy two weeks.');
+    expect(ordered.completeness).toBe(1);
+    expect(resultFirst.structure.task.present).toBe(false);
+    expect(resultFirst.suggestions).toContain('Add the task: say what you were responsible for');
+    expect(resultFirst.suggestions.some(suggestion => suggestion.startsWith('The result is stated before the action'))).toBe(true);
+    expect(resultFirst.score).toBeLessThan(ordered.score);
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * STAR Segmenter
+ * Assigns each sentence of an answer to a Situation, Task, Action or Result
+ * component and checks the components' proportions and order
+ */
+
+import {
+  STARSegmentation,
+  STARSegment,
+  STAROrderIssue,
+  STARWeights
+} from '../types/text-analysis';
+import { LanguagePack, STARComponentName } from '../types/language-pack';
+
+const COMPONENTS: STARComponentName[] = ['situation', 'task', 'action', 'result'];
+
+const INDICATOR_WEIGHT = 1;
+const KEYWORD_WEIGHT = 0.5;
+const MEASURED_OUTCOME_WEIGHT = 0.5; // "40%", "3x"
+
+// Where each component usually falls in the answer, as a fraction of its length.
+// Only breaks ties between cue scores, so it is kept below the smallest cue weight.
+const EXPECTED_POSITION: Record<STARComponentName, number> = {
+  situation: 0.1,
+  task: 0.3,
+  action: 0.6,
+  result: 0.9
+};
+const POSITION_WEIGHT = 0.2;
+
+const CONTINUATION_CONFIDENCE = 0.3;
+
+interface SentenceSpan {
+  text: string;
+  start: number;
+}
+
+export class STARSegmenter {
+  private weights: STARWeights;
+
+  constructor(weights: STARWeights) {
+    this.weights = weights;
+  }
+
+  /**
+   * Label every sentence with a component. Sentences with cue phrases take the
+   * best-scoring component; those without continue the previous one, and an
+   * opening sentence without cues is taken as situation.
+   */
+  public segment(text: string, language: LanguagePack): STARSegmentation {
+    const sentences = this.splitSentences(text);
+    const segments: STARSegment[] = [];
+
+    sentences.forEach((sentence, index) => {
+      const position = sentences.length > 1 ? index / (sentences.length - 1) : 0;
+      const scores = COMPONENTS
+        .map(component => ({ component, cues: this.cueScore(sentence.text, component, language) }))
+        .map(entry => ({
+          ...entry,
+          total: entry.cues + POSITION_WEIGHT * (1 - Math.abs(position - EXPECTED_POSITION[entry.component]))
+        }))
+        .sort((a, b) => b.total - a.total);
+
+      const [best, second] = scores;
+      const previous = segments[segments.length - 1];
+      const hasCues = best.cues > 0;
+
+      segments.push({
+        component: hasCues ? best.component : previous ? previous.component : 'situation',
+        start: sentence.start,
+        end: sentence.start + sentence.text.length,
+        text: sentence.text,
+        confidence: hasCues
+          ? Math.round((best.cues / (best.cues + second.cues)) * 100) / 100
+          : CONTINUATION_CONFIDENCE
+      });
+    });
+
+    return {
+      segments,
+      proportions: this.measureProportions(segments),
+      targetProportions: this.targetProportions(),
+      orderIssues: this.detectOrderIssues(segments)
+    };
+  }
+
+  private cueScore(sentence: string, component: STARComponentName, language: LanguagePack): number {
+    const indicators = language.starIndicators[component].filter(phrase => this.containsPhrase(sentence, phrase));
+    const keywords = language.starKeywords[component]
+      .filter(phrase => !indicators.includes(phrase) && this.containsPhrase(sentence, phrase));
+    const measured = component === 'result' && /\d+(?:[.,]\d+)?\s*(?:%|x\b)/i.test(sentence);
+
+    return indicators.length * INDICATOR_WEIGHT + keywords.length * KEYWORD_WEIGHT + (measured ? MEASURED_OUTCOME_WEIGHT : 0);
+  }
+
+  private measureProportions(segments: STARSegment[]): Record<STARComponentName, number> {
+    const words = this.emptyRecord();
+    segments.forEach(segment => { words[segment.component] += this.countWords(segment.text); });
+
+    const total = COMPONENTS.reduce((sum, component) => sum + words[component], 0);
+    COMPONENTS.forEach(component => { words[component] = total > 0 ? words[component] / total : 0; });
+    return words;
+  }
+
+  private targetProportions(): Record<STARComponentName, number> {
+    const total = COMPONENTS.reduce((sum, component) => sum + this.weights[component], 0);
+    const targets = this.emptyRecord();
+    COMPONENTS.forEach(component => {
+      targets[component] = total > 0 ? this.weights[component] / total : 1 / COMPONENTS.length;
+    });
+    return targets;
+  }
+
+  /**
+   * Report a component whose first appearance comes before that of a
+   * component it should follow, e.g. the result stated before the action
+   */
+  private detectOrderIssues(segments: STARSegment[]): STAROrderIssue[] {
+    const firstSegments = new Map<STARComponentName, STARSegment>();
+    const issues: STAROrderIssue[] = [];
+
+    for (const segment of segments) {
+      if (firstSegments.has(segment.component)) continue;
+
+      Array.from(firstSegments.values())
+        .filter(earlier => COMPONENTS.indexOf(earlier.component) > COMPONENTS.indexOf(segment.component))
+        .forEach(earlier => issues.push({
+          component: earlier.component,
+          expectedAfter: segment.component,
+          start: earlier.start,
+          end: earlier.end,
+          message: `The ${earlier.component} is stated before the ${segment.component}`
+        }));
+
+      firstSegments.set(segment.component, segment);
+    }
+
+    return issues;
+  }
+
+  private containsPhrase(sentence: string, phrase: string): boolean {
+    const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(?<![\\p{L}\\p{M}\\p{N}])${escaped}(?![\\p{L}\\p{M}\\p{N}])`, 'iu').test(sentence);
+  }
+
+  private splitSentences(text: string): SentenceSpan[] {
+    const spans: SentenceSpan[] = [];
+    const pattern = /[^.!?।]+[.!?।]*/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(text)) !== null) {
+      const leading = match[0].length - match[0].trimStart().length;
+      const sentence = match[0].trim();
+      if (sentence.length > 0) {
+        spans.push({ text: sentence, start: match.index + leading });
+      }
+    }
+    return spans;
+  }
+
+  private countWords(text: string): number {
+    return (text.match(/[\p{L}\p{M}\p{N}]+/gu) || []).length;
+  }
+
+  private emptyRecord(): Record<STARComponentName, number> {
+    return { situation: 0, task: 0, action: 0, result: 0 };
+  }
+}
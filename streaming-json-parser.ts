@@ -0,0 +1,203 @@
+export interface IncrementalJsonUpdate {
+  stringDeltas: Array<{ field: string; delta: string }>;
+  completedFields: Array<{ field: string; value: any }>;
+}
+
+interface ScanResult {
+  completed: Array<{ field: string; raw: string }>;
+  partialString?: { field: string; raw: string };
+}
+
+/**
+ * Incrementally parses a top-level JSON object as it streams in from a model.
+ *
+ * Reports text appended to selected string fields (so a question can be
+ * rendered or spoken while it is still being generated) and every top-level
+ * field once its value is complete. Leading prose or code fences before the
+ * first `{` are ignored.
+ */
+export class IncrementalJsonParser {
+  private buffer: string = '';
+  private emittedLengths: Map<string, number> = new Map();
+  private completedFields: Set<string> = new Set();
+
+  constructor(private streamedFields: string[] = []) {}
+
+  push(chunk: string): IncrementalJsonUpdate {
+    this.buffer += chunk;
+
+    const update: IncrementalJsonUpdate = { stringDeltas: [], completedFields: [] };
+    const scan = this.scan();
+
+    for (const { field, raw } of scan.completed) {
+      if (this.completedFields.has(field)) {
+        continue;
+      }
+
+      let value: any;
+      try {
+        value = JSON.parse(raw);
+      } catch {
+        continue;
+      }
+
+      if (typeof value === 'string') {
+        this.addStringDelta(update, field, value);
+      }
+
+      this.completedFields.add(field);
+      update.completedFields.push({ field, value });
+    }
+
+    if (scan.partialString && !this.completedFields.has(scan.partialString.field)) {
+      const text = this.decodePartialString(scan.partialString.raw);
+      if (text !== null) {
+        this.addStringDelta(update, scan.partialString.field, text);
+      }
+    }
+
+    return update;
+  }
+
+  getBuffer(): string {
+    return this.buffer;
+  }
+
+  private addStringDelta(update: IncrementalJsonUpdate, field: string, text: string): void {
+    if (!this.streamedFields.includes(field)) {
+      return;
+    }
+
+    const emitted = this.emittedLengths.get(field) || 0;
+    if (text.length > emitted) {
+      update.stringDeltas.push({ field, delta: text.substring(emitted) });
+      this.emittedLengths.set(field, text.length);
+    }
+  }
+
+  private scan(): ScanResult {
+    const result: ScanResult = { completed: [] };
+    const start = this.buffer.indexOf('{');
+    if (start === -1) {
+      return result;
+    }
+
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+    let readingKey = false;
+    let expectingKey = false;
+    let keyStart = -1;
+    let key: string | null = null;
+    let valueStart = -1;
+    let valueIsString = false;
+
+    const finishValue = (end: number) => {
+      if (key !== null && valueStart >= 0) {
+        result.completed.push({ field: key, raw: this.buffer.substring(valueStart, end).trim() });
+      }
+      valueStart = -1;
+    };
+
+    for (let i = start; i < this.buffer.length; i++) {
+      const ch = this.buffer[i];
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (ch === '\\') {
+          escaped = true;
+        } else if (ch === '"') {
+          inString = false;
+          if (depth === 1 && readingKey) {
+            readingKey = false;
+            try {
+              key = JSON.parse(this.buffer.substring(keyStart, i + 1));
+            } catch {
+              key = null;
+            }
+          } else if (depth === 1 && valueIsString && valueStart >= 0) {
+            finishValue(i + 1);
+          }
+        }
+        continue;
+      }
+
+      switch (ch) {
+        case '"':
+          inString = true;
+          if (depth === 1 && expectingKey) {
+            readingKey = true;
+            expectingKey = false;
+            keyStart = i;
+          } else if (depth === 1 && key !== null && valueStart === -1) {
+            valueStart = i;
+            valueIsString = true;
+          }
+          break;
+
+        case '{':
+        case '[':
+          if (depth === 0) {
+            expectingKey = true;
+          } else if (depth === 1 && key !== null && valueStart === -1) {
+            valueStart = i;
+            valueIsString = false;
+          }
+          depth++;
+          break;
+
+        case '}':
+        case ']':
+          if (depth === 1) {
+            if (!valueIsString) {
+              finishValue(i);
+            }
+            return result;
+          }
+          depth--;
+          if (depth === 1 && valueStart >= 0 && !valueIsString) {
+            finishValue(i + 1);
+          }
+          break;
+
+        case ',':
+          if (depth === 1) {
+            if (valueStart >= 0 && !valueIsString) {
+              finishValue(i);
+            }
+            key = null;
+            expectingKey = true;
+          }
+          break;
+
+        case ':':
+          break;
+
+        default:
+          // Start of a scalar value (number, true, false, null)
+          if (depth === 1 && key !== null && valueStart === -1 && !/\s/.test(ch)) {
+            valueStart = i;
+            valueIsString = false;
+          }
+      }
+    }
+
+    if (inString && depth === 1 && valueIsString && valueStart >= 0 && key !== null) {
+      result.partialString = { field: key, raw: this.buffer.substring(valueStart + 1) };
+    }
+
+    return result;
+  }
+
+  private decodePartialString(raw: string): string | null {
+    // Drop an escape sequence that has not fully arrived yet
+    const trimmed = raw.replace(/\\u[0-9a-fA-F]{0,3}$/, '').replace(/(^|[^\\])((?:\\\\)*)\\$/, '$1$2');
+
+    try {
+      return JSON.parse(`"${trimmed}"`);
+    } catch {
+      return null;
+    }
+  }
+}
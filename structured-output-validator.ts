@@ -0,0 +1,156 @@
+import { JSONSchema, SchemaValidationResult } from '../types/structured-output';
+
+export class StructuredOutputValidator {
+  /**
+   * Extract and validate a JSON document from free-form model output
+   */
+  static parseAndValidate<T = any>(text: string, schema: JSONSchema): SchemaValidationResult<T> {
+    const json = this.extractJson(text);
+    if (json === null) {
+      return { valid: false, errors: ['$: response does not contain a JSON object'] };
+    }
+
+    let parsed: any;
+    try {
+      parsed = JSON.parse(json);
+    } catch (error) {
+      return {
+        valid: false,
+        errors: [`$: invalid JSON (${error instanceof Error ? error.message : String(error)})`],
+      };
+    }
+
+    const errors = this.validate(parsed, schema);
+    return errors.length === 0
+      ? { valid: true, data: parsed as T, errors: [] }
+      : { valid: false, errors };
+  }
+
+  /**
+   * Validate a value against a schema, returning one message per violation
+   */
+  static validate(value: any, schema: JSONSchema, path: string = '$'): string[] {
+    const errors: string[] = [];
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+
+    if (!types.some(type => this.matchesType(value, type))) {
+      errors.push(`${path}: expected ${types.join(' | ')}, got ${this.describeType(value)}`);
+      return errors;
+    }
+
+    if (schema.enum && typeof value === 'string') {
+      const allowed = schema.enum.map(option => String(option).toLowerCase());
+      if (!allowed.includes(value.toLowerCase())) {
+        errors.push(`${path}: must be one of ${schema.enum.join(', ')}`);
+      }
+    } else if (schema.enum && !schema.enum.includes(value)) {
+      errors.push(`${path}: must be one of ${schema.enum.join(', ')}`);
+    }
+
+    if (typeof value === 'number') {
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        errors.push(`${path}: must be >= ${schema.minimum}`);
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        errors.push(`${path}: must be <= ${schema.maximum}`);
+      }
+    }
+
+    if (typeof value === 'string' && schema.minLength !== undefined && value.trim().length < schema.minLength) {
+      errors.push(`${path}: must have at least ${schema.minLength} characters`);
+    }
+
+    if (Array.isArray(value)) {
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        errors.push(`${path}: must have at least ${schema.minItems} items`);
+      }
+      if (schema.items) {
+        value.forEach((item, index) => {
+          errors.push(...this.validate(item, schema.items!, `${path}[${index}]`));
+        });
+      }
+    }
+
+    if (this.isPlainObject(value)) {
+      for (const key of schema.required || []) {
+        if (value[key] === undefined || value[key] === null) {
+          errors.push(`${path}.${key}: is required`);
+        }
+      }
+
+      for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+        if (value[key] !== undefined && value[key] !== null) {
+          errors.push(...this.validate(value[key], propertySchema, `${path}.${key}`));
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Pull the outermost JSON object out of model output, tolerating
+   * Markdown code fences and surrounding prose
+   */
+  static extractJson(text: string): string | null {
+    if (!text) {
+      return null;
+    }
+
+    const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+    const candidate = fenced ? fenced[1] : text;
+
+    const start = candidate.indexOf('{');
+    const end = candidate.lastIndexOf('}');
+    if (start === -1 || end <= start) {
+      return null;
+    }
+
+    return candidate.substring(start, end + 1);
+  }
+
+  /**
+   * Compact, human-readable rendering of a schema for repair prompts
+   */
+  static describeSchema(schema: JSONSchema): string {
+    return JSON.stringify(this.toPlainSchema(schema), null, 2);
+  }
+
+  private static toPlainSchema(schema: JSONSchema): any {
+    const plain: any = { type: schema.type };
+    if (schema.enum) plain.enum = schema.enum;
+    if (schema.minimum !== undefined) plain.minimum = schema.minimum;
+    if (schema.maximum !== undefined) plain.maximum = schema.maximum;
+    if (schema.required) plain.required = schema.required;
+    if (schema.items) plain.items = this.toPlainSchema(schema.items);
+    if (schema.properties) {
+      plain.properties = Object.fromEntries(
+        Object.entries(schema.properties).map(([key, value]) => [key, this.toPlainSchema(value)])
+      );
+    }
+    return plain;
+  }
+
+  private static matchesType(value: any, type: string): boolean {
+    switch (type) {
+      case 'object': return this.isPlainObject(value);
+      case 'array': return Array.isArray(value);
+      case 'string': return typeof value === 'string';
+      case 'number': return typeof value === 'number' && isFinite(value);
+      case 'integer': return typeof value === 'number' && Number.isInteger(value);
+      case 'boolean': return typeof value === 'boolean';
+      case 'null': return value === null;
+      default: return false;
+    }
+  }
+
+  private static describeType(value: any): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+  }
+
+  private static isPlainObject(value: any): boolean {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
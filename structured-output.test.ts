@@ -0,0 +1,186 @@
+import { DefaultAIInterviewerService } from '../services/ai-interviewer-service';
+import { PersonalityManager } from '../services/personality-manager';
+import { ScriptedLLMProvider } from '../services/llm-providers';
+import { StructuredOutputValidator } from '../services/structured-output-validator';
+import {
+  GENERATED_QUESTION_SCHEMA,
+  RESPONSE_EVALUATION_SCHEMA,
+} from '../services/ai-response-schemas';
+import { LLMTask } from '../types/llm-provider';
+import { StructuredOutputFlag } from '../types/structured-output';
+import {
+  AIPersonalityConfig,
+  GeneratedQuestion,
+  ResponseEvaluationContext,
+  QuestionType,
+  DifficultyLevel,
+  InterviewStyle,
+  InterviewTone,
+  FormalityLevel,
+} from '../types/ai-interviewer';
+
+describe('Structured Output Validation', () => {
+  describe('StructuredOutputValidator', () => {
+    it('should accept output matching the schema', () => {
+      const result = StructuredOutputValidator.parseAndValidate(
+        JSON.stringify({ text: 'Describe a project you led.', expectedStructure: 'STAR' }),
+        GENERATED_QUESTION_SCHEMA
+      );
+
+      expect(result.valid).toBe(true);
+      expect(result.data.text).toBe('Describe a project you led.');
+    });
+
+    it('should extract JSON from code fences and surrounding prose', () => {
+      const result = StructuredOutputValidator.parseAndValidate(
+        'Here is the question:\n```json\n{"text": "Why this role?"}\n```\nGood luck!',
+        GENERATED_QUESTION_SCHEMA
+      );
+
+      expect(result.valid).toBe(true);
+      expect(result.data.text).toBe('Why this role?');
+    });
+
+    it('should report missing fields, wrong types and unknown enum values with paths', () => {
+      const result = StructuredOutputValidator.parseAndValidate(
+        JSON.stringify({
+          overallScore: 'high',
+          criteriaScores: [{ criteriaName: 'Content', score: 80 }, { score: 70 }],
+          strengths: [],
+        }),
+        RESPONSE_EVALUATION_SCHEMA
+      );
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual(expect.arrayContaining([
+        '$.overallScore: expected number, got string',
+        '$.improvements: is required',
+        '$.criteriaScores[1].criteriaName: is required',
+      ]));
+    });
+
+    it('should reject text with no JSON object', () => {
+      const result = StructuredOutputValidator.parseAndValidate('I cannot answer that.', GENERATED_QUESTION_SCHEMA);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toContain('does not contain a JSON object');
+    });
+  });
+
+  describe('Repair loop in DefaultAIInterviewerService', () => {
+    const personalityConfig: AIPersonalityConfig = {
+      name: 'Test Interviewer',
+      style: InterviewStyle.STRUCTURED,
+      tone: InterviewTone.PROFESSIONAL,
+      formality: FormalityLevel.SEMI_FORMAL,
+      adaptiveness: 0.5,
+      followUpIntensity: 0.5,
+      encouragementLevel: 0.5,
+    };
+
+    const question: GeneratedQuestion = {
+      id: 'q-1',
+      text: 'Tell me about a time you resolved a conflict.',
+      type: QuestionType.BEHAVIORAL,
+      category: 'teamwork',
+      difficulty: DifficultyLevel.MID,
+      evaluationCriteria: [],
+      metadata: {
+        version: 1,
+        usageCount: 0,
+        generatedAt: new Date(),
+        modelVersion: 'scripted-v1',
+      },
+    };
+
+    const createContext = (): ResponseEvaluationContext => ({
+      sessionId: 'session-1',
+      question,
+      userResponse: {
+        questionId: question.id,
+        questionText: question.text,
+        responseText: 'We disagreed on the rollout plan, so I set up a short design review.',
+        duration: 75,
+        isSkipped: false,
+        timestamp: new Date(),
+      },
+      evaluationCriteria: [],
+      personalityState: PersonalityManager.initializePersonality(personalityConfig),
+    });
+
+    const validEvaluation = JSON.stringify({
+      overallScore: 81,
+      criteriaScores: [{ criteriaName: 'Content Quality', score: 81, feedback: 'Specific example' }],
+      strengths: ['Concrete example'],
+      improvements: ['State the outcome'],
+      confidence: 0.85,
+    });
+
+    it('should re-ask with validation errors and use the repaired output', async () => {
+      const provider = new ScriptedLLMProvider([
+        { task: LLMTask.RESPONSE_EVALUATION, response: 'Score: 81/100, nice answer', once: true },
+        { task: LLMTask.RESPONSE_EVALUATION, response: validEvaluation },
+      ]);
+      const service = new DefaultAIInterviewerService(provider);
+
+      const evaluation = await service.evaluateResponse(createContext());
+
+      expect(evaluation.overallScore).toBe(81);
+      expect(evaluation.metadata.isFallback).toBe(false);
+      expect(evaluation.metadata.repairAttempts).toBe(1);
+      expect(evaluation.metadata.flags).toContain(StructuredOutputFlag.REPAIRED_OUTPUT);
+
+      const repairRequest = provider.getHistory()[1];
+      expect(repairRequest.messages).toHaveLength(4);
+      expect(repairRequest.messages[2]).toEqual({ role: 'assistant', content: 'Score: 81/100, nice answer' });
+      expect(repairRequest.messages[3].content).toContain('does not contain a JSON object');
+    });
+
+    it('should stop after the configured number of repairs and record the fallback', async () => {
+      const provider = new ScriptedLLMProvider([
+        { task: LLMTask.RESPONSE_EVALUATION, response: '{"overallScore": "great"}' },
+      ]);
+      const service = new DefaultAIInterviewerService(provider, { maxRepairAttempts: 1 });
+
+      const evaluation = await service.evaluateResponse(createContext());
+
+      expect(provider.getHistory()).toHaveLength(2);
+      expect(evaluation.overallScore).toBe(50);
+      expect(evaluation.metadata.isFallback).toBe(true);
+      expect(evaluation.metadata.flags).toEqual(
+        expect.arrayContaining([StructuredOutputFlag.PARSING_ERROR, StructuredOutputFlag.FALLBACK_USED])
+      );
+      expect(evaluation.metadata.validationErrors).toContain('$.overallScore: expected number, got string');
+    });
+
+    it('should mark fallback questions in question metadata', async () => {
+      const provider = new ScriptedLLMProvider([
+        { task: LLMTask.QUESTION_GENERATION, response: 'Sure! How about asking about teamwork?' },
+      ]);
+      const service = new DefaultAIInterviewerService(provider, { maxRepairAttempts: 0 });
+      const personalityState = PersonalityManager.initializePersonality(personalityConfig);
+
+      const generated = await service.generateQuestion({
+        sessionId: 'session-1',
+        userId: 'user-1',
+        interviewConfig: {
+          id: 'config-1',
+          role: 'Product Manager',
+          industry: 'Technology',
+          difficulty: DifficultyLevel.MID,
+          duration: 30,
+          questionTypes: [QuestionType.BEHAVIORAL],
+          focusAreas: [],
+          aiPersonality: personalityConfig,
+        },
+        currentQuestionIndex: 0,
+        previousResponses: [],
+        personalityState,
+      });
+
+      expect(generated.metadata.source).toBe('ai_generated_fallback');
+      expect(generated.metadata.isFallback).toBe(true);
+      expect(generated.evaluationCriteria.length).toBeGreaterThan(0);
+    });
+  });
+});
@@ -0,0 +1,49 @@
+// Structured Output Types and Interfaces
+
+import { PromptAssignment } from './prompt-registry';
+
+/**
+ * The subset of JSON Schema used to describe model responses.
+ * String enums are compared case-insensitively, matching how the
+ * interviewer service normalises enum values after parsing.
+ */
+export interface JSONSchema {
+  type: JSONSchemaType | JSONSchemaType[];
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  items?: JSONSchema;
+  enum?: Array<string | number>;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  minItems?: number;
+}
+
+export type JSONSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+export interface SchemaValidationResult<T = any> {
+  valid: boolean;
+  data?: T;
+  errors: string[];
+}
+
+/**
+ * Outcome of a completion that had to satisfy a schema. `data` is only
+ * set when the model produced valid output, possibly after repair.
+ */
+export interface StructuredCompletion<T = any> {
+  data?: T;
+  raw: string;
+  model: string;
+  repairAttempts: number;
+  validationErrors: string[];
+  prompt?: PromptAssignment; // System prompt version the completion was produced with
+}
+
+// Flags recorded in metadata when structured output could not be used as-is
+export enum StructuredOutputFlag {
+  PARSING_ERROR = 'parsing_error',
+  FALLBACK_USED = 'fallback_used',
+  REPAIRED_OUTPUT = 'repaired_output',
+}
@@ -477,6 +477,9 @@ export class DatabaseSubscriptionRepository implements SubscriptionRepository {
         case UsageType.REPORT_EXPORTED:
           updateField = 'export_count';
           break;
+        case UsageType.AI_SPEND:
+          // Metered from LLM usage records rather than stored in usage_metrics
+          return;
         default:
           throw new Error(`Unknown usage type: ${usageType}`);
       }
@@ -110,6 +110,7 @@ export enum UsageType {
   REPORT_EXPORTED = 'report_exported',
   AI_QUESTION_GENERATED = 'ai_question_generated',
   RECORDING_MINUTE_USED = 'recording_minute_used',
+  AI_SPEND = 'ai_spend', // Model spend in US cents, metered per LLM call
 }
 
 // Request/Response types
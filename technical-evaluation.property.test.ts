@@ -37,7 +37,7 @@ describe('Property 9: Technical Accuracy Evaluation', () => {
     jest.clearAllMocks();
     aiService = new DefaultAIInterviewerService('test-api-key');
     technicalService = new TechnicalEvaluationService();
-    mockOpenAI = (aiService as any).openai;
+    mockOpenAI = (aiService as any).provider.client;
   });
 
   // Custom arbitraries for technical evaluation
@@ -44,7 +44,7 @@ describe('Technical Evaluation System', () => {
     technicalService = new TechnicalEvaluationService();
     
     // Get mock OpenAI instance
-    mockOpenAI = (aiService as any).openai;
+    mockOpenAI = (aiService as any).provider.client;
   });
 
   describe('TechnicalEvaluationService', () => {
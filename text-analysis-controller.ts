@@ -5,10 +5,16 @@
 
 import { Request, Response } from 'express';
 import { TextAnalysisEngine } from '../services/text-analysis-engine';
+import { AnalysisJobQueue } from '../services/analysis-job-queue';
+import { TextAnalysisJobProcessor } from '../services/analysis-job-processors';
+import { analysisJobQueue } from '../services/analysis-jobs';
+import { getJobUser, getStatusCodeForJobError } from './analysis-job-controller';
+import { AuthenticatedRequest } from '../middleware/security-middleware';
 import { logger } from '../utils/logger';
 import {
   TextAnalysisRequest,
   TextAnalysisOptions,
+  AnalysisContext,
   QuestionType,
   ResponseStructure,
   DifficultyLevel,
@@ -16,11 +22,16 @@ import {
   TextAnalysisError,
   TextAnalysisErrorCode
 } from '../types/text-analysis';
+import { AnalysisJobType, AnalysisJobError } from '../types/analysis-job';
+
+// Batches up to this size without a webhook are still answered in the
+// request with per-text results, as they were before batches became jobs
+const SYNCHRONOUS_BATCH_LIMIT = 10;
 
 export class TextAnalysisController {
   private textAnalysisEngine: TextAnalysisEngine;
 
-  constructor() {
+  constructor(private jobQueue: AnalysisJobQueue = analysisJobQueue) {
     // Initialize with default configuration
     const defaultConfig: TextAnalysisConfig = {
       enableAdvancedAnalysis: true,
@@ -59,6 +70,8 @@ export class TextAnalysisController {
     };
 
     this.textAnalysisEngine = new TextAnalysisEngine(defaultConfig);
+    this.jobQueue.registerProcessor(new TextAnalysisJobProcessor(this.textAnalysisEngine));
+    this.jobQueue.start().catch(() => undefined); // Failures are logged by the queue
   }
 
   /**
@@ -324,11 +337,13 @@ export class TextAnalysisController {
   };
 
   /**
-   * Batch analyze multiple texts
+   * Batch analyze multiple texts. Small batches without a webhookUrl are
+   * analyzed right away; larger ones are queued as a job to poll or await
+   * through the webhook
    */
-  public batchAnalyze = async (req: Request, res: Response): Promise<void> => {
+  public batchAnalyze = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
-      const { texts, context, options } = req.body;
+      const { texts, context, options, webhookUrl, metadata } = req.body;
 
       if (!Array.isArray(texts) || texts.length === 0) {
         res.status(400).json({
@@ -338,14 +353,6 @@ export class TextAnalysisController {
         return;
       }
 
-      if (texts.length > 10) {
-        res.status(400).json({
-          success: false,
-          error: 'Maximum 10 texts allowed per batch request'
-        });
-        return;
-      }
-
       const analysisContext = {
         questionType: context?.questionType || QuestionType.BEHAVIORAL,
         expectedStructure: context?.expectedStructure || ResponseStructure.FREE_FORM,
@@ -366,64 +373,104 @@ export class TextAnalysisController {
         ...options
       };
 
-      const results = [];
-      
-      for (let i = 0; i < texts.length; i++) {
-        const text = texts[i];
-        
-        if (typeof text !== 'string') {
-          results.push({
-            index: i,
-            success: false,
-            error: 'Text must be a string'
-          });
-          continue;
-        }
+      if (texts.length <= SYNCHRONOUS_BATCH_LIMIT && webhookUrl === undefined) {
+        await this.analyzeBatchNow(texts, analysisContext, analysisOptions, res);
+        return;
+      }
 
-        try {
-          const request: TextAnalysisRequest = {
-            text,
-            context: analysisContext,
-            options: analysisOptions
-          };
-
-          const result = await this.textAnalysisEngine.analyzeText(request);
-          
-          results.push({
-            index: i,
-            success: true,
-            analysis: result
-          });
-
-        } catch (error: any) {
-          logger.error(`Batch analysis failed for text ${i}`, { error });
-          results.push({
-            index: i,
-            success: false,
-            error: error instanceof TextAnalysisError ? error.message : 'Analysis failed'
-          });
-        }
+      const user = getJobUser(req, res);
+      if (!user) {
+        return;
       }
 
-      res.json({
+      const payloads: TextAnalysisRequest[] = texts.map(text => ({
+        text,
+        context: analysisContext,
+        options: analysisOptions
+      }));
+
+      const job = await this.jobQueue.submit({
+        type: AnalysisJobType.TEXT,
+        payloads,
+        webhookUrl,
+        metadata,
+        ownerId: user.id
+      });
+
+      res.status(202).json({
         success: true,
-        results,
-        summary: {
-          total: texts.length,
-          successful: results.filter(r => r.success).length,
-          failed: results.filter(r => !r.success).length
-        }
+        job
       });
 
     } catch (error: any) {
       logger.error('Batch analysis failed', { error });
-      res.status(500).json({
-        success: false,
-        error: 'Internal server error'
-      });
+
+      if (error instanceof AnalysisJobError) {
+        res.status(getStatusCodeForJobError(error.code)).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+          details: error.details
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Internal server error'
+        });
+      }
     }
   };
 
+  private async analyzeBatchNow(
+    texts: any[],
+    context: AnalysisContext,
+    options: TextAnalysisOptions,
+    res: Response
+  ): Promise<void> {
+    const results = [];
+
+    for (let i = 0; i < texts.length; i++) {
+      const text = texts[i];
+
+      if (typeof text !== 'string') {
+        results.push({
+          index: i,
+          success: false,
+          error: 'Text must be a string'
+        });
+        continue;
+      }
+
+      try {
+        const result = await this.textAnalysisEngine.analyzeText({ text, context, options });
+
+        results.push({
+          index: i,
+          success: true,
+          analysis: result
+        });
+
+      } catch (error: any) {
+        logger.error(`Batch analysis failed for text ${i}`, { error });
+        results.push({
+          index: i,
+          success: false,
+          error: error instanceof TextAnalysisError ? error.message : 'Analysis failed'
+        });
+      }
+    }
+
+    res.json({
+      success: true,
+      results,
+      summary: {
+        total: texts.length,
+        successful: results.filter(r => r.success).length,
+        failed: results.filter(r => !r.success).length
+      }
+    });
+  }
+
   private getStatusCodeForError(code: TextAnalysisErrorCode): number {
     switch (code) {
       case TextAnalysisErrorCode.INVALID_INPUT:
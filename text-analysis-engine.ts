@@ -19,10 +19,16 @@ import {
   ResponseStructure,
   STARStructure,
   STARComponent,
+  STARBalance,
+  STARClarity,
+  STARSegmentation,
   KeywordMatch,
+  SemanticRelevance,
+  AnalysisContext,
   KeywordImportance,
   GrammarError,
   GrammarErrorType,
+  GrammarComplexity,
   ErrorSeverity,
   SentimentType,
   EmotionType,
@@ -31,14 +37,70 @@ import {
   TextAnalysisError,
   TextAnalysisErrorCode
 } from '../types/text-analysis';
+import { LanguagePack, LanguageSupport, STARComponentName } from '../types/language-pack';
+import { LanguagePackRegistry, UNSUPPORTED_LANGUAGE_CONFIDENCE_FACTOR } from './language-packs';
+import { GrammarChecker } from './grammar-checker';
+import { SemanticRelevanceScorer } from './semantic-relevance';
+import { STARSegmenter } from './star-segmenter';
+import { createEmbeddingProviderFromEnv } from './embedding-providers';
+
+const TRANSITION_PHRASES = [
+  'however', 'therefore', 'furthermore', 'moreover', 'additionally', 'in addition', 'first', 'firstly',
+  'second', 'secondly', 'then', 'next', 'after that', 'afterwards', 'finally', 'eventually', 'as a result',
+  'consequently', 'because of this', 'so', 'for example', 'for instance', 'meanwhile', 'instead',
+  'overall', 'in the end', 'ultimately', 'also'
+];
+
+// Sequence markers in the order a listener expects them
+const SEQUENCE_MARKERS = [['first', 'firstly'], ['second', 'secondly'], ['then', 'next', 'after that'], ['finally']];
+
+// Sentence openers that refer back to the previous sentence
+const REFERRING_OPENERS = ['this', 'that', 'these', 'those', 'it', 'they', 'he', 'she', 'there'];
+
+const FUNCTION_WORDS = new Set([
+  'that', 'this', 'with', 'from', 'have', 'were', 'they', 'their', 'there', 'then', 'than', 'when',
+  'what', 'which', 'would', 'could', 'should', 'about', 'into', 'also', 'because', 'been', 'some', 'very'
+]);
+
+const SUBORDINATORS = /\b(because|although|though|while|whereas|unless|since|which|who|whom|whose|if|when|after|before|until)\b/i;
+
+const STAR_COMPONENTS: STARComponentName[] = ['situation', 'task', 'action', 'result'];
+
+// A component's share of the answer may differ this much from its weight
+const STAR_BALANCE_TOLERANCE = 0.15;
+
+const STAR_PROMPTS: Record<STARComponentName, string> = {
+  situation: 'set the scene with where you were and what was at stake',
+  task: 'say what you were responsible for',
+  action: 'walk through the steps you took yourself',
+  result: 'close with the outcome, measured if you can'
+};
 
 export class TextAnalysisEngine {
   private config: TextAnalysisConfig;
+  private languagePacks: LanguagePackRegistry;
+  private grammarChecker: GrammarChecker;
+  private starSegmenter: STARSegmenter;
+  private relevanceScorer?: SemanticRelevanceScorer;
 
-  constructor(config: TextAnalysisConfig) {
+  /**
+   * Without a relevance scorer, one is built from the environment
+   * (EMBEDDING_PROVIDER); when that is unset relevance stays keyword-based.
+   */
+  constructor(
+    config: TextAnalysisConfig,
+    languagePacks: LanguagePackRegistry = new LanguagePackRegistry(),
+    relevanceScorer?: SemanticRelevanceScorer
+  ) {
     this.config = config;
+    this.languagePacks = languagePacks;
+    this.grammarChecker = new GrammarChecker(config.grammarRules);
+    this.starSegmenter = new STARSegmenter(config.starMethodWeights);
+    const embeddingProvider = relevanceScorer ? undefined : createEmbeddingProviderFromEnv();
+    this.relevanceScorer = relevanceScorer || (embeddingProvider && new SemanticRelevanceScorer(embeddingProvider));
     logger.info('Text Analysis Engine initialized', {
       enableAdvancedAnalysis: config.enableAdvancedAnalysis,
+      semanticRelevance: !!this.relevanceScorer,
       industryKeywordsCount: Object.keys(config.industryKeywords).length,
       roleKeywordsCount: Object.keys(config.roleKeywords).length
     });
@@ -60,23 +122,27 @@ export class TextAnalysisEngine {
         expectedStructure: request.context.expectedStructure
       });
 
+      const language = this.languagePacks.resolve(request.context.language, request.text);
+      const semanticRelevance = await this.scoreSemanticRelevance(request);
+
       // Initialize result
       const result: TextAnalysisResult = {
         overallScore: 0,
-        contentQuality: await this.analyzeContentQuality(request),
+        contentQuality: await this.analyzeContentQuality(request, language.pack, semanticRelevance),
         structureAnalysis: await this.analyzeStructure(request),
-        keywordRelevance: await this.analyzeKeywordRelevance(request),
-        grammarAnalysis: await this.analyzeGrammar(request),
+        keywordRelevance: await this.analyzeKeywordRelevance(request, semanticRelevance),
+        grammarAnalysis: await this.analyzeGrammar(request, language.pack),
         sentimentAnalysis: await this.analyzeSentiment(request),
         recommendations: [],
         confidence: 0,
-        processingTime: 0
+        processingTime: 0,
+        languageSupport: language.support
       };
 
       // STAR method analysis if applicable
       if (request.options.enableSTARMethod && 
           request.context.expectedStructure === ResponseStructure.STAR) {
-        result.starMethodAnalysis = await this.analyzeSTARMethod(request);
+        result.starMethodAnalysis = await this.analyzeSTARMethod(request, language.pack);
       }
 
       // Calculate overall score
@@ -86,7 +152,7 @@ export class TextAnalysisEngine {
       result.recommendations = this.generateRecommendations(result, request);
       
       // Calculate confidence
-      result.confidence = this.calculateConfidence(result);
+      result.confidence = this.calculateConfidence(result, language.support);
       
       result.processingTime = Date.now() - startTime;
 
@@ -111,7 +177,11 @@ export class TextAnalysisEngine {
   /**
    * Analyze content quality and depth
    */
-  private async analyzeContentQuality(request: TextAnalysisRequest): Promise<ContentQualityAnalysis> {
+  private async analyzeContentQuality(
+    request: TextAnalysisRequest,
+    language: LanguagePack,
+    semanticRelevance?: SemanticRelevance
+  ): Promise<ContentQualityAnalysis> {
     const text = request.text;
     const words = this.tokenizeWords(text);
     const sentences = this.tokenizeSentences(text);
@@ -121,9 +191,9 @@ export class TextAnalysisEngine {
       sentenceCount: sentences.length,
       averageWordsPerSentence: words.length / Math.max(sentences.length, 1),
       vocabularyRichness: this.calculateVocabularyRichness(words),
-      readabilityScore: this.calculateReadabilityScore(text, words, sentences),
+      readabilityScore: this.calculateReadabilityScore(words, sentences, language),
       specificityScore: this.calculateSpecificityScore(text, words),
-      relevanceScore: this.calculateRelevanceScore(text, request.context),
+      relevanceScore: semanticRelevance ? semanticRelevance.score : this.calculateRelevanceScore(text, request.context),
       depthScore: this.calculateDepthScore(text, words, sentences)
     };
 
@@ -223,16 +293,28 @@ export class TextAnalysisEngine {
   /**
    * Analyze keyword relevance and industry terms
    */
-  private async analyzeKeywordRelevance(request: TextAnalysisRequest): Promise<KeywordRelevanceAnalysis> {
+  private async analyzeKeywordRelevance(
+    request: TextAnalysisRequest,
+    semanticRelevance?: SemanticRelevance
+  ): Promise<KeywordRelevanceAnalysis> {
     const text = request.text.toLowerCase();
     const context = request.context;
     
     // Get relevant keywords based on context
-    const industryKeywords = this.config.industryKeywords[context.industry || 'general'] || [];
-    const roleKeywords = this.config.roleKeywords[context.role || 'general'] || [];
-    const questionTypeKeywords = this.getQuestionTypeKeywords(context.questionType);
-
-    const allKeywords = [...industryKeywords, ...roleKeywords, ...questionTypeKeywords];
+    const { industryKeywords, allKeywords } = this.getExpectedKeywords(context);
+
+    if (semanticRelevance) {
+      const relevantKeywords = semanticRelevance.keywordMatches;
+      return {
+        score: semanticRelevance.score,
+        relevantKeywords,
+        missingKeywords: semanticRelevance.missingKeywords,
+        irrelevantContent: this.identifyIrrelevantContent(text, context),
+        industryTerms: relevantKeywords.filter(k => industryKeywords.includes(k.keyword)),
+        technicalTerms: relevantKeywords.filter(k => this.isTechnicalTerm(k.keyword)),
+        semanticRelevance
+      };
+    }
     
     const relevantKeywords: KeywordMatch[] = [];
     const missingKeywords: string[] = [];
@@ -274,34 +356,68 @@ export class TextAnalysisEngine {
     };
   }
 
+  /**
+   * Score the answer by embedding similarity when a relevance scorer is
+   * configured. Falls back to literal keyword matching if the embedding
+   * backend fails.
+   */
+  private async scoreSemanticRelevance(request: TextAnalysisRequest): Promise<SemanticRelevance | undefined> {
+    if (!this.relevanceScorer) {
+      return undefined;
+    }
+
+    const context = request.context;
+    try {
+      return await this.relevanceScorer.score(request.text, {
+        keywords: this.getExpectedKeywords(context).allKeywords,
+        question: context.question,
+        expectedAnswer: context.expectedAnswer,
+        importanceOf: keyword => this.determineKeywordImportance(keyword, context)
+      });
+    } catch (error: any) {
+      logger.warn('Semantic relevance scoring failed, using keyword matching', { error: error.message });
+      return undefined;
+    }
+  }
+
+  private getExpectedKeywords(context: AnalysisContext): { industryKeywords: string[]; allKeywords: string[] } {
+    const industryKeywords = this.config.industryKeywords[context.industry || 'general'] || [];
+    const roleKeywords = this.config.roleKeywords[context.role || 'general'] || [];
+    const questionTypeKeywords = this.getQuestionTypeKeywords(context.questionType);
+
+    return { industryKeywords, allKeywords: [...industryKeywords, ...roleKeywords, ...questionTypeKeywords] };
+  }
+
   /**
    * Analyze STAR method structure
    */
-  private async analyzeSTARMethod(request: TextAnalysisRequest): Promise<STARMethodAnalysis> {
+  private async analyzeSTARMethod(request: TextAnalysisRequest, language: LanguagePack): Promise<STARMethodAnalysis> {
     const text = request.text;
-    const sentences = this.tokenizeSentences(text);
+
+    // Assign every sentence to a component
+    const segmentation = this.starSegmenter.segment(text, language);
     
     // Identify STAR components
     const structure: STARStructure = {
-      situation: this.identifySTARComponent(text, 'situation'),
-      task: this.identifySTARComponent(text, 'task'),
-      action: this.identifySTARComponent(text, 'action'),
-      result: this.identifySTARComponent(text, 'result')
+      situation: this.identifySTARComponent(segmentation, 'situation'),
+      task: this.identifySTARComponent(segmentation, 'task'),
+      action: this.identifySTARComponent(segmentation, 'action'),
+      result: this.identifySTARComponent(segmentation, 'result')
     };
 
     // Calculate completeness
     const completeness = this.calculateSTARCompleteness(structure);
     
     // Analyze balance
-    const balance = this.analyzeSTARBalance(structure, text);
+    const balance = this.analyzeSTARBalance(segmentation);
     
     // Analyze clarity
     const clarity = this.analyzeSTARClarity(structure);
     
     // Generate suggestions
-    const suggestions = this.generateSTARSuggestions(structure, completeness, balance);
+    const suggestions = this.generateSTARSuggestions(structure, balance, segmentation);
     
-    const score = this.calculateSTARScore(structure, completeness, balance, clarity);
+    const score = this.calculateSTARScore(completeness, balance, clarity, segmentation);
 
     return {
       score,
@@ -309,47 +425,50 @@ export class TextAnalysisEngine {
       completeness,
       balance,
       clarity,
-      suggestions
+      suggestions,
+      segmentation
     };
   }
 
   /**
    * Analyze grammar and language usage
    */
-  private async analyzeGrammar(request: TextAnalysisRequest): Promise<GrammarAnalysis> {
+  private async analyzeGrammar(request: TextAnalysisRequest, language: LanguagePack): Promise<GrammarAnalysis> {
     const text = request.text;
     const words = this.tokenizeWords(text);
     const sentences = this.tokenizeSentences(text);
 
-    // Detect grammar errors (simplified implementation)
+    // The grammar and style rules are English; other languages get complexity metrics only
     const errors: GrammarError[] = [];
+    const english = language.code === 'en';
     
-    // Basic spell check
-    if (this.config.grammarRules.enableSpellCheck) {
-      errors.push(...this.detectSpellingErrors(text));
+    // Spell check
+    if (english && this.config.grammarRules.enableSpellCheck) {
+      errors.push(...this.grammarChecker.detectSpellingErrors(text));
     }
     
-    // Basic grammar check
-    if (this.config.grammarRules.enableGrammarCheck) {
-      errors.push(...this.detectGrammarErrors(text));
+    // Agreement, confused words and run-ons
+    if (english && this.config.grammarRules.enableGrammarCheck) {
+      errors.push(...this.grammarChecker.detectGrammarErrors(text));
     }
     
-    // Style check
-    if (this.config.grammarRules.enableStyleCheck) {
-      errors.push(...this.detectStyleIssues(text));
+    // Passive voice, hedging and repetition
+    if (english && this.config.grammarRules.enableStyleCheck) {
+      errors.push(...this.grammarChecker.detectStyleIssues(text));
     }
 
-    const suggestions = this.generateGrammarSuggestions(errors, text);
+    errors.sort((a, b) => a.position.start - b.position.start);
+    const suggestions = this.grammarChecker.suggest(text, errors);
     
-    const complexity = {
-      score: this.calculateComplexityScore(sentences),
-      averageSentenceLength: words.length / sentences.length,
+    const complexity: GrammarComplexity = {
+      score: this.calculateComplexityScore(words, sentences),
+      averageSentenceLength: words.length / Math.max(sentences.length, 1),
       complexSentences: this.countComplexSentences(sentences),
-      passiveVoice: this.countPassiveVoice(sentences),
-      readabilityLevel: this.determineReadabilityLevel(text, words, sentences)
+      passiveVoice: english ? this.grammarChecker.countPassiveSentences(sentences) : 0,
+      readabilityLevel: this.determineReadabilityLevel(words, sentences, language)
     };
 
-    const score = this.calculateGrammarScore(errors, complexity);
+    const score = this.calculateGrammarScore(errors, complexity, words.length);
 
     return {
       score,
@@ -415,13 +534,13 @@ export class TextAnalysisEngine {
 
   private tokenizeWords(text: string): string[] {
     return text.toLowerCase()
-      .replace(/[^\w\s'-]/g, ' ') // Keep apostrophes and hyphens
+      .replace(/[^\p{L}\p{M}\p{N}_\s'-]/gu, ' ') // Keep apostrophes and hyphens
       .split(/\s+/)
       .filter(word => word.length > 0 && word !== '-' && word !== "'");
   }
 
   private tokenizeSentences(text: string): string[] {
-    return text.split(/[.!?]+/)
+    return text.split(/[.!?।]+/) // Devanagari danda ends Hindi sentences
       .map(s => s.trim())
       .filter(s => s.length > 0);
   }
@@ -437,24 +556,18 @@ export class TextAnalysisEngine {
     return uniqueWords.size / Math.max(words.length, 1);
   }
 
-  private calculateReadabilityScore(text: string, words: string[], sentences: string[]): number {
-    // Simplified Flesch Reading Ease score
-    const avgWordsPerSentence = words.length / Math.max(sentences.length, 1);
-    const avgSyllablesPerWord = this.calculateAverageSyllables(words);
-    
-    const score = 206.835 - (1.015 * avgWordsPerSentence) - (84.6 * avgSyllablesPerWord);
+  private calculateReadabilityScore(words: string[], sentences: string[], language: LanguagePack): number {
+    const score = this.calculateReadingEase(words, sentences, language);
     return Math.max(0, Math.min(100, score)) / 100; // Normalize to 0-1
   }
 
-  private calculateAverageSyllables(words: string[]): number {
-    const totalSyllables = words.reduce((sum, word) => sum + this.countSyllables(word), 0);
-    return totalSyllables / Math.max(words.length, 1);
-  }
-
-  private countSyllables(word: string): number {
-    // Simplified syllable counting
-    const vowels = word.match(/[aeiouy]+/gi);
-    return Math.max(1, vowels ? vowels.length : 1);
+  // Reading ease on the Flesch scale, using the language's own formula
+  private calculateReadingEase(words: string[], sentences: string[], language: LanguagePack): number {
+    return language.readingEase({
+      words: words.length,
+      sentences: sentences.length,
+      syllables: words.reduce((sum, word) => sum + language.countSyllables(word), 0)
+    });
   }
 
   private calculateSpecificityScore(text: string, words: string[]): number {
@@ -561,63 +674,23 @@ export class TextAnalysisEngine {
   // Additional helper methods would continue here...
   // For brevity, I'll include key methods for STAR analysis and scoring
 
-  private identifySTARComponent(text: string, component: string): STARComponent {
-    const indicators = this.getSTARIndicators(component);
-    const sentences = this.tokenizeSentences(text);
-    
-    let bestMatch = '';
-    let bestScore = 0;
-    
-    for (const sentence of sentences) {
-      const score = this.calculateSTARComponentScore(sentence, indicators);
-      if (score > bestScore) {
-        bestScore = score;
-        bestMatch = sentence;
-      }
-    }
-
-    // More lenient threshold for STAR component detection
-    const isPresent = bestScore > 0.1 || this.hasSTARKeywords(text, component);
+  private identifySTARComponent(segmentation: STARSegmentation, component: STARComponentName): STARComponent {
+    const segments = segmentation.segments.filter(segment => segment.component === component);
+    const content = segments.map(segment => segment.text).join(' ');
+    const words = this.tokenizeWords(content);
+    const score = segments.length > 0
+      ? segments.reduce((sum, segment) => sum + segment.confidence, 0) / segments.length
+      : 0;
 
     return {
-      present: isPresent,
-      score: bestScore,
-      content: bestMatch,
-      wordCount: this.tokenizeWords(bestMatch).length,
-      clarity: this.calculateClarity(bestMatch),
-      specificity: this.calculateSpecificityScore(bestMatch, this.tokenizeWords(bestMatch)),
-      suggestions: this.generateSTARComponentSuggestions(component, bestMatch, bestScore)
-    };
-  }
-
-  private hasSTARKeywords(text: string, component: string): boolean {
-    const lowerText = text.toLowerCase();
-    const keywordMap: Record<string, string[]> = {
-      situation: ['situation', 'faced', 'encountered', 'challenge', 'problem', 'issue'],
-      task: ['task', 'responsible', 'needed', 'required', 'goal', 'objective'],
-      action: ['action', 'did', 'implemented', 'decided', 'took', 'performed', 'executed'],
-      result: ['result', 'outcome', 'achieved', 'accomplished', 'success', 'impact', 'improved']
-    };
-    
-    const keywords = keywordMap[component] || [];
-    return keywords.some(keyword => lowerText.includes(keyword));
-  }
-
-  private getSTARIndicators(component: string): string[] {
-    const indicators: Record<string, string[]> = {
-      situation: ['situation', 'context', 'background', 'when', 'where', 'what happened'],
-      task: ['task', 'goal', 'objective', 'responsibility', 'needed to', 'had to'],
-      action: ['action', 'did', 'implemented', 'decided', 'approached', 'took steps'],
-      result: ['result', 'outcome', 'achieved', 'accomplished', 'impact', 'success']
+      present: segments.length > 0,
+      score,
+      content,
+      wordCount: words.length,
+      clarity: content ? this.calculateClarity(content) : 0,
+      specificity: this.calculateSpecificityScore(content, words),
+      suggestions: this.generateSTARComponentSuggestions(component, content, score)
     };
-    
-    return indicators[component] || [];
-  }
-
-  private calculateSTARComponentScore(sentence: string, indicators: string[]): number {
-    const lowerSentence = sentence.toLowerCase();
-    const matches = indicators.filter(indicator => lowerSentence.includes(indicator)).length;
-    return matches / Math.max(indicators.length, 1);
   }
 
   private calculateClarity(text: string): number {
@@ -690,7 +763,7 @@ export class TextAnalysisEngine {
     return recommendations.slice(0, 5); // Limit to top 5 recommendations
   }
 
-  private calculateConfidence(result: TextAnalysisResult): number {
+  private calculateConfidence(result: TextAnalysisResult, language: LanguageSupport): number {
     // Calculate confidence based on consistency of scores and analysis depth
     const scores = [
       result.contentQuality.score,
@@ -707,7 +780,8 @@ export class TextAnalysisEngine {
     const variance = this.calculateVariance(scores);
     const confidence = Math.max(0.5, 1 - variance);
     
-    return confidence;
+    // English heuristics applied to another language are a rough guess
+    return language.supported ? confidence : confidence * UNSUPPORTED_LANGUAGE_CONFIDENCE_FACTOR;
   }
 
   private calculateVariance(scores: number[]): number {
@@ -719,15 +793,126 @@ export class TextAnalysisEngine {
   // Placeholder implementations for remaining methods
   private detectIntroduction(text: string): boolean { return text.length > 100; }
   private detectConclusion(text: string): boolean { return text.includes('conclusion') || text.includes('summary'); }
-  private analyzeLogicalFlow(sentences: string[]): number { return 0.7; }
-  private analyzeCoherence(sentences: string[]): number { return 0.8; }
-  private analyzeTransitions(sentences: string[]): number { return 0.6; }
-  private extractTransitionWords(text: string): string[] { return ['however', 'therefore', 'furthermore']; }
-  private generateTransitionSuggestions(sentences: string[]): string[] { return ['Use more transition words']; }
-  private extractMainIdea(paragraph: string): string { return 'Main idea extracted'; }
-  private countSupportingDetails(paragraph: string): number { return 2; }
-  private analyzeParagraphCoherence(paragraph: string): number { return 0.7; }
-  private calculateStructureScore(components: any): number { return 0.75; }
+
+  /**
+   * Coherence and transitions, less a penalty when sequence markers
+   * ("first", "then", "finally") appear out of order
+   */
+  private analyzeLogicalFlow(sentences: string[]): number {
+    const ranks = sentences
+      .map(sentence => {
+        const opening = this.tokenizeWords(sentence).slice(0, 3).join(' ');
+        return SEQUENCE_MARKERS.findIndex(markers => markers.some(marker => this.containsPhrase(opening, marker)));
+      })
+      .filter(rank => rank >= 0);
+    const outOfOrder = ranks.some((rank, i) => i > 0 && rank < ranks[i - 1]);
+
+    const flow = (this.analyzeCoherence(sentences) + this.analyzeTransitions(sentences)) / 2;
+    return Math.max(0, outOfOrder ? flow - 0.2 : flow);
+  }
+
+  /**
+   * Share of adjacent sentence pairs that are linked, by a shared content
+   * word, a referring opener ("this", "they") or a transition
+   */
+  private analyzeCoherence(sentences: string[]): number {
+    if (sentences.length < 2) return 1;
+
+    let linked = 0;
+    for (let i = 1; i < sentences.length; i++) {
+      const previous = new Set(this.contentWords(sentences[i - 1]));
+      const words = this.tokenizeWords(sentences[i]);
+      if (
+        this.contentWords(sentences[i]).some(word => previous.has(word)) ||
+        REFERRING_OPENERS.includes(words[0]) ||
+        this.opensWithTransition(words)
+      ) {
+        linked++;
+      }
+    }
+    return linked / (sentences.length - 1);
+  }
+
+  /**
+   * Transitions opening at least a third of the follow-on sentences score full marks
+   */
+  private analyzeTransitions(sentences: string[]): number {
+    if (sentences.length < 2) return 1;
+
+    const withTransition = sentences.slice(1)
+      .filter(sentence => this.opensWithTransition(this.tokenizeWords(sentence))).length;
+    return Math.min(1, withTransition / ((sentences.length - 1) / 3));
+  }
+
+  private extractTransitionWords(text: string): string[] {
+    const lowerText = text.toLowerCase();
+    return TRANSITION_PHRASES
+      .filter(phrase => this.containsPhrase(lowerText, phrase))
+      .sort((a, b) => lowerText.search(new RegExp(`\\b${a}\\b`)) - lowerText.search(new RegExp(`\\b${b}\\b`)));
+  }
+
+  private generateTransitionSuggestions(sentences: string[]): string[] {
+    if (sentences.length >= 3 && this.analyzeTransitions(sentences) < 0.5) {
+      return ['Link your points with transitions such as "first", "as a result" or "however"'];
+    }
+    return [];
+  }
+
+  /**
+   * The sentence whose content words recur most across the rest of the paragraph
+   */
+  private extractMainIdea(paragraph: string): string {
+    const sentences = this.tokenizeSentences(paragraph);
+    const frequency = new Map<string, number>();
+    this.contentWords(paragraph).forEach(word => frequency.set(word, (frequency.get(word) || 0) + 1));
+
+    let mainIdea = sentences[0] || '';
+    let bestScore = -1;
+    for (const sentence of sentences) {
+      const words = this.contentWords(sentence);
+      const score = words.reduce((sum, word) => sum + (frequency.get(word) || 0) - 1, 0) / Math.max(words.length, 1);
+      if (score > bestScore) {
+        bestScore = score;
+        mainIdea = sentence;
+      }
+    }
+    return mainIdea;
+  }
+
+  // Sentences besides the main idea that share at least one of its content words
+  private countSupportingDetails(paragraph: string): number {
+    const mainIdea = this.extractMainIdea(paragraph);
+    const ideaWords = new Set(this.contentWords(mainIdea));
+    return this.tokenizeSentences(paragraph)
+      .filter(sentence => sentence !== mainIdea && this.contentWords(sentence).some(word => ideaWords.has(word)))
+      .length;
+  }
+
+  private analyzeParagraphCoherence(paragraph: string): number {
+    return this.analyzeCoherence(this.tokenizeSentences(paragraph));
+  }
+  private calculateStructureScore(components: any): number {
+    return (
+      components.logicalFlow * 0.3 +
+      components.coherence * 0.3 +
+      components.transitionScore * 0.2 +
+      (components.hasIntroduction ? 0.1 : 0) +
+      (components.hasConclusion ? 0.1 : 0)
+    );
+  }
+
+  private opensWithTransition(words: string[]): boolean {
+    const opening = words.slice(0, 3).join(' ');
+    return TRANSITION_PHRASES.some(phrase => opening === phrase || opening.startsWith(`${phrase} `));
+  }
+
+  private containsPhrase(text: string, phrase: string): boolean {
+    return new RegExp(`\\b${phrase}\\b`).test(text);
+  }
+
+  private contentWords(text: string): string[] {
+    return this.tokenizeWords(text).filter(word => word.length > 3 && !FUNCTION_WORDS.has(word));
+  }
   private countKeywordFrequency(text: string, keyword: string): number { 
     return (text.match(new RegExp(keyword, 'gi')) || []).length; 
   }
@@ -758,20 +943,114 @@ export class TextAnalysisEngine {
     return technicalTerms.some(term => keyword.toLowerCase().includes(term.toLowerCase()));
   }
   private calculateKeywordRelevanceScore(relevant: any[], missing: string[], all: string[]): number { return 0.7; }
-  private calculateSTARCompleteness(structure: STARStructure): number { return 0.8; }
-  private analyzeSTARBalance(structure: STARStructure, text: string): any { return { score: 0.7, isBalanced: true, recommendations: [] }; }
-  private analyzeSTARClarity(structure: STARStructure): any { return { score: 0.8, overallClarity: 0.8 }; }
-  private generateSTARSuggestions(structure: STARStructure, completeness: number, balance: any): string[] { return ['Improve STAR structure']; }
-  private calculateSTARScore(structure: STARStructure, completeness: number, balance: any, clarity: any): number { return 0.75; }
-  private detectSpellingErrors(text: string): GrammarError[] { return []; }
-  private detectGrammarErrors(text: string): GrammarError[] { return []; }
-  private detectStyleIssues(text: string): GrammarError[] { return []; }
-  private generateGrammarSuggestions(errors: GrammarError[], text: string): any[] { return []; }
-  private calculateComplexityScore(sentences: string[]): number { return 0.6; }
-  private countComplexSentences(sentences: string[]): number { return 2; }
-  private countPassiveVoice(sentences: string[]): number { return 1; }
-  private determineReadabilityLevel(text: string, words: string[], sentences: string[]): ReadabilityLevel { return ReadabilityLevel.STANDARD; }
-  private calculateGrammarScore(errors: GrammarError[], complexity: any): number { return 0.8; }
+  // Share of the configured STAR weight covered by the components present
+  private calculateSTARCompleteness(structure: STARStructure): number {
+    const weights = this.config.starMethodWeights;
+    const total = STAR_COMPONENTS.reduce((sum, component) => sum + weights[component], 0);
+    const present = STAR_COMPONENTS
+      .filter(component => structure[component].present)
+      .reduce((sum, component) => sum + weights[component], 0);
+    return total > 0 ? present / total : 0;
+  }
+
+  /**
+   * Compare each component's share of the answer with its configured weight
+   */
+  private analyzeSTARBalance(segmentation: STARSegmentation): STARBalance {
+    const { proportions, targetProportions } = segmentation;
+    const deviations = STAR_COMPONENTS.map(component => proportions[component] - targetProportions[component]);
+    const recommendations: string[] = [];
+
+    STAR_COMPONENTS.forEach((component, i) => {
+      if (deviations[i] < -STAR_BALANCE_TOLERANCE) {
+        recommendations.push(`Spend more of the answer on the ${component} (${Math.round(proportions[component] * 100)}% against about ${Math.round(targetProportions[component] * 100)}%)`);
+      } else if (deviations[i] > STAR_BALANCE_TOLERANCE) {
+        recommendations.push(`Shorten the ${component} (${Math.round(proportions[component] * 100)}% against about ${Math.round(targetProportions[component] * 100)}%)`);
+      }
+    });
+
+    return {
+      score: Math.max(0, 1 - deviations.reduce((sum, deviation) => sum + Math.abs(deviation), 0) / 2),
+      situationRatio: proportions.situation,
+      taskRatio: proportions.task,
+      actionRatio: proportions.action,
+      resultRatio: proportions.result,
+      isBalanced: recommendations.length === 0,
+      recommendations
+    };
+  }
+
+  private analyzeSTARClarity(structure: STARStructure): STARClarity {
+    const present = STAR_COMPONENTS.filter(component => structure[component].present);
+    const overallClarity = present.length > 0
+      ? present.reduce((sum, component) => sum + structure[component].clarity, 0) / present.length
+      : 0;
+
+    return {
+      score: overallClarity,
+      situationClarity: structure.situation.clarity,
+      taskClarity: structure.task.clarity,
+      actionClarity: structure.action.clarity,
+      resultClarity: structure.result.clarity,
+      overallClarity
+    };
+  }
+
+  private generateSTARSuggestions(structure: STARStructure, balance: STARBalance, segmentation: STARSegmentation): string[] {
+    const suggestions = STAR_COMPONENTS
+      .filter(component => !structure[component].present)
+      .map(component => `Add the ${component}: ${STAR_PROMPTS[component]}`);
+
+    suggestions.push(...balance.recommendations);
+    suggestions.push(...segmentation.orderIssues.map(issue =>
+      `${issue.message}; describe the ${issue.expectedAfter} first so the story builds to the ${issue.component}`));
+
+    return suggestions;
+  }
+
+  private calculateSTARScore(
+    completeness: number,
+    balance: STARBalance,
+    clarity: STARClarity,
+    segmentation: STARSegmentation
+  ): number {
+    const order = Math.max(0, 1 - segmentation.orderIssues.length * 0.25);
+    return completeness * 0.4 + balance.score * 0.25 + clarity.score * 0.15 + order * 0.2;
+  }
+
+  // Sentences of 12-22 words read best; shorter ones are choppy, longer ones hard to follow
+  private calculateComplexityScore(words: string[], sentences: string[]): number {
+    const average = words.length / Math.max(sentences.length, 1);
+    if (average < 12) return average / 12;
+    if (average > 22) return Math.max(0, 1 - (average - 22) / 30);
+    return 1;
+  }
+
+  private countComplexSentences(sentences: string[]): number {
+    return sentences.filter(sentence => SUBORDINATORS.test(sentence) || this.tokenizeWords(sentence).length > 25).length;
+  }
+
+  private determineReadabilityLevel(words: string[], sentences: string[], language: LanguagePack): ReadabilityLevel {
+    const ease = this.calculateReadingEase(words, sentences, language);
+    if (ease >= 90) return ReadabilityLevel.VERY_EASY;
+    if (ease >= 80) return ReadabilityLevel.EASY;
+    if (ease >= 70) return ReadabilityLevel.FAIRLY_EASY;
+    if (ease >= 60) return ReadabilityLevel.STANDARD;
+    if (ease >= 50) return ReadabilityLevel.FAIRLY_DIFFICULT;
+    if (ease >= 30) return ReadabilityLevel.DIFFICULT;
+    return ReadabilityLevel.VERY_DIFFICULT;
+  }
+  private calculateGrammarScore(errors: GrammarError[], complexity: GrammarComplexity, wordCount: number): number {
+    const weights: Record<ErrorSeverity, number> = {
+      [ErrorSeverity.CRITICAL]: 0.3,
+      [ErrorSeverity.HIGH]: 0.2,
+      [ErrorSeverity.MEDIUM]: 0.1,
+      [ErrorSeverity.LOW]: 0.04
+    };
+    // Penalty per 100 words, so long answers are not punished for length alone
+    const penalty = errors.reduce((sum, error) => sum + weights[error.severity], 0) / Math.max(1, wordCount / 100);
+    return Math.max(0, Math.min(1, (1 - penalty) * 0.8 + complexity.score * 0.2));
+  }
   private calculateSentimentScore(text: string): number { return 0.7; }
   private determineSentimentType(score: number): SentimentType { return SentimentType.POSITIVE; }
   private calculateSentimentConfidence(text: string): number { return 0.8; }
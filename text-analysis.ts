@@ -3,6 +3,8 @@
  * Defines interfaces for text content analysis and evaluation
  */
 
+import { LanguageSupport, STARComponentName } from './language-pack';
+
 export interface TextAnalysisRequest {
   text: string;
   context: AnalysisContext;
@@ -15,6 +17,9 @@ export interface AnalysisContext {
   role?: string;
   industry?: string;
   difficultyLevel?: DifficultyLevel;
+  language?: string; // ISO 639-1 code; detected from the text when omitted
+  question?: string; // Question text, compared with the answer when semantic relevance is enabled
+  expectedAnswer?: string; // Reference answer or rubric notes, compared the same way
 }
 
 export enum QuestionType {
@@ -62,6 +67,7 @@ export interface TextAnalysisResult {
   recommendations: string[];
   confidence: number;
   processingTime: number;
+  languageSupport?: LanguageSupport;
 }
 
 export interface ContentQualityAnalysis {
@@ -117,6 +123,7 @@ export interface KeywordRelevanceAnalysis {
   irrelevantContent: string[];
   industryTerms: KeywordMatch[];
   technicalTerms: KeywordMatch[];
+  semanticRelevance?: SemanticRelevance; // Present when an embedding provider is configured
 }
 
 export interface KeywordMatch {
@@ -125,6 +132,22 @@ export interface KeywordMatch {
   relevanceScore: number;
   context: string[];
   importance: KeywordImportance;
+  similarity?: number; // Best cosine similarity to an answer phrase; 1 for a literal match
+  semanticNeighbours?: SemanticNeighbour[]; // Answer phrases close to the keyword, most similar first
+}
+
+export interface SemanticNeighbour {
+  phrase: string;
+  similarity: number;
+}
+
+export interface SemanticRelevance {
+  score: number;
+  questionSimilarity?: number;
+  expectedAnswerSimilarity?: number;
+  keywordCoverage: number; // Share of keywords matched literally or by a semantic neighbour
+  keywordMatches: KeywordMatch[];
+  missingKeywords: string[];
 }
 
 export enum KeywordImportance {
@@ -141,6 +164,30 @@ export interface STARMethodAnalysis {
   balance: STARBalance;
   clarity: STARClarity;
   suggestions: string[];
+  segmentation: STARSegmentation;
+}
+
+export interface STARSegmentation {
+  segments: STARSegment[]; // Every sentence of the answer, in text order
+  proportions: Record<STARComponentName, number>; // Share of the answer's words per component
+  targetProportions: Record<STARComponentName, number>; // From STARWeights, normalized to sum to 1
+  orderIssues: STAROrderIssue[];
+}
+
+export interface STARSegment {
+  component: STARComponentName;
+  start: number; // Character offset into the analyzed text
+  end: number; // Exclusive
+  text: string;
+  confidence: number; // 0-1; low for sentences without cues that continue the previous component
+}
+
+export interface STAROrderIssue {
+  component: STARComponentName; // The component stated too early
+  expectedAfter: STARComponentName; // The component it should follow
+  start: number; // Offsets of the out-of-order segment
+  end: number;
+  message: string;
 }
 
 export interface STARStructure {
@@ -188,10 +235,12 @@ export interface GrammarAnalysis {
 
 export interface GrammarError {
   type: GrammarErrorType;
+  rule: GrammarRule;
   message: string;
   position: TextPosition;
   severity: ErrorSeverity;
   suggestion: string;
+  replacement?: string; // Exact text to substitute for the span, when the fix is mechanical
 }
 
 export enum GrammarErrorType {
@@ -202,6 +251,19 @@ export enum GrammarErrorType {
   WORD_CHOICE = 'word_choice'
 }
 
+export enum GrammarRule {
+  SUBJECT_VERB_AGREEMENT = 'subject_verb_agreement',
+  ARTICLE_AGREEMENT = 'article_agreement',
+  MISSPELLING = 'misspelling',
+  REPEATED_WORD = 'repeated_word',
+  CONFUSED_WORDS = 'confused_words',
+  COMMA_SPLICE = 'comma_splice',
+  RUN_ON_SENTENCE = 'run_on_sentence',
+  PASSIVE_VOICE = 'passive_voice',
+  HEDGING = 'hedging',
+  REPETITION = 'repetition'
+}
+
 export interface TextPosition {
   start: number;
   end: number;
@@ -220,7 +282,7 @@ export interface GrammarSuggestion {
   type: string;
   message: string;
   example: string;
-  priority: number;
+  priority: number; // Higher is more important
 }
 
 export interface GrammarComplexity {
@@ -0,0 +1,19 @@
+// Rough token estimates for budgeting prompts. Uses the common ~4 characters
+// per token heuristic for English text; close enough to keep prompts inside
+// a budget without shipping a tokenizer per model.
+const CHARS_PER_TOKEN = 4;
+
+export function estimateTokens(text: string): number {
+  if (!text) {
+    return 0;
+  }
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function truncateToTokens(text: string, maxTokens: number): string {
+  const maxChars = Math.max(0, maxTokens * CHARS_PER_TOKEN);
+  if (text.length <= maxChars) {
+    return text;
+  }
+  return text.substring(0, Math.max(0, maxChars - 3)).trimEnd() + '...';
+}
@@ -0,0 +1,74 @@
+/**
+ * Transcription Provider Types
+ * Defines the speech-to-text backends used by the speech analysis engine
+ */
+
+import {
+  AudioData,
+  TranscriptionResult,
+  WhisperModel,
+  SpeechAnalysisError,
+  SpeechAnalysisErrorCode
+} from './speech-analysis';
+
+export interface TranscriptionProvider {
+  readonly type: TranscriptionProviderType;
+  transcribe(request: TranscriptionRequest): Promise<TranscriptionResult>;
+}
+
+export interface TranscriptionRequest {
+  audio: AudioData;
+  language?: string; // Omitted to let the provider detect it
+  model: WhisperModel;
+  prompt?: string; // Vocabulary hint, e.g. technologies mentioned in the question
+}
+
+export interface TranscriptionProviderConfig {
+  type: TranscriptionProviderType;
+  apiKey?: string;
+  baseUrl?: string;
+  binaryPath?: string; // whisper.cpp CLI, e.g. /usr/local/bin/whisper-cli
+  modelDirectory?: string; // Directory holding ggml-<model>.bin files
+  ffmpegPath?: string; // Used to resample non-WAV or non-16kHz audio for the local engine
+  threads?: number;
+  timeoutMs?: number;
+  models?: Partial<Record<WhisperModel, string>>; // Override the model name or file per size
+  fixtures?: TranscriptionFixture[];
+}
+
+/**
+ * A canned transcript for the fixture provider. Fixtures are used in order;
+ * those with `language` set only match requests in that language or with no
+ * language, and those with `once` set are consumed after their first match.
+ * Without explicit word timings the words are spread over the clip at a
+ * conversational pace.
+ */
+export interface TranscriptionFixture {
+  text: string;
+  words?: FixtureWord[];
+  language?: string;
+  once?: boolean;
+}
+
+export interface FixtureWord {
+  word: string;
+  start: number;
+  end: number;
+  confidence?: number;
+}
+
+export enum TranscriptionProviderType {
+  LOCAL_WHISPER = 'local_whisper',
+  OPENAI = 'openai',
+  FIXTURE = 'fixture'
+}
+
+export class TranscriptionProviderError extends SpeechAnalysisError {
+  public provider: TranscriptionProviderType;
+
+  constructor(params: { provider: TranscriptionProviderType; code: SpeechAnalysisErrorCode; message: string; details?: any }) {
+    super(params);
+    this.name = 'TranscriptionProviderError';
+    this.provider = params.provider;
+  }
+}
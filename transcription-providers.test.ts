@@ -0,0 +1,202 @@
+/**
+ * Transcription Provider Tests
+ * Speech-to-text adapters and their use by the speech analysis engine
+ */
+
+import { execFile } from 'child_process';
+import { writeFileSync } from 'fs';
+import {
+  FixtureTranscriptionProvider,
+  LocalWhisperTranscriptionProvider,
+  OpenAITranscriptionProvider,
+  createTranscriptionProviderFromEnv
+} from '../services/transcription-providers';
+import { TranscriptionProviderType, TranscriptionProviderError } from '../types/transcription-provider';
+import {
+  AudioData,
+  AudioEncoding,
+  WhisperModel,
+  SpeechAnalysisErrorCode
+} from '../types/speech-analysis';
+
+jest.mock('child_process');
+
+const mockExecFile = execFile as unknown as jest.Mock;
+
+const buildAudio = (encoding: AudioEncoding = AudioEncoding.WAV, sampleRate: number = 16000): AudioData => ({
+  buffer: Buffer.from('audio-bytes'),
+  format: { encoding, mimeType: `audio/${encoding}`, extension: encoding },
+  duration: 10,
+  sampleRate,
+  channels: 1,
+  bitDepth: 16
+});
+
+// whisper.cpp --output-json-full output; offsets are in milliseconds
+const WHISPER_OUTPUT = {
+  result: { language: 'en' },
+  transcription: [
+    {
+      text: ' I scaled the cluster.',
+      offsets: { from: 0, to: 2000 },
+      tokens: [
+        { text: '[_BEG_]', offsets: { from: 0, to: 0 }, p: 0.9 },
+        { text: ' I', offsets: { from: 0, to: 300 }, p: 0.98 },
+        { text: ' sc', offsets: { from: 300, to: 600 }, p: 0.9 },
+        { text: 'aled', offsets: { from: 600, to: 900 }, p: 0.8 },
+        { text: ' the', offsets: { from: 900, to: 1100 }, p: 0.99 },
+        { text: ' cluster', offsets: { from: 1100, to: 1800 }, p: 0.95 },
+        { text: '.', offsets: { from: 1800, to: 2000 }, p: 0.99 }
+      ]
+    },
+    {
+      text: ' Um, it worked.',
+      offsets: { from: 3500, to: 5000 },
+      tokens: [
+        { text: ' Um', offsets: { from: 3500, to: 3900 }, p: 0.7 },
+        { text: ',', offsets: { from: 3900, to: 4000 }, p: 0.9 },
+        { text: ' it', offsets: { from: 4000, to: 4300 }, p: 0.97 },
+        { text: ' worked', offsets: { from: 4300, to: 5000 }, p: 0.96 }
+      ]
+    }
+  ]
+};
+
+describe('Transcription Providers', () => {
+  beforeEach(() => {
+    mockExecFile.mockReset();
+  });
+
+  describe('FixtureTranscriptionProvider', () => {
+    it('should keep explicit word timings and split segments at pauses', async () => {
+      const provider = new FixtureTranscriptionProvider([{
+        text: 'I led it. Then we shipped.',
+        words: [
+          { word: 'I', start: 0, end: 0.2 },
+          { word: 'led', start: 0.2, end: 0.5 },
+          { word: 'it.', start: 0.5, end: 0.8 },
+          { word: 'Then', start: 2.0, end: 2.3 },
+          { word: 'we', start: 2.3, end: 2.5 },
+          { word: 'shipped.', start: 2.5, end: 3.0 }
+        ]
+      }]);
+
+      const result = await provider.transcribe({ audio: buildAudio(), language: 'en', model: WhisperModel.BASE });
+
+      expect(result.wordCount).toBe(6);
+      expect(result.segments).toHaveLength(2);
+      expect(result.segments[1]).toEqual(expect.objectContaining({ text: 'Then we shipped', start: 2.0, end: 3.0 }));
+      expect(result.duration).toBe(10);
+    });
+
+    it('should spread untimed fixture text over the clip', async () => {
+      const provider = new FixtureTranscriptionProvider([{ text: 'one two three four five six seven eight nine ten.' }]);
+
+      const result = await provider.transcribe({ audio: buildAudio(), language: 'en', model: WhisperModel.BASE });
+      const words = result.segments.flatMap(segment => segment.words);
+
+      expect(words[0].start).toBe(0);
+      expect(words[words.length - 1].end).toBeLessThanOrEqual(10);
+      expect(words.every((word, i) => i === 0 || word.start >= words[i - 1].end)).toBe(true);
+    });
+  });
+
+  describe('LocalWhisperTranscriptionProvider', () => {
+    const runWhisper = (output: any) => {
+      mockExecFile.mockImplementation((command: string, args: string[], _options: any, callback: Function) => {
+        if (command === 'whisper-cli') {
+          writeFileSync(`${args[args.indexOf('-of') + 1]}.json`, JSON.stringify(output));
+        }
+        callback(null, { stdout: '', stderr: '' });
+      });
+    };
+
+    it('should run the model matching the requested size and merge sub-word tokens', async () => {
+      runWhisper(WHISPER_OUTPUT);
+      const provider = new LocalWhisperTranscriptionProvider({ modelDirectory: '/models', threads: 2 });
+
+      const result = await provider.transcribe({ audio: buildAudio(), language: 'en', model: WhisperModel.SMALL });
+
+      const [command, args] = mockExecFile.mock.calls[0];
+      expect(command).toBe('whisper-cli');
+      expect(args).toEqual(expect.arrayContaining(['-m', '/models/ggml-small.bin', '-l', 'en', '-t', '2', '-ojf']));
+
+      expect(result.segments.map(segment => segment.text)).toEqual(['I scaled the cluster.', 'Um, it worked.']);
+      expect(result.segments[0].words.map(word => word.word)).toEqual(['I', 'scaled', 'the', 'cluster']);
+      expect(result.segments[0].words[1]).toEqual(expect.objectContaining({ start: 0.3, end: 0.9 }));
+      expect(result.segments[0].words[1].confidence).toBeCloseTo(0.85);
+      expect(result.segments[1].start).toBe(3.5);
+      expect(result.wordCount).toBe(7);
+    });
+
+    it('should resample audio that whisper.cpp cannot read directly', async () => {
+      runWhisper(WHISPER_OUTPUT);
+      const provider = new LocalWhisperTranscriptionProvider();
+
+      await provider.transcribe({ audio: buildAudio(AudioEncoding.WEBM, 48000), language: 'en', model: WhisperModel.BASE });
+
+      const [command, args] = mockExecFile.mock.calls[0];
+      expect(command).toBe('ffmpeg');
+      expect(args).toEqual(expect.arrayContaining(['-ar', '16000', '-ac', '1']));
+      expect(mockExecFile.mock.calls[1][0]).toBe('whisper-cli');
+    });
+
+    it('should report a missing binary as a configuration error', async () => {
+      mockExecFile.mockImplementation((_command: string, _args: string[], _options: any, callback: Function) => {
+        callback(Object.assign(new Error('spawn whisper-cli ENOENT'), { code: 'ENOENT' }));
+      });
+      const provider = new LocalWhisperTranscriptionProvider();
+
+      await expect(provider.transcribe({ audio: buildAudio(), language: 'en', model: WhisperModel.BASE }))
+        .rejects.toMatchObject({ code: SpeechAnalysisErrorCode.CONFIGURATION_ERROR, provider: TranscriptionProviderType.LOCAL_WHISPER });
+    });
+  });
+
+  describe('OpenAITranscriptionProvider', () => {
+    it('should request word timestamps and attach words to their segments', async () => {
+      const provider = new OpenAITranscriptionProvider({ apiKey: 'test-key' });
+      const create = jest.spyOn((provider as any).client.audio.transcriptions, 'create').mockResolvedValue({
+        text: 'We cut latency. It held.',
+        language: 'english',
+        duration: 10,
+        segments: [
+          { id: 0, text: ' We cut latency.', start: 0, end: 1.6, avg_logprob: -0.1 },
+          { id: 1, text: ' It held.', start: 3, end: 3.8, avg_logprob: -0.4 }
+        ],
+        words: [
+          { word: 'We', start: 0, end: 0.3 },
+          { word: 'cut', start: 0.3, end: 0.7 },
+          { word: 'latency', start: 0.7, end: 1.6 },
+          { word: 'It', start: 3, end: 3.3 },
+          { word: 'held', start: 3.3, end: 3.8 }
+        ]
+      } as any);
+
+      const result = await provider.transcribe({ audio: buildAudio(), language: 'en', model: WhisperModel.LARGE });
+
+      expect(create).toHaveBeenCalledWith(expect.objectContaining({
+        model: 'whisper-1',
+        response_format: 'verbose_json',
+        timestamp_granularities: ['word', 'segment']
+      }));
+      expect(result.segments[1].words.map(word => word.word)).toEqual(['It', 'held']);
+      expect(result.segments[0].confidence).toBeCloseTo(Math.exp(-0.1));
+    });
+
+    it('should wrap API failures', async () => {
+      const provider = new OpenAITranscriptionProvider({ apiKey: 'test-key' });
+      jest.spyOn((provider as any).client.audio.transcriptions, 'create').mockRejectedValue(new Error('rate limited'));
+
+      await expect(provider.transcribe({ audio: buildAudio(), language: 'en', model: WhisperModel.BASE }))
+        .rejects.toThrow(TranscriptionProviderError);
+    });
+  });
+
+  describe('Provider factory', () => {
+    it('should select the adapter from STT_PROVIDER', () => {
+      expect(createTranscriptionProviderFromEnv({ STT_PROVIDER: 'local_whisper' }).type).toBe(TranscriptionProviderType.LOCAL_WHISPER);
+      expect(createTranscriptionProviderFromEnv({ STT_PROVIDER: 'fixture' }).type).toBe(TranscriptionProviderType.FIXTURE);
+      expect(createTranscriptionProviderFromEnv({}, { apiKey: 'key' }).type).toBe(TranscriptionProviderType.OPENAI);
+    });
+  });
+});
@@ -0,0 +1,471 @@
+/**
+ * Transcription Providers
+ * Speech-to-text adapters for the speech analysis engine: a local whisper.cpp
+ * engine that runs offline on CPU, the hosted OpenAI transcription API and a
+ * fixture provider for tests and demos
+ */
+
+import OpenAI, { toFile } from 'openai';
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { promisify } from 'util';
+import { logger } from '../utils/logger';
+import {
+  TranscriptionProvider,
+  TranscriptionProviderType,
+  TranscriptionProviderConfig,
+  TranscriptionRequest,
+  TranscriptionFixture,
+  FixtureWord,
+  TranscriptionProviderError
+} from '../types/transcription-provider';
+import {
+  AudioEncoding,
+  TranscriptionResult,
+  TranscriptionSegment,
+  WordSegment,
+  WhisperModel,
+  SpeechAnalysisErrorCode
+} from '../types/speech-analysis';
+
+const execFileAsync = promisify(execFile);
+
+// whisper.cpp ggml model files per size
+const LOCAL_MODEL_FILES: Record<WhisperModel, string> = {
+  [WhisperModel.TINY]: 'ggml-tiny.bin',
+  [WhisperModel.BASE]: 'ggml-base.bin',
+  [WhisperModel.SMALL]: 'ggml-small.bin',
+  [WhisperModel.MEDIUM]: 'ggml-medium.bin',
+  [WhisperModel.LARGE]: 'ggml-large-v3.bin'
+};
+
+// The hosted API serves a single Whisper size
+const HOSTED_MODELS: Record<WhisperModel, string> = {
+  [WhisperModel.TINY]: 'whisper-1',
+  [WhisperModel.BASE]: 'whisper-1',
+  [WhisperModel.SMALL]: 'whisper-1',
+  [WhisperModel.MEDIUM]: 'whisper-1',
+  [WhisperModel.LARGE]: 'whisper-1'
+};
+
+const LOCAL_SAMPLE_RATE = 16000;
+const MAX_SEGMENT_WORDS = 12;
+const FIXTURE_WORDS_PER_SECOND = 2.5;
+const FIXTURE_SENTENCE_PAUSE = 0.6;
+
+const DEFAULT_FIXTURE_TEXT = 'In my previous role I was responsible for a service that was running out of database capacity. ' +
+  'I profiled the slowest queries, added the missing indexes and moved reporting to a read replica. ' +
+  'Response times dropped by sixty percent and we avoided an expensive hardware upgrade.';
+
+interface TimedSegment {
+  text: string;
+  start: number;
+  end: number;
+  words: WordSegment[];
+}
+
+/**
+ * Adapter for the whisper.cpp command line tool. Audio is written to a
+ * temporary directory, resampled to 16 kHz mono WAV with ffmpeg when needed,
+ * and transcribed with full JSON output so every token carries its timing.
+ */
+export class LocalWhisperTranscriptionProvider implements TranscriptionProvider {
+  readonly type = TranscriptionProviderType.LOCAL_WHISPER;
+  private binaryPath: string;
+  private modelDirectory: string;
+  private ffmpegPath: string;
+  private threads: number;
+  private timeoutMs: number;
+  private models: Record<WhisperModel, string>;
+
+  constructor(config: {
+    binaryPath?: string;
+    modelDirectory?: string;
+    ffmpegPath?: string;
+    threads?: number;
+    timeoutMs?: number;
+    models?: Partial<Record<WhisperModel, string>>;
+  } = {}) {
+    this.binaryPath = config.binaryPath || 'whisper-cli';
+    this.modelDirectory = config.modelDirectory || path.join(process.cwd(), 'models');
+    this.ffmpegPath = config.ffmpegPath || 'ffmpeg';
+    this.threads = config.threads || Math.max(1, os.cpus().length - 1);
+    this.timeoutMs = config.timeoutMs || 120000;
+    this.models = { ...LOCAL_MODEL_FILES, ...config.models };
+  }
+
+  async transcribe(request: TranscriptionRequest): Promise<TranscriptionResult> {
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'whisper-'));
+
+    try {
+      const wavPath = await this.prepareAudio(request, workDir);
+      const outputBase = path.join(workDir, 'transcript');
+      const args = [
+        '-m', path.join(this.modelDirectory, this.models[request.model]),
+        '-f', wavPath,
+        '-l', request.language || 'auto',
+        '-t', String(this.threads),
+        '-oj', '-ojf',
+        '-of', outputBase,
+        '-np'
+      ];
+      if (request.prompt) {
+        args.push('--prompt', request.prompt);
+      }
+
+      await this.run(this.binaryPath, args);
+
+      const output = JSON.parse(await fs.readFile(`${outputBase}.json`, 'utf8'));
+      const segments = this.parseOutput(output);
+
+      return buildTranscriptionResult(
+        segments,
+        output.result?.language || request.language || '',
+        request.audio.duration
+      );
+    } catch (error: any) {
+      if (error instanceof TranscriptionProviderError) {
+        throw error;
+      }
+
+      throw new TranscriptionProviderError({
+        provider: this.type,
+        code: SpeechAnalysisErrorCode.TRANSCRIPTION_FAILED,
+        message: `Local transcription failed: ${error.message}`,
+        details: error
+      });
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true }).catch(() => undefined);
+    }
+  }
+
+  // whisper.cpp only reads 16 kHz WAV input
+  private async prepareAudio(request: TranscriptionRequest, workDir: string): Promise<string> {
+    const { audio } = request;
+    const inputPath = path.join(workDir, `input.${audio.format.extension || audio.format.encoding}`);
+    await fs.writeFile(inputPath, audio.buffer);
+
+    if (audio.format.encoding === AudioEncoding.WAV && audio.sampleRate === LOCAL_SAMPLE_RATE) {
+      return inputPath;
+    }
+
+    const wavPath = path.join(workDir, 'input-16k.wav');
+    await this.run(this.ffmpegPath, [
+      '-hide_banner', '-loglevel', 'error', '-y',
+      '-i', inputPath,
+      '-ar', String(LOCAL_SAMPLE_RATE), '-ac', '1', '-c:a', 'pcm_s16le',
+      wavPath
+    ]);
+
+    return wavPath;
+  }
+
+  private async run(command: string, args: string[]): Promise<void> {
+    try {
+      await execFileAsync(command, args, { timeout: this.timeoutMs, maxBuffer: 16 * 1024 * 1024 });
+    } catch (error: any) {
+      throw new TranscriptionProviderError({
+        provider: this.type,
+        code: error.code === 'ENOENT' ? SpeechAnalysisErrorCode.CONFIGURATION_ERROR : SpeechAnalysisErrorCode.TRANSCRIPTION_FAILED,
+        message: error.code === 'ENOENT'
+          ? `${command} is not installed or not on PATH`
+          : `${path.basename(command)} exited with an error: ${(error.stderr || error.message || '').toString().trim()}`,
+        details: { command, args }
+      });
+    }
+  }
+
+  /**
+   * Tokens are sub-word pieces; a token starting with a space begins a new word.
+   * Special tokens such as [_BEG_] and [_TT_150] carry no text.
+   */
+  private parseOutput(output: any): TimedSegment[] {
+    const segments: TimedSegment[] = [];
+
+    for (const segment of output.transcription || []) {
+      const words: WordSegment[] = [];
+      let current: { text: string; start: number; end: number; probabilities: number[] } | null = null;
+
+      const flush = () => {
+        if (current) {
+          const word = toWordSegment(current.text, current.start, current.end, average(current.probabilities));
+          if (word) {
+            words.push(word);
+          }
+        }
+        current = null;
+      };
+
+      for (const token of segment.tokens || []) {
+        const text: string = token.text || '';
+        if (!text || /^\[_?[A-Z_0-9]+_?\]$/.test(text.trim())) {
+          continue;
+        }
+
+        const start = (token.offsets?.from ?? 0) / 1000;
+        const end = (token.offsets?.to ?? 0) / 1000;
+
+        if (!current || /^\s/.test(text)) {
+          flush();
+          current = { text: text.trim(), start, end, probabilities: [token.p ?? 1] };
+        } else {
+          current.text += text;
+          current.end = end;
+          current.probabilities.push(token.p ?? 1);
+        }
+      }
+      flush();
+
+      if (words.length > 0) {
+        segments.push({
+          text: (segment.text || '').trim(),
+          start: (segment.offsets?.from ?? words[0].start * 1000) / 1000,
+          end: (segment.offsets?.to ?? words[words.length - 1].end * 1000) / 1000,
+          words
+        });
+      }
+    }
+
+    return segments;
+  }
+}
+
+/**
+ * Adapter for the hosted OpenAI transcription API, requesting word and
+ * segment timestamps in the verbose JSON format
+ */
+export class OpenAITranscriptionProvider implements TranscriptionProvider {
+  readonly type = TranscriptionProviderType.OPENAI;
+  private client: OpenAI;
+  private models: Record<WhisperModel, string>;
+
+  constructor(config: { apiKey?: string; baseUrl?: string; timeoutMs?: number; models?: Partial<Record<WhisperModel, string>> } = {}) {
+    this.client = new OpenAI({
+      apiKey: config.apiKey || process.env.OPENAI_API_KEY,
+      ...(config.baseUrl ? { baseURL: config.baseUrl } : {}),
+      ...(config.timeoutMs ? { timeout: config.timeoutMs } : {})
+    });
+    this.models = { ...HOSTED_MODELS, ...config.models };
+  }
+
+  async transcribe(request: TranscriptionRequest): Promise<TranscriptionResult> {
+    const { audio } = request;
+
+    let response;
+    try {
+      response = await this.client.audio.transcriptions.create({
+        file: await toFile(audio.buffer, `audio.${audio.format.extension || audio.format.encoding}`, { type: audio.format.mimeType }),
+        model: this.models[request.model],
+        language: request.language,
+        prompt: request.prompt,
+        response_format: 'verbose_json',
+        timestamp_granularities: ['word', 'segment']
+      });
+    } catch (error: any) {
+      throw new TranscriptionProviderError({
+        provider: this.type,
+        code: SpeechAnalysisErrorCode.WHISPER_API_ERROR,
+        message: `Transcription API request failed: ${error.message}`,
+        details: { status: error.status }
+      });
+    }
+
+    const words = response.words || [];
+    const segments: TimedSegment[] = (response.segments || []).map(segment => {
+      // Segment log probabilities are the only confidence signal the API returns
+      const confidence = Math.min(1, Math.exp(segment.avg_logprob));
+      return {
+        text: segment.text.trim(),
+        start: segment.start,
+        end: segment.end,
+        words: words
+          .filter(word => word.start >= segment.start && word.start < segment.end)
+          .map(word => toWordSegment(word.word, word.start, word.end, confidence))
+          .filter((word): word is WordSegment => word !== null)
+      };
+    });
+
+    // Without segment timestamps, fall back to grouping the words ourselves
+    const timed = segments.some(segment => segment.words.length > 0)
+      ? segments
+      : groupWords(words
+        .map(word => toWordSegment(word.word, word.start, word.end, 1))
+        .filter((word): word is WordSegment => word !== null));
+
+    return buildTranscriptionResult(timed, response.language || request.language || '', audio.duration);
+  }
+}
+
+/**
+ * Deterministic provider that returns canned transcripts. Used in tests and
+ * demos; with no fixtures it answers with a built-in interview response.
+ */
+export class FixtureTranscriptionProvider implements TranscriptionProvider {
+  readonly type = TranscriptionProviderType.FIXTURE;
+  private fixtures: TranscriptionFixture[];
+  private history: TranscriptionRequest[] = [];
+
+  constructor(fixtures: TranscriptionFixture[] = []) {
+    this.fixtures = [...fixtures];
+  }
+
+  async transcribe(request: TranscriptionRequest): Promise<TranscriptionResult> {
+    this.history.push(request);
+
+    const index = this.fixtures.findIndex(fixture =>
+      !fixture.language || !request.language || fixture.language === request.language);
+    const fixture: TranscriptionFixture = index >= 0 ? this.fixtures[index] : { text: DEFAULT_FIXTURE_TEXT };
+    if (index >= 0 && this.fixtures[index].once) {
+      this.fixtures.splice(index, 1);
+    }
+
+    const words = (fixture.words || this.timeWords(fixture.text, request.audio.duration))
+      .map(word => toWordSegment(word.word, word.start, word.end, word.confidence ?? 0.95))
+      .filter((word): word is WordSegment => word !== null);
+
+    return buildTranscriptionResult(groupWords(words), fixture.language || request.language || '', request.audio.duration);
+  }
+
+  /**
+   * Add fixtures after construction (e.g. per test case)
+   */
+  addFixtures(...fixtures: TranscriptionFixture[]): void {
+    this.fixtures.push(...fixtures);
+  }
+
+  /**
+   * Requests received so far, in call order
+   */
+  getHistory(): TranscriptionRequest[] {
+    return [...this.history];
+  }
+
+  // Spread words at a conversational pace with a short pause after each sentence
+  private timeWords(text: string, duration: number): FixtureWord[] {
+    const tokens = text.split(/\s+/).filter(Boolean);
+    const sentenceEnds = tokens.filter(token => /[.!?]$/.test(token)).length;
+    const naturalLength = tokens.length / FIXTURE_WORDS_PER_SECOND + sentenceEnds * FIXTURE_SENTENCE_PAUSE;
+    const scale = naturalLength > duration ? duration / naturalLength : 1;
+
+    const words: FixtureWord[] = [];
+    let time = 0;
+    for (const token of tokens) {
+      const end = time + scale / FIXTURE_WORDS_PER_SECOND;
+      words.push({ word: token, start: time, end });
+      time = end + (/[.!?]$/.test(token) ? scale * FIXTURE_SENTENCE_PAUSE : 0);
+    }
+
+    return words;
+  }
+}
+
+/**
+ * Create a provider from explicit configuration
+ */
+export function createTranscriptionProvider(config: TranscriptionProviderConfig): TranscriptionProvider {
+  switch (config.type) {
+    case TranscriptionProviderType.LOCAL_WHISPER:
+      return new LocalWhisperTranscriptionProvider(config);
+
+    case TranscriptionProviderType.OPENAI:
+      return new OpenAITranscriptionProvider(config);
+
+    case TranscriptionProviderType.FIXTURE:
+      return new FixtureTranscriptionProvider(config.fixtures);
+
+    default:
+      throw new TranscriptionProviderError({
+        provider: config.type,
+        code: SpeechAnalysisErrorCode.CONFIGURATION_ERROR,
+        message: `Unsupported transcription provider: ${config.type}`
+      });
+  }
+}
+
+/**
+ * Create a provider from environment variables.
+ *
+ * STT_PROVIDER selects the adapter (local_whisper | openai | fixture, default
+ * openai). WHISPER_CPP_PATH, WHISPER_MODEL_DIR, FFMPEG_PATH and
+ * WHISPER_THREADS configure the local engine; STT_API_KEY, STT_BASE_URL and
+ * STT_TIMEOUT_MS the hosted API, falling back to `defaults`.
+ */
+export function createTranscriptionProviderFromEnv(
+  env: NodeJS.ProcessEnv = process.env,
+  defaults: { apiKey?: string; baseUrl?: string } = {}
+): TranscriptionProvider {
+  const type = (env.STT_PROVIDER || TranscriptionProviderType.OPENAI) as TranscriptionProviderType;
+
+  logger.info('Creating transcription provider', { type });
+
+  return createTranscriptionProvider({
+    type,
+    apiKey: env.STT_API_KEY || defaults.apiKey || env.OPENAI_API_KEY,
+    baseUrl: env.STT_BASE_URL || defaults.baseUrl,
+    binaryPath: env.WHISPER_CPP_PATH,
+    modelDirectory: env.WHISPER_MODEL_DIR,
+    ffmpegPath: env.FFMPEG_PATH,
+    threads: env.WHISPER_THREADS ? parseInt(env.WHISPER_THREADS, 10) : undefined,
+    timeoutMs: env.STT_TIMEOUT_MS ? parseInt(env.STT_TIMEOUT_MS, 10) : undefined
+  });
+}
+
+function toWordSegment(text: string, start: number, end: number, confidence: number): WordSegment | null {
+  const word = text.trim().replace(/^[^\p{L}\p{N}']+|[^\p{L}\p{N}']+$/gu, '');
+  if (!word) {
+    return null;
+  }
+
+  const bounded = Math.max(0, Math.min(1, confidence));
+  return { word, start, end: Math.max(start, end), confidence: bounded, probability: bounded };
+}
+
+// Split a flat word list into segments at long gaps or every MAX_SEGMENT_WORDS words
+function groupWords(words: WordSegment[]): TimedSegment[] {
+  const segments: TimedSegment[] = [];
+  let current: WordSegment[] = [];
+
+  words.forEach((word, index) => {
+    current.push(word);
+    const next = words[index + 1];
+    if (!next || next.start - word.end >= 0.5 || current.length >= MAX_SEGMENT_WORDS) {
+      segments.push({
+        text: current.map(w => w.word).join(' '),
+        start: current[0].start,
+        end: current[current.length - 1].end,
+        words: current
+      });
+      current = [];
+    }
+  });
+
+  return segments;
+}
+
+function buildTranscriptionResult(segments: TimedSegment[], language: string, duration: number): TranscriptionResult {
+  const transcriptionSegments: TranscriptionSegment[] = segments.map((segment, id) => ({
+    id,
+    text: segment.text,
+    start: segment.start,
+    end: segment.end,
+    confidence: average(segment.words.map(word => word.confidence)),
+    words: segment.words
+  }));
+
+  const words = transcriptionSegments.flatMap(segment => segment.words);
+
+  return {
+    text: transcriptionSegments.map(segment => segment.text).join(' '),
+    segments: transcriptionSegments,
+    language,
+    confidence: average(words.map(word => word.confidence)),
+    wordCount: words.length,
+    duration
+  };
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
@@ -381,6 +381,71 @@ describe('UsageEnforcementService', () => {
       expect(result.reason).toContain('Usage limit exceeded');
     });
   });
+
+  describe('AI spend enforcement', () => {
+    const mockSubscription = {
+      subscription: {
+        id: 'sub-123',
+        userId: 'user-123',
+        currentPeriodStart: new Date('2024-01-01'),
+        currentPeriodEnd: new Date('2024-02-01'),
+      },
+      plan: { tier: SubscriptionTier.FREE, name: 'Free Plan' },
+      usage: {
+        interviewsUsed: 0,
+        analysisReportsGenerated: 0,
+        aiQuestionsUsed: 0,
+        recordingMinutesUsed: 0,
+        exportCount: 0,
+      },
+    };
+
+    it('should block AI usage once metered spend reaches the plan cap', async () => {
+      const aiSpendSource = {
+        getSubscriptionUsage: jest.fn().mockReturnValue({ totals: { costUsd: 0.5 } }),
+      };
+      const service = new UsageEnforcementService(mockSubscriptionService, aiSpendSource);
+      mockSubscriptionService.getSubscription.mockResolvedValue(mockSubscription as any);
+
+      const result = await service.enforceUsage('sub-123', UsageType.AI_SPEND, 1);
+
+      expect(result.allowed).toBe(false);
+      expect(result.reason).toContain('Current: 50, Limit: 50');
+      expect(aiSpendSource.getSubscriptionUsage).toHaveBeenCalledWith(expect.objectContaining({
+        id: 'sub-123',
+        userId: 'user-123',
+      }));
+    });
+
+    it('should treat AI spend as zero when no spend source is configured', async () => {
+      mockSubscriptionService.getSubscription.mockResolvedValue(mockSubscription as any);
+
+      const result = await usageEnforcementService.enforceUsage('sub-123', UsageType.AI_SPEND, 10);
+
+      expect(result.allowed).toBe(true);
+    });
+
+    it('should refuse model calls for users whose AI spend reached the cap', async () => {
+      const aiSpendSource = {
+        getSubscriptionUsage: jest.fn().mockReturnValue({ totals: { costUsd: 0.5 } }),
+      };
+      const service = new UsageEnforcementService(mockSubscriptionService, aiSpendSource);
+      mockSubscriptionService.getUserSubscription.mockImplementation(async (userId: string) =>
+        userId === 'user-123' ? mockSubscription as any : null
+      );
+
+      await expect(service.assertAISpendAvailable('user-123')).rejects.toEqual(expect.objectContaining({
+        code: 'USAGE_LIMIT_EXCEEDED',
+        usageType: UsageType.AI_SPEND,
+        currentUsage: 50,
+        limit: 50,
+      }));
+      await expect(service.assertAISpendAvailable('no-subscription')).resolves.toBeUndefined();
+
+      aiSpendSource.getSubscriptionUsage.mockReturnValue({ totals: { costUsd: 0.49 } });
+      await expect(service.assertAISpendAvailable('user-123')).resolves.toBeUndefined();
+    });
+  });
 });
 
 describe('Feature Access Control', () => {
@@ -6,7 +6,10 @@ import {
   UsageLimitExceededError,
   SubscriptionNotFoundError,
   PlanNotFoundError,
+  UserSubscription,
+  UsageMetrics,
 } from '../types';
+import { AISpendLimiter } from '../types/llm-usage';
 import { logger } from '../utils/logger';
 
 export interface UsageEnforcementRule {
@@ -26,6 +29,24 @@ export interface UsageWarning {
   upgradeRecommended: boolean;
 }
 
+/**
+ * Source of metered AI spend. LLM usage trackers satisfy this shape; spend
+ * for a subscription is its user's model spend within the billing period.
+ */
+export interface AISpendSource {
+  getSubscriptionUsage(subscription: {
+    id: string;
+    userId: string;
+    currentPeriodStart: Date;
+    currentPeriodEnd: Date;
+  }): { totals: { costUsd: number } } | Promise<{ totals: { costUsd: number } }>;
+}
+
+// Stored usage counters plus the metered AI spend for the billing period
+export interface MeteredUsageMetrics extends UsageMetrics {
+  aiSpendCents?: number;
+}
+
 export interface EnforcementResult {
   allowed: boolean;
   reason?: string;
@@ -34,7 +55,7 @@ export interface EnforcementResult {
   suggestedActions: string[];
 }
 
-export class UsageEnforcementService {
+export class UsageEnforcementService implements AISpendLimiter {
   private enforcementRules: UsageEnforcementRule[] = [
     {
       usageType: UsageType.INTERVIEW_STARTED,
@@ -92,9 +113,23 @@ export class UsageEnforcementService {
       resetPeriod: 'monthly',
       warningThreshold: 0.9,
     },
+    {
+      usageType: UsageType.AI_SPEND, // US cents
+      tierLimits: {
+        [SubscriptionTier.FREE]: 50,
+        [SubscriptionTier.BASIC]: 500,
+        [SubscriptionTier.PREMIUM]: 2500,
+        [SubscriptionTier.ENTERPRISE]: 20000,
+      },
+      resetPeriod: 'monthly',
+      warningThreshold: 0.8,
+    },
   ];
 
-  constructor(private subscriptionService: SubscriptionService) {}
+  constructor(
+    private subscriptionService: SubscriptionService,
+    private aiSpendSource?: AISpendSource
+  ) {}
 
   /**
    * Comprehensive usage enforcement check with warnings and suggestions
@@ -107,6 +142,7 @@ export class UsageEnforcementService {
     try {
       const subscription = await this.subscriptionService.getSubscription(subscriptionId);
       const rule = this.getEnforcementRule(usageType);
+      const usage = await this.withAISpend(subscription.subscription, subscription.usage);
       
       if (!rule) {
         // No enforcement rule, allow by default
@@ -119,7 +155,7 @@ export class UsageEnforcementService {
       }
 
       const limit = rule.tierLimits[subscription.plan.tier as SubscriptionTier];
-      const currentUsage = this.getCurrentUsageForType(subscription.usage, usageType);
+      const currentUsage = this.getCurrentUsageForType(usage, usageType);
       
       // Check if usage would exceed limit
       const wouldExceedLimit = (currentUsage + requestedQuantity) > limit;
@@ -208,11 +244,12 @@ export class UsageEnforcementService {
   async getUsageWarnings(subscriptionId: string): Promise<UsageWarning[]> {
     try {
       const subscription = await this.subscriptionService.getSubscription(subscriptionId);
+      const usage = await this.withAISpend(subscription.subscription, subscription.usage);
       const warnings: UsageWarning[] = [];
 
       for (const rule of this.enforcementRules) {
         const limit = rule.tierLimits[subscription.plan.tier as SubscriptionTier];
-        const currentUsage = this.getCurrentUsageForType(subscription.usage, rule.usageType);
+        const currentUsage = this.getCurrentUsageForType(usage, rule.usageType);
         
         const ruleWarnings = this.generateWarnings(
           subscription.plan.tier as SubscriptionTier,
@@ -238,11 +275,12 @@ export class UsageEnforcementService {
   async getUsageSummary(subscriptionId: string) {
     try {
       const subscription = await this.subscriptionService.getSubscription(subscriptionId);
+      const usage = await this.withAISpend(subscription.subscription, subscription.usage);
       const summary = [];
 
       for (const rule of this.enforcementRules) {
         const limit = rule.tierLimits[subscription.plan.tier as SubscriptionTier];
-        const currentUsage = this.getCurrentUsageForType(subscription.usage, rule.usageType);
+        const currentUsage = this.getCurrentUsageForType(usage, rule.usageType);
         const percentageUsed = (currentUsage / limit) * 100;
 
         summary.push({
@@ -267,6 +305,54 @@ export class UsageEnforcementService {
     }
   }
 
+  /**
+   * Refuse a model call once the user's plan has used its AI spend for the
+   * billing period. Users without a subscription are not capped here
+   */
+  async assertAISpendAvailable(userId: string): Promise<void> {
+    const subscription = await this.subscriptionService.getUserSubscription(userId);
+    if (!subscription) {
+      return;
+    }
+
+    const rule = this.getEnforcementRule(UsageType.AI_SPEND)!;
+    const limit = rule.tierLimits[subscription.plan.tier as SubscriptionTier];
+    const usage = await this.withAISpend(subscription.subscription, subscription.usage);
+    const currentUsage = this.getCurrentUsageForType(usage, UsageType.AI_SPEND);
+
+    if (currentUsage >= limit) {
+      throw new UsageLimitExceededError(
+        `AI usage limit reached for this billing period. Current: ${currentUsage}, Limit: ${limit}`,
+        UsageType.AI_SPEND,
+        currentUsage,
+        limit
+      );
+    }
+  }
+
+  /**
+   * Attach metered AI spend (in cents) to the stored usage counters
+   */
+  private async withAISpend(subscription: UserSubscription, usage: UsageMetrics): Promise<MeteredUsageMetrics> {
+    if (!this.aiSpendSource || !subscription) {
+      return usage;
+    }
+
+    try {
+      const spend = await this.aiSpendSource.getSubscriptionUsage({
+        id: subscription.id,
+        userId: subscription.userId,
+        currentPeriodStart: new Date(subscription.currentPeriodStart),
+        currentPeriodEnd: new Date(subscription.currentPeriodEnd),
+      });
+
+      return { ...usage, aiSpendCents: Math.round(spend.totals.costUsd * 100) };
+    } catch (error) {
+      logger.error('Failed to load AI spend', { error, subscriptionId: subscription.id });
+      return usage;
+    }
+  }
+
   private getEnforcementRule(usageType: UsageType): UsageEnforcementRule | undefined {
     return this.enforcementRules.find(rule => rule.usageType === usageType);
   }
@@ -284,6 +370,8 @@ export class UsageEnforcementService {
         return usage.recordingMinutesUsed || 0;
       case UsageType.REPORT_EXPORTED:
         return usage.exportCount || 0;
+      case UsageType.AI_SPEND:
+        return usage.aiSpendCents || 0;
       default:
         return 0;
     }
@@ -350,6 +438,9 @@ export class UsageEnforcementService {
         case UsageType.REPORT_EXPORTED:
           actions.push('Export reports for your most important interviews');
           break;
+        case UsageType.AI_SPEND:
+          actions.push('Use shorter practice sessions to reduce AI usage');
+          break;
       }
     }
 
@@ -3,6 +3,8 @@
  * Defines interfaces for real-time communication signaling
  */
 
+import { Question, SessionState } from './interview-config';
+
 export interface SignalingMessage {
   type: SignalingMessageType;
   sessionId: string;
@@ -25,6 +27,12 @@ export enum SignalingMessageType {
   
   // Media control
   MEDIA_STATE_CHANGE = 'media_state_change',
+
+  // Reconnection
+  RESUME_SESSION = 'resume_session',
+  SESSION_RESUMED = 'session_resumed',
+  USER_DISCONNECTED = 'user_disconnected',
+  USER_RECONNECTED = 'user_reconnected',
   RECORDING_START = 'recording_start',
   RECORDING_STOP = 'recording_stop',
   
@@ -35,8 +43,8 @@ export enum SignalingMessageType {
 
 export interface JoinSessionData {
   sessionId: string;
-  userId: string;
-  userRole: 'interviewer' | 'interviewee';
+  userId?: string; // Must match the authenticated user when sent
+  userRole?: 'interviewer' | 'interviewee'; // Must match the role the session grants when sent
   mediaConstraints: MediaConstraints;
 }
 
@@ -114,6 +122,19 @@ export interface SignalingServerConfig {
   maxSessionDuration: number; // milliseconds
   heartbeatInterval: number; // milliseconds
   connectionTimeout: number; // milliseconds
+  reconnectGracePeriod?: number; // milliseconds a dropped participant's slot is held
+}
+
+export interface ResumeSessionData {
+  sessionId: string;
+  resumeToken: string; // Issued with session_joined and every session_resumed
+}
+
+// Where the interview stands when a participant comes back
+export interface InterviewResumeState {
+  state: SessionState;
+  currentQuestionIndex: number;
+  currentQuestion?: Question;
 }
 
 export interface SignalingError {
@@ -128,5 +149,37 @@ export enum SignalingErrorCode {
   INVALID_MESSAGE_FORMAT = 'INVALID_MESSAGE_FORMAT',
   CONNECTION_TIMEOUT = 'CONNECTION_TIMEOUT',
   MEDIA_SETUP_FAILED = 'MEDIA_SETUP_FAILED',
-  RECORDING_FAILED = 'RECORDING_FAILED'
+  RECORDING_FAILED = 'RECORDING_FAILED',
+  AUTHENTICATION_FAILED = 'AUTHENTICATION_FAILED',
+  SESSION_ACCESS_DENIED = 'SESSION_ACCESS_DENIED',
+  IDENTITY_MISMATCH = 'IDENTITY_MISMATCH',
+  RESUMPTION_FAILED = 'RESUMPTION_FAILED'
+}
+
+// Authenticated user behind a socket, taken from its handshake token
+export interface SignalingIdentity {
+  userId: string;
+  email: string;
+}
+
+export interface SignalingTokenVerifier {
+  verifyAccessToken(token: string): SignalingIdentity;
+}
+
+export interface SignalingSessionAuthorizer {
+  // Role the user holds in the session, or null when they may not join it
+  authorize(userId: string, sessionId: string): Promise<'interviewer' | 'interviewee' | null>;
+}
+
+// Keeps the interview in step with participants dropping and coming back
+export interface SignalingSessionLifecycle {
+  participantDisconnected(participant: PeerConnection): Promise<void>;
+  participantResumed(participant: PeerConnection): Promise<InterviewResumeState | null>;
+  participantExpired(participant: PeerConnection): Promise<void>; // The grace period ran out without a resume
+}
+
+export interface SignalingServerOptions {
+  tokenVerifier?: SignalingTokenVerifier;
+  authorizer?: SignalingSessionAuthorizer;
+  lifecycle?: SignalingSessionLifecycle;
 }
\ No newline at end of file